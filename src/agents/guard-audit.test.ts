@@ -0,0 +1,100 @@
+import { describe, expect, test } from "bun:test";
+import type { StoredEvent } from "../types.ts";
+import {
+	buildGuardDecisionEvent,
+	evaluateGuardedCall,
+	GUARD_TARGET_MAX_LENGTH,
+	type GuardedCall,
+	parseGuardDecision,
+	summarizeGuardDecisions,
+} from "./guard-audit.ts";
+import { resolveGuardRules } from "./guard-policy.ts";
+
+const CTX = { agentName: "builder-1", worktreePath: "/project/.overstory/worktrees/builder-1" };
+
+let nextId = 1;
+
+function decisionEvent(agentName: string, call: Partial<GuardedCall> = {}): StoredEvent {
+	const insert = buildGuardDecisionEvent(agentName, null, {
+		toolName: "Bash",
+		decision: "block",
+		rule: "path-boundary",
+		reason: "Path boundary violation: target is outside your assigned worktree",
+		capability: "builder",
+		target: "cp a /etc/hosts",
+		...call,
+	});
+	return { ...insert, id: nextId++, createdAt: new Date().toISOString() };
+}
+
+describe("evaluateGuardedCall", () => {
+	test("evaluates Bash commands and write targets, normalizing Pi tool names", () => {
+		const rules = resolveGuardRules("builder");
+		expect(evaluateGuardedCall(rules, "bash", { command: "git push origin main" }, CTX)).toEqual({
+			toolName: "Bash",
+			decision: "block",
+			rule: "git-push",
+			reason: "git push is blocked — use ov merge to integrate changes, push manually when ready",
+			capability: "builder",
+			target: "git push origin main",
+		});
+		expect(evaluateGuardedCall(rules, "write", { path: "/etc/passwd" }, CTX)).toMatchObject({
+			toolName: "Write",
+			rule: "path-boundary",
+			target: "/etc/passwd",
+		});
+		expect(evaluateGuardedCall(rules, "Edit", { file_path: "src/a.ts" }, CTX)?.rule).toBe(
+			"worktree",
+		);
+		expect(evaluateGuardedCall(rules, "Task", {}, CTX)?.rule).toBe("team-tool");
+	});
+
+	test("skips tools no guard inspects and truncates long commands", () => {
+		const rules = resolveGuardRules("scout");
+		expect(evaluateGuardedCall(rules, "Read", { file_path: "/etc/hosts" }, CTX)).toBeNull();
+
+		const long = `grep ${"x".repeat(500)}`;
+		const call = evaluateGuardedCall(rules, "Bash", { command: long }, CTX);
+		expect(call?.decision).toBe("allow");
+		expect(call?.target).toHaveLength(GUARD_TARGET_MAX_LENGTH + 1);
+	});
+});
+
+describe("parseGuardDecision", () => {
+	test("round-trips the event data and ignores other events", () => {
+		const event = decisionEvent("builder-1");
+		expect(event.level).toBe("warn");
+		expect(parseGuardDecision(event)).toMatchObject({ decision: "block", rule: "path-boundary" });
+		expect(parseGuardDecision({ ...event, eventType: "tool_start" })).toBeNull();
+		expect(parseGuardDecision({ ...event, data: "not json" })).toBeNull();
+	});
+});
+
+describe("summarizeGuardDecisions", () => {
+	test("groups blocks per agent and rule and flags repeated blocks", () => {
+		const events = [
+			decisionEvent("builder-1"),
+			decisionEvent("builder-1", { toolName: "Write", target: "/etc/passwd" }),
+			decisionEvent("builder-1"),
+			decisionEvent("builder-2"),
+			decisionEvent("scout-1", { rule: "read-only", capability: "scout" }),
+			decisionEvent("scout-1", { decision: "allow", rule: "safe-prefix" }),
+		];
+
+		const report = summarizeGuardDecisions(events);
+		expect(report).toMatchObject({ decisions: 6, allows: 1, blocks: 5 });
+		expect(report.groups[0]).toMatchObject({
+			agentName: "builder-1",
+			rule: "path-boundary",
+			count: 3,
+			tools: ["Bash", "Write"],
+			lastTarget: "cp a /etc/hosts",
+		});
+		expect(report.rules).toEqual([
+			{ rule: "path-boundary", blocks: 4, agents: 2 },
+			{ rule: "read-only", blocks: 1, agents: 1 },
+		]);
+		expect(report.repeated.map((g) => g.agentName)).toEqual(["builder-1"]);
+		expect(summarizeGuardDecisions(events, { repeatThreshold: 1 }).repeated).toHaveLength(3);
+	});
+});
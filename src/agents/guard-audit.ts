@@ -0,0 +1,240 @@
+/**
+ * Guard decision audit log.
+ *
+ * Claude Code guards are PreToolUse shell hooks and the Pi guards run inside
+ * the Pi process; neither can write to the EventStore cheaply. Instead,
+ * `ov log tool-start` (which both runtimes already call before every tool)
+ * re-evaluates the call with the guard policy engine the guards are compiled
+ * from and records the decision as a `guard_decision` event. `ov guards
+ * report` summarizes those events.
+ */
+
+import type { InsertEvent, StoredEvent } from "../types.ts";
+import {
+	evaluateBashCommand,
+	evaluateToolCall,
+	type GuardDecision,
+	type ResolvedGuardRules,
+	toolBlockReason,
+} from "./guard-policy.ts";
+import { WRITE_TOOLS } from "./guard-rules.ts";
+
+/** Max characters of a command or file path stored with a guard decision. */
+export const GUARD_TARGET_MAX_LENGTH = 200;
+
+/** Pi tool names (lowercase) mapped to the Claude Code names the engine uses. */
+const PI_TOOL_NAMES: Record<string, string> = { bash: "Bash", write: "Write", edit: "Edit" };
+
+/** Parsed `data` payload of a guard_decision event. */
+export interface GuardDecisionData {
+	decision: GuardDecision["decision"];
+	rule: string;
+	reason: string;
+	capability: string;
+	/** Bash command or file path, truncated to GUARD_TARGET_MAX_LENGTH. */
+	target: string | null;
+}
+
+/** A guard decision with its tool, ready to record. */
+export interface GuardedCall extends GuardDecisionData {
+	toolName: string;
+}
+
+function truncate(text: string, maxLen: number): string {
+	return text.length > maxLen ? `${text.slice(0, maxLen)}…` : text;
+}
+
+/**
+ * Evaluate a tool call the way the agent's guards do.
+ *
+ * Returns null for tools no guard inspects (Read, Grep, ...), so ordinary
+ * reads do not flood the audit log.
+ *
+ * @param toolInput - Raw tool input (Claude Code `tool_input` or Pi `event.input`)
+ */
+export function evaluateGuardedCall(
+	rules: ResolvedGuardRules,
+	toolName: string,
+	toolInput: Record<string, unknown>,
+	ctx: { agentName: string; worktreePath: string },
+): GuardedCall | null {
+	const tool = PI_TOOL_NAMES[toolName] ?? toolName;
+	let target: string | null = null;
+	let result: GuardDecision;
+
+	if (tool === "Bash") {
+		target = typeof toolInput.command === "string" ? toolInput.command : "";
+		result = evaluateBashCommand(rules, target, ctx);
+	} else if (WRITE_TOOLS.includes(tool) || toolBlockReason(rules, tool) !== null) {
+		const path = toolInput.file_path ?? toolInput.notebook_path ?? toolInput.path;
+		target = typeof path === "string" && path !== "" ? path : null;
+		result = evaluateToolCall(rules, tool, {
+			worktreePath: ctx.worktreePath,
+			filePath: target ?? undefined,
+		});
+	} else {
+		return null;
+	}
+
+	return {
+		toolName: tool,
+		decision: result.decision,
+		rule: result.rule,
+		reason: result.reason,
+		capability: rules.capability,
+		target: target === null ? null : truncate(target, GUARD_TARGET_MAX_LENGTH),
+	};
+}
+
+/**
+ * Build the EventStore row for a guard decision. Blocks are logged at warn
+ * level so they show up highlighted in `ov feed`; allows at debug.
+ */
+export function buildGuardDecisionEvent(
+	agentName: string,
+	sessionId: string | null,
+	call: GuardedCall,
+): InsertEvent {
+	const data: GuardDecisionData = {
+		decision: call.decision,
+		rule: call.rule,
+		reason: call.reason,
+		capability: call.capability,
+		target: call.target,
+	};
+	return {
+		runId: null,
+		agentName,
+		sessionId,
+		eventType: "guard_decision",
+		toolName: call.toolName,
+		toolArgs: null,
+		toolDurationMs: null,
+		level: call.decision === "block" ? "warn" : "debug",
+		data: JSON.stringify(data),
+	};
+}
+
+/** Parse a guard_decision event's data, or null for other events and malformed data. */
+export function parseGuardDecision(event: StoredEvent): GuardDecisionData | null {
+	if (event.eventType !== "guard_decision" || event.data === null) {
+		return null;
+	}
+	try {
+		const data = JSON.parse(event.data) as Partial<GuardDecisionData>;
+		if ((data.decision !== "allow" && data.decision !== "block") || typeof data.rule !== "string") {
+			return null;
+		}
+		return {
+			decision: data.decision,
+			rule: data.rule,
+			reason: data.reason ?? "",
+			capability: data.capability ?? "unknown",
+			target: data.target ?? null,
+		};
+	} catch {
+		return null;
+	}
+}
+
+/** Blocks of one rule for one agent. */
+export interface GuardBlockGroup {
+	agentName: string;
+	capability: string;
+	rule: string;
+	count: number;
+	/** Tools the rule blocked, in first-seen order. */
+	tools: string[];
+	lastReason: string;
+	lastTarget: string | null;
+	firstAt: string;
+	lastAt: string;
+}
+
+/** Blocks of one rule across all agents. */
+export interface GuardRuleSummary {
+	rule: string;
+	blocks: number;
+	agents: number;
+}
+
+/** Summary produced by `ov guards report`. */
+export interface GuardReport {
+	decisions: number;
+	allows: number;
+	blocks: number;
+	/** Blocks grouped by agent and rule, most frequent first. */
+	groups: GuardBlockGroup[];
+	/** Blocks per rule, most frequent first. */
+	rules: GuardRuleSummary[];
+	/** Groups with at least `repeatThreshold` blocks. */
+	repeated: GuardBlockGroup[];
+}
+
+/**
+ * Summarize guard_decision events: blocks per agent and rule, blocks per rule,
+ * and the agents that repeatedly hit the same guard.
+ *
+ * @param events - Events in chronological order (non-guard events are ignored)
+ * @param opts.repeatThreshold - Blocks of one rule before an agent is flagged (default: 3)
+ */
+export function summarizeGuardDecisions(
+	events: StoredEvent[],
+	opts: { repeatThreshold?: number } = {},
+): GuardReport {
+	const threshold = opts.repeatThreshold ?? 3;
+	const groups = new Map<string, GuardBlockGroup>();
+	let allows = 0;
+	let blocks = 0;
+
+	for (const event of events) {
+		const data = parseGuardDecision(event);
+		if (data === null) continue;
+		if (data.decision === "allow") {
+			allows++;
+			continue;
+		}
+		blocks++;
+		const key = `${event.agentName}\0${data.rule}`;
+		const group = groups.get(key);
+		if (group === undefined) {
+			groups.set(key, {
+				agentName: event.agentName,
+				capability: data.capability,
+				rule: data.rule,
+				count: 1,
+				tools: event.toolName !== null ? [event.toolName] : [],
+				lastReason: data.reason,
+				lastTarget: data.target,
+				firstAt: event.createdAt,
+				lastAt: event.createdAt,
+			});
+			continue;
+		}
+		group.count++;
+		if (event.toolName !== null && !group.tools.includes(event.toolName)) {
+			group.tools.push(event.toolName);
+		}
+		group.lastReason = data.reason;
+		group.lastTarget = data.target;
+		group.lastAt = event.createdAt;
+	}
+
+	const sorted = [...groups.values()].sort((a, b) => b.count - a.count);
+	const byRule = new Map<string, GuardRuleSummary>();
+	for (const group of sorted) {
+		const summary = byRule.get(group.rule) ?? { rule: group.rule, blocks: 0, agents: 0 };
+		summary.blocks += group.count;
+		summary.agents++;
+		byRule.set(group.rule, summary);
+	}
+
+	return {
+		decisions: allows + blocks,
+		allows,
+		blocks,
+		groups: sorted,
+		rules: [...byRule.values()].sort((a, b) => b.blocks - a.blocks),
+		repeated: sorted.filter((g) => g.count >= threshold),
+	};
+}
@@ -0,0 +1,151 @@
+import { describe, expect, test } from "bun:test";
+import type { GuardPolicy } from "../types.ts";
+import {
+	argvPrefixPattern,
+	evaluateBashCommand,
+	evaluateToolCall,
+	pathGlobToRegex,
+	resolveGuardRules,
+} from "./guard-policy.ts";
+import { NATIVE_TEAM_TOOLS, SAFE_BASH_PREFIXES } from "./guard-rules.ts";
+
+const CTX = { agentName: "scout-1", worktreePath: "/project/.overstory/worktrees/scout-1" };
+
+describe("resolveGuardRules", () => {
+	test("built-ins only: scouts are read-only, builders get the path boundary", () => {
+		const scout = resolveGuardRules("scout");
+		expect(scout.readOnly).toBe(true);
+		expect(scout.writeTools).toEqual(["Write", "Edit", "NotebookEdit"]);
+		expect(scout.safePrefixes).toEqual(expect.arrayContaining(SAFE_BASH_PREFIXES));
+		expect(scout.denyRules).toEqual([]);
+
+		const builder = resolveGuardRules("builder");
+		expect(builder.readOnly).toBe(false);
+		expect(builder.implementation).toBe(true);
+		expect(builder.writeTools).toEqual([]);
+		expect(builder.teamTools).toEqual(NATIVE_TEAM_TOOLS);
+	});
+
+	test("capability sections override defaults for tool and network lists", () => {
+		const policy: GuardPolicy = {
+			defaults: { tools: { deny: ["WebFetch"] }, network: { deny: ["curl", "wget"] } },
+			capabilities: {
+				scout: { tools: { allow: ["WebFetch", "Task"] }, network: { allow: ["curl"] } },
+			},
+		};
+		const scout = resolveGuardRules("scout", { policy });
+		expect(scout.deniedTools).toEqual([]);
+		expect(scout.teamTools).not.toContain("Task");
+		expect(scout.denyRules.map((r) => r.reason)).toEqual([
+			"Network access via wget is denied by policy for scout agents",
+		]);
+
+		const builder = resolveGuardRules("builder", { policy });
+		expect(builder.deniedTools).toEqual(["WebFetch"]);
+		expect(builder.denyRules).toHaveLength(2);
+	});
+
+	test("bash and path rules from defaults and the capability are combined", () => {
+		const rules = resolveGuardRules("reviewer", {
+			policy: {
+				defaults: { bash: { allow: { prefixes: ["make lint"] } }, paths: { deny: [".env"] } },
+				capabilities: { reviewer: { bash: { allow: { patterns: ["^cargo\\s+check\\b"] } } } },
+			},
+		});
+		expect(rules.allowPatterns).toEqual([argvPrefixPattern("make lint"), "^cargo\\s+check\\b"]);
+		expect(rules.pathDeny).toEqual([".env"]);
+	});
+});
+
+describe("argvPrefixPattern", () => {
+	test("matches whole arguments and escapes regex metacharacters", () => {
+		const re = new RegExp(argvPrefixPattern("cargo check"));
+		expect(re.test("cargo check --all")).toBe(true);
+		expect(re.test("  cargo   check")).toBe(true);
+		expect(re.test("cargo checkout")).toBe(false);
+		expect(new RegExp(argvPrefixPattern("g++ -v")).test("g++ -v")).toBe(true);
+	});
+});
+
+describe("pathGlobToRegex", () => {
+	test("* matches across directories and ? matches one character", () => {
+		const re = new RegExp(pathGlobToRegex("/wt/secrets/*.pem"));
+		expect(re.test("/wt/secrets/a/b.pem")).toBe(true);
+		expect(re.test("/wt/secrets.pem")).toBe(false);
+		expect(new RegExp(pathGlobToRegex("/wt/.env?")).test("/wt/.envs")).toBe(true);
+	});
+});
+
+describe("evaluateBashCommand", () => {
+	test("universal guards apply to every capability", () => {
+		const rules = resolveGuardRules("builder");
+		expect(evaluateBashCommand(rules, "git push origin main", CTX).reason).toContain(
+			"git push is blocked",
+		);
+		expect(evaluateBashCommand(rules, "git checkout -b feature/x", CTX).reason).toContain(
+			"overstory/scout-1/",
+		);
+	});
+
+	test("read-only capabilities: safe prefixes and policy allows pass, file changes are blocked", () => {
+		const rules = resolveGuardRules("scout", {
+			policy: { capabilities: { scout: { bash: { allow: { prefixes: ["cargo check"] } } } } },
+		});
+		expect(evaluateBashCommand(rules, "git log --oneline", CTX)).toEqual({
+			decision: "allow",
+			rule: "safe-prefix",
+			reason: 'safe prefix "git log"',
+		});
+		expect(evaluateBashCommand(rules, "cargo check > out.txt", CTX).decision).toBe("allow");
+		expect(evaluateBashCommand(rules, "echo hi > notes.md", CTX)).toEqual({
+			decision: "block",
+			rule: "read-only",
+			reason: "scout agents cannot modify files — this command is not allowed",
+		});
+	});
+
+	test("policy denies win over safe prefixes", () => {
+		const rules = resolveGuardRules("scout", {
+			policy: { defaults: { bash: { deny: { patterns: ["\\bov\\s+merge\\b"] } } } },
+		});
+		expect(evaluateBashCommand(rules, "ov merge --all", CTX).decision).toBe("block");
+	});
+
+	test("implementation capabilities: absolute paths are checked against the path rules", () => {
+		const rules = resolveGuardRules("builder", {
+			policy: {
+				capabilities: { builder: { paths: { allow: ["/var/cache/*"], deny: ["*.lock"] } } },
+			},
+		});
+		expect(evaluateBashCommand(rules, "cp a /etc/hosts", CTX).reason).toContain(
+			"Path boundary violation",
+		);
+		expect(evaluateBashCommand(rules, "cp a /var/cache/a", CTX).decision).toBe("allow");
+		expect(evaluateBashCommand(rules, "cp a /tmp/a", CTX).decision).toBe("allow");
+		expect(evaluateBashCommand(rules, `rm ${CTX.worktreePath}/bun.lock`, CTX)).toEqual({
+			decision: "block",
+			rule: "policy-path-deny",
+			reason: "Path denied by policy: *.lock",
+		});
+	});
+});
+
+describe("evaluateToolCall", () => {
+	test("reports built-in and policy tool blocks and checks write paths", () => {
+		const policy: GuardPolicy = { capabilities: { builder: { tools: { deny: ["WebSearch"] } } } };
+		const builder = resolveGuardRules("builder", { policy });
+		expect(evaluateToolCall(builder, "Task", CTX).reason).toContain("ov sling");
+		expect(evaluateToolCall(builder, "WebSearch", CTX).reason).toBe(
+			"WebSearch is denied by policy for builder agents",
+		);
+		expect(evaluateToolCall(builder, "Write", { ...CTX, filePath: "src/a.ts" }).decision).toBe(
+			"allow",
+		);
+		expect(evaluateToolCall(builder, "Write", { ...CTX, filePath: "/tmp/a.ts" }).decision).toBe(
+			"block",
+		);
+		expect(evaluateToolCall(resolveGuardRules("scout"), "Edit", CTX).reason).toContain(
+			"scout agents cannot modify files",
+		);
+	});
+});
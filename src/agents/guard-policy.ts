@@ -0,0 +1,392 @@
+/**
+ * Guard policy engine.
+ *
+ * Resolves the effective guard rules for a capability: the built-in rules in
+ * guard-rules.ts, then the policy's `defaults`, then the policy's section for
+ * the capability. Both guard compilers consume the result — hooks-deployer.ts
+ * (Claude Code PreToolUse shell scripts) and runtimes/pi-guards.ts (the Pi
+ * guard extension) — and `ov policy test` evaluates it directly, so all three
+ * make the same decision for the same command.
+ */
+
+import { DEFAULT_QUALITY_GATES } from "../config.ts";
+import type { GuardPolicy, GuardPolicyRules, QualityGate } from "../types.ts";
+import {
+	BASH_BOUNDARY_EXEMPT_PREFIXES,
+	COORDINATION_CAPABILITIES,
+	COORDINATION_SAFE_PREFIXES,
+	DANGEROUS_BASH_PATTERNS,
+	FILE_MODIFYING_BASH_PATTERNS,
+	IMPLEMENTATION_CAPABILITIES,
+	INTERACTIVE_TOOLS,
+	NATIVE_TEAM_TOOLS,
+	NON_IMPLEMENTATION_CAPABILITIES,
+	SAFE_BASH_PREFIXES,
+	UNIVERSAL_BASH_DENY,
+	WRITE_TOOLS,
+} from "./guard-rules.ts";
+
+/** A Bash regex that blocks matching commands, with the reason shown to the agent. */
+export interface BashDenyRule {
+	/** Rule id recorded in the guard audit log (e.g. "git-push", "policy-network-deny"). */
+	rule: string;
+	pattern: string;
+	reason: string;
+}
+
+/** Effective guard rules for one capability. */
+export interface ResolvedGuardRules {
+	capability: string;
+	/** Block file-modifying Bash commands (non-implementation capabilities). */
+	readOnly: boolean;
+	/** Check absolute paths in file-modifying Bash commands (builder/merger). */
+	implementation: boolean;
+	/** Native team/task tools still blocked after policy allows. */
+	teamTools: string[];
+	/** Interactive tools still blocked after policy allows. */
+	interactiveTools: string[];
+	/** Write tools blocked for read-only capabilities (empty otherwise). */
+	writeTools: string[];
+	/** Additional tools denied by the policy. */
+	deniedTools: string[];
+	/** Literal command prefixes exempt from the read-only block (built-ins and quality gates). */
+	safePrefixes: string[];
+	/** Regexes exempt from the read-only block (policy `bash.allow`). */
+	allowPatterns: string[];
+	/** Regexes blocked for read-only capabilities unless exempt. */
+	dangerousPatterns: string[];
+	/** Regexes blocked for this capability regardless of exemptions (policy `bash.deny` and `network.deny`). */
+	denyRules: BashDenyRule[];
+	/** Path globs writes may target outside the worktree. */
+	pathAllow: string[];
+	/** Path globs writes may never target. */
+	pathDeny: string[];
+}
+
+/** Outcome of evaluating a tool call against resolved guard rules. */
+export interface GuardDecision {
+	decision: "allow" | "block";
+	/** Id of the rule that decided, e.g. "path-boundary" ("default" when no rule matched). */
+	rule: string;
+	/** Block reason shown to the agent, or why the call is allowed. */
+	reason: string;
+}
+
+/**
+ * Extract command prefixes from quality gate configurations.
+ *
+ * Each gate's command is used as a safe prefix so non-implementation agents
+ * can still run quality gate commands (e.g., reviewers running tests).
+ * This makes the safe prefix list configurable instead of hardcoding
+ * specific tool commands like "bun test".
+ */
+export function extractQualityGatePrefixes(gates: QualityGate[]): string[] {
+	return gates.map((g) => g.command);
+}
+
+/** Escape regex metacharacters (valid in both grep -E and JavaScript). */
+function escapeRegex(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Compile an argv prefix to a regex: words match whole arguments, so
+ * "cargo check" matches "cargo check --all" but not "cargo checkout".
+ */
+export function argvPrefixPattern(prefix: string): string {
+	const words = prefix.trim().split(/\s+/).map(escapeRegex);
+	return `^\\s*${words.join("\\s+")}(\\s|$)`;
+}
+
+/** Compile a network command name to a regex matching it in command position. */
+export function networkCommandPattern(command: string): string {
+	return `(^|[;&|(\`])\\s*${escapeRegex(command)}(\\s|$)`;
+}
+
+/**
+ * Resolve a path glob to an absolute glob. Relative globs are anchored at
+ * the worktree (`$OVERSTORY_WORKTREE_PATH` in shell scripts).
+ */
+export function resolvePathGlob(glob: string, worktreePath: string): string {
+	return glob.startsWith("/") ? glob : `${worktreePath}/${glob.replace(/^\.\//, "")}`;
+}
+
+/** Convert an absolute path glob to an anchored regex (`*` also matches `/`, like shell `case`). */
+export function pathGlobToRegex(glob: string): string {
+	const body = glob
+		.split("")
+		.map((ch) => (ch === "*" ? ".*" : ch === "?" ? "." : escapeRegex(ch)))
+		.join("");
+	return `^${body}$`;
+}
+
+/** Apply one policy layer to a blocked-name list: drop its allows, then add its denies. */
+function applyLayer(blocked: string[], rules: { allow?: string[]; deny?: string[] } | undefined) {
+	const allowed = new Set(rules?.allow ?? []);
+	const result = blocked.filter((name) => !allowed.has(name));
+	for (const name of rules?.deny ?? []) {
+		if (!result.includes(name)) result.push(name);
+	}
+	return result;
+}
+
+/**
+ * Resolve the effective guard rules for a capability.
+ *
+ * Tool and network lists are layered: built-ins, then `defaults`, then the
+ * capability's section; each layer removes its `allow` entries before adding
+ * its `deny` entries. Bash and path rules from both layers are combined, and
+ * their denies always win over allows.
+ *
+ * @param capability - Agent capability (builder, scout, ...)
+ * @param opts.policy - Guard policy from config (omit for built-ins only)
+ * @param opts.qualityGates - Quality gates whose commands are safe prefixes (default: DEFAULT_QUALITY_GATES)
+ */
+export function resolveGuardRules(
+	capability: string,
+	opts: { policy?: GuardPolicy; qualityGates?: QualityGate[] } = {},
+): ResolvedGuardRules {
+	const layers: Array<GuardPolicyRules | undefined> = [
+		opts.policy?.defaults,
+		opts.policy?.capabilities?.[capability],
+	];
+	const readOnly = NON_IMPLEMENTATION_CAPABILITIES.includes(capability);
+	const builtinTools = [
+		...NATIVE_TEAM_TOOLS,
+		...INTERACTIVE_TOOLS,
+		...(readOnly ? WRITE_TOOLS : []),
+	];
+
+	let blockedTools = builtinTools;
+	let blockedNetwork: string[] = [];
+	for (const layer of layers) {
+		blockedTools = applyLayer(blockedTools, layer?.tools);
+		blockedNetwork = applyLayer(blockedNetwork, layer?.network);
+	}
+
+	const allowPatterns: string[] = [];
+	const denyRules: BashDenyRule[] = [];
+	const pathAllow: string[] = [];
+	const pathDeny: string[] = [];
+	for (const layer of layers) {
+		for (const prefix of layer?.bash?.allow?.prefixes ?? []) {
+			allowPatterns.push(argvPrefixPattern(prefix));
+		}
+		allowPatterns.push(...(layer?.bash?.allow?.patterns ?? []));
+		for (const prefix of layer?.bash?.deny?.prefixes ?? []) {
+			denyRules.push({
+				rule: "policy-bash-deny",
+				pattern: argvPrefixPattern(prefix),
+				reason: `Policy denies "${prefix}" for ${capability} agents`,
+			});
+		}
+		for (const pattern of layer?.bash?.deny?.patterns ?? []) {
+			denyRules.push({
+				rule: "policy-bash-deny",
+				pattern,
+				reason: `Policy denies commands matching ${pattern} for ${capability} agents`,
+			});
+		}
+		pathAllow.push(...(layer?.paths?.allow ?? []));
+		pathDeny.push(...(layer?.paths?.deny ?? []));
+	}
+	for (const command of blockedNetwork) {
+		denyRules.push({
+			rule: "policy-network-deny",
+			pattern: networkCommandPattern(command),
+			reason: `Network access via ${command} is denied by policy for ${capability} agents`,
+		});
+	}
+
+	const gates = opts.qualityGates ?? DEFAULT_QUALITY_GATES;
+	return {
+		capability,
+		readOnly,
+		implementation: IMPLEMENTATION_CAPABILITIES.includes(capability),
+		teamTools: NATIVE_TEAM_TOOLS.filter((t) => blockedTools.includes(t)),
+		interactiveTools: INTERACTIVE_TOOLS.filter((t) => blockedTools.includes(t)),
+		writeTools: readOnly ? WRITE_TOOLS.filter((t) => blockedTools.includes(t)) : [],
+		deniedTools: blockedTools.filter((t) => !builtinTools.includes(t)),
+		safePrefixes: readOnly
+			? [
+					...SAFE_BASH_PREFIXES,
+					...(COORDINATION_CAPABILITIES.includes(capability) ? COORDINATION_SAFE_PREFIXES : []),
+					...extractQualityGatePrefixes(gates),
+				]
+			: [],
+		allowPatterns,
+		dangerousPatterns: readOnly ? [...DANGEROUS_BASH_PATTERNS] : [],
+		denyRules,
+		pathAllow,
+		pathDeny,
+	};
+}
+
+/** Block decision for a tool the resolved rules deny, or null if it is not blocked. */
+function toolBlock(rules: ResolvedGuardRules, tool: string): GuardDecision | null {
+	const block = (rule: string, reason: string): GuardDecision => ({
+		decision: "block",
+		rule,
+		reason,
+	});
+	if (rules.teamTools.includes(tool)) {
+		return block(
+			"team-tool",
+			`Overstory agents must use 'ov sling' for delegation — ${tool} is not allowed`,
+		);
+	}
+	if (rules.interactiveTools.includes(tool)) {
+		return block(
+			"interactive-tool",
+			`${tool} requires human interaction -- agents run non-interactively. Use ov mail (--type question) to escalate`,
+		);
+	}
+	if (rules.writeTools.includes(tool)) {
+		return block(
+			"write-tool",
+			`${rules.capability} agents cannot modify files — ${tool} is not allowed`,
+		);
+	}
+	if (rules.deniedTools.includes(tool)) {
+		return block("policy-tool-deny", `${tool} is denied by policy for ${rules.capability} agents`);
+	}
+	return null;
+}
+
+/** Reason for blocking a tool the resolved rules deny, or null if it is not blocked. */
+export function toolBlockReason(rules: ResolvedGuardRules, tool: string): string | null {
+	return toolBlock(rules, tool)?.reason ?? null;
+}
+
+/** Check a write target against the path rules and the worktree boundary. */
+function evaluateWritePath(
+	rules: ResolvedGuardRules,
+	path: string,
+	worktreePath: string,
+	exemptPrefixes: readonly string[],
+): GuardDecision {
+	const matches = (globs: string[]) =>
+		globs.find((g) => new RegExp(pathGlobToRegex(resolvePathGlob(g, worktreePath))).test(path));
+
+	const denied = matches(rules.pathDeny);
+	if (denied !== undefined) {
+		return {
+			decision: "block",
+			rule: "policy-path-deny",
+			reason: `Path denied by policy: ${denied}`,
+		};
+	}
+	if (path === worktreePath || path.startsWith(`${worktreePath}/`)) {
+		return { decision: "allow", rule: "worktree", reason: "inside the worktree" };
+	}
+	if (exemptPrefixes.some((p) => path.startsWith(p))) {
+		return { decision: "allow", rule: "scratch-path", reason: "exempt scratch path" };
+	}
+	const allowed = matches(rules.pathAllow);
+	if (allowed !== undefined) {
+		return {
+			decision: "allow",
+			rule: "policy-path-allow",
+			reason: `allowed by policy path ${allowed}`,
+		};
+	}
+	return {
+		decision: "block",
+		rule: "path-boundary",
+		reason: "Path boundary violation: target is outside your assigned worktree",
+	};
+}
+
+/**
+ * Evaluate a Bash command the way the compiled guards do.
+ *
+ * @param ctx.agentName - Agent name for the branch naming check
+ * @param ctx.worktreePath - Worktree the agent's writes are confined to
+ */
+export function evaluateBashCommand(
+	rules: ResolvedGuardRules,
+	command: string,
+	ctx: { agentName: string; worktreePath: string },
+): GuardDecision {
+	for (const rule of [...UNIVERSAL_BASH_DENY, ...rules.denyRules]) {
+		if (new RegExp(rule.pattern).test(command)) {
+			return { decision: "block", rule: rule.rule, reason: rule.reason };
+		}
+	}
+	const branch = /git\s+checkout\s+-b\s+(\S+)/.exec(command)?.[1];
+	if (branch !== undefined && !branch.startsWith(`overstory/${ctx.agentName}/`)) {
+		return {
+			decision: "block",
+			rule: "branch-naming",
+			reason: `Branch must follow overstory/${ctx.agentName}/{task-id} convention`,
+		};
+	}
+
+	if (rules.readOnly) {
+		const trimmed = command.trimStart();
+		const safe = rules.safePrefixes.find((p) => trimmed.startsWith(p));
+		if (safe !== undefined) {
+			return { decision: "allow", rule: "safe-prefix", reason: `safe prefix "${safe}"` };
+		}
+		const allowed = rules.allowPatterns.find((p) => new RegExp(p).test(command));
+		if (allowed !== undefined) {
+			return {
+				decision: "allow",
+				rule: "policy-bash-allow",
+				reason: `allowed by policy pattern ${allowed}`,
+			};
+		}
+		if (rules.dangerousPatterns.some((p) => new RegExp(p).test(command))) {
+			return {
+				decision: "block",
+				rule: "read-only",
+				reason: `${rules.capability} agents cannot modify files — this command is not allowed`,
+			};
+		}
+	}
+
+	if (
+		rules.implementation &&
+		FILE_MODIFYING_BASH_PATTERNS.some((p) => new RegExp(p).test(command))
+	) {
+		const paths = command
+			.split(/\s+/)
+			.filter((t) => t.startsWith("/"))
+			.map((t) => t.replace(/[";>]*$/, ""));
+		for (const path of paths) {
+			const result = evaluateWritePath(
+				rules,
+				path,
+				ctx.worktreePath,
+				BASH_BOUNDARY_EXEMPT_PREFIXES,
+			);
+			if (result.decision === "block") {
+				return result;
+			}
+		}
+	}
+
+	return { decision: "allow", rule: "default", reason: "no rule blocks it" };
+}
+
+/**
+ * Evaluate a non-Bash tool call. Write tools are checked against the path
+ * rules when a file path is given.
+ */
+export function evaluateToolCall(
+	rules: ResolvedGuardRules,
+	tool: string,
+	ctx: { worktreePath: string; filePath?: string },
+): GuardDecision {
+	const blocked = toolBlock(rules, tool);
+	if (blocked !== null) {
+		return blocked;
+	}
+	if (ctx.filePath !== undefined && WRITE_TOOLS.includes(tool)) {
+		const path = ctx.filePath.startsWith("/")
+			? ctx.filePath
+			: `${ctx.worktreePath}/${ctx.filePath}`;
+		return evaluateWritePath(rules, path, ctx.worktreePath, []);
+	}
+	return { decision: "allow", rule: "default", reason: "no rule blocks it" };
+}
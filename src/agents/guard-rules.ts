@@ -2,10 +2,36 @@
  * Shared guard rule constants for overstory agent hook generation.
  *
  * Pure data module — named exports only, no logic. These constants are the
- * single source of truth for tool names, bash patterns, and safe prefixes
- * used when generating PreToolUse guards in hooks-deployer.ts.
+ * built-in guard policy: guard-policy.ts layers .overstory/policy.yaml over
+ * them, and hooks-deployer.ts and runtimes/pi-guards.ts compile the result.
  */
 
+/**
+ * Capabilities that must never modify project files.
+ * Includes read-only roles (scout, reviewer) and coordination roles (lead).
+ * Only "builder" and "merger" are allowed to modify files.
+ */
+export const NON_IMPLEMENTATION_CAPABILITIES = [
+	"scout",
+	"reviewer",
+	"lead",
+	"coordinator",
+	"supervisor",
+	"monitor",
+];
+
+/**
+ * Capabilities that coordinate work and need git add/commit for syncing
+ * tasks, mulch, and other metadata — but must NOT git push.
+ */
+export const COORDINATION_CAPABILITIES = ["coordinator", "supervisor", "monitor"];
+
+/**
+ * Capabilities that are allowed to modify files via Bash commands.
+ * These get the Bash path boundary guard instead of a blanket file-modification block.
+ */
+export const IMPLEMENTATION_CAPABILITIES = ["builder", "merger"];
+
 /**
  * Claude Code native team/task tools that bypass overstory orchestration.
  * All overstory agents must use `overstory sling` for delegation, not these.
@@ -95,3 +121,55 @@ export const SAFE_BASH_PREFIXES = [
 	"git branch",
 	"mulch ",
 ];
+
+/**
+ * Additional safe Bash prefixes for coordination capabilities.
+ * Allows git add/commit for task sync, mulch records, etc.
+ * git push remains blocked via UNIVERSAL_BASH_DENY.
+ */
+export const COORDINATION_SAFE_PREFIXES = ["git add", "git commit"];
+
+/**
+ * Bash commands blocked for ALL agents, with the reason shown to the agent
+ * and the rule id recorded in the guard audit log.
+ * Each pattern is a regex fragment used inside a grep -qE check.
+ */
+export const UNIVERSAL_BASH_DENY = [
+	{
+		rule: "git-push",
+		pattern: "\\bgit\\s+push\\b",
+		reason: "git push is blocked — use ov merge to integrate changes, push manually when ready",
+	},
+	{
+		rule: "git-reset-hard",
+		pattern: "git\\s+reset\\s+--hard",
+		reason: "git reset --hard is not allowed — it destroys uncommitted work",
+	},
+];
+
+/**
+ * Bash patterns that modify files and require path boundary validation.
+ * Each entry is a regex fragment matched against the extracted command.
+ * When matched, all absolute paths in the command are checked against the worktree boundary.
+ */
+export const FILE_MODIFYING_BASH_PATTERNS = [
+	"sed\\s+-i",
+	"sed\\s+--in-place",
+	"echo\\s+.*>",
+	"printf\\s+.*>",
+	"cat\\s+.*>",
+	"tee\\s",
+	"\\bmv\\s",
+	"\\bcp\\s",
+	"\\brm\\s",
+	"\\bmkdir\\s",
+	"\\btouch\\s",
+	"\\bchmod\\s",
+	"\\bchown\\s",
+	">>",
+	"\\binstall\\s",
+	"\\brsync\\s",
+];
+
+/** Paths outside the worktree that implementation agents' Bash commands may target. */
+export const BASH_BOUNDARY_EXEMPT_PREFIXES = ["/dev/", "/tmp/"];
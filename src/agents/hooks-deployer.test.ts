@@ -4,13 +4,14 @@ import { tmpdir } from "node:os";
 import { join } from "node:path";
 import { AgentError } from "../errors.ts";
 import { cleanupTempDir } from "../test-helpers.ts";
+import type { GuardPolicy } from "../types.ts";
+import { extractQualityGatePrefixes } from "./guard-policy.ts";
 import {
 	buildBashFileGuardScript,
 	buildBashPathBoundaryScript,
 	buildPathBoundaryGuardScript,
 	deployHooks,
 	escapeForSingleQuotedShell,
-	extractQualityGatePrefixes,
 	getBashPathBoundaryGuards,
 	getCapabilityGuards,
 	getDangerGuards,
@@ -2436,3 +2437,133 @@ describe("escapeForSingleQuotedShell", () => {
 		expect(parsed.reason).toContain("ov sling");
 	});
 });
+
+describe("guard policy", () => {
+	const WORKTREE = "/project/.overstory/worktrees/policy-agent";
+
+	/** Run a generated guard command with a PreToolUse payload; returns the block reason or null. */
+	async function runGuard(
+		command: string,
+		toolInput: Record<string, string>,
+	): Promise<string | null> {
+		const proc = Bun.spawn(["sh", "-c", command], {
+			stdin: new Blob([`${JSON.stringify({ tool_input: toolInput })}\n`]),
+			stdout: "pipe",
+			stderr: "pipe",
+			env: {
+				...process.env,
+				OVERSTORY_AGENT_NAME: "policy-agent",
+				OVERSTORY_WORKTREE_PATH: WORKTREE,
+			},
+		});
+		const output = (await new Response(proc.stdout).text()).trim();
+		await proc.exited;
+		return output === "" ? null : (JSON.parse(output) as { reason: string }).reason;
+	}
+
+	/** Run every Bash guard for a capability; returns the first block reason or null. */
+	async function runBashGuards(
+		capability: string,
+		policy: GuardPolicy,
+		cmd: string,
+	): Promise<string | null> {
+		const guards = [
+			...getDangerGuards("policy-agent"),
+			...getCapabilityGuards(capability, undefined, policy),
+		].filter((g) => g.matcher === "Bash");
+		for (const guard of guards) {
+			const reason = await runGuard(guard.hooks[0]?.command ?? "", { command: cmd });
+			if (reason !== null) return reason;
+		}
+		return null;
+	}
+
+	test("without a policy the guards are unchanged", () => {
+		expect(getCapabilityGuards("scout", undefined, {})).toEqual(getCapabilityGuards("scout"));
+		expect(getCapabilityGuards("builder", undefined, {})).toEqual(getCapabilityGuards("builder"));
+	});
+
+	test("bash.allow prefixes exempt read-only commands as whole arguments", async () => {
+		const policy: GuardPolicy = {
+			capabilities: { scout: { bash: { allow: { prefixes: ["rm -rf target"] } } } },
+		};
+		expect(await runBashGuards("scout", policy, "rm -rf target")).toBeNull();
+		expect(await runBashGuards("scout", policy, "rm -rf targets")).toContain(
+			"scout agents cannot modify files",
+		);
+		expect(await runBashGuards("scout", policy, "rm -rf src")).toContain(
+			"scout agents cannot modify files",
+		);
+	});
+
+	test("bash.deny and network.deny block any capability, even allowed commands", async () => {
+		const policy: GuardPolicy = {
+			defaults: { network: { deny: ["curl"] } },
+			capabilities: {
+				builder: { bash: { deny: { prefixes: ["npm publish"] } } },
+				scout: { bash: { allow: { patterns: ["^curl "] } } },
+			},
+		};
+		expect(await runBashGuards("builder", policy, "npm publish --access public")).toContain(
+			'Policy denies "npm publish"',
+		);
+		expect(
+			await runBashGuards("builder", policy, "bun test && curl https://example.com"),
+		).toContain("Network access via curl");
+		expect(await runBashGuards("scout", policy, "curl https://example.com")).toContain(
+			"Network access via curl",
+		);
+		expect(await runBashGuards("builder", policy, "ov mail send --body 'use curl'")).toBeNull();
+	});
+
+	test("tools.allow lifts a built-in block and tools.deny adds one", () => {
+		const guards = getCapabilityGuards("reviewer", undefined, {
+			capabilities: { reviewer: { tools: { allow: ["Write"], deny: ["WebFetch"] } } },
+		});
+		const matchers = guards.map((g) => g.matcher);
+		expect(matchers).not.toContain("Write");
+		expect(matchers).toContain("Edit");
+		expect(matchers).toContain("WebFetch");
+	});
+
+	test("paths.deny blocks writes inside the worktree and paths.allow permits writes outside it", async () => {
+		const paths = { pathDeny: [".env", "secrets/*"], pathAllow: ["/var/cache/project/*"] };
+		const script = buildPathBoundaryGuardScript("file_path", paths);
+
+		expect(await runGuard(script, { file_path: `${WORKTREE}/.env` })).toBe(
+			"Path denied by policy: .env",
+		);
+		expect(await runGuard(script, { file_path: `${WORKTREE}/secrets/prod/key.pem` })).toBe(
+			"Path denied by policy: secrets/*",
+		);
+		expect(await runGuard(script, { file_path: `${WORKTREE}/src/index.ts` })).toBeNull();
+		expect(await runGuard(script, { file_path: "/var/cache/project/build.log" })).toBeNull();
+		expect(await runGuard(script, { file_path: "/etc/passwd" })).toContain(
+			"Path boundary violation",
+		);
+
+		const bashScript = buildBashPathBoundaryScript(paths);
+		expect(await runGuard(bashScript, { command: `cp a.txt ${WORKTREE}/.env` })).toBe(
+			"Path denied by policy: .env",
+		);
+		expect(await runGuard(bashScript, { command: "cp a.txt /var/cache/project/a.txt" })).toBeNull();
+	});
+
+	test("deployHooks compiles the policy into settings.local.json", async () => {
+		const tempDir = await mkdtemp(join(tmpdir(), "overstory-policy-test-"));
+		try {
+			await deployHooks(tempDir, "policy-agent", "builder", undefined, {
+				defaults: { network: { deny: ["wget"] } },
+			});
+			const parsed = JSON.parse(
+				await Bun.file(join(tempDir, ".claude", "settings.local.json")).text(),
+			);
+			const commands = (parsed.hooks.PreToolUse as Array<{ hooks: Array<{ command: string }> }>)
+				.flatMap((h) => h.hooks.map((c) => c.command))
+				.join("\n");
+			expect(commands).toContain("Network access via wget");
+		} finally {
+			await cleanupTempDir(tempDir);
+		}
+	});
+});
@@ -1,55 +1,21 @@
 import { mkdir } from "node:fs/promises";
 import { dirname, join } from "node:path";
-import { DEFAULT_QUALITY_GATES } from "../config.ts";
 import { AgentError } from "../errors.ts";
-import type { QualityGate } from "../types.ts";
+import type { GuardPolicy, QualityGate } from "../types.ts";
 import {
+	type BashDenyRule,
+	type ResolvedGuardRules,
+	resolveGuardRules,
+	toolBlockReason,
+} from "./guard-policy.ts";
+import {
+	BASH_BOUNDARY_EXEMPT_PREFIXES,
 	DANGEROUS_BASH_PATTERNS,
-	INTERACTIVE_TOOLS,
-	NATIVE_TEAM_TOOLS,
+	FILE_MODIFYING_BASH_PATTERNS,
 	SAFE_BASH_PREFIXES,
-	WRITE_TOOLS,
+	UNIVERSAL_BASH_DENY,
 } from "./guard-rules.ts";
 
-/**
- * Capabilities that must never modify project files.
- * Includes read-only roles (scout, reviewer) and coordination roles (lead).
- * Only "builder" and "merger" are allowed to modify files.
- */
-const NON_IMPLEMENTATION_CAPABILITIES = new Set([
-	"scout",
-	"reviewer",
-	"lead",
-	"coordinator",
-	"supervisor",
-	"monitor",
-]);
-
-/**
- * Capabilities that coordinate work and need git add/commit for syncing
- * tasks, mulch, and other metadata — but must NOT git push.
- */
-const COORDINATION_CAPABILITIES = new Set(["coordinator", "supervisor", "monitor"]);
-
-/**
- * Additional safe Bash prefixes for coordination capabilities.
- * Allows git add/commit for task sync, mulch records, etc.
- * git push remains blocked via DANGEROUS_BASH_PATTERNS.
- */
-const COORDINATION_SAFE_PREFIXES = ["git add", "git commit"];
-
-/**
- * Extract command prefixes from quality gate configurations.
- *
- * Each gate's command is used as a safe prefix so non-implementation agents
- * can still run quality gate commands (e.g., reviewers running tests).
- * This makes the safe prefix list configurable instead of hardcoding
- * specific tool commands like "bun test".
- */
-export function extractQualityGatePrefixes(gates: QualityGate[]): string[] {
-	return gates.map((g) => g.command);
-}
-
 /** Hook entry shape matching Claude Code's settings.local.json format. */
 interface HookEntry {
 	matcher: string;
@@ -92,6 +58,31 @@ const ENV_GUARD = '[ -z "$OVERSTORY_AGENT_NAME" ] && exit 0;';
  */
 export const PATH_PREFIX = 'export PATH="$HOME/.bun/bin:/usr/local/bin:/opt/homebrew/bin:$PATH";';
 
+/** Path globs from the guard policy (see ResolvedGuardRules). */
+type PathRules = Pick<ResolvedGuardRules, "pathAllow" | "pathDeny">;
+
+/**
+ * Render a policy path glob as a shell `case` pattern. Relative globs are
+ * anchored at $OVERSTORY_WORKTREE_PATH. Glob characters stay unquoted so
+ * `case` expands them; config validation restricts globs to safe characters.
+ */
+function shellPathGlob(glob: string): string {
+	return glob.startsWith("/") ? glob : `"$OVERSTORY_WORKTREE_PATH"/${glob.replace(/^\.\//, "")}`;
+}
+
+/** Shell `case` arms that block writes to policy-denied path globs. */
+function shellPathDenyArms(globs: string[]): string {
+	return globs
+		.map((glob) => {
+			const response = JSON.stringify({
+				decision: "block",
+				reason: `Path denied by policy: ${glob}`,
+			});
+			return `${shellPathGlob(glob)}) echo '${escapeForSingleQuotedShell(response)}'; exit 0 ;;`;
+		})
+		.join(" ");
+}
+
 /**
  * Build a PreToolUse guard script that validates file paths are within
  * the agent's worktree boundary.
@@ -102,8 +93,13 @@ export const PATH_PREFIX = 'export PATH="$HOME/.bun/bin:/usr/local/bin:/opt/home
  *
  * @param filePathField - The JSON field name containing the file path
  *   ("file_path" for Write/Edit, "notebook_path" for NotebookEdit)
+ * @param paths - Policy path globs: denies are blocked even inside the
+ *   worktree, allows are writable outside it
  */
-export function buildPathBoundaryGuardScript(filePathField: string): string {
+export function buildPathBoundaryGuardScript(
+	filePathField: string,
+	paths: PathRules = { pathAllow: [], pathDeny: [] },
+): string {
 	const script = [
 		// Only enforce for overstory agent sessions
 		ENV_GUARD,
@@ -116,8 +112,16 @@ export function buildPathBoundaryGuardScript(filePathField: string): string {
 		'[ -z "$FILE_PATH" ] && exit 0;',
 		// Resolve relative paths against cwd
 		'case "$FILE_PATH" in /*) ;; *) FILE_PATH="$(pwd)/$FILE_PATH" ;; esac;',
+		// Policy path denies win over the worktree boundary
+		...(paths.pathDeny.length > 0
+			? [`case "$FILE_PATH" in ${shellPathDenyArms(paths.pathDeny)} esac;`]
+			: []),
 		// Allow if path is inside the worktree (exact match or subpath)
 		'case "$FILE_PATH" in "$OVERSTORY_WORKTREE_PATH"/*) exit 0 ;; "$OVERSTORY_WORKTREE_PATH") exit 0 ;; esac;',
+		// Policy path allows outside the worktree
+		...(paths.pathAllow.length > 0
+			? [`case "$FILE_PATH" in ${paths.pathAllow.map(shellPathGlob).join("|")}) exit 0 ;; esac;`]
+			: []),
 		// Block: path is outside the worktree boundary
 		'echo \'{"decision":"block","reason":"Path boundary violation: file is outside your assigned worktree. All writes must target files within your worktree."}\';',
 	].join(" ");
@@ -131,20 +135,22 @@ export function buildPathBoundaryGuardScript(filePathField: string): string {
  * NotebookEdit (notebook_path). Applied to ALL agent capabilities
  * as defense-in-depth (non-implementation agents already have these
  * tools blocked, but the path guard catches any bypass).
+ *
+ * @param paths - Policy path globs (default: none)
  */
-export function getPathBoundaryGuards(): HookEntry[] {
+export function getPathBoundaryGuards(paths?: PathRules): HookEntry[] {
 	return [
 		{
 			matcher: "Write",
-			hooks: [{ type: "command", command: buildPathBoundaryGuardScript("file_path") }],
+			hooks: [{ type: "command", command: buildPathBoundaryGuardScript("file_path", paths) }],
 		},
 		{
 			matcher: "Edit",
-			hooks: [{ type: "command", command: buildPathBoundaryGuardScript("file_path") }],
+			hooks: [{ type: "command", command: buildPathBoundaryGuardScript("file_path", paths) }],
 		},
 		{
 			matcher: "NotebookEdit",
-			hooks: [{ type: "command", command: buildPathBoundaryGuardScript("notebook_path") }],
+			hooks: [{ type: "command", command: buildPathBoundaryGuardScript("notebook_path", paths) }],
 		},
 	];
 }
@@ -182,6 +188,17 @@ function blockGuard(toolName: string, reason: string): HookEntry {
 	};
 }
 
+/** Shell check that blocks the extracted $CMD when it matches an extended regex. */
+function grepBlockCheck(pattern: string, reason: string): string {
+	const response = JSON.stringify({ decision: "block", reason });
+	return [
+		`if echo "$CMD" | grep -qE '${escapeForSingleQuotedShell(pattern)}'; then`,
+		`  echo '${escapeForSingleQuotedShell(response)}';`,
+		"  exit 0;",
+		"fi;",
+	].join(" ");
+}
+
 /**
  * Build a Bash guard script that inspects the command from stdin JSON.
  *
@@ -198,16 +215,8 @@ function buildBashGuardScript(agentName: string): string {
 		"read -r INPUT;",
 		// Extract command value from JSON — grab everything after "command": (with optional space)
 		'CMD=$(echo "$INPUT" | sed \'s/.*"command": *"\\([^"]*\\)".*/\\1/\');',
-		// Check 1: Block all git push — agents must never push to remote
-		"if echo \"$CMD\" | grep -qE '\\bgit\\s+push\\b'; then",
-		'  echo \'{"decision":"block","reason":"git push is blocked — use ov merge to integrate changes, push manually when ready"}\';',
-		"  exit 0;",
-		"fi;",
-		// Check 2: Block git reset --hard
-		"if echo \"$CMD\" | grep -qE 'git\\s+reset\\s+--hard'; then",
-		'  echo \'{"decision":"block","reason":"git reset --hard is not allowed — it destroys uncommitted work"}\';',
-		"  exit 0;",
-		"fi;",
+		// Checks 1-2: Block git push (agents must never push to remote) and git reset --hard
+		...UNIVERSAL_BASH_DENY.map((rule) => grepBlockCheck(rule.pattern, rule.reason)),
 		// Check 3: Warn on git checkout -b with wrong naming convention
 		"if echo \"$CMD\" | grep -qE 'git\\s+checkout\\s+-b\\s'; then",
 		`  BRANCH=$(echo "$CMD" | sed 's/.*git\\s*checkout\\s*-b\\s*\\([^ ]*\\).*/\\1/');`,
@@ -252,16 +261,23 @@ export function getDangerGuards(agentName: string): HookEntry[] {
  *
  * @param capability - The agent capability, included in block reason messages
  * @param extraSafePrefixes - Additional safe prefixes for this capability (e.g. git add/commit for coordinators)
+ * @param allowPatterns - Policy `bash.allow` regexes, also exempt from the block
  */
 export function buildBashFileGuardScript(
 	capability: string,
 	extraSafePrefixes: string[] = [],
+	allowPatterns: string[] = [],
 ): string {
 	// Build the safe prefix check: if command starts with any safe prefix, allow it
-	const allSafePrefixes = [...SAFE_BASH_PREFIXES, ...extraSafePrefixes];
+	const allSafePrefixes = [...new Set([...SAFE_BASH_PREFIXES, ...extraSafePrefixes])];
 	const safePrefixChecks = allSafePrefixes
 		.map((prefix) => `if echo "$CMD" | grep -qE '^\\s*${prefix}'; then exit 0; fi;`)
 		.join(" ");
+	// Policy allow rules are regexes, checked after the literal prefixes
+	const allowChecks = allowPatterns.map(
+		(pattern) =>
+			`if echo "$CMD" | grep -qE '${escapeForSingleQuotedShell(pattern)}'; then exit 0; fi;`,
+	);
 
 	// Build the dangerous pattern check
 	const dangerPattern = DANGEROUS_BASH_PATTERNS.join("|");
@@ -274,6 +290,7 @@ export function buildBashFileGuardScript(
 		'CMD=$(echo "$INPUT" | sed \'s/.*"command": *"\\([^"]*\\)".*/\\1/\');',
 		// First: whitelist safe commands
 		safePrefixChecks,
+		...allowChecks,
 		// Then: check for dangerous patterns
 		`if echo "$CMD" | grep -qE '${dangerPattern}'; then`,
 		`  echo '{"decision":"block","reason":"${capability} agents cannot modify files — this command is not allowed"}';`,
@@ -283,36 +300,6 @@ export function buildBashFileGuardScript(
 	return script;
 }
 
-/**
- * Capabilities that are allowed to modify files via Bash commands.
- * These get the Bash path boundary guard instead of a blanket file-modification block.
- */
-const IMPLEMENTATION_CAPABILITIES = new Set(["builder", "merger"]);
-
-/**
- * Bash patterns that modify files and require path boundary validation.
- * Each entry is a regex fragment matched against the extracted command.
- * When matched, all absolute paths in the command are checked against the worktree boundary.
- */
-const FILE_MODIFYING_BASH_PATTERNS = [
-	"sed\\s+-i",
-	"sed\\s+--in-place",
-	"echo\\s+.*>",
-	"printf\\s+.*>",
-	"cat\\s+.*>",
-	"tee\\s",
-	"\\bmv\\s",
-	"\\bcp\\s",
-	"\\brm\\s",
-	"\\bmkdir\\s",
-	"\\btouch\\s",
-	"\\bchmod\\s",
-	"\\bchown\\s",
-	">>",
-	"\\binstall\\s",
-	"\\brsync\\s",
-];
-
 /**
  * Build a Bash PreToolUse guard script that validates file-modifying commands
  * keep their target paths within the agent's worktree boundary.
@@ -328,8 +315,13 @@ const FILE_MODIFYING_BASH_PATTERNS = [
  * - Relative paths are assumed safe (tmux cwd IS the worktree)
  *
  * Uses OVERSTORY_WORKTREE_PATH env var set during tmux session creation.
+ *
+ * @param paths - Policy path globs: denies are blocked even inside the
+ *   worktree, allows are writable outside it
  */
-export function buildBashPathBoundaryScript(): string {
+export function buildBashPathBoundaryScript(
+	paths: PathRules = { pathAllow: [], pathDeny: [] },
+): string {
 	const fileModifyPattern = FILE_MODIFYING_BASH_PATTERNS.join("|");
 
 	const script = [
@@ -350,10 +342,13 @@ export function buildBashPathBoundaryScript(): string {
 		// Check each absolute path against the worktree boundary
 		'echo "$PATHS" | while IFS= read -r P; do',
 		'  case "$P" in',
+		...(paths.pathDeny.length > 0 ? [`    ${shellPathDenyArms(paths.pathDeny)}`] : []),
 		'    "$OVERSTORY_WORKTREE_PATH"/*) ;;',
 		'    "$OVERSTORY_WORKTREE_PATH") ;;',
-		"    /dev/*) ;;",
-		"    /tmp/*) ;;",
+		...BASH_BOUNDARY_EXEMPT_PREFIXES.map((prefix) => `    ${prefix}*) ;;`),
+		...(paths.pathAllow.length > 0
+			? [`    ${paths.pathAllow.map(shellPathGlob).join("|")}) ;;`]
+			: []),
 		'    *) echo \'{"decision":"block","reason":"Bash path boundary violation: command targets a path outside your worktree. All file modifications must stay within your assigned worktree."}\'; exit 0; ;;',
 		"  esac;",
 		"done;",
@@ -370,16 +365,32 @@ export function buildBashPathBoundaryScript(): string {
  * Only applied to builder/merger agents (implementation capabilities).
  * Non-implementation agents already have all file-modifying Bash commands
  * blocked via buildBashFileGuardScript().
+ *
+ * @param paths - Policy path globs (default: none)
  */
-export function getBashPathBoundaryGuards(): HookEntry[] {
+export function getBashPathBoundaryGuards(paths?: PathRules): HookEntry[] {
 	return [
 		{
 			matcher: "Bash",
-			hooks: [{ type: "command", command: buildBashPathBoundaryScript() }],
+			hooks: [{ type: "command", command: buildBashPathBoundaryScript(paths) }],
 		},
 	];
 }
 
+/**
+ * Build a Bash guard script that blocks commands matching policy deny rules
+ * (`bash.deny` and `network.deny`). Deny rules win over every allow rule:
+ * Claude Code blocks the call if any PreToolUse hook blocks it.
+ */
+export function buildPolicyBashGuardScript(rules: BashDenyRule[]): string {
+	return [
+		ENV_GUARD,
+		"read -r INPUT;",
+		'CMD=$(echo "$INPUT" | sed \'s/.*"command": *"\\([^"]*\\)".*/\\1/\');',
+		...rules.map((rule) => grepBlockCheck(rule.pattern, rule.reason)),
+	].join(" ");
+}
+
 /**
  * Generate capability-specific PreToolUse guards.
  *
@@ -395,50 +406,43 @@ export function getBashPathBoundaryGuards(): HookEntry[] {
  * - Claude Code native team/task tool blocks (Task, TeamCreate, SendMessage, etc.)
  *   to ensure delegation goes through overstory sling
  *
+ * The guard policy (config.policy) then lifts or adds tool blocks, exempts
+ * commands from the file-modification block, adds Bash and network denies
+ * for any capability, and adds path globs to the boundary guards.
+ *
  * Note: All capabilities also receive Bash danger guards via getDangerGuards().
  */
-export function getCapabilityGuards(capability: string, qualityGates?: QualityGate[]): HookEntry[] {
+export function getCapabilityGuards(
+	capability: string,
+	qualityGates?: QualityGate[],
+	policy?: GuardPolicy,
+): HookEntry[] {
+	const rules = resolveGuardRules(capability, { policy, qualityGates });
 	const guards: HookEntry[] = [];
-	const gates = qualityGates ?? DEFAULT_QUALITY_GATES;
-	const gatePrefixes = extractQualityGatePrefixes(gates);
-
-	// Block Claude Code native team/task tools for ALL overstory agents.
-	// Agents must use `overstory sling` for delegation, not native Task/Team tools.
-	const teamToolGuards = NATIVE_TEAM_TOOLS.map((tool) =>
-		blockGuard(
-			tool,
-			`Overstory agents must use 'ov sling' for delegation — ${tool} is not allowed`,
-		),
-	);
-	guards.push(...teamToolGuards);
-
-	// Block interactive tools for ALL overstory agents.
-	// These tools require a human to respond and block indefinitely in tmux sessions.
-	// Agents must use overstory mail (--type question) to escalate instead.
-	const interactiveGuards = INTERACTIVE_TOOLS.map((tool) =>
-		blockGuard(
-			tool,
-			`${tool} requires human interaction -- agents run non-interactively. Use ov mail (--type question) to escalate`,
-		),
-	);
-	guards.push(...interactiveGuards);
 
-	if (NON_IMPLEMENTATION_CAPABILITIES.has(capability)) {
-		const toolGuards = WRITE_TOOLS.map((tool) =>
-			blockGuard(tool, `${capability} agents cannot modify files — ${tool} is not allowed`),
-		);
-		guards.push(...toolGuards);
+	// Block Claude Code native team/task tools for ALL overstory agents
+	// (agents must use `overstory sling` for delegation), then interactive tools,
+	// which require a human to respond and block indefinitely in tmux sessions
+	// (agents must use overstory mail --type question to escalate instead),
+	// then write tools for non-implementation capabilities and policy denies.
+	// Policy `tools.allow` entries have already been removed from these lists.
+	for (const tool of [
+		...rules.teamTools,
+		...rules.interactiveTools,
+		...rules.writeTools,
+		...rules.deniedTools,
+	]) {
+		guards.push(blockGuard(tool, toolBlockReason(rules, tool) ?? ""));
+	}
 
+	if (rules.readOnly) {
 		// Coordination capabilities get git add/commit whitelisted for task/mulch sync
-		const extraSafe = COORDINATION_CAPABILITIES.has(capability)
-			? [...COORDINATION_SAFE_PREFIXES, ...gatePrefixes]
-			: gatePrefixes;
 		const bashFileGuard: HookEntry = {
 			matcher: "Bash",
 			hooks: [
 				{
 					type: "command",
-					command: buildBashFileGuardScript(capability, extraSafe),
+					command: buildBashFileGuardScript(capability, rules.safePrefixes, rules.allowPatterns),
 				},
 			],
 		};
@@ -447,8 +451,15 @@ export function getCapabilityGuards(capability: string, qualityGates?: QualityGa
 
 	// Implementation capabilities get Bash path boundary validation
 	// (non-implementation agents already block all file-modifying Bash commands)
-	if (IMPLEMENTATION_CAPABILITIES.has(capability)) {
-		guards.push(...getBashPathBoundaryGuards());
+	if (rules.implementation) {
+		guards.push(...getBashPathBoundaryGuards(rules));
+	}
+
+	if (rules.denyRules.length > 0) {
+		guards.push({
+			matcher: "Bash",
+			hooks: [{ type: "command", command: buildPolicyBashGuardScript(rules.denyRules) }],
+		});
 	}
 
 	return guards;
@@ -485,6 +496,8 @@ export function isOverstoryHookEntry(entry: HookEntry): boolean {
  * @param worktreePath - Absolute path to the agent's git worktree (or project root)
  * @param agentName - The unique name of the agent
  * @param capability - Agent capability (builder, scout, reviewer, lead, merger)
+ * @param qualityGates - Quality gates whose commands read-only agents may run
+ * @param policy - Guard policy layered over the built-in guards (config.policy)
  * @throws {AgentError} If the template is not found or the write fails
  */
 export async function deployHooks(
@@ -492,6 +505,7 @@ export async function deployHooks(
 	agentName: string,
 	capability = "builder",
 	qualityGates?: QualityGate[],
+	policy?: GuardPolicy,
 ): Promise<void> {
 	const templatePath = getTemplatePath();
 	const file = Bun.file(templatePath);
@@ -536,9 +550,9 @@ export async function deployHooks(
 	// Merge capability-specific PreToolUse guards into the config.
 	// Guards are generated scripts using only shell built-ins (grep, sed, echo, exit)
 	// and do not require PATH extension.
-	const pathGuards = getPathBoundaryGuards();
+	const pathGuards = getPathBoundaryGuards(resolveGuardRules(capability, { policy }));
 	const dangerGuards = getDangerGuards(agentName);
-	const capabilityGuards = getCapabilityGuards(capability, qualityGates);
+	const capabilityGuards = getCapabilityGuards(capability, qualityGates, policy);
 	const allGuards = [...pathGuards, ...dangerGuards, ...capabilityGuards];
 
 	if (allGuards.length > 0) {
@@ -5,7 +5,14 @@ import { join } from "node:path";
 import { AgentError } from "../errors.ts";
 import { cleanupTempDir } from "../test-helpers.ts";
 import type { AgentManifest, OverstoryConfig } from "../types.ts";
-import { createManifestLoader, resolveModel, resolveProviderEnv } from "./manifest.ts";
+import {
+	createManifestLoader,
+	resolveCapabilityRuntimes,
+	resolveModel,
+	resolveModelChain,
+	resolveProviderEnv,
+	resolveRuntimeName,
+} from "./manifest.ts";
 
 const VALID_MANIFEST = {
 	version: "1.0",
@@ -264,6 +271,21 @@ describe("createManifestLoader", () => {
 			await expect(loader.load()).rejects.toThrow("version");
 		});
 
+		test("throws AgentError for an empty runtime", async () => {
+			const manifest = {
+				...VALID_MANIFEST,
+				agents: {
+					...VALID_MANIFEST.agents,
+					scout: { ...VALID_MANIFEST.agents.scout, runtime: "" },
+				},
+			};
+			await Bun.write(manifestPath, JSON.stringify(manifest));
+			const loader = createManifestLoader(manifestPath, agentBaseDir);
+
+			await expect(loader.load()).rejects.toThrow(AgentError);
+			await expect(loader.load()).rejects.toThrow("runtime");
+		});
+
 		test("throws AgentError when agents field is missing", async () => {
 			await Bun.write(manifestPath, JSON.stringify({ version: "1.0" }));
 			const loader = createManifestLoader(manifestPath, agentBaseDir);
@@ -671,6 +693,84 @@ describe("resolveModel", () => {
 		expect(result.model).toBe("sonnet");
 		expect(result.env?.ANTHROPIC_DEFAULT_SONNET_MODEL).toBe("org/model/version");
 	});
+
+	test("resolves the first model of a fallback chain", () => {
+		const config = makeConfig(
+			{ coordinator: ["mygateway/org/model", "opus"] },
+			{
+				anthropic: { type: "native" },
+				mygateway: { type: "gateway", baseUrl: "https://gw.example.com" },
+			},
+		);
+		expect(resolveModelChain(config, baseManifest, "coordinator", "sonnet")).toEqual([
+			"mygateway/org/model",
+			"opus",
+		]);
+		expect(
+			resolveModel(config, baseManifest, "coordinator", "sonnet").env?.ANTHROPIC_BASE_URL,
+		).toBe("https://gw.example.com");
+	});
+
+	test("a single model is a chain of one", () => {
+		expect(resolveModelChain(makeConfig(), baseManifest, "monitor", "haiku")).toEqual(["sonnet"]);
+	});
+});
+
+describe("resolveRuntimeName", () => {
+	const manifest: AgentManifest = {
+		version: "1.0",
+		agents: {
+			scout: {
+				file: "scout.md",
+				model: "haiku",
+				tools: ["Read"],
+				capabilities: ["explore"],
+				canSpawn: false,
+				constraints: [],
+				runtime: "codex",
+			},
+			builder: {
+				file: "builder.md",
+				model: "sonnet",
+				tools: ["Read", "Write"],
+				capabilities: ["implement"],
+				canSpawn: false,
+				constraints: [],
+			},
+		},
+		capabilityIndex: { explore: ["scout"], implement: ["builder"] },
+	};
+
+	function makeConfig(runtime?: OverstoryConfig["runtime"]): OverstoryConfig {
+		return { runtime } as OverstoryConfig;
+	}
+
+	test("falls back to claude when nothing is configured", () => {
+		expect(resolveRuntimeName(makeConfig(), manifest, "builder")).toBe("claude");
+	});
+
+	test("uses runtime.default over the built-in fallback", () => {
+		expect(resolveRuntimeName(makeConfig({ default: "pi" }), manifest, "builder")).toBe("pi");
+	});
+
+	test("manifest runtime beats runtime.default", () => {
+		expect(resolveRuntimeName(makeConfig({ default: "pi" }), manifest, "scout")).toBe("codex");
+	});
+
+	test("runtime.capabilities beats the manifest", () => {
+		const config = makeConfig({ default: "claude", capabilities: { scout: "pi" } });
+		expect(resolveRuntimeName(config, manifest, "scout")).toBe("pi");
+	});
+
+	test("an explicit runtime beats everything", () => {
+		const config = makeConfig({ default: "claude", capabilities: { scout: "pi" } });
+		expect(resolveRuntimeName(config, manifest, "scout", "claude")).toBe("claude");
+	});
+
+	test("resolveCapabilityRuntimes lists only explicitly selected capabilities", () => {
+		const config = makeConfig({ default: "claude", capabilities: { reviewer: "pi" } });
+		expect(resolveCapabilityRuntimes(config, manifest)).toEqual({ scout: "codex", reviewer: "pi" });
+	});
 });
 
 describe("resolveProviderEnv", () => {
@@ -831,4 +931,28 @@ describe("manifest validation accepts arbitrary model strings", () => {
 		const manifest = await loader.load();
 		expect(manifest.agents.agent?.model).toBe("openrouter/openai/gpt-5.3");
 	});
+
+	test("accepts a model fallback chain and rejects an empty one", async () => {
+		const agent = {
+			file: "agent.md",
+			model: ["sonnet", "openrouter/openai/gpt-5.3"],
+			tools: ["Read"],
+			capabilities: ["test"],
+			canSpawn: false,
+			constraints: [],
+		};
+		await Bun.write(manifestPath, JSON.stringify({ version: "1.0", agents: { agent } }));
+		await Bun.write(join(agentBaseDir, "agent.md"), "# Agent\n");
+
+		const manifest = await createManifestLoader(manifestPath, agentBaseDir).load();
+		expect(manifest.agents.agent?.model).toEqual(["sonnet", "openrouter/openai/gpt-5.3"]);
+
+		await Bun.write(
+			manifestPath,
+			JSON.stringify({ version: "1.0", agents: { agent: { ...agent, model: [] } } }),
+		);
+		await expect(createManifestLoader(manifestPath, agentBaseDir).load()).rejects.toThrow(
+			"fallback chain must not be empty",
+		);
+	});
 });
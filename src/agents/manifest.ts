@@ -3,6 +3,8 @@ import { AgentError } from "../errors.ts";
 import type {
 	AgentDefinition,
 	AgentManifest,
+	ModelChain,
+	ModelRef,
 	OverstoryConfig,
 	ProviderConfig,
 	ResolvedModel,
@@ -52,8 +54,21 @@ function validateAgentDefinition(name: string, raw: unknown): string[] {
 		errors.push(`Agent "${name}": "file" must be a non-empty string`);
 	}
 
-	if (typeof def.model !== "string" || def.model.length === 0) {
-		errors.push(`Agent "${name}": "model" must be a non-empty string`);
+	if (Array.isArray(def.model)) {
+		if (def.model.length === 0) {
+			errors.push(`Agent "${name}": "model" fallback chain must not be empty`);
+		}
+		for (let i = 0; i < def.model.length; i++) {
+			if (typeof def.model[i] !== "string" || def.model[i].length === 0) {
+				errors.push(`Agent "${name}": "model[${i}]" must be a non-empty string`);
+			}
+		}
+	} else if (typeof def.model !== "string" || def.model.length === 0) {
+		errors.push(`Agent "${name}": "model" must be a non-empty string or a list of them`);
+	}
+
+	if (def.runtime !== undefined && (typeof def.runtime !== "string" || def.runtime.length === 0)) {
+		errors.push(`Agent "${name}": "runtime" must be a non-empty string`);
 	}
 
 	if (!Array.isArray(def.tools)) {
@@ -316,23 +331,50 @@ export function resolveProviderEnv(
 	return result;
 }
 
+/** Normalize a ModelChain to a list (a single ref is a chain of one). */
+export function toModelChain(model: ModelChain): ModelRef[] {
+	return Array.isArray(model) ? model : [model];
+}
+
 /**
- * Resolve the model for an agent role.
+ * Resolve the model fallback chain for an agent role.
  *
  * Resolution order: config.models override > manifest default > fallback.
+ * The first entry is the primary model.
+ */
+export function resolveModelChain(
+	config: OverstoryConfig,
+	manifest: AgentManifest,
+	role: string,
+	fallback: ModelChain,
+): ModelRef[] {
+	const chain = toModelChain(config.models[role] ?? manifest.agents[role]?.model ?? fallback);
+	return chain.length > 0 ? chain : toModelChain(fallback);
+}
+
+/**
+ * Resolve the primary model for an agent role.
  *
- * If the model is provider-prefixed (e.g. "openrouter/openai/gpt-5.3") and
- * the named provider is a configured gateway, returns env vars for routing.
+ * Resolution order: config.models override > manifest default > fallback.
+ * See resolveModelRef for provider handling.
  */
 export function resolveModel(
 	config: OverstoryConfig,
 	manifest: AgentManifest,
 	role: string,
-	fallback: string,
+	fallback: ModelChain,
 ): ResolvedModel {
-	const configModel = config.models[role];
-	const rawModel = configModel ?? manifest.agents[role]?.model ?? fallback;
+	const [primary] = resolveModelChain(config, manifest, role, fallback);
+	return resolveModelRef(config, primary ?? DEFAULT_GATEWAY_ALIAS);
+}
 
+/**
+ * Resolve one model ref to the model name and env to spawn with.
+ *
+ * If the model is provider-prefixed (e.g. "openrouter/openai/gpt-5.3") and
+ * the named provider is a configured gateway, returns env vars for routing.
+ */
+export function resolveModelRef(config: OverstoryConfig, rawModel: ModelRef): ResolvedModel {
 	// Simple alias — no provider env needed
 	if (MODEL_ALIASES.has(rawModel)) {
 		return { model: rawModel };
@@ -352,3 +394,45 @@ export function resolveModel(
 	// Unknown format — return as-is (may be a direct model string)
 	return { model: rawModel };
 }
+
+/**
+ * Resolve the runtime adapter name for an agent role.
+ *
+ * Resolution order: explicit (`--runtime`) > config.runtime.capabilities >
+ * manifest `runtime` > config.runtime.default > "claude".
+ */
+export function resolveRuntimeName(
+	config: OverstoryConfig,
+	manifest: AgentManifest,
+	role: string,
+	explicit?: string,
+): string {
+	return (
+		explicit ??
+		config.runtime?.capabilities?.[role] ??
+		manifest.agents[role]?.runtime ??
+		config.runtime?.default ??
+		"claude"
+	);
+}
+
+/**
+ * Map each capability with an explicit runtime selection (config or manifest)
+ * to its resolved runtime name. Capabilities on the default runtime are omitted.
+ */
+export function resolveCapabilityRuntimes(
+	config: OverstoryConfig,
+	manifest: AgentManifest,
+): Record<string, string> {
+	const runtimes: Record<string, string> = {};
+	const capabilities = new Set([
+		...Object.keys(manifest.agents),
+		...Object.keys(config.runtime?.capabilities ?? {}),
+	]);
+	for (const capability of capabilities) {
+		if (config.runtime?.capabilities?.[capability] || manifest.agents[capability]?.runtime) {
+			runtimes[capability] = resolveRuntimeName(config, manifest, capability);
+		}
+	}
+	return runtimes;
+}
@@ -110,6 +110,8 @@ describe("discoverAgents", () => {
 			escalationLevel: 0,
 			stalledSince: null,
 			transcriptPath: null,
+			rpcEndpoint: null,
+			runtime: null,
 		};
 
 		store.upsert(session);
@@ -143,6 +145,8 @@ describe("discoverAgents", () => {
 			escalationLevel: 0,
 			stalledSince: null,
 			transcriptPath: null,
+			rpcEndpoint: null,
+			runtime: null,
 		};
 
 		const scout: AgentSession = {
@@ -163,6 +167,8 @@ describe("discoverAgents", () => {
 			escalationLevel: 0,
 			stalledSince: null,
 			transcriptPath: null,
+			rpcEndpoint: null,
+			runtime: null,
 		};
 
 		store.upsert(builder);
@@ -196,6 +202,8 @@ describe("discoverAgents", () => {
 			escalationLevel: 0,
 			stalledSince: null,
 			transcriptPath: null,
+			rpcEndpoint: null,
+			runtime: null,
 		};
 
 		const completed: AgentSession = {
@@ -216,6 +224,8 @@ describe("discoverAgents", () => {
 			escalationLevel: 0,
 			stalledSince: null,
 			transcriptPath: null,
+			rpcEndpoint: null,
+			runtime: null,
 		};
 
 		store.upsert(working);
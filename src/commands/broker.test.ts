@@ -0,0 +1,142 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+	type Broker,
+	brokerEndpoint,
+	brokerPidPath,
+	getBrokerStatus,
+	startBroker,
+} from "../runtimes/broker.ts";
+import { PiRuntime } from "../runtimes/pi.ts";
+import { cleanupTempDir } from "../test-helpers.ts";
+import { createBrokerCommand } from "./broker.ts";
+
+/**
+ * Tests for `ov broker start|stop|status`.
+ *
+ * The broker runs in-process on its real control socket; the command talks to
+ * it over that socket exactly as it would to a detached `ov broker start`.
+ */
+
+describe("ov broker", () => {
+	let chunks: string[];
+	let originalWrite: typeof process.stdout.write;
+	let tempDir: string;
+	let originalCwd: string;
+	let broker: Broker | null;
+
+	beforeEach(async () => {
+		chunks = [];
+		originalWrite = process.stdout.write;
+		process.stdout.write = ((chunk: string) => {
+			chunks.push(chunk);
+			return true;
+		}) as typeof process.stdout.write;
+
+		tempDir = await mkdtemp(join(tmpdir(), "broker-cmd-test-"));
+		await Bun.write(
+			join(tempDir, ".overstory", "config.yaml"),
+			`project:\n  name: test\n  root: ${tempDir}\n  canonicalBranch: main\n`,
+		);
+		originalCwd = process.cwd();
+		process.chdir(tempDir);
+		broker = null;
+	});
+
+	afterEach(async () => {
+		process.stdout.write = originalWrite;
+		process.chdir(originalCwd);
+		await broker?.shutdown();
+		await cleanupTempDir(tempDir);
+	});
+
+	/** Run `ov broker <args>` and return what it wrote to stdout. */
+	async function run(args: string[]): Promise<string> {
+		chunks = [];
+		await createBrokerCommand().parseAsync(args, { from: "user" });
+		return chunks.join("");
+	}
+
+	async function runJson<T>(args: string[]): Promise<T> {
+		return JSON.parse(await run([...args, "--json"])) as T;
+	}
+
+	async function startInProcess(): Promise<Broker> {
+		broker = await startBroker({ projectRoot: tempDir, loadRuntime: async () => new PiRuntime() });
+		return broker;
+	}
+
+	test("status reports no broker when nothing answers", async () => {
+		expect(await run(["status"])).toContain("No broker running");
+
+		const status = await runJson<Record<string, unknown>>(["status"]);
+		expect(status).toMatchObject({
+			success: true,
+			command: "broker status",
+			running: false,
+			pid: null,
+			startedAt: null,
+			endpoint: brokerEndpoint(tempDir),
+			agents: [],
+		});
+	});
+
+	test("status reports a running broker and its agents", async () => {
+		await startInProcess();
+
+		const out = await run(["status"]);
+		expect(out).toContain(`Broker: running (PID: ${process.pid}`);
+		expect(out).toContain(`Socket: ${brokerEndpoint(tempDir)}`);
+		expect(out).toContain("Agents: 0");
+
+		const status = await runJson<{ running: boolean; pid: number; agents: unknown[] }>(["status"]);
+		expect(status.running).toBe(true);
+		expect(status.pid).toBe(process.pid);
+		expect(status.agents).toEqual([]);
+	});
+
+	test("a stale socket does not count as a running broker and is replaced on start", async () => {
+		await Bun.write(brokerEndpoint(tempDir), "left behind by a crashed broker");
+		expect((await runJson<{ running: boolean }>(["status"])).running).toBe(false);
+
+		const starting = run(["start"]);
+		let status = await getBrokerStatus(tempDir);
+		for (let i = 0; i < 50 && status === null; i++) {
+			await Bun.sleep(20);
+			status = await getBrokerStatus(tempDir);
+		}
+		expect(status?.pid).toBe(process.pid);
+		expect(await Bun.file(brokerPidPath(tempDir)).text()).toBe(`${process.pid}\n`);
+
+		await run(["stop", "--json"]);
+		await starting;
+		expect(await Bun.file(brokerPidPath(tempDir)).exists()).toBe(false);
+		expect(await Bun.file(brokerEndpoint(tempDir)).exists()).toBe(false);
+	});
+
+	test("stop removes a stale PID file when no broker answers", async () => {
+		await Bun.write(brokerPidPath(tempDir), "99999\n");
+
+		const result = await runJson<{ stopped: boolean; reason: string }>(["stop"]);
+		expect(result).toMatchObject({ stopped: false, reason: "not running" });
+		expect(await Bun.file(brokerPidPath(tempDir)).exists()).toBe(false);
+	});
+
+	test("stop shuts the broker down and removes its PID file", async () => {
+		const running = await startInProcess();
+		await Bun.write(brokerPidPath(tempDir), `${process.pid}\n`);
+
+		const result = await runJson<{ stopped: boolean; pid: number; agents: number }>(["stop"]);
+		expect(result).toMatchObject({ stopped: true, pid: process.pid, agents: 0 });
+		await running.closed;
+		expect(await getBrokerStatus(tempDir)).toBeNull();
+		expect(await Bun.file(brokerPidPath(tempDir)).exists()).toBe(false);
+	});
+
+	test("start refuses to run a second broker in the foreground", async () => {
+		await startInProcess();
+		await expect(run(["start"])).rejects.toThrow("Broker already running");
+	});
+});
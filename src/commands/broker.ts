@@ -0,0 +1,184 @@
+/**
+ * CLI command: ov broker start|stop|status
+ *
+ * Runs the agent broker: a long-lived local process that owns headless agents
+ * and their RPC connections so they outlive the `ov sling` that started them.
+ * `ov sling --headless` starts it automatically; `ov broker start --background`
+ * starts it ahead of time. The running broker writes .overstory/broker.pid.
+ */
+
+import { unlink } from "node:fs/promises";
+import { Command } from "commander";
+import { loadConfig } from "../config.ts";
+import { OverstoryError } from "../errors.ts";
+import { jsonOutput } from "../json.ts";
+import { printHint, printSuccess } from "../logging/color.ts";
+import {
+	brokerEndpoint,
+	brokerPidPath,
+	ensureBroker,
+	getBrokerStatus,
+	listBrokerAgents,
+	startBroker,
+	stopBroker,
+} from "../runtimes/broker.ts";
+import { getRuntime } from "../runtimes/registry.ts";
+
+/** How long `ov broker stop` waits for agents to shut down (covers the EOF→SIGTERM→SIGKILL ladder). */
+const STOP_TIMEOUT_MS = 15_000;
+
+async function removePidFile(pidFilePath: string): Promise<void> {
+	try {
+		await unlink(pidFilePath);
+	} catch {
+		// File may already be gone — not an error
+	}
+}
+
+async function runStart(opts: { background?: boolean; json?: boolean }): Promise<void> {
+	const config = await loadConfig(process.cwd());
+	const root = config.project.root;
+	const pidFilePath = brokerPidPath(root);
+
+	const existing = await getBrokerStatus(root);
+	if (opts.background) {
+		const status = existing ?? (await ensureBroker(root));
+		if (opts.json) {
+			jsonOutput("broker start", { pid: status.pid, alreadyRunning: existing !== null });
+		} else if (existing) {
+			printHint(`Broker already running (PID: ${existing.pid})`);
+		} else {
+			printSuccess("Broker started in background", `PID: ${status.pid}`);
+			printHint(`PID file: ${pidFilePath}`);
+		}
+		return;
+	}
+
+	if (existing) {
+		throw new OverstoryError(
+			`Broker already running (PID: ${existing.pid}). Stop it with: ov broker stop`,
+			"BROKER_ERROR",
+		);
+	}
+
+	const broker = await startBroker({
+		projectRoot: root,
+		// Re-read config per spawn so runtime settings changed after start apply
+		loadRuntime: async (name) => getRuntime(name, await loadConfig(root)),
+	});
+	await Bun.write(pidFilePath, `${process.pid}\n`);
+
+	const onSignal = (): void => {
+		void broker.shutdown();
+	};
+	process.on("SIGINT", onSignal);
+	process.on("SIGTERM", onSignal);
+
+	if (!opts.json) {
+		printSuccess("Broker running", broker.endpoint);
+		printHint("Press Ctrl+C to stop (aborts all hosted agents).");
+	}
+
+	await broker.closed;
+	process.off("SIGINT", onSignal);
+	process.off("SIGTERM", onSignal);
+	await removePidFile(pidFilePath);
+	if (!opts.json) {
+		printSuccess("Broker stopped");
+	}
+}
+
+async function runStop(opts: { json?: boolean }): Promise<void> {
+	const config = await loadConfig(process.cwd());
+	const root = config.project.root;
+
+	const status = await getBrokerStatus(root);
+	if (!status) {
+		// A broker that died without cleaning up leaves its PID file behind
+		await removePidFile(brokerPidPath(root));
+		if (opts.json) {
+			jsonOutput("broker stop", { stopped: false, reason: "not running" });
+		} else {
+			printHint("No broker running");
+		}
+		return;
+	}
+
+	await stopBroker(root);
+	const deadline = Date.now() + STOP_TIMEOUT_MS;
+	while (Date.now() < deadline && (await getBrokerStatus(root)) !== null) {
+		await Bun.sleep(200);
+	}
+	await removePidFile(brokerPidPath(root));
+
+	if (opts.json) {
+		jsonOutput("broker stop", { stopped: true, pid: status.pid, agents: status.agents });
+	} else {
+		printSuccess("Broker stopped", `PID: ${status.pid}, ${status.agents} agent(s) aborted`);
+	}
+}
+
+async function runStatus(opts: { json?: boolean }): Promise<void> {
+	const config = await loadConfig(process.cwd());
+	const root = config.project.root;
+
+	const status = await getBrokerStatus(root);
+	const agents = status ? await listBrokerAgents(root) : [];
+
+	if (opts.json) {
+		jsonOutput("broker status", {
+			running: status !== null,
+			pid: status?.pid ?? null,
+			startedAt: status?.startedAt ?? null,
+			endpoint: brokerEndpoint(root),
+			agents,
+		});
+		return;
+	}
+
+	if (!status) {
+		printHint("No broker running");
+		return;
+	}
+	process.stdout.write(`Broker: running (PID: ${status.pid}, since ${status.startedAt})\n`);
+	process.stdout.write(`Socket: ${brokerEndpoint(root)}\n`);
+	process.stdout.write(`Agents: ${agents.length}\n`);
+	for (const agent of agents) {
+		process.stdout.write(
+			`   ${agent.agentName} [${agent.runtime}] pid ${agent.pid} | ${agent.endpoint}\n`,
+		);
+	}
+}
+
+export function createBrokerCommand(): Command {
+	const cmd = new Command("broker").description(
+		"Run the agent broker that owns headless agents and their RPC connections",
+	);
+
+	cmd
+		.command("start")
+		.description("Start the broker (foreground unless --background)")
+		.option("--background", "Daemonize (run in background)")
+		.option("--json", "Output as JSON")
+		.action(async (opts: { background?: boolean; json?: boolean }) => {
+			await runStart(opts);
+		});
+
+	cmd
+		.command("stop")
+		.description("Abort all hosted agents and stop the broker")
+		.option("--json", "Output as JSON")
+		.action(async (opts: { json?: boolean }) => {
+			await runStop(opts);
+		});
+
+	cmd
+		.command("status")
+		.description("Show whether the broker is running and which agents it hosts")
+		.option("--json", "Output as JSON")
+		.action(async (opts: { json?: boolean }) => {
+			await runStatus(opts);
+		});
+
+	return cmd;
+}
@@ -128,6 +128,7 @@ describe("--all", () => {
 			estimatedCostUsd: null,
 			modelUsed: null,
 			runId: null,
+			runtime: null,
 		});
 		store.close();
 
@@ -160,6 +161,8 @@ describe("--all", () => {
 			escalationLevel: 0,
 			stalledSince: null,
 			transcriptPath: null,
+			rpcEndpoint: null,
+			runtime: null,
 		});
 		store.close();
 
@@ -305,6 +308,8 @@ describe("individual flags", () => {
 			escalationLevel: 0,
 			stalledSince: null,
 			transcriptPath: null,
+			rpcEndpoint: null,
+			runtime: null,
 		});
 		store.close();
 
@@ -427,6 +432,8 @@ describe("synthetic session-end events", () => {
 			escalationLevel: 0,
 			stalledSince: null,
 			transcriptPath: null,
+			rpcEndpoint: null,
+			runtime: null,
 			...overrides,
 		};
 	}
@@ -10,7 +10,7 @@
  *      - Check domains approaching governance limits
  *      - Run mulch prune --dry-run (report stale record counts)
  *      - Run mulch doctor (report health issues)
- *   1. Kill all overstory tmux sessions
+ *   1. Kill all overstory tmux sessions and headless agent hosts
  *   2. Remove all worktrees
  *   3. Delete orphaned overstory/* branches
  *   4. Delete SQLite databases (mail.db, metrics.db)
@@ -28,6 +28,7 @@ import { createEventStore } from "../events/store.ts";
 import { jsonOutput } from "../json.ts";
 import { printHint, printSuccess } from "../logging/color.ts";
 import { createMulchClient } from "../mulch/client.ts";
+import { headlessControl, isHeadlessHostRunning } from "../runtimes/headless.ts";
 import { openSessionStore } from "../sessions/compat.ts";
 import type { AgentSession, MulchDoctorResult, MulchPruneResult, MulchStatus } from "../types.ts";
 import { listWorktrees, removeWorktree } from "../worktree/manager.ts";
@@ -116,6 +117,7 @@ async function logSyntheticSessionEndEvents(overstoryDir: string): Promise<numbe
 interface CleanResult {
 	sessionEndEventsLogged: number;
 	tmuxKilled: number;
+	headlessStopped: number;
 	worktreesCleaned: number;
 	branchesDeleted: number;
 	mailWiped: boolean;
@@ -180,6 +182,48 @@ async function killAllTmuxSessions(overstoryDir: string, projectName: string): P
 	return killed;
 }
 
+/**
+ * Stop headless agent hosts registered in this project's SessionStore.
+ * Asks each host to abort its agent, then signals hosts that did not answer.
+ */
+async function stopHeadlessHosts(overstoryDir: string): Promise<number> {
+	let stopped = 0;
+	let sessions: AgentSession[] = [];
+	if (
+		!existsSync(join(overstoryDir, "sessions.db")) &&
+		!existsSync(join(overstoryDir, "sessions.json"))
+	) {
+		return 0;
+	}
+	try {
+		const { store } = openSessionStore(overstoryDir);
+		try {
+			sessions = store.getAll().filter((s) => s.rpcEndpoint !== null && s.state !== "completed");
+		} finally {
+			store.close();
+		}
+	} catch {
+		return 0;
+	}
+
+	for (const session of sessions) {
+		if (!isHeadlessHostRunning(session)) continue;
+		try {
+			if (session.rpcEndpoint) {
+				await headlessControl.stop(session.rpcEndpoint);
+			}
+		} catch {
+			try {
+				if (session.pid !== null) process.kill(session.pid, "SIGTERM");
+			} catch {
+				// Already gone
+			}
+		}
+		stopped++;
+	}
+	return stopped;
+}
+
 /**
  * Load the set of tmux session names registered in this project's SessionStore.
  *
@@ -430,6 +474,7 @@ export async function cleanCommand(opts: CleanOptions): Promise<void> {
 	const result: CleanResult = {
 		sessionEndEventsLogged: 0,
 		tmuxKilled: 0,
+		headlessStopped: 0,
 		worktreesCleaned: 0,
 		branchesDeleted: 0,
 		mailWiped: false,
@@ -466,9 +511,10 @@ export async function cleanCommand(opts: CleanOptions): Promise<void> {
 		result.sessionEndEventsLogged = await logSyntheticSessionEndEvents(overstoryDir);
 	}
 
-	// 2. Kill tmux sessions (must happen before worktree removal)
+	// 2. Kill tmux sessions and headless agent hosts (must happen before worktree removal)
 	if (doWorktrees || all) {
 		result.tmuxKilled = await killAllTmuxSessions(overstoryDir, config.project.name);
+		result.headlessStopped = await stopHeadlessHosts(overstoryDir);
 	}
 
 	// 3. Remove worktrees
@@ -510,10 +556,12 @@ export async function cleanCommand(opts: CleanOptions): Promise<void> {
 		result.specsCleared = await clearDirectory(join(overstoryDir, "specs"));
 	}
 
-	// 8. Delete nudge state + pending nudge markers + current-run.txt
+	// 8. Delete nudge state + pending nudge/model-fallback markers + current-run.txt
 	if (all) {
 		result.nudgeStateCleared = await deleteFile(join(overstoryDir, "nudge-state.json"));
 		await clearDirectory(join(overstoryDir, "pending-nudges"));
+		await clearDirectory(join(overstoryDir, "pending-fallbacks"));
+		await deleteFile(join(overstoryDir, "model-fallbacks.json"));
 		result.currentRunCleared = await deleteFile(join(overstoryDir, "current-run.txt"));
 	}
 
@@ -532,6 +580,11 @@ export async function cleanCommand(opts: CleanOptions): Promise<void> {
 	if (result.tmuxKilled > 0) {
 		lines.push(`Killed ${result.tmuxKilled} tmux session${result.tmuxKilled === 1 ? "" : "s"}`);
 	}
+	if (result.headlessStopped > 0) {
+		lines.push(
+			`Stopped ${result.headlessStopped} headless agent${result.headlessStopped === 1 ? "" : "s"}`,
+		);
+	}
 	if (result.worktreesCleaned > 0) {
 		lines.push(
 			`Removed ${result.worktreesCleaned} worktree${result.worktreesCleaned === 1 ? "" : "s"}`,
@@ -66,6 +66,7 @@ export const COMMANDS: readonly CommandDef[] = [
 			{ name: "--skip-seeds", desc: "Skip seeds bootstrap" },
 			{ name: "--skip-canopy", desc: "Skip canopy bootstrap" },
 			{ name: "--skip-onboard", desc: "Skip CLAUDE.md onboarding step" },
+			{ name: "--tracker", desc: "Task tracker backend", takesValue: true },
 			{ name: "--json", desc: "Output result as JSON" },
 			{ name: "--help", desc: "Show help" },
 		],
@@ -88,10 +89,13 @@ export const COMMANDS: readonly CommandDef[] = [
 			{ name: "--skip-scout", desc: "Skip scout phase for lead agents" },
 			{ name: "--skip-review", desc: "Skip review phase for lead agents" },
 			{ name: "--skip-task-check", desc: "Skip task existence validation" },
+			{ name: "--skip-dep-check", desc: "Skip unmerged-blocker validation" },
 			{ name: "--force-hierarchy", desc: "Bypass hierarchy validation" },
 			{ name: "--max-agents", desc: "Max children per lead", takesValue: true },
 			{ name: "--dispatch-max-agents", desc: "Per-lead max agents ceiling", takesValue: true },
 			{ name: "--runtime", desc: "Runtime adapter", takesValue: true },
+			{ name: "--resume", desc: "Reuse the previous worktree and branch" },
+			{ name: "--headless", desc: "Run over RPC without tmux" },
 			{ name: "--json", desc: "JSON output" },
 			{ name: "--help", desc: "Show help" },
 		],
@@ -133,6 +137,12 @@ export const COMMANDS: readonly CommandDef[] = [
 		desc: "Live TUI dashboard for agent monitoring",
 		flags: [
 			{ name: "--interval", desc: "Poll interval in ms (default 2000)", takesValue: true },
+			{ name: "--all", desc: "Show data from all runs" },
+			{ name: "--serve", desc: "Serve a web dashboard over HTTP" },
+			{ name: "--port", desc: "HTTP port for --serve", takesValue: true },
+			{ name: "--host", desc: "Bind address for --serve", takesValue: true },
+			{ name: "--token", desc: "Require a token on every request", takesValue: true },
+			{ name: "--read-only", desc: "Disable mutating endpoints" },
 			{ name: "--help", desc: "Show help" },
 		],
 	},
@@ -156,6 +166,8 @@ export const COMMANDS: readonly CommandDef[] = [
 			{ name: "--all", desc: "All completed branches" },
 			{ name: "--into", desc: "Target branch to merge into", takesValue: true },
 			{ name: "--dry-run", desc: "Check for conflicts only" },
+			{ name: "--simulate", desc: "Predict conflicts across the whole queue" },
+			{ name: "--semantic-check", desc: "Detect pairwise semantic conflicts" },
 			{ name: "--json", desc: "JSON output" },
 			{ name: "--help", desc: "Show help" },
 		],
@@ -253,6 +265,56 @@ export const COMMANDS: readonly CommandDef[] = [
 			{ name: "--help", desc: "Show help" },
 		],
 	},
+	{
+		name: "broker",
+		desc: "Run the agent broker for headless agents",
+		flags: [{ name: "--help", desc: "Show help" }],
+		subcommands: [
+			{
+				name: "start",
+				desc: "Start the broker",
+				flags: [
+					{ name: "--background", desc: "Run in background" },
+					{ name: "--json", desc: "JSON output" },
+				],
+			},
+			{
+				name: "stop",
+				desc: "Abort hosted agents and stop the broker",
+				flags: [{ name: "--json", desc: "JSON output" }],
+			},
+			{
+				name: "status",
+				desc: "Show broker state and hosted agents",
+				flags: [{ name: "--json", desc: "JSON output" }],
+			},
+		],
+	},
+	{
+		name: "egress",
+		desc: "Run the egress proxy that limits agent network access",
+		flags: [{ name: "--help", desc: "Show help" }],
+		subcommands: [
+			{
+				name: "start",
+				desc: "Start the egress proxy",
+				flags: [
+					{ name: "--background", desc: "Run in background" },
+					{ name: "--json", desc: "JSON output" },
+				],
+			},
+			{
+				name: "stop",
+				desc: "Stop the egress proxy",
+				flags: [{ name: "--json", desc: "JSON output" }],
+			},
+			{
+				name: "status",
+				desc: "Show proxy state and egress profiles",
+				flags: [{ name: "--json", desc: "JSON output" }],
+			},
+		],
+	},
 	{
 		name: "trace",
 		desc: "Chronological event timeline for agent or task",
@@ -506,7 +568,12 @@ export const COMMANDS: readonly CommandDef[] = [
 						takesValue: true,
 						values: ["low", "normal", "high", "urgent"],
 					},
-					{ name: "--payload", desc: "Structured JSON payload", takesValue: true },
+					{
+						name: "--payload",
+						desc: "Structured JSON payload (validated against the type's schema)",
+						takesValue: true,
+					},
+					{ name: "--payload-version", desc: "Payload schema version", takesValue: true },
 					{ name: "--json", desc: "JSON output" },
 				],
 			},
@@ -531,10 +598,61 @@ export const COMMANDS: readonly CommandDef[] = [
 					{ name: "--json", desc: "JSON output" },
 				],
 			},
+			{
+				name: "search",
+				desc: "Full-text search over messages",
+				flags: [
+					{ name: "--type", desc: "Filter by message type", takesValue: true },
+					{
+						name: "--priority",
+						desc: "Filter by priority",
+						takesValue: true,
+						values: ["low", "normal", "high", "urgent"],
+					},
+					{ name: "--since", desc: "Sent at or after (ISO 8601)", takesValue: true },
+					{ name: "--until", desc: "Sent at or before (ISO 8601)", takesValue: true },
+					{ name: "--run", desc: "Only the run's agents, during the run", takesValue: true },
+					{ name: "--limit", desc: "Maximum number of results", takesValue: true },
+					{ name: "--json", desc: "JSON output" },
+				],
+			},
+			{
+				name: "thread",
+				desc: "Show a conversation as a reply tree",
+				flags: [{ name: "--json", desc: "JSON output" }],
+			},
+			{
+				name: "bridge",
+				desc: "Forward mail to a webhook and accept replies",
+				flags: [{ name: "--port", desc: "Reply endpoint port", takesValue: true }],
+			},
 			{
 				name: "read",
 				desc: "Mark message as read",
 			},
+			{
+				name: "ack",
+				desc: "Acknowledge a protocol message",
+				flags: [
+					{ name: "--agent", desc: "Agent name", takesValue: true },
+					{ name: "--complete", desc: "Mark the requested work as completed" },
+					{ name: "--json", desc: "JSON output" },
+				],
+			},
+			{
+				name: "await",
+				desc: "Wait for a message to reach a delivery state",
+				flags: [
+					{
+						name: "--state",
+						desc: "State to wait for",
+						takesValue: true,
+						values: ["delivered", "read", "acked", "completed"],
+					},
+					{ name: "--timeout", desc: "Timeout in ms", takesValue: true },
+					{ name: "--json", desc: "JSON output" },
+				],
+			},
 			{
 				name: "reply",
 				desc: "Reply to a message",
@@ -573,6 +691,68 @@ export const COMMANDS: readonly CommandDef[] = [
 			{ name: "list", desc: "List all groups (summary)" },
 		],
 	},
+	{
+		name: "policy",
+		desc: "Inspect the agent guard policy",
+		flags: [{ name: "--help", desc: "Show help" }],
+		subcommands: [
+			{
+				name: "test",
+				desc: "Show the guard decision for a command",
+				flags: [
+					{ name: "--capability", desc: "Agent capability", takesValue: true },
+					{ name: "--tool", desc: "Test a tool call instead of Bash", takesValue: true },
+					{ name: "--agent", desc: "Agent name", takesValue: true },
+					{ name: "--json", desc: "JSON output" },
+				],
+			},
+		],
+	},
+	{
+		name: "guards",
+		desc: "Inspect agent guard decisions",
+		flags: [{ name: "--help", desc: "Show help" }],
+		subcommands: [
+			{
+				name: "report",
+				desc: "Summarize guard blocks per agent and rule",
+				flags: [
+					{ name: "--agent", desc: "Filter by agent", takesValue: true },
+					{ name: "--since", desc: "Start time (ISO 8601)", takesValue: true },
+					{ name: "--threshold", desc: "Repeated-block threshold", takesValue: true },
+					{ name: "--json", desc: "JSON output" },
+				],
+			},
+		],
+	},
+	{
+		name: "plan",
+		desc: "Task dependency plan (critical path, parallel waves)",
+		flags: [
+			{ name: "--group", desc: "Limit to a task group", takesValue: true },
+			{ name: "--json", desc: "JSON output" },
+			{ name: "--help", desc: "Show help" },
+		],
+	},
+	{
+		name: "issue",
+		desc: "File tracker issues (no bd/sd needed)",
+		flags: [
+			{ name: "--json", desc: "JSON output" },
+			{ name: "--help", desc: "Show help" },
+		],
+		subcommands: [
+			{ name: "ready", desc: "List open issues whose blockers are closed" },
+			{ name: "show", desc: "Show issue details" },
+			{ name: "list", desc: "List issues" },
+			{ name: "create", desc: "Create a new issue" },
+			{ name: "claim", desc: "Mark an issue as in_progress" },
+			{ name: "update", desc: "Update an issue's status" },
+			{ name: "close", desc: "Close an issue" },
+			{ name: "dep", desc: "Record that an issue is blocked by another" },
+			{ name: "sync", desc: "No-op: issue files travel with git" },
+		],
+	},
 	{
 		name: "worktree",
 		desc: "Manage worktrees",
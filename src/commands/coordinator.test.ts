@@ -298,6 +298,8 @@ function makeCoordinatorSession(overrides: Partial<AgentSession> = {}): AgentSes
 		escalationLevel: 0,
 		stalledSince: null,
 		transcriptPath: null,
+		rpcEndpoint: null,
+		runtime: null,
 		...overrides,
 	};
 }
@@ -1046,6 +1048,13 @@ describe("buildCoordinatorBeacon", () => {
 		expect(beacon).toContain("bd ready");
 	});
 
+	test("lists per-capability runtimes only when configured", () => {
+		expect(buildCoordinatorBeacon()).not.toContain("RUNTIMES:");
+		const beacon = buildCoordinatorBeacon("bd", { scout: "codex", reviewer: "pi" });
+		expect(beacon).toContain("RUNTIMES: scout=codex, reviewer=pi");
+		expect(beacon).not.toContain("\n");
+	});
+
 	test("uses sd ready when cliName is sd", () => {
 		const beacon = buildCoordinatorBeacon("sd");
 		expect(beacon).toContain("sd ready");
@@ -16,7 +16,12 @@ import { mkdir, unlink } from "node:fs/promises";
 import { join } from "node:path";
 import { Command } from "commander";
 import { createIdentity, loadIdentity } from "../agents/identity.ts";
-import { createManifestLoader, resolveModel } from "../agents/manifest.ts";
+import {
+	createManifestLoader,
+	resolveCapabilityRuntimes,
+	resolveModel,
+	resolveRuntimeName,
+} from "../agents/manifest.ts";
 import { loadConfig } from "../config.ts";
 import { AgentError, ValidationError } from "../errors.ts";
 import { jsonOutput } from "../json.ts";
@@ -245,8 +250,12 @@ function createDefaultMonitor(projectRoot: string): NonNullable<CoordinatorDeps[
  * via tmux send-keys after Claude Code initializes.
  *
  * @param cliName - The tracker CLI name to use in startup instructions (default: "bd")
+ * @param runtimes - Capability → runtime selections to announce (omitted when empty)
  */
-export function buildCoordinatorBeacon(cliName = "bd"): string {
+export function buildCoordinatorBeacon(
+	cliName = "bd",
+	runtimes: Record<string, string> = {},
+): string {
 	const timestamp = new Date().toISOString();
 	const parts = [
 		`[OVERSTORY] ${COORDINATOR_NAME} (coordinator) ${timestamp}`,
@@ -255,6 +264,11 @@ export function buildCoordinatorBeacon(cliName = "bd"): string {
 		"DELEGATION: For any exploration/scouting, spawn a lead who will spawn scouts. Do NOT explore the codebase yourself beyond initial planning.",
 		`Startup: run mulch prime, check mail (ov mail check --agent ${COORDINATOR_NAME}), check ${cliName} ready, check ov group status, then begin work`,
 	];
+	const runtimeEntries = Object.entries(runtimes);
+	if (runtimeEntries.length > 0) {
+		const list = runtimeEntries.map(([cap, rt]) => `${cap}=${rt}`).join(", ");
+		parts.push(`RUNTIMES: ${list} (ov sling picks these automatically)`);
+	}
 	return parts.join(" — ");
 }
 
@@ -326,7 +340,7 @@ async function startCoordinator(
 		);
 		const manifest = await manifestLoader.load();
 		const resolvedModel = resolveModel(config, manifest, "coordinator", "opus");
-		const runtime = getRuntime(undefined, config);
+		const runtime = getRuntime(resolveRuntimeName(config, manifest, "coordinator"), config);
 
 		// Deploy hooks to the project root so the coordinator gets event logging,
 		// mail check --inject, and activity tracking via the standard hook pipeline.
@@ -338,6 +352,7 @@ async function startCoordinator(
 			agentName: COORDINATOR_NAME,
 			capability: "coordinator",
 			worktreePath: projectRoot,
+			policy: config.policy,
 		});
 
 		// Create coordinator identity if first run
@@ -409,6 +424,8 @@ async function startCoordinator(
 			escalationLevel: 0,
 			stalledSince: null,
 			transcriptPath: null,
+			rpcEndpoint: null,
+			runtime: runtime.id,
 		};
 
 		store.upsert(session);
@@ -434,7 +451,7 @@ async function startCoordinator(
 
 		const resolvedBackend = await resolveBackend(config.taskTracker.backend, config.project.root);
 		const trackerCli = trackerCliName(resolvedBackend);
-		const beacon = buildCoordinatorBeacon(trackerCli);
+		const beacon = buildCoordinatorBeacon(trackerCli, resolveCapabilityRuntimes(config, manifest));
 		await tmux.sendKeys(tmuxSession, beacon);
 
 		// Follow-up Enters with increasing delays to ensure submission
@@ -38,6 +38,7 @@ function makeMetrics(overrides: Partial<SessionMetrics> = {}): SessionMetrics {
 		estimatedCostUsd: 0.42,
 		modelUsed: "claude-sonnet-4-20250514",
 		runId: null,
+		runtime: null,
 		...overrides,
 	};
 }
@@ -576,6 +577,32 @@ describe("costsCommand", () => {
 			expect(parsed.grouped.scout?.sessions).toHaveLength(1);
 		});
 
+		test("lists the runtimes each capability ran on", async () => {
+			const dbPath = join(tempDir, ".overstory", "metrics.db");
+			const store = createMetricsStore(dbPath);
+			store.recordSession(makeMetrics({ agentName: "b1", taskId: "t1", runtime: "claude" }));
+			store.recordSession(makeMetrics({ agentName: "b2", taskId: "t2", runtime: "pi" }));
+			store.recordSession(
+				makeMetrics({ agentName: "s1", taskId: "t3", capability: "scout", runtime: "codex" }),
+			);
+			store.recordSession(makeMetrics({ agentName: "r1", taskId: "t4", capability: "reviewer" }));
+			store.close();
+
+			await costsCommand(["--json", "--by-capability"]);
+			const parsed = JSON.parse(output().trim()) as {
+				grouped: Record<string, { runtimes: string[] }>;
+			};
+			expect(parsed.grouped.builder?.runtimes).toEqual(["claude", "pi"]);
+			expect(parsed.grouped.scout?.runtimes).toEqual(["codex"]);
+			expect(parsed.grouped.reviewer?.runtimes).toEqual([]);
+
+			chunks = [];
+			await costsCommand(["--by-capability"]);
+			const out = output();
+			expect(out).toContain("Runtime");
+			expect(out).toContain("claude,pi");
+		});
+
 		test("empty data shows no session data message", async () => {
 			const dbPath = join(tempDir, ".overstory", "metrics.db");
 			const store = createMetricsStore(dbPath);
@@ -590,6 +617,52 @@ describe("costsCommand", () => {
 
 	// === --last flag ===
 
+	describe("unpriced models", () => {
+		test("JSON output lists models whose sessions had no price", async () => {
+			const dbPath = join(tempDir, ".overstory", "metrics.db");
+			const store = createMetricsStore(dbPath);
+			store.recordSession(makeMetrics({ agentName: "a", taskId: "t1" }));
+			store.recordSession(
+				makeMetrics({
+					agentName: "b",
+					taskId: "t2",
+					modelUsed: "openrouter/mystery-model",
+					estimatedCostUsd: null,
+				}),
+			);
+			store.close();
+
+			await costsCommand(["--json"]);
+
+			const parsed = JSON.parse(output().trim()) as { unpricedModels: string[] };
+			expect(parsed.unpricedModels).toEqual(["openrouter/mystery-model"]);
+		});
+
+		test("text output warns about unpriced models", async () => {
+			const dbPath = join(tempDir, ".overstory", "metrics.db");
+			const store = createMetricsStore(dbPath);
+			store.recordSession(
+				makeMetrics({ modelUsed: "openrouter/mystery-model", estimatedCostUsd: null }),
+			);
+			store.close();
+
+			await costsCommand([]);
+
+			expect(output()).toContain("No price for model: openrouter/mystery-model");
+		});
+
+		test("no warning when every session has a price", async () => {
+			const dbPath = join(tempDir, ".overstory", "metrics.db");
+			const store = createMetricsStore(dbPath);
+			store.recordSession(makeMetrics());
+			store.close();
+
+			await costsCommand([]);
+
+			expect(output()).not.toContain("No price for");
+		});
+	});
+
 	describe("--last flag", () => {
 		test("limits the number of sessions returned", async () => {
 			const dbPath = join(tempDir, ".overstory", "metrics.db");
@@ -782,6 +855,8 @@ describe("costsCommand", () => {
 				escalationLevel: 0,
 				stalledSince: null,
 				transcriptPath: null,
+				rpcEndpoint: null,
+				runtime: null,
 			});
 			sessionStore.close();
 
@@ -839,6 +914,8 @@ describe("costsCommand", () => {
 				escalationLevel: 0,
 				stalledSince: null,
 				transcriptPath: null,
+				rpcEndpoint: null,
+				runtime: null,
 			});
 			sessionStore.close();
 
@@ -904,6 +981,8 @@ describe("costsCommand", () => {
 				escalationLevel: 0,
 				stalledSince: null,
 				transcriptPath: null,
+				rpcEndpoint: null,
+				runtime: null,
 			});
 			sessionStore.upsert({
 				id: "sess-002",
@@ -923,6 +1002,8 @@ describe("costsCommand", () => {
 				escalationLevel: 0,
 				stalledSince: null,
 				transcriptPath: null,
+				rpcEndpoint: null,
+				runtime: null,
 			});
 			sessionStore.close();
 
@@ -983,6 +1064,8 @@ describe("costsCommand", () => {
 				escalationLevel: 0,
 				stalledSince: null,
 				transcriptPath: null,
+				rpcEndpoint: null,
+				runtime: null,
 			});
 			sessionStore.close();
 
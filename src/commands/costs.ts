@@ -12,8 +12,9 @@ import { Command } from "commander";
 import { loadConfig } from "../config.ts";
 import { ValidationError } from "../errors.ts";
 import { jsonError, jsonOutput } from "../json.ts";
-import { color } from "../logging/color.ts";
+import { color, printWarning } from "../logging/color.ts";
 import { renderHeader, separator } from "../logging/theme.ts";
+import { findUnpricedModels } from "../metrics/pricing.ts";
 import { createMetricsStore } from "../metrics/store.ts";
 import { estimateCost, parseTranscriptUsage } from "../metrics/transcript.ts";
 import { getRuntime } from "../runtimes/registry.ts";
@@ -109,6 +110,17 @@ async function discoverOrchestratorTranscript(
 	return bestPath;
 }
 
+/**
+ * Warn about models with no price: their sessions count as $0.00 in totals.
+ */
+function printUnpricedWarning(unpricedModels: string[]): void {
+	if (unpricedModels.length === 0) return;
+	printWarning(
+		`No price for model${unpricedModels.length === 1 ? "" : "s"}: ${unpricedModels.join(", ")}`,
+		"costs shown as $0.00; add prices under pricing: in config.yaml or .overstory/pricing.yaml",
+	);
+}
+
 /** Aggregate totals from a list of SessionMetrics. */
 interface Totals {
 	inputTokens: number;
@@ -134,6 +146,8 @@ function computeTotals(sessions: SessionMetrics[]): Totals {
 /** Group SessionMetrics by capability. */
 interface CapabilityGroup {
 	capability: string;
+	/** Distinct runtimes the group's sessions ran on (unrecorded sessions omitted). */
+	runtimes: string[];
 	sessions: SessionMetrics[];
 	totals: Totals;
 }
@@ -150,8 +164,13 @@ function groupByCapability(sessions: SessionMetrics[]): CapabilityGroup[] {
 	}
 	const result: CapabilityGroup[] = [];
 	for (const [capability, capSessions] of groups) {
+		const runtimes = new Set<string>();
+		for (const s of capSessions) {
+			if (s.runtime) runtimes.add(s.runtime);
+		}
 		result.push({
 			capability,
+			runtimes: [...runtimes].sort(),
 			sessions: capSessions,
 			totals: computeTotals(capSessions),
 		});
@@ -217,7 +236,7 @@ function printByCapability(sessions: SessionMetrics[]): void {
 	}
 
 	w(
-		`${padRight("Capability", 14)}${padLeft("Sessions", 10)}` +
+		`${padRight("Capability", 14)}${padRight("Runtime", 10)}${padLeft("Sessions", 10)}` +
 			`${padLeft("Input", 10)}${padLeft("Output", 10)}` +
 			`${padLeft("Cache", 10)}${padLeft("Cost", 10)}\n`,
 	);
@@ -228,6 +247,7 @@ function printByCapability(sessions: SessionMetrics[]): void {
 	for (const group of groups) {
 		w(
 			`${padRight(group.capability, 14)}` +
+				`${padRight(group.runtimes.join(",") || "-", 10)}` +
 				`${padLeft(formatNumber(group.sessions.length), 10)}` +
 				`${padLeft(formatNumber(group.totals.inputTokens), 10)}` +
 				`${padLeft(formatNumber(group.totals.outputTokens), 10)}` +
@@ -241,7 +261,7 @@ function printByCapability(sessions: SessionMetrics[]): void {
 	w(
 		`${color.green(
 			color.bold(
-				padRight("Total", 14) +
+				padRight("Total", 24) +
 					padLeft(formatNumber(sessions.length), 10) +
 					padLeft(formatNumber(totals.inputTokens), 10) +
 					padLeft(formatNumber(totals.outputTokens), 10) +
@@ -306,7 +326,7 @@ async function executeCosts(opts: CostsOpts): Promise<void> {
 		}
 
 		const usage = await parseTranscriptUsage(transcriptPath);
-		const cost = estimateCost(usage);
+		const cost = estimateCost(usage, config.pricing);
 		const cacheTotal = usage.cacheReadTokens + usage.cacheCreationTokens;
 
 		if (json) {
@@ -460,9 +480,14 @@ async function executeCosts(opts: CostsOpts): Promise<void> {
 			const burnRatePerMin = avgElapsedMs > 0 ? totalCost / (avgElapsedMs / 60_000) : 0;
 			const tokensPerMin = avgElapsedMs > 0 ? totalTokens / (avgElapsedMs / 60_000) : 0;
 
+			const unpricedModels = findUnpricedModels(
+				filteredSnapshots.filter((s) => agentData.some((a) => a.agentName === s.agentName)),
+			);
+
 			if (json) {
 				jsonOutput("costs", {
 					agents: agentData,
+					unpricedModels,
 					totals: {
 						inputTokens: totalInput,
 						outputTokens: totalOutput,
@@ -518,6 +543,7 @@ async function executeCosts(opts: CostsOpts): Promise<void> {
 						`${formatNumber(Math.floor(tokensPerMin))} tokens/min  |  ` +
 						`Elapsed: ${elapsedStr}\n`,
 				);
+				printUnpricedWarning(unpricedModels);
 			}
 		} finally {
 			metricsStore.close();
@@ -553,19 +579,25 @@ async function executeCosts(opts: CostsOpts): Promise<void> {
 			sessions = metricsStore.getRecentSessions(last);
 		}
 
+		const unpricedModels = findUnpricedModels(sessions);
+
 		if (json) {
 			if (byCapability) {
 				const groups = groupByCapability(sessions);
-				const grouped: Record<string, { sessions: SessionMetrics[]; totals: Totals }> = {};
+				const grouped: Record<
+					string,
+					{ runtimes: string[]; sessions: SessionMetrics[]; totals: Totals }
+				> = {};
 				for (const group of groups) {
 					grouped[group.capability] = {
+						runtimes: group.runtimes,
 						sessions: group.sessions,
 						totals: group.totals,
 					};
 				}
-				jsonOutput("costs", { grouped });
+				jsonOutput("costs", { grouped, unpricedModels });
 			} else {
-				jsonOutput("costs", { sessions });
+				jsonOutput("costs", { sessions, unpricedModels });
 			}
 			return;
 		}
@@ -575,6 +607,7 @@ async function executeCosts(opts: CostsOpts): Promise<void> {
 		} else {
 			printCostSummary(sessions);
 		}
+		printUnpricedWarning(unpricedModels);
 	} finally {
 		metricsStore.close();
 	}
@@ -301,6 +301,7 @@ function makeDashboardData(
 		recentMail: [],
 		mergeQueue: [],
 		metrics: { totalSessions: 0, avgDuration: 0, byCapability: {} },
+		costs: { totalUsd: 0, byAgent: {} },
 		tasks: overrides.tasks ?? [],
 		recentEvents: (overrides.recentEvents as never[]) ?? [],
 		feedColorMap: new Map(),
@@ -1,5 +1,5 @@
 /**
- * CLI command: ov dashboard [--interval <ms>] [--all]
+ * CLI command: ov dashboard [--interval <ms>] [--all] [--serve [--port <n>] [--host <addr>] [--token <t>] [--read-only]]
  *
  * Rich terminal dashboard using raw ANSI escape codes (zero runtime deps).
  * Polls existing data sources and renders multi-panel layout with agent status,
@@ -13,15 +13,26 @@
  *
  * By default, all panels are scoped to the current run (current-run.txt).
  * Use --all to show data across all runs.
+ *
+ * With --serve, the same data is served over HTTP instead (dashboard/server.ts).
  */
 
 import { existsSync } from "node:fs";
 import { join, resolve } from "node:path";
 import { Command } from "commander";
 import { loadConfig } from "../config.ts";
+import { startDashboardServer } from "../dashboard/server.ts";
 import { ValidationError } from "../errors.ts";
 import { createEventStore } from "../events/store.ts";
-import { accent, brand, color, visibleLength } from "../logging/color.ts";
+import {
+	accent,
+	brand,
+	color,
+	printHint,
+	printSuccess,
+	printWarning,
+	visibleLength,
+} from "../logging/color.ts";
 import {
 	buildAgentColorMap,
 	extendAgentColorMap,
@@ -42,7 +53,12 @@ import { createTrackerClient, resolveBackend } from "../tracker/factory.ts";
 import type { TrackerIssue } from "../tracker/types.ts";
 import type { EventStore, MailMessage, StoredEvent } from "../types.ts";
 import { evaluateHealth } from "../watchdog/health.ts";
-import { getCachedTmuxSessions, getCachedWorktrees, type StatusData } from "./status.ts";
+import {
+	getCachedTmuxSessions,
+	getCachedWorktrees,
+	isAgentProcessAlive,
+	type StatusData,
+} from "./status.ts";
 
 const pkgPath = resolve(import.meta.dir, "../../package.json");
 const PKG_VERSION: string = JSON.parse(await Bun.file(pkgPath).text()).version ?? "unknown";
@@ -295,7 +311,13 @@ interface TrackerCache {
 let trackerCache: TrackerCache | null = null;
 const TRACKER_CACHE_TTL_MS = 10_000; // 10 seconds
 
-interface DashboardData {
+/** Estimated spend for the dashboard's scope (completed sessions plus live snapshots). */
+export interface DashboardCosts {
+	totalUsd: number;
+	byAgent: Record<string, number>;
+}
+
+export interface DashboardData {
 	currentRunId?: string | null;
 	status: StatusData;
 	recentMail: MailMessage[];
@@ -305,6 +327,7 @@ interface DashboardData {
 		avgDuration: number;
 		byCapability: Record<string, number>;
 	};
+	costs: DashboardCosts;
 	tasks: TrackerIssue[];
 	recentEvents: StoredEvent[];
 	feedColorMap: Map<string, (s: string) => string>;
@@ -313,7 +336,7 @@ interface DashboardData {
 /**
  * Read the current run ID from current-run.txt, or null if no active run.
  */
-async function readCurrentRunId(overstoryDir: string): Promise<string | null> {
+export async function readCurrentRunId(overstoryDir: string): Promise<string | null> {
 	const path = join(overstoryDir, "current-run.txt");
 	const file = Bun.file(path);
 	if (!(await file.exists())) {
@@ -329,7 +352,7 @@ async function readCurrentRunId(overstoryDir: string): Promise<string | null> {
  * When runId is provided, all panels are scoped to agents in that run.
  * No stores are opened or closed here — that is the caller's responsibility.
  */
-async function loadDashboardData(
+export async function loadDashboardData(
 	root: string,
 	stores: DashboardStores,
 	runId?: string | null,
@@ -348,7 +371,7 @@ async function loadDashboardData(
 	const healthThresholds = thresholds ?? { staleMs: 300_000, zombieMs: 600_000 };
 	for (const session of allSessions) {
 		if (session.state === "completed") continue;
-		const tmuxAlive = tmuxSessionNames.has(session.tmuxSession);
+		const tmuxAlive = isAgentProcessAlive(session, tmuxSessionNames);
 		const check = evaluateHealth(session, tmuxAlive, healthThresholds);
 		if (check.state !== session.state) {
 			try {
@@ -445,6 +468,12 @@ async function loadDashboardData(
 	let totalSessions = 0;
 	let avgDuration = 0;
 	const byCapability: Record<string, number> = {};
+	const costs: DashboardCosts = { totalUsd: 0, byAgent: {} };
+	const addCost = (agentName: string, usd: number | null): void => {
+		if (usd === null) return;
+		costs.byAgent[agentName] = (costs.byAgent[agentName] ?? 0) + usd;
+		costs.totalUsd += usd;
+	};
 	if (stores.metricsStore) {
 		try {
 			if (runId && filteredAgents.length > 0) {
@@ -453,6 +482,9 @@ async function loadDashboardData(
 				const filtered = sessions.filter((s) => agentNames.has(s.agentName));
 
 				totalSessions = filtered.length;
+				for (const session of filtered) {
+					addCost(session.agentName, session.estimatedCostUsd);
+				}
 
 				const completedSessions = filtered.filter((s) => s.completedAt !== null);
 				if (completedSessions.length > 0) {
@@ -472,6 +504,17 @@ async function loadDashboardData(
 				for (const session of sessions) {
 					const cap = session.capability;
 					byCapability[cap] = (byCapability[cap] ?? 0) + 1;
+					addCost(session.agentName, session.estimatedCostUsd);
+				}
+			}
+
+			// Running agents have no session metrics yet; use their latest token snapshot.
+			const liveAgents = new Set(
+				filteredAgents.filter((a) => a.state !== "completed").map((a) => a.agentName),
+			);
+			for (const snapshot of stores.metricsStore.getLatestSnapshots()) {
+				if (liveAgents.has(snapshot.agentName)) {
+					addCost(snapshot.agentName, snapshot.estimatedCostUsd);
 				}
 			}
 		} catch {
@@ -515,6 +558,7 @@ async function loadDashboardData(
 		recentMail,
 		mergeQueue: mergeQueueEntries,
 		metrics: { totalSessions, avgDuration, byCapability },
+		costs,
 		tasks,
 		recentEvents,
 		feedColorMap,
@@ -555,7 +599,7 @@ export function renderAgentPanel(
 	output += `${CURSOR.cursorTo(startRow, 1)}${headerLine}${headerPadding}${dimBox.vertical}\n`;
 
 	// Column headers
-	const colStr = `${dimBox.vertical} St Name            Capability    State      Task ID          Duration  Tmux `;
+	const colStr = `${dimBox.vertical} St Name            Capability    Runtime  State      Task ID          Duration  Tmux `;
 	const colPadding = " ".repeat(
 		Math.max(0, leftWidth - visibleLength(colStr) - visibleLength(dimBox.vertical)),
 	);
@@ -576,6 +620,7 @@ export function renderAgentPanel(
 	});
 
 	const now = Date.now();
+	const tmuxSessionNames = new Set(data.status.tmuxSessions.map((s) => s.name));
 	const maxRows = panelHeight - 4; // header + col headers + separator + border
 	const visibleAgents = agents.slice(0, maxRows);
 
@@ -587,6 +632,7 @@ export function renderAgentPanel(
 		const stateColorFn = stateColor(agent.state);
 		const name = accent(pad(truncate(agent.agentName, 15), 15));
 		const capability = pad(truncate(agent.capability, 12), 12);
+		const runtime = pad(truncate(agent.runtime ?? "-", 8), 8);
 		const state = pad(agent.state, 10);
 		const taskId = accent(pad(truncate(agent.taskId, 16), 16));
 		const endTime =
@@ -595,10 +641,10 @@ export function renderAgentPanel(
 				: now;
 		const duration = formatDuration(endTime - new Date(agent.startedAt).getTime());
 		const durationPadded = pad(duration, 9);
-		const tmuxAlive = data.status.tmuxSessions.some((s) => s.name === agent.tmuxSession);
+		const tmuxAlive = isAgentProcessAlive(agent, tmuxSessionNames);
 		const tmuxDot = tmuxAlive ? color.green(">") : color.red("x");
 
-		const lineContent = `${dimBox.vertical} ${stateColorFn(icon)}  ${name} ${capability} ${stateColorFn(state)} ${taskId} ${durationPadded} ${tmuxDot}    `;
+		const lineContent = `${dimBox.vertical} ${stateColorFn(icon)}  ${name} ${capability} ${runtime} ${stateColorFn(state)} ${taskId} ${durationPadded} ${tmuxDot}    `;
 		const linePadding = " ".repeat(
 			Math.max(0, leftWidth - visibleLength(lineContent) - visibleLength(dimBox.vertical)),
 		);
@@ -898,7 +944,9 @@ function renderMetricsPanel(
 		.map(([cap, count]) => `${cap}:${count}`)
 		.join(", ");
 
-	const metricsLine = `${dimBox.vertical} ${brand.bold("Metrics")}  Total: ${totalSessions} | Avg: ${avgDur} | ${byCapability}`;
+	const cost = `$${data.costs.totalUsd.toFixed(2)}`;
+
+	const metricsLine = `${dimBox.vertical} ${brand.bold("Metrics")}  Total: ${totalSessions} | Avg: ${avgDur} | Cost: ${cost} | ${byCapability}`;
 	const metricsPadding = " ".repeat(
 		Math.max(0, width - visibleLength(metricsLine) - visibleLength(dimBox.vertical)),
 	);
@@ -966,6 +1014,76 @@ function renderDashboard(data: DashboardData, interval: number): void {
 interface DashboardOpts {
 	interval?: string;
 	all?: boolean;
+	serve?: boolean;
+	port?: string;
+	host?: string;
+	token?: string;
+	readOnly?: boolean;
+}
+
+const DEFAULT_SERVE_PORT = 8420;
+const DEFAULT_SERVE_HOST = "127.0.0.1";
+const LOOPBACK_HOSTS = new Set(["127.0.0.1", "localhost", "::1"]);
+
+/**
+ * Serve the dashboard over HTTP until SIGINT. Each API request loads a fresh
+ * snapshot through the same pre-opened stores the TUI would use.
+ */
+async function serveDashboard(
+	opts: DashboardOpts,
+	root: string,
+	runId: string | null | undefined,
+	thresholds: { staleMs: number; zombieMs: number },
+): Promise<void> {
+	const port = opts.port ? Number.parseInt(opts.port, 10) : DEFAULT_SERVE_PORT;
+	if (Number.isNaN(port) || port < 0 || port > 65535) {
+		throw new ValidationError("--port must be a number between 0 and 65535", {
+			field: "port",
+			value: opts.port,
+		});
+	}
+	const hostname = opts.host ?? DEFAULT_SERVE_HOST;
+	const token = opts.token ?? process.env.OVERSTORY_DASHBOARD_TOKEN ?? null;
+	// Without a token anyone who can reach the port could send mail, so writes need one.
+	const readOnly = (opts.readOnly ?? false) || !token;
+
+	const stores = openDashboardStores(root);
+	const eventBuffer = new EventBuffer(100);
+	const server = startDashboardServer({
+		port,
+		hostname,
+		token,
+		readOnly,
+		load: () => loadDashboardData(root, stores, runId, thresholds, eventBuffer),
+		eventStore: stores.eventStore,
+		mailStore: stores.mailStore,
+		version: PKG_VERSION,
+		currentRunId: runId,
+	});
+
+	printSuccess("Dashboard serving", server.url);
+	if (readOnly) {
+		printHint(
+			token
+				? "Read-only mode: mail sending is disabled"
+				: "Read-only mode: pass --token to enable mail sending",
+		);
+	}
+	if (!token && !LOOPBACK_HOSTS.has(hostname)) {
+		printWarning(
+			`Serving on ${hostname} without a token`,
+			"anyone who can reach this address can read agent data; pass --token",
+		);
+	}
+
+	process.on("SIGINT", () => {
+		server.stop();
+		closeDashboardStores(stores);
+		process.exit(0);
+	});
+
+	// Keep the command alive; the server runs until SIGINT.
+	await new Promise<never>(() => {});
 }
 
 async function executeDashboard(opts: DashboardOpts): Promise<void> {
@@ -991,18 +1109,23 @@ async function executeDashboard(opts: DashboardOpts): Promise<void> {
 		runId = await readCurrentRunId(overstoryDir);
 	}
 
-	// Open stores once for the entire poll loop lifetime
-	const stores = openDashboardStores(root);
-
-	// Create rolling event buffer (persisted across poll ticks)
-	const eventBuffer = new EventBuffer(100);
-
 	// Compute health thresholds once from config (reused across poll ticks)
 	const thresholds = {
 		staleMs: config.watchdog.staleThresholdMs,
 		zombieMs: config.watchdog.zombieThresholdMs,
 	};
 
+	if (opts.serve) {
+		await serveDashboard(opts, root, runId, thresholds);
+		return;
+	}
+
+	// Open stores once for the entire poll loop lifetime
+	const stores = openDashboardStores(root);
+
+	// Create rolling event buffer (persisted across poll ticks)
+	const eventBuffer = new EventBuffer(100);
+
 	// Hide cursor
 	process.stdout.write(CURSOR.hideCursor);
 
@@ -1029,6 +1152,14 @@ export function createDashboardCommand(): Command {
 		.description("Live TUI dashboard for agent monitoring (Ctrl+C to stop)")
 		.option("--interval <ms>", "Poll interval in milliseconds (default: 2000, min: 500)")
 		.option("--all", "Show data from all runs (default: current run only)")
+		.option("--serve", "Serve a web dashboard over HTTP instead of the TUI")
+		.option("--port <n>", `HTTP port for --serve (default: ${DEFAULT_SERVE_PORT})`)
+		.option("--host <addr>", `Bind address for --serve (default: ${DEFAULT_SERVE_HOST})`)
+		.option("--token <token>", "Require this token on every request (or OVERSTORY_DASHBOARD_TOKEN)")
+		.option(
+			"--read-only",
+			"Disable mutating endpoints (mail sending) in --serve mode (always on without --token)",
+		)
 		.action(async (opts: DashboardOpts) => {
 			await executeDashboard(opts);
 		});
@@ -0,0 +1,152 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp, stat } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+	egressPidPath,
+	egressStatePath,
+	getEgressProxyStatus,
+	readEgressState,
+	writeEgressState,
+} from "../runtimes/egress.ts";
+import { cleanupTempDir } from "../test-helpers.ts";
+import { createEgressCommand } from "./egress.ts";
+
+/**
+ * Tests for `ov egress start|stop|status`.
+ *
+ * `start` runs the proxy in-process and is stopped through its SIGTERM
+ * handler. A detached proxy is stood in for by a `sleep` child plus the PID
+ * and state files, so `stop` never signals the test runner itself.
+ */
+
+describe("ov egress", () => {
+	let chunks: string[];
+	let originalWrite: typeof process.stdout.write;
+	let tempDir: string;
+	let originalCwd: string;
+	let standIn: ReturnType<typeof Bun.spawn> | null;
+
+	beforeEach(async () => {
+		chunks = [];
+		originalWrite = process.stdout.write;
+		process.stdout.write = ((chunk: string) => {
+			chunks.push(chunk);
+			return true;
+		}) as typeof process.stdout.write;
+
+		tempDir = await mkdtemp(join(tmpdir(), "egress-cmd-test-"));
+		await Bun.write(
+			join(tempDir, ".overstory", "config.yaml"),
+			`project:\n  name: test\n  root: ${tempDir}\n  canonicalBranch: main\negress:\n  capabilities:\n    builder:\n      mode: allowlist\n      hosts:\n        - registry.npmjs.org\n`,
+		);
+		originalCwd = process.cwd();
+		process.chdir(tempDir);
+		standIn = null;
+	});
+
+	afterEach(async () => {
+		process.stdout.write = originalWrite;
+		process.chdir(originalCwd);
+		standIn?.kill();
+		await standIn?.exited;
+		await cleanupTempDir(tempDir);
+	});
+
+	/** Run `ov egress <args>` and return what it wrote to stdout. */
+	async function run(args: string[]): Promise<string> {
+		chunks = [];
+		await createEgressCommand().parseAsync(args, { from: "user" });
+		return chunks.join("");
+	}
+
+	async function runJson<T>(args: string[]): Promise<T> {
+		return JSON.parse(await run([...args, "--json"])) as T;
+	}
+
+	/** Pose as a detached proxy: a live process, its PID file and the state file. */
+	async function fakeRunningProxy(port: number): Promise<number> {
+		standIn = Bun.spawn(["sleep", "30"], { stdout: "ignore", stderr: "ignore" });
+		await Bun.write(egressPidPath(tempDir), `${standIn.pid}\n`);
+		await writeEgressState(tempDir, { port, secret: "s3cret" });
+		return standIn.pid;
+	}
+
+	/**
+	 * Start the proxy in the foreground and wait until it has written its PID
+	 * file. Resolves with the still-pending run (wrapped, so it is not awaited).
+	 */
+	async function startForeground(): Promise<{ running: Promise<string> }> {
+		const running = run(["start", "--json"]);
+		for (let i = 0; i < 100 && (await getEgressProxyStatus(tempDir)) === null; i++) {
+			await Bun.sleep(20);
+		}
+		return { running };
+	}
+
+	test("start writes the state file and reuses its port and secret after a restart", async () => {
+		let { running } = await startForeground();
+		const first = await readEgressState(tempDir);
+		expect(first?.port).toBeGreaterThan(0);
+		expect(first?.secret).toMatch(/^[0-9a-f]{64}$/);
+		expect((await stat(egressStatePath(tempDir))).mode & 0o777).toBe(0o600);
+		expect(await getEgressProxyStatus(tempDir)).toEqual({
+			pid: process.pid,
+			port: first?.port ?? 0,
+			secret: first?.secret ?? "",
+		});
+
+		process.emit("SIGTERM");
+		await running;
+		expect(await Bun.file(egressPidPath(tempDir)).exists()).toBe(false);
+		expect(await readEgressState(tempDir)).toEqual(first);
+
+		({ running } = await startForeground());
+		expect(await readEgressState(tempDir)).toEqual(first);
+		process.emit("SIGTERM");
+		await running;
+	});
+
+	test("status reports the running proxy and configured profiles", async () => {
+		const stopped = await runJson<Record<string, unknown>>(["status"]);
+		expect(stopped).toMatchObject({ running: false, pid: null, port: null });
+
+		const pid = await fakeRunningProxy(43210);
+		const out = await run(["status"]);
+		expect(out).toContain(`Egress proxy: running (PID: ${pid}, 127.0.0.1:43210)`);
+		expect(out).toContain("builder: allowlist: registry.npmjs.org");
+
+		const status = await runJson<Record<string, unknown>>(["status"]);
+		expect(status).toMatchObject({
+			success: true,
+			command: "egress status",
+			running: true,
+			pid,
+			port: 43210,
+			capabilities: { builder: { mode: "allowlist", hosts: ["registry.npmjs.org"] } },
+		});
+	});
+
+	test("start reports a proxy that is already running", async () => {
+		const pid = await fakeRunningProxy(43210);
+
+		const result = await runJson<Record<string, unknown>>(["start", "--background"]);
+		expect(result).toMatchObject({ pid, port: 43210, alreadyRunning: true });
+		await expect(run(["start"])).rejects.toThrow(`Egress proxy already running (PID: ${pid})`);
+	});
+
+	test("stop terminates the proxy process and removes its PID file", async () => {
+		const pid = await fakeRunningProxy(43210);
+
+		const result = await runJson<Record<string, unknown>>(["stop"]);
+		expect(result).toMatchObject({ stopped: true, pid });
+		expect(await standIn?.exited).not.toBe(0);
+		expect(await Bun.file(egressPidPath(tempDir)).exists()).toBe(false);
+		expect(await getEgressProxyStatus(tempDir)).toBeNull();
+	});
+
+	test("stop without a running proxy is a no-op", async () => {
+		const result = await runJson<Record<string, unknown>>(["stop"]);
+		expect(result).toMatchObject({ stopped: false, reason: "not running" });
+	});
+});
@@ -0,0 +1,214 @@
+/**
+ * CLI command: ov egress start|stop|status
+ *
+ * Runs the egress proxy: a long-lived local HTTP(S) proxy that limits which
+ * hosts agents reach, per the `egress:` section of config.yaml. `ov sling`
+ * starts it automatically for capabilities with an egress profile; `ov egress
+ * start --background` starts it ahead of time. The running proxy writes
+ * .overstory/egress-proxy.pid and records denied requests as `egress_denied`
+ * events.
+ */
+
+import { unlink } from "node:fs/promises";
+import { join } from "node:path";
+import { Command } from "commander";
+import { loadConfig } from "../config.ts";
+import { OverstoryError } from "../errors.ts";
+import { createEventStore } from "../events/store.ts";
+import { jsonOutput } from "../json.ts";
+import { printHint, printSuccess } from "../logging/color.ts";
+import {
+	buildEgressDeniedEvent,
+	type EgressDenial,
+	type EgressProxy,
+	egressPidPath,
+	ensureEgressProxy,
+	getEgressProxyStatus,
+	readEgressState,
+	startEgressProxy,
+	writeEgressState,
+} from "../runtimes/egress.ts";
+import type { EventStore } from "../types.ts";
+
+/** How long `ov egress stop` waits for the proxy to exit. */
+const STOP_TIMEOUT_MS = 5_000;
+
+async function removePidFile(pidFilePath: string): Promise<void> {
+	try {
+		await unlink(pidFilePath);
+	} catch {
+		// File may already be gone — not an error
+	}
+}
+
+async function runStart(opts: { background?: boolean; json?: boolean }): Promise<void> {
+	const config = await loadConfig(process.cwd());
+	const root = config.project.root;
+	const pidFilePath = egressPidPath(root);
+
+	const existing = await getEgressProxyStatus(root);
+	if (opts.background) {
+		const state = existing ?? (await ensureEgressProxy(root));
+		if (opts.json) {
+			jsonOutput("egress start", {
+				pid: state.pid,
+				port: state.port,
+				alreadyRunning: existing !== null,
+			});
+		} else if (existing) {
+			printHint(`Egress proxy already running (PID: ${existing.pid}, port ${existing.port})`);
+		} else {
+			printSuccess("Egress proxy started in background", `PID: ${state.pid}, port ${state.port}`);
+		}
+		return;
+	}
+
+	if (existing) {
+		throw new OverstoryError(
+			`Egress proxy already running (PID: ${existing.pid}). Stop it with: ov egress stop`,
+			"EGRESS_ERROR",
+		);
+	}
+
+	let eventStore: EventStore | null = null;
+	try {
+		eventStore = createEventStore(join(root, ".overstory", "events.db"));
+	} catch {
+		// Denials are still refused, just not recorded
+	}
+
+	const onDenied = (denial: EgressDenial): void => {
+		try {
+			eventStore?.insert(buildEgressDeniedEvent(denial));
+		} catch {
+			// Event logging must not break the proxy
+		}
+	};
+
+	// Reuse the saved port and secret so agents spawned before a restart keep working
+	const saved = await readEgressState(root);
+	let proxy: EgressProxy;
+	try {
+		proxy = await startEgressProxy({ config, port: saved?.port, secret: saved?.secret, onDenied });
+	} catch (err) {
+		if (saved === null) throw err;
+		// Saved port taken by another process: agents spawned from now on use a new one
+		proxy = await startEgressProxy({ config, secret: saved.secret, onDenied });
+	}
+	await writeEgressState(root, { port: proxy.port, secret: proxy.secret });
+	await Bun.write(pidFilePath, `${process.pid}\n`);
+
+	const onSignal = (): void => {
+		void proxy.shutdown();
+	};
+	process.on("SIGINT", onSignal);
+	process.on("SIGTERM", onSignal);
+
+	if (!opts.json) {
+		printSuccess("Egress proxy running", `127.0.0.1:${proxy.port}`);
+		printHint("Press Ctrl+C to stop. Config changes apply after a restart.");
+	}
+
+	await proxy.closed;
+	process.off("SIGINT", onSignal);
+	process.off("SIGTERM", onSignal);
+	eventStore?.close();
+	await removePidFile(pidFilePath);
+	if (!opts.json) {
+		printSuccess("Egress proxy stopped");
+	}
+}
+
+async function runStop(opts: { json?: boolean }): Promise<void> {
+	const config = await loadConfig(process.cwd());
+	const root = config.project.root;
+
+	const state = await getEgressProxyStatus(root);
+	if (!state) {
+		if (opts.json) {
+			jsonOutput("egress stop", { stopped: false, reason: "not running" });
+		} else {
+			printHint("No egress proxy running");
+		}
+		return;
+	}
+
+	process.kill(state.pid, "SIGTERM");
+	const deadline = Date.now() + STOP_TIMEOUT_MS;
+	while (Date.now() < deadline && (await getEgressProxyStatus(root)) !== null) {
+		await Bun.sleep(100);
+	}
+	await removePidFile(egressPidPath(root));
+
+	if (opts.json) {
+		jsonOutput("egress stop", { stopped: true, pid: state.pid });
+	} else {
+		printSuccess("Egress proxy stopped", `PID: ${state.pid}`);
+		printHint("Proxied agents have no network access until the proxy is started again");
+	}
+}
+
+async function runStatus(opts: { json?: boolean }): Promise<void> {
+	const config = await loadConfig(process.cwd());
+	const root = config.project.root;
+
+	const state = await getEgressProxyStatus(root);
+	const profiles = Object.entries(config.egress?.capabilities ?? {});
+
+	if (opts.json) {
+		jsonOutput("egress status", {
+			running: state !== null,
+			pid: state?.pid ?? null,
+			port: state?.port ?? null,
+			capabilities: Object.fromEntries(profiles),
+		});
+		return;
+	}
+
+	if (state) {
+		process.stdout.write(`Egress proxy: running (PID: ${state.pid}, 127.0.0.1:${state.port})\n`);
+	} else {
+		printHint("No egress proxy running");
+	}
+	if (profiles.length === 0) {
+		printHint("No egress profiles configured (egress.capabilities in config.yaml)");
+		return;
+	}
+	for (const [capability, profile] of profiles) {
+		const hosts = profile.hosts && profile.hosts.length > 0 ? `: ${profile.hosts.join(", ")}` : "";
+		process.stdout.write(`   ${capability}: ${profile.mode}${hosts}\n`);
+	}
+}
+
+export function createEgressCommand(): Command {
+	const cmd = new Command("egress").description(
+		"Run the egress proxy that limits which hosts agents can reach",
+	);
+
+	cmd
+		.command("start")
+		.description("Start the egress proxy (foreground unless --background)")
+		.option("--background", "Daemonize (run in background)")
+		.option("--json", "Output as JSON")
+		.action(async (opts: { background?: boolean; json?: boolean }) => {
+			await runStart(opts);
+		});
+
+	cmd
+		.command("stop")
+		.description("Stop the egress proxy")
+		.option("--json", "Output as JSON")
+		.action(async (opts: { json?: boolean }) => {
+			await runStop(opts);
+		});
+
+	cmd
+		.command("status")
+		.description("Show whether the egress proxy is running and the configured profiles")
+		.option("--json", "Output as JSON")
+		.action(async (opts: { json?: boolean }) => {
+			await runStatus(opts);
+		});
+
+	return cmd;
+}
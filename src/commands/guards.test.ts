@@ -0,0 +1,101 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { buildGuardDecisionEvent } from "../agents/guard-audit.ts";
+import { createEventStore } from "../events/store.ts";
+import { cleanupTempDir } from "../test-helpers.ts";
+import { createGuardsCommand } from "./guards.ts";
+
+/**
+ * Tests for `ov guards report`.
+ *
+ * Uses a real events.db in a temp project and captures stdout.
+ */
+
+describe("ov guards report", () => {
+	let chunks: string[];
+	let originalWrite: typeof process.stdout.write;
+	let tempDir: string;
+	let originalCwd: string;
+
+	beforeEach(async () => {
+		chunks = [];
+		originalWrite = process.stdout.write;
+		process.stdout.write = ((chunk: string) => {
+			chunks.push(chunk);
+			return true;
+		}) as typeof process.stdout.write;
+
+		tempDir = await mkdtemp(join(tmpdir(), "guards-test-"));
+		await Bun.write(
+			join(tempDir, ".overstory", "config.yaml"),
+			`project:\n  name: test\n  root: ${tempDir}\n  canonicalBranch: main\n`,
+		);
+		originalCwd = process.cwd();
+		process.chdir(tempDir);
+	});
+
+	afterEach(async () => {
+		process.stdout.write = originalWrite;
+		process.chdir(originalCwd);
+		await cleanupTempDir(tempDir);
+	});
+
+	async function run(args: string[]): Promise<string> {
+		await createGuardsCommand().parseAsync(["report", ...args], { from: "user" });
+		return chunks.join("");
+	}
+
+	function seed(): void {
+		const store = createEventStore(join(tempDir, ".overstory", "events.db"));
+		const block = {
+			toolName: "Bash",
+			decision: "block" as const,
+			rule: "read-only",
+			reason: "scout agents cannot modify files — this command is not allowed",
+			capability: "scout",
+			target: "echo hi > notes.md",
+		};
+		for (let i = 0; i < 3; i++) {
+			store.insert(buildGuardDecisionEvent("scout-1", null, block));
+		}
+		store.insert(buildGuardDecisionEvent("scout-2", null, block));
+		store.insert(
+			buildGuardDecisionEvent("scout-2", null, {
+				...block,
+				decision: "allow",
+				rule: "safe-prefix",
+			}),
+		);
+		store.close();
+	}
+
+	test("reports that there is no data without an events database", async () => {
+		expect(await run([])).toBe("No events data yet.\n");
+	});
+
+	test("summarizes blocks and highlights repeated ones", async () => {
+		seed();
+		const out = await run([]);
+		expect(out).toContain("5 decisions: 1 allowed, 4 blocked");
+		expect(out).toContain("Repeated blocks (3+ of the same rule)");
+		expect(out).toContain("read-only x3 (Bash)");
+		expect(out).toContain("4 blocks, 2 agents");
+	});
+
+	test("--agent and --json filter and serialize the report", async () => {
+		seed();
+		const out = await run(["--agent", "scout-2", "--json"]);
+		const parsed = JSON.parse(out) as {
+			success: boolean;
+			blocks: number;
+			repeated: unknown[];
+			groups: Array<{ agentName: string; count: number }>;
+		};
+		expect(parsed.success).toBe(true);
+		expect(parsed.blocks).toBe(1);
+		expect(parsed.repeated).toEqual([]);
+		expect(parsed.groups).toEqual([expect.objectContaining({ agentName: "scout-2", count: 1 })]);
+	});
+});
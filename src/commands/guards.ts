@@ -0,0 +1,139 @@
+/**
+ * CLI command: ov guards report [--agent <name>] [--since <ts>] [--threshold <n>] [--json]
+ *
+ * Summarizes the guard audit log (guard_decision events recorded by
+ * `ov log tool-start`): blocks per agent and rule, blocks per rule, and the
+ * agents that repeatedly hit the same guard. Frequent blocks across many
+ * agents point at a guard that is too strict; one agent hitting the same
+ * guard over and over is usually trying to escape its sandbox.
+ */
+
+import { join } from "node:path";
+import { Command } from "commander";
+import { type GuardReport, summarizeGuardDecisions } from "../agents/guard-audit.ts";
+import { loadConfig } from "../config.ts";
+import { ValidationError } from "../errors.ts";
+import { createEventStore } from "../events/store.ts";
+import { jsonOutput } from "../json.ts";
+import { accent, color } from "../logging/color.ts";
+import { formatRelativeTime } from "../logging/format.ts";
+import { renderHeader } from "../logging/theme.ts";
+
+interface GuardsReportOpts {
+	agent?: string;
+	since?: string;
+	threshold?: string;
+	json?: boolean;
+}
+
+/**
+ * Render a guard report as human-readable text.
+ */
+export function formatGuardReport(report: GuardReport, threshold: number): string {
+	const lines: string[] = [renderHeader("Guard Report"), ""];
+	lines.push(
+		`${report.decisions} decision${report.decisions === 1 ? "" : "s"}: ` +
+			`${report.allows} allowed, ${report.blocks} blocked`,
+	);
+	if (report.blocks === 0) {
+		return `${lines.join("\n")}\n`;
+	}
+
+	if (report.repeated.length > 0) {
+		lines.push("", color.bold(color.red(`Repeated blocks (${threshold}+ of the same rule)`)));
+		for (const group of report.repeated) {
+			const target = group.lastTarget !== null ? ` ${color.dim(`last: ${group.lastTarget}`)}` : "";
+			lines.push(
+				`  ${color.red("!")} ${accent(group.agentName)} [${group.capability}] ` +
+					`${group.rule} x${group.count} (${group.tools.join(", ")})${target}`,
+			);
+		}
+	}
+
+	lines.push("", color.bold("Blocks by rule"));
+	for (const rule of report.rules) {
+		lines.push(
+			`  ${rule.rule.padEnd(20)} ${rule.blocks} block${rule.blocks === 1 ? "" : "s"}, ` +
+				`${rule.agents} agent${rule.agents === 1 ? "" : "s"}`,
+		);
+	}
+
+	lines.push("", color.bold("Blocks by agent"));
+	let currentAgent: string | null = null;
+	for (const group of [...report.groups].sort((a, b) => a.agentName.localeCompare(b.agentName))) {
+		if (group.agentName !== currentAgent) {
+			currentAgent = group.agentName;
+			lines.push(`  ${accent(group.agentName)} [${group.capability}]`);
+		}
+		lines.push(
+			`    ${group.rule.padEnd(20)} ${String(group.count).padStart(3)}  ` +
+				`${color.dim(`${group.lastReason} (${formatRelativeTime(group.lastAt)})`)}`,
+		);
+	}
+
+	return `${lines.join("\n")}\n`;
+}
+
+async function executeGuardsReport(opts: GuardsReportOpts): Promise<void> {
+	const json = opts.json ?? false;
+	const threshold = opts.threshold !== undefined ? Number.parseInt(opts.threshold, 10) : 3;
+	if (Number.isNaN(threshold) || threshold < 1) {
+		throw new ValidationError("--threshold must be a positive integer", {
+			field: "threshold",
+			value: opts.threshold,
+		});
+	}
+	if (opts.since !== undefined && Number.isNaN(new Date(opts.since).getTime())) {
+		throw new ValidationError("--since must be a valid ISO 8601 timestamp", {
+			field: "since",
+			value: opts.since,
+		});
+	}
+
+	const config = await loadConfig(process.cwd());
+	const eventsDbPath = join(config.project.root, ".overstory", "events.db");
+	if (!(await Bun.file(eventsDbPath).exists())) {
+		if (json) {
+			jsonOutput("guards report", { ...summarizeGuardDecisions([]), threshold });
+		} else {
+			process.stdout.write("No events data yet.\n");
+		}
+		return;
+	}
+
+	const eventStore = createEventStore(eventsDbPath);
+	try {
+		const events = eventStore
+			.getByType("guard_decision", { since: opts.since })
+			.filter((e) => opts.agent === undefined || e.agentName === opts.agent);
+		const report = summarizeGuardDecisions(events, { repeatThreshold: threshold });
+
+		if (json) {
+			jsonOutput("guards report", { ...report, threshold });
+			return;
+		}
+		process.stdout.write(formatGuardReport(report, threshold));
+	} finally {
+		eventStore.close();
+	}
+}
+
+/**
+ * Create the Commander command for `ov guards`.
+ */
+export function createGuardsCommand(): Command {
+	const cmd = new Command("guards").description("Inspect agent guard decisions");
+
+	cmd
+		.command("report")
+		.description("Summarize guard blocks per agent and rule")
+		.option("--agent <name>", "Only include decisions for this agent")
+		.option("--since <timestamp>", "Only include decisions after this time (ISO 8601)")
+		.option("--threshold <n>", "Blocks of one rule before an agent is flagged (default: 3)")
+		.option("--json", "Output as JSON")
+		.action(async (opts: GuardsReportOpts) => {
+			await executeGuardsReport(opts);
+		});
+
+	return cmd;
+}
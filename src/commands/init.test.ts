@@ -1,6 +1,7 @@
 import { afterEach, beforeEach, describe, expect, test } from "bun:test";
-import { readdir } from "node:fs/promises";
+import { readdir, stat } from "node:fs/promises";
 import { join } from "node:path";
+import { ValidationError } from "../errors.ts";
 import { cleanupTempDir, createTempGitRepo, runGitInDir } from "../test-helpers.ts";
 import type { Spawner } from "./init.ts";
 import { initCommand, OVERSTORY_GITIGNORE, OVERSTORY_README, resolveToolSet } from "./init.ts";
@@ -456,6 +457,42 @@ describe("initCommand: --name flag", () => {
 	});
 });
 
+describe("initCommand: --tracker flag", () => {
+	let tempDir: string;
+	let originalCwd: string;
+	let originalWrite: typeof process.stdout.write;
+
+	beforeEach(async () => {
+		tempDir = await createTempGitRepo();
+		originalCwd = process.cwd();
+		process.chdir(tempDir);
+
+		// Suppress stdout noise from initCommand
+		originalWrite = process.stdout.write;
+		process.stdout.write = (() => true) as typeof process.stdout.write;
+	});
+
+	afterEach(async () => {
+		process.chdir(originalCwd);
+		process.stdout.write = originalWrite;
+		await cleanupTempDir(tempDir);
+	});
+
+	test("--tracker files sets the backend and creates the issues directory", async () => {
+		await initCommand({ tracker: "files", _spawner: noopSpawner });
+
+		const content = await Bun.file(join(tempDir, ".overstory", "config.yaml")).text();
+		expect(content).toContain("backend: files");
+		expect((await stat(join(tempDir, ".overstory", "issues"))).isDirectory()).toBe(true);
+	});
+
+	test("invalid --tracker throws ValidationError", async () => {
+		await expect(initCommand({ tracker: "jira", _spawner: noopSpawner })).rejects.toThrow(
+			ValidationError,
+		);
+	});
+});
+
 // ---- Ecosystem Bootstrap Tests ----
 
 /**
@@ -502,6 +539,11 @@ describe("resolveToolSet", () => {
 		expect(tools.map((t) => t.name)).toEqual(["mulch", "canopy"]);
 	});
 
+	test("--tracker files skips seeds", () => {
+		const tools = resolveToolSet({ tracker: "files" });
+		expect(tools.map((t) => t.name)).toEqual(["mulch", "canopy"]);
+	});
+
 	test("--skip-canopy removes canopy", () => {
 		const tools = resolveToolSet({ skipCanopy: true });
 		expect(tools.map((t) => t.name)).toEqual(["mulch", "seeds"]);
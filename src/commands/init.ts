@@ -1,5 +1,5 @@
 /**
- * CLI command: ov init [--force] [--yes|-y] [--name <name>]
+ * CLI command: ov init [--force] [--yes|-y] [--name <name>] [--tracker <backend>]
  *
  * Scaffolds the `.overstory/` directory in the current project with:
  * - config.yaml (serialized from DEFAULT_CONFIG)
@@ -16,7 +16,9 @@ import { DEFAULT_CONFIG } from "../config.ts";
 import { ValidationError } from "../errors.ts";
 import { jsonOutput } from "../json.ts";
 import { printHint, printSuccess, printWarning } from "../logging/color.ts";
-import type { AgentManifest, OverstoryConfig } from "../types.ts";
+import { FILE_ISSUES_DIR } from "../tracker/files.ts";
+import type { AgentManifest, OverstoryConfig, TaskTrackerBackend } from "../types.ts";
+import { TASK_TRACKER_BACKENDS } from "../types.ts";
 
 const OVERSTORY_DIR = ".overstory";
 
@@ -73,7 +75,8 @@ export function resolveToolSet(opts: InitOptions): SiblingTool[] {
 	}
 	return SIBLING_TOOLS.filter((t) => {
 		if (t.name === "mulch" && opts.skipMulch) return false;
-		if (t.name === "seeds" && opts.skipSeeds) return false;
+		// The file tracker replaces seeds, so there is nothing to bootstrap
+		if (t.name === "seeds" && (opts.skipSeeds || opts.tracker === "files")) return false;
 		if (t.name === "canopy" && opts.skipCanopy) return false;
 		return true;
 	});
@@ -588,7 +591,11 @@ export const OVERSTORY_GITIGNORE = `# Wildcard+whitelist: ignore everything, whi
 !hooks.json
 !groups.json
 !agent-defs/
+!runtimes/
+!runtimes/**
 !README.md
+!issues/
+!issues/**
 `;
 
 /**
@@ -616,6 +623,7 @@ Overstory turns a single Claude Code session into a multi-agent team by spawning
 - \`agent-manifest.json\`     — Agent registry
 - \`hooks.json\`              — Claude Code hooks config
 - \`agent-defs/\`             — Agent definition files (.md)
+- \`runtimes/\`               — Declarative runtime adapters (.yaml)
 - \`specs/\`                  — Task specifications
 - \`agents/\`                 — Per-agent state and identity
 - \`worktrees/\`              — Git worktrees (gitignored)
@@ -651,6 +659,8 @@ export interface InitOptions {
 	skipCanopy?: boolean;
 	/** Skip the onboard step (injecting CLAUDE.md sections for ecosystem tools). */
 	skipOnboard?: boolean;
+	/** Task tracker backend to configure ("auto", "seeds", "beads", "files"). Default: auto. */
+	tracker?: string;
 	/** Output final result as JSON envelope. */
 	json?: boolean;
 	/** Injectable spawner for testability. */
@@ -705,6 +715,14 @@ export async function initCommand(opts: InitOptions): Promise<void> {
 		process.stdout.write(`Reinitializing .overstory/ (${flag})\n\n`);
 	}
 
+	const tracker = opts.tracker ?? "auto";
+	if (!TASK_TRACKER_BACKENDS.includes(tracker as TaskTrackerBackend)) {
+		throw new ValidationError(`--tracker must be one of: ${TASK_TRACKER_BACKENDS.join(", ")}`, {
+			field: "tracker",
+			value: tracker,
+		});
+	}
+
 	// 2. Detect project info
 	const projectName = opts.name ?? (await detectProjectName(projectRoot));
 	const canonicalBranch = await detectCanonicalBranch(projectRoot);
@@ -721,6 +739,10 @@ export async function initCommand(opts: InitOptions): Promise<void> {
 		join(OVERSTORY_DIR, "logs"),
 	];
 
+	if (tracker === "files") {
+		dirs.push(FILE_ISSUES_DIR);
+	}
+
 	for (const dir of dirs) {
 		await mkdir(join(projectRoot, dir), { recursive: true });
 		printCreated(`${dir}/`);
@@ -744,6 +766,7 @@ export async function initCommand(opts: InitOptions): Promise<void> {
 	config.project.name = projectName;
 	config.project.root = projectRoot;
 	config.project.canonicalBranch = canonicalBranch;
+	config.taskTracker.backend = tracker as TaskTrackerBackend;
 
 	const configYaml = serializeConfigToYaml(config);
 	const configPath = join(overstoryPath, "config.yaml");
@@ -55,6 +55,7 @@ function makeMetrics(overrides: Partial<SessionMetrics> = {}): SessionMetrics {
 		estimatedCostUsd: 0.025,
 		modelUsed: "claude-sonnet-4-5-20250929",
 		runId: null,
+		runtime: null,
 		...overrides,
 	};
 }
@@ -155,6 +156,8 @@ describe("inspectCommand", () => {
 				escalationLevel: 0,
 				stalledSince: null,
 				transcriptPath: null,
+				rpcEndpoint: null,
+				runtime: null,
 			});
 			store.close();
 
@@ -188,6 +191,8 @@ describe("inspectCommand", () => {
 				escalationLevel: 0,
 				stalledSince: null,
 				transcriptPath: null,
+				rpcEndpoint: null,
+				runtime: null,
 			});
 			store.close();
 
@@ -225,6 +230,8 @@ describe("inspectCommand", () => {
 				escalationLevel: 0,
 				stalledSince: null,
 				transcriptPath: null,
+				rpcEndpoint: null,
+				runtime: null,
 			});
 			store.close();
 
@@ -262,6 +269,8 @@ describe("inspectCommand", () => {
 				escalationLevel: 0,
 				stalledSince: null,
 				transcriptPath: null,
+				rpcEndpoint: null,
+				runtime: null,
 			});
 			store.close();
 
@@ -302,6 +311,8 @@ describe("inspectCommand", () => {
 				escalationLevel: 0,
 				stalledSince: null,
 				transcriptPath: null,
+				rpcEndpoint: null,
+				runtime: null,
 			});
 			store.close();
 
@@ -338,6 +349,8 @@ describe("inspectCommand", () => {
 				escalationLevel: 0,
 				stalledSince: null,
 				transcriptPath: null,
+				rpcEndpoint: null,
+				runtime: null,
 			});
 			store.close();
 
@@ -374,6 +387,8 @@ describe("inspectCommand", () => {
 				escalationLevel: 0,
 				stalledSince: null,
 				transcriptPath: null,
+				rpcEndpoint: null,
+				runtime: null,
 			});
 			store.close();
 
@@ -419,6 +434,8 @@ describe("inspectCommand", () => {
 				escalationLevel: 0,
 				stalledSince: null,
 				transcriptPath: null,
+				rpcEndpoint: null,
+				runtime: null,
 			});
 			store.close();
 
@@ -463,6 +480,8 @@ describe("inspectCommand", () => {
 				escalationLevel: 0,
 				stalledSince: null,
 				transcriptPath: null,
+				rpcEndpoint: null,
+				runtime: null,
 			});
 			store.close();
 
@@ -513,6 +532,8 @@ describe("inspectCommand", () => {
 				escalationLevel: 0,
 				stalledSince: null,
 				transcriptPath: null,
+				rpcEndpoint: null,
+				runtime: null,
 			});
 			store.close();
 
@@ -551,6 +572,8 @@ describe("inspectCommand", () => {
 				escalationLevel: 0,
 				stalledSince: null,
 				transcriptPath: null,
+				rpcEndpoint: null,
+				runtime: null,
 			});
 			store.close();
 
@@ -590,6 +613,8 @@ describe("inspectCommand", () => {
 				escalationLevel: 0,
 				stalledSince: null,
 				transcriptPath: null,
+				rpcEndpoint: null,
+				runtime: null,
 			});
 			store.close();
 
@@ -628,6 +653,8 @@ describe("inspectCommand", () => {
 				escalationLevel: 0,
 				stalledSince: null,
 				transcriptPath: null,
+				rpcEndpoint: null,
+				runtime: null,
 			});
 			store.close();
 
@@ -667,6 +694,8 @@ describe("inspectCommand", () => {
 				escalationLevel: 0,
 				stalledSince: null,
 				transcriptPath: null,
+				rpcEndpoint: null,
+				runtime: null,
 			});
 			store.close();
 
@@ -2,7 +2,8 @@
  * CLI command: ov inspect <agent-name>
  *
  * Deep per-agent inspection aggregating data from EventStore, SessionStore,
- * MetricsStore, and tmux capture-pane.
+ * MetricsStore, and tmux capture-pane (or the agent host's RPC state for
+ * headless agents).
  */
 
 import { join } from "node:path";
@@ -15,6 +16,8 @@ import { accent } from "../logging/color.ts";
 import { formatDuration } from "../logging/format.ts";
 import { renderHeader, separator, stateIconColored } from "../logging/theme.ts";
 import { createMetricsStore } from "../metrics/store.ts";
+import { headlessControl } from "../runtimes/headless.ts";
+import type { ConnectionState } from "../runtimes/types.ts";
 import { openSessionStore } from "../sessions/compat.ts";
 import type { AgentSession, StoredEvent, ToolStats } from "../types.ts";
 
@@ -106,6 +109,8 @@ export interface InspectData {
 		modelUsed: string | null;
 	} | null;
 	tmuxOutput: string | null;
+	/** Live RPC state of a headless agent (null for tmux agents or when unreachable). */
+	rpcState: ConnectionState | null;
 }
 
 /**
@@ -193,9 +198,16 @@ export async function gatherInspectData(
 			}
 		}
 
-		// tmux capture
+		// tmux capture (headless agents report their RPC state instead)
 		let tmuxOutput: string | null = null;
-		if (!opts.noTmux && session.tmuxSession) {
+		let rpcState: ConnectionState | null = null;
+		if (!opts.noTmux && session.rpcEndpoint) {
+			try {
+				rpcState = await headlessControl.getState(session.rpcEndpoint);
+			} catch {
+				// Agent host not reachable
+			}
+		} else if (!opts.noTmux && session.tmuxSession) {
 			const lines = opts.tmuxLines ?? 30;
 			tmuxOutput = await captureTmux(session.tmuxSession, lines);
 		}
@@ -208,6 +220,7 @@ export async function gatherInspectData(
 			toolStats,
 			tokenUsage,
 			tmuxOutput,
+			rpcState,
 		};
 	} finally {
 		store.close();
@@ -233,7 +246,15 @@ export function printInspectData(data: InspectData): void {
 		w(`Parent: ${accent(session.parentAgent)} (depth: ${session.depth})\n`);
 	}
 	w(`Started: ${session.startedAt}\n`);
-	w(`Tmux: ${accent(session.tmuxSession)}\n`);
+	if (session.rpcEndpoint) {
+		w(`RPC: ${accent(session.rpcEndpoint)}\n`);
+		if (data.rpcState) {
+			const tool = data.rpcState.currentTool ? ` (${data.rpcState.currentTool})` : "";
+			w(`RPC state: ${data.rpcState.status}${tool}\n`);
+		}
+	} else {
+		w(`Tmux: ${accent(session.tmuxSession)}\n`);
+	}
 	w("\n");
 
 	// Current file
@@ -0,0 +1,194 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { cleanupTempDir } from "../test-helpers.ts";
+import type { TrackerIssue } from "../tracker/types.ts";
+import { createIssueCommand } from "./issue.ts";
+
+/**
+ * Tests for `ov issue` against the file tracker.
+ *
+ * Uses real issue files in a temp project and captures stdout.
+ */
+
+describe("ov issue", () => {
+	let chunks: string[];
+	let originalWrite: typeof process.stdout.write;
+	let tempDir: string;
+	let issuesDir: string;
+	let originalCwd: string;
+
+	beforeEach(async () => {
+		chunks = [];
+		originalWrite = process.stdout.write;
+		process.stdout.write = ((chunk: string) => {
+			chunks.push(chunk);
+			return true;
+		}) as typeof process.stdout.write;
+
+		tempDir = await mkdtemp(join(tmpdir(), "issue-test-"));
+		issuesDir = join(tempDir, ".overstory", "issues");
+		await Bun.write(
+			join(tempDir, ".overstory", "config.yaml"),
+			`project:\n  name: test\n  root: ${tempDir}\n  canonicalBranch: main\ntaskTracker:\n  backend: files\n  enabled: true\n`,
+		);
+		originalCwd = process.cwd();
+		process.chdir(tempDir);
+	});
+
+	afterEach(async () => {
+		process.stdout.write = originalWrite;
+		process.chdir(originalCwd);
+		await cleanupTempDir(tempDir);
+	});
+
+	/** Run `ov issue <args>` and return what it wrote to stdout. */
+	async function run(args: string[]): Promise<string> {
+		chunks = [];
+		await createIssueCommand().parseAsync(args, { from: "user" });
+		return chunks.join("");
+	}
+
+	async function runJson<T>(args: string[]): Promise<T> {
+		return JSON.parse(await run([...args, "--json"])) as T;
+	}
+
+	async function writeMarkdownIssue(): Promise<void> {
+		await Bun.write(
+			join(issuesDir, "issue-md01.md"),
+			[
+				"---",
+				"id: issue-md01",
+				"title: Document the API",
+				"status: open",
+				"priority: P1",
+				"type: docs",
+				"blockedBy: []",
+				"---",
+				"Write the endpoint reference.",
+				"",
+			].join("\n"),
+		);
+	}
+
+	test("create writes a JSON issue file and records blockers", async () => {
+		const { id: blocker } = await runJson<{ id: string }>(["create", "Set up the schema"]);
+		const created = await runJson<{ success: boolean; command: string; id: string }>([
+			"create",
+			"--title",
+			"Add the users table",
+			"--type",
+			"feature",
+			"--priority",
+			"P1",
+			"--description",
+			"Columns: id, email",
+			"--blocked-by",
+			blocker,
+		]);
+		expect(created.success).toBe(true);
+		expect(created.command).toBe("issue create");
+
+		const stored = JSON.parse(
+			await Bun.file(join(issuesDir, `${created.id}.json`)).text(),
+		) as TrackerIssue;
+		expect(stored).toMatchObject({
+			id: created.id,
+			title: "Add the users table",
+			status: "open",
+			priority: 1,
+			type: "feature",
+			description: "Columns: id, email",
+			blockedBy: [blocker],
+		});
+	});
+
+	test("create without a title is rejected", async () => {
+		await expect(run(["create"])).rejects.toThrow("Issue title is required");
+	});
+
+	test("list shows JSON and Markdown issues, sorted by priority", async () => {
+		await writeMarkdownIssue();
+		const { id } = await runJson<{ id: string }>(["create", "Fix login", "--priority", "3"]);
+
+		const out = await run(["list"]);
+		const lines = out.trim().split("\n");
+		expect(lines).toHaveLength(2);
+		expect(lines[0]).toContain("issue-md01");
+		expect(lines[0]).toContain("[P1] [open] Document the API");
+		expect(lines[1]).toContain(id);
+		expect(lines[1]).toContain("[P3] [open] Fix login");
+
+		const { issues } = await runJson<{ issues: TrackerIssue[] }>(["list"]);
+		expect(issues.map((i) => i.id)).toEqual(["issue-md01", id]);
+	});
+
+	test("list prints a hint when there are no issues", async () => {
+		expect(await run(["list"])).toContain("No issues");
+	});
+
+	test("show prints details of a Markdown issue", async () => {
+		await writeMarkdownIssue();
+
+		const out = await run(["show", "issue-md01"]);
+		expect(out).toContain("issue-md01");
+		expect(out).toContain("Document the API");
+		expect(out).toContain("Status: open | Priority: P1 | Type: docs");
+		expect(out).toContain("Write the endpoint reference.");
+
+		const { issue } = await runJson<{ issue: TrackerIssue }>(["show", "issue-md01"]);
+		expect(issue).toMatchObject({ id: "issue-md01", type: "docs", priority: 1 });
+	});
+
+	test("show of a missing issue throws", async () => {
+		await expect(run(["show", "issue-none"])).rejects.toThrow('"issue-none" not found');
+	});
+
+	test("close updates JSON issues in place and unblocks dependents", async () => {
+		const { id: blocker } = await runJson<{ id: string }>(["create", "Set up the schema"]);
+		const { id } = await runJson<{ id: string }>([
+			"create",
+			"Add the users table",
+			"--blocked-by",
+			blocker,
+		]);
+		expect((await runJson<{ issues: TrackerIssue[] }>(["ready"])).issues.map((i) => i.id)).toEqual([
+			blocker,
+		]);
+
+		const closed = await runJson<{ id: string; status: string }>([
+			"close",
+			blocker,
+			"--reason",
+			"done",
+		]);
+		expect(closed).toMatchObject({ id: blocker, status: "closed" });
+
+		const stored = JSON.parse(await Bun.file(join(issuesDir, `${blocker}.json`)).text()) as {
+			status: string;
+			closeReason?: string;
+		};
+		expect(stored.status).toBe("closed");
+		expect(stored.closeReason).toBe("done");
+		expect((await runJson<{ issues: TrackerIssue[] }>(["ready"])).issues.map((i) => i.id)).toEqual([
+			id,
+		]);
+		expect((await runJson<{ issues: TrackerIssue[] }>(["list"])).issues.map((i) => i.id)).toEqual([
+			id,
+		]);
+	});
+
+	test("close keeps a Markdown issue in Markdown", async () => {
+		await writeMarkdownIssue();
+
+		expect(await run(["close", "issue-md01"])).toContain("Closed issue");
+
+		const content = await Bun.file(join(issuesDir, "issue-md01.md")).text();
+		expect(content).toContain("status: closed");
+		expect(content).toContain("Write the endpoint reference.");
+		expect(await Bun.file(join(issuesDir, "issue-md01.json")).exists()).toBe(false);
+		const { issues } = await runJson<{ issues: TrackerIssue[] }>(["list", "--status", "closed"]);
+		expect(issues.map((i) => i.id)).toEqual(["issue-md01"]);
+	});
+});
@@ -0,0 +1,231 @@
+/**
+ * CLI command: ov issue <subcommand>
+ *
+ * Manage issues for the built-in file tracker backend (taskTracker.backend:
+ * files). Issues live as JSON/Markdown files under `.overstory/issues/`, so
+ * no external tracker CLI (bd/sd) is needed. Subcommands mirror the bd/sd
+ * verbs agents already use: ready, show, list, create, claim, update, close,
+ * dep, and sync.
+ */
+
+import { Command } from "commander";
+import { loadConfig } from "../config.ts";
+import { ValidationError } from "../errors.ts";
+import { jsonOutput } from "../json.ts";
+import { accent, muted, printHint, printSuccess } from "../logging/color.ts";
+import { createFileTracker, type FileTrackerClient, parsePriority } from "../tracker/files.ts";
+import type { TrackerIssue } from "../tracker/types.ts";
+
+async function openTracker(): Promise<FileTrackerClient> {
+	const config = await loadConfig(process.cwd());
+	return createFileTracker(config.project.root);
+}
+
+/** Format a single-line issue summary. */
+function formatIssueLine(issue: TrackerIssue): string {
+	const blocked =
+		issue.blockedBy && issue.blockedBy.length > 0
+			? ` ${muted(`(blocked by ${issue.blockedBy.join(", ")})`)}`
+			: "";
+	return `${accent(issue.id)} [P${issue.priority}] [${issue.status}] ${issue.title}${blocked}`;
+}
+
+/** Format full issue details. */
+export function formatIssue(issue: TrackerIssue): string {
+	const lines = [
+		`${accent(issue.id)}: ${issue.title}`,
+		`  Status: ${issue.status} | Priority: P${issue.priority} | Type: ${issue.type}`,
+	];
+	if (issue.assignee) lines.push(`  Assignee: ${issue.assignee}`);
+	if (issue.blockedBy && issue.blockedBy.length > 0) {
+		lines.push(`  Blocked by: ${issue.blockedBy.join(", ")}`);
+	}
+	if (issue.blocks && issue.blocks.length > 0) {
+		lines.push(`  Blocks: ${issue.blocks.join(", ")}`);
+	}
+	if (issue.description) {
+		lines.push("", issue.description);
+	}
+	return lines.join("\n");
+}
+
+function printIssueList(issues: TrackerIssue[], empty: string): void {
+	if (issues.length === 0) {
+		printHint(empty);
+		return;
+	}
+	for (const issue of issues) {
+		process.stdout.write(`${formatIssueLine(issue)}\n`);
+	}
+}
+
+/**
+ * Create the Commander command for `ov issue`.
+ */
+export function createIssueCommand(): Command {
+	const cmd = new Command("issue").description(
+		"Manage file tracker issues (.overstory/issues/, no bd/sd needed)",
+	);
+
+	cmd
+		.command("ready")
+		.description("List open issues whose blockers are all closed")
+		.option("--json", "Output as JSON")
+		.action(async (opts: { json?: boolean }) => {
+			const issues = await (await openTracker()).ready();
+			if (opts.json) {
+				jsonOutput("issue ready", { issues });
+				return;
+			}
+			printIssueList(issues, "No ready issues");
+		});
+
+	cmd
+		.command("show")
+		.description("Show issue details")
+		.argument("<id>", "Issue ID")
+		.option("--json", "Output as JSON")
+		.action(async (id: string, opts: { json?: boolean }) => {
+			const issue = await (await openTracker()).show(id);
+			if (opts.json) {
+				jsonOutput("issue show", { issue });
+				return;
+			}
+			process.stdout.write(`${formatIssue(issue)}\n`);
+		});
+
+	cmd
+		.command("list")
+		.description("List issues (open and in-progress by default)")
+		.option("--status <status>", "Only issues with this status")
+		.option("--limit <n>", "Maximum number of issues")
+		.option("--json", "Output as JSON")
+		.action(async (opts: { status?: string; limit?: string; json?: boolean }) => {
+			const issues = await (await openTracker()).list({
+				status: opts.status,
+				limit: opts.limit !== undefined ? Number.parseInt(opts.limit, 10) : undefined,
+			});
+			if (opts.json) {
+				jsonOutput("issue list", { issues });
+				return;
+			}
+			printIssueList(issues, "No issues");
+		});
+
+	cmd
+		.command("create")
+		.description("Create a new issue")
+		.argument("[title]", "Issue title (or use --title)")
+		.option("--title <title>", "Issue title")
+		.option("--type <type>", "Issue type (task, bug, feature, ...)", "task")
+		.option("--priority <p>", "Priority: 0-4 or P0-P4", "2")
+		.option("--desc, --description <text>", "Issue description")
+		.option("--blocked-by <ids>", "Comma-separated IDs of blocking issues")
+		.option("--json", "Output as JSON")
+		.action(
+			async (
+				titleArg: string | undefined,
+				opts: {
+					title?: string;
+					type: string;
+					priority: string;
+					description?: string;
+					blockedBy?: string;
+					json?: boolean;
+				},
+			) => {
+				const title = opts.title ?? titleArg;
+				if (!title) {
+					throw new ValidationError("Issue title is required (positional or --title)", {
+						field: "title",
+					});
+				}
+				const tracker = await openTracker();
+				const id = await tracker.create(title, {
+					type: opts.type,
+					priority: parsePriority(opts.priority),
+					description: opts.description,
+				});
+				const blockers = (opts.blockedBy ?? "")
+					.split(",")
+					.map((b) => b.trim())
+					.filter((b) => b.length > 0);
+				for (const blocker of blockers) {
+					await tracker.addDependency(id, blocker);
+				}
+				if (opts.json) {
+					jsonOutput("issue create", { id });
+					return;
+				}
+				printSuccess("Created issue", id);
+			},
+		);
+
+	cmd
+		.command("claim")
+		.description("Mark an issue as in_progress")
+		.argument("<id>", "Issue ID")
+		.option("--json", "Output as JSON")
+		.action(async (id: string, opts: { json?: boolean }) => {
+			await (await openTracker()).claim(id);
+			if (opts.json) {
+				jsonOutput("issue claim", { id, status: "in_progress" });
+				return;
+			}
+			printSuccess("Claimed issue", id);
+		});
+
+	cmd
+		.command("update")
+		.description("Update an issue's status")
+		.argument("<id>", "Issue ID")
+		.requiredOption("--status <status>", "New status (open, in_progress, closed)")
+		.option("--json", "Output as JSON")
+		.action(async (id: string, opts: { status: string; json?: boolean }) => {
+			await (await openTracker()).setStatus(id, opts.status);
+			if (opts.json) {
+				jsonOutput("issue update", { id, status: opts.status });
+				return;
+			}
+			printSuccess(`Updated issue to ${opts.status}`, id);
+		});
+
+	cmd
+		.command("close")
+		.description("Close an issue")
+		.argument("<id>", "Issue ID")
+		.option("--reason <reason>", "Close reason")
+		.option("--json", "Output as JSON")
+		.action(async (id: string, opts: { reason?: string; json?: boolean }) => {
+			await (await openTracker()).close(id, opts.reason);
+			if (opts.json) {
+				jsonOutput("issue close", { id, status: "closed" });
+				return;
+			}
+			printSuccess("Closed issue", id);
+		});
+
+	cmd
+		.command("dep")
+		.description("Record that an issue is blocked by another")
+		.argument("<id>", "Blocked issue ID")
+		.argument("<blocker-id>", "Blocking issue ID")
+		.option("--json", "Output as JSON")
+		.action(async (id: string, blockerId: string, opts: { json?: boolean }) => {
+			await (await openTracker()).addDependency(id, blockerId);
+			if (opts.json) {
+				jsonOutput("issue dep", { id, blockedBy: blockerId });
+				return;
+			}
+			printSuccess(`Blocked by ${blockerId}`, id);
+		});
+
+	cmd
+		.command("sync")
+		.description("No-op: issue files travel with git")
+		.action(async () => {
+			await (await openTracker()).sync();
+		});
+
+	return cmd;
+}
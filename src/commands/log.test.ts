@@ -247,6 +247,8 @@ describe("logCommand", () => {
 			escalationLevel: 0,
 			stalledSince: null,
 			transcriptPath: null,
+			rpcEndpoint: null,
+			runtime: null,
 		};
 		const store = createSessionStore(dbPath);
 		store.upsert(session);
@@ -303,6 +305,8 @@ describe("logCommand", () => {
 			escalationLevel: 0,
 			stalledSince: null,
 			transcriptPath: null,
+			rpcEndpoint: null,
+			runtime: null,
 		};
 		const sessStore = createSessionStore(sessionsDbPath);
 		sessStore.upsert(session);
@@ -344,6 +348,8 @@ describe("logCommand", () => {
 			escalationLevel: 0,
 			stalledSince: null,
 			transcriptPath: null,
+			rpcEndpoint: null,
+			runtime: null,
 		};
 		const store = createSessionStore(dbPath);
 		store.upsert(session);
@@ -384,6 +390,8 @@ describe("logCommand", () => {
 			escalationLevel: 0,
 			stalledSince: null,
 			transcriptPath: null,
+			rpcEndpoint: null,
+			runtime: null,
 		};
 		const store = createSessionStore(dbPath);
 		store.upsert(session);
@@ -422,6 +430,8 @@ describe("logCommand", () => {
 				escalationLevel: 0,
 				stalledSince: null,
 				transcriptPath: null,
+				rpcEndpoint: null,
+				runtime: null,
 			});
 			sessionStoreLocal.close();
 
@@ -480,6 +490,8 @@ describe("logCommand", () => {
 				escalationLevel: 0,
 				stalledSince: null,
 				transcriptPath: null,
+				rpcEndpoint: null,
+				runtime: null,
 			});
 			sessionStoreLocal.close();
 
@@ -511,6 +523,8 @@ describe("logCommand", () => {
 				escalationLevel: 0,
 				stalledSince: null,
 				transcriptPath: null,
+				rpcEndpoint: null,
+				runtime: null,
 			});
 			sessionStoreLocal.close();
 
@@ -566,6 +580,8 @@ describe("logCommand", () => {
 				escalationLevel: 0,
 				stalledSince: null,
 				transcriptPath: null,
+				rpcEndpoint: null,
+				runtime: null,
 			});
 			sessionStoreLocal.close();
 
@@ -620,6 +636,8 @@ describe("logCommand", () => {
 			escalationLevel: 0,
 			stalledSince: null,
 			transcriptPath: null,
+			rpcEndpoint: null,
+			runtime: null,
 		};
 		const store = createSessionStore(dbPath);
 		store.upsert(session);
@@ -661,6 +679,8 @@ describe("logCommand", () => {
 			escalationLevel: 0,
 			stalledSince: null,
 			transcriptPath: null,
+			rpcEndpoint: null,
+			runtime: null,
 		};
 		const store = createSessionStore(dbPath);
 		store.upsert(session);
@@ -704,6 +724,8 @@ describe("logCommand", () => {
 			escalationLevel: 0,
 			stalledSince: null,
 			transcriptPath: null,
+			rpcEndpoint: null,
+			runtime: null,
 		};
 		const store = createSessionStore(dbPath);
 		store.upsert(session);
@@ -744,6 +766,8 @@ describe("logCommand", () => {
 			escalationLevel: 0,
 			stalledSince: null,
 			transcriptPath: null,
+			rpcEndpoint: null,
+			runtime: null,
 		};
 		const store = createSessionStore(dbPath);
 		store.upsert(session);
@@ -817,6 +841,58 @@ describe("logCommand", () => {
 		expect(events[0]?.agentName).toBe("pi-agent");
 	});
 
+	test("tool-start with --tool-input records the guard decision for the agent's capability", async () => {
+		const store = createSessionStore(join(tempDir, ".overstory", "sessions.db"));
+		store.upsert({
+			id: "session-guard",
+			agentName: "guarded-scout",
+			capability: "scout",
+			worktreePath: join(tempDir, "wt"),
+			branchName: "overstory/guarded-scout/task-1",
+			taskId: "task-1",
+			tmuxSession: "",
+			state: "working",
+			pid: null,
+			parentAgent: null,
+			depth: 1,
+			runId: null,
+			startedAt: new Date().toISOString(),
+			lastActivity: new Date().toISOString(),
+			escalationLevel: 0,
+			stalledSince: null,
+			transcriptPath: null,
+			rpcEndpoint: null,
+			runtime: "pi",
+		});
+		store.close();
+
+		const input = JSON.stringify({ command: "echo hi > notes.md" });
+		await logCommand([
+			"tool-start",
+			"--agent",
+			"guarded-scout",
+			"--tool-name",
+			"bash",
+			"--tool-input",
+			input,
+		]);
+		await logCommand(["tool-start", "--agent", "guarded-scout", "--tool-name", "read"]);
+
+		const eventStore = createEventStore(join(tempDir, ".overstory", "events.db"));
+		const decisions = eventStore.getByType("guard_decision");
+		eventStore.close();
+
+		expect(decisions).toHaveLength(1);
+		expect(decisions[0]?.toolName).toBe("Bash");
+		expect(decisions[0]?.level).toBe("warn");
+		expect(JSON.parse(decisions[0]?.data ?? "{}")).toMatchObject({
+			decision: "block",
+			rule: "read-only",
+			capability: "scout",
+			target: "echo hi > notes.md",
+		});
+	});
+
 	test("tool-end writes to EventStore without --stdin flag (Pi runtime path)", async () => {
 		await logCommand(["tool-start", "--agent", "pi-end-agent", "--tool-name", "Write"]);
 		await logCommand(["tool-end", "--agent", "pi-end-agent", "--tool-name", "Write"]);
@@ -878,6 +954,8 @@ describe("logCommand", () => {
 			escalationLevel: 0,
 			stalledSince: null,
 			transcriptPath: null,
+			rpcEndpoint: null,
+			runtime: null,
 		};
 		const store = createSessionStore(dbPath);
 		store.upsert(session);
@@ -918,6 +996,8 @@ describe("logCommand", () => {
 			escalationLevel: 0,
 			stalledSince: null,
 			transcriptPath: null,
+			rpcEndpoint: null,
+			runtime: null,
 		};
 		const store = createSessionStore(dbPath);
 		store.upsert(session);
@@ -8,10 +8,13 @@
  * When --stdin is passed, reads one line of JSON from stdin containing the full
  * hook payload (tool_name, tool_input, transcript_path, session_id, etc.)
  * and writes structured events to the EventStore for observability.
+ * tool-start also records the guard decision for the call (see guard-audit.ts).
  */
 
 import { join } from "node:path";
 import { Command } from "commander";
+import { buildGuardDecisionEvent, evaluateGuardedCall } from "../agents/guard-audit.ts";
+import { resolveGuardRules } from "../agents/guard-policy.ts";
 import { updateIdentity } from "../agents/identity.ts";
 import { loadConfig } from "../config.ts";
 import { ValidationError } from "../errors.ts";
@@ -26,7 +29,8 @@ import { estimateCost, parseTranscriptUsage } from "../metrics/transcript.ts";
 import { createMulchClient, type MulchClient } from "../mulch/client.ts";
 import { openSessionStore } from "../sessions/compat.ts";
 import { createRunStore } from "../sessions/store.ts";
-import type { AgentSession } from "../types.ts";
+import type { AgentSession, EventStore, OverstoryConfig } from "../types.ts";
+import { detectTranscriptProviderError, requestModelFallback } from "../watchdog/fallback.ts";
 
 /**
  * Get or create a session timestamp directory for the agent.
@@ -132,6 +136,55 @@ function getAgentSession(projectRoot: string, agentName: string): AgentSession |
 	}
 }
 
+/**
+ * Record the guard decision for a tool call in the EventStore.
+ *
+ * Re-evaluates the call with the agent's effective guard rules, so the
+ * decision matches what the deployed guards enforce. Skipped for agents
+ * without a session record and for tools no guard inspects.
+ */
+function recordGuardDecision(
+	eventStore: EventStore,
+	config: OverstoryConfig,
+	agentName: string,
+	sessionId: string | null,
+	toolName: string,
+	toolInput: Record<string, unknown>,
+): void {
+	const session = getAgentSession(config.project.root, agentName);
+	if (!session) {
+		return;
+	}
+	const rules = resolveGuardRules(session.capability, {
+		policy: config.policy,
+		qualityGates: config.project.qualityGates,
+	});
+	const call = evaluateGuardedCall(rules, toolName, toolInput, {
+		agentName,
+		worktreePath: session.worktreePath,
+	});
+	if (call) {
+		eventStore.insert(buildGuardDecisionEvent(agentName, sessionId, call));
+	}
+}
+
+/**
+ * Parse the --tool-input flag (JSON object). Returns null if absent or invalid.
+ */
+function parseToolInputFlag(raw: string | undefined): Record<string, unknown> | null {
+	if (raw === undefined) {
+		return null;
+	}
+	try {
+		const parsed: unknown = JSON.parse(raw);
+		return parsed !== null && typeof parsed === "object" && !Array.isArray(parsed)
+			? (parsed as Record<string, unknown>)
+			: null;
+	} catch {
+		return null;
+	}
+}
+
 /**
  * Read one line of JSON from stdin. Returns parsed object or null on failure.
  * Used when --stdin flag is present to receive hook payload from Claude Code.
@@ -447,6 +500,7 @@ async function runLog(opts: {
 	event: string;
 	agent: string;
 	toolName: string;
+	toolInput: string | undefined;
 	transcript: string | undefined;
 	stdin: boolean;
 }): Promise<void> {
@@ -472,7 +526,7 @@ async function runLog(opts: {
 		stdinPayload?.tool_input !== null &&
 		typeof stdinPayload.tool_input === "object"
 			? (stdinPayload.tool_input as Record<string, unknown>)
-			: null;
+			: parseToolInputFlag(opts.toolInput);
 	const sessionId = typeof stdinPayload?.session_id === "string" ? stdinPayload.session_id : null;
 	const transcriptPath =
 		typeof stdinPayload?.transcript_path === "string"
@@ -516,6 +570,9 @@ async function runLog(opts: {
 					level: "info",
 					data: JSON.stringify({ summary: filtered.summary }),
 				});
+				if (toolInput) {
+					recordGuardDecision(eventStore, config, opts.agent, sessionId, toolName, toolInput);
+				}
 				eventStore.close();
 			} catch {
 				// Non-fatal: EventStore write should not break hook execution
@@ -580,7 +637,7 @@ async function runLog(opts: {
 						);
 						if (resolvedTranscriptPath) {
 							const usage = await parseTranscriptUsage(resolvedTranscriptPath);
-							const cost = estimateCost(usage);
+							const cost = estimateCost(usage, config.pricing);
 							const metricsDbPath = join(config.project.root, ".overstory", "metrics.db");
 							const metricsStore = createMetricsStore(metricsDbPath);
 							metricsStore.recordSnapshot({
@@ -700,7 +757,7 @@ async function runLog(opts: {
 								cacheReadTokens = usage.cacheReadTokens;
 								cacheCreationTokens = usage.cacheCreationTokens;
 								modelUsed = usage.modelUsed;
-								estimatedCostUsd = estimateCost(usage);
+								estimatedCostUsd = estimateCost(usage, config.pricing);
 							} catch {
 								// Non-fatal: transcript parsing should not break metrics
 							}
@@ -723,12 +780,30 @@ async function runLog(opts: {
 							estimatedCostUsd,
 							modelUsed,
 							runId: agentSession.runId,
+							runtime: agentSession.runtime,
 						});
 						metricsStore.close();
 					} catch {
 						// Non-fatal: metrics recording should not break session-end handling
 					}
 
+					// A transcript ending in a provider error (rate limit, overload, outage)
+					// asks the watchdog to re-sling the agent on the next model in its chain.
+					if (transcriptPath && !PERSISTENT_CAPABILITIES.has(agentSession.capability)) {
+						try {
+							const providerError = await detectTranscriptProviderError(transcriptPath);
+							if (providerError) {
+								await requestModelFallback(
+									join(config.project.root, ".overstory"),
+									opts.agent,
+									providerError,
+								);
+							}
+						} catch {
+							// Non-fatal: fallback detection should not break session-end handling
+						}
+					}
+
 					// Auto-record expertise via mulch learn + record (post-session).
 					// Skip persistent agents whose Stop hook fires every turn.
 					if (!PERSISTENT_CAPABILITIES.has(agentSession.capability)) {
@@ -810,12 +885,19 @@ export function createLogCommand(): Command {
 		.argument("<event>", "Event type: tool-start, tool-end, session-end")
 		.option("--agent <name>", "Agent name (required)")
 		.option("--tool-name <name>", "Tool name (for tool-start/tool-end events, legacy)")
+		.option("--tool-input <json>", "Tool input as a JSON object (for tool-start without --stdin)")
 		.option("--transcript <path>", "Path to Claude Code transcript JSONL (for session-end, legacy)")
 		.option("--stdin", "Read hook payload JSON from stdin (preferred)")
 		.action(
 			async (
 				event: string,
-				opts: { agent?: string; toolName?: string; transcript?: string; stdin?: boolean },
+				opts: {
+					agent?: string;
+					toolName?: string;
+					toolInput?: string;
+					transcript?: string;
+					stdin?: boolean;
+				},
 			) => {
 				if (!opts.agent) {
 					throw new ValidationError("--agent is required for log command", { field: "agent" });
@@ -824,6 +906,7 @@ export function createLogCommand(): Command {
 					event,
 					agent: opts.agent,
 					toolName: opts.toolName ?? "unknown",
+					toolInput: opts.toolInput,
 					transcript: opts.transcript,
 					stdin: opts.stdin ?? false,
 				});
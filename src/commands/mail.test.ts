@@ -13,7 +13,9 @@ import { createEventStore } from "../events/store.ts";
 import { stripAnsi } from "../logging/color.ts";
 import { createMailClient } from "../mail/client.ts";
 import { createMailStore } from "../mail/store.ts";
-import { cleanupTempDir } from "../test-helpers.ts";
+import { headlessEndpoint, serveJsonLines } from "../runtimes/headless.ts";
+import { createSessionStore } from "../sessions/store.ts";
+import { cleanupTempDir, commitFile, runGitInDir } from "../test-helpers.ts";
 import type { StoredEvent } from "../types.ts";
 import { AUTO_NUDGE_TYPES, isDispatchNudge, mailCommand, shouldAutoNudge } from "./mail.ts";
 
@@ -249,6 +251,66 @@ describe("mailCommand", () => {
 		});
 	});
 
+	describe("ack and await", () => {
+		function sendAssign(): string {
+			const client = createMailClient(createMailStore(join(tempDir, ".overstory", "mail.db")));
+			try {
+				return client.sendProtocol({
+					from: "lead-1",
+					to: "builder-1",
+					subject: "Assign task",
+					body: "Spec attached",
+					type: "assign",
+					payload: {
+						taskId: "task-1",
+						specPath: ".overstory/specs/task-1.md",
+						workerName: "builder-1",
+						branch: "overstory/builder-1/task-1",
+					},
+				});
+			} finally {
+				client.close();
+			}
+		}
+
+		let originalExitCode: typeof process.exitCode;
+
+		beforeEach(() => {
+			originalExitCode = process.exitCode;
+			process.exitCode = 0;
+		});
+
+		afterEach(() => {
+			process.exitCode = originalExitCode;
+		});
+
+		test("await returns once the recipient acks", async () => {
+			const id = sendAssign();
+			await mailCommand(["ack", id, "--agent", "builder-1"]);
+			expect(output).toContain("Acknowledged");
+
+			output = "";
+			await mailCommand(["await", id, "--timeout", "1000", "--json"]);
+			expect(JSON.parse(output)).toMatchObject({ reached: true, state: "acked", current: "acked" });
+			expect(process.exitCode).toBe(0);
+		});
+
+		test("await times out with exit code 1", async () => {
+			const id = sendAssign();
+			output = "";
+			await mailCommand(["await", id, "--state", "completed", "--timeout", "0", "--json"]);
+			expect(JSON.parse(output)).toMatchObject({ reached: false, current: "sent" });
+			expect(process.exitCode).toBe(1);
+		});
+
+		test("ack by another agent is rejected", async () => {
+			const id = sendAssign();
+			await expect(mailCommand(["ack", id, "--agent", "builder-2"])).rejects.toThrow(
+				"addressed to builder-1",
+			);
+		});
+	});
+
 	describe("auto-nudge (pending nudge markers)", () => {
 		test("urgent message writes pending nudge marker instead of tmux keys", async () => {
 			await mailCommand([
@@ -325,6 +387,68 @@ describe("mailCommand", () => {
 			expect(marker.from).toBe("builder-1");
 		});
 
+		test("headless recipients get the message as an RPC followUp instead of a marker", async () => {
+			const endpoint = headlessEndpoint(tempDir, "builder-1");
+			const followUps: string[] = [];
+			const agentSocket = serveJsonLines(endpoint, async (method, params) => {
+				if (method === "followUp") followUps.push(String(params.text));
+				return { result: null };
+			});
+			const sessionStore = createSessionStore(join(tempDir, ".overstory", "sessions.db"));
+			sessionStore.upsert({
+				id: "session-builder-1",
+				agentName: "builder-1",
+				capability: "builder",
+				worktreePath: "/worktrees/builder-1",
+				branchName: "builder-1",
+				taskId: "bead-002",
+				tmuxSession: "",
+				state: "working",
+				pid: null,
+				parentAgent: null,
+				depth: 1,
+				runId: null,
+				startedAt: new Date().toISOString(),
+				lastActivity: new Date().toISOString(),
+				escalationLevel: 0,
+				stalledSince: null,
+				transcriptPath: null,
+				rpcEndpoint: endpoint,
+				runtime: null,
+			});
+			sessionStore.close();
+
+			try {
+				await mailCommand([
+					"send",
+					"--to",
+					"builder-1",
+					"--subject",
+					"Fix NOW",
+					"--body",
+					"Production is down",
+					"--priority",
+					"urgent",
+				]);
+			} finally {
+				agentSocket.stop(true);
+			}
+
+			expect(followUps).toHaveLength(1);
+			expect(followUps[0]).toContain("Fix NOW");
+			expect(followUps[0]).toContain("Production is down");
+			expect(output).toContain("over RPC");
+			expect(
+				await Bun.file(join(tempDir, ".overstory", "pending-nudges", "builder-1.json")).exists(),
+			).toBe(false);
+
+			// Delivered messages are marked read so `mail check` does not repeat them
+			const store = createMailStore(join(tempDir, ".overstory", "mail.db"));
+			const unread = store.getAll({ to: "builder-1" }).filter((m) => !m.read);
+			store.close();
+			expect(unread.map((m) => m.subject)).toEqual(["Build task"]);
+		});
+
 		test("normal priority non-protocol message does NOT write marker", async () => {
 			await mailCommand(["send", "--to", "builder-1", "--subject", "FYI", "--body", "Just a note"]);
 
@@ -775,6 +899,8 @@ describe("mailCommand", () => {
 					escalationLevel: 0,
 					stalledSince: null,
 					transcriptPath: null,
+					rpcEndpoint: null,
+					runtime: null,
 				},
 				{
 					id: "session-builder-1",
@@ -794,6 +920,8 @@ describe("mailCommand", () => {
 					escalationLevel: 0,
 					stalledSince: null,
 					transcriptPath: null,
+					rpcEndpoint: null,
+					runtime: null,
 				},
 				{
 					id: "session-builder-2",
@@ -813,6 +941,8 @@ describe("mailCommand", () => {
 					escalationLevel: 0,
 					stalledSince: null,
 					transcriptPath: null,
+					rpcEndpoint: null,
+					runtime: null,
 				},
 				{
 					id: "session-scout-1",
@@ -832,6 +962,8 @@ describe("mailCommand", () => {
 					escalationLevel: 0,
 					stalledSince: null,
 					transcriptPath: null,
+					rpcEndpoint: null,
+					runtime: null,
 				},
 			];
 
@@ -1004,6 +1136,53 @@ describe("mailCommand", () => {
 			expect(error?.message).toContain("Unknown group address");
 		});
 
+		test("@group:<id> and config groups resolve from groups.json and config.yaml", async () => {
+			await seedActiveSessions();
+			await Bun.write(
+				join(tempDir, ".overstory", "groups.json"),
+				JSON.stringify([
+					{
+						id: "group-Ab12cd34",
+						name: "auth",
+						memberIssueIds: ["bead-002", "bead-004"],
+						status: "active",
+						createdAt: new Date().toISOString(),
+						completedAt: null,
+					},
+				]),
+			);
+			await Bun.write(
+				join(tempDir, ".overstory", "config.yaml"),
+				`project:\n  name: test\n  root: ${tempDir}\n  canonicalBranch: main\nmail:\n  groups:\n    auth-team:\n      - "@group:group-Ab12cd34"\n      - reviewer-9\n`,
+			);
+
+			output = "";
+			await mailCommand([
+				"send",
+				"--to",
+				"@group:group-Ab12cd34",
+				"--subject",
+				"Scope",
+				"--body",
+				"B",
+			]);
+			expect(output).toContain("Broadcast sent to 2 recipients (@group:group-Ab12cd34)");
+
+			output = "";
+			await mailCommand(["send", "--to", "@auth-team", "--subject", "Scope 2", "--body", "B"]);
+			expect(output).toContain("Broadcast sent to 3 recipients (@auth-team)");
+
+			const store = createMailStore(join(tempDir, ".overstory", "mail.db"));
+			const client = createMailClient(store);
+			const recipients = client
+				.list()
+				.filter((m) => m.subject === "Scope 2")
+				.map((m) => m.to)
+				.sort();
+			client.close();
+			expect(recipients).toEqual(["builder-1", "reviewer-9", "scout-1"]);
+		});
+
 		test("broadcast with --json outputs message IDs and recipient count", async () => {
 			await seedActiveSessions();
 
@@ -1153,6 +1332,8 @@ describe("mailCommand", () => {
 					escalationLevel: 0,
 					stalledSince: null,
 					transcriptPath: null,
+					rpcEndpoint: null,
+					runtime: null,
 				});
 			}
 
@@ -1274,6 +1455,208 @@ describe("mailCommand", () => {
 			expect(stderrOutput).toBe("");
 		});
 	});
+
+	describe("search and thread", () => {
+		test("search finds messages by body text and honors --type", async () => {
+			await mailCommand(["search", "endpoints"]);
+			expect(output).toContain("Explore API");
+			expect(output).not.toContain("Build task");
+			expect(output).toContain("Found: 1 message");
+
+			output = "";
+			await mailCommand(["search", "endpoints", "--type", "question", "--json"]);
+			const parsed = JSON.parse(output.trim()) as { messages: unknown[] };
+			expect(parsed.messages).toEqual([]);
+
+			await expect(mailCommand(["search", "endpoints", "--since", "yesterday"])).rejects.toThrow(
+				"--since must be a valid ISO 8601 timestamp",
+			);
+		});
+
+		test("search --run limits results to the run's agents", async () => {
+			const sessionStore = createSessionStore(join(tempDir, ".overstory", "sessions.db"));
+			sessionStore.upsert({
+				id: "session-scout-1",
+				agentName: "scout-1",
+				capability: "scout",
+				worktreePath: "/worktrees/scout-1",
+				branchName: "scout-1",
+				taskId: "task-1",
+				tmuxSession: "",
+				state: "completed",
+				pid: null,
+				parentAgent: null,
+				depth: 1,
+				runId: "run-1",
+				startedAt: new Date().toISOString(),
+				lastActivity: new Date().toISOString(),
+				escalationLevel: 0,
+				stalledSince: null,
+				transcriptPath: null,
+				rpcEndpoint: null,
+				runtime: null,
+			});
+			sessionStore.close();
+
+			await mailCommand(["search", "Implement", "--run", "run-1", "--json"]);
+			expect(JSON.parse(output.trim()).messages).toEqual([]);
+
+			output = "";
+			await mailCommand(["search", "Investigate", "--run", "run-1", "--json"]);
+			const parsed = JSON.parse(output.trim()) as { messages: Array<{ to: string }> };
+			expect(parsed.messages.map((m) => m.to)).toEqual(["scout-1"]);
+
+			await expect(mailCommand(["search", "Investigate", "--run", "run-404"])).rejects.toThrow(
+				"Run not found: run-404",
+			);
+		});
+
+		test("thread renders replies indented under the message they answer", async () => {
+			const client = createMailClient(createMailStore(join(tempDir, ".overstory", "mail.db")));
+			const rootId = client.list({ to: "builder-1" })[0]?.id ?? "";
+			const replyId = client.reply(rootId, "Which module?", "builder-1");
+			client.reply(replyId, "The parser", "orchestrator");
+			client.close();
+
+			output = "";
+			await mailCommand(["thread", replyId]);
+			const lines = stripAnsi(output).split("\n");
+			expect(lines[0]).toStartWith(`${rootId}  orchestrator → builder-1`);
+			expect(lines.find((l) => l.includes("Which module?"))).toStartWith("      ");
+			expect(lines.find((l) => l.includes("The parser"))).toStartWith("          ");
+			expect(output).toContain(`Thread ${rootId}: 3 messages`);
+
+			await expect(mailCommand(["thread", "msg-missing"])).rejects.toThrow(
+				"Thread not found: msg-missing",
+			);
+		});
+	});
+
+	describe("payload schemas", () => {
+		function sendTyped(type: string, payload: string, extra: string[] = []): Promise<void> {
+			return mailCommand([
+				"send",
+				"--to",
+				"lead-1",
+				"--subject",
+				"Done",
+				"--body",
+				"Done",
+				"--type",
+				type,
+				"--from",
+				"builder-1",
+				"--payload",
+				payload,
+				...extra,
+			]);
+		}
+
+		test("rejects a worker_done payload with the wrong filesModified shape", async () => {
+			const payload = JSON.stringify({
+				taskId: "task-1",
+				branch: "overstory/builder-1/task-1",
+				exitCode: 0,
+				filesModified: "src/a.ts",
+			});
+			await expect(sendTyped("worker_done", payload)).rejects.toThrow(
+				'field "filesModified" must be string[]',
+			);
+			const client = createMailClient(createMailStore(join(tempDir, ".overstory", "mail.db")));
+			const toLead = client.list({ to: "lead-1" });
+			client.close();
+			expect(toLead).toEqual([]);
+		});
+
+		test("accepts custom protocol types from config and checks --payload-version", async () => {
+			await Bun.write(
+				join(tempDir, ".overstory", "config.yaml"),
+				`project:\n  name: test\n  root: ${tempDir}\n  canonicalBranch: main\nmail:\n  protocols:\n    deploy_done:\n      v1:\n        url: string\n`,
+			);
+
+			await sendTyped("deploy_done", JSON.stringify({ url: "https://example.com" }), [
+				"--payload-version",
+				"1",
+			]);
+			await expect(
+				sendTyped("deploy_done", JSON.stringify({ url: "https://example.com" }), [
+					"--payload-version",
+					"2",
+				]),
+			).rejects.toThrow("No v2 schema for deploy_done payloads");
+			await expect(sendTyped("deploy_done", "{}", ["--payload-version", "v1"])).rejects.toThrow(
+				"--payload-version must be a positive integer",
+			);
+
+			const client = createMailClient(createMailStore(join(tempDir, ".overstory", "mail.db")));
+			const toLead = client.list({ to: "lead-1" });
+			client.close();
+			expect(toLead.map((m) => `${m.type} v${m.payloadVersion}`)).toEqual(["deploy_done v1"]);
+		});
+	});
+
+	describe("merge_ready secret scan", () => {
+		const fakeKey = ["sk", "ant", "api03", "abcdefghijklmnop"].join("-");
+		const branch = "overstory/builder-1/task-1";
+
+		beforeEach(async () => {
+			await Bun.write(
+				join(tempDir, ".overstory", "config.yaml"),
+				`project:\n  name: test\n  root: ${tempDir}\n  canonicalBranch: main\n`,
+			);
+			await runGitInDir(tempDir, ["init", "-b", "main"]);
+			await commitFile(tempDir, "README.md", "readme");
+			await runGitInDir(tempDir, ["checkout", "-b", branch]);
+		});
+
+		function sendMergeReady(): Promise<void> {
+			return mailCommand([
+				"send",
+				"--to",
+				"merger",
+				"--subject",
+				"Ready to merge",
+				"--body",
+				"Reviewed",
+				"--type",
+				"merge_ready",
+				"--from",
+				"lead-1",
+				"--payload",
+				JSON.stringify({ branch, taskId: "task-1", agentName: "builder-1", filesModified: [] }),
+			]);
+		}
+
+		test("blocks the handoff and mails merge_failed to the builder and the sender", async () => {
+			await commitFile(tempDir, "src/client.ts", `const key = "${fakeKey}";\n`);
+			await runGitInDir(tempDir, ["checkout", "main"]);
+
+			await expect(sendMergeReady()).rejects.toThrow("src/client.ts:1 (anthropic-api-key)");
+
+			const client = createMailClient(createMailStore(join(tempDir, ".overstory", "mail.db")));
+			const toMerger = client.list({ to: "merger" });
+			const failures = [...client.list({ to: "builder-1" }), ...client.list({ to: "lead-1" })];
+			client.close();
+			expect(toMerger).toEqual([]);
+			// builder-1 also holds the "Build task" status mail seeded in beforeEach
+			expect(failures.filter((m) => m.type === "merge_failed").map((m) => m.to)).toEqual([
+				"builder-1",
+				"lead-1",
+			]);
+		});
+
+		test("sends merge_ready for a clean branch", async () => {
+			await commitFile(tempDir, "src/client.ts", "const key = process.env.API_KEY;\n");
+			await runGitInDir(tempDir, ["checkout", "main"]);
+
+			await sendMergeReady();
+
+			const client = createMailClient(createMailStore(join(tempDir, ".overstory", "mail.db")));
+			const toMerger = client.list({ to: "merger" });
+			client.close();
+			expect(toMerger.map((m) => m.type)).toEqual(["merge_ready"]);
+		});
+	});
 });
 
 describe("shouldAutoNudge", () => {
@@ -1,5 +1,5 @@
 /**
- * CLI command: overstory mail send/check/list/read/reply
+ * CLI command: overstory mail send/check/list/search/thread/read/ack/await/reply/bridge
  *
  * Parses CLI args via Commander.js and delegates to the mail client.
  * Supports --inject for hook context injection, --json for machine output,
@@ -8,17 +8,49 @@
 
 import { join } from "node:path";
 import { Command } from "commander";
-import { resolveProjectRoot } from "../config.ts";
-import { ValidationError } from "../errors.ts";
+import { loadConfig, resolveProjectRoot } from "../config.ts";
+import { MailError, ValidationError } from "../errors.ts";
 import { createEventStore } from "../events/store.ts";
 import { jsonOutput } from "../json.ts";
-import { accent, printHint, printSuccess } from "../logging/color.ts";
+import { accent, printHint, printSuccess, printWarning } from "../logging/color.ts";
+import {
+	bridgeStatePath,
+	createWebhookNotifier,
+	DEFAULT_BRIDGE_REPLY_PORT,
+	startMailBridge,
+} from "../mail/bridge.ts";
 import { isGroupAddress, resolveGroupAddress } from "../mail/broadcast.ts";
 import { createMailClient } from "../mail/client.ts";
-import { createMailStore } from "../mail/store.ts";
+import {
+	ACK_REQUIRED_TYPES,
+	deliveryState,
+	MAIL_DELIVERY_STATES,
+	waitForReceipt,
+} from "../mail/receipts.ts";
+import { buildPayloadSchemas, validatePayload } from "../mail/schemas.ts";
+import { createMailStore, type MailSearchFilters } from "../mail/store.ts";
+import { buildThreadTree, walkThread } from "../mail/thread.ts";
+import {
+	reportSecretFindings,
+	type SecretFinding,
+	scanBranchForSecrets,
+	secretScanError,
+} from "../merge/secrets.ts";
+import { headlessControl } from "../runtimes/headless.ts";
 import { openSessionStore } from "../sessions/compat.ts";
-import type { MailMessage, MailMessageType } from "../types.ts";
+import { createRunStore } from "../sessions/store.ts";
+import { createTrackerClient, resolveBackend } from "../tracker/factory.ts";
+import type {
+	MailConfig,
+	MailDeliveryState,
+	MailMessage,
+	MailMessageType,
+	MergeReadyPayload,
+} from "../types.ts";
 import { MAIL_MESSAGE_TYPES } from "../types.ts";
+import { loadGroups } from "./group.ts";
+import { resolveMergeTarget } from "./merge.ts";
+import { queueUnblockedTasks } from "./plan.ts";
 
 /**
  * Protocol message types that require immediate recipient attention.
@@ -61,6 +93,12 @@ function formatMessage(msg: MailMessage): string {
 	if (msg.payload !== null) {
 		lines.push(`  Payload: ${msg.payload}`);
 	}
+	const state = deliveryState(msg);
+	if (state !== "sent") {
+		lines.push(
+			`  Receipt: ${state}${msg.redeliveries > 0 ? ` (redelivered ${msg.redeliveries}x)` : ""}`,
+		);
+	}
 	lines.push(`  ${msg.createdAt}`);
 	return lines.join("\n");
 }
@@ -68,10 +106,11 @@ function formatMessage(msg: MailMessage): string {
 /**
  * Open a mail store connected to the project's mail.db.
  * The cwd must already be resolved to the canonical project root.
+ * Pass the config's `mail` section to allow its custom protocol types.
  */
-function openStore(cwd: string) {
+function openStore(cwd: string, mail?: MailConfig) {
 	const dbPath = join(cwd, ".overstory", "mail.db");
-	return createMailStore(dbPath);
+	return createMailStore(dbPath, { protocolTypes: Object.keys(mail?.protocols ?? {}) });
 }
 
 // === Pending Nudge Markers ===
@@ -118,6 +157,53 @@ async function writePendingNudge(
 	await Bun.write(filePath, `${JSON.stringify(marker, null, "\t")}\n`);
 }
 
+/**
+ * Deliver a message straight into a headless agent's conversation as an RPC
+ * followUp (via the broker-hosted agent socket). Headless agents have no
+ * prompt hook to surface mail, and followUp queues a turn rather than typing
+ * into the agent's I/O, so every message is delivered immediately.
+ *
+ * The message is marked delivered so `mail check` does not repeat it.
+ *
+ * @returns true if the recipient is a live headless agent and the message was delivered
+ */
+async function deliverToHeadlessAgent(
+	cwd: string,
+	client: ReturnType<typeof createMailClient>,
+	recipient: string,
+	message: { id: string; from: string; subject: string; body: string; type: MailMessageType },
+): Promise<boolean> {
+	let endpoint: string | null = null;
+	try {
+		const { store } = openSessionStore(join(cwd, ".overstory"));
+		try {
+			const session = store.getByName(recipient);
+			if (session && session.state !== "completed" && session.state !== "zombie") {
+				endpoint = session.rpcEndpoint;
+			}
+		} finally {
+			store.close();
+		}
+	} catch {
+		return false;
+	}
+	if (!endpoint) return false;
+
+	const ackHint = ACK_REQUIRED_TYPES.has(message.type)
+		? `Acknowledge now with: ov mail ack ${message.id} — add --complete when the work is done\n`
+		: "";
+	const text =
+		`[MAIL ${message.id} from ${message.from}] (${message.type}) ${message.subject}\n\n` +
+		`${message.body}\n\n${ackHint}Reply with: ov mail reply ${message.id} --body "..."`;
+	try {
+		await headlessControl.followUp(endpoint, text);
+	} catch {
+		return false; // Agent host unreachable — the message waits in the inbox
+	}
+	client.markDelivered(message.id);
+	return true;
+}
+
 /**
  * Read and clear pending nudge markers for an agent.
  *
@@ -220,13 +306,91 @@ async function recordMailCheck(cwd: string, agentName: string): Promise<void> {
 /**
  * Open a mail client connected to the project's mail.db.
  * The cwd must already be resolved to the canonical project root.
+ * Pass the config's `mail` section to validate payloads of its custom types.
  */
-function openClient(cwd: string) {
-	const store = openStore(cwd);
-	const client = createMailClient(store);
+function openClient(cwd: string, mail?: MailConfig) {
+	const store = openStore(cwd, mail);
+	const client = createMailClient(store, { schemas: buildPayloadSchemas(mail) });
 	return client;
 }
 
+/**
+ * Queue tasks unblocked by a `merged` message and notify its recipient.
+ *
+ * Reads the merged taskId from the payload, finds open dependents whose
+ * blockers are now all merged, appends them to the dispatch queue, and sends
+ * a status mail listing them so the recipient can sling the next wave.
+ * Returns the queued task IDs (empty when nothing was unblocked).
+ */
+async function queueDependentsOfMerge(
+	cwd: string,
+	recipient: string,
+	payload: string | undefined,
+): Promise<string[]> {
+	if (payload === undefined) return [];
+	const parsed = JSON.parse(payload) as { taskId?: unknown };
+	if (typeof parsed.taskId !== "string") return [];
+	const mergedTaskId = parsed.taskId;
+
+	const config = await loadConfig(cwd);
+	if (!config.taskTracker.enabled) return [];
+	const resolvedBackend = await resolveBackend(config.taskTracker.backend, config.project.root);
+	const tracker = createTrackerClient(resolvedBackend, config.project.root);
+
+	const unblocked = await queueUnblockedTasks(config.project.root, tracker, mergedTaskId);
+	if (unblocked.length === 0) return [];
+
+	const client = openClient(cwd);
+	try {
+		client.send({
+			from: "system",
+			to: recipient,
+			subject: `Unblocked by ${mergedTaskId}: ${unblocked.map((t) => t.id).join(", ")}`,
+			body:
+				`Merging ${mergedTaskId} unblocked ${unblocked.length} task${unblocked.length === 1 ? "" : "s"}:\n` +
+				unblocked.map((t) => `- ${t.id}: ${t.title}`).join("\n") +
+				"\n\nThey are now in the dispatch queue (ov plan). Sling them when ready.",
+			type: "status",
+			priority: "normal",
+		});
+	} finally {
+		client.close();
+	}
+	return unblocked.map((t) => t.id);
+}
+
+/**
+ * Scan the branch named in a merge_ready payload for secrets before the
+ * handoff reaches the merger. Findings are mailed back as merge_failed to the
+ * branch's agent and the sender, recorded as an error event, and abort the
+ * send. A scan that cannot run (e.g. unknown branch) only warns: `ov merge`
+ * scans again before enqueueing.
+ */
+async function blockMergeReadySecrets(cwd: string, from: string, payload: string): Promise<void> {
+	const parsed = JSON.parse(payload) as Partial<MergeReadyPayload>;
+	if (typeof parsed.branch !== "string" || parsed.branch === "") return;
+
+	const config = await loadConfig(cwd);
+	const target = {
+		branch: parsed.branch,
+		taskId: parsed.taskId ?? "unknown",
+		agentName: parsed.agentName ?? from,
+	};
+	let findings: SecretFinding[];
+	try {
+		const canonicalBranch = await resolveMergeTarget(config);
+		findings = await scanBranchForSecrets(config.project.root, canonicalBranch, target.branch);
+	} catch (err) {
+		const message = err instanceof Error ? err.message : String(err);
+		process.stderr.write(`Warning: ${message}\n`);
+		return;
+	}
+	if (findings.length === 0) return;
+
+	reportSecretFindings(config.project.root, target, findings, [target.agentName, from]);
+	throw secretScanError(target, findings);
+}
+
 // === Typed option interfaces for each subcommand ===
 
 interface SendOpts {
@@ -238,6 +402,7 @@ interface SendOpts {
 	type?: string;
 	priority?: string;
 	payload?: string;
+	payloadVersion?: string;
 	json?: boolean;
 }
 
@@ -256,6 +421,28 @@ interface ListOpts {
 	json?: boolean;
 }
 
+interface SearchOpts {
+	type?: string;
+	priority?: string;
+	since?: string;
+	until?: string;
+	run?: string;
+	limit: string;
+	json?: boolean;
+}
+
+interface AckOpts {
+	agent?: string;
+	complete?: boolean;
+	json?: boolean;
+}
+
+interface AwaitOpts {
+	state: string;
+	timeout: string;
+	json?: boolean;
+}
+
 interface ReplyOpts {
 	body: string;
 	from?: string;
@@ -280,9 +467,12 @@ async function handleSend(opts: SendOpts, cwd: string): Promise<void> {
 	const rawType = opts.type ?? "status";
 	const rawPriority = opts.priority ?? "normal";
 
-	if (!MAIL_MESSAGE_TYPES.includes(rawType as MailMessage["type"])) {
+	const config = await loadConfig(cwd);
+	const mailConfig = config.mail;
+	const validTypes: string[] = [...MAIL_MESSAGE_TYPES, ...Object.keys(mailConfig?.protocols ?? {})];
+	if (!validTypes.includes(rawType)) {
 		throw new ValidationError(
-			`Invalid --type "${rawType}". Must be one of: ${MAIL_MESSAGE_TYPES.join(", ")}`,
+			`Invalid --type "${rawType}". Must be one of: ${validTypes.join(", ")}`,
 			{ field: "type", value: rawType },
 		);
 	}
@@ -293,21 +483,40 @@ async function handleSend(opts: SendOpts, cwd: string): Promise<void> {
 		);
 	}
 
+	// Custom protocol types (config mail.protocols) are stored like built-in ones
 	const type = rawType as MailMessage["type"];
 	const priority = rawPriority as MailMessage["priority"];
 
-	// Validate JSON payload if provided
+	let payloadVersion: number | undefined;
+	if (opts.payloadVersion !== undefined) {
+		if (!/^[1-9]\d*$/.test(opts.payloadVersion)) {
+			throw new ValidationError("--payload-version must be a positive integer", {
+				field: "payloadVersion",
+				value: opts.payloadVersion,
+			});
+		}
+		payloadVersion = Number.parseInt(opts.payloadVersion, 10);
+	}
+
+	// Validate JSON payload if provided, against the type's schema if it has one
 	let payload: string | undefined;
 	if (rawPayload !== undefined) {
+		let parsed: unknown;
 		try {
-			JSON.parse(rawPayload);
-			payload = rawPayload;
+			parsed = JSON.parse(rawPayload);
 		} catch {
 			throw new ValidationError("--payload must be valid JSON", {
 				field: "payload",
 				value: rawPayload,
 			});
 		}
+		validatePayload(buildPayloadSchemas(mailConfig), type, parsed, payloadVersion);
+		payload = rawPayload;
+	}
+
+	// A merge_ready handoff must not carry committed secrets to the merger
+	if (type === "merge_ready" && payload !== undefined) {
+		await blockMergeReadySecrets(cwd, from, payload);
 	}
 
 	// Handle broadcast messages (group addresses)
@@ -317,16 +526,36 @@ async function handleSend(opts: SendOpts, cwd: string): Promise<void> {
 
 		try {
 			const activeSessions = sessionStore.getActive();
-			const recipients = resolveGroupAddress(to, activeSessions, from);
+			const recipients = resolveGroupAddress(to, activeSessions, from, {
+				allSessions: sessionStore.getAll(),
+				taskGroups: await loadGroups(cwd),
+				namedGroups: mailConfig?.groups,
+			});
 
-			const client = openClient(cwd);
+			const client = openClient(cwd, mailConfig);
 			const messageIds: string[] = [];
 
 			try {
 				// Fan out: send individual message to each recipient
 				for (const recipient of recipients) {
-					const id = client.send({ from, to: recipient, subject, body, type, priority, payload });
+					const id = client.send({
+						from,
+						to: recipient,
+						subject,
+						body,
+						type,
+						priority,
+						payload,
+						payloadVersion,
+					});
 					messageIds.push(id);
+					const deliveredHeadless = await deliverToHeadlessAgent(cwd, client, recipient, {
+						id,
+						from,
+						subject,
+						body,
+						type,
+					});
 
 					// Record mail_sent event for each individual message (fire-and-forget)
 					try {
@@ -368,9 +597,10 @@ async function handleSend(opts: SendOpts, cwd: string): Promise<void> {
 						// Event recording failure is non-fatal
 					}
 
-					// Auto-nudge for each individual message
+					// Auto-nudge for each individual message (headless agents already have it)
 					const shouldNudge =
-						priority === "urgent" || priority === "high" || AUTO_NUDGE_TYPES.has(type);
+						!deliveredHeadless &&
+						(priority === "urgent" || priority === "high" || AUTO_NUDGE_TYPES.has(type));
 					if (shouldNudge) {
 						const nudgeReason = AUTO_NUDGE_TYPES.has(type) ? type : `${priority} priority`;
 						await writePendingNudge(cwd, recipient, {
@@ -406,9 +636,16 @@ async function handleSend(opts: SendOpts, cwd: string): Promise<void> {
 	}
 
 	// Single-recipient message (existing logic)
-	const client = openClient(cwd);
+	const client = openClient(cwd, mailConfig);
 	try {
-		const id = client.send({ from, to, subject, body, type, priority, payload });
+		const id = client.send({ from, to, subject, body, type, priority, payload, payloadVersion });
+		const deliveredHeadless = await deliverToHeadlessAgent(cwd, client, to, {
+			id,
+			from,
+			subject,
+			body,
+			type,
+		});
 
 		// Record mail_sent event to EventStore (fire-and-forget)
 		try {
@@ -444,9 +681,12 @@ async function handleSend(opts: SendOpts, cwd: string): Promise<void> {
 		}
 
 		if (opts.json) {
-			jsonOutput("mail send", { id });
+			jsonOutput("mail send", { id, ...(deliveredHeadless ? { delivered: "rpc" } : {}) });
 		} else {
 			printSuccess("Sent message", id);
+			if (deliveredHeadless) {
+				process.stdout.write(`Delivered to headless agent "${to}" over RPC\n`);
+			}
 		}
 
 		// Auto-nudge: write a pending nudge marker instead of sending tmux keys.
@@ -455,7 +695,9 @@ async function handleSend(opts: SendOpts, cwd: string): Promise<void> {
 		// The message is already in the DB — the UserPromptSubmit hook's
 		// `mail check --inject` will surface it on the next prompt cycle.
 		// The pending nudge marker ensures the message gets a priority banner.
-		const shouldNudge = priority === "urgent" || priority === "high" || AUTO_NUDGE_TYPES.has(type);
+		const shouldNudge =
+			!deliveredHeadless &&
+			(priority === "urgent" || priority === "high" || AUTO_NUDGE_TYPES.has(type));
 		if (shouldNudge) {
 			const nudgeReason = AUTO_NUDGE_TYPES.has(type) ? type : `${priority} priority`;
 			await writePendingNudge(cwd, to, {
@@ -476,7 +718,7 @@ async function handleSend(opts: SendOpts, cwd: string): Promise<void> {
 		// screen where file-based nudges can't reach (no hook fires on idle agents).
 		// The I/O corruption concern (overstory-ii1o) only applies during active
 		// tool execution — newly spawned agents are idle, so sendKeys is safe.
-		if (type === "dispatch") {
+		if (type === "dispatch" && !deliveredHeadless) {
 			try {
 				const { nudgeAgent } = await import("./nudge.ts");
 				const nudgeMessage = `[DISPATCH] ${subject}: ${body.slice(0, 500)}`;
@@ -519,6 +761,18 @@ async function handleSend(opts: SendOpts, cwd: string): Promise<void> {
 				// Reviewer check failure is non-fatal — do not block mail send
 			}
 		}
+
+		// Dependency-aware dispatch: queue tasks whose last blocker just merged
+		if (type === "merged") {
+			try {
+				const queued = await queueDependentsOfMerge(cwd, to, payload);
+				if (queued.length > 0 && !opts.json) {
+					process.stdout.write(`Queued unblocked task(s) for dispatch: ${queued.join(", ")}\n`);
+				}
+			} catch {
+				// Dispatch queueing failure is non-fatal — do not block mail send
+			}
+		}
 	} finally {
 		client.close();
 	}
@@ -624,6 +878,235 @@ function handleList(opts: ListOpts, cwd: string): void {
 	}
 }
 
+/** Narrow a search to a run: its agents, between its start and end. */
+function runSearchScope(
+	cwd: string,
+	runId: string,
+): Pick<MailSearchFilters, "participants" | "since" | "until"> {
+	const overstoryDir = join(cwd, ".overstory");
+	const runStore = createRunStore(join(overstoryDir, "sessions.db"));
+	const { store: sessionStore } = openSessionStore(overstoryDir);
+	try {
+		const run = runStore.getRun(runId);
+		const sessions = sessionStore.getByRun(runId);
+		if (run === null && sessions.length === 0) {
+			throw new ValidationError(`Run not found: ${runId}`, { field: "run", value: runId });
+		}
+		return {
+			participants: sessions.map((s) => s.agentName),
+			since: run?.startedAt,
+			until: run?.completedAt ?? undefined,
+		};
+	} finally {
+		runStore.close();
+		sessionStore.close();
+	}
+}
+
+/** overstory mail search */
+async function handleSearch(query: string, opts: SearchOpts, cwd: string): Promise<void> {
+	if (query.trim() === "") {
+		throw new ValidationError("Search query must not be empty", { field: "query", value: query });
+	}
+	const config = await loadConfig(cwd);
+	const validTypes: string[] = [
+		...MAIL_MESSAGE_TYPES,
+		...Object.keys(config.mail?.protocols ?? {}),
+	];
+	if (opts.type !== undefined && !validTypes.includes(opts.type)) {
+		throw new ValidationError(
+			`Invalid --type "${opts.type}". Must be one of: ${validTypes.join(", ")}`,
+			{ field: "type", value: opts.type },
+		);
+	}
+	const priorities = ["low", "normal", "high", "urgent"] as const;
+	const priority = opts.priority as MailMessage["priority"] | undefined;
+	if (priority !== undefined && !priorities.includes(priority)) {
+		throw new ValidationError(
+			`Invalid --priority "${opts.priority}". Must be one of: ${priorities.join(", ")}`,
+			{ field: "priority", value: opts.priority },
+		);
+	}
+	for (const [field, value] of [
+		["since", opts.since],
+		["until", opts.until],
+	] as const) {
+		if (value !== undefined && Number.isNaN(new Date(value).getTime())) {
+			throw new ValidationError(`--${field} must be a valid ISO 8601 timestamp`, {
+				field,
+				value,
+			});
+		}
+	}
+	const limit = Number.parseInt(opts.limit, 10);
+	if (Number.isNaN(limit) || limit <= 0) {
+		throw new ValidationError("--limit must be a positive integer", {
+			field: "limit",
+			value: opts.limit,
+		});
+	}
+
+	// Stored timestamps are ISO strings, so bounds compare as normalized ISO strings
+	const filters: MailSearchFilters = {
+		type: opts.type,
+		priority,
+		since: opts.since !== undefined ? new Date(opts.since).toISOString() : undefined,
+		until: opts.until !== undefined ? new Date(opts.until).toISOString() : undefined,
+		limit,
+	};
+	if (opts.run !== undefined) {
+		const scope = runSearchScope(cwd, opts.run);
+		filters.participants = scope.participants;
+		// Keep the narrower bound when both the run and the flags give one
+		if (scope.since !== undefined && (filters.since === undefined || scope.since > filters.since)) {
+			filters.since = scope.since;
+		}
+		if (scope.until !== undefined && (filters.until === undefined || scope.until < filters.until)) {
+			filters.until = scope.until;
+		}
+	}
+
+	const store = openStore(cwd, config.mail);
+	try {
+		const messages = store.search(query, filters);
+
+		if (opts.json) {
+			jsonOutput("mail search", { query, messages });
+		} else if (messages.length === 0) {
+			printHint(`No messages match "${query}"`);
+		} else {
+			for (const msg of messages) {
+				process.stdout.write(`${formatMessage(msg)}\n\n`);
+			}
+			process.stdout.write(
+				`Found: ${messages.length} message${messages.length === 1 ? "" : "s"}` +
+					(messages.length === limit ? ` (limit ${limit}; use --limit for more)` : "") +
+					"\n",
+			);
+		}
+	} finally {
+		store.close();
+	}
+}
+
+/** overstory mail thread */
+function handleThread(id: string, opts: { json?: boolean }, cwd: string): void {
+	const store = openStore(cwd);
+	try {
+		// Accept the thread ID (the root message's ID) or the ID of any message in the thread
+		const threadId = store.getById(id)?.threadId ?? id;
+		const root = store.getById(threadId);
+		const messages = [...(root ? [root] : []), ...store.getByThread(threadId)];
+		if (messages.length === 0) {
+			throw new MailError(`Thread not found: ${id}`, { messageId: id });
+		}
+		const tree = buildThreadTree(messages);
+
+		if (opts.json) {
+			jsonOutput("mail thread", { threadId, messages: tree });
+			return;
+		}
+
+		for (const { message: msg, depth } of walkThread(tree)) {
+			const indent = "    ".repeat(depth);
+			const marker = depth === 0 ? "" : "↳ ";
+			const priorityTag = msg.priority !== "normal" ? ` [${msg.priority.toUpperCase()}]` : "";
+			process.stdout.write(
+				`${indent}${marker}${accent(msg.id)}  ${accent(msg.from)} → ${accent(msg.to)}${priorityTag}  (${msg.type})  ${msg.createdAt}\n`,
+			);
+			const textIndent = `${indent}${" ".repeat(marker.length)}  `;
+			process.stdout.write(`${textIndent}Subject: ${msg.subject}\n`);
+			for (const line of msg.body.split("\n")) {
+				process.stdout.write(`${textIndent}${line}\n`);
+			}
+			if (msg.payload !== null) {
+				process.stdout.write(`${textIndent}Payload: ${msg.payload}\n`);
+			}
+			process.stdout.write("\n");
+		}
+		process.stdout.write(
+			`Thread ${threadId}: ${messages.length} message${messages.length === 1 ? "" : "s"}\n`,
+		);
+	} finally {
+		store.close();
+	}
+}
+
+/** overstory mail bridge */
+async function handleBridge(opts: { port?: string }, cwd: string): Promise<void> {
+	const config = await loadConfig(cwd);
+	const bridgeConfig = config.mail?.bridge;
+	if (!bridgeConfig) {
+		throw new ValidationError(
+			"mail.bridge is not configured. Add mail.bridge.webhookUrl to .overstory/config.yaml",
+			{ field: "mail.bridge" },
+		);
+	}
+	let replyPort = bridgeConfig.replyPort;
+	if (opts.port !== undefined) {
+		replyPort = Number.parseInt(opts.port, 10);
+		if (Number.isNaN(replyPort) || replyPort < 0 || replyPort > 65535) {
+			throw new ValidationError("--port must be between 0 and 65535", {
+				field: "port",
+				value: opts.port,
+			});
+		}
+	}
+	const secretEnv = bridgeConfig.secretEnv;
+	const secret = secretEnv ? (process.env[secretEnv] ?? null) : null;
+
+	const store = openStore(cwd, config.mail);
+	const client = createMailClient(store, { schemas: buildPayloadSchemas(config.mail) });
+	const bridge = await startMailBridge({
+		store,
+		client,
+		notifiers: [createWebhookNotifier({ url: bridgeConfig.webhookUrl, secret })],
+		config: { ...bridgeConfig, replyPort },
+		secret,
+		statePath: bridgeStatePath(cwd),
+		onForward: (msg) => {
+			process.stdout.write(`→ ${msg.id}  ${msg.from} → ${msg.to}  (${msg.type})  ${msg.subject}\n`);
+		},
+		onFailure: ({ message, notifier, error }) => {
+			printWarning(
+				`Could not forward ${message.id} (${notifier})`,
+				`${error.message}. Retrying every poll`,
+			);
+		},
+		onReply: (replyId, messageId) => {
+			process.stdout.write(`← ${replyId}  reply to ${messageId}\n`);
+		},
+		onError: (error) => {
+			printWarning("Mail bridge pass failed", error.message);
+		},
+	});
+
+	printSuccess("Mail bridge running", `forwarding to ${bridgeConfig.webhookUrl}`);
+	if (bridge.replyServer) {
+		printHint(`Replies: POST ${bridge.replyServer.url} with Authorization: Bearer $${secretEnv}`);
+	} else {
+		printHint(
+			secretEnv
+				? `Replies disabled: ${secretEnv} is not set`
+				: "Replies disabled: set mail.bridge.secretEnv to accept replies",
+		);
+	}
+	printHint("Press Ctrl+C to stop");
+
+	await new Promise<void>((resolve) => {
+		const onSignal = (): void => {
+			process.off("SIGINT", onSignal);
+			process.off("SIGTERM", onSignal);
+			resolve();
+		};
+		process.on("SIGINT", onSignal);
+		process.on("SIGTERM", onSignal);
+	});
+	await bridge.stop();
+	client.close();
+	printSuccess("Mail bridge stopped");
+}
+
 /** overstory mail read */
 function handleRead(id: string, cwd: string): void {
 	const client = openClient(cwd);
@@ -639,6 +1122,75 @@ function handleRead(id: string, cwd: string): void {
 	}
 }
 
+/** overstory mail ack */
+function handleAck(id: string, opts: AckOpts, cwd: string): void {
+	const client = openClient(cwd);
+	try {
+		const { previous } = client.ack(id, { agent: opts.agent, complete: opts.complete });
+		const state: MailDeliveryState = opts.complete ? "completed" : "acked";
+		const already = MAIL_DELIVERY_STATES.indexOf(previous) >= MAIL_DELIVERY_STATES.indexOf(state);
+
+		if (opts.json) {
+			jsonOutput("mail ack", { id, state, previous });
+		} else if (already) {
+			printHint(`Message ${accent(id)} was already ${previous}`);
+		} else {
+			printSuccess(opts.complete ? "Marked as completed" : "Acknowledged", id);
+		}
+	} finally {
+		client.close();
+	}
+}
+
+/** overstory mail await */
+async function handleAwait(id: string, opts: AwaitOpts, cwd: string): Promise<void> {
+	const state = opts.state as MailDeliveryState;
+	if (!MAIL_DELIVERY_STATES.includes(state) || state === "sent") {
+		throw new ValidationError(
+			`Invalid --state "${opts.state}". Must be one of: ${MAIL_DELIVERY_STATES.slice(1).join(", ")}`,
+			{ field: "state", value: opts.state },
+		);
+	}
+	const timeoutMs = Number.parseInt(opts.timeout, 10);
+	if (Number.isNaN(timeoutMs) || timeoutMs < 0) {
+		throw new ValidationError(
+			`--timeout must be a non-negative integer (milliseconds), got: ${opts.timeout}`,
+			{ field: "timeout", value: opts.timeout },
+		);
+	}
+
+	const store = openStore(cwd);
+	try {
+		const result = await waitForReceipt(store, id, state, { timeoutMs });
+		if (result === null) {
+			throw new MailError(`Message not found: ${id}`, { messageId: id });
+		}
+		const current = deliveryState(result.message);
+		if (!result.reached) {
+			process.exitCode = 1;
+		}
+
+		if (opts.json) {
+			jsonOutput("mail await", {
+				id,
+				state,
+				reached: result.reached,
+				current,
+				message: result.message,
+			});
+		} else if (result.reached) {
+			printSuccess(`Message ${current}`, id);
+		} else {
+			printWarning(
+				`Timed out waiting for ${id} to be ${state}`,
+				`${result.message.to} has only reached "${current}"`,
+			);
+		}
+	} finally {
+		store.close();
+	}
+}
+
 /** overstory mail reply */
 function handleReply(id: string, opts: ReplyOpts, cwd: string): void {
 	const body = opts.body;
@@ -701,7 +1253,7 @@ function handlePurge(opts: PurgeOpts, cwd: string): void {
 /**
  * Entry point for `overstory mail <subcommand> [args...]`.
  *
- * Subcommands: send, check, list, read, reply, purge.
+ * Subcommands: send, check, list, search, thread, read, ack, await, reply, purge, bridge.
  * Uses Commander.js for subcommand routing and option parsing.
  */
 export async function mailCommand(args: string[]): Promise<void> {
@@ -716,14 +1268,15 @@ export async function mailCommand(args: string[]): Promise<void> {
 	program
 		.command("send")
 		.description("Send a message")
-		.requiredOption("--to <agent>", "Recipient agent name")
+		.requiredOption("--to <agent>", "Recipient agent name or @group address")
 		.requiredOption("--subject <text>", "Message subject")
 		.requiredOption("--body <text>", "Message body")
 		.option("--from <name>", "Sender name")
 		.option("--agent <name>", "Alias for --from")
 		.option("--type <type>", "Message type", "status")
 		.option("--priority <level>", "Priority level", "normal")
-		.option("--payload <json>", "Structured JSON payload")
+		.option("--payload <json>", "Structured JSON payload (validated against the type's schema)")
+		.option("--payload-version <n>", "Payload schema version (default: newest)")
 		.option("--json", "Output as JSON")
 		.exitOverride()
 		.action(async (opts: SendOpts) => {
@@ -755,6 +1308,32 @@ export async function mailCommand(args: string[]): Promise<void> {
 			handleList(opts, root);
 		});
 
+	program
+		.command("search")
+		.description("Full-text search over message subjects, bodies and payloads")
+		.argument("<query>", "Words to match (all must match; word* matches a prefix)")
+		.option("--type <type>", "Filter by message type")
+		.option("--priority <level>", "Filter by priority")
+		.option("--since <timestamp>", "Only messages sent at or after this time (ISO 8601)")
+		.option("--until <timestamp>", "Only messages sent at or before this time (ISO 8601)")
+		.option("--run <id>", "Only messages to or from the run's agents, during the run")
+		.option("--limit <n>", "Maximum number of results", "50")
+		.option("--json", "Output as JSON")
+		.exitOverride()
+		.action(async (query: string, opts: SearchOpts) => {
+			await handleSearch(query, opts, root);
+		});
+
+	program
+		.command("thread")
+		.description("Show a conversation as a reply tree")
+		.argument("<thread-id>", "Thread ID, or the ID of any message in the thread")
+		.option("--json", "Output as JSON")
+		.exitOverride()
+		.action((id: string, opts: { json?: boolean }) => {
+			handleThread(id, opts, root);
+		});
+
 	program
 		.command("read")
 		.description("Mark a message as read")
@@ -764,6 +1343,30 @@ export async function mailCommand(args: string[]): Promise<void> {
 			handleRead(id, root);
 		});
 
+	program
+		.command("ack")
+		.description("Acknowledge a protocol message (dispatch, assign, ...) as its recipient")
+		.argument("<message-id>", "Message ID")
+		.option("--agent <name>", "Acknowledging agent (must be the recipient)")
+		.option("--complete", "Mark the requested work as completed")
+		.option("--json", "Output as JSON")
+		.exitOverride()
+		.action((id: string, opts: AckOpts) => {
+			handleAck(id, opts, root);
+		});
+
+	program
+		.command("await")
+		.description("Wait until a sent message reaches a delivery state (exit 1 on timeout)")
+		.argument("<message-id>", "Message ID")
+		.option("--state <state>", "State to wait for: delivered, read, acked, completed", "acked")
+		.option("--timeout <ms>", "Give up after this many milliseconds", "300000")
+		.option("--json", "Output as JSON")
+		.exitOverride()
+		.action(async (id: string, opts: AwaitOpts) => {
+			await handleAwait(id, opts, root);
+		});
+
 	program
 		.command("reply")
 		.description("Reply to a message")
@@ -789,5 +1392,14 @@ export async function mailCommand(args: string[]): Promise<void> {
 			handlePurge(opts, root);
 		});
 
+	program
+		.command("bridge")
+		.description("Forward selected mail to the mail.bridge webhook and accept replies")
+		.option("--port <n>", `Reply endpoint port (default: ${DEFAULT_BRIDGE_REPLY_PORT})`)
+		.exitOverride()
+		.action(async (opts: { port?: string }) => {
+			await handleBridge(opts, root);
+		});
+
 	await program.parseAsync(["node", "overstory-mail", ...args]);
 }
@@ -8,6 +8,8 @@
  *   ov merge --branch <name>   Merge a specific branch
  *   ov merge --all             Merge all pending branches
  *   ov merge --dry-run         Check for conflicts without merging
+ *   ov merge --simulate        Replay the pending queue on a throwaway worktree
+ *   ov merge --semantic-check  Gate pending branches pairwise; mail owners of breakage
  *   ov merge --json            Output results as JSON
  */
 
@@ -16,8 +18,24 @@ import { loadConfig } from "../config.ts";
 import { MergeError, ValidationError } from "../errors.ts";
 import { jsonOutput } from "../json.ts";
 import { accent, printHint } from "../logging/color.ts";
+import { createMailClient } from "../mail/client.ts";
+import { createMailStore } from "../mail/store.ts";
 import { createMergeQueue } from "../merge/queue.ts";
 import { createMergeResolver } from "../merge/resolver.ts";
+import {
+	describeSecretFindings,
+	reportSecretFindings,
+	type SecretFinding,
+	type SecretScanTarget,
+	scanBranchForSecrets,
+	secretScanError,
+} from "../merge/secrets.ts";
+import {
+	checkSemanticConflicts,
+	notifySemanticConflicts,
+	type SemanticCheckResult,
+} from "../merge/semantic.ts";
+import { type MergeSimulation, simulateMergeQueue } from "../merge/simulator.ts";
 import { createMulchClient } from "../mulch/client.ts";
 import type { MergeEntry, MergeResult } from "../types.ts";
 
@@ -26,6 +44,8 @@ export interface MergeOptions {
 	all?: boolean;
 	into?: string;
 	dryRun?: boolean;
+	simulate?: boolean;
+	semanticCheck?: boolean;
 	json?: boolean;
 }
 
@@ -86,6 +106,42 @@ async function detectModifiedFiles(
 		.filter((line) => line.length > 0);
 }
 
+/**
+ * Resolve the branch merges land on.
+ * Resolution chain: --into flag > session-start branch > config canonicalBranch
+ */
+export async function resolveMergeTarget(
+	config: Awaited<ReturnType<typeof loadConfig>>,
+	into?: string,
+): Promise<string> {
+	if (into !== undefined) return into;
+	const sessionBranchPath = join(config.project.root, ".overstory", "session-branch.txt");
+	const sessionBranchFile = Bun.file(sessionBranchPath);
+	if (await sessionBranchFile.exists()) {
+		const content = (await sessionBranchFile.text()).trim();
+		if (content) {
+			return content;
+		}
+	}
+	return config.project.canonicalBranch;
+}
+
+/**
+ * Scan the lines a branch adds for secrets. Findings are mailed to the
+ * branch's agent as merge_failed and recorded as an error event.
+ */
+async function scanBranchSecrets(
+	target: SecretScanTarget,
+	repoRoot: string,
+	targetBranch: string,
+): Promise<SecretFinding[]> {
+	const findings = await scanBranchForSecrets(repoRoot, targetBranch, target.branch);
+	if (findings.length > 0) {
+		reportSecretFindings(repoRoot, target, findings, [target.agentName]);
+	}
+	return findings;
+}
+
 /** Format a single merge result for human-readable output. */
 function formatResult(result: MergeResult): string {
 	const statusIcon = result.success ? "Merged" : "Failed";
@@ -100,6 +156,13 @@ function formatResult(result: MergeResult): string {
 		lines.push(`   Conflicts: ${result.conflictFiles.join(", ")}`);
 	}
 
+	if (result.qualityGates && result.qualityGates.length > 0) {
+		const gateSummary = result.qualityGates
+			.map((g) => `${g.name} ${g.passed ? "passed" : "FAILED"}`)
+			.join(", ");
+		lines.push(`   Gates: ${gateSummary}`);
+	}
+
 	if (result.errorMessage) {
 		lines.push(`   Error: ${result.errorMessage}`);
 	}
@@ -107,6 +170,16 @@ function formatResult(result: MergeResult): string {
 	return lines.join("\n");
 }
 
+/**
+ * Map a merge result to the queue status it should be recorded with.
+ * Quality gate failures are "failed" (merge rolled back); other failures are "conflict".
+ */
+export function queueStatusForResult(result: MergeResult): MergeEntry["status"] {
+	if (result.success) return "merged";
+	const gateFailed = result.qualityGates?.some((g) => !g.passed) ?? false;
+	return gateFailed ? "failed" : "conflict";
+}
+
 /** Format a dry-run report for a merge entry. */
 function formatDryRun(entry: MergeEntry): string {
 	const lines: string[] = [
@@ -125,6 +198,84 @@ function formatDryRun(entry: MergeEntry): string {
 	return lines.join("\n");
 }
 
+/** Format a merge queue simulation report. */
+export function formatSimulation(simulation: MergeSimulation): string {
+	const count = simulation.steps.length;
+	const lines: string[] = [
+		`[simulate] ${count} pending branch${count === 1 ? "" : "es"} onto ${accent(simulation.canonicalBranch)} (FIFO order):`,
+		"",
+	];
+
+	for (let i = 0; i < count; i++) {
+		const step = simulation.steps[i];
+		if (!step) continue;
+		const outcome =
+			step.tier === "clean-merge"
+				? "clean"
+				: step.applied
+					? "conflict (auto-resolvable)"
+					: "conflict (needs ai-resolve or reimagine)";
+		lines.push(`${i + 1}. ${accent(step.branchName)}`);
+		lines.push(`   Agent: ${accent(step.agentName)} | Task: ${accent(step.taskId)}`);
+		lines.push(`   Result: ${outcome} (tier: ${step.tier})`);
+		if (step.conflictFiles.length > 0) {
+			lines.push(`   Conflicts: ${step.conflictFiles.join(", ")}`);
+		}
+	}
+
+	lines.push("");
+	if (simulation.conflictCount === 0) {
+		lines.push("All branches merge cleanly in queue order.");
+	} else if (simulation.alternativeOrder !== null) {
+		lines.push(
+			`${simulation.conflictCount} branch${simulation.conflictCount === 1 ? "" : "es"} would conflict in queue order. This order merges cleanly:`,
+		);
+		for (const branch of simulation.alternativeOrder) {
+			lines.push(`   - ${accent(branch)}`);
+		}
+	} else {
+		lines.push(
+			`${simulation.conflictCount} branch${simulation.conflictCount === 1 ? "" : "es"} would conflict. No ordering avoids the conflicts — rebase the conflicting branches first.`,
+		);
+	}
+
+	return lines.join("\n");
+}
+
+/** Format a pairwise semantic check report. */
+export function formatSemanticCheck(result: SemanticCheckResult): string {
+	const lines: string[] = [
+		`[semantic-check] ${result.pairsChecked} branch pair${result.pairsChecked === 1 ? "" : "s"} gated`,
+	];
+
+	if (result.baselineFailures.length > 0) {
+		lines.push(`   Already failing on canonical (ignored): ${result.baselineFailures.join(", ")}`);
+	}
+	for (const [a, b] of result.skippedPairs) {
+		lines.push(`   Skipped ${accent(a)} + ${accent(b)}: textual conflict (see --simulate)`);
+	}
+
+	if (result.conflicts.length === 0) {
+		lines.push("No semantic conflicts found.");
+		return lines.join("\n");
+	}
+
+	lines.push("");
+	for (const conflict of result.conflicts) {
+		lines.push(
+			`Semantic conflict: ${accent(conflict.first.branchName)} + ${accent(conflict.second.branchName)}`,
+		);
+		lines.push(
+			`   Agents: ${accent(conflict.first.agentName)}, ${accent(conflict.second.agentName)}`,
+		);
+		for (const failure of conflict.failures) {
+			lines.push(`   ${failure.name} FAILED (exit ${failure.exitCode}): ${failure.command}`);
+		}
+	}
+
+	return lines.join("\n");
+}
+
 /**
  * Entry point for `ov merge [flags]`.
  *
@@ -135,9 +286,11 @@ export async function mergeCommand(opts: MergeOptions): Promise<void> {
 	const all = opts.all ?? false;
 	const into = opts.into;
 	const dryRun = opts.dryRun ?? false;
+	const simulate = opts.simulate ?? false;
+	const semanticCheck = opts.semanticCheck ?? false;
 	const json = opts.json ?? false;
 
-	if (!branchName && !all) {
+	if (!branchName && !all && !simulate && !semanticCheck) {
 		throw new ValidationError("Either --branch <name> or --all is required for ov merge", {
 			field: "branch|all",
 		});
@@ -146,26 +299,27 @@ export async function mergeCommand(opts: MergeOptions): Promise<void> {
 	const cwd = process.cwd();
 	const config = await loadConfig(cwd);
 
-	// Resolution chain: --into flag > session-start branch > config canonicalBranch
-	let sessionBranch: string | null = null;
-	if (into === undefined) {
-		const sessionBranchPath = join(config.project.root, ".overstory", "session-branch.txt");
-		const sessionBranchFile = Bun.file(sessionBranchPath);
-		if (await sessionBranchFile.exists()) {
-			const content = (await sessionBranchFile.text()).trim();
-			if (content) {
-				sessionBranch = content;
-			}
-		}
-	}
-	const targetBranch = into ?? sessionBranch ?? config.project.canonicalBranch;
+	const targetBranch = await resolveMergeTarget(config, into);
 	const queuePath = join(config.project.root, ".overstory", "merge-queue.db");
 	const queue = createMergeQueue(queuePath);
+
+	if (simulate) {
+		await handleSimulate(queue, config.project.root, targetBranch, json);
+		return;
+	}
+
+	if (semanticCheck) {
+		await handleSemanticCheck(queue, config, targetBranch, json);
+		return;
+	}
+
 	const mulchClient = createMulchClient(config.project.root);
 	const resolver = createMergeResolver({
 		aiResolveEnabled: config.merge.aiResolveEnabled,
 		reimagineEnabled: config.merge.reimagineEnabled,
 		mulchClient,
+		qualityGates: config.merge.qualityGatesEnabled ? config.project.qualityGates : undefined,
+		qualityGateTimeoutMs: config.merge.qualityGateTimeoutMs,
 	});
 
 	if (branchName) {
@@ -175,6 +329,102 @@ export async function mergeCommand(opts: MergeOptions): Promise<void> {
 	}
 }
 
+/**
+ * Handle `--simulate`: replay every pending entry onto a throwaway worktree of
+ * the target branch and report predicted conflicts. Never modifies the queue.
+ */
+async function handleSimulate(
+	queue: ReturnType<typeof createMergeQueue>,
+	repoRoot: string,
+	targetBranch: string,
+	json: boolean,
+): Promise<void> {
+	const pendingEntries = queue.list("pending");
+
+	if (pendingEntries.length === 0) {
+		if (json) {
+			jsonOutput("merge", {
+				canonicalBranch: targetBranch,
+				steps: [],
+				conflictCount: 0,
+				alternativeOrder: null,
+			});
+		} else {
+			printHint("No pending branches to simulate");
+		}
+		return;
+	}
+
+	const simulation = await simulateMergeQueue(pendingEntries, targetBranch, repoRoot);
+
+	if (json) {
+		jsonOutput("merge", { ...simulation });
+	} else {
+		process.stdout.write(`${formatSimulation(simulation)}\n`);
+	}
+}
+
+/**
+ * Handle `--semantic-check`: merge pending branches pairwise in a scratch
+ * worktree, run the project quality gates, and mail both owners of any pair
+ * whose combination breaks a gate. Never modifies the queue.
+ */
+async function handleSemanticCheck(
+	queue: ReturnType<typeof createMergeQueue>,
+	config: Awaited<ReturnType<typeof loadConfig>>,
+	targetBranch: string,
+	json: boolean,
+): Promise<void> {
+	const pendingEntries = queue.list("pending");
+	const gates = config.project.qualityGates ?? [];
+
+	if (pendingEntries.length < 2 || gates.length === 0) {
+		if (json) {
+			jsonOutput("merge", {
+				conflicts: [],
+				baselineFailures: [],
+				pairsChecked: 0,
+				skippedPairs: [],
+			});
+		} else if (gates.length === 0) {
+			printHint("No quality gates configured (project.qualityGates) — nothing to check");
+		} else {
+			printHint("Fewer than two pending branches — nothing to check");
+		}
+		return;
+	}
+
+	const result = await checkSemanticConflicts(
+		pendingEntries,
+		targetBranch,
+		config.project.root,
+		gates,
+	);
+
+	if (result.conflicts.length > 0) {
+		const mailStore = createMailStore(join(config.project.root, ".overstory", "mail.db"));
+		const mailClient = createMailClient(mailStore);
+		try {
+			notifySemanticConflicts(mailClient, result.conflicts);
+		} finally {
+			mailClient.close();
+		}
+	}
+
+	if (json) {
+		jsonOutput("merge", { ...result });
+	} else {
+		process.stdout.write(`${formatSemanticCheck(result)}\n`);
+	}
+
+	if (result.conflicts.length > 0) {
+		const pairs = result.conflicts.map((c) => `${c.first.branchName} + ${c.second.branchName}`);
+		throw new MergeError(
+			`Semantic conflicts found between ${result.conflicts.length} branch pair${result.conflicts.length === 1 ? "" : "s"}: ${pairs.join("; ")}`,
+		);
+	}
+}
+
 /**
  * Handle merging a specific branch.
  * If the branch is not in the queue, creates a new entry by detecting
@@ -195,6 +445,7 @@ async function handleBranch(
 	// Look for existing entry in the queue
 	const allEntries = queue.list();
 	let entry = allEntries.find((e) => e.branchName === branchName) ?? null;
+	const newEntry = entry === null;
 
 	// If not in queue, create one by detecting info from the branch
 	if (entry === null) {
@@ -214,6 +465,14 @@ async function handleBranch(
 
 		const agentName = parseAgentName(branchName);
 		const taskId = parseTaskId(branchName);
+
+		// Secrets block the branch from ever entering the queue
+		const target = { branch: branchName, taskId, agentName };
+		const findings = await scanBranchSecrets(target, repoRoot, canonicalBranch);
+		if (findings.length > 0) {
+			throw secretScanError(target, findings);
+		}
+
 		const filesModified = await detectModifiedFiles(repoRoot, canonicalBranch, branchName);
 
 		entry = queue.enqueue({
@@ -233,11 +492,27 @@ async function handleBranch(
 		return;
 	}
 
+	// Re-scan queued entries: the branch may have gained commits since it was enqueued
+	if (!newEntry) {
+		const target = { branch: branchName, taskId: entry.taskId, agentName: entry.agentName };
+		const findings = await scanBranchSecrets(target, repoRoot, canonicalBranch);
+		if (findings.length > 0) {
+			const error = secretScanError(target, findings);
+			queue.updateStatus(branchName, "failed", undefined, error.message);
+			throw error;
+		}
+	}
+
 	// Perform the actual merge
 	const result = await resolver.resolve(entry, canonicalBranch, repoRoot);
 
-	// Update queue status based on result
-	queue.updateStatus(branchName, result.success ? "merged" : "conflict", result.tier);
+	// Update queue status based on result; the tier only describes a merge that landed
+	queue.updateStatus(
+		branchName,
+		queueStatusForResult(result),
+		result.success ? result.tier : undefined,
+		result.errorMessage ?? undefined,
+	);
 
 	if (json) {
 		jsonOutput("merge", { ...result });
@@ -298,9 +573,26 @@ async function handleAll(
 	let failCount = 0;
 
 	for (const entry of pendingEntries) {
-		const result = await resolver.resolve(entry, canonicalBranch, repoRoot);
-
-		queue.updateStatus(entry.branchName, result.success ? "merged" : "conflict", result.tier);
+		const target = { branch: entry.branchName, taskId: entry.taskId, agentName: entry.agentName };
+		const findings = await scanBranchSecrets(target, repoRoot, canonicalBranch);
+		const result: MergeResult =
+			findings.length > 0
+				? {
+						entry,
+						success: false,
+						tier: "clean-merge",
+						conflictFiles: [...new Set(findings.map((f) => f.file))],
+						errorMessage: describeSecretFindings(target, findings),
+					}
+				: await resolver.resolve(entry, canonicalBranch, repoRoot);
+
+		const status = findings.length > 0 ? "failed" : queueStatusForResult(result);
+		queue.updateStatus(
+			entry.branchName,
+			status,
+			result.success ? result.tier : undefined,
+			result.errorMessage ?? undefined,
+		);
 
 		results.push(result);
 
@@ -70,6 +70,7 @@ describe("metricsCommand", () => {
 			estimatedCostUsd: null,
 			modelUsed: null,
 			runId: null,
+			runtime: null,
 			...overrides,
 		};
 	}
@@ -392,6 +393,7 @@ describe("formatDuration helper", () => {
 			estimatedCostUsd: null,
 			modelUsed: null,
 			runId: null,
+			runtime: null,
 		};
 	}
 
@@ -17,7 +17,7 @@ import { mkdir } from "node:fs/promises";
 import { join } from "node:path";
 import { Command } from "commander";
 import { createIdentity, loadIdentity } from "../agents/identity.ts";
-import { createManifestLoader, resolveModel } from "../agents/manifest.ts";
+import { createManifestLoader, resolveModel, resolveRuntimeName } from "../agents/manifest.ts";
 import { loadConfig } from "../config.ts";
 import { AgentError, ValidationError } from "../errors.ts";
 import { jsonOutput } from "../json.ts";
@@ -117,13 +117,14 @@ async function startMonitor(opts: { json: boolean; attach: boolean }): Promise<v
 		);
 		const manifest = await manifestLoader.load();
 		const resolvedModel = resolveModel(config, manifest, "monitor", "sonnet");
-		const runtime = getRuntime(undefined, config);
+		const runtime = getRuntime(resolveRuntimeName(config, manifest, "monitor"), config);
 
 		// Deploy monitor-specific hooks to the project root's .claude/ directory.
 		await runtime.deployConfig(projectRoot, undefined, {
 			agentName: MONITOR_NAME,
 			capability: "monitor",
 			worktreePath: projectRoot,
+			policy: config.policy,
 		});
 
 		// Create monitor identity if first run
@@ -184,6 +185,8 @@ async function startMonitor(opts: { json: boolean; attach: boolean }): Promise<v
 			escalationLevel: 0,
 			stalledSince: null,
 			transcriptPath: null,
+			rpcEndpoint: null,
+			runtime: runtime.id,
 		};
 
 		store.upsert(session);
@@ -59,6 +59,8 @@ function makeSession(overrides: Partial<AgentSession> = {}): AgentSession {
 		escalationLevel: 0,
 		stalledSince: null,
 		transcriptPath: null,
+		rpcEndpoint: null,
+		runtime: null,
 		...overrides,
 	};
 }
@@ -2,8 +2,8 @@
  * CLI command: overstory nudge <agent-name> [message]
  *
  * Sends a text nudge to an agent's interactive Claude Code session via
- * tmux send-keys. Used to notify agents of new mail or relay urgent
- * instructions mid-conversation.
+ * tmux send-keys, or as an RPC followUp for headless agents. Used to notify
+ * agents of new mail or relay urgent instructions mid-conversation.
  *
  * Includes retry logic (3 attempts) and debounce (500ms) to prevent
  * rapid-fire nudges to the same agent.
@@ -15,6 +15,7 @@ import { AgentError } from "../errors.ts";
 import { createEventStore } from "../events/store.ts";
 import { jsonOutput } from "../json.ts";
 import { printSuccess } from "../logging/color.ts";
+import { headlessControl } from "../runtimes/headless.ts";
 import { openSessionStore } from "../sessions/compat.ts";
 import type { EventStore } from "../types.ts";
 import { isSessionAlive, sendKeys } from "../worktree/tmux.ts";
@@ -46,8 +47,14 @@ async function loadOrchestratorTmuxSession(projectRoot: string): Promise<string
 	}
 }
 
+/** Where a nudge is delivered: a tmux session, or a headless agent host's socket. */
+interface NudgeTarget {
+	tmuxSession: string;
+	rpcEndpoint: string | null;
+}
+
 /**
- * Resolve the tmux session name for an agent.
+ * Resolve the nudge target for an agent.
  *
  * For regular agents, looks up the SessionStore.
  * For "orchestrator", falls back to the orchestrator-tmux.json registration
@@ -56,13 +63,13 @@ async function loadOrchestratorTmuxSession(projectRoot: string): Promise<string
 async function resolveTargetSession(
 	projectRoot: string,
 	agentName: string,
-): Promise<string | null> {
+): Promise<NudgeTarget | null> {
 	const overstoryDir = join(projectRoot, ".overstory");
 	const { store } = openSessionStore(overstoryDir);
 	try {
 		const session = store.getByName(agentName);
 		if (session && session.state !== "zombie" && session.state !== "completed") {
-			return session.tmuxSession;
+			return { tmuxSession: session.tmuxSession, rpcEndpoint: session.rpcEndpoint };
 		}
 	} finally {
 		store.close();
@@ -70,7 +77,8 @@ async function resolveTargetSession(
 
 	// Fallback for orchestrator: check orchestrator-tmux.json
 	if (agentName === "orchestrator") {
-		return await loadOrchestratorTmuxSession(projectRoot);
+		const tmuxSession = await loadOrchestratorTmuxSession(projectRoot);
+		return tmuxSession ? { tmuxSession, rpcEndpoint: null } : null;
 	}
 
 	return null;
@@ -117,15 +125,21 @@ async function recordNudge(statePath: string, agentName: string): Promise<void>
 }
 
 /**
- * Send a nudge to an agent's tmux session with retry logic.
+ * Send a nudge to an agent with retry logic.
  *
- * @param tmuxSession - The tmux session name
+ * @param target - The agent's tmux session or headless agent host
  * @param message - The text to send
  * @returns true if the nudge was delivered, false if all retries failed
  */
-async function sendNudgeWithRetry(tmuxSession: string, message: string): Promise<boolean> {
+async function sendNudgeWithRetry(target: NudgeTarget, message: string): Promise<boolean> {
+	const { tmuxSession, rpcEndpoint } = target;
 	for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
 		try {
+			if (rpcEndpoint) {
+				// Headless: followUp queues the message as a structured turn — no Enter dance
+				await headlessControl.followUp(rpcEndpoint, message);
+				return true;
+			}
 			await sendKeys(tmuxSession, message);
 			// Follow-up Enter after a short delay to ensure submission.
 			// Claude Code's TUI may consume the first Enter during re-render/focus
@@ -213,10 +227,10 @@ export async function nudgeAgent(
 ): Promise<{ delivered: boolean; reason?: string }> {
 	let result: { delivered: boolean; reason?: string };
 
-	// Resolve tmux session (SessionStore for agents, orchestrator-tmux.json for orchestrator)
-	const tmuxSessionName = await resolveTargetSession(projectRoot, agentName);
+	// Resolve target (SessionStore for agents, orchestrator-tmux.json for orchestrator)
+	const target = await resolveTargetSession(projectRoot, agentName);
 
-	if (!tmuxSessionName) {
+	if (!target) {
 		result = { delivered: false, reason: `No active session for agent "${agentName}"` };
 	} else {
 		// Check debounce (unless forced)
@@ -229,16 +243,20 @@ export async function nudgeAgent(
 		if (debounced) {
 			result = { delivered: false, reason: "Debounced: nudge sent too recently" };
 		} else {
-			// Verify tmux session is alive
-			const alive = await isSessionAlive(tmuxSessionName);
+			// Verify the tmux session (or headless agent host) is alive
+			const alive = target.rpcEndpoint
+				? await headlessControl.isAlive(target.rpcEndpoint)
+				: await isSessionAlive(target.tmuxSession);
 			if (!alive) {
 				result = {
 					delivered: false,
-					reason: `Tmux session "${tmuxSessionName}" is not alive`,
+					reason: target.rpcEndpoint
+						? `Agent host at "${target.rpcEndpoint}" is not reachable`
+						: `Tmux session "${target.tmuxSession}" is not alive`,
 				};
 			} else {
 				// Send with retry
-				const delivered = await sendNudgeWithRetry(tmuxSessionName, message);
+				const delivered = await sendNudgeWithRetry(target, message);
 
 				if (delivered) {
 					// Record nudge for debounce tracking
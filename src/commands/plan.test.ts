@@ -0,0 +1,208 @@
+/**
+ * Tests for overstory plan command.
+ *
+ * Uses real temp directories for dispatch-queue.json, merge-queue.db and
+ * sessions.db. The tracker is a fake TrackerClient backed by a Map — no
+ * bd/sd CLI is invoked.
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdir } from "node:fs/promises";
+import { join } from "node:path";
+import { createMergeQueue } from "../merge/queue.ts";
+import { cleanupTempDir, createTempGitRepo } from "../test-helpers.ts";
+import { buildTaskGraph, planDispatch } from "../tracker/dag.ts";
+import type { TrackerClient, TrackerIssue } from "../tracker/factory.ts";
+import {
+	formatPlan,
+	loadDispatchQueue,
+	loadSatisfiedTasks,
+	type QueuedDispatch,
+	queueUnblockedTasks,
+	removeQueuedDispatch,
+} from "./plan.ts";
+
+let tempDir: string;
+let overstoryDir: string;
+
+beforeEach(async () => {
+	tempDir = await createTempGitRepo();
+	overstoryDir = join(tempDir, ".overstory");
+	await mkdir(overstoryDir, { recursive: true });
+});
+
+afterEach(async () => {
+	await cleanupTempDir(tempDir);
+});
+
+function makeIssue(id: string, overrides?: Partial<TrackerIssue>): TrackerIssue {
+	return {
+		id,
+		title: `Task ${id}`,
+		status: "open",
+		priority: 2,
+		type: "task",
+		...overrides,
+	};
+}
+
+function fakeTracker(issues: TrackerIssue[]): TrackerClient {
+	const byId = new Map(issues.map((i) => [i.id, i]));
+	return {
+		ready: async () => [],
+		show: async (id) => {
+			const issue = byId.get(id);
+			if (!issue) throw new Error(`not found: ${id}`);
+			return issue;
+		},
+		create: async () => "new",
+		claim: async () => {},
+		close: async () => {},
+		list: async () => issues,
+		sync: async () => {},
+	};
+}
+
+function recordMerge(taskId: string): void {
+	const queue = createMergeQueue(join(overstoryDir, "merge-queue.db"));
+	try {
+		const branchName = `overstory/builder-${taskId}/${taskId}`;
+		queue.enqueue({ branchName, taskId, agentName: `builder-${taskId}`, filesModified: [] });
+		queue.updateStatus(branchName, "merged", "clean-merge");
+	} finally {
+		queue.close();
+	}
+}
+
+async function writeQueue(entries: QueuedDispatch[]): Promise<void> {
+	await Bun.write(join(overstoryDir, "dispatch-queue.json"), JSON.stringify(entries));
+}
+
+describe("dispatch queue", () => {
+	test("loadDispatchQueue returns empty array when file does not exist", async () => {
+		expect(await loadDispatchQueue(tempDir)).toEqual([]);
+	});
+
+	test("loadDispatchQueue returns empty array for malformed JSON", async () => {
+		await Bun.write(join(overstoryDir, "dispatch-queue.json"), "not json");
+		expect(await loadDispatchQueue(tempDir)).toEqual([]);
+	});
+
+	test("removeQueuedDispatch drops only the given task", async () => {
+		const queuedAt = new Date().toISOString();
+		await writeQueue([
+			{ taskId: "a", title: "A", unblockedBy: "x", queuedAt },
+			{ taskId: "b", title: "B", unblockedBy: "x", queuedAt },
+		]);
+
+		await removeQueuedDispatch(tempDir, "a");
+
+		const queue = await loadDispatchQueue(tempDir);
+		expect(queue.map((q) => q.taskId)).toEqual(["b"]);
+	});
+
+	test("removeQueuedDispatch is a no-op for unqueued tasks", async () => {
+		await removeQueuedDispatch(tempDir, "a");
+		expect(await Bun.file(join(overstoryDir, "dispatch-queue.json")).exists()).toBe(false);
+	});
+});
+
+describe("loadSatisfiedTasks", () => {
+	test("treats merged tasks as satisfied and closed-but-unmerged as unsatisfied", async () => {
+		recordMerge("a");
+		const queue = createMergeQueue(join(overstoryDir, "merge-queue.db"));
+		queue.enqueue({
+			branchName: "overstory/builder-b/b",
+			taskId: "b",
+			agentName: "builder-b",
+			filesModified: [],
+		});
+		queue.close();
+
+		const graph = buildTaskGraph([
+			makeIssue("a", { status: "closed" }),
+			makeIssue("b", { status: "closed" }),
+			makeIssue("c", { status: "closed" }),
+		]);
+		const satisfied = await loadSatisfiedTasks(tempDir, graph);
+
+		expect([...satisfied].sort()).toEqual(["a", "c"]);
+	});
+});
+
+describe("queueUnblockedTasks", () => {
+	test("queues dependents whose blockers are all merged", async () => {
+		recordMerge("a");
+		const tracker = fakeTracker([
+			makeIssue("a", { status: "closed", blocks: ["b", "c"] }),
+			makeIssue("b"),
+			makeIssue("c", { blockedBy: ["d"] }),
+			makeIssue("d"),
+		]);
+
+		const added = await queueUnblockedTasks(tempDir, tracker, "a");
+
+		expect(added.map((n) => n.id)).toEqual(["b"]);
+		const queue = await loadDispatchQueue(tempDir);
+		expect(queue).toHaveLength(1);
+		expect(queue[0]?.taskId).toBe("b");
+		expect(queue[0]?.unblockedBy).toBe("a");
+	});
+
+	test("does not queue a task twice", async () => {
+		recordMerge("a");
+		const tracker = fakeTracker([
+			makeIssue("a", { status: "closed", blocks: ["b"] }),
+			makeIssue("b"),
+		]);
+
+		await queueUnblockedTasks(tempDir, tracker, "a");
+		const second = await queueUnblockedTasks(tempDir, tracker, "a");
+
+		expect(second).toEqual([]);
+		expect(await loadDispatchQueue(tempDir)).toHaveLength(1);
+	});
+});
+
+describe("formatPlan", () => {
+	test("renders critical path, waves and ready tasks", () => {
+		const graph = buildTaskGraph([makeIssue("a", { blocks: ["b"] }), makeIssue("b")]);
+		const output = formatPlan(graph, planDispatch(graph, new Set()), []);
+
+		expect(output).toContain("Critical path (2 tasks)");
+		expect(output).toContain("Wave 1 (unblocked now)");
+		expect(output).toContain("Wave 2 (after wave 1)");
+		expect(output).toContain("Ready to sling");
+	});
+
+	test("renders dependency cycles and the dispatch queue", () => {
+		const graph = buildTaskGraph([
+			makeIssue("a", { blocks: ["b"] }),
+			makeIssue("b", { blocks: ["a"] }),
+			makeIssue("c"),
+		]);
+		const queue: QueuedDispatch[] = [
+			{ taskId: "c", title: "Task c", unblockedBy: "z", queuedAt: new Date().toISOString() },
+		];
+		const output = formatPlan(graph, planDispatch(graph, new Set()), queue);
+
+		expect(output).toContain("Dependency cycle");
+		expect(output).toContain("Dispatch queue");
+		expect(output).toContain("unblocked by z");
+	});
+
+	test("renders tasks waiting on unknown blockers", () => {
+		const graph = buildTaskGraph([makeIssue("a", { blockedBy: ["ghost"] })]);
+		const output = formatPlan(graph, planDispatch(graph, new Set()), []);
+
+		expect(output).toContain("Waiting on unknown blockers (not found in the tracker): ghost");
+		expect(output).not.toContain("nothing left to dispatch");
+		expect(output).not.toContain("Ready to sling");
+	});
+
+	test("reports when everything is satisfied", () => {
+		const graph = buildTaskGraph([makeIssue("a", { status: "closed" })]);
+		const output = formatPlan(graph, planDispatch(graph, new Set(["a"])), []);
+		expect(output).toContain("nothing left to dispatch");
+	});
+});
@@ -0,0 +1,264 @@
+/**
+ * CLI command: ov plan [--group <id>] [--json]
+ *
+ * Dependency-aware dispatch planning. Builds the task DAG from the tracker's
+ * blocks/blockedBy edges and prints the critical path, the parallel dispatch
+ * waves, the tasks that can be slung right now, and the dispatch queue of
+ * tasks unblocked by recent `merged` mail.
+ *
+ * Storage: `.overstory/dispatch-queue.json` (array of QueuedDispatch objects).
+ */
+
+import { join } from "node:path";
+import { Command } from "commander";
+import { loadConfig } from "../config.ts";
+import { GroupError } from "../errors.ts";
+import { jsonOutput } from "../json.ts";
+import { accent, muted, printHint } from "../logging/color.ts";
+import { createMergeQueue } from "../merge/queue.ts";
+import { openSessionStore } from "../sessions/compat.ts";
+import {
+	collectMergedTaskIds,
+	type DispatchPlan,
+	findNewlyUnblocked,
+	loadTaskGraph,
+	planDispatch,
+	resolveSatisfiedTasks,
+	type TaskGraph,
+	type TaskNode,
+} from "../tracker/dag.ts";
+import { createTrackerClient, resolveBackend, type TrackerClient } from "../tracker/factory.ts";
+import { loadGroups } from "./group.ts";
+
+/** A task queued for dispatch after its last blocker merged. */
+export interface QueuedDispatch {
+	taskId: string;
+	title: string;
+	/** The task whose merge unblocked this one. */
+	unblockedBy: string;
+	queuedAt: string; // ISO timestamp
+}
+
+/**
+ * Resolve the dispatch-queue.json path from the project root.
+ */
+function dispatchQueuePath(projectRoot: string): string {
+	return join(projectRoot, ".overstory", "dispatch-queue.json");
+}
+
+/**
+ * Load the dispatch queue from .overstory/dispatch-queue.json.
+ */
+export async function loadDispatchQueue(projectRoot: string): Promise<QueuedDispatch[]> {
+	const file = Bun.file(dispatchQueuePath(projectRoot));
+	if (!(await file.exists())) {
+		return [];
+	}
+	try {
+		return JSON.parse(await file.text()) as QueuedDispatch[];
+	} catch {
+		return [];
+	}
+}
+
+/**
+ * Save the dispatch queue to .overstory/dispatch-queue.json.
+ */
+async function saveDispatchQueue(projectRoot: string, queue: QueuedDispatch[]): Promise<void> {
+	await Bun.write(dispatchQueuePath(projectRoot), `${JSON.stringify(queue, null, "\t")}\n`);
+}
+
+/**
+ * Remove a task from the dispatch queue (called once it has been slung).
+ * No-op when the task is not queued.
+ */
+export async function removeQueuedDispatch(projectRoot: string, taskId: string): Promise<void> {
+	const queue = await loadDispatchQueue(projectRoot);
+	const remaining = queue.filter((q) => q.taskId !== taskId);
+	if (remaining.length !== queue.length) {
+		await saveDispatchQueue(projectRoot, remaining);
+	}
+}
+
+/**
+ * Resolve satisfied blockers for a graph from overstory runtime state:
+ * merge queue entries (merge-queue.db) and the session history (sessions.db).
+ */
+export async function loadSatisfiedTasks(
+	projectRoot: string,
+	graph: TaskGraph,
+): Promise<Set<string>> {
+	const overstoryDir = join(projectRoot, ".overstory");
+
+	let mergedTaskIds = new Set<string>();
+	const queuedTaskIds = new Set<string>();
+	const queuePath = join(overstoryDir, "merge-queue.db");
+	if (await Bun.file(queuePath).exists()) {
+		const mergeQueue = createMergeQueue(queuePath);
+		try {
+			const entries = mergeQueue.list();
+			mergedTaskIds = collectMergedTaskIds(entries);
+			for (const entry of entries) queuedTaskIds.add(entry.taskId);
+		} finally {
+			mergeQueue.close();
+		}
+	}
+
+	const workedTaskIds = new Set<string>();
+	const { store } = openSessionStore(overstoryDir);
+	try {
+		for (const session of store.getAll()) workedTaskIds.add(session.taskId);
+	} finally {
+		store.close();
+	}
+
+	return resolveSatisfiedTasks(graph, mergedTaskIds, workedTaskIds, queuedTaskIds);
+}
+
+/**
+ * Queue the tasks unblocked by a merged task.
+ *
+ * Loads the merged task's dependency neighbourhood from the tracker, finds
+ * open dependents whose blockers are now all satisfied, and appends them to
+ * the dispatch queue (skipping tasks already queued). Returns the newly
+ * queued tasks.
+ */
+export async function queueUnblockedTasks(
+	projectRoot: string,
+	tracker: TrackerClient,
+	mergedTaskId: string,
+): Promise<TaskNode[]> {
+	const graph = await loadTaskGraph(tracker, [mergedTaskId]);
+	const satisfied = await loadSatisfiedTasks(projectRoot, graph);
+	const unblocked = findNewlyUnblocked(graph, mergedTaskId, satisfied);
+	if (unblocked.length === 0) {
+		return [];
+	}
+
+	const queue = await loadDispatchQueue(projectRoot);
+	const added: TaskNode[] = [];
+	for (const node of unblocked) {
+		if (queue.some((q) => q.taskId === node.id)) continue;
+		queue.push({
+			taskId: node.id,
+			title: node.title,
+			unblockedBy: mergedTaskId,
+			queuedAt: new Date().toISOString(),
+		});
+		added.push(node);
+	}
+	if (added.length > 0) {
+		await saveDispatchQueue(projectRoot, queue);
+	}
+	return added;
+}
+
+/**
+ * Format a dispatch plan for human-readable output.
+ */
+export function formatPlan(graph: TaskGraph, plan: DispatchPlan, queue: QueuedDispatch[]): string {
+	const lines: string[] = [];
+	const label = (id: string): string => {
+		const node = graph.nodes.get(id);
+		if (!node) return accent(id);
+		return `${accent(id)} ${node.title} ${muted(`[${node.status}]`)}`;
+	};
+
+	if (plan.waves.length === 0 && plan.cycle.length === 0 && plan.unresolved.length === 0) {
+		return "All tasks satisfied — nothing left to dispatch.";
+	}
+
+	lines.push(
+		`Critical path (${plan.criticalPath.length} task${plan.criticalPath.length === 1 ? "" : "s"}):`,
+	);
+	lines.push(`  ${plan.criticalPath.map((id) => accent(id)).join(" → ")}`);
+	lines.push("");
+
+	for (let i = 0; i < plan.waves.length; i++) {
+		const wave = plan.waves[i] ?? [];
+		const heading = i === 0 ? "Wave 1 (unblocked now)" : `Wave ${i + 1} (after wave ${i})`;
+		lines.push(`${heading}:`);
+		for (const id of wave) {
+			lines.push(`  - ${label(id)}`);
+		}
+		lines.push("");
+	}
+
+	if (plan.cycle.length > 0) {
+		lines.push("Dependency cycle (cannot be scheduled):");
+		for (const id of plan.cycle) {
+			lines.push(`  - ${label(id)}`);
+		}
+		lines.push("");
+	}
+
+	if (plan.unresolved.length > 0) {
+		lines.push(
+			`Waiting on unknown blockers (not found in the tracker): ${plan.missingBlockers.map((id) => accent(id)).join(", ")}`,
+		);
+		for (const id of plan.unresolved) {
+			lines.push(`  - ${label(id)}`);
+		}
+		lines.push("");
+	}
+
+	if (plan.ready.length > 0) {
+		lines.push(`Ready to sling: ${plan.ready.map((id) => accent(id)).join(", ")}`);
+	}
+
+	if (queue.length > 0) {
+		lines.push("Dispatch queue (unblocked by merges):");
+		for (const q of queue) {
+			lines.push(`  - ${accent(q.taskId)} ${q.title} ${muted(`(unblocked by ${q.unblockedBy})`)}`);
+		}
+	}
+
+	return lines.join("\n").trimEnd();
+}
+
+/**
+ * Create the Commander command for `ov plan`.
+ */
+export function createPlanCommand(): Command {
+	return new Command("plan")
+		.description("Show the task dependency plan: critical path and parallel waves")
+		.option("--group <id>", "Limit the plan to a task group's members and their dependencies")
+		.option("--json", "Output as JSON")
+		.action(async (opts: { group?: string; json?: boolean }) => {
+			const config = await loadConfig(process.cwd());
+			const projectRoot = config.project.root;
+			const resolvedBackend = await resolveBackend(config.taskTracker.backend, projectRoot);
+			const tracker = createTrackerClient(resolvedBackend, projectRoot);
+
+			let rootIds: string[] | undefined;
+			if (opts.group !== undefined) {
+				const groups = await loadGroups(projectRoot);
+				const group = groups.find((g) => g.id === opts.group);
+				if (!group) {
+					throw new GroupError(`Group "${opts.group}" not found`, { groupId: opts.group });
+				}
+				rootIds = group.memberIssueIds;
+			}
+
+			const graph = await loadTaskGraph(tracker, rootIds);
+			const satisfied = await loadSatisfiedTasks(projectRoot, graph);
+			const plan = planDispatch(graph, satisfied);
+			const queue = await loadDispatchQueue(projectRoot);
+
+			if (opts.json) {
+				jsonOutput("plan", {
+					...plan,
+					satisfied: [...satisfied].sort(),
+					queue,
+					tasks: [...graph.nodes.values()],
+				});
+				return;
+			}
+
+			if (graph.nodes.size === 0) {
+				printHint("No tracker issues found");
+				return;
+			}
+			process.stdout.write(`${formatPlan(graph, plan, queue)}\n`);
+		});
+}
@@ -0,0 +1,57 @@
+/**
+ * Tests for `ov policy test`.
+ *
+ * testPolicy() is pure over the loaded config, so no temp directories are needed.
+ */
+
+import { describe, expect, test } from "bun:test";
+import { DEFAULT_CONFIG } from "../config.ts";
+import type { GuardPolicy, OverstoryConfig } from "../types.ts";
+import { testPolicy } from "./policy.ts";
+
+function makeConfig(policy?: GuardPolicy): OverstoryConfig {
+	const config = structuredClone(DEFAULT_CONFIG);
+	config.project.root = "/project";
+	config.policy = policy;
+	return config;
+}
+
+describe("testPolicy", () => {
+	test("shows the built-in decision without a policy", () => {
+		const config = makeConfig();
+		expect(testPolicy(config, "git diff HEAD", { capability: "scout" }).decision).toBe("allow");
+		expect(testPolicy(config, "sed -i s/a/b/ file.ts", { capability: "scout" })).toEqual({
+			decision: "block",
+			rule: "read-only",
+			reason: "scout agents cannot modify files — this command is not allowed",
+		});
+		expect(testPolicy(config, "sed -i s/a/b/ file.ts", { capability: "builder" }).decision).toBe(
+			"allow",
+		);
+	});
+
+	test("applies the project's policy and quality gates", () => {
+		const config = makeConfig({
+			defaults: { bash: { allow: { prefixes: ["make lint"] } } },
+			capabilities: { builder: { network: { deny: ["wget"] } } },
+		});
+		config.project.qualityGates = [{ name: "Check", command: "cargo clippy", description: "lint" }];
+		expect(testPolicy(config, "make lint > lint.log", { capability: "reviewer" }).reason).toBe(
+			"allowed by policy pattern ^\\s*make\\s+lint(\\s|$)",
+		);
+		expect(testPolicy(config, "cargo clippy > out", { capability: "reviewer" }).decision).toBe(
+			"allow",
+		);
+		expect(testPolicy(config, "wget https://x.test", { capability: "builder" }).decision).toBe(
+			"block",
+		);
+	});
+
+	test("--tool checks a tool call against the agent's worktree", () => {
+		const config = makeConfig({ capabilities: { builder: { paths: { deny: ["*.env"] } } } });
+		const opts = { capability: "builder", tool: "Write", agent: "builder-1" };
+		expect(testPolicy(config, "src/index.ts", opts).decision).toBe("allow");
+		expect(testPolicy(config, "config/prod.env", opts).reason).toBe("Path denied by policy: *.env");
+		expect(testPolicy(config, "/etc/hosts", opts).decision).toBe("block");
+	});
+});
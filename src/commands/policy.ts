@@ -0,0 +1,107 @@
+/**
+ * CLI command: ov policy test <input> --capability <name> [--tool <name>] [--agent <name>] [--json]
+ *
+ * Shows what the agent guards decide for a Bash command (or, with --tool, a
+ * tool call on a file path) under the effective guard policy: the built-in
+ * rules plus .overstory/policy.yaml. Uses the same engine the Claude Code
+ * hooks and the Pi guard extension are compiled from.
+ *
+ * Exits with code 1 when the call would be blocked.
+ */
+
+import { join } from "node:path";
+import { Command } from "commander";
+import {
+	evaluateBashCommand,
+	evaluateToolCall,
+	type GuardDecision,
+	resolveGuardRules,
+} from "../agents/guard-policy.ts";
+import { loadConfig } from "../config.ts";
+import { ValidationError } from "../errors.ts";
+import { jsonOutput } from "../json.ts";
+import { printHint, printSuccess, printWarning } from "../logging/color.ts";
+import type { OverstoryConfig } from "../types.ts";
+
+/** Options for `ov policy test`. */
+export interface PolicyTestOptions {
+	capability: string;
+	/** Tool to test instead of Bash; the input is then the target file path. */
+	tool?: string;
+	/** Agent name for the branch naming check and worktree path (default: "policy-test"). */
+	agent?: string;
+}
+
+/**
+ * Evaluate a Bash command or tool call against the config's guard policy.
+ * The agent's worktree is assumed to be `<worktrees.baseDir>/<agent>`.
+ */
+export function testPolicy(
+	config: OverstoryConfig,
+	input: string,
+	opts: PolicyTestOptions,
+): GuardDecision {
+	const agentName = opts.agent ?? "policy-test";
+	const worktreePath = join(config.project.root, config.worktrees.baseDir, agentName);
+	const rules = resolveGuardRules(opts.capability, {
+		policy: config.policy,
+		qualityGates: config.project.qualityGates,
+	});
+
+	if (opts.tool === undefined || opts.tool === "Bash" || opts.tool === "bash") {
+		return evaluateBashCommand(rules, input, { agentName, worktreePath });
+	}
+	return evaluateToolCall(rules, opts.tool, { worktreePath, filePath: input || undefined });
+}
+
+/**
+ * Create the Commander command for `ov policy`.
+ */
+export function createPolicyCommand(): Command {
+	const cmd = new Command("policy").description("Inspect the agent guard policy");
+
+	cmd
+		.command("test")
+		.description("Show the guard decision for a command or tool call")
+		.argument("<input>", "Bash command, or the file path with --tool")
+		.requiredOption("--capability <name>", "Agent capability to evaluate (e.g. scout)")
+		.option("--tool <name>", "Test a tool call (e.g. Write) instead of a Bash command")
+		.option("--agent <name>", "Agent name for branch and worktree checks", "policy-test")
+		.option("--json", "Output as JSON")
+		.action(
+			async (
+				input: string,
+				opts: { capability: string; tool?: string; agent?: string; json?: boolean },
+			) => {
+				if (opts.capability.trim() === "") {
+					throw new ValidationError("--capability must not be empty", {
+						field: "capability",
+						value: opts.capability,
+					});
+				}
+				const config = await loadConfig(process.cwd());
+				const result = testPolicy(config, input, opts);
+
+				if (result.decision === "block") {
+					process.exitCode = 1;
+				}
+				if (opts.json) {
+					jsonOutput("policy test", {
+						capability: opts.capability,
+						tool: opts.tool ?? "Bash",
+						input,
+						...result,
+					});
+					return;
+				}
+				if (result.decision === "allow") {
+					printSuccess(`Allowed for ${opts.capability} agents`);
+				} else {
+					printWarning(`Blocked for ${opts.capability} agents`);
+				}
+				printHint(`${result.reason} [${result.rule}]`);
+			},
+		);
+
+	return cmd;
+}
@@ -2,6 +2,7 @@ import { afterEach, beforeEach, describe, expect, test } from "bun:test";
 import { mkdir, mkdtemp } from "node:fs/promises";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
+import { initiateHandoff, resumeFromHandoff } from "../agents/lifecycle.ts";
 import { cleanupTempDir, createTempGitRepo } from "../test-helpers.ts";
 import type { AgentSession } from "../types.ts";
 import { primeCommand } from "./prime.ts";
@@ -168,6 +169,8 @@ recentTasks:
 					escalationLevel: 0,
 					stalledSince: null,
 					transcriptPath: null,
+					rpcEndpoint: null,
+					runtime: null,
 				},
 			];
 
@@ -206,6 +209,8 @@ recentTasks:
 					escalationLevel: 0,
 					stalledSince: null,
 					transcriptPath: null,
+					rpcEndpoint: null,
+					runtime: null,
 				},
 			];
 
@@ -267,6 +272,60 @@ recentTasks: []
 			expect(out).toContain("Branch:** overstory/recovery-agent/task-003");
 		});
 
+		test("fresh session consumes a pending watchdog handoff once", async () => {
+			const agentsDir = join(tempDir, ".overstory", "agents");
+			await initiateHandoff({
+				agentsDir,
+				agentName: "restarted",
+				sessionId: "session-old",
+				taskId: "task-004",
+				reason: "timeout",
+				progressSummary: "Wrote the parser",
+				pendingWork: "Finish task task-004",
+				currentBranch: "overstory/restarted/task-004",
+				filesModified: ["src/parser.ts"],
+				mulchDomains: [],
+			});
+			const sessions: AgentSession[] = [
+				{
+					id: "session-new",
+					agentName: "restarted",
+					capability: "builder",
+					worktreePath: join(tempDir, ".overstory", "worktrees", "restarted"),
+					branchName: "overstory/restarted/task-004",
+					taskId: "task-004",
+					tmuxSession: "overstory-restarted",
+					state: "booting",
+					pid: null,
+					parentAgent: null,
+					depth: 0,
+					runId: null,
+					startedAt: new Date().toISOString(),
+					lastActivity: new Date().toISOString(),
+					escalationLevel: 0,
+					stalledSince: null,
+					transcriptPath: null,
+					rpcEndpoint: null,
+					runtime: null,
+				},
+			];
+			await Bun.write(
+				join(tempDir, ".overstory", "sessions.json"),
+				`${JSON.stringify(sessions, null, 2)}\n`,
+			);
+
+			await primeCommand({ agent: "restarted" });
+			const out = output();
+			expect(out).toContain("## Session Recovery");
+			expect(out).toContain("the watchdog terminated after it stalled");
+			expect(out).toContain("Files modified:** src/parser.ts");
+			expect(await resumeFromHandoff({ agentsDir, agentName: "restarted" })).toBeNull();
+
+			chunks = [];
+			await primeCommand({ agent: "restarted" });
+			expect(output()).not.toContain("## Session Recovery");
+		});
+
 		test("--compact skips Expertise section", async () => {
 			// Write identity with expertise
 			const agentDir = join(tempDir, ".overstory", "agents", "compact-agent");
@@ -366,7 +425,11 @@ recentTasks: []
 !hooks.json
 !groups.json
 !agent-defs/
+!runtimes/
+!runtimes/**
 !README.md
+!issues/
+!issues/**
 `;
 
 		test("creates .overstory/.gitignore if missing", async () => {
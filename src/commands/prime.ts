@@ -10,13 +10,20 @@
 import { join } from "node:path";
 import { loadCheckpoint } from "../agents/checkpoint.ts";
 import { loadIdentity } from "../agents/identity.ts";
-import { createManifestLoader } from "../agents/manifest.ts";
+import { completeHandoff, resumeFromHandoff } from "../agents/lifecycle.ts";
+import { createManifestLoader, toModelChain } from "../agents/manifest.ts";
 import { loadConfig } from "../config.ts";
 import { printWarning } from "../logging/color.ts";
 import { createMetricsStore } from "../metrics/store.ts";
 import { createMulchClient } from "../mulch/client.ts";
 import { openSessionStore } from "../sessions/compat.ts";
-import type { AgentIdentity, AgentManifest, SessionCheckpoint, SessionMetrics } from "../types.ts";
+import type {
+	AgentIdentity,
+	AgentManifest,
+	SessionCheckpoint,
+	SessionHandoff,
+	SessionMetrics,
+} from "../types.ts";
 import { getCurrentSessionName } from "../worktree/tmux.ts";
 import { OVERSTORY_GITIGNORE } from "./init.ts";
 
@@ -35,7 +42,8 @@ function formatManifest(manifest: AgentManifest): string {
 	for (const [name, def] of Object.entries(manifest.agents)) {
 		const caps = def.capabilities.join(", ");
 		const spawn = def.canSpawn ? " (can spawn)" : "";
-		lines.push(`- **${name}** [${def.model}]: ${caps}${spawn}`);
+		const model = toModelChain(def.model).join(" → ");
+		lines.push(`- **${name}** [${model}]: ${caps}${spawn}`);
 	}
 	return lines.length > 0 ? lines.join("\n") : "No agents registered.";
 }
@@ -81,14 +89,25 @@ function formatIdentity(identity: AgentIdentity): string {
 	return lines.join("\n");
 }
 
+const RECOVERY_INTROS: Record<SessionHandoff["reason"], string> = {
+	compaction: "You are resuming from a previous session that was compacted.",
+	timeout:
+		"You are resuming from a previous session that the watchdog terminated after it stalled.",
+	crash: "You are resuming from a previous session whose process died.",
+	manual: "You are resuming from a previous session that handed off its work.",
+};
+
 /**
- * Format checkpoint recovery section for compact priming.
+ * Format checkpoint recovery section for compact priming and handoff resumes.
  */
-function formatCheckpointRecovery(checkpoint: SessionCheckpoint): string {
+function formatCheckpointRecovery(
+	checkpoint: SessionCheckpoint,
+	reason: SessionHandoff["reason"],
+): string {
 	const lines: string[] = [];
 	lines.push("\n## Session Recovery");
 	lines.push("");
-	lines.push("You are resuming from a previous session that was compacted.");
+	lines.push(RECOVERY_INTROS[reason]);
 	lines.push("");
 	lines.push(`**Progress so far:** ${checkpoint.progressSummary}`);
 	lines.push(`**Files modified:** ${checkpoint.filesModified.join(", ") || "none"}`);
@@ -174,7 +193,7 @@ async function outputAgentContext(
 	const overstoryDir = join(config.project.root, ".overstory");
 	const { store } = openSessionStore(overstoryDir);
 	let sessionExists = false;
-	let boundSession: { taskId: string } | null = null;
+	let boundSession: { id: string; taskId: string } | null = null;
 	try {
 		const agentSession = store.getByName(agentName);
 		sessionExists = agentSession !== null;
@@ -184,7 +203,7 @@ async function outputAgentContext(
 			agentSession.state !== "zombie" &&
 			agentSession.taskId
 		) {
-			boundSession = { taskId: agentSession.taskId };
+			boundSession = { id: agentSession.id, taskId: agentSession.taskId };
 		}
 	} finally {
 		store.close();
@@ -219,12 +238,24 @@ async function outputAgentContext(
 		sections.push("Do not wait for dispatch mail. Your assignment was bound at spawn time.");
 	}
 
-	// In compact mode, check for checkpoint recovery
+	// In compact mode, check for checkpoint recovery. A fresh session instead
+	// consumes a pending handoff (e.g. after a watchdog restart) so the
+	// checkpoint is injected exactly once.
+	const agentsDir = join(config.project.root, ".overstory", "agents");
 	if (compact) {
-		const baseDir = join(config.project.root, ".overstory", "agents");
-		const checkpoint = await loadCheckpoint(baseDir, agentName);
+		const checkpoint = await loadCheckpoint(agentsDir, agentName);
 		if (checkpoint !== null) {
-			sections.push(formatCheckpointRecovery(checkpoint));
+			sections.push(formatCheckpointRecovery(checkpoint, "compaction"));
+		}
+	} else if (boundSession) {
+		const pending = await resumeFromHandoff({ agentsDir, agentName }).catch(() => null);
+		if (pending !== null && pending.handoff.fromSessionId !== boundSession.id) {
+			sections.push(formatCheckpointRecovery(pending.checkpoint, pending.handoff.reason));
+			try {
+				await completeHandoff({ agentsDir, agentName, newSessionId: boundSession.id });
+			} catch {
+				// Non-fatal: the checkpoint is shown again on the next prime
+			}
 		}
 	}
 
@@ -1,9 +1,15 @@
-import { describe, expect, test } from "bun:test";
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { join } from "node:path";
 import { resolveModel, resolveProviderEnv } from "../agents/manifest.ts";
-import { HierarchyError } from "../errors.ts";
+import { AgentError, HierarchyError } from "../errors.ts";
+import { createMergeQueue } from "../merge/queue.ts";
 import { ClaudeRuntime } from "../runtimes/claude.ts";
+import { type HeadlessHostSpec, headlessEndpoint } from "../runtimes/headless.ts";
 import { getRuntime } from "../runtimes/registry.ts";
-import type { AgentManifest, OverstoryConfig } from "../types.ts";
+import { openSessionStore } from "../sessions/compat.ts";
+import { cleanupTempDir, createTempGitRepo } from "../test-helpers.ts";
+import type { AgentManifest, AgentSession, OverstoryConfig } from "../types.ts";
+import { loadDispatchQueue, type QueuedDispatch } from "./plan.ts";
 import {
 	type AutoDispatchOptions,
 	type BeaconOptions,
@@ -18,7 +24,10 @@ import {
 	inferDomainsFromFiles,
 	isRunningAsRoot,
 	parentHasScouts,
+	type SlingDeps,
+	type SlingOptions,
 	shouldShowScoutWarning,
+	slingCommand,
 	validateHierarchy,
 } from "./sling.ts";
 
@@ -1274,3 +1283,298 @@ describe("extractMulchRecordIds", () => {
 		expect(result).toContainEqual({ id: "mx-2ce43d", domain: "typescript" });
 	});
 });
+
+/**
+ * End-to-end tests for slingCommand.
+ *
+ * Runs against a real temp git repo, the file tracker and real SQLite stores.
+ * tmux, the broker and the RPC connection are injected fakes; the fake uid
+ * keeps the root check from firing when the suite itself runs as root.
+ */
+describe("slingCommand", () => {
+	let tempDir: string;
+	let overstoryDir: string;
+	let originalCwd: string;
+	let originalWrite: typeof process.stdout.write;
+
+	interface SlingCalls {
+		sessions: Array<{ name: string; command: string }>;
+		beacons: string[];
+		hosts: HeadlessHostSpec[];
+		prompts: Array<{ endpoint: string; text: string }>;
+	}
+
+	beforeEach(async () => {
+		tempDir = await createTempGitRepo();
+		overstoryDir = join(tempDir, ".overstory");
+		await Bun.write(
+			join(overstoryDir, "config.yaml"),
+			`project:\n  name: test\n  root: ${tempDir}\n  canonicalBranch: main\ntaskTracker:\n  backend: files\n  enabled: true\nmulch:\n  enabled: false\n`,
+		);
+		await Bun.write(
+			join(overstoryDir, "agent-manifest.json"),
+			JSON.stringify({
+				version: "1.0",
+				agents: {
+					lead: {
+						file: "lead.md",
+						model: "sonnet",
+						tools: ["Read"],
+						capabilities: ["coordinate"],
+						canSpawn: true,
+						constraints: [],
+					},
+				},
+				capabilityIndex: { coordinate: ["lead"] },
+			}),
+		);
+		await Bun.write(join(overstoryDir, "agent-defs", "lead.md"), "# Lead\n");
+
+		originalCwd = process.cwd();
+		process.chdir(tempDir);
+		originalWrite = process.stdout.write;
+		process.stdout.write = (() => true) as typeof process.stdout.write;
+	});
+
+	afterEach(async () => {
+		process.stdout.write = originalWrite;
+		process.chdir(originalCwd);
+		await cleanupTempDir(tempDir);
+	});
+
+	function makeDeps(): { deps: SlingDeps; calls: SlingCalls } {
+		const calls: SlingCalls = { sessions: [], beacons: [], hosts: [], prompts: [] };
+		const deps: SlingDeps = {
+			_getuid: () => 1000,
+			_tmux: {
+				ensureTmuxAvailable: async () => {},
+				createSession: async (name, _cwd, command) => {
+					calls.sessions.push({ name, command });
+					return 1111;
+				},
+			},
+			_deliverBeacon: async (_name, beacon) => {
+				calls.beacons.push(beacon);
+			},
+			_spawnAgentHost: async (spec) => {
+				calls.hosts.push(spec);
+				return 2222;
+			},
+			_headless: {
+				isAlive: async () => true,
+				getState: async () => ({ status: "idle" }),
+				sendPrompt: async (endpoint, text) => {
+					calls.prompts.push({ endpoint, text });
+				},
+				followUp: async () => {},
+				stop: async () => {},
+			},
+		};
+		return { deps, calls };
+	}
+
+	async function writeIssue(id: string, fields: Record<string, unknown> = {}): Promise<void> {
+		await Bun.write(
+			join(overstoryDir, "issues", `${id}.json`),
+			JSON.stringify({
+				id,
+				title: `Task ${id}`,
+				status: "open",
+				priority: 2,
+				type: "task",
+				...fields,
+			}),
+		);
+	}
+
+	async function sling(
+		taskId: string,
+		deps: SlingDeps,
+		opts: Partial<SlingOptions> = {},
+	): Promise<void> {
+		await slingCommand(taskId, { capability: "lead", name: `lead-${taskId}`, ...opts }, deps);
+	}
+
+	function getSession(name: string): AgentSession | null {
+		const { store } = openSessionStore(overstoryDir);
+		try {
+			return store.getByName(name);
+		} finally {
+			store.close();
+		}
+	}
+
+	describe("dependency check", () => {
+		test("refuses while a blocker is still open", async () => {
+			const { deps, calls } = makeDeps();
+			await writeIssue("task-a");
+			await writeIssue("task-b", { blockedBy: ["task-a"] });
+
+			await expect(sling("task-b", deps)).rejects.toThrow(
+				'Task "task-b" is blocked by unmerged task: task-a',
+			);
+			expect(calls.sessions).toHaveLength(0);
+			expect(getSession("lead-task-b")).toBeNull();
+		});
+
+		test("refuses while a closed blocker is waiting in the merge queue", async () => {
+			const { deps } = makeDeps();
+			await writeIssue("task-a", { status: "closed" });
+			await writeIssue("task-b", { blockedBy: ["task-a"] });
+			const queue = createMergeQueue(join(overstoryDir, "merge-queue.db"));
+			try {
+				queue.enqueue({
+					branchName: "overstory/lead-task-a/task-a",
+					taskId: "task-a",
+					agentName: "lead-task-a",
+					filesModified: [],
+				});
+			} finally {
+				queue.close();
+			}
+
+			await expect(sling("task-b", deps)).rejects.toThrow("--skip-dep-check");
+		});
+
+		test("slings once the blocker is merged and drops the task from the dispatch queue", async () => {
+			const { deps, calls } = makeDeps();
+			await writeIssue("task-a", { status: "closed" });
+			await writeIssue("task-b", { blockedBy: ["task-a"] });
+			const queue = createMergeQueue(join(overstoryDir, "merge-queue.db"));
+			try {
+				const branchName = "overstory/lead-task-a/task-a";
+				queue.enqueue({
+					branchName,
+					taskId: "task-a",
+					agentName: "lead-task-a",
+					filesModified: [],
+				});
+				queue.updateStatus(branchName, "merged", "clean-merge");
+			} finally {
+				queue.close();
+			}
+			const queued: QueuedDispatch[] = ["task-b", "task-c"].map((taskId) => ({
+				taskId,
+				title: `Task ${taskId}`,
+				unblockedBy: "task-a",
+				queuedAt: new Date().toISOString(),
+			}));
+			await Bun.write(join(overstoryDir, "dispatch-queue.json"), JSON.stringify(queued));
+
+			await sling("task-b", deps);
+
+			expect(calls.sessions.map((s) => s.name)).toEqual(["overstory-test-lead-task-b"]);
+			expect(getSession("lead-task-b")?.state).toBe("booting");
+			expect((await loadDispatchQueue(tempDir)).map((q) => q.taskId)).toEqual(["task-c"]);
+		});
+
+		test("--skip-dep-check slings past an open blocker", async () => {
+			const { deps } = makeDeps();
+			await writeIssue("task-a");
+			await writeIssue("task-b", { blockedBy: ["task-a"] });
+
+			await sling("task-b", deps, { skipDepCheck: true });
+
+			expect(getSession("lead-task-b")?.taskId).toBe("task-b");
+		});
+	});
+
+	describe("--headless", () => {
+		test("starts an agent host instead of tmux and sends the beacon over RPC", async () => {
+			const { deps, calls } = makeDeps();
+			await writeIssue("task-a");
+
+			await sling("task-a", deps, { runtime: "pi", headless: true });
+
+			const endpoint = headlessEndpoint(tempDir, "lead-task-a");
+			expect(calls.sessions).toHaveLength(0);
+			expect(calls.hosts).toHaveLength(1);
+			expect(calls.hosts[0]).toMatchObject({
+				agentName: "lead-task-a",
+				runtime: "pi",
+				endpoint,
+			});
+
+			const session = getSession("lead-task-a");
+			expect(session?.rpcEndpoint).toBe(endpoint);
+			expect(session?.tmuxSession).toBe("");
+			expect(session?.pid).toBe(2222);
+
+			expect(calls.beacons).toHaveLength(0);
+			expect(calls.prompts).toHaveLength(1);
+			expect(calls.prompts[0]?.endpoint).toBe(endpoint);
+			expect(calls.prompts[0]?.text).toContain("task-a");
+		});
+	});
+
+	describe("--resume", () => {
+		/** Sling a task, then mark the session completed as the watchdog would. */
+		async function slingAndComplete(
+			taskId: string,
+			deps: SlingDeps,
+			opts: Partial<SlingOptions> = {},
+		): Promise<AgentSession> {
+			await sling(taskId, deps, opts);
+			const { store } = openSessionStore(overstoryDir);
+			try {
+				store.updateState(`lead-${taskId}`, "completed");
+			} finally {
+				store.close();
+			}
+			const session = getSession(`lead-${taskId}`);
+			if (!session) throw new Error("session not recorded");
+			return session;
+		}
+
+		test("reuses the previous worktree and branch", async () => {
+			const { deps, calls } = makeDeps();
+			await writeIssue("task-a");
+			const previous = await slingAndComplete("task-a", deps);
+			await Bun.write(join(previous.worktreePath, "wip.txt"), "uncommitted work\n");
+
+			await sling("task-a", deps, { resume: true });
+
+			const resumed = getSession("lead-task-a");
+			expect(resumed?.worktreePath).toBe(previous.worktreePath);
+			expect(resumed?.branchName).toBe(previous.branchName);
+			expect(resumed?.state).toBe("booting");
+			expect(resumed?.id).not.toBe(previous.id);
+			expect(await Bun.file(join(previous.worktreePath, "wip.txt")).text()).toBe(
+				"uncommitted work\n",
+			);
+			expect(calls.sessions).toHaveLength(2);
+		});
+
+		test("refuses when there is no previous session", async () => {
+			const { deps, calls } = makeDeps();
+			await writeIssue("task-a");
+
+			const err = await sling("task-a", deps, { resume: true }).catch((e: unknown) => e);
+			expect(err).toBeInstanceOf(AgentError);
+			expect((err as AgentError).message).toContain("no previous session");
+			expect(calls.sessions).toHaveLength(0);
+		});
+
+		test("keeps the runtime passed with --runtime", async () => {
+			const { deps, calls } = makeDeps();
+			await writeIssue("task-a");
+			await slingAndComplete("task-a", deps, { runtime: "pi" });
+
+			await sling("task-a", deps, { resume: true, runtime: "pi" });
+
+			expect(getSession("lead-task-a")?.runtime).toBe("pi");
+			expect(calls.sessions[1]?.command).toStartWith("pi ");
+		});
+
+		test("--model overrides the manifest model via resolveModelRef", async () => {
+			const { deps, calls } = makeDeps();
+			await writeIssue("task-a");
+			await slingAndComplete("task-a", deps);
+			expect(calls.sessions[0]?.command).toContain("--model sonnet");
+
+			await sling("task-a", deps, { resume: true, model: "opus" });
+
+			expect(calls.sessions[1]?.command).toContain("--model opus");
+		});
+	});
+});
@@ -4,24 +4,31 @@
  * CRITICAL PATH. Orchestrates a full agent spawn:
  * 1. Load config + manifest
  * 2. Validate (depth limit, hierarchy)
- * 3. Load manifest + validate capability
+ * 3. Load manifest + validate capability + resolve runtime
  * 4. Resolve or create run_id (current-run.txt)
  * 5. Check name uniqueness + concurrency limit
- * 6. Validate task exists
+ * 6. Validate task exists (and its blockers are merged)
  * 7. Create worktree
  * 8. Generate + write overlay CLAUDE.md
  * 9. Deploy hooks config
  * 10. Claim task issue
  * 11. Create agent identity
- * 12. Create tmux session running claude
+ * 12. Create tmux session running claude (or a broker-hosted headless agent with --headless),
+ *     inside the bubblewrap sandbox when config.sandbox lists the capability and
+ *     behind the egress proxy when config.egress does
  * 13. Record session in SessionStore + increment run agent count
  * 14. Return AgentSession
  */
 
-import { mkdir } from "node:fs/promises";
+import { mkdir, stat } from "node:fs/promises";
 import { join, resolve } from "node:path";
 import { createIdentity, loadIdentity } from "../agents/identity.ts";
-import { createManifestLoader, resolveModel } from "../agents/manifest.ts";
+import {
+	createManifestLoader,
+	resolveModel,
+	resolveModelRef,
+	resolveRuntimeName,
+} from "../agents/manifest.ts";
 import { writeOverlay } from "../agents/overlay.ts";
 import { loadConfig } from "../config.ts";
 import { AgentError, HierarchyError, ValidationError } from "../errors.ts";
@@ -31,13 +38,25 @@ import { printSuccess } from "../logging/color.ts";
 import { createMailClient } from "../mail/client.ts";
 import { createMailStore } from "../mail/store.ts";
 import { createMulchClient } from "../mulch/client.ts";
+import { spawnAgentHost } from "../runtimes/broker.ts";
+import { egressSpawnEnv } from "../runtimes/egress.ts";
+import {
+	type HeadlessControl,
+	type HeadlessHostSpec,
+	headlessControl,
+	headlessEndpoint,
+	supportsHeadless,
+} from "../runtimes/headless.ts";
 import { getRuntime } from "../runtimes/registry.ts";
+import type { AgentRuntime } from "../runtimes/types.ts";
 import { openSessionStore } from "../sessions/compat.ts";
 import { createRunStore } from "../sessions/store.ts";
-import type { TrackerIssue } from "../tracker/factory.ts";
+import { buildTaskGraph, getUnmetBlockers } from "../tracker/dag.ts";
+import type { TrackerClient, TrackerIssue } from "../tracker/factory.ts";
 import { createTrackerClient, resolveBackend, trackerCliName } from "../tracker/factory.ts";
 import type { AgentSession, OverlayConfig } from "../types.ts";
 import { createWorktree } from "../worktree/manager.ts";
+import { sandboxSpawnCommand } from "../worktree/sandbox.ts";
 import {
 	capturePaneContent,
 	createSession,
@@ -45,6 +64,7 @@ import {
 	sendKeys,
 	waitForTuiReady,
 } from "../worktree/tmux.ts";
+import { loadSatisfiedTasks, removeQueuedDispatch } from "./plan.ts";
 
 /**
  * Calculate how many milliseconds to sleep before spawning a new agent,
@@ -117,13 +137,43 @@ export interface SlingOptions {
 	depth?: string;
 	skipScout?: boolean;
 	skipTaskCheck?: boolean;
+	skipDepCheck?: boolean;
 	forceHierarchy?: boolean;
 	json?: boolean;
 	maxAgents?: string;
 	skipReview?: boolean;
 	dispatchMaxAgents?: string;
 	runtime?: string;
+	/** Model ref overriding the capability's chain (the watchdog uses it for model fallback). */
+	model?: string;
 	noScoutCheck?: boolean;
+	/** Reuse the previous session's worktree and branch instead of creating new ones. */
+	resume?: boolean;
+	/** Run the agent without tmux, driven over RPC by a detached agent host. */
+	headless?: boolean;
+}
+
+/** Dependency injection for testing. Uses real implementations when omitted. */
+export interface SlingDeps {
+	_tmux?: {
+		ensureTmuxAvailable: () => Promise<void>;
+		createSession: (
+			name: string,
+			cwd: string,
+			command: string,
+			env?: Record<string, string>,
+		) => Promise<number>;
+	};
+	/** Types the beacon into the agent's tmux session. */
+	_deliverBeacon?: (
+		tmuxSessionName: string,
+		beacon: string,
+		runtime: AgentRuntime,
+	) => Promise<void>;
+	/** Starts a headless agent host via the broker and returns its pid. */
+	_spawnAgentHost?: (spec: HeadlessHostSpec) => Promise<number>;
+	_headless?: HeadlessControl;
+	_getuid?: () => number;
 }
 
 export interface AutoDispatchOptions {
@@ -389,13 +439,104 @@ export function extractMulchRecordIds(primeText: string): Array<{ id: string; do
 	return results;
 }
 
+/**
+ * Find blockers of an issue whose branches have not been merged yet.
+ *
+ * Fetches each declared blocker from the tracker so closed-but-unmerged work
+ * can be told apart from issues closed without any agent involvement.
+ * Blockers that cannot be fetched are treated as unmet.
+ */
+export async function findUnmergedBlockers(
+	issue: TrackerIssue,
+	tracker: TrackerClient,
+	projectRoot: string,
+): Promise<string[]> {
+	const blockerIds = issue.blockedBy ?? [];
+	if (blockerIds.length === 0) return [];
+
+	const blockers: TrackerIssue[] = [];
+	for (const id of blockerIds) {
+		try {
+			blockers.push(await tracker.show(id));
+		} catch {
+			// Unknown blocker — stays unmet
+		}
+	}
+
+	const graph = buildTaskGraph([issue, ...blockers]);
+	const satisfied = await loadSatisfiedTasks(projectRoot, graph);
+	return getUnmetBlockers(graph, issue.id, satisfied);
+}
+
+/**
+ * Type the beacon into a freshly created tmux session and make sure the
+ * runtime's TUI actually received it.
+ */
+async function deliverBeaconViaTmux(
+	tmuxSessionName: string,
+	beacon: string,
+	runtime: AgentRuntime,
+): Promise<void> {
+	// Wait for Claude Code TUI to render before sending input.
+	// Polling capture-pane is more reliable than a fixed sleep because
+	// TUI init time varies by machine load and model state.
+	await waitForTuiReady(tmuxSessionName, (content) => runtime.detectReady(content));
+	// Buffer for the input handler to attach after initial render
+	await Bun.sleep(1_000);
+
+	await sendKeys(tmuxSessionName, beacon);
+
+	// Follow-up Enters with increasing delays to ensure submission.
+	// Claude Code's TUI may consume early Enters during late initialization
+	// (overstory-yhv6). An Enter on an empty input line is harmless.
+	for (const delay of [1_000, 2_000, 3_000, 5_000]) {
+		await Bun.sleep(delay);
+		await sendKeys(tmuxSessionName, "");
+	}
+
+	// Verify beacon was received — if pane still shows the welcome
+	// screen (detectReady returns "ready"), resend the beacon. Claude Code's TUI
+	// sometimes consumes the Enter keystroke during late initialization, swallowing
+	// the beacon text entirely (overstory-3271).
+	//
+	// Skipped for runtimes that return false from requiresBeaconVerification().
+	// Pi's TUI idle and processing states are indistinguishable via detectReady
+	// (both show "pi v..." header and the token-usage status bar), so the loop
+	// would incorrectly conclude the beacon was not received and spam duplicate
+	// startup messages.
+	const needsVerification =
+		!runtime.requiresBeaconVerification || runtime.requiresBeaconVerification();
+	if (needsVerification) {
+		const verifyAttempts = 5;
+		for (let v = 0; v < verifyAttempts; v++) {
+			await Bun.sleep(2_000);
+			const paneContent = await capturePaneContent(tmuxSessionName);
+			if (paneContent) {
+				const readyState = runtime.detectReady(paneContent);
+				if (readyState.phase !== "ready") {
+					break; // Agent is processing — beacon was received
+				}
+			}
+			// Still at welcome/idle screen — resend beacon
+			await sendKeys(tmuxSessionName, beacon);
+			await Bun.sleep(1_000);
+			await sendKeys(tmuxSessionName, ""); // Follow-up Enter
+		}
+	}
+}
+
 /**
  * Entry point for `ov sling <task-id> [flags]`.
  *
  * @param taskId - The task ID to assign to the agent
  * @param opts - Command options
+ * @param deps - Optional dependency injection for testing (tmux, headless, uid)
  */
-export async function slingCommand(taskId: string, opts: SlingOptions): Promise<void> {
+export async function slingCommand(
+	taskId: string,
+	opts: SlingOptions,
+	deps: SlingDeps = {},
+): Promise<void> {
 	if (!taskId) {
 		throw new ValidationError("Task ID is required: ov sling <task-id>", {
 			field: "taskId",
@@ -412,6 +553,11 @@ export async function slingCommand(taskId: string, opts: SlingOptions): Promise<
 	const forceHierarchy = opts.forceHierarchy ?? false;
 	const skipScout = opts.skipScout ?? false;
 	const skipTaskCheck = opts.skipTaskCheck ?? false;
+	const skipDepCheck = opts.skipDepCheck ?? false;
+	const tmux = deps._tmux ?? { ensureTmuxAvailable, createSession };
+	const deliverBeacon = deps._deliverBeacon ?? deliverBeaconViaTmux;
+	const startAgentHost = deps._spawnAgentHost ?? spawnAgentHost;
+	const headlessRpc = deps._headless ?? headlessControl;
 
 	if (!name || name.trim().length === 0) {
 		throw new ValidationError("--name is required for sling", { field: "name" });
@@ -424,7 +570,7 @@ export async function slingCommand(taskId: string, opts: SlingOptions): Promise<
 		});
 	}
 
-	if (isRunningAsRoot()) {
+	if (isRunningAsRoot(deps._getuid)) {
 		throw new AgentError(
 			"Cannot spawn agents as root (UID 0). The claude CLI rejects --permission-mode bypassPermissions when run as root, causing the tmux session to die immediately. Run overstory as a non-root user.",
 			{ agentName: name },
@@ -519,6 +665,20 @@ export async function slingCommand(taskId: string, opts: SlingOptions): Promise<
 		);
 	}
 
+	// 3b. Resolve the runtime (--runtime > per-capability config > manifest > default).
+	// Headless mode needs one that speaks RPC — check before any worktree exists.
+	const runtimeName = resolveRuntimeName(config, manifest, capability, opts.runtime);
+	const headless = opts.headless ?? config.runtime?.headless ?? false;
+	if (headless) {
+		const headlessRuntime = getRuntime(runtimeName, config);
+		if (!supportsHeadless(headlessRuntime)) {
+			throw new ValidationError(
+				`Runtime "${headlessRuntime.id}" does not support headless mode (requires an RPC connection)`,
+				{ field: "headless", value: headlessRuntime.id },
+			);
+		}
+	}
+
 	// 4. Resolve or create run_id for this spawn
 	const overstoryDir = join(config.project.root, ".overstory");
 	const currentRunPath = join(overstoryDir, "current-run.txt");
@@ -652,19 +812,56 @@ export async function slingCommand(taskId: string, opts: SlingOptions): Promise<
 					{ field: "taskId", value: taskId },
 				);
 			}
+
+			// 6b. Dependency check: every blocker must be merged before dependents start,
+			// otherwise they build on a canonical branch that lacks the blocker's changes.
+			if (!skipDepCheck) {
+				const unmet = await findUnmergedBlockers(issue, tracker, config.project.root);
+				if (unmet.length > 0) {
+					throw new ValidationError(
+						`Task "${taskId}" is blocked by unmerged task${unmet.length === 1 ? "" : "s"}: ${unmet.join(", ")}. ` +
+							`Wait for the blocker branches to merge (see ov plan), or pass --skip-dep-check to override.`,
+						{ field: "taskId", value: taskId },
+					);
+				}
+			}
 		}
 
-		// 7. Create worktree
-		const worktreeBaseDir = join(config.project.root, config.worktrees.baseDir);
-		await mkdir(worktreeBaseDir, { recursive: true });
+		// 7. Create worktree (or reuse the previous session's with --resume, used by
+		// watchdog recovery so the new session picks up the uncommitted work)
+		const resume = opts.resume ?? false;
+		let worktreePath: string;
+		let branchName: string;
+		if (resume) {
+			if (!existing || existing.taskId !== taskId) {
+				throw new AgentError(
+					`Cannot resume "${name}": no previous session for task "${taskId}" under that name`,
+					{ agentName: name },
+				);
+			}
+			const worktreeStat = await stat(existing.worktreePath).catch(() => null);
+			if (!worktreeStat?.isDirectory()) {
+				throw new AgentError(
+					`Cannot resume "${name}": worktree ${existing.worktreePath} no longer exists`,
+					{ agentName: name },
+				);
+			}
+			worktreePath = existing.worktreePath;
+			branchName = existing.branchName;
+		} else {
+			const worktreeBaseDir = join(config.project.root, config.worktrees.baseDir);
+			await mkdir(worktreeBaseDir, { recursive: true });
 
-		const { path: worktreePath, branch: branchName } = await createWorktree({
-			repoRoot: config.project.root,
-			baseDir: worktreeBaseDir,
-			agentName: name,
-			baseBranch: config.project.canonicalBranch,
-			taskId: taskId,
-		});
+			const created = await createWorktree({
+				repoRoot: config.project.root,
+				baseDir: worktreeBaseDir,
+				agentName: name,
+				baseBranch: config.project.canonicalBranch,
+				taskId: taskId,
+			});
+			worktreePath = created.path;
+			branchName = created.branch;
+		}
 
 		// 8. Generate + write overlay CLAUDE.md
 		const agentDefPath = join(config.project.root, config.agents.baseDir, agentDef.file);
@@ -713,12 +910,16 @@ export async function slingCommand(taskId: string, opts: SlingOptions): Promise<
 		};
 
 		// Resolve runtime before writeOverlay so we can pass runtime.instructionPath
-		const runtime = getRuntime(opts.runtime, config);
+		const runtime = getRuntime(runtimeName, config);
 
 		try {
 			await writeOverlay(worktreePath, overlayConfig, config.project.root, runtime.instructionPath);
 		} catch (err) {
-			// Clean up the orphaned worktree created in step 7 (overstory-p4st)
+			// Clean up the orphaned worktree created in step 7 (overstory-p4st).
+			// A resumed worktree holds the previous session's work — leave it alone.
+			if (resume) {
+				throw err;
+			}
 			try {
 				const cleanupProc = Bun.spawn(["git", "worktree", "remove", "--force", worktreePath], {
 					cwd: config.project.root,
@@ -733,7 +934,9 @@ export async function slingCommand(taskId: string, opts: SlingOptions): Promise<
 		}
 
 		// 9. Resolve runtime + model (needed for deployConfig, spawn, and beacon)
-		const resolvedModel = resolveModel(config, manifest, capability, agentDef.model);
+		const resolvedModel = opts.model
+			? resolveModelRef(config, opts.model)
+			: resolveModel(config, manifest, capability, agentDef.model);
 
 		// 9a. Deploy hooks config (capability-specific guards)
 		await runtime.deployConfig(worktreePath, undefined, {
@@ -741,6 +944,7 @@ export async function slingCommand(taskId: string, opts: SlingOptions): Promise<
 			capability,
 			worktreePath,
 			qualityGates: config.project.qualityGates,
+			policy: config.policy,
 		});
 
 		// 9b. Send auto-dispatch mail so it exists when SessionStart hook fires.
@@ -807,27 +1011,65 @@ export async function slingCommand(taskId: string, opts: SlingOptions): Promise<
 			}
 		}
 
-		// 11c. Preflight: verify tmux is available before attempting session creation
-		await ensureTmuxAvailable();
-
-		// 12. Create tmux session running claude in interactive mode
-		const tmuxSessionName = `overstory-${config.project.name}-${name}`;
-		const spawnCmd = runtime.buildSpawnCommand({
-			model: resolvedModel.model,
-			permissionMode: "bypass",
-			cwd: worktreePath,
-			env: {
-				...runtime.buildEnv(resolvedModel),
-				OVERSTORY_AGENT_NAME: name,
-				OVERSTORY_WORKTREE_PATH: worktreePath,
-			},
-		});
-		const pid = await createSession(tmuxSessionName, worktreePath, spawnCmd, {
+		const agentEnv = {
 			...runtime.buildEnv(resolvedModel),
+			...(await egressSpawnEnv(config, capability, name)),
 			OVERSTORY_AGENT_NAME: name,
 			OVERSTORY_WORKTREE_PATH: worktreePath,
+		};
+		const beacon = buildBeacon({
+			agentName: name,
+			capability,
+			taskId,
+			parentAgent,
+			depth,
+			instructionPath: runtime.instructionPath,
 		});
 
+		// 12. Start the agent: hosted by the broker (headless), or a tmux session
+		// running the runtime's interactive TUI
+		const tmuxSessionName = headless ? "" : `overstory-${config.project.name}-${name}`;
+		let rpcEndpoint: string | null = null;
+		let pid: number;
+		if (headless && runtime.buildHeadlessCommand) {
+			rpcEndpoint = headlessEndpoint(config.project.root, name);
+			pid = await startAgentHost({
+				agentName: name,
+				projectRoot: config.project.root,
+				runtime: runtime.id,
+				command: sandboxSpawnCommand(
+					config,
+					capability,
+					worktreePath,
+					runtime.buildHeadlessCommand({
+						model: resolvedModel.model,
+						permissionMode: "bypass",
+						cwd: worktreePath,
+						env: agentEnv,
+					}),
+				),
+				cwd: worktreePath,
+				env: agentEnv,
+				endpoint: rpcEndpoint,
+				logPath: join(identityBaseDir, name, "headless.log"),
+			});
+		} else {
+			// 11c. Preflight: verify tmux is available before attempting session creation
+			await tmux.ensureTmuxAvailable();
+			const spawnCmd = sandboxSpawnCommand(
+				config,
+				capability,
+				worktreePath,
+				runtime.buildSpawnCommand({
+					model: resolvedModel.model,
+					permissionMode: "bypass",
+					cwd: worktreePath,
+					env: agentEnv,
+				}),
+			);
+			pid = await tmux.createSession(tmuxSessionName, worktreePath, spawnCmd, agentEnv);
+		}
+
 		// 13. Record session BEFORE sending the beacon so that hook-triggered
 		// updateLastActivity() can find the entry and transition booting->working.
 		// Without this, a race exists: hooks fire before the session is persisted,
@@ -850,10 +1092,15 @@ export async function slingCommand(taskId: string, opts: SlingOptions): Promise<
 			escalationLevel: 0,
 			stalledSince: null,
 			transcriptPath: null,
+			rpcEndpoint,
+			runtime: runtime.id,
 		};
 
 		store.upsert(session);
 
+		// The task is now being worked — drop it from the dependency dispatch queue
+		await removeQueuedDispatch(config.project.root, taskId);
+
 		// Increment agent count for the run
 		const runStore = createRunStore(join(overstoryDir, "sessions.db"));
 		try {
@@ -862,59 +1109,12 @@ export async function slingCommand(taskId: string, opts: SlingOptions): Promise<
 			runStore.close();
 		}
 
-		// 13b. Wait for Claude Code TUI to render before sending input.
-		// Polling capture-pane is more reliable than a fixed sleep because
-		// TUI init time varies by machine load and model state.
-		await waitForTuiReady(tmuxSessionName, (content) => runtime.detectReady(content));
-		// Buffer for the input handler to attach after initial render
-		await Bun.sleep(1_000);
-
-		const beacon = buildBeacon({
-			agentName: name,
-			capability,
-			taskId,
-			parentAgent,
-			depth,
-			instructionPath: runtime.instructionPath,
-		});
-		await sendKeys(tmuxSessionName, beacon);
-
-		// 13c. Follow-up Enters with increasing delays to ensure submission.
-		// Claude Code's TUI may consume early Enters during late initialization
-		// (overstory-yhv6). An Enter on an empty input line is harmless.
-		for (const delay of [1_000, 2_000, 3_000, 5_000]) {
-			await Bun.sleep(delay);
-			await sendKeys(tmuxSessionName, "");
-		}
-
-		// 13d. Verify beacon was received — if pane still shows the welcome
-		// screen (detectReady returns "ready"), resend the beacon. Claude Code's TUI
-		// sometimes consumes the Enter keystroke during late initialization, swallowing
-		// the beacon text entirely (overstory-3271).
-		//
-		// Skipped for runtimes that return false from requiresBeaconVerification().
-		// Pi's TUI idle and processing states are indistinguishable via detectReady
-		// (both show "pi v..." header and the token-usage status bar), so the loop
-		// would incorrectly conclude the beacon was not received and spam duplicate
-		// startup messages.
-		const needsVerification =
-			!runtime.requiresBeaconVerification || runtime.requiresBeaconVerification();
-		if (needsVerification) {
-			const verifyAttempts = 5;
-			for (let v = 0; v < verifyAttempts; v++) {
-				await Bun.sleep(2_000);
-				const paneContent = await capturePaneContent(tmuxSessionName);
-				if (paneContent) {
-					const readyState = runtime.detectReady(paneContent);
-					if (readyState.phase !== "ready") {
-						break; // Agent is processing — beacon was received
-					}
-				}
-				// Still at welcome/idle screen — resend beacon
-				await sendKeys(tmuxSessionName, beacon);
-				await Bun.sleep(1_000);
-				await sendKeys(tmuxSessionName, ""); // Follow-up Enter
-			}
+		if (rpcEndpoint !== null) {
+			// 13b. Headless: the prompt is a structured RPC request, so there is
+			// no TUI to wait for and no keystrokes to lose.
+			await headlessRpc.sendPrompt(rpcEndpoint, beacon);
+		} else {
+			await deliverBeacon(tmuxSessionName, beacon, runtime);
 		}
 
 		// 14. Output result
@@ -925,6 +1125,8 @@ export async function slingCommand(taskId: string, opts: SlingOptions): Promise<
 			branch: branchName,
 			worktree: worktreePath,
 			tmuxSession: tmuxSessionName,
+			rpcEndpoint,
+			runtime: runtime.id,
 			pid,
 		};
 
@@ -935,7 +1137,12 @@ export async function slingCommand(taskId: string, opts: SlingOptions): Promise<
 			process.stdout.write(`   Task:     ${taskId}\n`);
 			process.stdout.write(`   Branch:   ${branchName}\n`);
 			process.stdout.write(`   Worktree: ${worktreePath}\n`);
-			process.stdout.write(`   Tmux:     ${tmuxSessionName}\n`);
+			process.stdout.write(`   Runtime:  ${runtime.id}\n`);
+			if (rpcEndpoint !== null) {
+				process.stdout.write(`   RPC:      ${rpcEndpoint}\n`);
+			} else {
+				process.stdout.write(`   Tmux:     ${tmuxSessionName}\n`);
+			}
 			process.stdout.write(`   PID:      ${pid}\n`);
 		}
 	} finally {
@@ -41,6 +41,8 @@ function makeAgent(overrides: Partial<AgentSession> = {}): AgentSession {
 		escalationLevel: 0,
 		stalledSince: null,
 		transcriptPath: null,
+		rpcEndpoint: null,
+		runtime: null,
 		...overrides,
 	};
 }
@@ -90,6 +92,11 @@ describe("printStatus", () => {
 		expect(out).not.toContain("Mail sent:");
 	});
 
+	test("shows the runtime next to the capability when recorded", () => {
+		printStatus(makeStatusData({ agents: [makeAgent({ runtime: "codex" })] }));
+		expect(output()).toContain("[builder/codex]");
+	});
+
 	test("verbose: shows worktree path, logs dir, and mail timestamps", () => {
 		const detail: VerboseAgentDetail = {
 			worktreePath: "/tmp/worktrees/test-builder",
@@ -16,6 +16,7 @@ import { renderHeader } from "../logging/theme.ts";
 import { createMailStore } from "../mail/store.ts";
 import { createMergeQueue } from "../merge/queue.ts";
 import { createMetricsStore } from "../metrics/store.ts";
+import { isHeadlessHostRunning } from "../runtimes/headless.ts";
 import { openSessionStore } from "../sessions/compat.ts";
 import type { AgentSession } from "../types.ts";
 import { evaluateHealth } from "../watchdog/health.ts";
@@ -70,6 +71,16 @@ export async function getCachedTmuxSessions(
 	}
 }
 
+/**
+ * Whether an agent's process is alive: its tmux session is listed, or — for
+ * headless sessions — its agent host process is running.
+ */
+export function isAgentProcessAlive(session: AgentSession, tmuxSessionNames: Set<string>): boolean {
+	return session.rpcEndpoint
+		? isHeadlessHostRunning(session)
+		: tmuxSessionNames.has(session.tmuxSession);
+}
+
 export interface VerboseAgentDetail {
 	worktreePath: string;
 	logsDir: string;
@@ -136,7 +147,7 @@ export async function gatherStatus(
 		const healthThresholds = { staleMs: 300_000, zombieMs: 600_000 };
 		for (const session of sessions) {
 			if (session.state === "completed") continue;
-			const tmuxAlive = tmuxSessionNames.has(session.tmuxSession);
+			const tmuxAlive = isAgentProcessAlive(session, tmuxSessionNames);
 			const check = evaluateHealth(session, tmuxAlive, healthThresholds);
 			if (check.state !== session.state) {
 				try {
@@ -260,9 +271,10 @@ export function printStatus(data: StatusData): void {
 					? new Date(agent.lastActivity).getTime()
 					: now;
 			const duration = formatDuration(endTime - new Date(agent.startedAt).getTime());
-			const tmuxAlive = tmuxSessionNames.has(agent.tmuxSession);
+			const tmuxAlive = isAgentProcessAlive(agent, tmuxSessionNames);
 			const aliveMarker = tmuxAlive ? color.green(">") : color.red("x");
-			w(`   ${aliveMarker} ${accent(agent.agentName)} [${agent.capability}] `);
+			const role = agent.runtime ? `${agent.capability}/${agent.runtime}` : agent.capability;
+			w(`   ${aliveMarker} ${accent(agent.agentName)} [${role}] `);
 			w(`${agent.state} | ${accent(agent.taskId)} | ${duration}\n`);
 
 			const detail = data.verboseDetails?.[agent.agentName];
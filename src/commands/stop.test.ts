@@ -149,6 +149,8 @@ function makeAgentSession(overrides: Partial<AgentSession> = {}): AgentSession {
 		escalationLevel: 0,
 		stalledSince: null,
 		transcriptPath: null,
+		rpcEndpoint: null,
+		runtime: null,
 		...overrides,
 	};
 }
@@ -239,6 +241,34 @@ describe("stopCommand validation", () => {
 });
 
 describe("stopCommand stop behavior", () => {
+	test("stops a headless agent through its agent host, not tmux", async () => {
+		const session = makeAgentSession({ tmuxSession: "", rpcEndpoint: "/tmp/ov-test.sock" });
+		saveSessionsToDb([session]);
+
+		const stopped: string[] = [];
+		const { deps, tmuxCalls } = makeDeps();
+		deps._headless = {
+			isAlive: async () => true,
+			getState: async () => ({ status: "working" }),
+			sendPrompt: async () => {},
+			followUp: async () => {},
+			stop: async (endpoint) => {
+				stopped.push(endpoint);
+			},
+		};
+		const output = await captureStdout(() => stopCommand("my-builder", {}, deps));
+
+		expect(output).toContain("Agent host aborted: /tmp/ov-test.sock");
+		expect(stopped).toEqual(["/tmp/ov-test.sock"]);
+		expect(tmuxCalls.isSessionAlive).toHaveLength(0);
+		expect(tmuxCalls.killSession).toHaveLength(0);
+
+		const { store } = openSessionStore(overstoryDir);
+		const updated = store.getByName("my-builder");
+		store.close();
+		expect(updated?.state).toBe("completed");
+	});
+
 	test("stops a working agent (kills tmux, marks completed)", async () => {
 		const session = makeAgentSession({ state: "working" });
 		saveSessionsToDb([session]);
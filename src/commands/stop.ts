@@ -3,7 +3,7 @@
  *
  * Explicitly terminates a running agent by:
  * 1. Looking up the agent session by name
- * 2. Killing its tmux session (if alive)
+ * 2. Killing its tmux session or headless agent host (if alive)
  * 3. Marking it as completed in the SessionStore
  * 4. Optionally removing its worktree (--clean-worktree)
  */
@@ -13,7 +13,15 @@ import { loadConfig } from "../config.ts";
 import { AgentError, ValidationError } from "../errors.ts";
 import { jsonOutput } from "../json.ts";
 import { printSuccess, printWarning } from "../logging/color.ts";
+import {
+	createSessionControl,
+	type HeadlessControl,
+	headlessControl,
+	type SessionControl,
+} from "../runtimes/headless.ts";
 import { openSessionStore } from "../sessions/compat.ts";
+import type { SessionStore } from "../sessions/store.ts";
+import type { AgentSession } from "../types.ts";
 import { removeWorktree } from "../worktree/manager.ts";
 import { isSessionAlive, killSession } from "../worktree/tmux.ts";
 
@@ -29,6 +37,7 @@ export interface StopDeps {
 		isSessionAlive: (name: string) => Promise<boolean>;
 		killSession: (name: string) => Promise<void>;
 	};
+	_headless?: HeadlessControl;
 	_worktree?: {
 		remove: (
 			repoRoot: string,
@@ -38,12 +47,34 @@ export interface StopDeps {
 	};
 }
 
+/**
+ * Stop a single agent session: kill its tmux session or headless agent host
+ * (if alive) and mark it completed. Shared by `ov stop` and the watchdog's
+ * budget enforcement.
+ *
+ * @returns Whether a live session was killed
+ */
+export async function stopAgentSession(
+	store: Pick<SessionStore, "updateState" | "updateLastActivity">,
+	session: AgentSession,
+	control: SessionControl,
+): Promise<boolean> {
+	const alive = await control.isAlive(session);
+	if (alive) {
+		await control.kill(session);
+	}
+
+	store.updateState(session.agentName, "completed");
+	store.updateLastActivity(session.agentName);
+	return alive;
+}
+
 /**
  * Entry point for `ov stop <agent-name>`.
  *
  * @param agentName - Name of the agent to stop
  * @param opts - Command options
- * @param deps - Optional dependency injection for testing (tmux, worktree)
+ * @param deps - Optional dependency injection for testing (tmux, headless, worktree)
  */
 export async function stopCommand(
 	agentName: string,
@@ -61,7 +92,10 @@ export async function stopCommand(
 	const force = opts.force ?? false;
 	const cleanWorktree = opts.cleanWorktree ?? false;
 
-	const tmux = deps._tmux ?? { isSessionAlive, killSession };
+	const control = createSessionControl(
+		deps._tmux ?? { isSessionAlive, killSession },
+		deps._headless ?? headlessControl,
+	);
 	const worktree = deps._worktree ?? { remove: removeWorktree };
 
 	const cwd = process.cwd();
@@ -84,15 +118,8 @@ export async function stopCommand(
 			throw new AgentError(`Agent "${agentName}" is already zombie (dead)`, { agentName });
 		}
 
-		// Kill tmux session if alive
-		const alive = await tmux.isSessionAlive(session.tmuxSession);
-		if (alive) {
-			await tmux.killSession(session.tmuxSession);
-		}
-
-		// Mark session as completed
-		store.updateState(agentName, "completed");
-		store.updateLastActivity(agentName);
+		// Kill the session if alive and mark it completed
+		const alive = await stopAgentSession(store, session, control);
 
 		// Optionally remove worktree (best-effort, non-fatal)
 		let worktreeRemoved = false;
@@ -121,7 +148,13 @@ export async function stopCommand(
 			});
 		} else {
 			printSuccess("Agent stopped", agentName);
-			if (alive) {
+			if (session.rpcEndpoint) {
+				process.stdout.write(
+					alive
+						? `  Agent host aborted: ${session.rpcEndpoint}\n`
+						: `  Agent host was already dead\n`,
+				);
+			} else if (alive) {
 				process.stdout.write(`  Tmux session killed: ${session.tmuxSession}\n`);
 			} else {
 				process.stdout.write(`  Tmux session was already dead\n`);
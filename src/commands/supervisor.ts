@@ -16,7 +16,7 @@ import { mkdir } from "node:fs/promises";
 import { join } from "node:path";
 import { Command } from "commander";
 import { createIdentity, loadIdentity } from "../agents/identity.ts";
-import { createManifestLoader, resolveModel } from "../agents/manifest.ts";
+import { createManifestLoader, resolveModel, resolveRuntimeName } from "../agents/manifest.ts";
 import { loadConfig } from "../config.ts";
 import { AgentError, ValidationError } from "../errors.ts";
 import { jsonOutput } from "../json.ts";
@@ -143,13 +143,14 @@ async function startSupervisor(opts: {
 		);
 		const manifest = await manifestLoader.load();
 		const resolvedModel = resolveModel(config, manifest, "supervisor", "opus");
-		const runtime = getRuntime(undefined, config);
+		const runtime = getRuntime(resolveRuntimeName(config, manifest, "supervisor"), config);
 
 		// Deploy supervisor-specific hooks to the project root's .claude/ directory.
 		await runtime.deployConfig(projectRoot, undefined, {
 			agentName: opts.name,
 			capability: "supervisor",
 			worktreePath: projectRoot,
+			policy: config.policy,
 		});
 
 		// Create supervisor identity if first run
@@ -230,6 +231,8 @@ async function startSupervisor(opts: {
 			escalationLevel: 0,
 			stalledSince: null,
 			transcriptPath: null,
+			rpcEndpoint: null,
+			runtime: runtime.id,
 		};
 
 		store.upsert(session);
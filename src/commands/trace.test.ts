@@ -553,6 +553,8 @@ describe("traceCommand", () => {
 				escalationLevel: 0,
 				stalledSince: null,
 				transcriptPath: null,
+				rpcEndpoint: null,
+				runtime: null,
 			});
 			sessionStore.close();
 
@@ -8,12 +8,16 @@
 
 import { join } from "node:path";
 import { Command } from "commander";
+import { createManifestLoader, resolveModelChain } from "../agents/manifest.ts";
 import { loadConfig } from "../config.ts";
 import { OverstoryError } from "../errors.ts";
 import { printError, printHint, printSuccess } from "../logging/color.ts";
-import type { HealthCheck } from "../types.ts";
+import type { AgentManifest, HealthCheck, ModelRef, OverstoryConfig } from "../types.ts";
+import { DEFAULT_MAIL_ACK_TIMEOUT_MS, DEFAULT_MAX_REDELIVERIES } from "../watchdog/acks.ts";
 import { startDaemon } from "../watchdog/daemon.ts";
+import type { FallbackPolicy } from "../watchdog/fallback.ts";
 import { isProcessRunning } from "../watchdog/health.ts";
+import { DEFAULT_MAX_RECOVERY_ATTEMPTS } from "../watchdog/recovery.ts";
 
 /**
  * Format a health check for display.
@@ -79,6 +83,36 @@ async function removePidFile(pidFilePath: string): Promise<void> {
 	}
 }
 
+/**
+ * Build the model fallback policy from every role whose model chain has more
+ * than one entry. Returns undefined when there are none or the manifest
+ * cannot be loaded.
+ */
+async function resolveFallbackPolicy(config: OverstoryConfig): Promise<FallbackPolicy | undefined> {
+	const root = config.project.root;
+	let manifest: AgentManifest;
+	try {
+		manifest = await createManifestLoader(
+			join(root, config.agents.manifestPath),
+			join(root, config.agents.baseDir),
+		).load();
+	} catch {
+		return undefined;
+	}
+
+	const chains: Record<string, ModelRef[]> = {};
+	for (const role of new Set([...Object.keys(manifest.agents), ...Object.keys(config.models)])) {
+		const chain = resolveModelChain(config, manifest, role, "sonnet");
+		if (chain.length > 1) {
+			chains[role] = chain;
+		}
+	}
+	if (Object.keys(chains).length === 0) {
+		return undefined;
+	}
+	return { chains, baseBranch: config.project.canonicalBranch };
+}
+
 /**
  * Resolve the path to the overstory binary for re-launching.
  * Uses `which overstory` first, then falls back to process.argv.
@@ -187,6 +221,21 @@ async function runWatch(opts: { interval?: string; background?: boolean }): Prom
 		zombieThresholdMs,
 		nudgeIntervalMs: config.watchdog.nudgeIntervalMs,
 		tier1Enabled: config.watchdog.tier1Enabled,
+		budget: config.budget,
+		recovery: config.watchdog.recovery?.enabled
+			? {
+					maxAttemptsPerTask:
+						config.watchdog.recovery.maxAttemptsPerTask ?? DEFAULT_MAX_RECOVERY_ATTEMPTS,
+					baseBranch: config.project.canonicalBranch,
+				}
+			: undefined,
+		fallback: await resolveFallbackPolicy(config),
+		mailAcks: config.watchdog.mailAcks?.enabled
+			? {
+					timeoutMs: config.watchdog.mailAcks.timeoutMs ?? DEFAULT_MAIL_ACK_TIMEOUT_MS,
+					maxRedeliveries: config.watchdog.mailAcks.maxRedeliveries ?? DEFAULT_MAX_REDELIVERIES,
+				}
+			: undefined,
 		onHealthCheck(check) {
 			const timestamp = new Date().toISOString().slice(11, 19);
 			process.stdout.write(`[${timestamp}] ${formatCheck(check)}\n`);
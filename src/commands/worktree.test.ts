@@ -80,6 +80,8 @@ describe("worktreeCommand", () => {
 			escalationLevel: 0,
 			stalledSince: null,
 			transcriptPath: null,
+			rpcEndpoint: null,
+			runtime: null,
 			...overrides,
 		};
 	}
@@ -169,6 +171,8 @@ describe("worktreeCommand", () => {
 					escalationLevel: 0,
 					stalledSince: null,
 					transcriptPath: null,
+					rpcEndpoint: null,
+					runtime: null,
 				},
 			]);
 
@@ -217,6 +221,8 @@ describe("worktreeCommand", () => {
 					escalationLevel: 0,
 					stalledSince: null,
 					transcriptPath: null,
+					rpcEndpoint: null,
+					runtime: null,
 				},
 			]);
 
@@ -312,6 +318,8 @@ describe("worktreeCommand", () => {
 					escalationLevel: 0,
 					stalledSince: null,
 					transcriptPath: null,
+					rpcEndpoint: null,
+					runtime: null,
 				},
 			]);
 
@@ -368,6 +376,8 @@ describe("worktreeCommand", () => {
 					escalationLevel: 0,
 					stalledSince: null,
 					transcriptPath: null,
+					rpcEndpoint: null,
+					runtime: null,
 				},
 			]);
 
@@ -407,6 +417,8 @@ describe("worktreeCommand", () => {
 					escalationLevel: 0,
 					stalledSince: null,
 					transcriptPath: null,
+					rpcEndpoint: null,
+					runtime: null,
 				},
 			]);
 
@@ -462,6 +474,8 @@ describe("worktreeCommand", () => {
 					escalationLevel: 0,
 					stalledSince: new Date().toISOString(),
 					transcriptPath: null,
+					rpcEndpoint: null,
+					runtime: null,
 				},
 			]);
 
@@ -624,6 +638,8 @@ describe("worktreeCommand", () => {
 					escalationLevel: 0,
 					stalledSince: null,
 					transcriptPath: null,
+					rpcEndpoint: null,
+					runtime: null,
 				},
 				{
 					id: "session-2",
@@ -643,6 +659,8 @@ describe("worktreeCommand", () => {
 					escalationLevel: 0,
 					stalledSince: null,
 					transcriptPath: null,
+					rpcEndpoint: null,
+					runtime: null,
 				},
 			]);
 
@@ -13,6 +13,7 @@ import { ValidationError } from "../errors.ts";
 import { jsonOutput } from "../json.ts";
 import { printHint, printSuccess, printWarning } from "../logging/color.ts";
 import { createMailStore } from "../mail/store.ts";
+import { createSessionControl } from "../runtimes/headless.ts";
 import { openSessionStore } from "../sessions/compat.ts";
 import type { AgentSession } from "../types.ts";
 import {
@@ -130,12 +131,13 @@ async function handleClean(
 			}
 
 			// If --all, clean everything
-			// Kill tmux session if still alive
-			if (session?.tmuxSession) {
-				const alive = await isSessionAlive(session.tmuxSession);
+			// Kill tmux session (or headless agent host) if still alive
+			if (session && (session.tmuxSession || session.rpcEndpoint)) {
+				const control = createSessionControl({ isSessionAlive, killSession });
+				const alive = await control.isAlive(session);
 				if (alive) {
 					try {
-						await killSession(session.tmuxSession);
+						await control.kill(session);
 					} catch {
 						// Best effort
 					}
@@ -218,6 +218,226 @@ watchdog:
 		expect(config.watchdog.staleThresholdMs).toBe(120000);
 	});
 
+	test("merges .overstory/pricing.yaml into config.pricing", async () => {
+		await ensureOverstoryDir();
+		await writeConfig(`
+pricing:
+  fallback: none
+  models:
+    claude-sonnet-4-6:
+      inputPerMTok: 3
+      outputPerMTok: 15
+`);
+		await Bun.write(
+			join(tempDir, ".overstory", "pricing.yaml"),
+			`models:\n  gpt-4.1:\n    inputPerMTok: 2\n    outputPerMTok: 8\n    cacheReadPerMTok: 0.5\n`,
+		);
+
+		const config = await loadConfig(tempDir);
+		expect(config.pricing?.fallback).toBe("none");
+		expect(config.pricing?.models?.["claude-sonnet-4-6"]?.outputPerMTok).toBe(15);
+		expect(config.pricing?.models?.["gpt-4.1"]).toEqual({
+			inputPerMTok: 2,
+			outputPerMTok: 8,
+			cacheReadPerMTok: 0.5,
+		});
+	});
+
+	test("rejects pricing for a provider that is not configured", async () => {
+		await ensureOverstoryDir();
+		await writeConfig(`
+pricing:
+  providers:
+    openrouter:
+      default:
+        inputPerMTok: 1
+        outputPerMTok: 1
+`);
+		await expect(loadConfig(tempDir)).rejects.toThrow(ValidationError);
+	});
+
+	test("rejects pricing entries without output price", async () => {
+		await ensureOverstoryDir();
+		await Bun.write(
+			join(tempDir, ".overstory", "pricing.yaml"),
+			`models:\n  some-model:\n    inputPerMTok: 1\n`,
+		);
+		await expect(loadConfig(tempDir)).rejects.toThrow(ValidationError);
+	});
+
+	test("loads .overstory/runtimes/*.yaml into config.runtime.adapters", async () => {
+		await ensureOverstoryDir();
+		await Bun.write(
+			join(tempDir, ".overstory", "runtimes", "aider.yaml"),
+			`instructionPath: CONVENTIONS.md
+spawn: "aider --model {model} --yes-always --read CONVENTIONS.md"
+print:
+  - aider
+  - --yes-always
+  - --message
+  - "{prompt}"
+printModelArgs:
+  - --model
+  - "{model}"
+ready:
+  patterns:
+    - '^> $'
+  dialogs:
+    - pattern: 'Add .* to .gitignore'
+      action: y
+guards: none
+`,
+		);
+
+		const config = await loadConfig(tempDir);
+		const aider = config.runtime?.adapters?.aider;
+		expect(aider?.instructionPath).toBe("CONVENTIONS.md");
+		expect(aider?.print).toEqual(["aider", "--yes-always", "--message", "{prompt}"]);
+		expect(aider?.printModelArgs).toEqual(["--model", "{model}"]);
+		expect(aider?.ready?.patterns).toEqual(["^> $"]);
+		expect(aider?.ready?.dialogs).toEqual([{ pattern: "Add .* to .gitignore", action: "y" }]);
+		// Built-in runtime settings are untouched
+		expect(config.runtime?.default).toBe("claude");
+	});
+
+	test("rejects a runtime adapter whose print command has no {prompt} element", async () => {
+		await ensureOverstoryDir();
+		await Bun.write(
+			join(tempDir, ".overstory", "runtimes", "gemini.yaml"),
+			`instructionPath: GEMINI.md\nspawn: gemini --model {model}\nprint:\n  - gemini\n`,
+		);
+		await expect(loadConfig(tempDir)).rejects.toThrow(ValidationError);
+	});
+
+	test("rejects a runtime adapter with an invalid ready regex", async () => {
+		await ensureOverstoryDir();
+		await Bun.write(
+			join(tempDir, ".overstory", "runtimes", "opencode.yaml"),
+			`instructionPath: AGENTS.md\nspawn: opencode\nprint:\n  - opencode\n  - run\n  - "{prompt}"\nready:\n  patterns:\n    - '(unclosed'\n`,
+		);
+		await expect(loadConfig(tempDir)).rejects.toThrow("valid regular expression");
+	});
+
+	test("loads .overstory/policy.yaml into config.policy", async () => {
+		await ensureOverstoryDir();
+		await Bun.write(
+			join(tempDir, ".overstory", "policy.yaml"),
+			`defaults:
+  bash:
+    allow:
+      prefixes:
+        - cargo check
+        - make lint
+  network:
+    deny:
+      - curl
+capabilities:
+  scout:
+    bash:
+      deny:
+        patterns:
+          - '\\bterraform\\s+apply\\b'
+    paths:
+      deny:
+        - .env
+        - secrets/*
+`,
+		);
+
+		const config = await loadConfig(tempDir);
+		expect(config.policy?.defaults?.bash?.allow?.prefixes).toEqual(["cargo check", "make lint"]);
+		expect(config.policy?.defaults?.network?.deny).toEqual(["curl"]);
+		expect(config.policy?.capabilities?.scout?.bash?.deny?.patterns).toEqual([
+			"\\bterraform\\s+apply\\b",
+		]);
+		expect(config.policy?.capabilities?.scout?.paths?.deny).toEqual([".env", "secrets/*"]);
+	});
+
+	test("rejects policy path globs with shell quoting characters", async () => {
+		await ensureOverstoryDir();
+		await Bun.write(
+			join(tempDir, ".overstory", "policy.yaml"),
+			`defaults:\n  paths:\n    deny:\n      - "$HOME/*"\n`,
+		);
+		await expect(loadConfig(tempDir)).rejects.toThrow("policy.defaults.paths.deny");
+	});
+
+	test("rejects an invalid policy bash pattern", async () => {
+		await ensureOverstoryDir();
+		await writeConfig(`
+policy:
+  capabilities:
+    builder:
+      bash:
+        deny:
+          patterns:
+            - '(unclosed'
+`);
+		await expect(loadConfig(tempDir)).rejects.toThrow("regular expressions");
+	});
+
+	test("parses the sandbox section", async () => {
+		await ensureOverstoryDir();
+		await writeConfig(`
+sandbox:
+  writablePaths:
+    - ~/.cache/bun
+  capabilities:
+    scout:
+      mode: read-only
+      network: false
+    builder:
+      mode: worktree
+`);
+		const config = await loadConfig(tempDir);
+		expect(config.sandbox?.writablePaths).toEqual(["~/.cache/bun"]);
+		expect(config.sandbox?.capabilities?.scout).toEqual({ mode: "read-only", network: false });
+		expect(config.sandbox?.capabilities?.builder).toEqual({ mode: "worktree" });
+	});
+
+	test("rejects an unknown sandbox mode", async () => {
+		await ensureOverstoryDir();
+		await writeConfig(`
+sandbox:
+  capabilities:
+    scout:
+      mode: strict
+`);
+		await expect(loadConfig(tempDir)).rejects.toThrow("sandbox.capabilities.scout.mode");
+	});
+
+	test("parses the egress section", async () => {
+		await ensureOverstoryDir();
+		await writeConfig(`
+egress:
+  capabilities:
+    scout:
+      mode: provider-only
+    builder:
+      mode: allowlist
+      hosts:
+        - registry.npmjs.org
+        - "*.github.com"
+`);
+		const config = await loadConfig(tempDir);
+		expect(config.egress?.capabilities?.scout).toEqual({ mode: "provider-only" });
+		expect(config.egress?.capabilities?.builder).toEqual({
+			mode: "allowlist",
+			hosts: ["registry.npmjs.org", "*.github.com"],
+		});
+	});
+
+	test("rejects an allowlist egress profile without hosts", async () => {
+		await ensureOverstoryDir();
+		await writeConfig(`
+egress:
+  capabilities:
+    builder:
+      mode: allowlist
+`);
+		await expect(loadConfig(tempDir)).rejects.toThrow("egress.capabilities.builder.hosts");
+	});
+
 	test("parses providers section from config.yaml", async () => {
 		await ensureOverstoryDir();
 		await writeConfig(`
@@ -396,6 +616,18 @@ seeds:
 		expect(config.taskTracker.enabled).toBe(true);
 	});
 
+	test("accepts the files taskTracker backend", async () => {
+		await ensureOverstoryDir();
+		await writeConfig(`
+taskTracker:
+  backend: files
+  enabled: true
+`);
+
+		const config = await loadConfig(tempDir);
+		expect(config.taskTracker.backend).toBe("files");
+	});
+
 	test("taskTracker: key takes precedence over legacy keys", async () => {
 		await ensureOverstoryDir();
 		await writeConfig(`
@@ -540,6 +772,188 @@ taskTracker:
 		await expect(loadConfig(tempDir)).rejects.toThrow(ValidationError);
 	});
 
+	test("loads budget limits", async () => {
+		await writeConfig(`
+budget:
+  perAgent:
+    softUsd: 2.5
+    hardUsd: 5
+  perCapability:
+    scout:
+      hardUsd: 1
+  perDay:
+    hardUsd: 100
+`);
+		const config = await loadConfig(tempDir);
+		expect(config.budget?.perAgent).toEqual({ softUsd: 2.5, hardUsd: 5 });
+		expect(config.budget?.perCapability?.scout?.hardUsd).toBe(1);
+		expect(config.budget?.perDay?.hardUsd).toBe(100);
+	});
+
+	test("rejects budget softUsd greater than hardUsd", async () => {
+		await writeConfig(`
+budget:
+  perRun:
+    softUsd: 20
+    hardUsd: 10
+`);
+		await expect(loadConfig(tempDir)).rejects.toThrow(ValidationError);
+	});
+
+	test("rejects negative budget limits", async () => {
+		await writeConfig(`
+budget:
+  perCapability:
+    builder:
+      hardUsd: -1
+`);
+		await expect(loadConfig(tempDir)).rejects.toThrow(ValidationError);
+	});
+
+	test("loads watchdog recovery settings", async () => {
+		await writeConfig(`
+watchdog:
+  recovery:
+    enabled: true
+    maxAttemptsPerTask: 3
+`);
+		const config = await loadConfig(tempDir);
+		expect(config.watchdog.recovery).toEqual({ enabled: true, maxAttemptsPerTask: 3 });
+		expect(config.watchdog.nudgeIntervalMs).toBe(60_000);
+	});
+
+	test("rejects a fractional watchdog.recovery.maxAttemptsPerTask", async () => {
+		await writeConfig(`
+watchdog:
+  recovery:
+    enabled: true
+    maxAttemptsPerTask: 1.5
+`);
+		await expect(loadConfig(tempDir)).rejects.toThrow(ValidationError);
+	});
+
+	test("loads watchdog mail ack settings and rejects a negative maxRedeliveries", async () => {
+		await writeConfig(`
+watchdog:
+  mailAcks:
+    enabled: true
+    timeoutMs: 120000
+`);
+		const config = await loadConfig(tempDir);
+		expect(config.watchdog.mailAcks).toEqual({ enabled: true, timeoutMs: 120_000 });
+
+		await writeConfig(`
+watchdog:
+  mailAcks:
+    enabled: true
+    maxRedeliveries: -1
+`);
+		await expect(loadConfig(tempDir)).rejects.toThrow(ValidationError);
+	});
+
+	test("loads custom mail protocol schemas and rejects bad field types", async () => {
+		await writeConfig(`
+mail:
+  protocols:
+    deploy_done:
+      v1:
+        url: string
+        environment: staging|production
+        artifacts: string[]
+`);
+		const config = await loadConfig(tempDir);
+		expect(config.mail?.protocols?.deploy_done?.v1).toEqual({
+			url: "string",
+			environment: "staging|production",
+			artifacts: "string[]",
+		});
+
+		await writeConfig(`
+mail:
+  protocols:
+    deploy_done:
+      v1:
+        url: strng
+`);
+		await expect(loadConfig(tempDir)).rejects.toThrow("mail.protocols.deploy_done.v1.url");
+
+		await writeConfig(`
+mail:
+  protocols:
+    worker_done:
+      v1:
+        taskId: string
+`);
+		await expect(loadConfig(tempDir)).rejects.toThrow(ValidationError);
+	});
+
+	test("loads named mail groups and rejects built-in or malformed names", async () => {
+		await writeConfig(`
+mail:
+  groups:
+    auth-team:
+      - "@group:group-Ab12cd34"
+      - reviewer-1
+`);
+		const config = await loadConfig(tempDir);
+		expect(config.mail?.groups).toEqual({ "auth-team": ["@group:group-Ab12cd34", "reviewer-1"] });
+
+		await writeConfig(`
+mail:
+  groups:
+    builders:
+      - builder-1
+`);
+		await expect(loadConfig(tempDir)).rejects.toThrow("@builders is a built-in group");
+
+		await writeConfig(`
+mail:
+  groups:
+    Auth:
+      - builder-1
+`);
+		await expect(loadConfig(tempDir)).rejects.toThrow("mail.groups.Auth");
+	});
+
+	test("loads the mail bridge and rejects a non-http webhook or unknown priority", async () => {
+		await writeConfig(`
+mail:
+  bridge:
+    webhookUrl: https://hooks.example.com/overstory
+    types:
+      - escalation
+      - question
+    recipients:
+      - orchestrator
+    secretEnv: OVERSTORY_BRIDGE_SECRET
+    replyPort: 8425
+`);
+		const config = await loadConfig(tempDir);
+		expect(config.mail?.bridge).toEqual({
+			webhookUrl: "https://hooks.example.com/overstory",
+			types: ["escalation", "question"],
+			recipients: ["orchestrator"],
+			secretEnv: "OVERSTORY_BRIDGE_SECRET",
+			replyPort: 8425,
+		});
+
+		await writeConfig(`
+mail:
+  bridge:
+    webhookUrl: ftp://hooks.example.com
+`);
+		await expect(loadConfig(tempDir)).rejects.toThrow("mail.bridge.webhookUrl");
+
+		await writeConfig(`
+mail:
+  bridge:
+    webhookUrl: https://hooks.example.com
+    priorities:
+      - critical
+`);
+		await expect(loadConfig(tempDir)).rejects.toThrow("mail.bridge.priorities");
+	});
+
 	test("rejects zombieThresholdMs <= staleThresholdMs", async () => {
 		await writeConfig(`
 watchdog:
@@ -786,6 +1200,73 @@ project:
 `);
 		await expect(loadConfig(tempDir)).rejects.toThrow(ValidationError);
 	});
+
+	test("accepts runtime.headless as a boolean", async () => {
+		await writeConfig(`
+runtime:
+  default: pi
+  headless: true
+`);
+		const config = await loadConfig(tempDir);
+		expect(config.runtime?.headless).toBe(true);
+	});
+
+	test("rejects non-boolean runtime.headless", async () => {
+		await writeConfig(`
+runtime:
+  default: pi
+  headless: always
+`);
+		await expect(loadConfig(tempDir)).rejects.toThrow(ValidationError);
+	});
+
+	test("accepts a models.<role> fallback chain", async () => {
+		await writeConfig(`
+providers:
+  openrouter:
+    type: gateway
+    baseUrl: https://openrouter.ai/api/v1
+    authTokenEnv: OPENROUTER_API_KEY
+models:
+  coordinator:
+    - opus
+    - openrouter/openai/gpt-5
+`);
+		const config = await loadConfig(tempDir);
+		expect(config.models.coordinator).toEqual(["opus", "openrouter/openai/gpt-5"]);
+	});
+
+	test("rejects a models.<role> chain with an unknown provider", async () => {
+		await writeConfig(`
+models:
+  coordinator:
+    - opus
+    - nowhere/model
+`);
+		await expect(loadConfig(tempDir)).rejects.toThrow("unknown provider 'nowhere'");
+	});
+
+	test("loads runtime.capabilities as a capability → runtime map", async () => {
+		await writeConfig(`
+runtime:
+  default: claude
+  capabilities:
+    scout: codex
+    reviewer: pi
+`);
+		const config = await loadConfig(tempDir);
+		expect(config.runtime?.capabilities).toEqual({ scout: "codex", reviewer: "pi" });
+	});
+
+	test("rejects a non-string runtime.capabilities entry", async () => {
+		await writeConfig(`
+runtime:
+  default: claude
+  capabilities:
+    scout: 42
+`);
+		await expect(loadConfig(tempDir)).rejects.toThrow("runtime.capabilities.scout");
+	});
 });
 
 describe("resolveProjectRoot", () => {
@@ -1,6 +1,28 @@
+import { readdir } from "node:fs/promises";
 import { dirname, join, resolve } from "node:path";
 import { ConfigError, ValidationError } from "./errors.ts";
-import type { OverstoryConfig, QualityGate, TaskTrackerBackend } from "./types.ts";
+import { isBuiltinGroupName } from "./mail/broadcast.ts";
+import { buildPayloadSchemas } from "./mail/schemas.ts";
+import type {
+	BudgetLimit,
+	EgressConfig,
+	EgressMode,
+	GuardPolicy,
+	GuardPolicyRules,
+	MailBridgeConfig,
+	OverstoryConfig,
+	PricingEntry,
+	QualityGate,
+	RuntimeAdapterSpec,
+	SandboxConfig,
+	SandboxMode,
+	TaskTrackerBackend,
+} from "./types.ts";
+import {
+	RUNTIME_GUARD_MECHANISMS,
+	RUNTIME_TRANSCRIPT_FORMATS,
+	TASK_TRACKER_BACKENDS,
+} from "./types.ts";
 
 /**
  * Default configuration with all fields populated.
@@ -44,6 +66,8 @@ export const DEFAULT_CONFIG: OverstoryConfig = {
 	merge: {
 		aiResolveEnabled: true,
 		reimagineEnabled: false,
+		qualityGatesEnabled: false,
+		qualityGateTimeoutMs: 600_000,
 	},
 	providers: {
 		anthropic: { type: "native" },
@@ -77,6 +101,9 @@ export const DEFAULT_CONFIG: OverstoryConfig = {
 
 const CONFIG_FILENAME = "config.yaml";
 const CONFIG_LOCAL_FILENAME = "config.local.yaml";
+const PRICING_FILENAME = "pricing.yaml";
+const POLICY_FILENAME = "policy.yaml";
+const RUNTIMES_DIRNAME = "runtimes";
 const OVERSTORY_DIR = ".overstory";
 
 /**
@@ -452,6 +479,414 @@ function migrateDeprecatedTaskTrackerKeys(parsed: Record<string, unknown>): void
 	}
 }
 
+/** Validate one configured pricing entry (and its long-context tier). */
+function validatePricingEntry(field: string, entry: PricingEntry): void {
+	if (entry === null || typeof entry !== "object") {
+		throw new ValidationError(`${field} must be an object`, { field, value: entry });
+	}
+	const tiers: Array<[string, Record<string, unknown>]> = [
+		[field, entry as unknown as Record<string, unknown>],
+	];
+	if (entry.longContext !== undefined) {
+		const long = entry.longContext as unknown as Record<string, unknown>;
+		tiers.push([`${field}.longContext`, long]);
+		if (typeof long.thresholdTokens !== "number" || long.thresholdTokens <= 0) {
+			throw new ValidationError(`${field}.longContext.thresholdTokens must be a positive number`, {
+				field: `${field}.longContext.thresholdTokens`,
+				value: long.thresholdTokens,
+			});
+		}
+	}
+	for (const [tierField, tier] of tiers) {
+		for (const key of [
+			"inputPerMTok",
+			"outputPerMTok",
+			"cacheReadPerMTok",
+			"cacheCreationPerMTok",
+		]) {
+			const value = tier[key];
+			const required = key === "inputPerMTok" || key === "outputPerMTok";
+			if (value === undefined && !required) continue;
+			if (typeof value !== "number" || value < 0) {
+				throw new ValidationError(`${tierField}.${key} must be a non-negative number`, {
+					field: `${tierField}.${key}`,
+					value,
+				});
+			}
+		}
+	}
+}
+
+/** Validate the pricing section. */
+function validatePricing(config: OverstoryConfig): void {
+	const pricing = config.pricing ?? {};
+	for (const [model, entry] of Object.entries(pricing.models ?? {})) {
+		validatePricingEntry(`pricing.models.${model}`, entry);
+	}
+	for (const [provider, table] of Object.entries(pricing.providers ?? {})) {
+		if (!(provider in config.providers)) {
+			throw new ValidationError(
+				`pricing.providers.${provider} does not match a configured provider`,
+				{ field: `pricing.providers.${provider}`, value: provider },
+			);
+		}
+		for (const [model, entry] of Object.entries(table ?? {})) {
+			validatePricingEntry(`pricing.providers.${provider}.${model}`, entry);
+		}
+	}
+	const validFallbacks = ["builtin", "none"];
+	if (pricing.fallback !== undefined && !validFallbacks.includes(pricing.fallback)) {
+		throw new ValidationError(`pricing.fallback must be one of: ${validFallbacks.join(", ")}`, {
+			field: "pricing.fallback",
+			value: pricing.fallback,
+		});
+	}
+}
+
+/** Validate one declarative runtime adapter spec. */
+function validateRuntimeAdapter(name: string, spec: RuntimeAdapterSpec): void {
+	const field = `runtime.adapters.${name}`;
+	const isStringArray = (value: unknown): value is string[] =>
+		Array.isArray(value) && value.every((item) => typeof item === "string");
+	const checkRegex = (path: string, pattern: unknown): void => {
+		try {
+			if (typeof pattern !== "string") throw new Error("not a string");
+			new RegExp(pattern);
+		} catch {
+			throw new ValidationError(`${path} must be a valid regular expression`, {
+				field: path,
+				value: pattern,
+			});
+		}
+	};
+
+	if (spec === null || typeof spec !== "object") {
+		throw new ValidationError(`${field} must be an object`, { field, value: spec });
+	}
+	if (typeof spec.instructionPath !== "string" || spec.instructionPath.trim() === "") {
+		throw new ValidationError(`${field}.instructionPath must be a non-empty string`, {
+			field: `${field}.instructionPath`,
+			value: spec.instructionPath,
+		});
+	}
+	if (typeof spec.spawn !== "string" || spec.spawn.trim() === "") {
+		throw new ValidationError(`${field}.spawn must be a non-empty command template`, {
+			field: `${field}.spawn`,
+			value: spec.spawn,
+		});
+	}
+	if (!isStringArray(spec.print) || !spec.print.includes("{prompt}")) {
+		throw new ValidationError(`${field}.print must be a list of args with a "{prompt}" element`, {
+			field: `${field}.print`,
+			value: spec.print,
+		});
+	}
+	if (spec.printModelArgs !== undefined && !isStringArray(spec.printModelArgs)) {
+		throw new ValidationError(`${field}.printModelArgs must be a list of strings`, {
+			field: `${field}.printModelArgs`,
+			value: spec.printModelArgs,
+		});
+	}
+	if (spec.ready !== undefined) {
+		if (!isStringArray(spec.ready.patterns)) {
+			throw new ValidationError(`${field}.ready.patterns must be a list of regular expressions`, {
+				field: `${field}.ready.patterns`,
+				value: spec.ready.patterns,
+			});
+		}
+		spec.ready.patterns.forEach((pattern, i) => {
+			checkRegex(`${field}.ready.patterns[${i}]`, pattern);
+		});
+		for (const [i, dialog] of (spec.ready.dialogs ?? []).entries()) {
+			checkRegex(`${field}.ready.dialogs[${i}].pattern`, dialog?.pattern);
+			if (typeof dialog?.action !== "string" || dialog.action === "") {
+				throw new ValidationError(`${field}.ready.dialogs[${i}].action must be a tmux key`, {
+					field: `${field}.ready.dialogs[${i}].action`,
+					value: dialog?.action,
+				});
+			}
+		}
+	}
+	if (spec.transcript !== undefined) {
+		if (!RUNTIME_TRANSCRIPT_FORMATS.includes(spec.transcript.format)) {
+			throw new ValidationError(
+				`${field}.transcript.format must be one of: ${RUNTIME_TRANSCRIPT_FORMATS.join(", ")}`,
+				{ field: `${field}.transcript.format`, value: spec.transcript.format },
+			);
+		}
+		if (spec.transcript.format === "jsonl" && !spec.transcript.inputTokens) {
+			throw new ValidationError(`${field}.transcript.inputTokens is required for jsonl`, {
+				field: `${field}.transcript.inputTokens`,
+				value: spec.transcript.inputTokens,
+			});
+		}
+	}
+	for (const [key, value] of Object.entries(spec.env ?? {})) {
+		if (typeof value !== "string") {
+			throw new ValidationError(`${field}.env.${key} must be a string`, {
+				field: `${field}.env.${key}`,
+				value,
+			});
+		}
+	}
+	if (spec.guards !== undefined && !RUNTIME_GUARD_MECHANISMS.includes(spec.guards)) {
+		throw new ValidationError(
+			`${field}.guards must be one of: ${RUNTIME_GUARD_MECHANISMS.join(", ")}`,
+			{ field: `${field}.guards`, value: spec.guards },
+		);
+	}
+	if (spec.beaconVerification !== undefined && typeof spec.beaconVerification !== "boolean") {
+		throw new ValidationError(`${field}.beaconVerification must be a boolean`, {
+			field: `${field}.beaconVerification`,
+			value: spec.beaconVerification,
+		});
+	}
+}
+
+/** Tool names in a guard policy (also used as hook matchers). */
+const POLICY_TOOL_NAME = /^[\w-]+$/;
+/** Network command names in a guard policy. */
+const POLICY_COMMAND_NAME = /^[\w.+-]+$/;
+/** Path globs in a guard policy — compiled into shell `case` patterns, so no quoting characters. */
+const POLICY_PATH_GLOB = /^[\w./*?@+-]+$/;
+
+/** Validate the `sandbox:` section. */
+function validateSandbox(sandbox: SandboxConfig): void {
+	if (
+		sandbox.command !== undefined &&
+		(typeof sandbox.command !== "string" || sandbox.command.trim() === "")
+	) {
+		throw new ValidationError("sandbox.command must be a non-empty string", {
+			field: "sandbox.command",
+			value: sandbox.command,
+		});
+	}
+	const paths = sandbox.writablePaths;
+	if (
+		paths !== undefined &&
+		(!Array.isArray(paths) ||
+			!paths.every((p) => typeof p === "string" && (p.startsWith("/") || p.startsWith("~"))))
+	) {
+		throw new ValidationError("sandbox.writablePaths must be a list of absolute or ~/ paths", {
+			field: "sandbox.writablePaths",
+			value: paths,
+		});
+	}
+	const modes: SandboxMode[] = ["worktree", "read-only"];
+	for (const [capability, profile] of Object.entries(sandbox.capabilities ?? {})) {
+		const field = `sandbox.capabilities.${capability}`;
+		if (profile === null || typeof profile !== "object" || !modes.includes(profile.mode)) {
+			throw new ValidationError(`${field}.mode must be one of: ${modes.join(", ")}`, {
+				field: `${field}.mode`,
+				value: profile?.mode,
+			});
+		}
+		if (profile.network !== undefined && typeof profile.network !== "boolean") {
+			throw new ValidationError(`${field}.network must be a boolean`, {
+				field: `${field}.network`,
+				value: profile.network,
+			});
+		}
+	}
+}
+
+/** Validate the egress proxy config (`egress:` in config.yaml). */
+function validateEgress(egress: EgressConfig): void {
+	const modes: EgressMode[] = ["none", "provider-only", "allowlist"];
+	for (const [capability, profile] of Object.entries(egress.capabilities ?? {})) {
+		const field = `egress.capabilities.${capability}`;
+		if (profile === null || typeof profile !== "object" || !modes.includes(profile.mode)) {
+			throw new ValidationError(`${field}.mode must be one of: ${modes.join(", ")}`, {
+				field: `${field}.mode`,
+				value: profile?.mode,
+			});
+		}
+		const hosts = profile.hosts;
+		if (
+			hosts !== undefined &&
+			(!Array.isArray(hosts) ||
+				!hosts.every((h) => typeof h === "string" && /^(\*\.)?[A-Za-z0-9.:[\]-]+$/.test(h)))
+		) {
+			throw new ValidationError(
+				`${field}.hosts must be a list of host names (optionally "*.domain")`,
+				{ field: `${field}.hosts`, value: hosts },
+			);
+		}
+		if (profile.mode === "allowlist" && (hosts === undefined || hosts.length === 0)) {
+			throw new ValidationError(`${field}.hosts is required for allowlist mode`, {
+				field: `${field}.hosts`,
+				value: hosts,
+			});
+		}
+	}
+}
+
+/** Validate named broadcast groups (`mail.groups:` in config.yaml). */
+function validateMailGroups(groups: unknown): void {
+	if (groups === null || typeof groups !== "object" || Array.isArray(groups)) {
+		throw new ValidationError("mail.groups must map group names to lists of members", {
+			field: "mail.groups",
+			value: groups,
+		});
+	}
+	for (const [name, members] of Object.entries(groups)) {
+		const field = `mail.groups.${name}`;
+		if (!/^[a-z][a-z0-9_-]*$/.test(name)) {
+			throw new ValidationError(`${field}: group names must match [a-z][a-z0-9_-]* (no @ or :)`, {
+				field,
+				value: name,
+			});
+		}
+		if (isBuiltinGroupName(name)) {
+			throw new ValidationError(`${field}: @${name} is a built-in group`, { field, value: name });
+		}
+		if (
+			!Array.isArray(members) ||
+			!members.every((m) => typeof m === "string" && m.trim().length > 0)
+		) {
+			throw new ValidationError(`${field} must be a list of agent names or group addresses`, {
+				field,
+				value: members,
+			});
+		}
+	}
+}
+
+/** Validate the mail bridge (`mail.bridge:` in config.yaml). */
+function validateMailBridge(bridge: MailBridgeConfig): void {
+	let url: URL | null = null;
+	try {
+		url = new URL(bridge.webhookUrl);
+	} catch {
+		// reported below
+	}
+	if (url === null || (url.protocol !== "http:" && url.protocol !== "https:")) {
+		throw new ValidationError("mail.bridge.webhookUrl must be an http(s) URL", {
+			field: "mail.bridge.webhookUrl",
+			value: bridge.webhookUrl,
+		});
+	}
+	const priorities = ["low", "normal", "high", "urgent"];
+	const lists: Array<[string, unknown, readonly string[] | null]> = [
+		["types", bridge.types, null],
+		["priorities", bridge.priorities, priorities],
+		["recipients", bridge.recipients, null],
+	];
+	for (const [name, value, allowed] of lists) {
+		if (
+			value !== undefined &&
+			(!Array.isArray(value) ||
+				!value.every(
+					(item) => typeof item === "string" && (allowed === null || allowed.includes(item)),
+				))
+		) {
+			throw new ValidationError(
+				allowed === null
+					? `mail.bridge.${name} must be a list of strings`
+					: `mail.bridge.${name} must be a list of: ${allowed.join(", ")}`,
+				{ field: `mail.bridge.${name}`, value },
+			);
+		}
+	}
+	if (
+		bridge.secretEnv !== undefined &&
+		(typeof bridge.secretEnv !== "string" || bridge.secretEnv.trim() === "")
+	) {
+		throw new ValidationError("mail.bridge.secretEnv must be an environment variable name", {
+			field: "mail.bridge.secretEnv",
+			value: bridge.secretEnv,
+		});
+	}
+	const port = bridge.replyPort;
+	if (port !== undefined && (!Number.isInteger(port) || port < 0 || port > 65535)) {
+		throw new ValidationError("mail.bridge.replyPort must be an integer between 0 and 65535", {
+			field: "mail.bridge.replyPort",
+			value: port,
+		});
+	}
+	const interval = bridge.pollIntervalMs;
+	if (interval !== undefined && (typeof interval !== "number" || interval <= 0)) {
+		throw new ValidationError("mail.bridge.pollIntervalMs must be a positive number", {
+			field: "mail.bridge.pollIntervalMs",
+			value: interval,
+		});
+	}
+}
+
+/** Validate the guard policy (.overstory/policy.yaml or `policy:` in config.yaml). */
+function validateGuardPolicy(policy: GuardPolicy): void {
+	const sections: Array<[string, GuardPolicyRules | undefined]> = [
+		["policy.defaults", policy.defaults],
+		...Object.entries(policy.capabilities ?? {}).map(
+			([capability, rules]): [string, GuardPolicyRules | undefined] => [
+				`policy.capabilities.${capability}`,
+				rules,
+			],
+		),
+	];
+	const checkList = (
+		field: string,
+		value: unknown,
+		accepts: (item: string) => boolean,
+		expected: string,
+	): void => {
+		if (value === undefined) return;
+		if (
+			!Array.isArray(value) ||
+			!value.every((item) => typeof item === "string" && item.trim() !== "" && accepts(item))
+		) {
+			throw new ValidationError(`${field} must be a list of ${expected}`, { field, value });
+		}
+	};
+	const isRegex = (pattern: string): boolean => {
+		try {
+			new RegExp(pattern);
+			return true;
+		} catch {
+			return false;
+		}
+	};
+
+	for (const [field, rules] of sections) {
+		if (rules === undefined) continue;
+		if (rules === null || typeof rules !== "object" || Array.isArray(rules)) {
+			throw new ValidationError(`${field} must be an object`, { field, value: rules });
+		}
+		for (const kind of ["allow", "deny"] as const) {
+			checkList(
+				`${field}.tools.${kind}`,
+				rules.tools?.[kind],
+				(t) => POLICY_TOOL_NAME.test(t),
+				"tool names",
+			);
+			checkList(
+				`${field}.network.${kind}`,
+				rules.network?.[kind],
+				(c) => POLICY_COMMAND_NAME.test(c),
+				"command names",
+			);
+			checkList(
+				`${field}.paths.${kind}`,
+				rules.paths?.[kind],
+				(g) => POLICY_PATH_GLOB.test(g),
+				"path globs (letters, digits and _ . / * ? @ + -)",
+			);
+			checkList(
+				`${field}.bash.${kind}.prefixes`,
+				rules.bash?.[kind]?.prefixes,
+				() => true,
+				"command prefixes",
+			);
+			checkList(
+				`${field}.bash.${kind}.patterns`,
+				rules.bash?.[kind]?.patterns,
+				isRegex,
+				"regular expressions",
+			);
+		}
+	}
+}
+
 /**
  * Validate that a config object has the required structure and sane values.
  * Throws ValidationError on failure.
@@ -551,6 +986,131 @@ function validateConfig(config: OverstoryConfig): void {
 		});
 	}
 
+	const recovery = config.watchdog.recovery;
+	if (recovery?.maxAttemptsPerTask !== undefined) {
+		const max = recovery.maxAttemptsPerTask;
+		if (typeof max !== "number" || !Number.isInteger(max) || max < 0) {
+			throw new ValidationError(
+				"watchdog.recovery.maxAttemptsPerTask must be a non-negative integer",
+				{
+					field: "watchdog.recovery.maxAttemptsPerTask",
+					value: max,
+				},
+			);
+		}
+	}
+
+	const mailAcks = config.watchdog.mailAcks;
+	if (mailAcks?.timeoutMs !== undefined) {
+		const timeout = mailAcks.timeoutMs;
+		if (typeof timeout !== "number" || !Number.isFinite(timeout) || timeout <= 0) {
+			throw new ValidationError("watchdog.mailAcks.timeoutMs must be a positive number", {
+				field: "watchdog.mailAcks.timeoutMs",
+				value: timeout,
+			});
+		}
+	}
+	if (mailAcks?.maxRedeliveries !== undefined) {
+		const max = mailAcks.maxRedeliveries;
+		if (typeof max !== "number" || !Number.isInteger(max) || max < 0) {
+			throw new ValidationError(
+				"watchdog.mailAcks.maxRedeliveries must be a non-negative integer",
+				{
+					field: "watchdog.mailAcks.maxRedeliveries",
+					value: max,
+				},
+			);
+		}
+	}
+
+	// budget: every limit must be a non-negative number, and soft must not exceed hard
+	if (config.budget) {
+		const limits: Array<[string, BudgetLimit | undefined]> = [
+			["budget.perAgent", config.budget.perAgent],
+			["budget.perRun", config.budget.perRun],
+			["budget.perDay", config.budget.perDay],
+			...Object.entries(config.budget.perCapability ?? {}).map(
+				([cap, limit]): [string, BudgetLimit | undefined] => [`budget.perCapability.${cap}`, limit],
+			),
+		];
+		for (const [field, limit] of limits) {
+			if (limit === undefined) continue;
+			for (const key of ["softUsd", "hardUsd"] as const) {
+				const value = limit[key];
+				if (value !== undefined && (typeof value !== "number" || value < 0)) {
+					throw new ValidationError(`${field}.${key} must be a non-negative number`, {
+						field: `${field}.${key}`,
+						value,
+					});
+				}
+			}
+			if (
+				limit.softUsd !== undefined &&
+				limit.hardUsd !== undefined &&
+				limit.softUsd > limit.hardUsd
+			) {
+				throw new ValidationError(`${field}.softUsd must not exceed ${field}.hardUsd`, {
+					field: `${field}.softUsd`,
+					value: limit.softUsd,
+				});
+			}
+		}
+	}
+
+	// pricing: prices must be non-negative numbers, provider tables must name configured providers
+	if (config.pricing) {
+		validatePricing(config);
+	}
+
+	// policy: guard rule lists must hold tool names, command names, safe path globs and valid regexes
+	if (config.policy) {
+		validateGuardPolicy(config.policy);
+	}
+
+	// sandbox: known modes, boolean network flags, absolute (or ~) writable paths
+	if (config.sandbox) {
+		validateSandbox(config.sandbox);
+	}
+
+	// egress: known modes, host lists for allowlists
+	if (config.egress) {
+		validateEgress(config.egress);
+	}
+
+	// mail.protocols: custom type names, v1/v2/... version keys, parseable field types
+	if (config.mail) {
+		if (
+			config.mail.protocols !== undefined &&
+			(config.mail.protocols === null || typeof config.mail.protocols !== "object")
+		) {
+			throw new ValidationError("mail.protocols must map protocol type names to schemas", {
+				field: "mail.protocols",
+				value: config.mail.protocols,
+			});
+		}
+		buildPayloadSchemas(config.mail);
+		// mail.groups: lowercase names that don't shadow @all or capability groups
+		if (config.mail.groups !== undefined) {
+			validateMailGroups(config.mail.groups);
+		}
+		// mail.bridge: http(s) webhook, known priorities, valid reply port
+		if (config.mail.bridge !== undefined) {
+			validateMailBridge(config.mail.bridge);
+		}
+	}
+
+	// merge.qualityGateTimeoutMs must be positive
+	const gateTimeout = config.merge.qualityGateTimeoutMs;
+	if (
+		gateTimeout !== undefined &&
+		(typeof gateTimeout !== "number" || !Number.isFinite(gateTimeout) || gateTimeout <= 0)
+	) {
+		throw new ValidationError("merge.qualityGateTimeoutMs must be a positive number", {
+			field: "merge.qualityGateTimeoutMs",
+			value: gateTimeout,
+		});
+	}
+
 	// mulch.primeFormat must be one of the valid options
 	const validFormats = ["markdown", "xml", "json"] as const;
 	if (!validFormats.includes(config.mulch.primeFormat as (typeof validFormats)[number])) {
@@ -561,12 +1121,14 @@ function validateConfig(config: OverstoryConfig): void {
 	}
 
 	// taskTracker.backend must be one of the valid options
-	const validBackends = ["auto", "seeds", "beads"] as const;
-	if (!validBackends.includes(config.taskTracker.backend as (typeof validBackends)[number])) {
-		throw new ValidationError(`taskTracker.backend must be one of: ${validBackends.join(", ")}`, {
-			field: "taskTracker.backend",
-			value: config.taskTracker.backend,
-		});
+	if (!TASK_TRACKER_BACKENDS.includes(config.taskTracker.backend)) {
+		throw new ValidationError(
+			`taskTracker.backend must be one of: ${TASK_TRACKER_BACKENDS.join(", ")}`,
+			{
+				field: "taskTracker.backend",
+				value: config.taskTracker.backend,
+			},
+		);
 	}
 
 	// providers: validate each entry
@@ -643,6 +1205,29 @@ function validateConfig(config: OverstoryConfig): void {
 		);
 	}
 
+	// runtime.headless must be a boolean if present
+	if (config.runtime?.headless !== undefined && typeof config.runtime.headless !== "boolean") {
+		throw new ValidationError("runtime.headless must be a boolean", {
+			field: "runtime.headless",
+			value: config.runtime.headless,
+		});
+	}
+
+	// runtime.adapters: declarative specs need commands, an instruction file and valid regexes
+	for (const [name, spec] of Object.entries(config.runtime?.adapters ?? {})) {
+		validateRuntimeAdapter(name, spec);
+	}
+
+	// runtime.capabilities: capability → runtime name (names are checked by ov doctor)
+	for (const [capability, runtimeName] of Object.entries(config.runtime?.capabilities ?? {})) {
+		if (typeof runtimeName !== "string" || runtimeName.trim() === "") {
+			throw new ValidationError(`runtime.capabilities.${capability} must be a runtime name`, {
+				field: `runtime.capabilities.${capability}`,
+				value: runtimeName,
+			});
+		}
+	}
+
 	// runtime.pi: validate provider and modelMap if present
 	if (config.runtime?.pi) {
 		const pi = config.runtime.pi;
@@ -664,39 +1249,62 @@ function validateConfig(config: OverstoryConfig): void {
 		}
 	}
 
-	// models: validate each value — accepts aliases and provider-prefixed refs
+	// models: validate each value (or each entry of a fallback chain) — accepts
+	// aliases and provider-prefixed refs
+	for (const [role, chain] of Object.entries(config.models)) {
+		if (chain === undefined) continue;
+		if (Array.isArray(chain) && chain.length === 0) {
+			throw new ValidationError(`models.${role} fallback chain must not be empty`, {
+				field: `models.${role}`,
+				value: chain,
+			});
+		}
+		for (const model of Array.isArray(chain) ? chain : [chain]) {
+			validateModelRef(config, role, model);
+		}
+	}
+}
+
+/**
+ * Validate one entry of models.<role>: an alias or a provider-prefixed ref
+ * naming a configured provider.
+ */
+function validateModelRef(config: OverstoryConfig, role: string, model: unknown): void {
 	const validAliases = ["sonnet", "opus", "haiku"];
 	const toolHeavyRoles = ["builder", "scout"];
-	for (const [role, model] of Object.entries(config.models)) {
-		if (model === undefined) continue;
-		if (model.includes("/")) {
-			// Provider-prefixed ref: validate the provider name exists
-			const providerName = model.split("/")[0] ?? "";
-			if (!providerName || !(providerName in config.providers)) {
-				throw new ValidationError(
-					`models.${role} references unknown provider '${providerName}'. Add it to the providers section first.`,
-					{
-						field: `models.${role}`,
-						value: model,
-					},
-				);
-			}
-			if (toolHeavyRoles.includes(role)) {
-				process.stderr.write(
-					`[overstory] WARNING: models.${role} uses non-Anthropic model '${model}'. Tool-use compatibility cannot be verified at config time.\n`,
-				);
-			}
-		} else {
-			// Must be a valid alias
-			if (!validAliases.includes(model)) {
-				throw new ValidationError(
-					`models.${role} must be a valid alias (${validAliases.join(", ")}) or a provider-prefixed ref (e.g., openrouter/openai/gpt-4)`,
-					{
-						field: `models.${role}`,
-						value: model,
-					},
-				);
-			}
+	if (typeof model !== "string") {
+		throw new ValidationError(`models.${role} entries must be strings`, {
+			field: `models.${role}`,
+			value: model,
+		});
+	}
+	if (model.includes("/")) {
+		// Provider-prefixed ref: validate the provider name exists
+		const providerName = model.split("/")[0] ?? "";
+		if (!providerName || !(providerName in config.providers)) {
+			throw new ValidationError(
+				`models.${role} references unknown provider '${providerName}'. Add it to the providers section first.`,
+				{
+					field: `models.${role}`,
+					value: model,
+				},
+			);
+		}
+		if (toolHeavyRoles.includes(role)) {
+			process.stderr.write(
+				`[overstory] WARNING: models.${role} uses non-Anthropic model '${model}'. Tool-use compatibility cannot be verified at config time.\n`,
+			);
+		}
+	} else {
+		// Must be a valid alias
+		if (!validAliases.includes(model)) {
+			throw new ValidationError(
+				`models.${role} must be a valid alias (${validAliases.join(", ")}) or a provider-prefixed ref (e.g., openrouter/openai/gpt-4)`,
+				{
+					field: `models.${role}`,
+					value: model,
+				},
+			);
 		}
 	}
 }
@@ -799,6 +1407,119 @@ export async function resolveProjectRoot(startDir: string): Promise<string> {
 	return startDir;
 }
 
+/**
+ * Merge .overstory/pricing.yaml (if present) into config.pricing.
+ *
+ * The file holds the `pricing` section itself (`models:`, `providers:`,
+ * `fallback:` at the top level) so price tables can be maintained separately
+ * from config.yaml. Values in pricing.yaml override config.yaml.
+ */
+async function mergePricingFile(
+	resolvedRoot: string,
+	config: OverstoryConfig,
+): Promise<OverstoryConfig> {
+	const pricingPath = join(resolvedRoot, OVERSTORY_DIR, PRICING_FILENAME);
+	const pricingFile = Bun.file(pricingPath);
+
+	if (!(await pricingFile.exists())) {
+		return config;
+	}
+
+	let parsed: Record<string, unknown>;
+	try {
+		parsed = parseYaml(await pricingFile.text());
+	} catch (err) {
+		throw new ConfigError(`Failed to parse YAML in pricing file: ${pricingPath}`, {
+			configPath: pricingPath,
+			cause: err instanceof Error ? err : undefined,
+		});
+	}
+
+	config.pricing = deepMerge(
+		(config.pricing ?? {}) as Record<string, unknown>,
+		parsed,
+	) as OverstoryConfig["pricing"];
+	return config;
+}
+
+/**
+ * Merge .overstory/policy.yaml into config.policy.
+ *
+ * The file holds the `policy` section itself (`defaults:` and `capabilities:`
+ * at the top level) so guard rules can be reviewed separately from
+ * config.yaml. Values in policy.yaml override config.yaml.
+ */
+async function mergePolicyFile(
+	resolvedRoot: string,
+	config: OverstoryConfig,
+): Promise<OverstoryConfig> {
+	const policyPath = join(resolvedRoot, OVERSTORY_DIR, POLICY_FILENAME);
+	const policyFile = Bun.file(policyPath);
+
+	if (!(await policyFile.exists())) {
+		return config;
+	}
+
+	let parsed: Record<string, unknown>;
+	try {
+		parsed = parseYaml(await policyFile.text());
+	} catch (err) {
+		throw new ConfigError(`Failed to parse YAML in policy file: ${policyPath}`, {
+			configPath: policyPath,
+			cause: err instanceof Error ? err : undefined,
+		});
+	}
+
+	config.policy = deepMerge(
+		(config.policy ?? {}) as Record<string, unknown>,
+		parsed,
+	) as GuardPolicy;
+	return config;
+}
+
+/**
+ * Merge declarative runtime adapters from .overstory/runtimes/*.yaml into
+ * config.runtime.adapters, keyed by file name (opencode.yaml → "opencode").
+ * A file replaces an adapter of the same name from config.yaml.
+ */
+async function mergeRuntimeAdapterFiles(
+	resolvedRoot: string,
+	config: OverstoryConfig,
+): Promise<OverstoryConfig> {
+	const runtimesDir = join(resolvedRoot, OVERSTORY_DIR, RUNTIMES_DIRNAME);
+
+	let entries: string[];
+	try {
+		entries = await readdir(runtimesDir);
+	} catch {
+		// No runtimes directory
+		return config;
+	}
+
+	for (const entry of entries.sort()) {
+		const match = /^(.+)\.ya?ml$/.exec(entry);
+		if (!match?.[1]) continue;
+		const adapterPath = join(runtimesDir, entry);
+
+		let parsed: Record<string, unknown>;
+		try {
+			parsed = parseYaml(await Bun.file(adapterPath).text());
+		} catch (err) {
+			throw new ConfigError(`Failed to parse YAML in runtime adapter: ${adapterPath}`, {
+				configPath: adapterPath,
+				cause: err instanceof Error ? err : undefined,
+			});
+		}
+
+		config.runtime ??= { default: "claude" };
+		config.runtime.adapters = {
+			...config.runtime.adapters,
+			[match[1]]: parsed as unknown as RuntimeAdapterSpec,
+		};
+	}
+	return config;
+}
+
 /**
  * Load the overstory configuration for a project.
  *
@@ -830,6 +1551,9 @@ export async function loadConfig(projectRoot: string): Promise<OverstoryConfig>
 	if (!exists) {
 		// No config file — use defaults, but still check for local overrides
 		let config = defaults;
+		config = await mergePricingFile(resolvedRoot, config);
+		config = await mergePolicyFile(resolvedRoot, config);
+		config = await mergeRuntimeAdapterFiles(resolvedRoot, config);
 		config = await mergeLocalConfig(resolvedRoot, config);
 		config.project.root = resolvedRoot;
 		validateConfig(config);
@@ -868,7 +1592,11 @@ export async function loadConfig(projectRoot: string): Promise<OverstoryConfig>
 		parsed,
 	) as unknown as OverstoryConfig;
 
-	// Check for config.local.yaml (local overrides, gitignored)
+	// Merge .overstory/pricing.yaml, policy.yaml and runtimes/*.yaml, then
+	// config.local.yaml (local overrides, gitignored)
+	merged = await mergePricingFile(resolvedRoot, merged);
+	merged = await mergePolicyFile(resolvedRoot, merged);
+	merged = await mergeRuntimeAdapterFiles(resolvedRoot, merged);
 	merged = await mergeLocalConfig(resolvedRoot, merged);
 
 	// Ensure project.root is always set to the resolved project root
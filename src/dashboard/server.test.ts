@@ -0,0 +1,366 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { DashboardData } from "../commands/dashboard.ts";
+import { createEventStore } from "../events/store.ts";
+import { createMailStore, type MailStore } from "../mail/store.ts";
+import { cleanupTempDir } from "../test-helpers.ts";
+import type { AgentSession, EventStore } from "../types.ts";
+import {
+	type DashboardServer,
+	type DashboardServerOptions,
+	isAllowedHost,
+	selectSection,
+	startDashboardServer,
+	toDashboardJson,
+} from "./server.ts";
+
+function makeAgent(agentName: string): AgentSession {
+	return {
+		id: `session-${agentName}`,
+		agentName,
+		capability: "builder",
+		worktreePath: `/tmp/${agentName}`,
+		branchName: `overstory/${agentName}/task-1`,
+		taskId: "task-1",
+		tmuxSession: `overstory-${agentName}`,
+		state: "working",
+		pid: null,
+		parentAgent: "lead-1",
+		depth: 1,
+		runId: null,
+		startedAt: new Date().toISOString(),
+		lastActivity: new Date().toISOString(),
+		escalationLevel: 0,
+		stalledSince: null,
+		transcriptPath: null,
+		rpcEndpoint: null,
+		runtime: null,
+	};
+}
+
+function makeData(): DashboardData {
+	return {
+		currentRunId: null,
+		status: {
+			currentRunId: null,
+			agents: [makeAgent("builder-1")],
+			worktrees: [],
+			tmuxSessions: [],
+			unreadMailCount: 0,
+			mergeQueueCount: 1,
+			recentMetricsCount: 0,
+		},
+		recentMail: [],
+		mergeQueue: [
+			{ branchName: "overstory/builder-1/task-1", agentName: "builder-1", status: "pending" },
+		],
+		metrics: { totalSessions: 2, avgDuration: 1000, byCapability: { builder: 2 } },
+		costs: { totalUsd: 1.5, byAgent: { "builder-1": 1.5 } },
+		tasks: [{ id: "task-1", title: "Build it", status: "in_progress", priority: 2, type: "task" }],
+		recentEvents: [],
+		feedColorMap: new Map([["builder-1", (s: string) => s]]),
+	};
+}
+
+function makeEvent(agentName: string) {
+	return {
+		agentName,
+		eventType: "tool_start" as const,
+		level: "info" as const,
+		runId: null,
+		sessionId: null,
+		toolName: "Bash",
+		toolArgs: null,
+		toolDurationMs: null,
+		data: null,
+	};
+}
+
+/** Read SSE chunks until the accumulated text contains `needle` (or the deadline passes). */
+async function readUntil(res: Response, needle: string, timeoutMs = 3000): Promise<string> {
+	const body = res.body;
+	if (!body) throw new Error("response has no body");
+	const reader = body.getReader();
+	const decoder = new TextDecoder();
+	let text = "";
+	const deadline = Date.now() + timeoutMs;
+	try {
+		while (!text.includes(needle) && Date.now() < deadline) {
+			const result = await Promise.race([
+				reader.read(),
+				Bun.sleep(Math.max(0, deadline - Date.now())).then(() => null),
+			]);
+			if (result === null || result.done) break;
+			text += decoder.decode(result.value, { stream: true });
+		}
+	} finally {
+		await reader.cancel();
+	}
+	return text;
+}
+
+describe("toDashboardJson", () => {
+	test("drops the TUI feed color map", () => {
+		const json = toDashboardJson(makeData());
+		expect("feedColorMap" in json).toBe(false);
+		expect(json.costs.totalUsd).toBe(1.5);
+	});
+});
+
+describe("selectSection", () => {
+	test("maps section names to snapshot fields", () => {
+		const json = toDashboardJson(makeData());
+		expect(selectSection(json, "agents")).toEqual(json.status.agents);
+		expect(selectSection(json, "merge-queue")).toEqual(json.mergeQueue);
+		expect(selectSection(json, "costs")).toEqual(json.costs);
+		expect(selectSection(json, "nope")).toBeUndefined();
+	});
+});
+
+describe("startDashboardServer", () => {
+	let tempDir: string;
+	let eventStore: EventStore;
+	let mailStore: MailStore;
+	let server: DashboardServer | null;
+
+	beforeEach(async () => {
+		tempDir = await mkdtemp(join(tmpdir(), "dashboard-server-test-"));
+		eventStore = createEventStore(join(tempDir, "events.db"));
+		mailStore = createMailStore(join(tempDir, "mail.db"));
+		server = null;
+	});
+
+	afterEach(async () => {
+		server?.stop();
+		eventStore.close();
+		mailStore.close();
+		await cleanupTempDir(tempDir);
+	});
+
+	function start(overrides: Partial<DashboardServerOptions> = {}): DashboardServer {
+		server = startDashboardServer({
+			port: 0,
+			hostname: "127.0.0.1",
+			readOnly: false,
+			load: async () => makeData(),
+			eventStore,
+			mailStore,
+			version: "1.2.3",
+			eventPollMs: 20,
+			...overrides,
+		});
+		return server;
+	}
+
+	function url(path: string): string {
+		if (!server) throw new Error("server not started");
+		return new URL(path, server.url).toString();
+	}
+
+	test("serves the snapshot and its sections as JSON", async () => {
+		start();
+		const data = await (await fetch(url("/api/data"))).json();
+		expect(data.status.agents[0].agentName).toBe("builder-1");
+		expect(data.feedColorMap).toBeUndefined();
+
+		const queue = await (await fetch(url("/api/merge-queue"))).json();
+		expect(queue).toEqual([
+			{ branchName: "overstory/builder-1/task-1", agentName: "builder-1", status: "pending" },
+		]);
+
+		const info = await (await fetch(url("/api/info"))).json();
+		expect(info).toEqual({ version: "1.2.3", readOnly: false, currentRunId: null });
+	});
+
+	test("returns 404 for unknown paths", async () => {
+		start();
+		const res = await fetch(url("/api/unknown"));
+		expect(res.status).toBe(404);
+	});
+
+	test("returns 500 when the snapshot fails to load", async () => {
+		start({
+			load: async () => {
+				throw new Error("sessions.db locked");
+			},
+		});
+		const res = await fetch(url("/api/data"));
+		expect(res.status).toBe(500);
+		expect(await res.json()).toEqual({ error: "sessions.db locked" });
+	});
+
+	test("serves the single-page UI with the compose form", async () => {
+		start();
+		const res = await fetch(url("/"));
+		expect(res.headers.get("content-type")).toContain("text/html");
+		const html = await res.text();
+		expect(html).toContain("ov dashboard v1.2.3");
+		expect(html).toContain('id="compose"');
+	});
+
+	test("requires the token as a Bearer header or session cookie, never a query parameter", async () => {
+		start({ token: "s3cret" });
+		expect((await fetch(url("/api/data"))).status).toBe(401);
+		expect((await fetch(url("/api/data?token=s3cret"))).status).toBe(401);
+		const res = await fetch(url("/api/data"), { headers: { authorization: "Bearer s3cret" } });
+		expect(res.status).toBe(200);
+
+		const json = { "content-type": "application/json" };
+		const denied = await fetch(url("/api/session"), {
+			method: "POST",
+			headers: { ...json, authorization: "Bearer wrong" },
+			body: "{}",
+		});
+		expect(denied.status).toBe(401);
+		const session = await fetch(url("/api/session"), {
+			method: "POST",
+			headers: { ...json, authorization: "Bearer s3cret" },
+			body: "{}",
+		});
+		expect(session.status).toBe(204);
+		const cookie = session.headers.get("set-cookie") ?? "";
+		expect(cookie).toContain("HttpOnly");
+		expect(cookie).toContain("SameSite=Strict");
+		const withCookie = await fetch(url("/api/data"), {
+			headers: { cookie: cookie.split(";")[0] ?? "" },
+		});
+		expect(withCookie.status).toBe(200);
+
+		// The page shell loads without the token so it can ask for it.
+		expect((await fetch(url("/"))).status).toBe(200);
+	});
+
+	test("POST /api/mail rejects non-JSON and cross-origin requests", async () => {
+		start();
+		const mail = JSON.stringify({ to: "builder-1", subject: "x", body: "y", type: "dispatch" });
+		const plain = await fetch(url("/api/mail"), {
+			method: "POST",
+			headers: { "content-type": "text/plain" },
+			body: mail,
+		});
+		expect(plain.status).toBe(415);
+		const crossSite = await fetch(url("/api/mail"), {
+			method: "POST",
+			headers: { "content-type": "application/json", origin: "https://evil.example" },
+			body: mail,
+		});
+		expect(crossSite.status).toBe(403);
+		expect(mailStore.getAll()).toHaveLength(0);
+
+		const sameOrigin = await fetch(url("/api/mail"), {
+			method: "POST",
+			headers: { "content-type": "application/json", origin: new URL(url("/")).origin },
+			body: mail,
+		});
+		expect(sameOrigin.status).toBe(201);
+	});
+
+	test("rejects requests whose Host does not name the dashboard", async () => {
+		start();
+		const port = server?.port ?? 0;
+		const rebound = await fetch(url("/api/data"), { headers: { host: `evil.example:${port}` } });
+		expect(rebound.status).toBe(421);
+		const otherPort = await fetch(url("/api/data"), { headers: { host: "127.0.0.1:1" } });
+		expect(otherPort.status).toBe(421);
+		const local = await fetch(url("/api/data"), { headers: { host: `localhost:${port}` } });
+		expect(local.status).toBe(200);
+	});
+
+	test("isAllowedHost accepts IP literals, localhost and the bound host on its port", () => {
+		expect(isAllowedHost("127.0.0.1:8420", "127.0.0.1", 8420)).toBe(true);
+		expect(isAllowedHost("[::1]:8420", "::1", 8420)).toBe(true);
+		expect(isAllowedHost("192.168.1.5:8420", "0.0.0.0", 8420)).toBe(true);
+		expect(isAllowedHost("devbox:8420", "devbox", 8420)).toBe(true);
+		expect(isAllowedHost("attacker.example:8420", "0.0.0.0", 8420)).toBe(false);
+		expect(isAllowedHost("localhost", "127.0.0.1", 8420)).toBe(false);
+		expect(isAllowedHost(null, "127.0.0.1", 8420)).toBe(false);
+	});
+
+	test("POST /api/mail refuses to send as anyone but the orchestrator", async () => {
+		start();
+		const res = await fetch(url("/api/mail"), {
+			method: "POST",
+			headers: { "content-type": "application/json" },
+			body: JSON.stringify({
+				from: "builder-1",
+				to: "lead-1",
+				subject: "done",
+				body: "merged",
+				type: "worker_done",
+			}),
+		});
+		expect(res.status).toBe(400);
+		expect(((await res.json()) as { error: string }).error).toContain("from");
+		expect(mailStore.getAll()).toHaveLength(0);
+	});
+
+	test("POST /api/mail sends as the orchestrator by default", async () => {
+		start();
+		const res = await fetch(url("/api/mail"), {
+			method: "POST",
+			headers: { "content-type": "application/json" },
+			body: JSON.stringify({ to: "builder-1", subject: "Check tests", body: "Run bun test" }),
+		});
+		expect(res.status).toBe(201);
+		const { id } = (await res.json()) as { id: string };
+
+		const [message] = mailStore.getAll({ to: "builder-1" });
+		expect(message?.id).toBe(id);
+		expect(message?.from).toBe("orchestrator");
+		expect(message?.type).toBe("status");
+	});
+
+	test("POST /api/mail rejects invalid fields with 400", async () => {
+		start();
+		const res = await fetch(url("/api/mail"), {
+			method: "POST",
+			headers: { "content-type": "application/json" },
+			body: JSON.stringify({ to: "builder-1", subject: "x", body: "y", priority: "asap" }),
+		});
+		expect(res.status).toBe(400);
+		expect(((await res.json()) as { error: string }).error).toContain("priority");
+		expect(mailStore.getAll()).toHaveLength(0);
+	});
+
+	test("read-only mode rejects writes and hides the compose form", async () => {
+		start({ readOnly: true });
+		const res = await fetch(url("/api/mail"), {
+			method: "POST",
+			headers: { "content-type": "application/json" },
+			body: JSON.stringify({ to: "builder-1", subject: "x", body: "y" }),
+		});
+		expect(res.status).toBe(403);
+		expect(mailStore.getAll()).toHaveLength(0);
+
+		const html = await (await fetch(url("/"))).text();
+		expect(html).not.toContain('id="compose"');
+	});
+
+	test("streams new events over SSE", async () => {
+		eventStore.insert(makeEvent("old-agent"));
+		start();
+		const res = await fetch(url("/api/events/stream"));
+		expect(res.headers.get("content-type")).toBe("text/event-stream");
+
+		// Insert after the stream opens so only the new event is pushed.
+		setTimeout(() => eventStore.insert(makeEvent("builder-1")), 50);
+		const text = await readUntil(res, '"builder-1"');
+		expect(text).toContain("event: event");
+		expect(text).toContain('"agentName":"builder-1"');
+		expect(text).not.toContain("old-agent");
+	});
+
+	test("replays events after Last-Event-ID on reconnect", async () => {
+		const first = eventStore.insert(makeEvent("agent-a"));
+		eventStore.insert(makeEvent("agent-b"));
+		start();
+		const res = await fetch(url("/api/events/stream"), {
+			headers: { "last-event-id": String(first) },
+		});
+		const text = await readUntil(res, '"agent-b"');
+		expect(text).toContain('"agentName":"agent-b"');
+		expect(text).not.toContain('"agentName":"agent-a"');
+	});
+});
@@ -0,0 +1,459 @@
+/**
+ * HTTP mode for `ov dashboard --serve`.
+ *
+ * Serves the same DashboardData the TUI renders, over Bun.serve:
+ *
+ *   GET  /                   Single-page UI (ui.ts)
+ *   GET  /api/info           Server version, run scope, and read-only flag
+ *   GET  /api/data           Full DashboardData snapshot
+ *   GET  /api/<section>      One section: agents, mail, merge-queue, tasks, metrics, costs, events
+ *   GET  /api/events/stream  Server-Sent Events stream of new StoredEvents
+ *   POST /api/session        Exchange a Bearer token for a session cookie
+ *   POST /api/mail           Send mail to an agent (rejected in read-only mode)
+ *
+ * When a token is configured every request except the page itself must
+ * carry it, either as `Authorization: Bearer <token>` or as the HttpOnly
+ * cookie set by POST /api/session (EventSource cannot set headers). Tokens
+ * are never accepted in the URL, where they would end up in logs and
+ * browser history.
+ *
+ * POST requests must be `application/json` and, when the browser sends an
+ * Origin, come from the dashboard's own origin, so other web pages cannot
+ * send mail through a developer's browser. Every request must name the
+ * dashboard in its Host header (an IP address, localhost, or the bound host,
+ * on the server's port), so a DNS-rebinding page cannot read the API either.
+ * Mail sent from the dashboard is always from "orchestrator".
+ *
+ * The server owns no stores: the command opens them and passes a loader, so
+ * the TUI and HTTP modes share loadDashboardData().
+ */
+
+import { timingSafeEqual } from "node:crypto";
+import type { DashboardData } from "../commands/dashboard.ts";
+import { ValidationError } from "../errors.ts";
+import { createMailClient } from "../mail/client.ts";
+import type { MailStore } from "../mail/store.ts";
+import {
+	type EventStore,
+	MAIL_MESSAGE_TYPES,
+	type MailMessage,
+	type StoredEvent,
+} from "../types.ts";
+import { renderDashboardPage } from "./ui.ts";
+
+/** How often the SSE poller checks the event store for new events. */
+const DEFAULT_EVENT_POLL_MS = 1000;
+
+/** Timeline window scanned on each poll (matches EventBuffer.poll()). */
+const POLL_WINDOW_MS = 60_000;
+
+/** Comment frame sent to idle SSE clients so proxies and Bun keep the connection open. */
+const HEARTBEAT_MS = 15_000;
+
+/** How far back a reconnecting SSE client (Last-Event-ID) can replay. */
+const REPLAY_WINDOW_MS = 60 * 60 * 1000;
+
+const MAIL_PRIORITIES: readonly MailMessage["priority"][] = ["low", "normal", "high", "urgent"];
+
+/** DashboardData without the TUI-only feed color map. */
+export type DashboardJson = Omit<DashboardData, "feedColorMap">;
+
+export interface DashboardServerOptions {
+	/** Port to listen on (0 picks a free port). */
+	port: number;
+	hostname: string;
+	/** Shared secret required on every request. Null or empty disables auth. */
+	token?: string | null;
+	/** Reject every mutating request (POST /api/mail). */
+	readOnly: boolean;
+	/** Load a fresh snapshot (wraps loadDashboardData with the command's stores). */
+	load: () => Promise<DashboardData>;
+	eventStore: EventStore | null;
+	mailStore: MailStore | null;
+	version: string;
+	currentRunId?: string | null;
+	/** SSE poll interval in milliseconds. */
+	eventPollMs?: number;
+}
+
+export interface DashboardServer {
+	url: string;
+	port: number;
+	stop(): void;
+}
+
+/** Strip the TUI-only fields from a dashboard snapshot. */
+export function toDashboardJson(data: DashboardData): DashboardJson {
+	const { feedColorMap: _feedColorMap, ...json } = data;
+	return json;
+}
+
+/** Pick one section of a snapshot for /api/<section>, or undefined if unknown. */
+export function selectSection(data: DashboardJson, section: string): unknown {
+	switch (section) {
+		case "agents":
+			return data.status.agents;
+		case "mail":
+			return data.recentMail;
+		case "merge-queue":
+			return data.mergeQueue;
+		case "tasks":
+			return data.tasks;
+		case "metrics":
+			return data.metrics;
+		case "costs":
+			return data.costs;
+		case "events":
+			return data.recentEvents;
+		default:
+			return undefined;
+	}
+}
+
+/** Cookie set by POST /api/session so the page and its EventSource carry the token. */
+export const SESSION_COOKIE = "ov_dashboard_token";
+
+/** Value of a cookie in the request's Cookie header, or null. */
+function readCookie(req: Request, name: string): string | null {
+	for (const part of (req.headers.get("cookie") ?? "").split(";")) {
+		const [key, ...rest] = part.trim().split("=");
+		if (key === name) {
+			try {
+				return decodeURIComponent(rest.join("="));
+			} catch {
+				return null;
+			}
+		}
+	}
+	return null;
+}
+
+/**
+ * Check a request against the configured token. Accepts a Bearer
+ * Authorization header or the session cookie.
+ */
+export function isAuthorized(req: Request, token: string | null | undefined): boolean {
+	if (!token) return true;
+	const header = req.headers.get("authorization");
+	const presented = header?.startsWith("Bearer ")
+		? header.slice("Bearer ".length)
+		: readCookie(req, SESSION_COOKIE);
+	if (presented === null) return false;
+	const expected = Buffer.from(token);
+	const actual = Buffer.from(presented);
+	return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/** Sender of mail posted from the dashboard; the body cannot choose another. */
+export const DASHBOARD_MAIL_SENDER = "orchestrator";
+
+/**
+ * Whether a Host header names this server. DNS rebinding points an attacker's
+ * domain at the server, so only IP literals, localhost, and the bound hostname
+ * are accepted, and only on the server's own port.
+ */
+export function isAllowedHost(host: string | null, boundHostname: string, port: number): boolean {
+	if (!host) return false;
+	const match = /^(\[[0-9a-fA-F:.]+\]|[^:]+)(?::(\d+))?$/.exec(host.trim().toLowerCase());
+	if (!match?.[1]) return false;
+	const name = match[1];
+	const hostPort = match[2] !== undefined ? Number.parseInt(match[2], 10) : 80;
+	if (hostPort !== port) return false;
+	return (
+		name === "localhost" ||
+		name === boundHostname.toLowerCase() ||
+		name.startsWith("[") ||
+		/^\d{1,3}(?:\.\d{1,3}){3}$/.test(name)
+	);
+}
+
+/**
+ * Reject a mutating request that a cross-site page could have sent: the body
+ * must be declared as JSON (browsers cannot send that cross-site without a
+ * preflight) and a browser-supplied Origin must be the dashboard's own.
+ * Returns null when the request may proceed.
+ */
+export function checkMutationRequest(req: Request, url: URL): Response | null {
+	const contentType = req.headers.get("content-type") ?? "";
+	if (contentType.split(";")[0]?.trim().toLowerCase() !== "application/json") {
+		return errorResponse(415, "content-type must be application/json");
+	}
+	const origin = req.headers.get("origin");
+	if (origin !== null && origin !== url.origin) {
+		return errorResponse(403, `cross-origin request from ${origin} rejected`);
+	}
+	return null;
+}
+
+function json(body: unknown, status = 200): Response {
+	return Response.json(body, { status, headers: { "cache-control": "no-store" } });
+}
+
+function errorResponse(status: number, message: string): Response {
+	return json({ error: message }, status);
+}
+
+function formatSseEvent(event: StoredEvent): string {
+	return `id: ${event.id}\nevent: event\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * Fetch events newer than afterId from the recent timeline, oldest first.
+ * The window mirrors EventBuffer.poll() so a slow tick cannot skip events.
+ */
+function fetchEventsAfter(
+	eventStore: EventStore,
+	afterId: number,
+	windowMs: number,
+): StoredEvent[] {
+	const since = new Date(Date.now() - windowMs).toISOString();
+	return eventStore.getTimeline({ since, limit: 1000 }).filter((e) => e.id > afterId);
+}
+
+/** Validate and send a POST /api/mail body. Returns the new message ID. */
+function sendMail(mailStore: MailStore, body: unknown): string {
+	if (body === null || typeof body !== "object") {
+		throw new ValidationError("request body must be a JSON object", { field: "body" });
+	}
+	const fields = body as Record<string, unknown>;
+	for (const field of ["to", "subject", "body"]) {
+		const value = fields[field];
+		if (typeof value !== "string" || value.trim().length === 0) {
+			throw new ValidationError(`${field} is required`, { field, value });
+		}
+	}
+	const type = fields.type ?? "status";
+	if (!MAIL_MESSAGE_TYPES.includes(type as MailMessage["type"])) {
+		throw new ValidationError(`type must be one of: ${MAIL_MESSAGE_TYPES.join(", ")}`, {
+			field: "type",
+			value: type,
+		});
+	}
+	const priority = fields.priority ?? "normal";
+	if (!MAIL_PRIORITIES.includes(priority as MailMessage["priority"])) {
+		throw new ValidationError(`priority must be one of: ${MAIL_PRIORITIES.join(", ")}`, {
+			field: "priority",
+			value: priority,
+		});
+	}
+	// Agents act on protocol mail by sender, so the dashboard must not impersonate one
+	if (fields.from !== undefined && fields.from !== DASHBOARD_MAIL_SENDER) {
+		throw new ValidationError(
+			`from must be "${DASHBOARD_MAIL_SENDER}" when sent from the dashboard`,
+			{
+				field: "from",
+				value: fields.from,
+			},
+		);
+	}
+
+	return createMailClient(mailStore).send({
+		from: DASHBOARD_MAIL_SENDER,
+		to: fields.to as string,
+		subject: fields.subject as string,
+		body: fields.body as string,
+		type: type as MailMessage["type"],
+		priority: priority as MailMessage["priority"],
+	});
+}
+
+/**
+ * Start the dashboard HTTP server. Call stop() to close the listener and
+ * every open event stream.
+ */
+export function startDashboardServer(options: DashboardServerOptions): DashboardServer {
+	const { token, readOnly, load, eventStore, mailStore, version } = options;
+	const eventPollMs = options.eventPollMs ?? DEFAULT_EVENT_POLL_MS;
+
+	// One shared poller fans new events out to every connected stream.
+	const subscribers = new Set<ReadableStreamDefaultController<string>>();
+	let lastSeenId = 0;
+	let lastSentAt = Date.now();
+
+	// The poller idles without subscribers, so the first stream resyncs the cursor.
+	const syncCursor = (): void => {
+		if (!eventStore) return;
+		try {
+			const recent = fetchEventsAfter(eventStore, lastSeenId, POLL_WINDOW_MS);
+			lastSeenId = recent[recent.length - 1]?.id ?? lastSeenId;
+		} catch {
+			// events db unreadable — stream starts from the first new event
+		}
+	};
+
+	const broadcast = (frame: string): void => {
+		for (const controller of subscribers) {
+			try {
+				controller.enqueue(frame);
+			} catch {
+				subscribers.delete(controller);
+			}
+		}
+	};
+
+	const poller = setInterval(() => {
+		if (subscribers.size === 0) return;
+		let frame = "";
+		if (eventStore) {
+			try {
+				const events = fetchEventsAfter(eventStore, lastSeenId, POLL_WINDOW_MS);
+				for (const event of events) {
+					frame += formatSseEvent(event);
+					lastSeenId = event.id;
+				}
+			} catch {
+				// best effort
+			}
+		}
+		if (frame.length === 0 && Date.now() - lastSentAt >= HEARTBEAT_MS) {
+			frame = ": heartbeat\n\n";
+		}
+		if (frame.length > 0) {
+			broadcast(frame);
+			lastSentAt = Date.now();
+		}
+	}, eventPollMs);
+
+	const openEventStream = (req: Request, url: URL): Response => {
+		const resumeFrom = Number.parseInt(
+			req.headers.get("last-event-id") ?? url.searchParams.get("after") ?? "",
+			10,
+		);
+		let self: ReadableStreamDefaultController<string> | null = null;
+		const stream = new ReadableStream<string>({
+			start(controller) {
+				self = controller;
+				if (subscribers.size === 0) syncCursor();
+				let frame = "retry: 3000\n\n";
+				if (eventStore && !Number.isNaN(resumeFrom)) {
+					try {
+						for (const event of fetchEventsAfter(eventStore, resumeFrom, REPLAY_WINDOW_MS)) {
+							if (event.id <= lastSeenId) frame += formatSseEvent(event);
+						}
+					} catch {
+						// replay is best effort
+					}
+				}
+				controller.enqueue(frame);
+				subscribers.add(controller);
+			},
+			cancel() {
+				if (self) subscribers.delete(self);
+			},
+		});
+		return new Response(stream, {
+			headers: {
+				"content-type": "text/event-stream",
+				"cache-control": "no-store",
+				connection: "keep-alive",
+			},
+		});
+	};
+
+	const server = Bun.serve({
+		port: options.port,
+		hostname: options.hostname,
+		// SSE connections are kept alive by heartbeats, not by the idle timer.
+		idleTimeout: 0,
+		async fetch(req, srv) {
+			if (!isAllowedHost(req.headers.get("host"), options.hostname, srv.port ?? options.port)) {
+				return errorResponse(421, "unexpected Host header");
+			}
+
+			const url = new URL(req.url);
+			const isRead = req.method === "GET" || req.method === "HEAD";
+
+			// The page holds no agent data; it asks for the token when the API answers 401.
+			if (url.pathname === "/" && isRead) {
+				return new Response(renderDashboardPage({ version, readOnly }), {
+					headers: { "content-type": "text/html; charset=utf-8" },
+				});
+			}
+
+			if (!isRead) {
+				const rejected = checkMutationRequest(req, url);
+				if (rejected) return rejected;
+			}
+
+			if (!isAuthorized(req, token)) {
+				return errorResponse(401, "missing or invalid token");
+			}
+
+			if (url.pathname === "/api/session" && req.method === "POST") {
+				const cookie = token
+					? `${SESSION_COOKIE}=${encodeURIComponent(token)}; HttpOnly; SameSite=Strict; Path=/`
+					: null;
+				return new Response(null, {
+					status: 204,
+					headers: cookie ? { "set-cookie": cookie } : {},
+				});
+			}
+
+			if (!isRead && readOnly) {
+				return errorResponse(403, "dashboard is read-only");
+			}
+
+			if (url.pathname === "/api/info" && isRead) {
+				return json({ version, readOnly, currentRunId: options.currentRunId ?? null });
+			}
+
+			if (url.pathname === "/api/events/stream" && isRead) {
+				return openEventStream(req, url);
+			}
+
+			if (url.pathname === "/api/mail" && req.method === "POST") {
+				if (!mailStore) {
+					return errorResponse(503, "mail.db not found");
+				}
+				let body: unknown;
+				try {
+					body = await req.json();
+				} catch {
+					return errorResponse(400, "request body must be valid JSON");
+				}
+				try {
+					return json({ id: sendMail(mailStore, body) }, 201);
+				} catch (err) {
+					const message = err instanceof Error ? err.message : String(err);
+					return errorResponse(err instanceof ValidationError ? 400 : 500, message);
+				}
+			}
+
+			if (url.pathname.startsWith("/api/") && isRead) {
+				const section = url.pathname.slice("/api/".length);
+				let data: DashboardJson;
+				try {
+					data = toDashboardJson(await load());
+				} catch (err) {
+					return errorResponse(500, err instanceof Error ? err.message : String(err));
+				}
+				if (section === "data") {
+					return json(data);
+				}
+				const selected = selectSection(data, section);
+				if (selected !== undefined) {
+					return json(selected);
+				}
+			}
+
+			return errorResponse(404, `not found: ${req.method} ${url.pathname}`);
+		},
+	});
+
+	return {
+		url: server.url.toString(),
+		port: server.port ?? options.port,
+		stop() {
+			clearInterval(poller);
+			for (const controller of subscribers) {
+				try {
+					controller.close();
+				} catch {
+					// already closed
+				}
+			}
+			subscribers.clear();
+			server.stop(true);
+		},
+	};
+}
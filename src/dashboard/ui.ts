@@ -0,0 +1,214 @@
+/**
+ * Single-page UI served at `/` by the dashboard server.
+ *
+ * Plain HTML + inline script, no build step and no runtime deps. The page
+ * polls /api/data for snapshots and appends /api/events/stream events to the
+ * feed. When the API answers 401 the page asks for the token and trades it
+ * for a session cookie (POST /api/session), which every later call carries.
+ */
+
+function escapeHtml(text: string): string {
+	return text
+		.replaceAll("&", "&amp;")
+		.replaceAll("<", "&lt;")
+		.replaceAll(">", "&gt;")
+		.replaceAll('"', "&quot;");
+}
+
+const STYLES = `
+:root { color-scheme: dark; --bg: #0f1115; --panel: #171a21; --line: #2a2f3a; --dim: #8a93a6; --accent: #7aa2f7; }
+* { box-sizing: border-box; }
+body { margin: 0; font: 13px/1.45 ui-monospace, SFMono-Regular, Menlo, monospace; background: var(--bg); color: #d8dee9; }
+header { display: flex; gap: 16px; align-items: baseline; padding: 12px 16px; border-bottom: 1px solid var(--line); }
+header h1 { font-size: 15px; margin: 0; color: var(--accent); }
+header .meta { color: var(--dim); }
+main { display: grid; grid-template-columns: repeat(auto-fit, minmax(420px, 1fr)); gap: 12px; padding: 12px; }
+section { background: var(--panel); border: 1px solid var(--line); border-radius: 6px; padding: 10px 12px; min-width: 0; }
+section h2 { font-size: 13px; margin: 0 0 8px; color: var(--accent); }
+table { width: 100%; border-collapse: collapse; }
+th, td { text-align: left; padding: 2px 6px; border-bottom: 1px solid var(--line); white-space: nowrap; overflow: hidden; text-overflow: ellipsis; max-width: 280px; }
+th { color: var(--dim); font-weight: normal; }
+ul.tree { list-style: none; margin: 0; padding-left: 14px; }
+ul.tree.root { padding-left: 0; }
+.dim { color: var(--dim); }
+.state-working, .status-merged, .status-closed { color: #9ece6a; }
+.state-booting, .status-pending, .status-merging, .status-in_progress { color: #e0af68; }
+.state-stalled, .state-zombie, .status-failed, .status-conflict { color: #f7768e; }
+#feed { max-height: 360px; overflow-y: auto; }
+#feed div { white-space: pre-wrap; word-break: break-all; }
+form { display: grid; gap: 6px; margin-top: 10px; }
+header form { display: flex; margin: 0; }
+[hidden] { display: none !important; }
+input, textarea, select, button { font: inherit; background: var(--bg); color: inherit; border: 1px solid var(--line); border-radius: 4px; padding: 4px 6px; }
+button { cursor: pointer; color: var(--accent); }
+`;
+
+const SCRIPT = `
+const esc = (v) => String(v ?? "").replace(/[&<>"]/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;" })[c]);
+const $ = (id) => document.getElementById(id);
+
+function duration(ms) {
+  const s = Math.max(0, Math.floor(ms / 1000));
+  if (s < 60) return s + "s";
+  if (s < 3600) return Math.floor(s / 60) + "m " + (s % 60) + "s";
+  return Math.floor(s / 3600) + "h " + Math.floor((s % 3600) / 60) + "m";
+}
+
+function table(headers, rows) {
+  if (rows.length === 0) return '<p class="dim">(none)</p>';
+  return "<table><tr>" + headers.map((h) => "<th>" + esc(h) + "</th>").join("") + "</tr>" +
+    rows.map((r) => "<tr>" + r.map((c) => "<td>" + c + "</td>").join("") + "</tr>").join("") + "</table>";
+}
+
+function renderAgents(agents) {
+  const active = agents.filter((a) => a.state !== "completed");
+  $("agents").innerHTML = table(["agent", "capability", "runtime", "state", "task", "parent", "duration"],
+    active.map((a) => [esc(a.agentName), esc(a.capability), esc(a.runtime ?? "-"), '<span class="state-' + esc(a.state) + '">' + esc(a.state) + "</span>",
+      esc(a.taskId), esc(a.parentAgent ?? "-"), duration(Date.now() - new Date(a.startedAt).getTime())]));
+}
+
+function treeNodes(items, idOf, parentOf, label) {
+  const ids = new Set(items.map(idOf));
+  const children = new Map();
+  for (const item of items) {
+    const parent = parentOf(item);
+    const key = parent && ids.has(parent) ? parent : "";
+    if (!children.has(key)) children.set(key, []);
+    children.get(key).push(item);
+  }
+  const render = (key, seen, root) => {
+    const list = children.get(key) ?? [];
+    if (list.length === 0) return "";
+    return '<ul class="tree' + (root ? " root" : "") + '">' + list.map((item) => {
+      const id = idOf(item);
+      if (seen.has(id)) return "";
+      const next = new Set(seen).add(id);
+      return "<li>" + label(item) + render(id, next, false) + "</li>";
+    }).join("") + "</ul>";
+  };
+  return render("", new Set(), true) || '<p class="dim">(none)</p>';
+}
+
+function renderTasks(tasks, agents) {
+  const byTask = new Map(agents.filter((a) => a.state !== "completed").map((a) => [a.taskId, a.agentName]));
+  $("tasks").innerHTML = treeNodes(tasks, (t) => t.id, (t) => (t.blockedBy ?? [])[0],
+    (t) => '<span class="status-' + esc(t.status) + '">' + esc(t.status) + "</span> " + esc(t.id) + " " + esc(t.title) +
+      (byTask.has(t.id) ? ' <span class="dim">@' + esc(byTask.get(t.id)) + "</span>" : ""));
+  $("hierarchy").innerHTML = treeNodes(agents.filter((a) => a.state !== "completed"), (a) => a.agentName, (a) => a.parentAgent,
+    (a) => esc(a.agentName) + ' <span class="dim">' + esc(a.capability) + "</span>");
+}
+
+function render(data) {
+  const agents = data.status.agents;
+  $("scope").textContent = data.currentRunId ? "run " + data.currentRunId : "all runs";
+  $("updated").textContent = "updated " + new Date().toLocaleTimeString();
+  renderAgents(agents);
+  renderTasks(data.tasks, agents);
+  $("merge").innerHTML = table(["branch", "agent", "status"],
+    data.mergeQueue.map((e) => [esc(e.branchName), esc(e.agentName), '<span class="status-' + esc(e.status) + '">' + esc(e.status) + "</span>"]));
+  $("mail").innerHTML = table(["from", "to", "subject", "type"],
+    data.recentMail.map((m) => [esc(m.from), esc(m.to), esc(m.subject), esc(m.type)]));
+  const costRows = Object.entries(data.costs.byAgent).sort((a, b) => b[1] - a[1]);
+  $("costs").innerHTML = "<p>Total: $" + data.costs.totalUsd.toFixed(2) + ' <span class="dim">| sessions ' +
+    data.metrics.totalSessions + " | avg " + duration(data.metrics.avgDuration) + "</span></p>" +
+    table(["agent", "cost"], costRows.map(([name, usd]) => [esc(name), "$" + usd.toFixed(2)]));
+}
+
+async function refresh() {
+  try {
+    const res = await fetch("/api/data");
+    $("login").hidden = res.status !== 401;
+    if (!res.ok) throw new Error((await res.json()).error ?? res.statusText);
+    render(await res.json());
+    $("error").textContent = "";
+  } catch (err) {
+    $("error").textContent = String(err.message ?? err);
+  }
+}
+
+function appendEvent(event) {
+  const line = document.createElement("div");
+  const time = new Date(event.createdAt).toLocaleTimeString();
+  line.textContent = time + " " + event.agentName + " " + event.eventType + (event.toolName ? " " + event.toolName : "");
+  const feed = $("feed");
+  feed.prepend(line);
+  while (feed.childElementCount > 200) feed.lastElementChild.remove();
+}
+
+let stream = null;
+function openStream() {
+  if (stream) stream.close();
+  stream = new EventSource("/api/events/stream");
+  stream.addEventListener("event", (e) => appendEvent(JSON.parse(e.data)));
+}
+openStream();
+
+$("login").addEventListener("submit", async (e) => {
+  e.preventDefault();
+  const token = new FormData(e.target).get("token");
+  const res = await fetch("/api/session", { method: "POST", headers: { authorization: "Bearer " + token, "content-type": "application/json" }, body: "{}" });
+  if (!res.ok) { $("error").textContent = "invalid token"; return; }
+  e.target.reset();
+  openStream();
+  refresh();
+});
+
+const form = $("compose");
+if (form) {
+  form.addEventListener("submit", async (e) => {
+    e.preventDefault();
+    const body = Object.fromEntries(new FormData(form));
+    const res = await fetch("/api/mail", { method: "POST", headers: { "content-type": "application/json" }, body: JSON.stringify(body) });
+    const result = await res.json();
+    $("compose-status").textContent = res.ok ? "sent " + result.id : result.error;
+    if (res.ok) { form.reset(); refresh(); }
+  });
+}
+
+refresh();
+setInterval(refresh, 2000);
+`;
+
+const COMPOSE_FORM = `
+<form id="compose">
+  <input name="to" placeholder="to (agent name)" required>
+  <input name="subject" placeholder="subject" required>
+  <textarea name="body" rows="3" placeholder="body" required></textarea>
+  <select name="priority"><option>normal</option><option>low</option><option>high</option><option>urgent</option></select>
+  <button type="submit">Send as orchestrator</button>
+  <span id="compose-status" class="dim"></span>
+</form>`;
+
+/** Render the dashboard page. The compose form is omitted in read-only mode. */
+export function renderDashboardPage(options: { version: string; readOnly: boolean }): string {
+	const mode = options.readOnly ? "read-only" : "read-write";
+	return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>ov dashboard</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<header>
+  <h1>ov dashboard v${escapeHtml(options.version)}</h1>
+  <span class="meta" id="scope"></span>
+  <span class="meta">${mode}</span>
+  <span class="meta" id="updated"></span>
+  <span class="state-zombie" id="error"></span>
+  <form id="login" hidden><input name="token" type="password" placeholder="dashboard token" required> <button type="submit">Unlock</button></form>
+</header>
+<main>
+  <section><h2>Agents</h2><div id="agents"></div></section>
+  <section><h2>Task tree</h2><div id="tasks"></div><h2>Agent hierarchy</h2><div id="hierarchy"></div></section>
+  <section><h2>Merge queue</h2><div id="merge"></div></section>
+  <section><h2>Mail</h2><div id="mail"></div>${options.readOnly ? "" : COMPOSE_FORM}</section>
+  <section><h2>Costs</h2><div id="costs"></div></section>
+  <section><h2>Feed</h2><div id="feed"></div></section>
+</main>
+<script>${SCRIPT}</script>
+</body>
+</html>
+`;
+}
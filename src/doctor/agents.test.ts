@@ -235,6 +235,45 @@ describe("checkAgents", () => {
 		expect(indexCheck?.details?.some((d) => d.includes("research"))).toBe(true);
 	});
 
+	test("validates per-capability runtime selections", async () => {
+		const manifest = {
+			version: "1.0",
+			agents: {
+				scout: {
+					file: "scout.md",
+					model: "haiku",
+					tools: ["Read"],
+					capabilities: ["explore"],
+					canSpawn: false,
+					constraints: [],
+					runtime: "codex",
+				},
+			},
+			capabilityIndex: {
+				explore: ["scout"],
+			},
+		};
+
+		await mkdir(join(overstoryDir, "agent-defs"), { recursive: true });
+		await Bun.write(join(overstoryDir, "agent-manifest.json"), JSON.stringify(manifest, null, 2));
+		await Bun.write(join(overstoryDir, "agent-defs", "scout.md"), "# Scout");
+
+		let checks = await checkAgents(mockConfig, overstoryDir);
+		expect(checks.find((c) => c.name === "Runtime selection")?.status).toBe("pass");
+
+		mockConfig.runtime = { default: "claude", capabilities: { reviewer: "pi" } };
+		checks = await checkAgents(mockConfig, overstoryDir);
+		const warnCheck = checks.find((c) => c.name === "Runtime selection");
+		expect(warnCheck?.status).toBe("warn");
+		expect(warnCheck?.details?.some((d) => d.includes("reviewer"))).toBe(true);
+
+		mockConfig.runtime = { default: "claude", capabilities: { scout: "nonexistent" } };
+		checks = await checkAgents(mockConfig, overstoryDir);
+		const failCheck = checks.find((c) => c.name === "Runtime selection");
+		expect(failCheck?.status).toBe("fail");
+		expect(failCheck?.details?.some((d) => d.includes('unknown runtime "nonexistent"'))).toBe(true);
+	});
+
 	test("passes when no identity files exist", async () => {
 		const manifest = {
 			version: "1.0",
@@ -1,6 +1,7 @@
 import { readdir, stat } from "node:fs/promises";
 import { join } from "node:path";
-import type { AgentManifest } from "../types.ts";
+import { getRuntime } from "../runtimes/registry.ts";
+import type { AgentManifest, OverstoryConfig } from "../types.ts";
 import type { DoctorCheck, DoctorCheckFn } from "./types.ts";
 
 const VALID_MODELS = new Set(["sonnet", "opus", "haiku"]);
@@ -64,10 +65,29 @@ async function loadAndValidateManifest(
 				errors.push(`Agent "${name}": "file" must be a non-empty string`);
 			}
 
-			if (typeof agentDef.model !== "string" || !VALID_MODELS.has(agentDef.model)) {
+			if (Array.isArray(agentDef.model)) {
+				// Fallback chain: aliases or provider-prefixed refs (providers are checked by ov doctor --category providers)
+				if (agentDef.model.length === 0) {
+					errors.push(`Agent "${name}": "model" fallback chain must not be empty`);
+				}
+				for (const [i, model] of agentDef.model.entries()) {
+					if (typeof model !== "string" || (!VALID_MODELS.has(model) && !model.includes("/"))) {
+						errors.push(
+							`Agent "${name}": "model[${i}]" must be sonnet, opus, haiku, or a provider-prefixed ref`,
+						);
+					}
+				}
+			} else if (typeof agentDef.model !== "string" || !VALID_MODELS.has(agentDef.model)) {
 				errors.push(`Agent "${name}": "model" must be one of: sonnet, opus, haiku`);
 			}
 
+			if (
+				agentDef.runtime !== undefined &&
+				(typeof agentDef.runtime !== "string" || agentDef.runtime.length === 0)
+			) {
+				errors.push(`Agent "${name}": "runtime" must be a non-empty string`);
+			}
+
 			if (!Array.isArray(agentDef.tools)) {
 				errors.push(`Agent "${name}": "tools" must be an array`);
 			}
@@ -103,6 +123,44 @@ async function loadAndValidateManifest(
 	}
 }
 
+/**
+ * Validate per-capability runtime selections from the manifest and
+ * config.runtime.capabilities. Unknown runtimes are errors; capability keys
+ * with no matching agent definition are warnings.
+ */
+function validateRuntimeSelection(
+	config: OverstoryConfig,
+	manifest: AgentManifest,
+): { errors: string[]; warnings: string[] } {
+	const errors: string[] = [];
+	const warnings: string[] = [];
+
+	const checkRuntime = (source: string, name: string): void => {
+		try {
+			getRuntime(name, config);
+		} catch {
+			errors.push(`${source}: unknown runtime "${name}"`);
+		}
+	};
+
+	for (const [name, def] of Object.entries(manifest.agents)) {
+		if (def.runtime) {
+			checkRuntime(`Agent "${name}"`, def.runtime);
+		}
+	}
+
+	for (const [capability, name] of Object.entries(config.runtime?.capabilities ?? {})) {
+		checkRuntime(`runtime.capabilities.${capability}`, name);
+		if (!(capability in manifest.agents)) {
+			warnings.push(
+				`runtime.capabilities.${capability}: no agent definition named "${capability}"`,
+			);
+		}
+	}
+
+	return { errors, warnings };
+}
+
 /**
  * Validate capability index bidirectional consistency.
  */
@@ -214,7 +272,7 @@ function parseIdentityYaml(text: string): {
  * Agent state checks.
  * Validates agent definitions, tmux sessions, and agent identity files.
  */
-export const checkAgents: DoctorCheckFn = async (_config, overstoryDir): Promise<DoctorCheck[]> => {
+export const checkAgents: DoctorCheckFn = async (config, overstoryDir): Promise<DoctorCheck[]> => {
 	const checks: DoctorCheck[] = [];
 
 	// Check 1: Parse agent-manifest.json
@@ -279,7 +337,28 @@ export const checkAgents: DoctorCheckFn = async (_config, overstoryDir): Promise
 		fixable: indexErrors.length > 0,
 	});
 
-	// Check 4: Validate identity files
+	// Check 4: Per-capability runtime selection
+	const runtimeSelection = validateRuntimeSelection(config, manifest);
+	const runtimeIssues = [...runtimeSelection.errors, ...runtimeSelection.warnings];
+
+	checks.push({
+		name: "Runtime selection",
+		category: "agents",
+		status:
+			runtimeSelection.errors.length > 0
+				? "fail"
+				: runtimeSelection.warnings.length > 0
+					? "warn"
+					: "pass",
+		message:
+			runtimeIssues.length === 0
+				? "All runtime selections resolve"
+				: `Found ${runtimeIssues.length} issue(s)`,
+		details: runtimeIssues.length > 0 ? runtimeIssues : undefined,
+		fixable: false,
+	});
+
+	// Check 5: Validate identity files
 	const agentsDir = join(overstoryDir, "agents");
 	const agentsDirExists = await pathExists(agentsDir);
 
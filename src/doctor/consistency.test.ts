@@ -208,6 +208,8 @@ describe("checkConsistency", () => {
 			escalationLevel: 0,
 			stalledSince: null,
 			transcriptPath: null,
+			rpcEndpoint: null,
+			runtime: null,
 		});
 		store.close();
 
@@ -245,6 +247,8 @@ describe("checkConsistency", () => {
 			escalationLevel: 0,
 			stalledSince: null,
 			transcriptPath: null,
+			rpcEndpoint: null,
+			runtime: null,
 		});
 		store.close();
 
@@ -281,6 +285,8 @@ describe("checkConsistency", () => {
 			escalationLevel: 0,
 			stalledSince: null,
 			transcriptPath: null,
+			rpcEndpoint: null,
+			runtime: null,
 		});
 		store.close();
 
@@ -318,6 +324,8 @@ describe("checkConsistency", () => {
 			escalationLevel: 0,
 			stalledSince: null,
 			transcriptPath: null,
+			rpcEndpoint: null,
+			runtime: null,
 		});
 		store.close();
 
@@ -358,6 +366,8 @@ describe("checkConsistency", () => {
 			escalationLevel: 0,
 			stalledSince: null,
 			transcriptPath: null,
+			rpcEndpoint: null,
+			runtime: null,
 		});
 		store.close();
 
@@ -432,6 +442,8 @@ describe("checkConsistency", () => {
 			escalationLevel: 0,
 			stalledSince: null,
 			transcriptPath: null,
+			rpcEndpoint: null,
+			runtime: null,
 		});
 
 		store.upsert({
@@ -452,6 +464,8 @@ describe("checkConsistency", () => {
 			escalationLevel: 0,
 			stalledSince: null,
 			transcriptPath: null,
+			rpcEndpoint: null,
+			runtime: null,
 		});
 		store.close();
 
@@ -489,6 +503,8 @@ describe("checkConsistency", () => {
 				escalationLevel: 0,
 				stalledSince: null,
 				transcriptPath: null,
+				rpcEndpoint: null,
+				runtime: null,
 			});
 		}
 
@@ -510,6 +526,8 @@ describe("checkConsistency", () => {
 			escalationLevel: 0,
 			stalledSince: null,
 			transcriptPath: null,
+			rpcEndpoint: null,
+			runtime: null,
 		});
 		store.close();
 
@@ -545,6 +563,8 @@ describe("checkConsistency", () => {
 				escalationLevel: 0,
 				stalledSince: null,
 				transcriptPath: null,
+				rpcEndpoint: null,
+				runtime: null,
 			});
 
 			store.upsert({
@@ -565,6 +585,8 @@ describe("checkConsistency", () => {
 				escalationLevel: 0,
 				stalledSince: null,
 				transcriptPath: null,
+				rpcEndpoint: null,
+				runtime: null,
 			});
 		}
 		store.close();
@@ -609,6 +631,8 @@ describe("checkConsistency", () => {
 			escalationLevel: 0,
 			stalledSince: null,
 			transcriptPath: null,
+			rpcEndpoint: null,
+			runtime: null,
 		});
 
 		store.upsert({
@@ -629,6 +653,8 @@ describe("checkConsistency", () => {
 			escalationLevel: 0,
 			stalledSince: null,
 			transcriptPath: null,
+			rpcEndpoint: null,
+			runtime: null,
 		});
 
 		// Lead-2 has builders only (bad)
@@ -650,6 +676,8 @@ describe("checkConsistency", () => {
 			escalationLevel: 0,
 			stalledSince: null,
 			transcriptPath: null,
+			rpcEndpoint: null,
+			runtime: null,
 		});
 		store.close();
 
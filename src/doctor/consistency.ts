@@ -207,8 +207,11 @@ export async function checkConsistency(
 	}
 
 	// 8. Check for SessionStore entries with missing tmux sessions
+	// (headless sessions run without tmux and are skipped)
 	const existingTmuxNames = new Set(tmuxSessions.map((s) => s.name));
-	const missingTmux = storeSessions.filter((s) => !existingTmuxNames.has(s.tmuxSession));
+	const missingTmux = storeSessions.filter(
+		(s) => s.rpcEndpoint === null && !existingTmuxNames.has(s.tmuxSession),
+	);
 
 	if (missingTmux.length > 0) {
 		checks.push({
@@ -236,4 +236,20 @@ describe("checkDependencies", () => {
 		expect(ovCheck).toBeDefined();
 		expect(ovCheck?.category).toBe("dependencies");
 	});
+
+	test("requires the sandbox wrapper only when a capability is sandboxed", async () => {
+		const unsandboxed = await checkDependencies(mockConfig, "/tmp/.overstory");
+		expect(unsandboxed.find((c) => c.name === "bwrap availability")).toBeUndefined();
+
+		const config: OverstoryConfig = {
+			...mockConfig,
+			sandbox: {
+				command: "ov-test-missing-sandbox",
+				capabilities: { scout: { mode: "read-only" } },
+			},
+		};
+		const checks = await checkDependencies(config, "/tmp/.overstory");
+		const sandboxCheck = checks.find((c) => c.name === "ov-test-missing-sandbox availability");
+		expect(sandboxCheck?.status).toBe("fail");
+	});
 });
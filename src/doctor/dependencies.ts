@@ -1,4 +1,5 @@
 import { resolveBackend, trackerCliName } from "../tracker/factory.ts";
+import { DEFAULT_SANDBOX_COMMAND } from "../worktree/sandbox.ts";
 import type { DoctorCheck, DoctorCheckFn } from "./types.ts";
 
 interface ToolSpec {
@@ -15,6 +16,7 @@ interface ToolSpec {
  * External dependency checks.
  * Validates that required CLI tools (git, bun, tmux, tracker, mulch, overstory)
  * and optional tools (cn) are available, including short alias availability.
+ * The sandbox wrapper (bwrap) is required once config.sandbox sandboxes a capability.
  */
 export const checkDependencies: DoctorCheckFn = async (
 	config,
@@ -28,12 +30,17 @@ export const checkDependencies: DoctorCheckFn = async (
 		{ name: "git", versionFlag: "--version", required: true },
 		{ name: "bun", versionFlag: "--version", required: true },
 		{ name: "tmux", versionFlag: "-V", required: true },
-		{
-			name: trackerName,
-			versionFlag: "--version",
-			required: true,
-			installHint: trackerName === "sd" ? "@os-eco/seeds-cli" : undefined,
-		},
+		// The file tracker backend is built in (`ov issue`) — no tracker CLI to check
+		...(resolvedBackend === "files"
+			? []
+			: [
+					{
+						name: trackerName,
+						versionFlag: "--version",
+						required: true,
+						installHint: trackerName === "sd" ? "@os-eco/seeds-cli" : undefined,
+					},
+				]),
 		{
 			name: "mulch",
 			versionFlag: "--version",
@@ -54,6 +61,15 @@ export const checkDependencies: DoctorCheckFn = async (
 			required: false,
 			installHint: "@os-eco/canopy-cli",
 		},
+		...(Object.keys(config.sandbox?.capabilities ?? {}).length > 0
+			? [
+					{
+						name: config.sandbox?.command ?? DEFAULT_SANDBOX_COMMAND,
+						versionFlag: "--version",
+						required: true,
+					},
+				]
+			: []),
 	];
 
 	const checks: DoctorCheck[] = [];
@@ -1,6 +1,9 @@
-import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp } from "node:fs/promises";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
+import { createMetricsStore } from "../metrics/store.ts";
+import { cleanupTempDir } from "../test-helpers.ts";
 import type { OverstoryConfig } from "../types.ts";
 import { checkProviders } from "./providers.ts";
 
@@ -370,4 +373,124 @@ describe("checkProviders", () => {
 			expect(check).toBeUndefined();
 		});
 	});
+
+	describe("model-pricing check", () => {
+		let tempDir: string;
+
+		beforeEach(async () => {
+			tempDir = await mkdtemp(join(tmpdir(), "overstory-pricing-doctor-"));
+		});
+
+		afterEach(async () => {
+			await cleanupTempDir(tempDir);
+		});
+
+		function recordSession(modelUsed: string, estimatedCostUsd: number | null): void {
+			const store = createMetricsStore(join(tempDir, "metrics.db"));
+			store.recordSession({
+				agentName: `agent-${modelUsed}`,
+				taskId: "task",
+				capability: "builder",
+				startedAt: new Date().toISOString(),
+				completedAt: null,
+				durationMs: 0,
+				exitCode: null,
+				mergeResult: null,
+				parentAgent: null,
+				inputTokens: 0,
+				outputTokens: 0,
+				cacheReadTokens: 0,
+				cacheCreationTokens: 0,
+				estimatedCostUsd,
+				modelUsed,
+				runId: null,
+				runtime: null,
+			});
+			store.close();
+		}
+
+		test("is skipped when metrics.db does not exist", async () => {
+			const checks = await checkProviders(makeConfig(), tempDir);
+			expect(checks.find((c) => c.name === "model-pricing")).toBeUndefined();
+		});
+
+		test("warns about models recorded without a price", async () => {
+			recordSession("claude-sonnet-4-6", 0.5);
+			recordSession("mystery-model", null);
+
+			const checks = await checkProviders(makeConfig(), tempDir);
+			const check = checks.find((c) => c.name === "model-pricing");
+
+			expect(check?.status).toBe("warn");
+			expect(check?.details?.[0]).toContain("mystery-model");
+		});
+
+		test("passes once the model has a configured price", async () => {
+			recordSession("mystery-model", null);
+
+			const config = makeConfig({
+				pricing: { models: { "mystery-model": { inputPerMTok: 1, outputPerMTok: 2 } } },
+			});
+			const checks = await checkProviders(config, tempDir);
+
+			expect(checks.find((c) => c.name === "model-pricing")?.status).toBe("pass");
+		});
+	});
+
+	describe("model-fallback-chains check", () => {
+		let tempDir: string;
+
+		beforeEach(async () => {
+			tempDir = await mkdtemp(join(tmpdir(), "overstory-chains-doctor-"));
+		});
+
+		afterEach(async () => {
+			await cleanupTempDir(tempDir);
+		});
+
+		test("passes when no chains are configured", async () => {
+			const checks = await checkProviders(makeConfig(), tempDir);
+			const check = checks.find((c) => c.name === "model-fallback-chains");
+			expect(check?.status).toBe("pass");
+			expect(check?.message).toContain("No model fallback chains");
+		});
+
+		test("fails when a manifest chain names an unconfigured provider", async () => {
+			await Bun.write(
+				join(tempDir, "agent-manifest.json"),
+				JSON.stringify({ agents: { builder: { model: ["sonnet", "nowhere/model-x"] } } }),
+			);
+
+			const checks = await checkProviders(makeConfig(), tempDir);
+			const check = checks.find((c) => c.name === "model-fallback-chains");
+
+			expect(check?.status).toBe("fail");
+			expect(check?.details).toEqual([
+				"agent builder: nowhere/model-x — provider 'nowhere' is not configured",
+			]);
+		});
+
+		test("passes when every model in config and manifest chains has a provider", async () => {
+			await Bun.write(
+				join(tempDir, "agent-manifest.json"),
+				JSON.stringify({ agents: { scout: { model: ["haiku", "sonnet"] } } }),
+			);
+			const config = makeConfig({
+				providers: {
+					anthropic: { type: "native" },
+					openrouter: { type: "gateway" },
+				},
+				models: { coordinator: ["opus", "openrouter/openai/gpt-5"] },
+			});
+
+			const checks = await checkProviders(config, tempDir);
+			const check = checks.find((c) => c.name === "model-fallback-chains");
+
+			expect(check?.status).toBe("pass");
+			expect(check?.details).toEqual([
+				"models.coordinator: opus → openrouter/openai/gpt-5",
+				"agent scout: haiku → sonnet",
+			]);
+		});
+	});
 });
@@ -1,18 +1,26 @@
-import type { OverstoryConfig, ProviderConfig } from "../types.ts";
+import { Database } from "bun:sqlite";
+import { existsSync } from "node:fs";
+import { join } from "node:path";
+import { toModelChain } from "../agents/manifest.ts";
+import { resolvePricing } from "../metrics/pricing.ts";
+import type { ModelRef, OverstoryConfig, ProviderConfig } from "../types.ts";
 import type { DoctorCheck, DoctorCheckFn } from "./types.ts";
 
 /** Roles that rely heavily on tool-use (function calling). */
 const TOOL_HEAVY_ROLES = new Set(["builder", "scout", "merger"]);
 
+const MODEL_ALIASES = new Set(["sonnet", "opus", "haiku"]);
+
 /**
  * Provider and multi-runtime configuration checks.
  *
  * Validates gateway provider reachability, auth tokens, model-provider references,
- * and tool-use compatibility across configured runtimes.
+ * tool-use compatibility across configured runtimes, model fallback chains, and
+ * pricing coverage of models recorded in metrics.db.
  */
 export const checkProviders: DoctorCheckFn = async (
 	config,
-	_overstoryDir,
+	overstoryDir,
 ): Promise<DoctorCheck[]> => {
 	const checks: DoctorCheck[] = [];
 
@@ -47,6 +55,15 @@ export const checkProviders: DoctorCheckFn = async (
 		checks.push(buildGatewayApiKeyReminder());
 	}
 
+	// Check 6: model-pricing — only when metrics.db exists
+	const pricingCheck = buildModelPricing(config, overstoryDir);
+	if (pricingCheck) {
+		checks.push(pricingCheck);
+	}
+
+	// Check 7: model-fallback-chains — every model in every chain has a provider
+	checks.push(await buildModelFallbackChains(config, overstoryDir));
+
 	return checks;
 };
 
@@ -150,10 +167,11 @@ function buildProviderAuthToken(name: string, provider: ProviderConfig): DoctorC
 function buildToolUseCompat(config: OverstoryConfig): DoctorCheck[] {
 	const checks: DoctorCheck[] = [];
 
-	for (const [role, model] of Object.entries(config.models)) {
+	for (const [role, chain] of Object.entries(config.models)) {
 		if (!TOOL_HEAVY_ROLES.has(role)) continue;
+		if (chain === undefined) continue;
+		const model = toModelChain(chain).find((m) => m.includes("/"));
 		if (model === undefined) continue;
-		if (!model.includes("/")) continue;
 
 		checks.push({
 			name: "tool-use-compat",
@@ -183,15 +201,18 @@ function buildToolUseCompat(config: OverstoryConfig): DoctorCheck[] {
 /**
  * Check 4: Validate that provider-prefixed model references point to configured providers.
  *
- * For each config.models entry containing '/' (provider-qualified), extracts the
- * provider name and verifies it exists in config.providers. Emits one check per
- * provider-prefixed model, or a single pass if no such models exist.
+ * For each config.models entry (or fallback chain entry) containing '/'
+ * (provider-qualified), extracts the provider name and verifies it exists in
+ * config.providers. Emits one check per provider-prefixed model, or a single
+ * pass if no such models exist.
  */
 function buildModelProviderRefs(config: OverstoryConfig): DoctorCheck[] {
 	const checks: DoctorCheck[] = [];
 
-	for (const [role, model] of Object.entries(config.models)) {
-		if (model === undefined) continue;
+	const refs = Object.entries(config.models).flatMap(([role, chain]) =>
+		chain === undefined ? [] : toModelChain(chain).map((model) => [role, model] as const),
+	);
+	for (const [role, model] of refs) {
 		if (!model.includes("/")) continue;
 
 		const providerName = model.split("/")[0];
@@ -248,3 +269,145 @@ function buildGatewayApiKeyReminder(): DoctorCheck {
 			"Gateway providers configured — agents using gateway routes will have ANTHROPIC_API_KEY set to empty string. Direct Anthropic API calls require a separate key.",
 	};
 }
+
+/**
+ * Check 6: flags models recorded in metrics.db whose sessions have no cost
+ * because no price matched. Returns null when metrics.db does not exist.
+ */
+function buildModelPricing(config: OverstoryConfig, overstoryDir: string): DoctorCheck | null {
+	const dbPath = join(overstoryDir, "metrics.db");
+	if (!existsSync(dbPath)) {
+		return null;
+	}
+
+	let rows: Array<{ model_used: string; sessions: number }>;
+	try {
+		const db = new Database(dbPath, { readonly: true });
+		try {
+			rows = db
+				.prepare(
+					`SELECT model_used, COUNT(*) AS sessions FROM sessions
+					 WHERE model_used IS NOT NULL AND estimated_cost_usd IS NULL
+					 GROUP BY model_used ORDER BY model_used`,
+				)
+				.all() as Array<{ model_used: string; sessions: number }>;
+		} finally {
+			db.close();
+		}
+	} catch {
+		// Schema problems are reported by the databases check
+		return null;
+	}
+
+	const stillUnpriced = rows.filter((r) => resolvePricing(r.model_used, config.pricing) === null);
+	if (stillUnpriced.length === 0) {
+		return {
+			name: "model-pricing",
+			category: "providers",
+			status: "pass",
+			message:
+				rows.length === 0
+					? "All recorded sessions have a price"
+					: "All recorded models now have a price (older sessions keep their unknown cost)",
+			details: rows.map(
+				(r) => `${r.model_used}: ${r.sessions} session(s) recorded without a price`,
+			),
+		};
+	}
+
+	return {
+		name: "model-pricing",
+		category: "providers",
+		status: "warn",
+		message: `${stillUnpriced.length} model${stillUnpriced.length === 1 ? "" : "s"} used without a price — costs are under-reported`,
+		details: [
+			...stillUnpriced.map((r) => `${r.model_used}: ${r.sessions} session(s)`),
+			"Add prices under pricing.models or pricing.providers in config.yaml, or in .overstory/pricing.yaml.",
+		],
+	};
+}
+
+/**
+ * Explain why a model ref has no configured provider, or null if it has one.
+ * Aliases need a native provider; provider-prefixed refs need the named provider.
+ */
+function modelProviderIssue(config: OverstoryConfig, model: ModelRef): string | null {
+	const slashIdx = model.indexOf("/");
+	if (slashIdx > 0) {
+		const providerName = model.substring(0, slashIdx);
+		return config.providers[providerName] ? null : `provider '${providerName}' is not configured`;
+	}
+	if (MODEL_ALIASES.has(model)) {
+		return Object.values(config.providers).some((p) => p.type === "native")
+			? null
+			: "no native provider is configured for this alias";
+	}
+	return "not an alias or a provider-prefixed ref";
+}
+
+/**
+ * Check 7: every model in every fallback chain resolves to a configured provider.
+ *
+ * Chains are list-valued config.models entries and manifest `model` fields
+ * (read from agent-manifest.json; skipped if it is missing or unreadable).
+ */
+async function buildModelFallbackChains(
+	config: OverstoryConfig,
+	overstoryDir: string,
+): Promise<DoctorCheck> {
+	const chains: Array<{ source: string; chain: ModelRef[] }> = [];
+	for (const [role, chain] of Object.entries(config.models)) {
+		if (Array.isArray(chain)) {
+			chains.push({ source: `models.${role}`, chain });
+		}
+	}
+	try {
+		const raw = JSON.parse(await Bun.file(join(overstoryDir, "agent-manifest.json")).text()) as {
+			agents?: Record<string, { model?: unknown }>;
+		};
+		for (const [name, def] of Object.entries(raw.agents ?? {})) {
+			if (Array.isArray(def?.model)) {
+				chains.push({ source: `agent ${name}`, chain: def.model.map(String) });
+			}
+		}
+	} catch {
+		// Missing or malformed manifests are reported by the agents check
+	}
+
+	if (chains.length === 0) {
+		return {
+			name: "model-fallback-chains",
+			category: "providers",
+			status: "pass",
+			message: "No model fallback chains configured",
+		};
+	}
+
+	const issues: string[] = [];
+	for (const { source, chain } of chains) {
+		for (const model of chain) {
+			const issue = modelProviderIssue(config, model);
+			if (issue) {
+				issues.push(`${source}: ${model} — ${issue}`);
+			}
+		}
+	}
+
+	if (issues.length > 0) {
+		return {
+			name: "model-fallback-chains",
+			category: "providers",
+			status: "fail",
+			message: `${issues.length} model${issues.length === 1 ? "" : "s"} in fallback chains cannot be resolved`,
+			details: issues,
+		};
+	}
+
+	return {
+		name: "model-fallback-chains",
+		category: "providers",
+		status: "pass",
+		message: `${chains.length} fallback chain${chains.length === 1 ? "" : "s"} resolve to configured providers`,
+		details: chains.map(({ source, chain }) => `${source}: ${chain.join(" → ")}`),
+	};
+}
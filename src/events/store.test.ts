@@ -383,6 +383,21 @@ describe("getErrors", () => {
 	});
 });
 
+// === getByType ===
+
+describe("getByType", () => {
+	test("returns only events of the given type, filtered by level", () => {
+		store.insert(makeEvent({ eventType: "tool_start" }));
+		store.insert(makeEvent({ eventType: "guard_decision", level: "debug" }));
+		store.insert(makeEvent({ eventType: "guard_decision", level: "warn" }));
+
+		expect(store.getByType("guard_decision")).toHaveLength(2);
+		const blocks = store.getByType("guard_decision", { level: "warn" });
+		expect(blocks).toHaveLength(1);
+		expect(blocks[0]?.eventType).toBe("guard_decision");
+	});
+});
+
 // === getTimeline ===
 
 describe("getTimeline", () => {
@@ -11,6 +11,7 @@ import type {
 	EventLevel,
 	EventQueryOptions,
 	EventStore,
+	EventType,
 	InsertEvent,
 	StoredEvent,
 	ToolStats,
@@ -262,6 +263,17 @@ export function createEventStore(dbPath: string): EventStore {
 			return rows.map(rowToEvent);
 		},
 
+		getByType(eventType: EventType, opts?: EventQueryOptions): StoredEvent[] {
+			const { whereClause, params, limitClause } = buildFilterClauses(
+				opts,
+				["event_type = $event_type"],
+				{ $event_type: eventType },
+			);
+			const query = `SELECT * FROM events ${whereClause} ORDER BY created_at ASC ${limitClause}`;
+			const rows = db.prepare<EventRow, Record<string, string | number>>(query).all(params);
+			return rows.map(rowToEvent);
+		},
+
 		getTimeline(opts: EventQueryOptions & { since: string }): StoredEvent[] {
 			const { whereClause, params, limitClause } = buildFilterClauses(opts);
 			const query = `SELECT * FROM events ${whereClause} ORDER BY created_at ASC ${limitClause}`;
@@ -9,6 +9,7 @@
 
 import { Command, Help } from "commander";
 import { createAgentsCommand } from "./commands/agents.ts";
+import { createBrokerCommand } from "./commands/broker.ts";
 import { cleanCommand } from "./commands/clean.ts";
 import { createCompletionsCommand } from "./commands/completions.ts";
 import { createCoordinatorCommand } from "./commands/coordinator.ts";
@@ -16,12 +17,15 @@ import { createCostsCommand } from "./commands/costs.ts";
 import { createDashboardCommand } from "./commands/dashboard.ts";
 import { createDoctorCommand } from "./commands/doctor.ts";
 import { createEcosystemCommand } from "./commands/ecosystem.ts";
+import { createEgressCommand } from "./commands/egress.ts";
 import { createErrorsCommand } from "./commands/errors.ts";
 import { createFeedCommand } from "./commands/feed.ts";
 import { createGroupCommand } from "./commands/group.ts";
+import { createGuardsCommand } from "./commands/guards.ts";
 import { createHooksCommand } from "./commands/hooks.ts";
 import { initCommand } from "./commands/init.ts";
 import { createInspectCommand } from "./commands/inspect.ts";
+import { createIssueCommand } from "./commands/issue.ts";
 import { createLogCommand } from "./commands/log.ts";
 import { logsCommand } from "./commands/logs.ts";
 import { mailCommand } from "./commands/mail.ts";
@@ -29,6 +33,8 @@ import { mergeCommand } from "./commands/merge.ts";
 import { createMetricsCommand } from "./commands/metrics.ts";
 import { createMonitorCommand } from "./commands/monitor.ts";
 import { nudgeCommand } from "./commands/nudge.ts";
+import { createPlanCommand } from "./commands/plan.ts";
+import { createPolicyCommand } from "./commands/policy.ts";
 import { primeCommand } from "./commands/prime.ts";
 import { createReplayCommand } from "./commands/replay.ts";
 import { createRunCommand } from "./commands/run.ts";
@@ -83,10 +89,16 @@ const COMMANDS = [
 	"merge",
 	"nudge",
 	"group",
+	"plan",
+	"issue",
+	"policy",
+	"guards",
 	"worktree",
 	"log",
 	"logs",
 	"watch",
+	"broker",
+	"egress",
 	"trace",
 	"ecosystem",
 	"feed",
@@ -222,7 +234,13 @@ program.addCommand(createMonitorCommand());
 program.addCommand(createWorktreeCommand());
 program.addCommand(createLogCommand());
 program.addCommand(createWatchCommand());
+program.addCommand(createBrokerCommand());
+program.addCommand(createEgressCommand());
 program.addCommand(createGroupCommand());
+program.addCommand(createPlanCommand());
+program.addCommand(createIssueCommand());
+program.addCommand(createPolicyCommand());
+program.addCommand(createGuardsCommand());
 program.addCommand(createCompletionsCommand());
 
 // Unmigrated commands — passthrough pattern
@@ -240,6 +258,7 @@ program
 	.option("--skip-seeds", "Skip seeds bootstrap")
 	.option("--skip-canopy", "Skip canopy bootstrap")
 	.option("--skip-onboard", "Skip CLAUDE.md onboarding step for ecosystem tools")
+	.option("--tracker <backend>", "Task tracker backend: auto, seeds, beads, files (default: auto)")
 	.option("--json", "Output result as JSON")
 	.action(async (opts) => {
 		await initCommand(opts);
@@ -261,12 +280,19 @@ program
 	.option("--depth <n>", "Current hierarchy depth", "0")
 	.option("--skip-scout", "Skip scout phase for lead agents")
 	.option("--skip-task-check", "Skip task existence validation")
+	.option("--skip-dep-check", "Skip the unmerged-blocker dependency check")
 	.option("--force-hierarchy", "Bypass hierarchy validation")
 	.option("--max-agents <n>", "Max children per lead (overrides config)")
 	.option("--skip-review", "Skip review phase for lead agents")
 	.option("--no-scout-check", "Suppress the parentHasScouts scout-before-build warning")
 	.option("--dispatch-max-agents <n>", "Per-lead max agents ceiling (injected into overlay)")
-	.option("--runtime <name>", "Runtime adapter (default: config or claude)")
+	.option(
+		"--runtime <name>",
+		"Runtime adapter (default: runtime.capabilities, manifest, runtime.default, or claude)",
+	)
+	.option("--model <ref>", "Model alias or provider/model (default: first model in the chain)")
+	.option("--resume", "Reuse the previous session's worktree and branch (watchdog recovery)")
+	.option("--headless", "Run without tmux; drive the agent over RPC (runtime must support it)")
 	.option("--json", "Output result as JSON")
 	.action(async (taskId, opts) => {
 		await slingCommand(taskId, opts);
@@ -343,6 +369,8 @@ program
 	.option("--all", "Merge all pending branches in the queue")
 	.option("--into <branch>", "Target branch to merge into")
 	.option("--dry-run", "Check for conflicts without actually merging")
+	.option("--simulate", "Replay the pending queue on a throwaway worktree and predict conflicts")
+	.option("--semantic-check", "Gate pending branches pairwise and mail owners of combined breakage")
 	.option("--json", "Output results as JSON")
 	.action(async (opts) => {
 		await mergeCommand(opts);
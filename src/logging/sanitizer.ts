@@ -5,12 +5,55 @@
  * and replaces them with "[REDACTED]" to prevent accidental credential leakage.
  */
 
-const REDACT_PATTERNS: RegExp[] = [
-	/sk-ant-[a-zA-Z0-9_-]+/g,
-	/github_pat_[a-zA-Z0-9_]+/g,
-	/Bearer\s+[a-zA-Z0-9._-]+/g,
-	/ghp_[a-zA-Z0-9]+/g,
-	/ANTHROPIC_API_KEY=[^\s]+/g,
+/** A known secret format. */
+export interface SecretPattern {
+	/** Short identifier reported by the pre-merge secret scan. */
+	name: string;
+	pattern: RegExp;
+	/**
+	 * Whether the pre-merge scan flags matches in branch diffs. False for
+	 * patterns broad enough to match ordinary source code (e.g. "Bearer token").
+	 */
+	scanDiffs: boolean;
+	/**
+	 * Stricter pattern used by the pre-merge scan instead of `pattern`.
+	 * Requires a realistic token length so placeholders like `sk-ant-xxx`
+	 * in docs and examples do not block a merge.
+	 */
+	diffPattern?: RegExp;
+}
+
+/** Secret patterns shared by log redaction and the pre-merge secret scan (src/merge/secrets.ts). */
+export const SECRET_PATTERNS: readonly SecretPattern[] = [
+	{
+		name: "anthropic-api-key",
+		pattern: /sk-ant-[a-zA-Z0-9_-]+/g,
+		scanDiffs: true,
+		diffPattern: /sk-ant-[a-zA-Z0-9_-]{20,}/g,
+	},
+	{ name: "openai-api-key", pattern: /sk-proj-[a-zA-Z0-9_-]{20,}/g, scanDiffs: true },
+	{
+		name: "github-pat",
+		pattern: /github_pat_[a-zA-Z0-9_]+/g,
+		scanDiffs: true,
+		diffPattern: /github_pat_[a-zA-Z0-9_]{22,}/g,
+	},
+	{ name: "bearer-token", pattern: /Bearer\s+[a-zA-Z0-9._-]+/g, scanDiffs: false },
+	{
+		name: "github-token",
+		pattern: /gh[pousr]_[a-zA-Z0-9]+/g,
+		scanDiffs: true,
+		diffPattern: /gh[pousr]_[a-zA-Z0-9]{36,}/g,
+	},
+	{ name: "anthropic-api-key-env", pattern: /ANTHROPIC_API_KEY=[^\s]+/g, scanDiffs: false },
+	{ name: "aws-access-key-id", pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g, scanDiffs: true },
+	{ name: "slack-token", pattern: /xox[abprs]-[a-zA-Z0-9-]{10,}/g, scanDiffs: true },
+	{ name: "google-api-key", pattern: /AIza[0-9A-Za-z_-]{35}/g, scanDiffs: true },
+	{
+		name: "private-key",
+		pattern: /-----BEGIN (?:[A-Z]+ )*PRIVATE KEY-----/g,
+		scanDiffs: true,
+	},
 ];
 
 const REDACTED = "[REDACTED]";
@@ -20,7 +63,7 @@ const REDACTED = "[REDACTED]";
  */
 export function sanitize(input: string): string {
 	let result = input;
-	for (const pattern of REDACT_PATTERNS) {
+	for (const { pattern } of SECRET_PATTERNS) {
 		// Reset lastIndex since we reuse global regexps
 		pattern.lastIndex = 0;
 		result = result.replace(pattern, REDACTED);
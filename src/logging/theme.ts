@@ -65,6 +65,8 @@ const EVENT_LABELS: Record<EventType, EventLabel> = {
 	mail_received: { compact: "MAIL<", full: "MAIL RECV ", color: color.cyan },
 	spawn: { compact: "SPAWN", full: "SPAWN     ", color: color.magenta },
 	error: { compact: "ERROR", full: "ERROR     ", color: color.red },
+	guard_decision: { compact: "GUARD", full: "GUARD     ", color: color.yellow },
+	egress_denied: { compact: "EGRES", full: "EGRESS    ", color: color.red },
 	custom: { compact: "CUSTM", full: "CUSTOM    ", color: color.gray },
 };
 
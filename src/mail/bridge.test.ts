@@ -0,0 +1,223 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { cleanupTempDir } from "../test-helpers.ts";
+import type { MailMessage } from "../types.ts";
+import {
+	BRIDGE_SIGNATURE_HEADER,
+	createWebhookNotifier,
+	forwardNewMail,
+	type MailBridge,
+	type MailNotifier,
+	matchesBridgeFilter,
+	readBridgeState,
+	signBridgeBody,
+	startMailBridge,
+	startReplyServer,
+} from "./bridge.ts";
+import { createMailClient, type MailClient } from "./client.ts";
+import { createMailStore, type MailStore } from "./store.ts";
+
+interface Received {
+	body: { message: MailMessage; replyTo: string };
+	signature: string | null;
+	raw: string;
+}
+
+/** Local stand-in for the external webhook. Answers with `status()` for each POST. */
+function startWebhook(status: () => number = () => 200) {
+	const received: Received[] = [];
+	const server = Bun.serve({
+		port: 0,
+		hostname: "127.0.0.1",
+		async fetch(req) {
+			const raw = await req.text();
+			const code = status();
+			if (code === 200) {
+				received.push({
+					body: JSON.parse(raw),
+					signature: req.headers.get(BRIDGE_SIGNATURE_HEADER),
+					raw,
+				});
+			}
+			return new Response(null, { status: code });
+		},
+	});
+	return { url: `http://127.0.0.1:${server.port}/hook`, received, stop: () => server.stop(true) };
+}
+
+describe("mail bridge", () => {
+	let tempDir: string;
+	let store: MailStore;
+	let client: MailClient;
+	let webhook: ReturnType<typeof startWebhook>;
+
+	beforeEach(async () => {
+		tempDir = await mkdtemp(join(tmpdir(), "overstory-mail-bridge-test-"));
+		store = createMailStore(join(tempDir, "mail.db"));
+		client = createMailClient(store);
+	});
+
+	afterEach(async () => {
+		webhook?.stop();
+		client.close();
+		await cleanupTempDir(tempDir);
+	});
+
+	function escalate(subject: string, priority: MailMessage["priority"] = "high"): string {
+		return client.send({
+			from: "builder-1",
+			to: "orchestrator",
+			subject,
+			body: "Need a decision",
+			type: "question",
+			priority,
+		});
+	}
+
+	test("matchesBridgeFilter requires every configured criterion", () => {
+		const id = escalate("Which database?");
+		const msg = store.getById(id) as MailMessage;
+		expect(matchesBridgeFilter(msg, {})).toBe(true);
+		expect(matchesBridgeFilter(msg, { types: ["question"], recipients: ["orchestrator"] })).toBe(
+			true,
+		);
+		expect(matchesBridgeFilter(msg, { types: ["question"], priorities: ["urgent"] })).toBe(false);
+		expect(matchesBridgeFilter(msg, { recipients: ["lead-1"] })).toBe(false);
+	});
+
+	test("forwards matching mail once, signed, and retries after a failure", async () => {
+		let failNext = true;
+		webhook = startWebhook(() => {
+			if (failNext) {
+				failNext = false;
+				return 503;
+			}
+			return 200;
+		});
+		const notifier = createWebhookNotifier({ url: webhook.url, secret: "s3cret" });
+		const start = { cursor: new Date(Date.now() - 1000).toISOString(), forwardedIds: [] };
+
+		const first = escalate("Which database?");
+		client.send({ from: "lead-1", to: "builder-1", subject: "FYI", body: "Not forwarded" });
+		const second = escalate("Deploy now?");
+
+		const failed = await forwardNewMail(store, [notifier], { types: ["question"] }, start);
+		expect(failed.failure?.message.id).toBe(first);
+		expect(failed.failure?.error.message).toContain("503");
+		expect(failed.state).toEqual(start);
+
+		const retried = await forwardNewMail(store, [notifier], { types: ["question"] }, failed.state);
+		expect(retried.failure).toBeNull();
+		expect(webhook.received.map((r) => r.body.message.id)).toEqual([first, second]);
+		const [delivery] = webhook.received;
+		expect(delivery?.body.replyTo).toBe(first);
+		expect(delivery?.signature).toBe(signBridgeBody(delivery?.raw ?? "", "s3cret"));
+
+		const again = await forwardNewMail(store, [notifier], { types: ["question"] }, retried.state);
+		expect(again.forwarded).toEqual([]);
+		expect(webhook.received.length).toBe(2);
+	});
+
+	test("reply endpoint threads the human answer back to the agent", async () => {
+		const original = escalate("Which database?");
+		const server = startReplyServer({ port: 0, secret: "s3cret", client, store });
+		try {
+			const post = (body: unknown, secret = "s3cret") =>
+				fetch(server.url, {
+					method: "POST",
+					headers: { authorization: `Bearer ${secret}`, "content-type": "application/json" },
+					body: JSON.stringify(body),
+				});
+
+			expect((await post({ messageId: original, body: "Postgres" }, "wrong")).status).toBe(401);
+			expect((await post({ messageId: "msg-missing", body: "Postgres" })).status).toBe(404);
+			expect((await post({ messageId: original })).status).toBe(400);
+
+			const res = await post({ messageId: original, body: "Use Postgres" });
+			expect(res.status).toBe(201);
+			const { id } = (await res.json()) as { id: string };
+			const reply = store.getById(id);
+			expect(reply?.from).toBe("orchestrator");
+			expect(reply?.to).toBe("builder-1");
+			expect(reply?.threadId).toBe(original);
+			expect(reply?.body).toBe("Use Postgres");
+		} finally {
+			server.stop();
+		}
+	});
+
+	test("startMailBridge forwards new mail but not the replies it created", async () => {
+		webhook = startWebhook();
+		const statePath = join(tempDir, "mail-bridge.json");
+		let bridge: MailBridge | null = null;
+		try {
+			bridge = await startMailBridge({
+				store,
+				client,
+				notifiers: [createWebhookNotifier({ url: webhook.url })],
+				config: { webhookUrl: webhook.url, replyPort: 0, pollIntervalMs: 20 },
+				secret: "s3cret",
+				statePath,
+			});
+			const question = escalate("Which database?");
+			const replyUrl = bridge.replyServer?.url ?? "";
+			const res = await fetch(replyUrl, {
+				method: "POST",
+				headers: { authorization: "Bearer s3cret" },
+				body: JSON.stringify({ messageId: question, body: "Postgres" }),
+			});
+			expect(res.status).toBe(201);
+
+			const deadline = Date.now() + 2000;
+			while (webhook.received.length === 0 && Date.now() < deadline) {
+				await Bun.sleep(20);
+			}
+			await Bun.sleep(100);
+			expect(webhook.received.map((r) => r.body.message.id)).toEqual([question]);
+		} finally {
+			await bridge?.stop();
+		}
+		expect((await readBridgeState(statePath))?.forwardedIds.length).toBeGreaterThan(0);
+	});
+
+	test("startMailBridge waits for a slow pass before polling again", async () => {
+		const calls: Array<{ start: number; end: number }> = [];
+		const slowNotifier: MailNotifier = {
+			name: "slow",
+			async notify() {
+				const call = { start: Date.now(), end: 0 };
+				calls.push(call);
+				await Bun.sleep(100);
+				call.end = Date.now();
+				throw new Error("channel down");
+			},
+		};
+		let bridge: MailBridge | null = null;
+		try {
+			bridge = await startMailBridge({
+				store,
+				client,
+				notifiers: [slowNotifier],
+				config: { webhookUrl: "http://127.0.0.1:1/hook", pollIntervalMs: 50 },
+				secret: null,
+				statePath: join(tempDir, "mail-bridge.json"),
+			});
+			escalate("Which database?");
+			await Bun.sleep(500);
+		} finally {
+			await bridge?.stop();
+		}
+
+		const settled = calls.length;
+		expect(settled).toBeGreaterThanOrEqual(2);
+		for (let i = 1; i < calls.length; i++) {
+			const gap = (calls[i]?.start ?? 0) - (calls[i - 1]?.end ?? 0);
+			// Each retry waits a full interval after the previous pass ends
+			expect(gap).toBeGreaterThanOrEqual(40);
+		}
+		await Bun.sleep(150);
+		expect(calls.length).toBe(settled);
+	});
+});
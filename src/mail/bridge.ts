@@ -0,0 +1,378 @@
+/**
+ * Mail bridge to an external chat/webhook channel (`ov mail bridge`).
+ *
+ * Outbound: every poll, new messages matching the `mail.bridge` filters are
+ * handed to each notifier. The built-in notifier POSTs them to a webhook:
+ *
+ *   POST <webhookUrl>
+ *   X-Overstory-Signature: sha256=<hex HMAC of the body>   (when a secret is set)
+ *   { "message": { id, from, to, subject, body, type, priority, threadId, payload, createdAt },
+ *     "replyTo": "<message id>" }
+ *
+ * A notifier that fails stops the pass; the message is retried on the next
+ * poll, so delivery is at least once. Progress is saved in
+ * .overstory/mail-bridge.json so a restart neither drops nor repeats
+ * messages. A new bridge starts with mail sent from then on.
+ *
+ * Inbound: a local HTTP endpoint turns a human answer into a `reply` on the
+ * same thread:
+ *
+ *   POST /reply   Authorization: Bearer <secret>
+ *   { "messageId": "msg-...", "body": "...", "from": "orchestrator" }   → 201 { "id": "msg-..." }
+ *
+ * `from` defaults to the original recipient, so a reply to an escalation an
+ * agent sent the orchestrator goes back to that agent. Replies created here
+ * are never forwarded back out.
+ */
+
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { MailError, ValidationError } from "../errors.ts";
+import type { MailBridgeConfig, MailMessage } from "../types.ts";
+import type { MailClient } from "./client.ts";
+import type { MailStore } from "./store.ts";
+
+/** Default port of the inbound reply endpoint. */
+export const DEFAULT_BRIDGE_REPLY_PORT = 8425;
+
+/** Default interval between checks for new mail. */
+export const DEFAULT_BRIDGE_POLL_MS = 2000;
+
+/** How long a webhook POST may take before it counts as failed. */
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+/** Header carrying the HMAC-SHA256 signature of an outbound body. */
+export const BRIDGE_SIGNATURE_HEADER = "x-overstory-signature";
+
+/** Delivers a forwarded message to an external channel. */
+export interface MailNotifier {
+	/** Short name used in log lines (e.g. "webhook"). */
+	readonly name: string;
+	/** Deliver one message. Throws if the channel did not accept it. */
+	notify(message: MailMessage): Promise<void>;
+}
+
+/** Which messages to forward: each set criterion must match. */
+export type MailBridgeFilter = Pick<MailBridgeConfig, "types" | "priorities" | "recipients">;
+
+/** Forwarding progress: the last forwarded creation time and the IDs forwarded at it. */
+export interface MailBridgeState {
+	cursor: string;
+	forwardedIds: string[];
+}
+
+/** Whether a message passes the bridge filters. */
+export function matchesBridgeFilter(message: MailMessage, filter: MailBridgeFilter): boolean {
+	if (filter.types && !filter.types.includes(message.type)) return false;
+	if (filter.priorities && !filter.priorities.includes(message.priority)) return false;
+	if (filter.recipients && !filter.recipients.includes(message.to)) return false;
+	return true;
+}
+
+/** HMAC-SHA256 signature of an outbound body, as sent in the signature header. */
+export function signBridgeBody(body: string, secret: string): string {
+	return `sha256=${createHmac("sha256", secret).update(body).digest("hex")}`;
+}
+
+/** JSON body POSTed to the webhook for one message. */
+export function buildWebhookBody(message: MailMessage): string {
+	const { id, from, to, subject, body, type, priority, threadId, payload, createdAt } = message;
+	return JSON.stringify({
+		message: { id, from, to, subject, body, type, priority, threadId, payload, createdAt },
+		replyTo: id,
+	});
+}
+
+/** Notifier that POSTs each message to a webhook URL. */
+export function createWebhookNotifier(options: {
+	url: string;
+	secret?: string | null;
+	timeoutMs?: number;
+}): MailNotifier {
+	return {
+		name: "webhook",
+		async notify(message: MailMessage): Promise<void> {
+			const body = buildWebhookBody(message);
+			const headers: Record<string, string> = { "content-type": "application/json" };
+			if (options.secret) {
+				headers[BRIDGE_SIGNATURE_HEADER] = signBridgeBody(body, options.secret);
+			}
+			const res = await fetch(options.url, {
+				method: "POST",
+				headers,
+				body,
+				signal: AbortSignal.timeout(options.timeoutMs ?? WEBHOOK_TIMEOUT_MS),
+			});
+			if (!res.ok) {
+				throw new Error(`webhook answered ${res.status} ${res.statusText}`.trim());
+			}
+		},
+	};
+}
+
+/** Path of the bridge's progress file. */
+export function bridgeStatePath(projectRoot: string): string {
+	return join(projectRoot, ".overstory", "mail-bridge.json");
+}
+
+/** Read saved progress, or null if there is none (or it is unreadable). */
+export async function readBridgeState(path: string): Promise<MailBridgeState | null> {
+	const file = Bun.file(path);
+	if (!(await file.exists())) return null;
+	try {
+		const state = (await file.json()) as Partial<MailBridgeState>;
+		if (typeof state.cursor !== "string" || !Array.isArray(state.forwardedIds)) return null;
+		return { cursor: state.cursor, forwardedIds: state.forwardedIds };
+	} catch {
+		return null;
+	}
+}
+
+export async function writeBridgeState(path: string, state: MailBridgeState): Promise<void> {
+	await writeFile(path, `${JSON.stringify(state, null, "\t")}\n`);
+}
+
+/** Result of one forwarding pass. */
+export interface ForwardResult {
+	state: MailBridgeState;
+	forwarded: MailMessage[];
+	/** The message and error that stopped the pass, if any. */
+	failure: { message: MailMessage; notifier: string; error: Error } | null;
+}
+
+/**
+ * Forward messages created since the cursor, oldest first. Messages in
+ * `skipIds` (replies created by the bridge) and messages that fail the
+ * filter advance the cursor without being sent.
+ */
+export async function forwardNewMail(
+	store: MailStore,
+	notifiers: readonly MailNotifier[],
+	filter: MailBridgeFilter,
+	state: MailBridgeState,
+	skipIds: ReadonlySet<string> = new Set(),
+): Promise<ForwardResult> {
+	let cursor = state.cursor;
+	let atCursor = new Set(state.forwardedIds);
+	const forwarded: MailMessage[] = [];
+
+	const pending = store
+		.getAll({ since: state.cursor })
+		.filter((message) => !atCursor.has(message.id))
+		.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+	for (const message of pending) {
+		if (matchesBridgeFilter(message, filter) && !skipIds.has(message.id)) {
+			for (const notifier of notifiers) {
+				try {
+					await notifier.notify(message);
+				} catch (err) {
+					return {
+						state: { cursor, forwardedIds: [...atCursor] },
+						forwarded,
+						failure: {
+							message,
+							notifier: notifier.name,
+							error: err instanceof Error ? err : new Error(String(err)),
+						},
+					};
+				}
+			}
+			forwarded.push(message);
+		}
+		if (message.createdAt !== cursor) {
+			cursor = message.createdAt;
+			atCursor = new Set();
+		}
+		atCursor.add(message.id);
+	}
+	return { state: { cursor, forwardedIds: [...atCursor] }, forwarded, failure: null };
+}
+
+function json(body: unknown, status: number): Response {
+	return Response.json(body, { status, headers: { "cache-control": "no-store" } });
+}
+
+function hasSecret(req: Request, secret: string): boolean {
+	const header = req.headers.get("authorization");
+	if (!header?.startsWith("Bearer ")) return false;
+	const expected = Buffer.from(secret);
+	const actual = Buffer.from(header.slice("Bearer ".length));
+	return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/** Validate a POST /reply body and send the reply. Returns the new message ID. */
+function sendReply(client: MailClient, store: MailStore, body: unknown): string {
+	if (body === null || typeof body !== "object") {
+		throw new ValidationError("request body must be a JSON object", { field: "body" });
+	}
+	const fields = body as Record<string, unknown>;
+	for (const field of ["messageId", "body"]) {
+		const value = fields[field];
+		if (typeof value !== "string" || value.trim().length === 0) {
+			throw new ValidationError(`${field} is required`, { field, value });
+		}
+	}
+	const messageId = fields.messageId as string;
+	const original = store.getById(messageId);
+	if (!original) {
+		throw new MailError(`Message not found: ${messageId}`, { messageId });
+	}
+	const from =
+		typeof fields.from === "string" && fields.from.length > 0 ? fields.from : original.to;
+	return client.reply(messageId, fields.body as string, from);
+}
+
+export interface ReplyServer {
+	url: string;
+	port: number;
+	stop(): void;
+}
+
+/**
+ * Start the inbound reply endpoint on 127.0.0.1. `onReply` is called with the
+ * ID of each reply created, before the response is sent.
+ */
+export function startReplyServer(options: {
+	port: number;
+	secret: string;
+	client: MailClient;
+	store: MailStore;
+	onReply?: (replyId: string, messageId: string) => void;
+}): ReplyServer {
+	const server = Bun.serve({
+		port: options.port,
+		hostname: "127.0.0.1",
+		async fetch(req) {
+			const url = new URL(req.url);
+			if (url.pathname !== "/reply" || req.method !== "POST") {
+				return json({ error: `not found: ${req.method} ${url.pathname}` }, 404);
+			}
+			if (!hasSecret(req, options.secret)) {
+				return json({ error: "missing or invalid secret" }, 401);
+			}
+			let body: unknown;
+			try {
+				body = await req.json();
+			} catch {
+				return json({ error: "request body must be valid JSON" }, 400);
+			}
+			try {
+				const id = sendReply(options.client, options.store, body);
+				options.onReply?.(id, (body as { messageId: string }).messageId);
+				return json({ id }, 201);
+			} catch (err) {
+				const message = err instanceof Error ? err.message : String(err);
+				const status = err instanceof ValidationError ? 400 : err instanceof MailError ? 404 : 500;
+				return json({ error: message }, status);
+			}
+		},
+	});
+	return {
+		url: `http://127.0.0.1:${server.port}/reply`,
+		port: server.port ?? options.port,
+		stop() {
+			server.stop(true);
+		},
+	};
+}
+
+export interface MailBridge {
+	/** The reply endpoint, or null when replies are disabled (no secret). */
+	replyServer: ReplyServer | null;
+	/** Stop polling and close the reply endpoint. Resolves after the current pass. */
+	stop(): Promise<void>;
+}
+
+/**
+ * Run the bridge: poll for mail to forward and, when a secret is set, serve
+ * the reply endpoint. Starts from the saved progress in `statePath`, or from
+ * now if there is none.
+ */
+export async function startMailBridge(options: {
+	store: MailStore;
+	client: MailClient;
+	notifiers: readonly MailNotifier[];
+	config: MailBridgeConfig;
+	secret: string | null;
+	statePath: string;
+	onForward?: (message: MailMessage) => void;
+	onFailure?: (failure: NonNullable<ForwardResult["failure"]>) => void;
+	onReply?: (replyId: string, messageId: string) => void;
+	/** Unexpected errors in a pass (e.g. the progress file cannot be written). */
+	onError?: (error: Error) => void;
+}): Promise<MailBridge> {
+	const { store, client, notifiers, config, statePath } = options;
+	let state = (await readBridgeState(statePath)) ?? {
+		cursor: new Date().toISOString(),
+		forwardedIds: [],
+	};
+	await writeBridgeState(statePath, state);
+
+	const bridgeReplies = new Set<string>();
+	const replyServer = options.secret
+		? startReplyServer({
+				port: config.replyPort ?? DEFAULT_BRIDGE_REPLY_PORT,
+				secret: options.secret,
+				client,
+				store,
+				onReply: (replyId, messageId) => {
+					bridgeReplies.add(replyId);
+					options.onReply?.(replyId, messageId);
+				},
+			})
+		: null;
+
+	let lastFailureId: string | null = null;
+	const pass = async (): Promise<void> => {
+		const result = await forwardNewMail(store, notifiers, config, state, bridgeReplies);
+		for (const message of result.forwarded) {
+			options.onForward?.(message);
+		}
+		// Report a stuck message once, not on every retry
+		if (result.failure && result.failure.message.id !== lastFailureId) {
+			options.onFailure?.(result.failure);
+		}
+		lastFailureId = result.failure?.message.id ?? null;
+		if (
+			result.state.cursor !== state.cursor ||
+			result.state.forwardedIds.length !== state.forwardedIds.length
+		) {
+			state = result.state;
+			await writeBridgeState(statePath, state);
+		}
+	};
+
+	const safePass = (): Promise<void> =>
+		pass().catch((err: unknown) => {
+			options.onError?.(err instanceof Error ? err : new Error(String(err)));
+		});
+
+	// The next pass is scheduled only once the previous one finishes, so a
+	// slow notifier delays polling instead of queueing passes behind it.
+	const intervalMs = config.pollIntervalMs ?? DEFAULT_BRIDGE_POLL_MS;
+	let stopped = false;
+	let timer: ReturnType<typeof setTimeout> | null = null;
+	const scheduleNext = (): void => {
+		if (stopped) return;
+		timer = setTimeout(() => {
+			timer = null;
+			running = safePass().then(scheduleNext);
+		}, intervalMs);
+	};
+	let running = safePass().then(scheduleNext);
+
+	return {
+		replyServer,
+		async stop(): Promise<void> {
+			stopped = true;
+			if (timer !== null) {
+				clearTimeout(timer);
+				timer = null;
+			}
+			await running;
+			replyServer?.stop();
+		},
+	};
+}
@@ -1,6 +1,6 @@
 import { describe, expect, test } from "bun:test";
-import type { AgentSession } from "../types.ts";
-import { isGroupAddress, resolveGroupAddress } from "./broadcast.ts";
+import type { AgentSession, TaskGroup } from "../types.ts";
+import { isBuiltinGroupName, isGroupAddress, resolveGroupAddress } from "./broadcast.ts";
 
 describe("isGroupAddress", () => {
 	test("returns true for addresses starting with @", () => {
@@ -42,6 +42,8 @@ describe("resolveGroupAddress", () => {
 			escalationLevel: 0,
 			stalledSince: null,
 			transcriptPath: null,
+			rpcEndpoint: null,
+			runtime: null,
 		};
 	}
 
@@ -186,6 +188,88 @@ describe("resolveGroupAddress", () => {
 		});
 	});
 
+	describe("dynamic and config groups", () => {
+		function withTree(
+			agentName: string,
+			parentAgent: string | null,
+			overrides: Partial<AgentSession> = {},
+		): AgentSession {
+			return { ...createSession(agentName, "builder"), parentAgent, ...overrides };
+		}
+
+		// lead-1 spawned lead-2 (now completed), which spawned builder-a and builder-b
+		const allSessions: AgentSession[] = [
+			withTree("lead-1", null, { capability: "lead", taskId: "bead-010" }),
+			withTree("lead-2", "lead-1", { capability: "lead", state: "completed" }),
+			withTree("builder-a", "lead-2", { taskId: "bead-011" }),
+			withTree("builder-b", "lead-2", { taskId: "bead-012", runId: "run-002" }),
+			withTree("builder-c", null, { taskId: "bead-011", runId: "run-002" }),
+		];
+		const active = allSessions.filter((s) => s.state !== "completed");
+		const taskGroups: TaskGroup[] = [
+			{
+				id: "group-Ab12cd34",
+				name: "auth",
+				memberIssueIds: ["bead-011"],
+				status: "active",
+				createdAt: "2024-01-01T00:00:00Z",
+				completedAt: null,
+			},
+		];
+
+		test("@children walks the spawned subtree through finished agents", () => {
+			expect(
+				resolveGroupAddress("@children:lead-1", active, "lead-1", { allSessions }).sort(),
+			).toEqual(["builder-a", "builder-b"]);
+			expect(() =>
+				resolveGroupAddress("@children:builder-a", active, "lead-1", { allSessions }),
+			).toThrow("no active agents match");
+		});
+
+		test("@group resolves agents working on the task group's members", () => {
+			expect(
+				resolveGroupAddress("@group:group-Ab12cd34", active, "lead-1", { taskGroups }),
+			).toEqual(["builder-a", "builder-c"]);
+			expect(() =>
+				resolveGroupAddress("@group:group-ab12cd34", active, "lead-1", { taskGroups }),
+			).toThrow("Task group not found");
+		});
+
+		test("@run resolves active agents in the run", () => {
+			expect(resolveGroupAddress("@run:run-002", active, "lead-1")).toEqual([
+				"builder-b",
+				"builder-c",
+			]);
+			expect(() => resolveGroupAddress("@run:", active, "lead-1")).toThrow("missing a name");
+		});
+
+		test("config groups expand names and nested addresses without duplicates", () => {
+			const namedGroups = {
+				auth: ["@group:group-Ab12cd34", "builder-c", "designer-1"],
+				everyone: ["@auth", "@leads"],
+			};
+			expect(
+				resolveGroupAddress("@Everyone", active, "builder-a", { taskGroups, namedGroups }),
+			).toEqual(["builder-c", "designer-1", "lead-1"]);
+			expect(() => resolveGroupAddress("@nope", active, "lead-1", { namedGroups })).toThrow(
+				"@everyone",
+			);
+		});
+
+		test("config groups that include themselves are rejected", () => {
+			const namedGroups = { a: ["@b"], b: ["@a"] };
+			expect(() => resolveGroupAddress("@a", active, "lead-1", { namedGroups })).toThrow(
+				"includes itself",
+			);
+		});
+
+		test("isBuiltinGroupName covers @all and capability groups", () => {
+			expect(isBuiltinGroupName("all")).toBe(true);
+			expect(isBuiltinGroupName("Builders")).toBe(true);
+			expect(isBuiltinGroupName("auth")).toBe(false);
+		});
+	});
+
 	describe("edge cases", () => {
 		test("handles empty active sessions list", () => {
 			expect(() => resolveGroupAddress("@all", [], "orchestrator")).toThrow(
@@ -2,11 +2,18 @@
  * Group address resolution for broadcast messaging.
  *
  * Provides pure logic for resolving group addresses (e.g., @all, @builders)
- * into lists of individual agent names. No I/O — takes active sessions as
- * input and returns agent names as output.
+ * into lists of individual agent names. No I/O — takes sessions (from the
+ * SessionStore), task groups and config groups as input and returns agent
+ * names as output.
+ *
+ * Besides @all and the capability groups, addresses can be:
+ * - `@<name>`: a named group from config.yaml (`mail.groups`)
+ * - `@group:<id>`: agents working on members of a task group (`ov group`)
+ * - `@children:<agent>`: every agent in that agent's spawned subtree
+ * - `@run:<id>`: every agent in a run
  */
 
-import type { AgentSession } from "../types.ts";
+import type { AgentSession, TaskGroup } from "../types.ts";
 
 /**
  * Check if a recipient address is a group address.
@@ -39,12 +46,39 @@ const CAPABILITY_GROUPS: Record<string, string> = {
 	"@monitors": "monitor",
 };
 
+/** Prefixes of groups derived at runtime. The part after the colon is case-sensitive. */
+const DYNAMIC_GROUP_PREFIXES = ["@group:", "@children:", "@run:"] as const;
+
+/** Names a config group may not take: @all and the capability groups. */
+export function isBuiltinGroupName(name: string): boolean {
+	const address = `@${name.toLowerCase()}`;
+	return address === "@all" || CAPABILITY_GROUPS[address] !== undefined;
+}
+
+/** Inputs for groups beyond @all and the capability groups. */
+export interface GroupContext {
+	/**
+	 * Every recorded session, not only active ones. @children walks parent
+	 * links through it, so a finished lead's builders are still reached.
+	 */
+	allSessions?: AgentSession[];
+	/** Task groups (`ov group`), for @group:<id>. */
+	taskGroups?: TaskGroup[];
+	/** Named groups from config (`mail.groups`): group name → agent names or group addresses. */
+	namedGroups?: Record<string, string[]>;
+}
+
 /**
  * Resolve a group address to a list of agent names.
  *
- * @param groupAddress - The group address to resolve (e.g., "@all", "@builders")
+ * Derived groups (@group, @children, @run) contain only active agents. Agent
+ * names listed in a config group are used as given; group addresses listed in
+ * one are resolved in turn.
+ *
+ * @param groupAddress - The group address to resolve (e.g., "@all", "@builders", "@run:run-1")
  * @param activeSessions - List of active agent sessions
  * @param senderName - Name of the sender (excluded from recipients)
+ * @param context - Sessions, task groups and config groups for the other group forms
  * @returns Array of agent names that match the group
  * @throws Error if the group address is unknown or resolves to zero recipients
  */
@@ -52,41 +86,134 @@ export function resolveGroupAddress(
 	groupAddress: string,
 	activeSessions: AgentSession[],
 	senderName: string,
+	context: GroupContext = {},
 ): string[] {
-	const normalized = groupAddress.toLowerCase();
+	const members = expandGroup(groupAddress, activeSessions, context, []);
+	const recipients = [...new Set(members)].filter((name) => name !== senderName);
+	if (recipients.length === 0) {
+		const reason = members.length === 0 ? "no active agents match" : "sender excluded";
+		throw new Error(`Group address "${groupAddress}" resolved to zero recipients (${reason})`);
+	}
+	return recipients;
+}
 
-	// Handle @all — all active agents except sender
-	if (normalized === "@all") {
-		const recipients = activeSessions.map((s) => s.agentName).filter((name) => name !== senderName);
+/** Agent names in a group, before the sender is removed. `seen` guards against config cycles. */
+function expandGroup(
+	groupAddress: string,
+	activeSessions: AgentSession[],
+	context: GroupContext,
+	seen: string[],
+): string[] {
+	const normalized = groupAddress.toLowerCase();
+	const prefix = DYNAMIC_GROUP_PREFIXES.find((p) => normalized.startsWith(p));
+	if (prefix !== undefined) {
+		const target = groupAddress.slice(prefix.length);
+		if (target.length === 0) {
+			throw new Error(`Group address "${groupAddress}" is missing a name after "${prefix}"`);
+		}
+		return resolveDynamicGroup(prefix, target, activeSessions, context);
+	}
 
-		if (recipients.length === 0) {
+	const named = findNamedGroup(normalized, context.namedGroups);
+	if (named !== undefined && !isBuiltinGroupName(normalized.slice(1))) {
+		if (seen.includes(normalized)) {
 			throw new Error(
-				`Group address "${groupAddress}" resolved to zero recipients (sender excluded)`,
+				`Group "${groupAddress}" includes itself (${[...seen, normalized].join(" → ")})`,
 			);
 		}
+		return named.flatMap((member) =>
+			isGroupAddress(member)
+				? expandGroup(member, activeSessions, context, [...seen, normalized])
+				: [member],
+		);
+	}
+
+	return resolveBuiltinGroup(groupAddress, normalized, activeSessions, context);
+}
+
+/** Members of a config group, looked up case-insensitively. */
+function findNamedGroup(
+	normalized: string,
+	namedGroups: Record<string, string[]> | undefined,
+): string[] | undefined {
+	for (const [name, members] of Object.entries(namedGroups ?? {})) {
+		if (`@${name.toLowerCase()}` === normalized) {
+			return members;
+		}
+	}
+	return undefined;
+}
+
+/** Resolve @group:<id>, @children:<agent> and @run:<id> to active agent names. */
+function resolveDynamicGroup(
+	prefix: (typeof DYNAMIC_GROUP_PREFIXES)[number],
+	target: string,
+	activeSessions: AgentSession[],
+	context: GroupContext,
+): string[] {
+	switch (prefix) {
+		case "@group:": {
+			const group = context.taskGroups?.find((g) => g.id === target);
+			if (group === undefined) {
+				throw new Error(`Task group not found: ${target}`);
+			}
+			return activeSessions
+				.filter((s) => group.memberIssueIds.includes(s.taskId))
+				.map((s) => s.agentName);
+		}
+		case "@children:": {
+			const sessions = context.allSessions ?? activeSessions;
+			const subtree = new Set<string>();
+			let frontier = [target];
+			while (frontier.length > 0) {
+				const parents = frontier;
+				frontier = sessions
+					.filter(
+						(s) =>
+							s.parentAgent !== null &&
+							parents.includes(s.parentAgent) &&
+							!subtree.has(s.agentName) &&
+							s.agentName !== target,
+					)
+					.map((s) => s.agentName);
+				for (const name of frontier) {
+					subtree.add(name);
+				}
+			}
+			return activeSessions.filter((s) => subtree.has(s.agentName)).map((s) => s.agentName);
+		}
+		case "@run:":
+			return activeSessions.filter((s) => s.runId === target).map((s) => s.agentName);
+	}
+}
 
-		return recipients;
+/** Resolve @all and the capability groups, or throw for an unknown address. */
+function resolveBuiltinGroup(
+	groupAddress: string,
+	normalized: string,
+	activeSessions: AgentSession[],
+	context: GroupContext,
+): string[] {
+	// Handle @all — all active agents
+	if (normalized === "@all") {
+		return activeSessions.map((s) => s.agentName);
 	}
 
 	// Handle capability groups
 	const capability = CAPABILITY_GROUPS[normalized];
 	if (capability !== undefined) {
-		const recipients = activeSessions
-			.filter((s) => s.capability === capability)
-			.map((s) => s.agentName)
-			.filter((name) => name !== senderName);
-
-		if (recipients.length === 0) {
-			throw new Error(
-				`Group address "${groupAddress}" resolved to zero recipients (no active ${capability} agents)`,
-			);
-		}
-
-		return recipients;
+		return activeSessions.filter((s) => s.capability === capability).map((s) => s.agentName);
 	}
 
 	// Unknown group
-	throw new Error(
-		`Unknown group address: "${groupAddress}". Valid groups: @all, ${Object.keys(CAPABILITY_GROUPS).join(", ")}`,
-	);
+	const named = Object.keys(context.namedGroups ?? {}).map((name) => `@${name}`);
+	const valid = [
+		"@all",
+		...Object.keys(CAPABILITY_GROUPS),
+		...named,
+		"@group:<id>",
+		"@children:<agent>",
+		"@run:<id>",
+	];
+	throw new Error(`Unknown group address: "${groupAddress}". Valid groups: ${valid.join(", ")}`);
 }
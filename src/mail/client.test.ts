@@ -2,10 +2,11 @@ import { afterEach, beforeEach, describe, expect, test } from "bun:test";
 import { mkdtemp } from "node:fs/promises";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
-import { MailError } from "../errors.ts";
+import { MailError, ValidationError } from "../errors.ts";
 import { cleanupTempDir } from "../test-helpers.ts";
-import type { WorkerDonePayload } from "../types.ts";
+import type { MailMessage, WorkerDonePayload } from "../types.ts";
 import { createMailClient, type MailClient, parsePayload } from "./client.ts";
+import { buildPayloadSchemas } from "./schemas.ts";
 import { createMailStore, type MailStore } from "./store.ts";
 
 describe("createMailClient", () => {
@@ -761,6 +762,164 @@ describe("createMailClient", () => {
 		});
 	});
 
+	describe("delivery receipts", () => {
+		function sendDispatch(): string {
+			return client.sendProtocol({
+				from: "lead-1",
+				to: "builder-1",
+				subject: "Build task",
+				body: "Spec attached",
+				type: "dispatch",
+				payload: {
+					taskId: "task-1",
+					specPath: ".overstory/specs/task-1.md",
+					capability: "builder",
+					fileScope: [],
+				},
+			});
+		}
+
+		test("checkInject marks messages delivered, not read, and asks for an ack", () => {
+			const id = sendDispatch();
+			const output = client.checkInject("builder-1");
+			expect(output).toContain(`ov mail ack ${id}`);
+
+			const msg = store.getById(id);
+			expect(msg?.read).toBe(true);
+			expect(msg?.deliveredAt).toBeTruthy();
+			expect(msg?.readAt).toBeNull();
+			expect(client.markRead(id)).toEqual({ alreadyRead: false });
+		});
+
+		test("ack and complete advance the state and report the previous one", () => {
+			const id = sendDispatch();
+			expect(client.ack(id, { agent: "builder-1" })).toEqual({ previous: "sent" });
+			expect(client.ack(id, { complete: true })).toEqual({ previous: "acked" });
+			expect(store.getById(id)?.completedAt).toBeTruthy();
+		});
+
+		test("ack rejects other agents and non-protocol messages", () => {
+			const id = sendDispatch();
+			expect(() => client.ack(id, { agent: "builder-2" })).toThrow(MailError);
+			const statusId = client.send({ from: "a", to: "b", subject: "s", body: "b" });
+			expect(() => client.ack(statusId)).toThrow(MailError);
+		});
+	});
+
+	describe("payload validation", () => {
+		const done: WorkerDonePayload = {
+			taskId: "task-1",
+			branch: "agent/builder-1",
+			exitCode: 0,
+			filesModified: ["src/a.ts"],
+		};
+
+		test("send rejects a protocol payload that does not match its schema", () => {
+			expect(() =>
+				client.send({
+					from: "builder-1",
+					to: "lead-1",
+					subject: "Done",
+					body: "Done",
+					type: "worker_done",
+					payload: JSON.stringify({ ...done, filesModified: "src/a.ts" }),
+				}),
+			).toThrow(ValidationError);
+			expect(() =>
+				client.send({
+					from: "builder-1",
+					to: "lead-1",
+					subject: "Done",
+					body: "Done",
+					type: "worker_done",
+					payload: "not json",
+				}),
+			).toThrow("not valid JSON");
+			expect(store.getAll()).toEqual([]);
+		});
+
+		test("send and sendProtocol record the schema version", () => {
+			const viaSend = client.send({
+				from: "builder-1",
+				to: "lead-1",
+				subject: "Done",
+				body: "Done",
+				type: "worker_done",
+				payload: JSON.stringify(done),
+			});
+			const viaProtocol = client.sendProtocol({
+				from: "builder-1",
+				to: "lead-1",
+				subject: "Done",
+				body: "Done",
+				type: "worker_done",
+				payload: done,
+			});
+			const status = client.send({
+				from: "builder-1",
+				to: "lead-1",
+				subject: "Note",
+				body: "Free-form",
+				payload: JSON.stringify({ anything: true }),
+			});
+			expect(store.getById(viaSend)?.payloadVersion).toBe(1);
+			expect(store.getById(viaProtocol)?.payloadVersion).toBe(1);
+			expect(store.getById(status)?.payloadVersion).toBeNull();
+		});
+
+		test("parsePayload rejects a stored payload that does not match its schema", () => {
+			const msg = store.insert({
+				id: "msg-bad-shape",
+				from: "builder-1",
+				to: "lead-1",
+				subject: "Done",
+				body: "Done",
+				type: "worker_done",
+				priority: "normal",
+				threadId: null,
+				payload: JSON.stringify({ ...done, filesModified: "src/a.ts" }),
+			});
+			expect(() => parsePayload(msg, "worker_done")).toThrow('field "filesModified"');
+			expect(() => parsePayload({ ...msg, payload: JSON.stringify(done) }, "merged")).toThrow(
+				"Expected a merged payload",
+			);
+		});
+
+		test("custom protocol types are validated with the configured schemas", () => {
+			const schemas = buildPayloadSchemas({
+				protocols: { deploy_done: { v1: { url: "string" } } },
+			});
+			const customStore = createMailStore(join(tempDir, "custom.db"), {
+				protocolTypes: ["deploy_done"],
+			});
+			const custom = createMailClient(customStore, { schemas });
+			try {
+				const type = "deploy_done" as MailMessage["type"];
+				const id = custom.send({
+					from: "deployer",
+					to: "lead-1",
+					subject: "Deployed",
+					body: "Live",
+					type,
+					payload: JSON.stringify({ url: "https://example.com" }),
+				});
+				expect(customStore.getById(id)?.payloadVersion).toBe(1);
+				expect(() =>
+					custom.send({
+						from: "deployer",
+						to: "lead-1",
+						subject: "Deployed",
+						body: "Live",
+						type,
+						payload: JSON.stringify({ link: "https://example.com" }),
+					}),
+				).toThrow('unknown field "link"');
+			} finally {
+				custom.close();
+			}
+		});
+	});
+
 	describe("close", () => {
 		test("closes without error", () => {
 			// Create a separate client/store to test close independently
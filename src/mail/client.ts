@@ -2,16 +2,28 @@
  * Mail client for inter-agent messaging.
  *
  * Wraps the low-level MailStore with higher-level operations:
- * send, check, checkInject (hook format), list, markRead, reply.
+ * send, check, checkInject (hook format), list, markRead, ack, reply.
  * Synchronous by design (bun:sqlite is sync, ~1-5ms per query).
+ * Protocol payloads are validated against their schemas (schemas.ts) on send.
  */
 
-import { MailError } from "../errors.ts";
-import type { MailMessage, MailPayloadMap, MailProtocolType } from "../types.ts";
+import { MailError, ValidationError } from "../errors.ts";
+import type { MailDeliveryState, MailMessage, MailPayloadMap, MailProtocolType } from "../types.ts";
+import { ACK_REQUIRED_TYPES, deliveryState } from "./receipts.ts";
+import {
+	BUILTIN_PAYLOAD_SCHEMAS,
+	type PayloadSchemaRegistry,
+	readPayload,
+	validatePayload,
+} from "./schemas.ts";
 import type { MailStore } from "./store.ts";
 
 export interface MailClient {
-	/** Send a new message. Returns the assigned message ID. */
+	/**
+	 * Send a new message. Returns the assigned message ID.
+	 * A payload on a type with a schema is validated (against `payloadVersion`,
+	 * default the newest) and a ValidationError thrown if it does not match.
+	 */
 	send(msg: {
 		from: string;
 		to: string;
@@ -21,6 +33,7 @@ export interface MailClient {
 		priority?: MailMessage["priority"];
 		threadId?: string;
 		payload?: string;
+		payloadVersion?: number;
 	}): string;
 
 	/** Send a typed protocol message with structured payload. Returns the message ID. */
@@ -35,18 +48,28 @@ export interface MailClient {
 		payload: MailPayloadMap[T];
 	}): string;
 
-	/** Get unread messages for an agent. Marks them as read. */
+	/** Get unread messages for an agent. Marks them as read and delivered. */
 	check(agentName: string): MailMessage[];
 
-	/** Get unread messages formatted for hook injection (human-readable string). */
+	/** Get unread messages formatted for hook injection (human-readable string). Marks them delivered. */
 	checkInject(agentName: string): string;
 
+	/** Record that a message reached its recipient by another channel (e.g. headless follow-up). */
+	markDelivered(id: string): void;
+
 	/** List messages with optional filters. */
 	list(filters?: { from?: string; to?: string; unread?: boolean }): MailMessage[];
 
 	/** Mark a message as read by ID. Returns whether the message was already read. */
 	markRead(id: string): { alreadyRead: boolean };
 
+	/**
+	 * Acknowledge a protocol message, or with `complete` mark the work it
+	 * requested as done. When `agent` is given it must be the recipient.
+	 * Returns the message's delivery state before the call.
+	 */
+	ack(id: string, opts?: { agent?: string; complete?: boolean }): { previous: MailDeliveryState };
+
 	/** Reply to a message. Returns the new message ID. */
 	reply(messageId: string, body: string, from: string): string;
 
@@ -57,19 +80,54 @@ export interface MailClient {
 /**
  * Parse a JSON payload from a mail message, returning the typed object.
  * Returns null if the message has no payload or if parsing fails.
+ *
+ * A payload is validated against the schema version it was sent with
+ * (the newest for messages stored before versioning) and upgraded to the
+ * newest version. Throws a ValidationError if the message is not of
+ * `expectedType` or the payload does not match its schema.
  */
 export function parsePayload<T extends MailProtocolType>(
 	message: MailMessage,
-	_expectedType: T,
+	expectedType: T,
+	schemas: PayloadSchemaRegistry = BUILTIN_PAYLOAD_SCHEMAS,
 ): MailPayloadMap[T] | null {
 	if (message.payload === null) {
 		return null;
 	}
+	if (message.type !== expectedType) {
+		throw new ValidationError(
+			`Expected a ${expectedType} payload, got a ${message.type} message (${message.id})`,
+			{ field: "type", value: message.type },
+		);
+	}
+	let raw: unknown;
 	try {
-		return JSON.parse(message.payload) as MailPayloadMap[T];
+		raw = JSON.parse(message.payload);
 	} catch {
 		return null;
 	}
+	const versions = schemas.get(expectedType) ?? [];
+	const version = message.payloadVersion ?? versions[versions.length - 1]?.version ?? 1;
+	return readPayload(schemas, expectedType, raw, version) as MailPayloadMap[T];
+}
+
+/** Parse and validate a JSON payload string for sending. Returns the schema version used. */
+function checkOutgoingPayload(
+	schemas: PayloadSchemaRegistry,
+	type: string,
+	payload: string,
+	version?: number,
+): number | null {
+	let raw: unknown;
+	try {
+		raw = JSON.parse(payload);
+	} catch {
+		throw new ValidationError(`${type} payload is not valid JSON`, {
+			field: "payload",
+			value: payload,
+		});
+	}
+	return validatePayload(schemas, type, raw, version);
 }
 
 /** Protocol types that represent structured coordination messages. */
@@ -108,6 +166,11 @@ function formatForInjection(messages: MailMessage[]): string {
 		if (msg.payload !== null && PROTOCOL_TYPES.has(msg.type)) {
 			lines.push(`Payload: ${msg.payload}`);
 		}
+		if (ACK_REQUIRED_TYPES.has(msg.type)) {
+			lines.push(
+				`[Acknowledge now with: ov mail ack ${msg.id} — add --complete when the work is done]`,
+			);
+		}
 		lines.push(`[Reply with: ov mail reply ${msg.id} --body "..."]`);
 		lines.push("");
 	}
@@ -119,26 +182,40 @@ function formatForInjection(messages: MailMessage[]): string {
  * Create a MailClient wrapping the given MailStore.
  *
  * @param store - The underlying MailStore for persistence
- * @returns A MailClient with send, check, checkInject, list, markRead, reply
+ * @param options.schemas - Payload schemas (default: the built-in protocol types;
+ *   pass buildPayloadSchemas(config.mail) to include custom types)
+ * @returns A MailClient with send, check, checkInject, list, markRead, ack, reply
  */
-export function createMailClient(store: MailStore): MailClient {
+export function createMailClient(
+	store: MailStore,
+	options?: { schemas?: PayloadSchemaRegistry },
+): MailClient {
+	const schemas = options?.schemas ?? BUILTIN_PAYLOAD_SCHEMAS;
+
 	return {
 		send(msg): string {
+			const type = msg.type ?? "status";
+			const payloadVersion =
+				msg.payload === undefined
+					? null
+					: checkOutgoingPayload(schemas, type, msg.payload, msg.payloadVersion);
 			const message = store.insert({
 				id: "",
 				from: msg.from,
 				to: msg.to,
 				subject: msg.subject,
 				body: msg.body,
-				type: msg.type ?? "status",
+				type,
 				priority: msg.priority ?? "normal",
 				threadId: msg.threadId ?? null,
 				payload: msg.payload ?? null,
+				payloadVersion,
 			});
 			return message.id;
 		},
 
 		sendProtocol(msg): string {
+			const payloadVersion = validatePayload(schemas, msg.type, msg.payload);
 			const message = store.insert({
 				id: "",
 				from: msg.from,
@@ -149,6 +226,7 @@ export function createMailClient(store: MailStore): MailClient {
 				priority: msg.priority ?? "normal",
 				threadId: msg.threadId ?? null,
 				payload: JSON.stringify(msg.payload),
+				payloadVersion,
 			});
 			return message.id;
 		},
@@ -156,7 +234,7 @@ export function createMailClient(store: MailStore): MailClient {
 		check(agentName): MailMessage[] {
 			const messages = store.getUnread(agentName);
 			for (const msg of messages) {
-				store.markRead(msg.id);
+				store.recordReceipt(msg.id, "delivered");
 			}
 			return messages;
 		},
@@ -164,11 +242,15 @@ export function createMailClient(store: MailStore): MailClient {
 		checkInject(agentName): string {
 			const messages = store.getUnread(agentName);
 			for (const msg of messages) {
-				store.markRead(msg.id);
+				store.recordReceipt(msg.id, "delivered");
 			}
 			return formatForInjection(messages);
 		},
 
+		markDelivered(id): void {
+			store.recordReceipt(id, "delivered");
+		},
+
 		list(filters): MailMessage[] {
 			return store.getAll(filters);
 		},
@@ -180,13 +262,36 @@ export function createMailClient(store: MailStore): MailClient {
 					messageId: id,
 				});
 			}
-			if (msg.read) {
+			if (msg.readAt !== null) {
 				return { alreadyRead: true };
 			}
 			store.markRead(id);
 			return { alreadyRead: false };
 		},
 
+		ack(id, opts): { previous: MailDeliveryState } {
+			const msg = store.getById(id);
+			if (!msg) {
+				throw new MailError(`Message not found: ${id}`, {
+					messageId: id,
+				});
+			}
+			if (!PROTOCOL_TYPES.has(msg.type)) {
+				throw new MailError(
+					`Only protocol messages can be acknowledged: ${id} is a ${msg.type} message`,
+					{ messageId: id },
+				);
+			}
+			if (opts?.agent !== undefined && opts.agent !== msg.to) {
+				throw new MailError(`Message ${id} is addressed to ${msg.to}, not ${opts.agent}`, {
+					messageId: id,
+				});
+			}
+			const previous = deliveryState(msg);
+			store.recordReceipt(id, opts?.complete ? "completed" : "acked");
+			return { previous };
+		},
+
 		reply(messageId, body, from): string {
 			const original = store.getById(messageId);
 			if (!original) {
@@ -0,0 +1,61 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import type { MailMessage } from "../types.ts";
+import { deliveryState, hasReachedState, waitForReceipt } from "./receipts.ts";
+import { createMailStore, type MailStore } from "./store.ts";
+
+describe("receipts", () => {
+	let store: MailStore;
+	let id: string;
+
+	beforeEach(() => {
+		store = createMailStore(":memory:");
+		id = store.insert({
+			id: "",
+			from: "lead-1",
+			to: "builder-1",
+			subject: "Build task",
+			body: "Spec attached",
+			type: "assign",
+			priority: "normal",
+			threadId: null,
+		}).id;
+	});
+
+	afterEach(() => {
+		store.close();
+	});
+
+	function current(): MailMessage {
+		const msg = store.getById(id);
+		if (msg === null) throw new Error(`message ${id} missing`);
+		return msg;
+	}
+
+	test("deliveryState reports the furthest state reached", () => {
+		expect(deliveryState(current())).toBe("sent");
+		store.recordReceipt(id, "acked");
+		const msg = current();
+		expect(deliveryState(msg)).toBe("acked");
+		expect(hasReachedState(msg, "read")).toBe(true);
+		expect(hasReachedState(msg, "completed")).toBe(false);
+	});
+
+	test("waitForReceipt resolves once the state is reached", async () => {
+		setTimeout(() => store.recordReceipt(id, "acked"), 20);
+		const result = await waitForReceipt(store, id, "acked", {
+			timeoutMs: 2_000,
+			pollIntervalMs: 5,
+		});
+		expect(result?.reached).toBe(true);
+		expect(result?.message.ackedAt).toBeTruthy();
+	});
+
+	test("waitForReceipt times out with the current copy, or null for unknown IDs", async () => {
+		const result = await waitForReceipt(store, id, "completed", {
+			timeoutMs: 20,
+			pollIntervalMs: 5,
+		});
+		expect(result?.reached).toBe(false);
+		expect(await waitForReceipt(store, "msg-missing", "acked", { timeoutMs: 0 })).toBeNull();
+	});
+});
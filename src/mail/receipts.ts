@@ -0,0 +1,80 @@
+/**
+ * Delivery receipts for mail messages.
+ *
+ * The `read` flag only says a message left the recipient's inbox, which
+ * happens the moment it is injected into a hook. Receipts record how far the
+ * recipient actually got:
+ *
+ *   delivered  injected into the recipient's context or fetched by `ov mail check`
+ *   read       explicitly read (`ov mail read`)
+ *   acked      recipient acknowledged it (`ov mail ack`)
+ *   completed  recipient finished the requested work (`ov mail ack --complete`)
+ *
+ * Each state implies the earlier ones. Senders wait on a state with
+ * `ov mail await`; the watchdog re-delivers, then escalates, dispatch/assign
+ * messages that are never acknowledged (watchdog/acks.ts).
+ */
+
+import type { MailDeliveryState, MailMessage, MailMessageType } from "../types.ts";
+import type { MailStore } from "./store.ts";
+
+/** Delivery states in order of progress. */
+export const MAIL_DELIVERY_STATES: readonly MailDeliveryState[] = [
+	"sent",
+	"delivered",
+	"read",
+	"acked",
+	"completed",
+] as const;
+
+/** Protocol types whose recipient is expected to acknowledge them. */
+export const ACK_REQUIRED_TYPES: ReadonlySet<MailMessageType> = new Set(["dispatch", "assign"]);
+
+/** Default poll interval for waitForReceipt. */
+const DEFAULT_POLL_INTERVAL_MS = 500;
+
+/** The furthest delivery state a message has reached. */
+export function deliveryState(message: MailMessage): MailDeliveryState {
+	if (message.completedAt !== null) return "completed";
+	if (message.ackedAt !== null) return "acked";
+	if (message.readAt !== null) return "read";
+	if (message.deliveredAt !== null) return "delivered";
+	return "sent";
+}
+
+/** Whether a message has reached `state` (or a later one). */
+export function hasReachedState(message: MailMessage, state: MailDeliveryState): boolean {
+	return (
+		MAIL_DELIVERY_STATES.indexOf(deliveryState(message)) >= MAIL_DELIVERY_STATES.indexOf(state)
+	);
+}
+
+/**
+ * Poll the store until a message reaches `state` or the timeout expires.
+ *
+ * Returns the latest copy of the message and whether it reached the state,
+ * or null if the message does not exist.
+ */
+export async function waitForReceipt(
+	store: MailStore,
+	id: string,
+	state: MailDeliveryState,
+	options: { timeoutMs: number; pollIntervalMs?: number },
+): Promise<{ message: MailMessage; reached: boolean } | null> {
+	const pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+	const deadline = Date.now() + options.timeoutMs;
+	while (true) {
+		const message = store.getById(id);
+		if (message === null) {
+			return null;
+		}
+		if (hasReachedState(message, state)) {
+			return { message, reached: true };
+		}
+		const remaining = deadline - Date.now();
+		if (remaining <= 0) {
+			return { message, reached: false };
+		}
+		await Bun.sleep(Math.min(pollIntervalMs, remaining));
+	}
+}
@@ -0,0 +1,160 @@
+import { describe, expect, test } from "bun:test";
+import { ValidationError } from "../errors.ts";
+import {
+	BUILTIN_PAYLOAD_SCHEMAS,
+	buildPayloadSchemas,
+	type PayloadSchema,
+	parseFieldType,
+	readPayload,
+	validatePayload,
+} from "./schemas.ts";
+
+const WORKER_DONE = {
+	taskId: "task-1",
+	branch: "overstory/builder-1/task-1",
+	exitCode: 0,
+	filesModified: ["src/a.ts"],
+};
+
+describe("parseFieldType", () => {
+	test("parses base kinds, lists, enums, nullable and optional fields", () => {
+		expect(parseFieldType("string")).toEqual({
+			kind: "string",
+			list: false,
+			nullable: false,
+			optional: false,
+		});
+		expect(parseFieldType("integer[]|null?")).toEqual({
+			kind: "integer",
+			list: true,
+			nullable: true,
+			optional: true,
+		});
+		expect(parseFieldType("low|high")).toEqual({
+			kind: "enum",
+			values: ["low", "high"],
+			list: false,
+			nullable: false,
+			optional: false,
+		});
+	});
+
+	test("rejects unknown kinds and mixed kinds", () => {
+		expect(() => parseFieldType("strng")).toThrow("invalid field type");
+		expect(() => parseFieldType("string|number")).toThrow("invalid field type");
+		expect(() => parseFieldType("object{}")).toThrow("invalid field type");
+		expect(() => parseFieldType("")).toThrow("invalid field type");
+	});
+});
+
+describe("validatePayload", () => {
+	test("accepts a valid payload and returns the schema version", () => {
+		expect(validatePayload(BUILTIN_PAYLOAD_SCHEMAS, "worker_done", WORKER_DONE)).toBe(1);
+		expect(
+			validatePayload(BUILTIN_PAYLOAD_SCHEMAS, "escalation", {
+				severity: "error",
+				taskId: null,
+				context: "stuck",
+			}),
+		).toBe(1);
+	});
+
+	test("rejects unknown, missing and wrongly typed fields", () => {
+		const check = (payload: unknown) => () =>
+			validatePayload(BUILTIN_PAYLOAD_SCHEMAS, "worker_done", payload);
+		expect(check({ ...WORKER_DONE, extra: true })).toThrow('unknown field "extra"');
+		expect(check({ ...WORKER_DONE, exitCode: undefined })).toThrow(
+			'missing required field "exitCode"',
+		);
+		expect(check({ ...WORKER_DONE, filesModified: "src/a.ts" })).toThrow(
+			'field "filesModified" must be string[]',
+		);
+		expect(check({ ...WORKER_DONE, exitCode: 1.5 })).toThrow(ValidationError);
+		expect(check(["not", "an", "object"])).toThrow("must be a JSON object");
+	});
+
+	test("optional fields may be omitted but not mistyped", () => {
+		const dispatch = {
+			taskId: "task-1",
+			specPath: ".overstory/specs/task-1.md",
+			capability: "builder",
+			fileScope: [],
+		};
+		expect(validatePayload(BUILTIN_PAYLOAD_SCHEMAS, "dispatch", dispatch)).toBe(1);
+		expect(() =>
+			validatePayload(BUILTIN_PAYLOAD_SCHEMAS, "dispatch", { ...dispatch, skipReview: "yes" }),
+		).toThrow('field "skipReview" must be boolean');
+		expect(() =>
+			validatePayload(BUILTIN_PAYLOAD_SCHEMAS, "dispatch", { ...dispatch, capability: "wizard" }),
+		).toThrow('field "capability"');
+	});
+
+	test("types without a schema are not validated", () => {
+		expect(validatePayload(BUILTIN_PAYLOAD_SCHEMAS, "status", { anything: 1 })).toBeNull();
+	});
+
+	test("rejects an unknown version", () => {
+		expect(() => validatePayload(BUILTIN_PAYLOAD_SCHEMAS, "worker_done", WORKER_DONE, 7)).toThrow(
+			"No v7 schema for worker_done payloads",
+		);
+	});
+});
+
+describe("readPayload", () => {
+	test("validates against the stored version and upgrades to the newest", () => {
+		const v1: PayloadSchema = {
+			version: 1,
+			fields: { url: parseFieldType("string") },
+		};
+		const v2: PayloadSchema = {
+			version: 2,
+			fields: { urls: parseFieldType("string[]") },
+			upgrade: (payload) => ({ urls: [payload.url] }),
+		};
+		const registry = new Map([["deploy_done", [v1, v2]]]);
+
+		expect(readPayload(registry, "deploy_done", { url: "https://a" }, 1)).toEqual({
+			urls: ["https://a"],
+		});
+		expect(readPayload(registry, "deploy_done", { urls: ["https://b"] }, 2)).toEqual({
+			urls: ["https://b"],
+		});
+		expect(() => readPayload(registry, "deploy_done", { urls: ["https://b"] }, 1)).toThrow(
+			ValidationError,
+		);
+	});
+});
+
+describe("buildPayloadSchemas", () => {
+	test("adds custom protocol types with versions in order", () => {
+		const registry = buildPayloadSchemas({
+			protocols: {
+				deploy_done: {
+					v2: { url: "string", environment: "staging|production" },
+					v1: { url: "string" },
+				},
+			},
+		});
+		expect(registry.get("deploy_done")?.map((s) => s.version)).toEqual([1, 2]);
+		expect(registry.has("worker_done")).toBe(true);
+		expect(
+			validatePayload(registry, "deploy_done", { url: "https://a", environment: "staging" }),
+		).toBe(2);
+		expect(validatePayload(registry, "deploy_done", { url: "https://a" }, 1)).toBe(1);
+	});
+
+	test("rejects bad type names, built-in names, version keys and field types", () => {
+		expect(() => buildPayloadSchemas({ protocols: { "Deploy-Done": { v1: {} } } })).toThrow(
+			"type names must match",
+		);
+		expect(() => buildPayloadSchemas({ protocols: { worker_done: { v1: {} } } })).toThrow(
+			"is a built-in mail type",
+		);
+		expect(() => buildPayloadSchemas({ protocols: { deploy_done: { version1: {} } } })).toThrow(
+			"version keys must be v1, v2",
+		);
+		expect(() =>
+			buildPayloadSchemas({ protocols: { deploy_done: { v1: { url: "string|number" } } } }),
+		).toThrow("mail.protocols.deploy_done.v1.url");
+	});
+});
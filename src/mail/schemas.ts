@@ -0,0 +1,353 @@
+/**
+ * Versioned payload schemas for mail protocol messages.
+ *
+ * Every MailProtocolType has a schema for its JSON payload. Payloads are
+ * validated when sent (`MailClient.send`/`sendProtocol`, `ov mail send
+ * --payload`) and when read (`parsePayload`): unknown fields, missing fields
+ * and wrongly typed values are rejected with a ValidationError.
+ *
+ * Schemas are versioned. A message stores the version its payload was
+ * validated against; reading an older payload validates it against that
+ * version and then runs each later version's `upgrade` to return the current
+ * shape. To change a built-in payload, add a version with an `upgrade` from
+ * the previous one rather than editing the existing version.
+ *
+ * Projects add their own protocol types under `mail.protocols` in
+ * config.yaml (see MailConfig). Their names are added to the mail store's
+ * type CHECK constraint.
+ */
+
+import { ValidationError } from "../errors.ts";
+import type { MailConfig, MailProtocolType, PayloadFieldSpec } from "../types.ts";
+import { MAIL_MESSAGE_TYPES, SUPPORTED_CAPABILITIES } from "../types.ts";
+
+/** A parsed payload field type. */
+export interface PayloadField {
+	kind: "string" | "number" | "integer" | "boolean" | "enum";
+	/** Allowed values when kind is "enum". */
+	values?: readonly string[];
+	list: boolean;
+	nullable: boolean;
+	optional: boolean;
+}
+
+/** One version of a protocol type's payload schema. */
+export interface PayloadSchema {
+	version: number;
+	fields: Record<string, PayloadField>;
+	/** Convert a payload of the previous version to this version. */
+	upgrade?: (payload: Record<string, unknown>) => Record<string, unknown>;
+}
+
+/** Protocol type → schema versions in ascending order. */
+export type PayloadSchemaRegistry = ReadonlyMap<string, readonly PayloadSchema[]>;
+
+const BASE_KINDS = new Set(["string", "number", "integer", "boolean"]);
+const ENUM_VALUE = /^[A-Za-z0-9][\w.-]*$/;
+/** Custom protocol type names (same shape as the built-in ones). */
+export const PROTOCOL_TYPE_NAME = /^[a-z][a-z0-9_]*$/;
+/** Version keys under a custom protocol type: v1, v2, ... */
+const VERSION_KEY = /^v([1-9]\d*)$/;
+
+/**
+ * Parse a field type such as `string`, `integer?`, `string[]` or
+ * `warning|error|critical`. Throws an Error describing the problem.
+ */
+export function parseFieldType(spec: PayloadFieldSpec): PayloadField {
+	let text = spec.trim();
+	const optional = text.endsWith("?");
+	if (optional) text = text.slice(0, -1);
+
+	const parts = text.split("|").map((part) => part.trim());
+	const nullable = parts.includes("null");
+	const rest = parts.filter((part) => part !== "null");
+
+	if (rest.length === 1 && rest[0] !== undefined) {
+		const list = rest[0].endsWith("[]");
+		const base = list ? rest[0].slice(0, -2) : rest[0];
+		if (BASE_KINDS.has(base)) {
+			return { kind: base as PayloadField["kind"], list, nullable, optional };
+		}
+	}
+	// Enums need two or more values so a misspelled kind ("strng") is not an enum
+	if (rest.length > 1 && rest.every((value) => ENUM_VALUE.test(value) && !BASE_KINDS.has(value))) {
+		return { kind: "enum", values: rest, list: false, nullable, optional };
+	}
+	throw new Error(
+		`invalid field type "${spec}": expected string, number, integer, boolean or a|b, optionally with [], |null and ?`,
+	);
+}
+
+/** Build one schema version from field type shorthands. */
+function schema(
+	version: number,
+	fields: Record<string, PayloadFieldSpec>,
+	upgrade?: PayloadSchema["upgrade"],
+): PayloadSchema {
+	return {
+		version,
+		fields: Object.fromEntries(
+			Object.entries(fields).map(([name, spec]) => [name, parseFieldType(spec)]),
+		),
+		upgrade,
+	};
+}
+
+/** Payload schemas of the built-in protocol types (mirror MailPayloadMap). */
+export const BUILTIN_PAYLOAD_SCHEMAS: ReadonlyMap<MailProtocolType, readonly PayloadSchema[]> =
+	new Map<MailProtocolType, readonly PayloadSchema[]>([
+		[
+			"worker_done",
+			[
+				schema(1, {
+					taskId: "string",
+					branch: "string",
+					exitCode: "integer",
+					filesModified: "string[]",
+				}),
+			],
+		],
+		[
+			"merge_ready",
+			[
+				schema(1, {
+					branch: "string",
+					taskId: "string",
+					agentName: "string",
+					filesModified: "string[]",
+				}),
+			],
+		],
+		[
+			"merged",
+			[
+				schema(1, {
+					branch: "string",
+					taskId: "string",
+					tier: "clean-merge|auto-resolve|ai-resolve|reimagine",
+				}),
+			],
+		],
+		[
+			"merge_failed",
+			[
+				schema(1, {
+					branch: "string",
+					taskId: "string",
+					conflictFiles: "string[]",
+					errorMessage: "string",
+				}),
+			],
+		],
+		[
+			"escalation",
+			[schema(1, { severity: "warning|error|critical", taskId: "string|null", context: "string" })],
+		],
+		["health_check", [schema(1, { agentName: "string", checkType: "liveness|readiness" })]],
+		[
+			"dispatch",
+			[
+				schema(1, {
+					taskId: "string",
+					specPath: "string",
+					capability: SUPPORTED_CAPABILITIES.join("|"),
+					fileScope: "string[]",
+					skipScouts: "boolean?",
+					skipReview: "boolean?",
+					maxAgents: "integer?",
+				}),
+			],
+		],
+		[
+			"assign",
+			[schema(1, { taskId: "string", specPath: "string", workerName: "string", branch: "string" })],
+		],
+	]);
+
+/**
+ * Build the schema registry: the built-in protocol types plus the custom
+ * types from `mail.protocols`. Throws a ValidationError for a malformed
+ * custom type (config validation reports these first).
+ */
+export function buildPayloadSchemas(mail?: MailConfig): PayloadSchemaRegistry {
+	const registry = new Map<string, readonly PayloadSchema[]>(BUILTIN_PAYLOAD_SCHEMAS);
+	for (const [type, versions] of Object.entries(mail?.protocols ?? {})) {
+		const field = `mail.protocols.${type}`;
+		if (!PROTOCOL_TYPE_NAME.test(type)) {
+			throw new ValidationError(`${field}: type names must match ${PROTOCOL_TYPE_NAME}`, {
+				field,
+				value: type,
+			});
+		}
+		if ((MAIL_MESSAGE_TYPES as readonly string[]).includes(type)) {
+			throw new ValidationError(`${field}: "${type}" is a built-in mail type`, {
+				field,
+				value: type,
+			});
+		}
+		if (versions === null || typeof versions !== "object" || Object.keys(versions).length === 0) {
+			throw new ValidationError(`${field} must map versions (v1, v2, ...) to fields`, {
+				field,
+				value: versions,
+			});
+		}
+
+		const schemas: PayloadSchema[] = [];
+		for (const [key, fields] of Object.entries(versions)) {
+			const match = VERSION_KEY.exec(key);
+			if (!match?.[1]) {
+				throw new ValidationError(`${field}.${key}: version keys must be v1, v2, ...`, {
+					field: `${field}.${key}`,
+					value: key,
+				});
+			}
+			if (fields === null || typeof fields !== "object") {
+				throw new ValidationError(`${field}.${key} must map field names to types`, {
+					field: `${field}.${key}`,
+					value: fields,
+				});
+			}
+			const parsed: Record<string, PayloadField> = {};
+			for (const [name, spec] of Object.entries(fields)) {
+				try {
+					if (typeof spec !== "string") throw new Error("field types must be strings");
+					parsed[name] = parseFieldType(spec);
+				} catch (err) {
+					throw new ValidationError(
+						`${field}.${key}.${name}: ${err instanceof Error ? err.message : String(err)}`,
+						{ field: `${field}.${key}.${name}`, value: spec },
+					);
+				}
+			}
+			schemas.push({ version: Number.parseInt(match[1], 10), fields: parsed });
+		}
+		registry.set(
+			type,
+			schemas.sort((a, b) => a.version - b.version),
+		);
+	}
+	return registry;
+}
+
+/** The newest schema for a type, or null if the type has no schema. */
+export function latestSchema(registry: PayloadSchemaRegistry, type: string): PayloadSchema | null {
+	const versions = registry.get(type);
+	return versions?.[versions.length - 1] ?? null;
+}
+
+/** Describe a field type for error messages (the shorthand form). */
+function describeField(field: PayloadField): string {
+	const base = field.kind === "enum" ? (field.values ?? []).join("|") : field.kind;
+	return `${base}${field.list ? "[]" : ""}${field.nullable ? "|null" : ""}`;
+}
+
+function matchesKind(field: PayloadField, value: unknown): boolean {
+	switch (field.kind) {
+		case "string":
+			return typeof value === "string";
+		case "number":
+			return typeof value === "number" && Number.isFinite(value);
+		case "integer":
+			return Number.isInteger(value);
+		case "boolean":
+			return typeof value === "boolean";
+		case "enum":
+			return typeof value === "string" && (field.values ?? []).includes(value);
+	}
+}
+
+function matchesField(field: PayloadField, value: unknown): boolean {
+	if (value === null) return field.nullable;
+	if (field.list) {
+		return Array.isArray(value) && value.every((item) => matchesKind(field, item));
+	}
+	return matchesKind(field, value);
+}
+
+/** Check a payload object against one schema version. */
+function checkFields(type: string, schema: PayloadSchema, payload: unknown): void {
+	const label = `${type} payload (v${schema.version})`;
+	if (payload === null || typeof payload !== "object" || Array.isArray(payload)) {
+		throw new ValidationError(`${label} must be a JSON object`, {
+			field: "payload",
+			value: payload,
+		});
+	}
+	const record = payload as Record<string, unknown>;
+	for (const key of Object.keys(record)) {
+		if (!(key in schema.fields)) {
+			throw new ValidationError(
+				`${label} has unknown field "${key}". Allowed: ${Object.keys(schema.fields).join(", ")}`,
+				{ field: `payload.${key}`, value: record[key] },
+			);
+		}
+	}
+	for (const [name, field] of Object.entries(schema.fields)) {
+		const value = record[name];
+		if (value === undefined) {
+			if (field.optional) continue;
+			throw new ValidationError(`${label} is missing required field "${name}"`, {
+				field: `payload.${name}`,
+			});
+		}
+		if (!matchesField(field, value)) {
+			throw new ValidationError(
+				`${label} field "${name}" must be ${describeField(field)}, got ${JSON.stringify(value)}`,
+				{ field: `payload.${name}`, value },
+			);
+		}
+	}
+}
+
+/**
+ * Validate a payload for sending. Checks it against `version` (default: the
+ * newest) and returns the version used, or null if the type has no schema
+ * (semantic types such as `status` carry free-form payloads).
+ */
+export function validatePayload(
+	registry: PayloadSchemaRegistry,
+	type: string,
+	payload: unknown,
+	version?: number,
+): number | null {
+	const versions = registry.get(type);
+	if (!versions || versions.length === 0) {
+		return null;
+	}
+	const schema =
+		version === undefined
+			? versions[versions.length - 1]
+			: versions.find((candidate) => candidate.version === version);
+	if (!schema) {
+		throw new ValidationError(
+			`No v${version} schema for ${type} payloads. Known versions: ${versions.map((v) => v.version).join(", ")}`,
+			{ field: "payloadVersion", value: version },
+		);
+	}
+	checkFields(type, schema, payload);
+	return schema.version;
+}
+
+/**
+ * Validate a stored payload against the version it was sent with and upgrade
+ * it to the newest version. Types without a schema are returned unchanged.
+ */
+export function readPayload(
+	registry: PayloadSchemaRegistry,
+	type: string,
+	payload: unknown,
+	version: number,
+): unknown {
+	const versions = registry.get(type);
+	if (!versions || versions.length === 0) {
+		return payload;
+	}
+	validatePayload(registry, type, payload, version);
+	let current = payload as Record<string, unknown>;
+	for (const schema of versions) {
+		if (schema.version > version && schema.upgrade) {
+			current = schema.upgrade(current);
+		}
+	}
+	return current;
+}
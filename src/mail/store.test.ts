@@ -1,3 +1,4 @@
+import { Database } from "bun:sqlite";
 import { afterEach, beforeEach, describe, expect, test } from "bun:test";
 import { mkdtemp } from "node:fs/promises";
 import { tmpdir } from "node:os";
@@ -703,4 +704,226 @@ describe("createMailStore", () => {
 			expect(all[0]?.payload).toBe(payload);
 		});
 	});
+
+	describe("delivery receipts", () => {
+		function insertDispatch(id: string): MailMessage {
+			return store.insert({
+				id,
+				from: "lead-1",
+				to: "builder-1",
+				subject: "Build task",
+				body: "Spec attached",
+				type: "dispatch",
+				priority: "normal",
+				threadId: null,
+			});
+		}
+
+		test("recordReceipt stamps every earlier state and keeps existing timestamps", () => {
+			insertDispatch("msg-receipt");
+			store.recordReceipt("msg-receipt", "delivered");
+			const deliveredAt = store.getById("msg-receipt")?.deliveredAt;
+			expect(deliveredAt).toBeTruthy();
+
+			store.recordReceipt("msg-receipt", "acked");
+			const msg = store.getById("msg-receipt");
+			expect(msg?.read).toBe(true);
+			expect(msg?.deliveredAt).toBe(deliveredAt ?? "");
+			expect(msg?.readAt).toBeTruthy();
+			expect(msg?.ackedAt).toBeTruthy();
+			expect(msg?.completedAt).toBeNull();
+		});
+
+		test("getAwaitingAck skips acked and escalated messages and honors redelivery time", () => {
+			insertDispatch("msg-pending");
+			insertDispatch("msg-acked");
+			insertDispatch("msg-escalated");
+			insertDispatch("msg-redelivered");
+			store.recordReceipt("msg-acked", "acked");
+			store.markEscalated("msg-escalated");
+			const future = new Date(Date.now() + 60_000).toISOString();
+
+			store.redeliver("msg-redelivered");
+			const redelivered = store.getById("msg-redelivered");
+			expect(redelivered?.read).toBe(false);
+			expect(redelivered?.redeliveries).toBe(1);
+
+			expect(store.getAwaitingAck(["dispatch"], future).map((m) => m.id)).toEqual([
+				"msg-pending",
+				"msg-redelivered",
+			]);
+			expect(store.getAwaitingAck(["assign"], future)).toEqual([]);
+			const justBefore = new Date(Date.parse(redelivered?.redeliveredAt ?? "") - 1).toISOString();
+			expect(store.getAwaitingAck(["dispatch"], justBefore).map((m) => m.id)).not.toContain(
+				"msg-redelivered",
+			);
+		});
+
+		test("adds receipt columns to a table created before receipts", () => {
+			const legacyPath = join(tempDir, "legacy.db");
+			const legacy = new Database(legacyPath);
+			legacy.exec(`CREATE TABLE messages (
+  id TEXT PRIMARY KEY, from_agent TEXT NOT NULL, to_agent TEXT NOT NULL,
+  subject TEXT NOT NULL, body TEXT NOT NULL,
+  type TEXT NOT NULL DEFAULT 'status' CHECK(type IN ('status','worker_done','dispatch')),
+  priority TEXT NOT NULL DEFAULT 'normal' CHECK(priority IN ('low','normal','high','urgent')),
+  thread_id TEXT, payload TEXT, read INTEGER NOT NULL DEFAULT 0,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')))`);
+			legacy.exec(
+				"INSERT INTO messages (id, from_agent, to_agent, subject, body, type, read) VALUES ('msg-old', 'a', 'b', 's', 'b', 'dispatch', 1)",
+			);
+			legacy.close();
+
+			const migrated = createMailStore(legacyPath);
+			try {
+				const msg = migrated.getById("msg-old");
+				expect(msg?.read).toBe(true);
+				expect(msg?.deliveredAt).toBeNull();
+				expect(msg?.redeliveries).toBe(0);
+			} finally {
+				migrated.close();
+			}
+		});
+	});
+
+	describe("payload schemas", () => {
+		test("stores the payload schema version", () => {
+			const msg = store.insert({
+				id: "msg-versioned",
+				from: "builder-1",
+				to: "lead-1",
+				subject: "Done",
+				body: "Done",
+				type: "worker_done",
+				priority: "normal",
+				threadId: null,
+				payload: "{}",
+				payloadVersion: 1,
+			});
+			expect(msg.payloadVersion).toBe(1);
+			expect(store.getById("msg-versioned")?.payloadVersion).toBe(1);
+		});
+
+		test("custom protocol types are added to the CHECK constraint and kept", () => {
+			const dbPath = join(tempDir, "custom.db");
+			const custom = createMailStore(dbPath, { protocolTypes: ["deploy_done"] });
+			const base = {
+				from: "deployer",
+				to: "lead-1",
+				subject: "Deployed",
+				body: "v1.2.3 is live",
+				priority: "normal" as const,
+				threadId: null,
+			};
+			try {
+				custom.insert({ ...base, id: "msg-custom", type: "deploy_done" as MailMessage["type"] });
+			} finally {
+				custom.close();
+			}
+
+			// A store opened without the custom types keeps them and their messages
+			const plain = createMailStore(dbPath);
+			try {
+				expect(plain.getById("msg-custom")?.type).toBe("deploy_done" as MailMessage["type"]);
+				plain.insert({ ...base, id: "msg-custom-2", type: "deploy_done" as MailMessage["type"] });
+				expect(() =>
+					plain.insert({ ...base, id: "msg-unknown", type: "unknown_type" as MailMessage["type"] }),
+				).toThrow(MailError);
+			} finally {
+				plain.close();
+			}
+		});
+
+		test("rejects custom type names that are not identifiers", () => {
+			expect(() =>
+				createMailStore(join(tempDir, "bad.db"), {
+					protocolTypes: ["x'); DROP TABLE messages;--"],
+				}),
+			).toThrow(MailError);
+		});
+	});
+
+	describe("search", () => {
+		function insert(
+			id: string,
+			overrides: Partial<Parameters<MailStore["insert"]>[0]> = {},
+		): MailMessage {
+			return store.insert({
+				id,
+				from: "builder-1",
+				to: "lead-1",
+				subject: "Status",
+				body: "Working",
+				type: "status",
+				priority: "normal",
+				threadId: null,
+				...overrides,
+			});
+		}
+
+		test("matches words in subject, body and payload", () => {
+			insert("msg-subject", { subject: "Flaky migration test" });
+			insert("msg-body", { body: "The migration failed on CI" });
+			insert("msg-payload", {
+				type: "worker_done",
+				payload: JSON.stringify({ filesModified: ["src/migration.ts"] }),
+			});
+			insert("msg-other", { body: "Unrelated" });
+
+			expect(
+				store
+					.search("migration")
+					.map((m) => m.id)
+					.sort(),
+			).toEqual(["msg-body", "msg-payload", "msg-subject"]);
+			expect(store.search("migration failed").map((m) => m.id)).toEqual(["msg-body"]);
+			expect(store.search("migr*").length).toBe(3);
+			// Punctuation is matched literally, not parsed as query syntax
+			expect(store.search("src/migration.ts").map((m) => m.id)).toEqual(["msg-payload"]);
+			expect(store.search("   ")).toEqual([]);
+		});
+
+		test("applies type, priority, participant, time and limit filters", () => {
+			insert("msg-a", { body: "deploy blocked", type: "question", priority: "high" });
+			insert("msg-b", { body: "deploy done", from: "builder-2", to: "lead-2" });
+			insert("msg-c", { body: "deploy retry", from: "lead-1", to: "builder-1" });
+
+			expect(store.search("deploy", { type: "question" }).map((m) => m.id)).toEqual(["msg-a"]);
+			expect(store.search("deploy", { priority: "high" }).map((m) => m.id)).toEqual(["msg-a"]);
+			expect(store.search("deploy", { participants: ["builder-2"] }).map((m) => m.id)).toEqual([
+				"msg-b",
+			]);
+			expect(store.search("deploy", { participants: [] })).toEqual([]);
+			expect(store.search("deploy", { until: "2000-01-01T00:00:00.000Z" })).toEqual([]);
+			expect(store.search("deploy", { since: "2000-01-01T00:00:00.000Z", limit: 2 }).length).toBe(
+				2,
+			);
+		});
+
+		test("keeps the index in sync on purge and indexes messages of a migrated table", () => {
+			insert("msg-keep", { body: "needle one" });
+			insert("msg-drop", { body: "needle two", from: "scout-1", to: "lead-1" });
+			store.purge({ agent: "scout-1" });
+			expect(store.search("needle").map((m) => m.id)).toEqual(["msg-keep"]);
+
+			const legacyPath = join(tempDir, "legacy-search.db");
+			const legacy = new Database(legacyPath);
+			legacy.exec(`CREATE TABLE messages (
+  id TEXT PRIMARY KEY, from_agent TEXT NOT NULL, to_agent TEXT NOT NULL,
+  subject TEXT NOT NULL, body TEXT NOT NULL, type TEXT NOT NULL DEFAULT 'status',
+  priority TEXT NOT NULL DEFAULT 'normal', thread_id TEXT, read INTEGER NOT NULL DEFAULT 0,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')))`);
+			legacy.exec(
+				"INSERT INTO messages (id, from_agent, to_agent, subject, body) VALUES ('msg-old', 'a', 'b', 'Old', 'haystack needle')",
+			);
+			legacy.close();
+
+			const migrated = createMailStore(legacyPath);
+			try {
+				expect(migrated.search("needle").map((m) => m.id)).toEqual(["msg-old"]);
+			} finally {
+				migrated.close();
+			}
+		});
+	});
 });
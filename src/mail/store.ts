@@ -1,25 +1,78 @@
 /**
  * SQLite-backed mail storage for inter-agent messaging.
  *
- * Provides low-level CRUD operations on the messages table.
+ * Provides low-level CRUD operations on the messages table, plus full-text
+ * search through an FTS5 index (messages_fts) kept in sync by triggers.
  * Uses bun:sqlite for zero-dependency, synchronous database access.
  * The higher-level mail client (L2) wraps this store.
  */
 
 import { Database } from "bun:sqlite";
 import { MailError } from "../errors.ts";
-import type { MailMessage } from "../types.ts";
+import type {
+	MailDeliveryState,
+	MailMessage,
+	MailMessageType,
+	MailReceiptField,
+} from "../types.ts";
 import { MAIL_MESSAGE_TYPES } from "../types.ts";
+import { PROTOCOL_TYPE_NAME } from "./schemas.ts";
+
+/** Filters for MailStore.search. All are optional and combined with AND. */
+export interface MailSearchFilters {
+	type?: string;
+	priority?: MailMessage["priority"];
+	/** Created at or after this ISO timestamp. */
+	since?: string;
+	/** Created at or before this ISO timestamp. */
+	until?: string;
+	/** Only messages sent by or to one of these agents. */
+	participants?: readonly string[];
+	limit?: number;
+}
 
 export interface MailStore {
 	insert(
-		message: Omit<MailMessage, "read" | "createdAt" | "payload"> & { payload?: string | null },
+		message: Omit<
+			MailMessage,
+			"read" | "createdAt" | "payload" | "payloadVersion" | MailReceiptField
+		> & {
+			payload?: string | null;
+			payloadVersion?: number | null;
+		},
 	): MailMessage;
 	getUnread(agentName: string): MailMessage[];
-	getAll(filters?: { from?: string; to?: string; unread?: boolean; limit?: number }): MailMessage[];
+	/** List messages, newest first. `since` keeps messages created at or after an ISO timestamp. */
+	getAll(filters?: {
+		from?: string;
+		to?: string;
+		unread?: boolean;
+		since?: string;
+		limit?: number;
+	}): MailMessage[];
 	getById(id: string): MailMessage | null;
 	getByThread(threadId: string): MailMessage[];
+	/**
+	 * Full-text search over subject, body and payload, newest first. Every
+	 * word in `query` must match; a trailing `*` matches a word prefix.
+	 */
+	search(query: string, filters?: MailSearchFilters): MailMessage[];
+	/** Mark a message read and stamp its read receipt. */
 	markRead(id: string): void;
+	/**
+	 * Stamp the receipt for `state` and every earlier state not yet reached,
+	 * and clear the message from the unread inbox. Existing timestamps are kept.
+	 */
+	recordReceipt(id: string, state: Exclude<MailDeliveryState, "sent">): void;
+	/**
+	 * Messages of the given types not yet acknowledged or escalated whose last
+	 * (re)delivery attempt is at or before `before` (ISO timestamp), oldest first.
+	 */
+	getAwaitingAck(types: readonly MailMessageType[], before: string): MailMessage[];
+	/** Put a message back in the recipient's unread inbox and count the re-delivery. */
+	redeliver(id: string): void;
+	/** Record that the watchdog escalated an unacknowledged message. */
+	markEscalated(id: string): void;
 	/** Delete messages matching the given criteria. Returns the number of messages deleted. */
 	purge(options: { all?: boolean; olderThanMs?: number; agent?: string }): number;
 	close(): void;
@@ -36,93 +89,169 @@ interface MessageRow {
 	priority: string;
 	thread_id: string | null;
 	payload: string | null;
+	payload_version: number | null;
 	read: number;
 	created_at: string;
+	delivered_at: string | null;
+	read_at: string | null;
+	acked_at: string | null;
+	completed_at: string | null;
+	redeliveries: number;
+	redelivered_at: string | null;
+	escalated_at: string | null;
 }
 
-/** Build the CHECK constraint for message types from the runtime constant. */
-const TYPE_CHECK = `CHECK(type IN (${MAIL_MESSAGE_TYPES.map((t) => `'${t}'`).join(",")}))`;
+/** Build the CHECK constraint for message types. */
+function typeCheck(types: readonly string[]): string {
+	return `CHECK(type IN (${types.map((t) => `'${t}'`).join(",")}))`;
+}
 
-const CREATE_TABLE = `
-CREATE TABLE IF NOT EXISTS messages (
+function createTableSql(types: readonly string[], ifNotExists: boolean): string {
+	return `
+CREATE TABLE ${ifNotExists ? "IF NOT EXISTS " : ""}messages (
   id TEXT PRIMARY KEY,
   from_agent TEXT NOT NULL,
   to_agent TEXT NOT NULL,
   subject TEXT NOT NULL,
   body TEXT NOT NULL,
-  type TEXT NOT NULL DEFAULT 'status' ${TYPE_CHECK},
+  type TEXT NOT NULL DEFAULT 'status' ${typeCheck(types)},
   priority TEXT NOT NULL DEFAULT 'normal' CHECK(priority IN ('low','normal','high','urgent')),
   thread_id TEXT,
   payload TEXT,
+  payload_version INTEGER,
   read INTEGER NOT NULL DEFAULT 0,
-  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  delivered_at TEXT,
+  read_at TEXT,
+  acked_at TEXT,
+  completed_at TEXT,
+  redeliveries INTEGER NOT NULL DEFAULT 0,
+  redelivered_at TEXT,
+  escalated_at TEXT
 )`;
+}
+
+/** Columns added after the original schema, with their definitions. */
+const ADDED_COLUMNS: ReadonlyArray<[string, string]> = [
+	["payload_version", "INTEGER"],
+	["delivered_at", "TEXT"],
+	["read_at", "TEXT"],
+	["acked_at", "TEXT"],
+	["completed_at", "TEXT"],
+	["redeliveries", "INTEGER NOT NULL DEFAULT 0"],
+	["redelivered_at", "TEXT"],
+	["escalated_at", "TEXT"],
+];
+
+/** Receipt timestamp column for each delivery state, in state order. */
+const RECEIPT_STATE_COLUMNS: ReadonlyArray<[Exclude<MailDeliveryState, "sent">, string]> = [
+	["delivered", "delivered_at"],
+	["read", "read_at"],
+	["acked", "acked_at"],
+	["completed", "completed_at"],
+];
+
+/** The messages table's CREATE statement, or null if the table does not exist. */
+function readTableSql(db: Database): string | null {
+	const row = db
+		.prepare<{ sql: string }, []>(
+			"SELECT sql FROM sqlite_master WHERE type='table' AND name='messages'",
+		)
+		.get();
+	return row?.sql ?? null;
+}
+
+/** Message types allowed by a table's type CHECK constraint. */
+function parseTypeCheck(sql: string): string[] {
+	const match = /CHECK\s*\(\s*type\s+IN\s*\(([^)]*)\)\s*\)/i.exec(sql);
+	if (!match?.[1]) {
+		return [];
+	}
+	return [...match[1].matchAll(/'([^']*)'/g)].flatMap((m) => (m[1] ? [m[1]] : []));
+}
+
+/**
+ * Message types the table must allow: the built-in types, custom types already
+ * in an up-to-date table (added by other processes), and `extraTypes`. The
+ * list only ever grows, so a process that does not know a project's custom
+ * types never drops them from the constraint.
+ */
+function resolveMessageTypes(existingSql: string | null, extraTypes: readonly string[]): string[] {
+	const existing = existingSql?.includes("worker_done") === true ? parseTypeCheck(existingSql) : [];
+	return [...new Set<string>([...MAIL_MESSAGE_TYPES, ...existing, ...extraTypes])];
+}
 
 /**
  * Migrate an existing messages table to the current schema.
  *
- * Handles two migration paths:
+ * Handles these migration paths:
  * 1. Tables without CHECK constraints → recreate with constraints
  * 2. Tables without payload column → add payload column
- * 3. Tables with old CHECK constraints (missing protocol types) → recreate with new types
+ * 3. Tables whose type CHECK lacks some of `types` (old protocol types or
+ *    newly configured custom types) → recreate with the new types
  *
  * SQLite does not support ALTER TABLE ADD CONSTRAINT, so constraint changes
- * require recreating the table.
+ * require recreating the table. Columns added later are handled by
+ * addMissingColumns.
  */
-function migrateSchema(db: Database): void {
-	const row = db
-		.prepare<{ sql: string }, []>(
-			"SELECT sql FROM sqlite_master WHERE type='table' AND name='messages'",
-		)
-		.get();
-	if (!row) {
+function migrateSchema(db: Database, existingSql: string | null, types: readonly string[]): void {
+	if (existingSql === null) {
 		// Table doesn't exist yet; CREATE TABLE IF NOT EXISTS will handle it
 		return;
 	}
 
-	const hasCheckConstraints = row.sql.includes("CHECK");
-	const hasPayloadColumn = row.sql.includes("payload");
-	const hasProtocolTypes = row.sql.includes("worker_done");
+	const hasCheckConstraints = existingSql.includes("CHECK");
+	const hasPayloadColumn = existingSql.includes("payload");
+	const allowed = new Set(parseTypeCheck(existingSql));
+	const hasAllTypes = types.every((type) => allowed.has(type));
 
 	// If schema is fully up to date, nothing to do
-	if (hasCheckConstraints && hasPayloadColumn && hasProtocolTypes) {
+	if (hasCheckConstraints && hasPayloadColumn && hasAllTypes) {
 		return;
 	}
 
 	// If only missing the payload column (has correct CHECK constraints), use ALTER TABLE
-	if (hasCheckConstraints && hasProtocolTypes && !hasPayloadColumn) {
+	if (hasCheckConstraints && hasAllTypes && !hasPayloadColumn) {
 		db.exec("ALTER TABLE messages ADD COLUMN payload TEXT");
 		return;
 	}
 
 	// Need to recreate the table (missing CHECK constraints or needs type update)
-	const validTypes = MAIL_MESSAGE_TYPES.map((t) => `'${t}'`).join(",");
+	const validTypes = types.map((t) => `'${t}'`).join(",");
 	db.exec("BEGIN TRANSACTION");
 	try {
+		// Rowids change when the table is copied; ensureSearchIndex rebuilds the index
+		for (const trigger of SEARCH_TRIGGERS) {
+			db.exec(`DROP TRIGGER IF EXISTS ${trigger}`);
+		}
+		db.exec("DROP TABLE IF EXISTS messages_fts");
 		db.exec("ALTER TABLE messages RENAME TO messages_old");
+		db.exec(createTableSql(types, false));
+		// Copy the columns both tables have, mapping invalid types to 'status'.
+		// Columns missing from old tables (payload, receipts) take their defaults.
+		const newColumns = new Set(
+			db
+				.prepare<{ name: string }, []>("PRAGMA table_info(messages)")
+				.all()
+				.map((col) => col.name),
+		);
+		const columns = db
+			.prepare<{ name: string }, []>("PRAGMA table_info(messages_old)")
+			.all()
+			.map((col) => col.name)
+			.filter((name) => newColumns.has(name));
+		const selects = columns.map((name) => {
+			if (name === "type") {
+				return `CASE WHEN type IN (${validTypes}) THEN type ELSE 'status' END`;
+			}
+			if (name === "priority") {
+				return "CASE WHEN priority IN ('low','normal','high','urgent') THEN priority ELSE 'normal' END";
+			}
+			return name;
+		});
 		db.exec(`
-CREATE TABLE messages (
-  id TEXT PRIMARY KEY,
-  from_agent TEXT NOT NULL,
-  to_agent TEXT NOT NULL,
-  subject TEXT NOT NULL,
-  body TEXT NOT NULL,
-  type TEXT NOT NULL DEFAULT 'status' CHECK(type IN (${validTypes})),
-  priority TEXT NOT NULL DEFAULT 'normal' CHECK(priority IN ('low','normal','high','urgent')),
-  thread_id TEXT,
-  payload TEXT,
-  read INTEGER NOT NULL DEFAULT 0,
-  created_at TEXT NOT NULL DEFAULT (datetime('now'))
-)`);
-		// Copy data, mapping invalid types to 'status'. Old tables may not have payload column.
-		const oldHasPayload = row.sql.includes("payload");
-		const payloadSelect = oldHasPayload ? "payload" : "NULL";
-		db.exec(`
-INSERT INTO messages (id, from_agent, to_agent, subject, body, type, priority, thread_id, payload, read, created_at)
-SELECT id, from_agent, to_agent, subject, body,
-  CASE WHEN type IN (${validTypes}) THEN type ELSE 'status' END,
-  CASE WHEN priority IN ('low','normal','high','urgent') THEN priority ELSE 'normal' END,
-  thread_id, ${payloadSelect}, read, created_at
+INSERT INTO messages (${columns.join(", ")})
+SELECT ${selects.join(", ")}
 FROM messages_old`);
 		db.exec("DROP TABLE messages_old");
 		db.exec("COMMIT");
@@ -132,6 +261,81 @@ FROM messages_old`);
 	}
 }
 
+/** Add columns missing from a table created before they were introduced. */
+function addMissingColumns(db: Database): void {
+	const existing = new Set(
+		db
+			.prepare<{ name: string }, []>("PRAGMA table_info(messages)")
+			.all()
+			.map((col) => col.name),
+	);
+	for (const [name, definition] of ADDED_COLUMNS) {
+		if (!existing.has(name)) {
+			db.exec(`ALTER TABLE messages ADD COLUMN ${name} ${definition}`);
+		}
+	}
+}
+
+/**
+ * Full-text index over subject, body and payload. External content: the text
+ * lives in messages and the index is keyed by its rowid, kept in sync by triggers.
+ */
+const CREATE_SEARCH_INDEX = `
+CREATE VIRTUAL TABLE messages_fts USING fts5(
+  subject, body, payload, content='messages', content_rowid='rowid'
+)`;
+
+const SEARCH_TRIGGERS = ["messages_fts_insert", "messages_fts_delete", "messages_fts_update"];
+
+const CREATE_SEARCH_TRIGGERS = `
+CREATE TRIGGER IF NOT EXISTS messages_fts_insert AFTER INSERT ON messages BEGIN
+  INSERT INTO messages_fts(rowid, subject, body, payload)
+  VALUES (new.rowid, new.subject, new.body, new.payload);
+END;
+CREATE TRIGGER IF NOT EXISTS messages_fts_delete AFTER DELETE ON messages BEGIN
+  INSERT INTO messages_fts(messages_fts, rowid, subject, body, payload)
+  VALUES ('delete', old.rowid, old.subject, old.body, old.payload);
+END;
+CREATE TRIGGER IF NOT EXISTS messages_fts_update AFTER UPDATE OF subject, body, payload ON messages BEGIN
+  INSERT INTO messages_fts(messages_fts, rowid, subject, body, payload)
+  VALUES ('delete', old.rowid, old.subject, old.body, old.payload);
+  INSERT INTO messages_fts(rowid, subject, body, payload)
+  VALUES (new.rowid, new.subject, new.body, new.payload);
+END`;
+
+/** Create the search index and triggers, indexing existing messages when the index is new. */
+function ensureSearchIndex(db: Database): void {
+	const exists = db
+		.prepare<{ name: string }, []>(
+			"SELECT name FROM sqlite_master WHERE type='table' AND name='messages_fts'",
+		)
+		.get();
+	if (!exists) {
+		db.exec(CREATE_SEARCH_INDEX);
+		db.exec("INSERT INTO messages_fts(messages_fts) VALUES ('rebuild')");
+	}
+	db.exec(CREATE_SEARCH_TRIGGERS);
+}
+
+/**
+ * Turn free text into an FTS5 query: each word becomes a quoted phrase (so
+ * punctuation such as `-` or `:` is not parsed as query syntax), all words
+ * must match, and a trailing `*` keeps prefix matching. Returns null when
+ * there are no words.
+ */
+export function toFtsQuery(text: string): string | null {
+	const terms = text
+		.split(/\s+/)
+		.filter((word) => word.length > 0)
+		.flatMap((word) => {
+			const prefix = word.endsWith("*");
+			const bare = prefix ? word.replace(/\*+$/, "") : word;
+			if (bare.length === 0) return [];
+			return [`"${bare.replaceAll('"', '""')}"${prefix ? "*" : ""}`];
+		});
+	return terms.length > 0 ? terms.join(" ") : null;
+}
+
 const CREATE_INDEXES = `
 CREATE INDEX IF NOT EXISTS idx_inbox ON messages(to_agent, read);
 CREATE INDEX IF NOT EXISTS idx_thread ON messages(thread_id)`;
@@ -163,8 +367,16 @@ function rowToMessage(row: MessageRow): MailMessage {
 		priority: row.priority as MailMessage["priority"],
 		threadId: row.thread_id,
 		payload: row.payload,
+		payloadVersion: row.payload_version,
 		read: row.read === 1,
 		createdAt: row.created_at,
+		deliveredAt: row.delivered_at,
+		readAt: row.read_at,
+		ackedAt: row.acked_at,
+		completedAt: row.completed_at,
+		redeliveries: row.redeliveries,
+		redeliveredAt: row.redelivered_at,
+		escalatedAt: row.escalated_at,
 	};
 }
 
@@ -173,8 +385,21 @@ function rowToMessage(row: MessageRow): MailMessage {
  *
  * Initializes the database with WAL mode and a 5-second busy timeout.
  * Creates the messages table and indexes if they do not already exist.
+ *
+ * @param options.protocolTypes - Custom protocol types (config `mail.protocols`)
+ *   to add to the table's type CHECK constraint
  */
-export function createMailStore(dbPath: string): MailStore {
+export function createMailStore(
+	dbPath: string,
+	options?: { protocolTypes?: readonly string[] },
+): MailStore {
+	// Type names are interpolated into the CHECK constraint
+	for (const type of options?.protocolTypes ?? []) {
+		if (!PROTOCOL_TYPE_NAME.test(type)) {
+			throw new MailError(`Invalid mail protocol type name: "${type}"`);
+		}
+	}
+
 	const db = new Database(dbPath);
 
 	// Configure for concurrent access from multiple agent processes.
@@ -186,11 +411,15 @@ export function createMailStore(dbPath: string): MailStore {
 	db.exec("PRAGMA busy_timeout = 5000");
 
 	// Migrate existing tables to current schema (no-op if table is new or already migrated)
-	migrateSchema(db);
+	const existingSql = readTableSql(db);
+	const types = resolveMessageTypes(existingSql, options?.protocolTypes ?? []);
+	migrateSchema(db, existingSql, types);
 
 	// Create schema (if table doesn't exist yet, creates with CHECK constraints)
-	db.exec(CREATE_TABLE);
+	db.exec(createTableSql(types, true));
+	addMissingColumns(db);
 	db.exec(CREATE_INDEXES);
+	ensureSearchIndex(db);
 
 	// Prepare statements for all queries
 	const insertStmt = db.prepare<
@@ -205,14 +434,15 @@ export function createMailStore(dbPath: string): MailStore {
 			$priority: string;
 			$thread_id: string | null;
 			$payload: string | null;
+			$payload_version: number | null;
 			$read: number;
 			$created_at: string;
 		}
 	>(`
 		INSERT INTO messages
-			(id, from_agent, to_agent, subject, body, type, priority, thread_id, payload, read, created_at)
+			(id, from_agent, to_agent, subject, body, type, priority, thread_id, payload, payload_version, read, created_at)
 		VALUES
-			($id, $from_agent, $to_agent, $subject, $body, $type, $priority, $thread_id, $payload, $read, $created_at)
+			($id, $from_agent, $to_agent, $subject, $body, $type, $priority, $thread_id, $payload, $payload_version, $read, $created_at)
 	`);
 
 	const getByIdStmt = db.prepare<MessageRow, { $id: string }>(`
@@ -227,15 +457,39 @@ export function createMailStore(dbPath: string): MailStore {
 		SELECT * FROM messages WHERE thread_id = $thread_id ORDER BY created_at ASC
 	`);
 
-	const markReadStmt = db.prepare<void, { $id: string }>(`
-		UPDATE messages SET read = 1 WHERE id = $id
+	const receiptStmts = new Map(
+		RECEIPT_STATE_COLUMNS.map(([state], index) => {
+			const stamps = RECEIPT_STATE_COLUMNS.slice(0, index + 1)
+				.map(([, column]) => `${column} = COALESCE(${column}, $now)`)
+				.join(", ");
+			return [
+				state,
+				db.prepare<void, { $id: string; $now: string }>(
+					`UPDATE messages SET read = 1, ${stamps} WHERE id = $id`,
+				),
+			];
+		}),
+	);
+
+	const redeliverStmt = db.prepare<void, { $id: string; $now: string }>(`
+		UPDATE messages SET read = 0, redeliveries = redeliveries + 1, redelivered_at = $now
+		WHERE id = $id
+	`);
+
+	const markEscalatedStmt = db.prepare<void, { $id: string; $now: string }>(`
+		UPDATE messages SET escalated_at = $now WHERE id = $id
 	`);
 
+	function recordReceipt(id: string, state: Exclude<MailDeliveryState, "sent">): void {
+		receiptStmts.get(state)?.run({ $id: id, $now: new Date().toISOString() });
+	}
+
 	// Dynamic filter queries are built at call time since the WHERE clause varies
 	function buildFilterQuery(filters?: {
 		from?: string;
 		to?: string;
 		unread?: boolean;
+		since?: string;
 		limit?: number;
 	}): MailMessage[] {
 		const conditions: string[] = [];
@@ -253,6 +507,10 @@ export function createMailStore(dbPath: string): MailStore {
 			conditions.push("read = $read");
 			params.$read = filters.unread ? 0 : 1;
 		}
+		if (filters?.since !== undefined) {
+			conditions.push("created_at >= $since");
+			params.$since = filters.since;
+		}
 
 		const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
 		const limitClause = filters?.limit !== undefined ? ` LIMIT $limit` : "";
@@ -267,13 +525,18 @@ export function createMailStore(dbPath: string): MailStore {
 
 	return {
 		insert(
-			message: Omit<MailMessage, "read" | "createdAt" | "payload"> & {
+			message: Omit<
+				MailMessage,
+				"read" | "createdAt" | "payload" | "payloadVersion" | MailReceiptField
+			> & {
 				payload?: string | null;
+				payloadVersion?: number | null;
 			},
 		): MailMessage {
 			const id = message.id || `msg-${randomId()}`;
 			const createdAt = new Date().toISOString();
 			const payload = message.payload ?? null;
+			const payloadVersion = message.payloadVersion ?? null;
 
 			try {
 				insertStmt.run({
@@ -286,6 +549,7 @@ export function createMailStore(dbPath: string): MailStore {
 					$priority: message.priority,
 					$thread_id: message.threadId,
 					$payload: payload,
+					$payload_version: payloadVersion,
 					$read: 0,
 					$created_at: createdAt,
 				});
@@ -300,8 +564,16 @@ export function createMailStore(dbPath: string): MailStore {
 				...message,
 				id,
 				payload,
+				payloadVersion,
 				read: false,
 				createdAt,
+				deliveredAt: null,
+				readAt: null,
+				ackedAt: null,
+				completedAt: null,
+				redeliveries: 0,
+				redeliveredAt: null,
+				escalatedAt: null,
 			};
 		},
 
@@ -314,6 +586,7 @@ export function createMailStore(dbPath: string): MailStore {
 			from?: string;
 			to?: string;
 			unread?: boolean;
+			since?: string;
 			limit?: number;
 		}): MailMessage[] {
 			return buildFilterQuery(filters);
@@ -329,8 +602,85 @@ export function createMailStore(dbPath: string): MailStore {
 			return rows.map(rowToMessage);
 		},
 
+		search(query: string, filters?: MailSearchFilters): MailMessage[] {
+			const match = toFtsQuery(query);
+			if (match === null) {
+				return [];
+			}
+			const conditions: string[] = ["messages_fts MATCH $match"];
+			const params: Record<string, string | number> = { $match: match };
+
+			if (filters?.type !== undefined) {
+				conditions.push("m.type = $type");
+				params.$type = filters.type;
+			}
+			if (filters?.priority !== undefined) {
+				conditions.push("m.priority = $priority");
+				params.$priority = filters.priority;
+			}
+			if (filters?.since !== undefined) {
+				conditions.push("m.created_at >= $since");
+				params.$since = filters.since;
+			}
+			if (filters?.until !== undefined) {
+				conditions.push("m.created_at <= $until");
+				params.$until = filters.until;
+			}
+			if (filters?.participants !== undefined) {
+				if (filters.participants.length === 0) {
+					return [];
+				}
+				const placeholders = filters.participants.map((agent, i) => {
+					params[`$agent${i}`] = agent;
+					return `$agent${i}`;
+				});
+				const list = placeholders.join(", ");
+				conditions.push(`(m.from_agent IN (${list}) OR m.to_agent IN (${list}))`);
+			}
+			const limitClause = filters?.limit !== undefined ? " LIMIT $limit" : "";
+			if (filters?.limit !== undefined) {
+				params.$limit = filters.limit;
+			}
+
+			const sql = `SELECT m.* FROM messages_fts
+				JOIN messages m ON m.rowid = messages_fts.rowid
+				WHERE ${conditions.join(" AND ")}
+				ORDER BY m.created_at DESC${limitClause}`;
+			return db
+				.prepare<MessageRow, Record<string, string | number>>(sql)
+				.all(params)
+				.map(rowToMessage);
+		},
+
 		markRead(id: string): void {
-			markReadStmt.run({ $id: id });
+			recordReceipt(id, "read");
+		},
+
+		recordReceipt,
+
+		getAwaitingAck(types: readonly MailMessageType[], before: string): MailMessage[] {
+			if (types.length === 0) {
+				return [];
+			}
+			const params: Record<string, string> = { $before: before };
+			const placeholders = types.map((type, i) => {
+				params[`$type${i}`] = type;
+				return `$type${i}`;
+			});
+			const query = `SELECT * FROM messages
+				WHERE type IN (${placeholders.join(", ")})
+					AND acked_at IS NULL AND escalated_at IS NULL
+					AND COALESCE(redelivered_at, created_at) <= $before
+				ORDER BY created_at ASC`;
+			return db.prepare<MessageRow, Record<string, string>>(query).all(params).map(rowToMessage);
+		},
+
+		redeliver(id: string): void {
+			redeliverStmt.run({ $id: id, $now: new Date().toISOString() });
+		},
+
+		markEscalated(id: string): void {
+			markEscalatedStmt.run({ $id: id, $now: new Date().toISOString() });
 		},
 
 		purge(options: { all?: boolean; olderThanMs?: number; agent?: string }): number {
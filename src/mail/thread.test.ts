@@ -0,0 +1,59 @@
+import { describe, expect, test } from "bun:test";
+import type { MailMessage } from "../types.ts";
+import { buildThreadTree, walkThread } from "./thread.ts";
+
+function makeMessage(id: string, from: string, to: string, minute: number): MailMessage {
+	return {
+		id,
+		from,
+		to,
+		subject: id === "root" ? "Question" : "Re: Question",
+		body: id,
+		priority: "normal",
+		type: "question",
+		threadId: id === "root" ? null : "root",
+		payload: null,
+		payloadVersion: null,
+		read: false,
+		createdAt: `2026-01-01T00:${String(minute).padStart(2, "0")}:00.000Z`,
+		deliveredAt: null,
+		readAt: null,
+		ackedAt: null,
+		completedAt: null,
+		redeliveries: 0,
+		redeliveredAt: null,
+		escalatedAt: null,
+	};
+}
+
+describe("buildThreadTree", () => {
+	test("hangs each reply under the latest message addressed to its sender", () => {
+		const messages = [
+			makeMessage("answer-builder", "lead-1", "builder-1", 3),
+			makeMessage("root", "builder-1", "lead-1", 0),
+			makeMessage("ask-scout", "lead-1", "scout-1", 1),
+			makeMessage("scout-reply", "scout-1", "lead-1", 2),
+			makeMessage("follow-up", "builder-1", "lead-1", 4),
+		];
+
+		const flat = [...walkThread(buildThreadTree(messages))].map(
+			({ message, depth }) => `${depth}:${message.id}`,
+		);
+		expect(flat).toEqual([
+			"0:root",
+			"1:ask-scout",
+			"2:scout-reply",
+			"3:answer-builder",
+			"4:follow-up",
+		]);
+	});
+
+	test("attaches messages with no addressed predecessor to the root", () => {
+		const tree = buildThreadTree([
+			makeMessage("root", "orchestrator", "lead-1", 0),
+			makeMessage("nudge", "orchestrator", "lead-1", 1),
+		]);
+		expect(tree[0]?.replies.map((r) => r.message.id)).toEqual(["nudge"]);
+		expect(buildThreadTree([])).toEqual([]);
+	});
+});
@@ -0,0 +1,53 @@
+/**
+ * Reply trees for mail threads (`ov mail thread`).
+ *
+ * A thread is the root message plus every message whose thread_id is the
+ * root's ID. Replies do not record which message in the thread they answer,
+ * so the tree is reconstructed: each message hangs under the latest earlier
+ * message addressed to its sender (the message it most likely answers), or
+ * under the root when there is none.
+ */
+
+import type { MailMessage } from "../types.ts";
+
+/** A message and the replies attached to it. */
+export interface ThreadNode {
+	message: MailMessage;
+	replies: ThreadNode[];
+}
+
+/**
+ * Arrange a thread's messages as a reply tree.
+ *
+ * Messages are ordered by creation time. The earliest message is the root;
+ * the result has one entry unless `messages` is empty.
+ */
+export function buildThreadTree(messages: readonly MailMessage[]): ThreadNode[] {
+	const ordered = [...messages].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+	const nodes: ThreadNode[] = [];
+	for (const message of ordered) {
+		const node: ThreadNode = { message, replies: [] };
+		let parent = nodes[0];
+		for (let i = nodes.length - 1; i >= 0; i--) {
+			if (nodes[i]?.message.to === message.from) {
+				parent = nodes[i];
+				break;
+			}
+		}
+		parent?.replies.push(node);
+		nodes.push(node);
+	}
+	const root = nodes[0];
+	return root ? [root] : [];
+}
+
+/** Depth-first walk of a thread tree, yielding each message with its depth (root = 0). */
+export function* walkThread(
+	nodes: readonly ThreadNode[],
+	depth = 0,
+): Generator<{ message: MailMessage; depth: number }> {
+	for (const node of nodes) {
+		yield { message: node.message, depth };
+		yield* walkThread(node.replies, depth + 1);
+	}
+}
@@ -236,6 +236,23 @@ describe("createMergeQueue", () => {
 			expect(all[0]?.resolvedTier).toBe("auto-resolve");
 		});
 
+		test("records the failure reason and clears it on the next update", () => {
+			const queue = createMergeQueue(queuePath);
+			queue.enqueue(makeInput({ branchName: "branch-a" }));
+
+			queue.updateStatus(
+				"branch-a",
+				"failed",
+				undefined,
+				'Quality gate "Tests" failed\nexpected 1',
+			);
+			expect(queue.list()[0]?.failureReason).toBe('Quality gate "Tests" failed\nexpected 1');
+			expect(queue.list()[0]?.resolvedTier).toBeNull();
+
+			queue.updateStatus("branch-a", "merged", "clean-merge");
+			expect(queue.list()[0]?.failureReason).toBeNull();
+		});
+
 		test("throws MergeError for unknown branch", () => {
 			const queue = createMergeQueue(queuePath);
 			queue.enqueue(makeInput({ branchName: "branch-a" }));
@@ -366,6 +383,7 @@ describe("createMergeQueue", () => {
 			expect(entries).toHaveLength(1);
 			expect(entries[0]?.taskId).toBe("bead-1");
 			expect(entries[0]?.branchName).toBe("overstory/test/bead-1");
+			expect(entries[0]?.failureReason).toBeNull();
 
 			// New inserts should also work
 			const newEntry = queue.enqueue({
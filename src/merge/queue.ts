@@ -12,7 +12,9 @@ import type { MergeEntry, ResolutionTier } from "../types.ts";
 
 export interface MergeQueue {
 	/** Add a new entry to the end of the queue with pending status. */
-	enqueue(entry: Omit<MergeEntry, "enqueuedAt" | "status" | "resolvedTier">): MergeEntry;
+	enqueue(
+		entry: Omit<MergeEntry, "enqueuedAt" | "status" | "resolvedTier" | "failureReason">,
+	): MergeEntry;
 
 	/** Remove and return the first pending entry, or null if none. */
 	dequeue(): MergeEntry | null;
@@ -23,8 +25,16 @@ export interface MergeQueue {
 	/** List entries, optionally filtered by status. */
 	list(status?: MergeEntry["status"]): MergeEntry[];
 
-	/** Update the status (and optional resolution tier) of an entry by branch name. */
-	updateStatus(branchName: string, status: MergeEntry["status"], tier?: ResolutionTier): void;
+	/**
+	 * Update the status of an entry by branch name, with the resolution tier of a
+	 * successful merge or the reason a merge failed. Omitted values are cleared.
+	 */
+	updateStatus(
+		branchName: string,
+		status: MergeEntry["status"],
+		tier?: ResolutionTier,
+		failureReason?: string,
+	): void;
 
 	/** Close the database connection. */
 	close(): void;
@@ -40,6 +50,7 @@ interface MergeQueueRow {
 	enqueued_at: string;
 	status: string;
 	resolved_tier: string | null;
+	failure_reason: string | null;
 }
 
 const CREATE_TABLE = `
@@ -53,7 +64,8 @@ CREATE TABLE IF NOT EXISTS merge_queue (
   status TEXT NOT NULL DEFAULT 'pending'
     CHECK(status IN ('pending','merging','merged','conflict','failed')),
   resolved_tier TEXT
-    CHECK(resolved_tier IS NULL OR resolved_tier IN ('clean-merge','auto-resolve','ai-resolve','reimagine'))
+    CHECK(resolved_tier IS NULL OR resolved_tier IN ('clean-merge','auto-resolve','ai-resolve','reimagine')),
+  failure_reason TEXT
 )`;
 
 const CREATE_INDEXES = `
@@ -80,6 +92,7 @@ function rowToEntry(row: MergeQueueRow): MergeEntry {
 		enqueuedAt: row.enqueued_at,
 		status: row.status as MergeEntry["status"],
 		resolvedTier: row.resolved_tier as ResolutionTier | null,
+		failureReason: row.failure_reason ?? null,
 	};
 }
 
@@ -95,6 +108,17 @@ function migrateBeadIdToTaskId(db: Database): void {
 	}
 }
 
+/**
+ * Add the failure_reason column to tables created before it existed.
+ * Safe to call multiple times.
+ */
+function migrateAddFailureReason(db: Database): void {
+	const rows = db.prepare("PRAGMA table_info(merge_queue)").all() as Array<{ name: string }>;
+	if (!rows.some((r) => r.name === "failure_reason")) {
+		db.exec("ALTER TABLE merge_queue ADD COLUMN failure_reason TEXT");
+	}
+}
+
 /**
  * Create a new MergeQueue backed by a SQLite database at the given path.
  *
@@ -115,6 +139,7 @@ export function createMergeQueue(dbPath: string): MergeQueue {
 
 	// Migrate: rename bead_id → task_id on existing tables
 	migrateBeadIdToTaskId(db);
+	migrateAddFailureReason(db);
 
 	// Prepare statements for frequent operations
 	const insertStmt = db.prepare<
@@ -158,10 +183,11 @@ export function createMergeQueue(dbPath: string): MergeQueue {
 			$branch_name: string;
 			$status: string;
 			$resolved_tier: string | null;
+			$failure_reason: string | null;
 		}
 	>(`
 		UPDATE merge_queue
-		SET status = $status, resolved_tier = $resolved_tier
+		SET status = $status, resolved_tier = $resolved_tier, failure_reason = $failure_reason
 		WHERE branch_name = $branch_name
 	`);
 
@@ -220,7 +246,7 @@ export function createMergeQueue(dbPath: string): MergeQueue {
 			return rows.map(rowToEntry);
 		},
 
-		updateStatus(branchName, status, tier?): void {
+		updateStatus(branchName, status, tier?, failureReason?): void {
 			// Check if entry exists
 			const existing = getByBranchStmt.get({ $branch_name: branchName });
 
@@ -235,6 +261,7 @@ export function createMergeQueue(dbPath: string): MergeQueue {
 				$branch_name: branchName,
 				$status: status,
 				$resolved_tier: tier ?? null,
+				$failure_reason: failureReason ?? null,
 			});
 		},
 
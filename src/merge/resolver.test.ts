@@ -25,6 +25,7 @@ import {
 	looksLikeProse,
 	parseConflictPatterns,
 	resolveConflictsUnion,
+	runQualityGates,
 } from "./resolver.ts";
 
 /**
@@ -60,6 +61,7 @@ function makeTestEntry(overrides?: Partial<MergeEntry>): MergeEntry {
 		enqueuedAt: overrides?.enqueuedAt ?? new Date().toISOString(),
 		status: overrides?.status ?? "pending",
 		resolvedTier: overrides?.resolvedTier ?? null,
+		failureReason: overrides?.failureReason ?? null,
 	};
 }
 
@@ -513,6 +515,207 @@ describe("createMergeResolver", () => {
 		});
 	});
 
+	describe("Post-merge quality gates", () => {
+		let repoDir: string;
+		let defaultBranch: string;
+
+		beforeEach(async () => {
+			repoDir = await createTempGitRepo();
+			defaultBranch = await getDefaultBranch(repoDir);
+		});
+
+		afterEach(async () => {
+			await cleanupTempDir(repoDir);
+		});
+
+		test("no gates configured leaves result without gate outcomes", async () => {
+			await setupCleanMerge(repoDir, defaultBranch);
+
+			const resolver = createMergeResolver({
+				aiResolveEnabled: false,
+				reimagineEnabled: false,
+			});
+
+			const result = await resolver.resolve(
+				makeTestEntry({ filesModified: ["src/feature-file.ts"] }),
+				defaultBranch,
+				repoDir,
+			);
+
+			expect(result.success).toBe(true);
+			expect(result.qualityGates).toBeUndefined();
+		});
+
+		test("passing gates keep the merge and report outcomes", async () => {
+			await setupCleanMerge(repoDir, defaultBranch);
+
+			const resolver = createMergeResolver({
+				aiResolveEnabled: false,
+				reimagineEnabled: false,
+				qualityGates: [
+					{ name: "Exists", command: "test -f src/feature-file.ts", description: "file merged" },
+				],
+			});
+
+			const result = await resolver.resolve(
+				makeTestEntry({ filesModified: ["src/feature-file.ts"] }),
+				defaultBranch,
+				repoDir,
+			);
+
+			expect(result.success).toBe(true);
+			expect(result.entry.status).toBe("merged");
+			expect(result.qualityGates).toEqual([
+				{
+					name: "Exists",
+					command: "test -f src/feature-file.ts",
+					passed: true,
+					exitCode: 0,
+					output: "",
+				},
+			]);
+		});
+
+		test("failing gate rolls back the merge commit and marks the entry failed", async () => {
+			await setupCleanMerge(repoDir, defaultBranch);
+			const headBefore = (await runGitInDir(repoDir, ["rev-parse", "HEAD"])).trim();
+
+			const resolver = createMergeResolver({
+				aiResolveEnabled: false,
+				reimagineEnabled: false,
+				qualityGates: [
+					{ name: "Tests", command: "echo 'expected 1 got 2' && exit 3", description: "pass" },
+					{ name: "Lint", command: "echo never-runs", description: "zero errors" },
+				],
+			});
+
+			const result = await resolver.resolve(
+				makeTestEntry({ filesModified: ["src/feature-file.ts"] }),
+				defaultBranch,
+				repoDir,
+			);
+
+			expect(result.success).toBe(false);
+			expect(result.tier).toBe("clean-merge");
+			expect(result.entry.status).toBe("failed");
+			expect(result.entry.resolvedTier).toBeNull();
+			expect(result.errorMessage).toContain('Quality gate "Tests" failed');
+			expect(result.errorMessage).toContain("expected 1 got 2");
+			expect(result.qualityGates).toHaveLength(1);
+			expect(result.qualityGates?.[0]?.exitCode).toBe(3);
+
+			const headAfter = (await runGitInDir(repoDir, ["rev-parse", "HEAD"])).trim();
+			expect(headAfter).toBe(headBefore);
+			expect(await Bun.file(join(repoDir, "src/feature-file.ts")).exists()).toBe(false);
+		});
+
+		test("rollback keeps uncommitted changes the merge did not touch", async () => {
+			await setupCleanMerge(repoDir, defaultBranch);
+			await Bun.write(join(repoDir, "src/main-file.ts"), "work in progress\n");
+
+			const resolver = createMergeResolver({
+				aiResolveEnabled: false,
+				reimagineEnabled: false,
+				qualityGates: [{ name: "Tests", command: "exit 1", description: "pass" }],
+			});
+
+			const result = await resolver.resolve(
+				makeTestEntry({ filesModified: ["src/feature-file.ts"] }),
+				defaultBranch,
+				repoDir,
+			);
+
+			expect(result.success).toBe(false);
+			expect(result.errorMessage).not.toContain("Rollback");
+			expect(result.entry.failureReason).toBe(result.errorMessage);
+			expect(await Bun.file(join(repoDir, "src/main-file.ts")).text()).toBe("work in progress\n");
+			expect(await Bun.file(join(repoDir, "src/feature-file.ts")).exists()).toBe(false);
+		});
+
+		test("gates also verify auto-resolved merges", async () => {
+			await setupContentConflict(repoDir, defaultBranch);
+			const headBefore = (await runGitInDir(repoDir, ["rev-parse", "HEAD"])).trim();
+
+			const resolver = createMergeResolver({
+				aiResolveEnabled: false,
+				reimagineEnabled: false,
+				qualityGates: [{ name: "Grep", command: "grep -q main src/test.ts", description: "x" }],
+			});
+
+			const result = await resolver.resolve(makeTestEntry(), defaultBranch, repoDir);
+
+			expect(result.success).toBe(false);
+			expect(result.tier).toBe("auto-resolve");
+			const headAfter = (await runGitInDir(repoDir, ["rev-parse", "HEAD"])).trim();
+			expect(headAfter).toBe(headBefore);
+			const status = await runGitInDir(repoDir, ["status", "--porcelain"]);
+			expect(status.trim()).toBe("");
+		});
+
+		test("a resolution rolled back by the gates is recorded as failed", async () => {
+			await setupContentConflict(repoDir, defaultBranch);
+			const descriptions: string[] = [];
+
+			const resolver = createMergeResolver({
+				aiResolveEnabled: false,
+				reimagineEnabled: false,
+				mulchClient: createMockMulchClient(async (_domain, options) => {
+					descriptions.push((options as { description: string }).description);
+				}),
+				qualityGates: [{ name: "Tests", command: "exit 1", description: "pass" }],
+			});
+
+			const result = await resolver.resolve(makeTestEntry(), defaultBranch, repoDir);
+
+			expect(result.success).toBe(false);
+			expect(descriptions).toHaveLength(1);
+			expect(descriptions[0]).toContain("Merge conflict failed at tier auto-resolve");
+		});
+	});
+
+	describe("runQualityGates", () => {
+		test("stops at the first failing gate", async () => {
+			const results = await runQualityGates(
+				[
+					{ name: "A", command: "true", description: "a" },
+					{ name: "B", command: "echo boom >&2; exit 1", description: "b" },
+					{ name: "C", command: "true", description: "c" },
+				],
+				process.cwd(),
+			);
+
+			expect(results.map((r) => r.name)).toEqual(["A", "B"]);
+			expect(results[1]?.passed).toBe(false);
+			expect(results[1]?.output).toBe("boom");
+		});
+
+		test("kills a gate that outlives the timeout and counts it as failed", async () => {
+			const started = Date.now();
+			const results = await runQualityGates(
+				[{ name: "Hang", command: "echo started; sleep 30 | cat", description: "h" }],
+				process.cwd(),
+				200,
+			);
+
+			expect(Date.now() - started).toBeLessThan(10_000);
+			expect(results[0]?.passed).toBe(false);
+			expect(results[0]?.output).toContain("started");
+			expect(results[0]?.output).toContain("Timed out after 200ms");
+		});
+
+		test("truncates long output to the tail", async () => {
+			const results = await runQualityGates(
+				[{ name: "Noisy", command: "seq 1 5000; exit 1", description: "n" }],
+				process.cwd(),
+			);
+
+			const output = results[0]?.output ?? "";
+			expect(output.startsWith("...")).toBe(true);
+			expect(output.endsWith("5000")).toBe(true);
+			expect(output.length).toBeLessThanOrEqual(2003);
+		});
+	});
+
 	describe("result shape", () => {
 		let repoDir: string;
 		let defaultBranch: string;
@@ -9,6 +9,10 @@
  *
  * Each tier is attempted in order. If a tier fails, the next is tried.
  * Disabled tiers are skipped. Uses Bun.spawn for all subprocess calls.
+ *
+ * When quality gates are supplied, they run against the merged tree after
+ * any successful tier. A failing gate rolls the canonical branch back to its
+ * pre-merge commit and the entry is reported as failed.
  */
 
 import { MergeError } from "../errors.ts";
@@ -20,9 +24,17 @@ import type {
 	MergeResult,
 	OverstoryConfig,
 	ParsedConflictPattern,
+	QualityGate,
+	QualityGateResult,
 	ResolutionTier,
 } from "../types.ts";
 
+/** Maximum characters of gate output kept in results and error messages. */
+const GATE_OUTPUT_MAX_CHARS = 2000;
+
+/** How long a quality gate may run before it is killed and counted as failed. */
+export const DEFAULT_QUALITY_GATE_TIMEOUT_MS = 10 * 60 * 1000;
+
 export interface MergeResolver {
 	/** Attempt to merge the entry's branch into the canonical branch with tiered resolution. */
 	resolve(entry: MergeEntry, canonicalBranch: string, repoRoot: string): Promise<MergeResult>;
@@ -150,8 +162,9 @@ async function writeFile(filePath: string, content: string): Promise<void> {
 /**
  * Tier 1: Attempt a clean merge (git merge --no-edit).
  * Returns true if the merge succeeds with no conflicts.
+ * Also used by the merge simulator against a throwaway worktree.
  */
-async function tryCleanMerge(
+export async function tryCleanMerge(
 	entry: MergeEntry,
 	repoRoot: string,
 ): Promise<{ success: boolean; conflictFiles: string[] }> {
@@ -169,8 +182,9 @@ async function tryCleanMerge(
 /**
  * Tier 2: Auto-resolve conflicts by keeping incoming (agent) changes.
  * Parses conflict markers and keeps the content between ======= and >>>>>>>.
+ * Also used by the merge simulator against a throwaway worktree.
  */
-async function tryAutoResolve(
+export async function tryAutoResolve(
 	conflictFiles: string[],
 	repoRoot: string,
 ): Promise<{ success: boolean; remainingConflicts: string[] }> {
@@ -398,6 +412,80 @@ async function tryReimagine(
 	return { success: exitCode === 0 };
 }
 
+/**
+ * Keep the tail of gate output so the failing assertion (usually last) survives truncation.
+ */
+function truncateGateOutput(output: string): string {
+	const trimmed = output.trim();
+	if (trimmed.length <= GATE_OUTPUT_MAX_CHARS) return trimmed;
+	return `...${trimmed.slice(-GATE_OUTPUT_MAX_CHARS)}`;
+}
+
+/**
+ * Run quality gates sequentially against the working tree at repoRoot.
+ * Stops at the first failing gate; the returned list ends with that gate.
+ *
+ * A gate still running after timeoutMs is killed together with its child
+ * processes (it runs in its own process group) and counted as failed.
+ */
+export async function runQualityGates(
+	gates: QualityGate[],
+	repoRoot: string,
+	timeoutMs: number = DEFAULT_QUALITY_GATE_TIMEOUT_MS,
+): Promise<QualityGateResult[]> {
+	const results: QualityGateResult[] = [];
+
+	for (const gate of gates) {
+		let exitCode: number;
+		let output: string;
+		let timedOut = false;
+		try {
+			const proc = Bun.spawn(["sh", "-c", gate.command], {
+				cwd: repoRoot,
+				stdout: "pipe",
+				stderr: "pipe",
+				detached: true,
+			});
+			const timer = setTimeout(() => {
+				timedOut = true;
+				try {
+					process.kill(-proc.pid, "SIGKILL");
+				} catch {
+					proc.kill("SIGKILL");
+				}
+			}, timeoutMs);
+			const [stdout, stderr, code] = await Promise.all([
+				new Response(proc.stdout).text(),
+				new Response(proc.stderr).text(),
+				proc.exited,
+			]).finally(() => clearTimeout(timer));
+			exitCode = code;
+			const combined = [stdout, stderr].filter((o) => o.trim().length > 0);
+			if (timedOut) {
+				combined.push(`Timed out after ${timeoutMs}ms; gate killed.`);
+			}
+			output = truncateGateOutput(combined.join("\n"));
+		} catch (err) {
+			exitCode = -1;
+			output = err instanceof Error ? err.message : String(err);
+		}
+
+		const passed = exitCode === 0 && !timedOut;
+		results.push({ name: gate.name, command: gate.command, passed, exitCode, output });
+		if (!passed) break;
+	}
+
+	return results;
+}
+
+/**
+ * Get the current HEAD commit SHA, or null if it cannot be resolved.
+ */
+async function getHeadSha(repoRoot: string): Promise<string | null> {
+	const { stdout, exitCode } = await runGit(repoRoot, ["rev-parse", "HEAD"]);
+	return exitCode === 0 ? stdout.trim() : null;
+}
+
 /**
  * Parse mulch search output for conflict patterns.
  * Extracts structured data from pattern descriptions recorded by recordConflictPattern().
@@ -559,13 +647,59 @@ function recordConflictPattern(
  * @param options.aiResolveEnabled - Enable tier 3 (AI-assisted resolution)
  * @param options.reimagineEnabled - Enable tier 4 (full reimagine)
  * @param options.mulchClient - Optional MulchClient for conflict pattern recording
+ * @param options.qualityGates - Optional gates to verify the merged tree; failures roll back the merge
+ * @param options.qualityGateTimeoutMs - Kill a gate that runs longer than this (default: 10 minutes)
  */
 export function createMergeResolver(options: {
 	aiResolveEnabled: boolean;
 	reimagineEnabled: boolean;
 	mulchClient?: MulchClient;
 	config?: OverstoryConfig;
+	qualityGates?: QualityGate[];
+	qualityGateTimeoutMs?: number;
 }): MergeResolver {
+	const gates = options.qualityGates ?? [];
+
+	/**
+	 * Verify a successful merge against the quality gates. On failure, reset the
+	 * canonical branch to the pre-merge commit and convert the result to a failure.
+	 * The reset uses --keep so uncommitted changes the merge did not touch survive;
+	 * if a gate modified a file the merge changed, the reset is refused and reported.
+	 */
+	async function verifyMerge(
+		result: MergeResult,
+		preMergeSha: string | null,
+		repoRoot: string,
+	): Promise<MergeResult> {
+		if (!result.success || gates.length === 0) return result;
+
+		const gateResults = await runQualityGates(gates, repoRoot, options.qualityGateTimeoutMs);
+		const failed = gateResults.find((g) => !g.passed);
+		if (!failed) {
+			return { ...result, qualityGates: gateResults };
+		}
+
+		let rollbackNote = "";
+		if (preMergeSha !== null) {
+			const { exitCode, stderr } = await runGit(repoRoot, ["reset", "--keep", preMergeSha]);
+			if (exitCode !== 0) {
+				rollbackNote = ` Rollback to ${preMergeSha.slice(0, 12)} failed: ${stderr.trim()}`;
+			}
+		} else {
+			rollbackNote = " Rollback skipped: pre-merge commit unknown.";
+		}
+
+		const errorMessage = `Quality gate "${failed.name}" failed after ${result.tier} merge (exit ${failed.exitCode}).${rollbackNote}\n${failed.output}`;
+		return {
+			entry: { ...result.entry, status: "failed", resolvedTier: null, failureReason: errorMessage },
+			success: false,
+			tier: result.tier,
+			conflictFiles: result.conflictFiles,
+			errorMessage,
+			qualityGates: gateResults,
+		};
+	}
+
 	return {
 		async resolve(
 			entry: MergeEntry,
@@ -593,19 +727,48 @@ export function createMergeResolver(options: {
 				}
 			}
 
+			const preMergeSha = await getHeadSha(repoRoot);
 			let lastTier: ResolutionTier = "clean-merge";
 			let conflictFiles: string[] = [];
 
+			// Record the conflict pattern only once the gates have ruled: a tier
+			// whose merge is rolled back counts as a failed resolution.
+			const verifyResolved = async (
+				tier: ResolutionTier,
+				resolvedFiles: string[],
+				resultConflictFiles: string[] = resolvedFiles,
+			): Promise<MergeResult> => {
+				const result = await verifyMerge(
+					{
+						entry: { ...entry, status: "merged", resolvedTier: tier },
+						success: true,
+						tier,
+						conflictFiles: resultConflictFiles,
+						errorMessage: null,
+					},
+					preMergeSha,
+					repoRoot,
+				);
+				if (options.mulchClient) {
+					recordConflictPattern(options.mulchClient, entry, tier, resolvedFiles, result.success);
+				}
+				return result;
+			};
+
 			// Tier 1: Clean merge
 			const cleanResult = await tryCleanMerge(entry, repoRoot);
 			if (cleanResult.success) {
-				return {
-					entry: { ...entry, status: "merged", resolvedTier: "clean-merge" },
-					success: true,
-					tier: "clean-merge",
-					conflictFiles: [],
-					errorMessage: null,
-				};
+				return verifyMerge(
+					{
+						entry: { ...entry, status: "merged", resolvedTier: "clean-merge" },
+						success: true,
+						tier: "clean-merge",
+						conflictFiles: [],
+						errorMessage: null,
+					},
+					preMergeSha,
+					repoRoot,
+				);
 			}
 			conflictFiles = cleanResult.conflictFiles;
 
@@ -624,16 +787,7 @@ export function createMergeResolver(options: {
 				lastTier = "auto-resolve";
 				const autoResult = await tryAutoResolve(conflictFiles, repoRoot);
 				if (autoResult.success) {
-					if (options.mulchClient) {
-						recordConflictPattern(options.mulchClient, entry, "auto-resolve", conflictFiles, true);
-					}
-					return {
-						entry: { ...entry, status: "merged", resolvedTier: "auto-resolve" },
-						success: true,
-						tier: "auto-resolve",
-						conflictFiles,
-						errorMessage: null,
-					};
+					return verifyResolved("auto-resolve", conflictFiles);
 				}
 				conflictFiles = autoResult.remainingConflicts;
 			} // If skipped, fall through to next tier
@@ -648,16 +802,7 @@ export function createMergeResolver(options: {
 					options.config,
 				);
 				if (aiResult.success) {
-					if (options.mulchClient) {
-						recordConflictPattern(options.mulchClient, entry, "ai-resolve", conflictFiles, true);
-					}
-					return {
-						entry: { ...entry, status: "merged", resolvedTier: "ai-resolve" },
-						success: true,
-						tier: "ai-resolve",
-						conflictFiles,
-						errorMessage: null,
-					};
+					return verifyResolved("ai-resolve", conflictFiles);
 				}
 				conflictFiles = aiResult.remainingConflicts;
 			}
@@ -672,16 +817,7 @@ export function createMergeResolver(options: {
 					options.config,
 				);
 				if (reimagineResult.success) {
-					if (options.mulchClient) {
-						recordConflictPattern(options.mulchClient, entry, "reimagine", conflictFiles, true);
-					}
-					return {
-						entry: { ...entry, status: "merged", resolvedTier: "reimagine" },
-						success: true,
-						tier: "reimagine",
-						conflictFiles: [],
-						errorMessage: null,
-					};
+					return verifyResolved("reimagine", conflictFiles, []);
 				}
 			}
 
@@ -696,12 +832,13 @@ export function createMergeResolver(options: {
 				recordConflictPattern(options.mulchClient, entry, lastTier, conflictFiles, false);
 			}
 
+			const errorMessage = `All enabled resolution tiers failed (last attempted: ${lastTier})`;
 			return {
-				entry: { ...entry, status: "failed", resolvedTier: null },
+				entry: { ...entry, status: "failed", resolvedTier: null, failureReason: errorMessage },
 				success: false,
 				tier: lastTier,
 				conflictFiles,
-				errorMessage: `All enabled resolution tiers failed (last attempted: ${lastTier})`,
+				errorMessage,
 			};
 		},
 	};
@@ -0,0 +1,192 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { createMailClient } from "../mail/client.ts";
+import { createMailStore } from "../mail/store.ts";
+import {
+	cleanupTempDir,
+	commitFile,
+	createTempGitRepo,
+	getDefaultBranch,
+	runGitInDir,
+} from "../test-helpers.ts";
+import type { MergeFailedPayload } from "../types.ts";
+import {
+	buildSecretScanEvent,
+	notifySecretFindings,
+	SECRET_ALLOW_MARKER,
+	scanBranchForSecrets,
+	scanDiffForSecrets,
+} from "./secrets.ts";
+
+/** Assembled at runtime so this file does not trip secret scanners itself. */
+const FAKE_KEY = ["sk", "ant", "api03", "abcdefghijklmnop"].join("-");
+const FAKE_AWS_KEY = ["AKIA", "ABCDEFGHIJKLMNOP"].join("");
+
+describe("scanDiffForSecrets", () => {
+	test("reports file and new-side line numbers of added lines only", () => {
+		const diff = [
+			"diff --git a/src/config.ts b/src/config.ts",
+			"index 1111111..2222222 100644",
+			"--- a/src/config.ts",
+			"+++ b/src/config.ts",
+			"@@ -3,0 +4,2 @@ export const a = 1;",
+			"+const ok = 1;",
+			`+const key = "${FAKE_KEY}";`,
+			"@@ -20 +22 @@",
+			`-const old = "${FAKE_AWS_KEY}";`,
+			`+const aws = "${FAKE_AWS_KEY}";`,
+			"diff --git a/.env b/.env",
+			"new file mode 100644",
+			"--- /dev/null",
+			"+++ b/.env",
+			"@@ -0,0 +1 @@",
+			`+++TOKEN=${FAKE_KEY}`,
+		].join("\n");
+
+		const findings = scanDiffForSecrets(diff);
+		expect(findings.map((f) => [f.file, f.line, f.pattern])).toEqual([
+			["src/config.ts", 5, "anthropic-api-key"],
+			["src/config.ts", 22, "aws-access-key-id"],
+			[".env", 1, "anthropic-api-key"],
+		]);
+		expect(findings[0]?.excerpt).toBe('const key = "[REDACTED]";');
+	});
+
+	test("skips allow-marked lines, deleted files, and log-only patterns", () => {
+		const diff = [
+			"diff --git a/test.ts b/test.ts",
+			"--- a/test.ts",
+			"+++ b/test.ts",
+			"@@ -1,0 +1,2 @@",
+			`+const fixture = "${FAKE_KEY}"; // ${SECRET_ALLOW_MARKER}`,
+			'+headers.Authorization = "Bearer token";',
+			"diff --git a/old.ts b/old.ts",
+			"--- a/old.ts",
+			"+++ /dev/null",
+			"@@ -1 +0,0 @@",
+			`-const key = "${FAKE_KEY}";`,
+		].join("\n");
+
+		expect(scanDiffForSecrets(diff)).toEqual([]);
+	});
+
+	test("ignores placeholder tokens shorter than a real key", () => {
+		const diff = [
+			"diff --git a/README.md b/README.md",
+			"--- a/README.md",
+			"+++ b/README.md",
+			"@@ -1,0 +1,3 @@",
+			"+export ANTHROPIC_KEY=sk-ant-xxx",
+			`+token: ${["ghp", "abc123"].join("_")}`,
+			`+pat: ${["github", "pat", "XXXX"].join("_")}`,
+		].join("\n");
+
+		expect(scanDiffForSecrets(diff)).toEqual([]);
+	});
+
+	test("records the commit of findings in git log output", () => {
+		const sha = "0123456789abcdef0123456789abcdef01234567";
+		const diff = [
+			`commit ${sha}`,
+			"",
+			"diff --git a/a.ts b/a.ts",
+			"--- a/a.ts",
+			"+++ b/a.ts",
+			"@@ -1,0 +1 @@",
+			`+const key = "${FAKE_KEY}";`,
+		].join("\n");
+
+		expect(scanDiffForSecrets(diff)).toEqual([
+			expect.objectContaining({ file: "a.ts", line: 1, commit: sha }),
+		]);
+	});
+});
+
+describe("scanBranchForSecrets", () => {
+	let repoDir: string;
+	let defaultBranch: string;
+
+	beforeEach(async () => {
+		repoDir = await createTempGitRepo();
+		defaultBranch = await getDefaultBranch(repoDir);
+	});
+
+	afterEach(async () => {
+		await cleanupTempDir(repoDir);
+	});
+
+	test("scans only the branch's own changes", async () => {
+		await commitFile(repoDir, "legacy.ts", `export const key = "${FAKE_KEY}";\n`);
+		await runGitInDir(repoDir, ["checkout", "-b", "overstory/builder-1/task-1"]);
+		await commitFile(repoDir, "src/a.ts", `export const a = 1;\nexport const b = "${FAKE_KEY}";\n`);
+		await runGitInDir(repoDir, ["checkout", defaultBranch]);
+
+		const findings = await scanBranchForSecrets(
+			repoDir,
+			defaultBranch,
+			"overstory/builder-1/task-1",
+		);
+		expect(findings).toEqual([
+			expect.objectContaining({ file: "src/a.ts", line: 2, pattern: "anthropic-api-key" }),
+		]);
+	});
+
+	test("flags a secret deleted by a later commit on the branch", async () => {
+		await runGitInDir(repoDir, ["checkout", "-b", "overstory/builder-1/task-2"]);
+		await commitFile(repoDir, "src/b.ts", `export const b = "${FAKE_KEY}";\n`);
+		const added = (await runGitInDir(repoDir, ["rev-parse", "HEAD"])).trim();
+		await commitFile(repoDir, "src/b.ts", "export const b = process.env.KEY;\n");
+		await runGitInDir(repoDir, ["checkout", defaultBranch]);
+
+		const findings = await scanBranchForSecrets(
+			repoDir,
+			defaultBranch,
+			"overstory/builder-1/task-2",
+		);
+		expect(findings).toEqual([
+			expect.objectContaining({ file: "src/b.ts", line: 1, commit: added }),
+		]);
+	});
+});
+
+describe("notifySecretFindings", () => {
+	test("mails merge_failed with offending files to each recipient once", () => {
+		const client = createMailClient(createMailStore(":memory:"));
+		const target = {
+			branch: "overstory/builder-1/task-1",
+			taskId: "task-1",
+			agentName: "builder-1",
+		};
+		const findings = [
+			{ file: "src/a.ts", line: 2, pattern: "anthropic-api-key", excerpt: "b = [REDACTED]" },
+		];
+
+		const ids = notifySecretFindings(client, target, findings, [
+			"builder-1",
+			"lead-1",
+			"builder-1",
+		]);
+		expect(ids).toHaveLength(2);
+
+		const [message] = client.list({ to: "builder-1" });
+		expect(message?.type).toBe("merge_failed");
+		expect(message?.body).toContain("src/a.ts:2 (anthropic-api-key)");
+		const payload = JSON.parse(message?.payload ?? "{}") as MergeFailedPayload;
+		expect(payload.conflictFiles).toEqual(["src/a.ts"]);
+		expect(payload.errorMessage).toContain("src/a.ts:2");
+		client.close();
+	});
+
+	test("buildSecretScanEvent records an error event without the excerpt", () => {
+		const event = buildSecretScanEvent({ branch: "b", taskId: "t", agentName: "builder-1" }, [
+			{ file: "src/a.ts", line: 2, pattern: "github-token", excerpt: "[REDACTED]" },
+		]);
+		expect(event.eventType).toBe("error");
+		expect(event.level).toBe("error");
+		expect(JSON.parse(event.data ?? "{}")).toEqual({
+			reason: "secrets_detected",
+			branch: "b",
+			taskId: "t",
+			findings: [{ file: "src/a.ts", line: 2, pattern: "github-token" }],
+		});
+	});
+});
@@ -0,0 +1,307 @@
+/**
+ * Pre-merge secret scanning of agent branches.
+ *
+ * The log sanitizer keeps secrets out of overstory's own output, but nothing
+ * stops a builder from committing an API key to its branch. Before a branch is
+ * handed to the merger (`merge_ready` mail) or enqueued into the merge queue,
+ * the lines added by each of its commits are scanned with the sanitizer's
+ * secret patterns, so a key committed and later deleted is still caught.
+ * Findings block the handoff, are mailed back as `merge_failed` with the
+ * offending file and line, and are recorded as an error event.
+ *
+ * A line containing SECRET_ALLOW_MARKER (e.g. a test fixture with a fake key)
+ * is not flagged.
+ */
+
+import { join } from "node:path";
+import { MergeError } from "../errors.ts";
+import { createEventStore } from "../events/store.ts";
+import { SECRET_PATTERNS, sanitize } from "../logging/sanitizer.ts";
+import { createMailClient, type MailClient } from "../mail/client.ts";
+import { createMailStore } from "../mail/store.ts";
+import type { InsertEvent } from "../types.ts";
+
+/** Inline marker that exempts a line from the secret scan. */
+export const SECRET_ALLOW_MARKER = "ov:allow-secret";
+
+/** Max characters of the (redacted) offending line kept in a finding. */
+const EXCERPT_MAX_LENGTH = 120;
+
+/** A secret found on a line added by a branch. */
+export interface SecretFinding {
+	/** File path relative to the repository root. */
+	file: string;
+	/** Line number in the branch's version of the file. */
+	line: number;
+	/** Name of the matching SecretPattern. */
+	pattern: string;
+	/** The offending line with secrets redacted. */
+	excerpt: string;
+	/** Commit that added the line, when scanning `git log -p` output. */
+	commit?: string;
+}
+
+/** The branch a secret scan blocked. */
+export interface SecretScanTarget {
+	branch: string;
+	taskId: string;
+	/** Agent that owns the branch. */
+	agentName: string;
+}
+
+/** Strip the `b/` prefix (and git's quoting) from a `+++` header path. */
+function parseNewPath(header: string): string | null {
+	let path = header.slice(4).trim();
+	if (path.startsWith('"') && path.endsWith('"')) {
+		path = path.slice(1, -1);
+	}
+	if (path === "/dev/null") return null;
+	return path.startsWith("b/") ? path.slice(2) : path;
+}
+
+/** First diff-scanned pattern matching the line, or null. */
+function matchSecret(text: string): string | null {
+	for (const { name, pattern, scanDiffs, diffPattern } of SECRET_PATTERNS) {
+		if (!scanDiffs) continue;
+		const regex = diffPattern ?? pattern;
+		regex.lastIndex = 0;
+		if (regex.test(text)) {
+			return name;
+		}
+	}
+	return null;
+}
+
+/**
+ * Scan the added lines of a unified diff for secrets.
+ * Reports at most one finding per line (the first matching pattern).
+ *
+ * Also accepts `git log -p --format="commit %H"` output: each `commit <sha>`
+ * line starts a new commit, recorded on the findings that follow it.
+ */
+export function scanDiffForSecrets(diff: string): SecretFinding[] {
+	const findings: SecretFinding[] = [];
+	let commit: string | undefined;
+	let file: string | null = null;
+	let inHunk = false;
+	let lineNo = 0;
+
+	for (const raw of diff.split("\n")) {
+		// Diff body lines always carry a prefix character, so this is a header.
+		if (raw.startsWith("commit ")) {
+			commit = raw.slice(7).trim();
+			file = null;
+			inHunk = false;
+			continue;
+		}
+		if (raw.startsWith("diff --git ")) {
+			file = null;
+			inHunk = false;
+			continue;
+		}
+		if (raw.startsWith("@@")) {
+			const match = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/.exec(raw);
+			lineNo = match?.[1] !== undefined ? Number.parseInt(match[1], 10) : 0;
+			inHunk = true;
+			continue;
+		}
+		// File headers only appear before the first hunk, so an added line
+		// starting with "++" is never mistaken for one.
+		if (!inHunk) {
+			if (raw.startsWith("+++ ")) {
+				file = parseNewPath(raw);
+			}
+			continue;
+		}
+		if (raw.startsWith("+")) {
+			const text = raw.slice(1);
+			const pattern = text.includes(SECRET_ALLOW_MARKER) ? null : matchSecret(text);
+			if (file !== null && pattern !== null) {
+				const excerpt = sanitize(text).trim();
+				findings.push({
+					file,
+					line: lineNo,
+					pattern,
+					excerpt:
+						excerpt.length > EXCERPT_MAX_LENGTH
+							? `${excerpt.slice(0, EXCERPT_MAX_LENGTH)}…`
+							: excerpt,
+					...(commit !== undefined ? { commit } : {}),
+				});
+			}
+			lineNo++;
+		} else if (raw.startsWith(" ")) {
+			lineNo++;
+		}
+	}
+
+	return findings;
+}
+
+/**
+ * Scan the lines added by every commit on the branch that is not on the
+ * canonical branch.
+ *
+ * Walks `canonical..branch` commit by commit rather than diffing the end
+ * states, so a secret added in one commit and deleted in a later one is still
+ * reported (it remains in the branch history). Secrets already on the
+ * canonical branch are not scanned. Merge commits are skipped; their parents
+ * are scanned individually.
+ */
+export async function scanBranchForSecrets(
+	repoRoot: string,
+	canonicalBranch: string,
+	branchName: string,
+): Promise<SecretFinding[]> {
+	const proc = Bun.spawn(
+		[
+			"git",
+			"-c",
+			"core.quotePath=false",
+			"log",
+			"-p",
+			"--reverse",
+			"--no-merges",
+			"--format=commit %H",
+			"--no-color",
+			"--no-ext-diff",
+			"--unified=0",
+			`${canonicalBranch}..${branchName}`,
+			"--",
+		],
+		{ cwd: repoRoot, stdout: "pipe", stderr: "pipe" },
+	);
+	const [stdout, stderr, exitCode] = await Promise.all([
+		new Response(proc.stdout).text(),
+		new Response(proc.stderr).text(),
+		proc.exited,
+	]);
+	if (exitCode !== 0) {
+		throw new MergeError(`Failed to scan branch "${branchName}" for secrets: ${stderr.trim()}`, {
+			branchName,
+		});
+	}
+	return scanDiffForSecrets(stdout);
+}
+
+/** Format findings as indented `file:line (pattern) [commit] excerpt` lines. */
+export function formatSecretFindings(findings: SecretFinding[]): string {
+	return findings
+		.map((f) => {
+			const commit = f.commit !== undefined ? ` [${f.commit.slice(0, 12)}]` : "";
+			return `  ${f.file}:${f.line} (${f.pattern})${commit} ${f.excerpt}`;
+		})
+		.join("\n");
+}
+
+/** One-line summary used as the merge_failed errorMessage and the thrown error. */
+export function describeSecretFindings(
+	target: SecretScanTarget,
+	findings: SecretFinding[],
+): string {
+	const locations = findings.map((f) => `${f.file}:${f.line} (${f.pattern})`).join(", ");
+	return `Secret scan blocked ${target.branch}: ${findings.length} secret${findings.length === 1 ? "" : "s"} found at ${locations}`;
+}
+
+/** Error thrown when the secret scan blocks a branch; lists every finding. */
+export function secretScanError(target: SecretScanTarget, findings: SecretFinding[]): MergeError {
+	return new MergeError(
+		`${describeSecretFindings(target, findings)}\n${formatSecretFindings(findings)}`,
+		{ branchName: target.branch, conflictFiles: [...new Set(findings.map((f) => f.file))] },
+	);
+}
+
+/**
+ * Mail each recipient a `merge_failed` message listing the offending files
+ * and lines. Returns the sent message IDs.
+ *
+ * @param recipients - Agents to notify (duplicates are sent once)
+ * @param from - Sender name (default: "merger")
+ */
+export function notifySecretFindings(
+	client: MailClient,
+	target: SecretScanTarget,
+	findings: SecretFinding[],
+	recipients: string[],
+	from = "merger",
+): string[] {
+	const conflictFiles = [...new Set(findings.map((f) => f.file))].sort();
+	const body =
+		`The secret scan found credentials in lines added by ${target.branch}. ` +
+		"Remove them from the branch history (amend or rebase, do not just delete them in a new commit), " +
+		"rotate any real keys, and hand the branch off again. Mark deliberate fake keys in test fixtures " +
+		`with an \`${SECRET_ALLOW_MARKER}\` comment on the same line.\n\n${formatSecretFindings(findings)}`;
+	const ids: string[] = [];
+	for (const to of new Set(recipients)) {
+		ids.push(
+			client.sendProtocol({
+				from,
+				to,
+				subject: `Secrets found: ${target.branch}`,
+				body,
+				type: "merge_failed",
+				priority: "high",
+				payload: {
+					branch: target.branch,
+					taskId: target.taskId,
+					conflictFiles,
+					errorMessage: describeSecretFindings(target, findings),
+				},
+			}),
+		);
+	}
+	return ids;
+}
+
+/** Build the error event recorded when a secret scan blocks a branch. */
+export function buildSecretScanEvent(
+	target: SecretScanTarget,
+	findings: SecretFinding[],
+): InsertEvent {
+	return {
+		runId: null,
+		agentName: target.agentName,
+		sessionId: null,
+		eventType: "error",
+		toolName: null,
+		toolArgs: null,
+		toolDurationMs: null,
+		level: "error",
+		data: JSON.stringify({
+			reason: "secrets_detected",
+			branch: target.branch,
+			taskId: target.taskId,
+			findings: findings.map(({ file, line, pattern }) => ({ file, line, pattern })),
+		}),
+	};
+}
+
+/**
+ * Report a blocked branch: mail `merge_failed` to the recipients and record an
+ * error event. Event recording is best effort; mail failures propagate.
+ */
+export function reportSecretFindings(
+	projectRoot: string,
+	target: SecretScanTarget,
+	findings: SecretFinding[],
+	recipients: string[],
+): void {
+	const overstoryDir = join(projectRoot, ".overstory");
+	const client = createMailClient(createMailStore(join(overstoryDir, "mail.db")));
+	try {
+		notifySecretFindings(client, target, findings, recipients);
+	} finally {
+		client.close();
+	}
+
+	try {
+		const eventStore = createEventStore(join(overstoryDir, "events.db"));
+		try {
+			eventStore.insert(buildSecretScanEvent(target, findings));
+		} finally {
+			eventStore.close();
+		}
+	} catch {
+		// Event logging must not mask the scan result
+	}
+}
@@ -0,0 +1,149 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { join } from "node:path";
+import { createMailClient } from "../mail/client.ts";
+import { createMailStore } from "../mail/store.ts";
+import {
+	cleanupTempDir,
+	commitFile,
+	createTempGitRepo,
+	getDefaultBranch,
+	runGitInDir,
+} from "../test-helpers.ts";
+import type { MergeEntry, MergeFailedPayload, QualityGate } from "../types.ts";
+import { checkSemanticConflicts, notifySemanticConflicts } from "./semantic.ts";
+
+function makeTestEntry(branchName: string, filesModified: string[] = []): MergeEntry {
+	return {
+		branchName,
+		taskId: `task-${branchName}`,
+		agentName: `agent-${branchName}`,
+		filesModified,
+		enqueuedAt: new Date().toISOString(),
+		status: "pending",
+		resolvedTier: null,
+		failureReason: null,
+	};
+}
+
+/** Fails only when the field is required AND a caller that omits it exists. */
+const COMBINED_GATE: QualityGate = {
+	name: "Typecheck",
+	command: "! (grep -q required schema.txt && test -f caller.txt)",
+	description: "callers must supply required fields",
+};
+
+describe("checkSemanticConflicts", () => {
+	let repoDir: string;
+	let defaultBranch: string;
+
+	beforeEach(async () => {
+		repoDir = await createTempGitRepo();
+		defaultBranch = await getDefaultBranch(repoDir);
+		await commitFile(repoDir, "schema.txt", "optional\n");
+	});
+
+	afterEach(async () => {
+		await cleanupTempDir(repoDir);
+	});
+
+	async function createBranch(name: string, file: string, content: string): Promise<void> {
+		await runGitInDir(repoDir, ["checkout", "-b", name, defaultBranch]);
+		await commitFile(repoDir, file, content);
+		await runGitInDir(repoDir, ["checkout", defaultBranch]);
+	}
+
+	test("attributes a gate that only fails for the combined merge to the pair", async () => {
+		await createBranch("field", "schema.txt", "required\n");
+		await createBranch("callers", "caller.txt", "call()\n");
+		await createBranch("docs", "docs.txt", "docs\n");
+
+		const result = await checkSemanticConflicts(
+			[makeTestEntry("field"), makeTestEntry("callers"), makeTestEntry("docs")],
+			defaultBranch,
+			repoDir,
+			[COMBINED_GATE],
+		);
+
+		expect(result.pairsChecked).toBe(3);
+		expect(result.conflicts).toHaveLength(1);
+		expect(result.conflicts[0]?.first.branchName).toBe("field");
+		expect(result.conflicts[0]?.second.branchName).toBe("callers");
+		expect(result.conflicts[0]?.failures.map((f) => f.name)).toEqual(["Typecheck"]);
+	});
+
+	test("does not blame pairs for failures on canonical or from a single branch", async () => {
+		await createBranch("broken", "broken.txt", "x\n");
+		await createBranch("other", "other.txt", "y\n");
+
+		const result = await checkSemanticConflicts(
+			[makeTestEntry("broken"), makeTestEntry("other")],
+			defaultBranch,
+			repoDir,
+			[
+				{ name: "Baseline", command: "exit 1", description: "always fails" },
+				{ name: "Solo", command: "! test -f broken.txt", description: "fails with broken" },
+			],
+		);
+
+		expect(result.baselineFailures).toEqual(["Baseline"]);
+		expect(result.pairsChecked).toBe(1);
+		expect(result.conflicts).toEqual([]);
+	});
+
+	test("skips the check with fewer than two entries or no gates", async () => {
+		const result = await checkSemanticConflicts([makeTestEntry("only")], defaultBranch, repoDir, [
+			COMBINED_GATE,
+		]);
+		expect(result.pairsChecked).toBe(0);
+		expect(result.conflicts).toEqual([]);
+	});
+});
+
+describe("notifySemanticConflicts", () => {
+	let tempDir: string;
+
+	beforeEach(async () => {
+		tempDir = await createTempGitRepo();
+	});
+
+	afterEach(async () => {
+		await cleanupTempDir(tempDir);
+	});
+
+	test("mails both owning agents a merge_failed payload", () => {
+		const store = createMailStore(join(tempDir, "mail.db"));
+		const client = createMailClient(store);
+		try {
+			const ids = notifySemanticConflicts(client, [
+				{
+					first: makeTestEntry("field", ["schema.txt"]),
+					second: makeTestEntry("callers", ["caller.txt"]),
+					failures: [
+						{
+							name: "Typecheck",
+							command: "tsc --noEmit",
+							passed: false,
+							exitCode: 2,
+							output: "caller.ts: missing property 'id'",
+						},
+					],
+				},
+			]);
+
+			expect(ids).toHaveLength(2);
+			const messages = client.list();
+			expect(messages.map((m) => m.to).sort()).toEqual(["agent-callers", "agent-field"]);
+
+			const toField = messages.find((m) => m.to === "agent-field");
+			expect(toField?.type).toBe("merge_failed");
+			const payload = JSON.parse(toField?.payload ?? "{}") as MergeFailedPayload;
+			expect(payload.branch).toBe("field");
+			expect(payload.taskId).toBe("task-field");
+			expect(payload.conflictFiles).toEqual(["caller.txt", "schema.txt"]);
+			expect(payload.errorMessage).toContain("callers");
+			expect(payload.errorMessage).toContain("missing property 'id'");
+		} finally {
+			client.close();
+		}
+	});
+});
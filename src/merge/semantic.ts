@@ -0,0 +1,214 @@
+/**
+ * Semantic conflict detection between queued agent branches.
+ *
+ * Textual merges can succeed while the combined code is broken: one agent adds
+ * a required field, another adds callers that don't supply it. This check
+ * merges queued branches pairwise in a scratch worktree of the canonical
+ * branch and runs the quality gates. A gate that passes on the canonical
+ * branch and with each branch merged alone, but fails with both merged, is a
+ * semantic conflict attributed to that pair.
+ *
+ * Cost grows quadratically: gates run once for the baseline, once per branch,
+ * and once per pair. Pairs that conflict textually beyond auto-resolve are
+ * skipped (the resolver and `ov merge --simulate` cover those).
+ */
+
+import { symlink } from "node:fs/promises";
+import { join } from "node:path";
+import type { MailClient } from "../mail/client.ts";
+import type { MergeEntry, QualityGate, QualityGateResult } from "../types.ts";
+import { runQualityGates } from "./resolver.ts";
+import { simulateEntry, withScratchWorktree } from "./simulator.ts";
+
+/** A gate breakage that only appears when two branches are merged together. */
+export interface SemanticConflict {
+	first: MergeEntry;
+	second: MergeEntry;
+	/** Gates that fail only for the combined merge. */
+	failures: QualityGateResult[];
+}
+
+/** Result of a pairwise semantic check. */
+export interface SemanticCheckResult {
+	conflicts: SemanticConflict[];
+	/** Gates already failing on the canonical branch (never attributed to a pair). */
+	baselineFailures: string[];
+	/** Number of pairs whose combined merge was gated. */
+	pairsChecked: number;
+	/** Pairs skipped because they conflict textually beyond auto-resolve. */
+	skippedPairs: Array<[string, string]>;
+}
+
+/**
+ * Run a git command in the given directory. Returns stdout and exit code.
+ */
+async function runGit(cwd: string, args: string[]): Promise<{ stdout: string; exitCode: number }> {
+	const proc = Bun.spawn(["git", ...args], {
+		cwd,
+		stdout: "pipe",
+		stderr: "pipe",
+	});
+	const [stdout, exitCode] = await Promise.all([new Response(proc.stdout).text(), proc.exited]);
+	return { stdout, exitCode };
+}
+
+/**
+ * Run every gate (not stopping at the first failure) so each failure can be
+ * compared against the baseline and single-branch runs.
+ */
+async function runAllGates(gates: QualityGate[], cwd: string): Promise<QualityGateResult[]> {
+	const results: QualityGateResult[] = [];
+	for (const gate of gates) {
+		results.push(...(await runQualityGates([gate], cwd)));
+	}
+	return results;
+}
+
+function failingGateNames(results: QualityGateResult[]): Set<string> {
+	return new Set(results.filter((r) => !r.passed).map((r) => r.name));
+}
+
+/** Reset the scratch worktree to the baseline commit, dropping gate build output. */
+async function resetTo(worktreePath: string, sha: string): Promise<void> {
+	await runGit(worktreePath, ["reset", "--hard", sha]);
+	await runGit(worktreePath, ["clean", "-fd", "-e", "node_modules"]);
+}
+
+/**
+ * Gates usually need installed dependencies. Link the main checkout's
+ * node_modules into the scratch worktree when the worktree has none.
+ */
+async function linkDependencies(repoRoot: string, worktreePath: string): Promise<void> {
+	const source = join(repoRoot, "node_modules");
+	const target = join(worktreePath, "node_modules");
+	try {
+		await symlink(source, target, "dir");
+	} catch {
+		// No node_modules in the main checkout, or the worktree already has one
+	}
+}
+
+/**
+ * Check queued branches pairwise for semantic conflicts.
+ *
+ * @param entries - Queue entries merged together (usually the pending queue)
+ * @param canonicalBranch - Branch the entries would merge into
+ * @param repoRoot - Repository root (used to create the scratch worktree)
+ * @param gates - Quality gates to run (typecheck, tests, ...)
+ * @throws MergeError if the scratch worktree cannot be created
+ */
+export async function checkSemanticConflicts(
+	entries: MergeEntry[],
+	canonicalBranch: string,
+	repoRoot: string,
+	gates: QualityGate[],
+): Promise<SemanticCheckResult> {
+	if (entries.length < 2 || gates.length === 0) {
+		return { conflicts: [], baselineFailures: [], pairsChecked: 0, skippedPairs: [] };
+	}
+
+	return withScratchWorktree(repoRoot, canonicalBranch, async (worktreePath) => {
+		await linkDependencies(repoRoot, worktreePath);
+		const baseSha = (await runGit(worktreePath, ["rev-parse", "HEAD"])).stdout.trim();
+
+		const baseline = failingGateNames(await runAllGates(gates, worktreePath));
+
+		// Single-branch failures, so pair failures caused by one branch alone are not blamed on the pair
+		const soloFailures = new Map<string, Set<string>>();
+		const mergeable: MergeEntry[] = [];
+		for (const entry of entries) {
+			await resetTo(worktreePath, baseSha);
+			const step = await simulateEntry(entry, worktreePath);
+			if (!step.applied) continue;
+			mergeable.push(entry);
+			soloFailures.set(entry.branchName, failingGateNames(await runAllGates(gates, worktreePath)));
+		}
+
+		const conflicts: SemanticConflict[] = [];
+		const skippedPairs: Array<[string, string]> = [];
+		let pairsChecked = 0;
+
+		for (let i = 0; i < mergeable.length; i++) {
+			for (let j = i + 1; j < mergeable.length; j++) {
+				const first = mergeable[i];
+				const second = mergeable[j];
+				if (!first || !second) continue;
+
+				await resetTo(worktreePath, baseSha);
+				await simulateEntry(first, worktreePath);
+				const step = await simulateEntry(second, worktreePath);
+				if (!step.applied) {
+					skippedPairs.push([first.branchName, second.branchName]);
+					continue;
+				}
+
+				pairsChecked++;
+				const soloFirst = soloFailures.get(first.branchName) ?? new Set<string>();
+				const soloSecond = soloFailures.get(second.branchName) ?? new Set<string>();
+				const results = await runAllGates(gates, worktreePath);
+				const failures = results.filter(
+					(r) =>
+						!r.passed && !baseline.has(r.name) && !soloFirst.has(r.name) && !soloSecond.has(r.name),
+				);
+				if (failures.length > 0) {
+					conflicts.push({ first, second, failures });
+				}
+			}
+		}
+
+		return { conflicts, baselineFailures: [...baseline], pairsChecked, skippedPairs };
+	});
+}
+
+/**
+ * Mail both owning agents of each semantic conflict with a `merge_failed`
+ * payload describing the breakage. Returns the sent message IDs.
+ *
+ * @param client - Mail client to send through
+ * @param conflicts - Conflicts found by checkSemanticConflicts
+ * @param from - Sender name (default: "merger")
+ */
+export function notifySemanticConflicts(
+	client: MailClient,
+	conflicts: SemanticConflict[],
+	from = "merger",
+): string[] {
+	const ids: string[] = [];
+	for (const conflict of conflicts) {
+		const gateNames = conflict.failures.map((f) => f.name).join(", ");
+		const details = conflict.failures
+			.map((f) => `${f.name} (\`${f.command}\`, exit ${f.exitCode}):\n${f.output}`)
+			.join("\n\n");
+		const files = [
+			...new Set([...conflict.first.filesModified, ...conflict.second.filesModified]),
+		].sort();
+
+		for (const [own, other] of [
+			[conflict.first, conflict.second],
+			[conflict.second, conflict.first],
+		] as const) {
+			const errorMessage =
+				`Semantic conflict with ${other.branchName} (agent ${other.agentName}): ` +
+				`${gateNames} fail only when both branches are merged.\n${details}`;
+			ids.push(
+				client.sendProtocol({
+					from,
+					to: own.agentName,
+					subject: `Semantic conflict: ${own.branchName} + ${other.branchName}`,
+					body:
+						`Your branch merges cleanly on its own, but breaks ${gateNames} when combined with ` +
+						`${other.branchName} (${other.agentName}). Coordinate with ${other.agentName} and rework.\n\n${details}`,
+					type: "merge_failed",
+					priority: "high",
+					payload: {
+						branch: own.branchName,
+						taskId: own.taskId,
+						conflictFiles: files,
+						errorMessage,
+					},
+				}),
+			);
+		}
+	}
+	return ids;
+}
@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import {
+	cleanupTempDir,
+	commitFile,
+	createTempGitRepo,
+	getDefaultBranch,
+	runGitInDir,
+} from "../test-helpers.ts";
+import type { MergeEntry } from "../types.ts";
+import { simulateMergeQueue } from "./simulator.ts";
+
+function makeTestEntry(branchName: string): MergeEntry {
+	return {
+		branchName,
+		taskId: `task-${branchName}`,
+		agentName: `agent-${branchName}`,
+		filesModified: [],
+		enqueuedAt: new Date().toISOString(),
+		status: "pending",
+		resolvedTier: null,
+		failureReason: null,
+	};
+}
+
+describe("simulateMergeQueue", () => {
+	let repoDir: string;
+	let defaultBranch: string;
+
+	beforeEach(async () => {
+		repoDir = await createTempGitRepo();
+		defaultBranch = await getDefaultBranch(repoDir);
+		await commitFile(repoDir, "src/shared.ts", "line 0\n");
+	});
+
+	afterEach(async () => {
+		await cleanupTempDir(repoDir);
+	});
+
+	/** Create a branch off the default branch that writes one file. */
+	async function createBranch(name: string, file: string, content: string): Promise<void> {
+		await runGitInDir(repoDir, ["checkout", "-b", name, defaultBranch]);
+		await commitFile(repoDir, file, content);
+		await runGitInDir(repoDir, ["checkout", defaultBranch]);
+	}
+
+	async function headSha(): Promise<string> {
+		return (await runGitInDir(repoDir, ["rev-parse", "HEAD"])).trim();
+	}
+
+	test("reports clean merges and leaves the canonical branch untouched", async () => {
+		await createBranch("a", "src/a.ts", "a\n");
+		await createBranch("b", "src/b.ts", "b\n");
+		const before = await headSha();
+
+		const sim = await simulateMergeQueue(
+			[makeTestEntry("a"), makeTestEntry("b")],
+			defaultBranch,
+			repoDir,
+		);
+
+		expect(sim.steps.map((s) => s.tier)).toEqual(["clean-merge", "clean-merge"]);
+		expect(sim.conflictCount).toBe(0);
+		expect(sim.alternativeOrder).toBeNull();
+		expect(await headSha()).toBe(before);
+		expect(await Bun.file(`${repoDir}/src/a.ts`).exists()).toBe(false);
+
+		const worktrees = await runGitInDir(repoDir, ["worktree", "list"]);
+		expect(worktrees.trim().split("\n")).toHaveLength(1);
+	});
+
+	test("reports the conflicting entry, its files, and the auto-resolve tier", async () => {
+		await createBranch("a", "src/shared.ts", "line a\n");
+		await createBranch("b", "src/shared.ts", "line b\n");
+
+		const sim = await simulateMergeQueue(
+			[makeTestEntry("a"), makeTestEntry("b")],
+			defaultBranch,
+			repoDir,
+		);
+
+		expect(sim.steps[0]?.tier).toBe("clean-merge");
+		expect(sim.steps[1]?.tier).toBe("auto-resolve");
+		expect(sim.steps[1]?.conflictFiles).toEqual(["src/shared.ts"]);
+		expect(sim.steps[1]?.applied).toBe(true);
+		expect(sim.conflictCount).toBe(1);
+		// Swapping a and b still conflicts on the same lines
+		expect(sim.alternativeOrder).toBeNull();
+	});
+
+	test("reports entries no deterministic tier can resolve", async () => {
+		await createBranch("a", "src/shared.ts", "line a\n");
+		await runGitInDir(repoDir, ["checkout", "-b", "b", defaultBranch]);
+		await runGitInDir(repoDir, ["rm", "src/shared.ts"]);
+		await runGitInDir(repoDir, ["commit", "-m", "delete shared"]);
+		await runGitInDir(repoDir, ["checkout", defaultBranch]);
+
+		const sim = await simulateMergeQueue(
+			[makeTestEntry("a"), makeTestEntry("b")],
+			defaultBranch,
+			repoDir,
+		);
+
+		expect(sim.steps[1]?.tier).toBe("ai-resolve");
+		expect(sim.steps[1]?.applied).toBe(false);
+		expect(sim.steps[1]?.conflictFiles).toEqual(["src/shared.ts"]);
+	});
+
+	test("suggests an ordering that avoids conflicts when one exists", async () => {
+		await createBranch("x", "src/shared.ts", "line x\n");
+		await createBranch("y", "src/shared.ts", "line y\n");
+		// Integration branch that already contains x and y with the conflict resolved
+		await runGitInDir(repoDir, ["checkout", "-b", "xy", "x"]);
+		await runGitInDir(repoDir, ["merge", "y"]).catch(() => "");
+		await Bun.write(`${repoDir}/src/shared.ts`, "line xy\n");
+		await runGitInDir(repoDir, ["add", "src/shared.ts"]);
+		await runGitInDir(repoDir, ["commit", "--no-edit"]);
+		await runGitInDir(repoDir, ["checkout", defaultBranch]);
+
+		const sim = await simulateMergeQueue(
+			[makeTestEntry("x"), makeTestEntry("y"), makeTestEntry("xy")],
+			defaultBranch,
+			repoDir,
+		);
+
+		expect(sim.steps[1]?.tier).toBe("auto-resolve");
+		expect(sim.conflictCount).toBeGreaterThan(0);
+		expect(sim.alternativeOrder).toEqual(["x", "xy", "y"]);
+	});
+
+	test("throws MergeError when the canonical branch does not exist", async () => {
+		await expect(
+			simulateMergeQueue([makeTestEntry("a")], "no-such-branch", repoDir),
+		).rejects.toThrow("simulation worktree");
+	});
+});
@@ -0,0 +1,196 @@
+/**
+ * Speculative merge simulation for the merge queue.
+ *
+ * Replays pending queue entries in FIFO order onto a throwaway detached
+ * worktree of the canonical branch, using the resolver's deterministic tiers
+ * (clean merge, then auto-resolve). Reports which entries would conflict, on
+ * which files, and the tier each would need. When FIFO order hits conflicts,
+ * a greedy search looks for an ordering in which every entry merges cleanly.
+ *
+ * The canonical branch and the main working tree are never touched; the
+ * worktree is removed when the simulation finishes.
+ */
+
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { MergeError } from "../errors.ts";
+import type { MergeEntry, ResolutionTier } from "../types.ts";
+import { tryAutoResolve, tryCleanMerge } from "./resolver.ts";
+
+/** Predicted outcome of merging one queue entry during simulation. */
+export interface SimulatedMerge {
+	branchName: string;
+	taskId: string;
+	agentName: string;
+	/** Lowest tier that would land the entry. "ai-resolve" means no deterministic tier can. */
+	tier: ResolutionTier;
+	/** Files that conflicted against the simulated canonical state (empty for clean merges). */
+	conflictFiles: string[];
+	/** Whether the entry's changes were applied to the simulated state for later entries. */
+	applied: boolean;
+}
+
+/** Result of simulating the whole merge queue. */
+export interface MergeSimulation {
+	canonicalBranch: string;
+	/** One step per entry, in FIFO order. */
+	steps: SimulatedMerge[];
+	/** Number of entries that would not merge cleanly in FIFO order. */
+	conflictCount: number;
+	/**
+	 * Branch order in which every entry merges cleanly, when FIFO order has
+	 * conflicts and such an order exists. Null otherwise.
+	 */
+	alternativeOrder: string[] | null;
+}
+
+/**
+ * Run a git command in the given directory. Returns stdout, stderr, and exit code.
+ */
+async function runGit(
+	cwd: string,
+	args: string[],
+): Promise<{ stdout: string; stderr: string; exitCode: number }> {
+	const proc = Bun.spawn(["git", ...args], {
+		cwd,
+		stdout: "pipe",
+		stderr: "pipe",
+	});
+
+	const [stdout, stderr, exitCode] = await Promise.all([
+		new Response(proc.stdout).text(),
+		new Response(proc.stderr).text(),
+		proc.exited,
+	]);
+
+	return { stdout, stderr, exitCode };
+}
+
+/**
+ * Merge one entry into the simulation worktree, escalating through the
+ * deterministic tiers. Leaves the worktree clean: the merge is committed when
+ * a tier succeeds and aborted otherwise.
+ */
+export async function simulateEntry(
+	entry: MergeEntry,
+	worktreePath: string,
+): Promise<SimulatedMerge> {
+	const base = {
+		branchName: entry.branchName,
+		taskId: entry.taskId,
+		agentName: entry.agentName,
+	};
+
+	const clean = await tryCleanMerge(entry, worktreePath);
+	if (clean.success) {
+		return { ...base, tier: "clean-merge", conflictFiles: [], applied: true };
+	}
+
+	const conflictFiles = clean.conflictFiles;
+	const auto = await tryAutoResolve(conflictFiles, worktreePath);
+	if (auto.success) {
+		return { ...base, tier: "auto-resolve", conflictFiles, applied: true };
+	}
+
+	await runGit(worktreePath, ["merge", "--abort"]);
+	return { ...base, tier: "ai-resolve", conflictFiles, applied: false };
+}
+
+/**
+ * Greedily search for an order in which every entry merges cleanly.
+ *
+ * At each step, the first remaining entry (in FIFO order) that merges cleanly
+ * onto the current simulated state is taken. Returns null as soon as no
+ * remaining entry merges cleanly.
+ */
+async function findCleanOrder(
+	entries: MergeEntry[],
+	worktreePath: string,
+	baseSha: string,
+): Promise<string[] | null> {
+	await runGit(worktreePath, ["reset", "--hard", baseSha]);
+
+	const remaining = [...entries];
+	const order: string[] = [];
+	while (remaining.length > 0) {
+		let picked = -1;
+		for (let i = 0; i < remaining.length; i++) {
+			const candidate = remaining[i];
+			if (candidate === undefined) continue;
+			const result = await tryCleanMerge(candidate, worktreePath);
+			if (result.success) {
+				picked = i;
+				break;
+			}
+			await runGit(worktreePath, ["merge", "--abort"]);
+		}
+		if (picked === -1) return null;
+		const [entry] = remaining.splice(picked, 1);
+		if (entry) order.push(entry.branchName);
+	}
+	return order;
+}
+
+/**
+ * Run `fn` inside a throwaway detached worktree checked out at `ref`.
+ * The worktree and its temp directory are removed afterwards, even on error.
+ *
+ * @throws MergeError if the worktree cannot be created
+ */
+export async function withScratchWorktree<T>(
+	repoRoot: string,
+	ref: string,
+	fn: (worktreePath: string) => Promise<T>,
+): Promise<T> {
+	const simDir = await mkdtemp(join(tmpdir(), "overstory-merge-sim-"));
+	const worktreePath = join(simDir, "tree");
+
+	const add = await runGit(repoRoot, ["worktree", "add", "--detach", worktreePath, ref]);
+	if (add.exitCode !== 0) {
+		await rm(simDir, { recursive: true, force: true });
+		throw new MergeError(`Failed to create simulation worktree: ${add.stderr.trim()}`, {
+			branchName: ref,
+		});
+	}
+
+	try {
+		return await fn(worktreePath);
+	} finally {
+		await runGit(repoRoot, ["worktree", "remove", "--force", worktreePath]);
+		await runGit(repoRoot, ["worktree", "prune"]);
+		await rm(simDir, { recursive: true, force: true });
+	}
+}
+
+/**
+ * Simulate merging queue entries onto the canonical branch.
+ *
+ * @param entries - Queue entries to replay, in FIFO order
+ * @param canonicalBranch - Branch the entries would merge into
+ * @param repoRoot - Repository root (used to create the throwaway worktree)
+ * @throws MergeError if the simulation worktree cannot be created
+ */
+export async function simulateMergeQueue(
+	entries: MergeEntry[],
+	canonicalBranch: string,
+	repoRoot: string,
+): Promise<MergeSimulation> {
+	return withScratchWorktree(repoRoot, canonicalBranch, async (worktreePath) => {
+		const { stdout: headOut } = await runGit(worktreePath, ["rev-parse", "HEAD"]);
+		const baseSha = headOut.trim();
+
+		const steps: SimulatedMerge[] = [];
+		for (const entry of entries) {
+			steps.push(await simulateEntry(entry, worktreePath));
+		}
+
+		const conflictCount = steps.filter((s) => s.tier !== "clean-merge").length;
+		const alternativeOrder =
+			conflictCount > 0 && entries.length > 1
+				? await findCleanOrder(entries, worktreePath, baseSha)
+				: null;
+
+		return { canonicalBranch, steps, conflictCount, alternativeOrder };
+	});
+}
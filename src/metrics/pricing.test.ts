@@ -0,0 +1,109 @@
+import { describe, expect, test } from "bun:test";
+import type { PricingConfig } from "../types.ts";
+import { estimateCost, findUnpricedModels, resolvePricing, type TokenUsage } from "./pricing.ts";
+
+function makeUsage(overrides: Partial<TokenUsage> = {}): TokenUsage {
+	return {
+		inputTokens: 1_000_000,
+		outputTokens: 1_000_000,
+		cacheReadTokens: 0,
+		cacheCreationTokens: 0,
+		modelUsed: "claude-sonnet-4-6",
+		...overrides,
+	};
+}
+
+const PRICING: PricingConfig = {
+	models: {
+		"claude-sonnet-4-6": { inputPerMTok: 2, outputPerMTok: 10 },
+	},
+	providers: {
+		openrouter: {
+			"openai/gpt-4o": { inputPerMTok: 3, outputPerMTok: 12 },
+			"qwen-coder": { inputPerMTok: 0.5, outputPerMTok: 1 },
+			default: { inputPerMTok: 1, outputPerMTok: 1 },
+		},
+	},
+};
+
+describe("resolvePricing", () => {
+	test("prefers an exact model entry over the built-in table", () => {
+		const resolved = resolvePricing("claude-sonnet-4-6", PRICING);
+		expect(resolved?.source).toBe("model");
+		expect(resolved?.entry.inputPerMTok).toBe(2);
+	});
+
+	test("matches provider-prefixed IDs against the provider table", () => {
+		const resolved = resolvePricing("openrouter/openai/gpt-4o", PRICING);
+		expect(resolved?.source).toBe("provider");
+		expect(resolved?.entry.inputPerMTok).toBe(3);
+	});
+
+	test("finds unprefixed IDs in any provider table", () => {
+		expect(resolvePricing("qwen-coder", PRICING)?.entry.inputPerMTok).toBe(0.5);
+	});
+
+	test("uses the provider default for unlisted models from that provider", () => {
+		expect(resolvePricing("openrouter/some/new-model", PRICING)?.entry.inputPerMTok).toBe(1);
+	});
+
+	test("falls back to the built-in table by default", () => {
+		const resolved = resolvePricing("claude-opus-4-6", PRICING);
+		expect(resolved?.source).toBe("builtin");
+		expect(resolved?.entry.inputPerMTok).toBe(15);
+	});
+
+	test("returns null for unknown models when fallback is none", () => {
+		expect(resolvePricing("claude-opus-4-6", { ...PRICING, fallback: "none" })).toBeNull();
+		expect(resolvePricing("unknown-model")).toBeNull();
+	});
+});
+
+describe("estimateCost with pricing config", () => {
+	test("uses configured prices", () => {
+		expect(estimateCost(makeUsage(), PRICING)).toBe(12);
+	});
+
+	test("defaults cache prices to the input price", () => {
+		const usage = makeUsage({
+			inputTokens: 0,
+			outputTokens: 0,
+			cacheReadTokens: 1_000_000,
+			cacheCreationTokens: 1_000_000,
+		});
+		expect(estimateCost(usage, PRICING)).toBe(4);
+	});
+
+	test("applies the long-context tier when a turn exceeded the threshold", () => {
+		const pricing: PricingConfig = {
+			models: {
+				"gemini-2.5-pro": {
+					inputPerMTok: 1,
+					outputPerMTok: 10,
+					longContext: { thresholdTokens: 200_000, inputPerMTok: 2, outputPerMTok: 15 },
+				},
+			},
+		};
+		const usage = makeUsage({ modelUsed: "gemini-2.5-pro" });
+		expect(estimateCost({ ...usage, peakContextTokens: 150_000 }, pricing)).toBe(11);
+		expect(estimateCost({ ...usage, peakContextTokens: 250_000 }, pricing)).toBe(17);
+	});
+
+	test("returns null without a model", () => {
+		expect(estimateCost(makeUsage({ modelUsed: null }), PRICING)).toBeNull();
+	});
+});
+
+describe("findUnpricedModels", () => {
+	test("lists distinct models recorded with a null cost", () => {
+		expect(
+			findUnpricedModels([
+				{ modelUsed: "b", estimatedCostUsd: null },
+				{ modelUsed: "a", estimatedCostUsd: null },
+				{ modelUsed: "b", estimatedCostUsd: null },
+				{ modelUsed: "priced", estimatedCostUsd: 1 },
+				{ modelUsed: null, estimatedCostUsd: null },
+			]),
+		).toEqual(["a", "b"]);
+	});
+});
@@ -4,11 +4,21 @@
  * Extracted from transcript.ts so any runtime can use cost estimation
  * without pulling in Claude Code-specific JSONL parsing logic.
  *
- * To add support for a new provider model, add an entry to MODEL_PRICING
- * using a lowercase substring that uniquely identifies the model tier
- * (e.g. "opus", "sonnet", "haiku").
+ * Lookup order (see resolvePricing):
+ *   1. `pricing.models[<model>]` — exact model ID from config
+ *   2. `pricing.providers[<provider>][<model>]` — provider-prefixed IDs
+ *      ("openrouter/openai/gpt-4o") match the provider table, unprefixed IDs
+ *      are looked up in every provider table
+ *   3. `pricing.providers[<provider>].default` — provider-wide price
+ *   4. Built-in substring table below, unless `pricing.fallback` is "none"
+ *
+ * To add a built-in price for a new model family, add an entry to
+ * MODEL_PRICING using a lowercase substring that uniquely identifies the
+ * model tier (e.g. "opus", "sonnet", "haiku").
  */
 
+import type { PricingConfig, PricingEntry } from "../types.ts";
+
 /** Canonical token usage representation shared across all runtimes. */
 export interface TokenUsage {
 	inputTokens: number;
@@ -16,6 +26,8 @@ export interface TokenUsage {
 	cacheReadTokens: number;
 	cacheCreationTokens: number;
 	modelUsed: string | null;
+	/** Largest single-turn prompt (input + cache tokens), for long-context pricing. */
+	peakContextTokens?: number;
 }
 
 /** Pricing per million tokens (USD). */
@@ -116,15 +128,88 @@ export function getPricingForModel(model: string): ModelPricing | null {
 	return null;
 }
 
+/** Where a resolved price came from. */
+export type PricingSource = "model" | "provider" | "builtin";
+
+/** A price resolved for a model, with its origin. */
+export interface ResolvedPricing {
+	entry: PricingEntry;
+	source: PricingSource;
+}
+
+/** Find a configured price for a model (steps 1-3 of the lookup order). */
+function findConfiguredPricing(model: string, config: PricingConfig): ResolvedPricing | null {
+	const exact = config.models?.[model];
+	if (exact) return { entry: exact, source: "model" };
+
+	const providers = config.providers ?? {};
+	const slash = model.indexOf("/");
+	const prefix = slash > 0 ? model.slice(0, slash) : null;
+	const prefixed = prefix !== null ? providers[prefix] : undefined;
+
+	const inProvider = prefixed?.[model.slice(slash + 1)];
+	if (inProvider) return { entry: inProvider, source: "provider" };
+
+	for (const table of Object.values(providers)) {
+		const entry = table[model];
+		if (entry) return { entry, source: "provider" };
+	}
+
+	if (prefixed?.default) return { entry: prefixed.default, source: "provider" };
+	return null;
+}
+
+/**
+ * Resolve the price for a model from config, falling back to the built-in
+ * table unless `config.fallback` is "none". Returns null if no price applies.
+ */
+export function resolvePricing(model: string, config?: PricingConfig): ResolvedPricing | null {
+	if (config) {
+		const configured = findConfiguredPricing(model, config);
+		if (configured) return configured;
+		if (config.fallback === "none") return null;
+	}
+	const builtin = getPricingForModel(model);
+	return builtin ? { entry: builtin, source: "builtin" } : null;
+}
+
+/**
+ * Effective per-token prices for a usage: the long-context tier applies when
+ * the largest turn's prompt exceeded its threshold. Token usage is aggregated
+ * per session, so the tier prices the whole session (an upper bound).
+ */
+function effectivePricing(entry: PricingEntry, usage: TokenUsage): ModelPricing {
+	const long = entry.longContext;
+	const tier =
+		long && (usage.peakContextTokens ?? 0) > long.thresholdTokens
+			? {
+					inputPerMTok: long.inputPerMTok,
+					outputPerMTok: long.outputPerMTok,
+					cacheReadPerMTok: long.cacheReadPerMTok,
+					cacheCreationPerMTok: long.cacheCreationPerMTok,
+				}
+			: entry;
+	return {
+		inputPerMTok: tier.inputPerMTok,
+		outputPerMTok: tier.outputPerMTok,
+		cacheReadPerMTok: tier.cacheReadPerMTok ?? tier.inputPerMTok,
+		cacheCreationPerMTok: tier.cacheCreationPerMTok ?? tier.inputPerMTok,
+	};
+}
+
 /**
  * Calculate the estimated cost in USD for a given usage and model.
- * Returns null if the model is unrecognized.
+ * Returns null if the model has no price (see resolvePricing).
+ *
+ * @param usage - Aggregated token usage
+ * @param config - Pricing overrides from config (omit for built-in prices only)
  */
-export function estimateCost(usage: TokenUsage): number | null {
+export function estimateCost(usage: TokenUsage, config?: PricingConfig): number | null {
 	if (usage.modelUsed === null) return null;
 
-	const pricing = getPricingForModel(usage.modelUsed);
-	if (pricing === null) return null;
+	const resolved = resolvePricing(usage.modelUsed, config);
+	if (resolved === null) return null;
+	const pricing = effectivePricing(resolved.entry, usage);
 
 	const inputCost = (usage.inputTokens / 1_000_000) * pricing.inputPerMTok;
 	const outputCost = (usage.outputTokens / 1_000_000) * pricing.outputPerMTok;
@@ -133,3 +218,19 @@ export function estimateCost(usage: TokenUsage): number | null {
 
 	return inputCost + outputCost + cacheReadCost + cacheCreationCost;
 }
+
+/**
+ * List the distinct models that were used but had no price (cost recorded as
+ * null), sorted. Works on session metrics and token snapshots alike.
+ */
+export function findUnpricedModels(
+	records: ReadonlyArray<{ modelUsed: string | null; estimatedCostUsd: number | null }>,
+): string[] {
+	const models = new Set<string>();
+	for (const record of records) {
+		if (record.modelUsed && record.estimatedCostUsd === null) {
+			models.add(record.modelUsed);
+		}
+	}
+	return [...models].sort();
+}
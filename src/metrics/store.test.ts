@@ -47,6 +47,7 @@ function makeSession(overrides: Partial<SessionMetrics> = {}): SessionMetrics {
 		estimatedCostUsd: null,
 		modelUsed: null,
 		runId: null,
+		runtime: null,
 		...overrides,
 	};
 }
@@ -392,6 +393,7 @@ describe("token fields", () => {
 		expect(sessions[0]?.outputTokens).toBe(0);
 		expect(sessions[0]?.estimatedCostUsd).toBeNull();
 		expect(sessions[0]?.modelUsed).toBeNull();
+		expect(sessions[0]?.runtime).toBeNull();
 
 		// New rows with token data should work
 		store.recordSession(
@@ -402,11 +404,13 @@ describe("token fields", () => {
 				outputTokens: 1000,
 				estimatedCostUsd: 0.42,
 				modelUsed: "claude-sonnet-4-20250514",
+				runtime: "pi",
 			}),
 		);
 
 		const newSessions = store.getSessionsByAgent("new-agent");
 		expect(newSessions).toHaveLength(1);
+		expect(newSessions[0]?.runtime).toBe("pi");
 		expect(newSessions[0]?.inputTokens).toBe(5000);
 		expect(newSessions[0]?.estimatedCostUsd).toBeCloseTo(0.42, 2);
 	});
@@ -48,6 +48,7 @@ interface SessionRow {
 	estimated_cost_usd: number | null;
 	model_used: string | null;
 	run_id: string | null;
+	runtime: string | null;
 }
 
 /** Snapshot row shape as stored in SQLite (snake_case columns). */
@@ -81,6 +82,7 @@ CREATE TABLE IF NOT EXISTS sessions (
   estimated_cost_usd REAL,
   model_used TEXT,
   run_id TEXT,
+  runtime TEXT,
   PRIMARY KEY (agent_name, task_id)
 )`;
 
@@ -136,6 +138,18 @@ function migrateRunIdColumn(db: Database): void {
 	}
 }
 
+/**
+ * Migrate an existing sessions table to include the runtime column.
+ * Safe to call multiple times — only adds the column if missing.
+ */
+function migrateRuntimeColumn(db: Database): void {
+	const rows = db.prepare("PRAGMA table_info(sessions)").all() as Array<{ name: string }>;
+	const existingColumns = new Set(rows.map((r) => r.name));
+	if (!existingColumns.has("runtime")) {
+		db.exec("ALTER TABLE sessions ADD COLUMN runtime TEXT");
+	}
+}
+
 /**
  * Migrate an existing sessions table to include token columns.
  * Safe to call multiple times — only adds columns that are missing.
@@ -170,6 +184,7 @@ function rowToMetrics(row: SessionRow): SessionMetrics {
 		estimatedCostUsd: row.estimated_cost_usd,
 		modelUsed: row.model_used,
 		runId: row.run_id,
+		runtime: row.runtime,
 	};
 }
 
@@ -206,10 +221,11 @@ export function createMetricsStore(dbPath: string): MetricsStore {
 	db.exec(CREATE_SNAPSHOTS_TABLE);
 	db.exec(CREATE_SNAPSHOTS_INDEX);
 
-	// Migrate: rename bead_id → task_id, add token columns and run_id column to existing tables
+	// Migrate: rename bead_id → task_id, add token, run_id and runtime columns to existing tables
 	migrateBeadIdToTaskId(db);
 	migrateTokenColumns(db);
 	migrateRunIdColumn(db);
+	migrateRuntimeColumn(db);
 
 	// Prepare statements for all queries
 	const insertStmt = db.prepare<
@@ -231,12 +247,13 @@ export function createMetricsStore(dbPath: string): MetricsStore {
 			$estimated_cost_usd: number | null;
 			$model_used: string | null;
 			$run_id: string | null;
+			$runtime: string | null;
 		}
 	>(`
 		INSERT OR REPLACE INTO sessions
-			(agent_name, task_id, capability, started_at, completed_at, duration_ms, exit_code, merge_result, parent_agent, input_tokens, output_tokens, cache_read_tokens, cache_creation_tokens, estimated_cost_usd, model_used, run_id)
+			(agent_name, task_id, capability, started_at, completed_at, duration_ms, exit_code, merge_result, parent_agent, input_tokens, output_tokens, cache_read_tokens, cache_creation_tokens, estimated_cost_usd, model_used, run_id, runtime)
 		VALUES
-			($agent_name, $task_id, $capability, $started_at, $completed_at, $duration_ms, $exit_code, $merge_result, $parent_agent, $input_tokens, $output_tokens, $cache_read_tokens, $cache_creation_tokens, $estimated_cost_usd, $model_used, $run_id)
+			($agent_name, $task_id, $capability, $started_at, $completed_at, $duration_ms, $exit_code, $merge_result, $parent_agent, $input_tokens, $output_tokens, $cache_read_tokens, $cache_creation_tokens, $estimated_cost_usd, $model_used, $run_id, $runtime)
 	`);
 
 	const recentStmt = db.prepare<SessionRow, { $limit: number }>(`
@@ -329,6 +346,7 @@ export function createMetricsStore(dbPath: string): MetricsStore {
 				$estimated_cost_usd: metrics.estimatedCostUsd,
 				$model_used: metrics.modelUsed,
 				$run_id: metrics.runId,
+				$runtime: metrics.runtime,
 			});
 		},
 
@@ -48,6 +48,7 @@ function makeSession(overrides: Partial<SessionMetrics> = {}): SessionMetrics {
 		estimatedCostUsd: null,
 		modelUsed: null,
 		runId: null,
+		runtime: null,
 		...overrides,
 	};
 }
@@ -84,6 +84,7 @@ export async function parseTranscriptUsage(transcriptPath: string): Promise<Tran
 		cacheReadTokens: 0,
 		cacheCreationTokens: 0,
 		modelUsed: null,
+		peakContextTokens: 0,
 	};
 
 	for (const line of lines) {
@@ -105,6 +106,10 @@ export async function parseTranscriptUsage(transcriptPath: string): Promise<Tran
 		result.outputTokens += usage.outputTokens;
 		result.cacheReadTokens += usage.cacheReadTokens;
 		result.cacheCreationTokens += usage.cacheCreationTokens;
+		result.peakContextTokens = Math.max(
+			result.peakContextTokens ?? 0,
+			usage.inputTokens + usage.cacheReadTokens + usage.cacheCreationTokens,
+		);
 
 		// Capture model from first assistant turn
 		if (result.modelUsed === null && usage.model !== undefined) {
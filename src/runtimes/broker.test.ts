@@ -0,0 +1,125 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { cleanupTempDir } from "../test-helpers.ts";
+import {
+	type Broker,
+	brokerEndpoint,
+	getBrokerStatus,
+	listBrokerAgents,
+	startBroker,
+	stopBroker,
+} from "./broker.ts";
+import { callHost, type HeadlessHostSpec, headlessControl, headlessEndpoint } from "./headless.ts";
+import { PiRuntime } from "./pi.ts";
+
+/** Answers every JSON-RPC request with a null result and exits on stdin EOF. */
+const FAKE_AGENT = `
+const decoder = new TextDecoder();
+let buffer = "";
+for await (const chunk of Bun.stdin.stream()) {
+	buffer += decoder.decode(chunk);
+	let newline = buffer.indexOf("\\n");
+	while (newline !== -1) {
+		const request = JSON.parse(buffer.slice(0, newline));
+		buffer = buffer.slice(newline + 1);
+		newline = buffer.indexOf("\\n");
+		const result = request.method === "get_state" ? { isStreaming: false } : null;
+		process.stdout.write(JSON.stringify({ jsonrpc: "2.0", id: request.id, result }) + "\\n");
+	}
+}
+`;
+
+describe("brokerEndpoint", () => {
+	test("differs from every agent endpoint of the same project", () => {
+		expect(brokerEndpoint("/proj")).toBe(brokerEndpoint("/proj"));
+		expect(brokerEndpoint("/proj")).not.toBe(brokerEndpoint("/other"));
+		expect(brokerEndpoint("/proj")).not.toBe(headlessEndpoint("/proj", "broker"));
+	});
+});
+
+describe("startBroker", () => {
+	let tempDir: string;
+	let endpoint: string;
+	let broker: Broker | null;
+	let agentScript: string;
+
+	beforeEach(async () => {
+		tempDir = await mkdtemp(join(tmpdir(), "broker-test-"));
+		endpoint = brokerEndpoint(tempDir);
+		agentScript = join(tempDir, "fake-agent.ts");
+		await Bun.write(agentScript, FAKE_AGENT);
+		broker = null;
+	});
+
+	afterEach(async () => {
+		await broker?.shutdown();
+		await cleanupTempDir(tempDir);
+	});
+
+	function makeSpec(agentName: string): HeadlessHostSpec {
+		return {
+			agentName,
+			projectRoot: tempDir,
+			runtime: "pi",
+			command: `${process.execPath} ${agentScript}`,
+			cwd: tempDir,
+			env: {},
+			endpoint: headlessEndpoint(tempDir, agentName),
+			logPath: join(tempDir, `${agentName}.log`),
+		};
+	}
+
+	async function start(): Promise<Broker> {
+		broker = await startBroker({ projectRoot: tempDir, loadRuntime: async () => new PiRuntime() });
+		return broker;
+	}
+
+	test("hosts agents that stay reachable after the spawning call returns", async () => {
+		await start();
+		const spec = makeSpec("builder-1");
+		const { pid } = (await callHost(endpoint, "spawn", { spec })) as { pid: number };
+		expect(pid).toBeGreaterThan(0);
+
+		expect(await headlessControl.isAlive(spec.endpoint)).toBe(true);
+		await headlessControl.followUp(spec.endpoint, "You have mail");
+		expect(await headlessControl.getState(spec.endpoint)).toEqual({ status: "idle" });
+
+		const agents = await listBrokerAgents(tempDir);
+		expect(agents.map((a) => [a.agentName, a.pid, a.runtime])).toEqual([["builder-1", pid, "pi"]]);
+		expect((await getBrokerStatus(tempDir))?.agents).toBe(1);
+	});
+
+	test("rejects a second spawn for an agent it already hosts", async () => {
+		await start();
+		const spec = makeSpec("builder-1");
+		await callHost(endpoint, "spawn", { spec });
+		await expect(callHost(endpoint, "spawn", { spec })).rejects.toThrow("already hosted");
+	});
+
+	test("forgets agents once they exit", async () => {
+		await start();
+		const spec = makeSpec("builder-1");
+		await callHost(endpoint, "spawn", { spec });
+		await headlessControl.stop(spec.endpoint);
+
+		for (let i = 0; i < 50 && (await listBrokerAgents(tempDir)).length > 0; i++) {
+			await Bun.sleep(20);
+		}
+		expect(await listBrokerAgents(tempDir)).toEqual([]);
+	});
+
+	test("shutdown aborts hosted agents and closes the control socket", async () => {
+		const running = await start();
+		const spec = makeSpec("builder-1");
+		await callHost(endpoint, "spawn", { spec });
+
+		await stopBroker(tempDir);
+		await running.closed;
+
+		expect(await getBrokerStatus(tempDir)).toBeNull();
+		expect(await headlessControl.isAlive(spec.endpoint)).toBe(false);
+		expect(await Bun.file(endpoint).exists()).toBe(false);
+	});
+});
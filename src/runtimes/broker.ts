@@ -0,0 +1,269 @@
+// Agent broker: one long-running process per project that owns headless agents.
+//
+// Every `ov` command is short-lived, so an RPC connection opened by `ov sling`
+// would die with it. The broker (`ov broker start`) hosts each headless agent
+// with startAgentHost(), keeping the agent process and its connection alive
+// across CLI invocations. It listens on two kinds of Unix sockets:
+//
+//   control socket (brokerEndpoint)   spawn / list / ping / shutdown
+//   per-agent socket (rpcEndpoint)    ping / getState / sendPrompt / followUp / abort
+//
+// `ov nudge`, `ov mail send`, `ov stop`, `ov inspect` and the watchdog talk to
+// the per-agent sockets through HeadlessControl; only `ov sling` and
+// `ov broker` use the control socket.
+
+import { unlink } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { AgentError, OverstoryError } from "../errors.ts";
+import {
+	type AgentHost,
+	callHost,
+	type HeadlessControl,
+	type HeadlessHostSpec,
+	headlessControl,
+	serveJsonLines,
+	startAgentHost,
+} from "./headless.ts";
+import type { AgentRuntime } from "./types.ts";
+
+/** How long `ov sling` waits for the broker and then the agent to answer ping. */
+const READY_TIMEOUT_MS = 30_000;
+
+/** A hosted agent as reported by the broker's `list` method. */
+export interface BrokerAgent {
+	agentName: string;
+	pid: number;
+	endpoint: string;
+	runtime: string;
+	startedAt: string;
+}
+
+/** Broker liveness as reported by `ping`. */
+export interface BrokerStatus {
+	pid: number;
+	agents: number;
+	startedAt: string;
+}
+
+export interface BrokerOptions {
+	projectRoot: string;
+	/** Control socket path. Defaults to brokerEndpoint(projectRoot). */
+	endpoint?: string;
+	/** Resolve a runtime by name for each spawn request. */
+	loadRuntime: (name: string) => Promise<AgentRuntime>;
+}
+
+export interface Broker {
+	endpoint: string;
+	/** Resolves once the broker has shut down (all agents exited, socket removed). */
+	closed: Promise<void>;
+	/** Abort every hosted agent, wait for them to exit, and close the control socket. */
+	shutdown(): Promise<void>;
+}
+
+/** Control socket path for a project's broker (kept short, see headlessEndpoint). */
+export function brokerEndpoint(projectRoot: string): string {
+	const hash = Bun.hash(`${projectRoot}\0broker`).toString(16);
+	return join(tmpdir(), `ov-broker-${hash}.sock`);
+}
+
+/** PID file written by a running broker. */
+export function brokerPidPath(projectRoot: string): string {
+	return join(projectRoot, ".overstory", "broker.pid");
+}
+
+/**
+ * Start a broker in the current process and serve its control socket.
+ * Agents it spawns keep running until they exit, are aborted, or the broker
+ * shuts down.
+ */
+export async function startBroker(options: BrokerOptions): Promise<Broker> {
+	const endpoint = options.endpoint ?? brokerEndpoint(options.projectRoot);
+	const startedAt = new Date().toISOString();
+	const hosts = new Map<string, { host: AgentHost; runtime: string; startedAt: string }>();
+
+	await unlink(endpoint).catch(() => {
+		// No stale socket
+	});
+
+	let resolveClosed: () => void = () => {};
+	const closed = new Promise<void>((resolve) => {
+		resolveClosed = resolve;
+	});
+
+	let shuttingDown: Promise<void> | null = null;
+	const shutdown = (): Promise<void> => {
+		if (shuttingDown) return shuttingDown;
+		shuttingDown = (async () => {
+			const exits = [...hosts.values()].map(({ host }) => {
+				host.terminate();
+				return host.exited;
+			});
+			await Promise.allSettled(exits);
+			server.stop(true);
+			await unlink(endpoint).catch(() => {
+				// Already removed
+			});
+			resolveClosed();
+		})();
+		return shuttingDown;
+	};
+
+	const spawn = async (spec: HeadlessHostSpec): Promise<{ pid: number }> => {
+		if (shuttingDown) {
+			throw new Error("Broker is shutting down");
+		}
+		if (hosts.has(spec.agentName)) {
+			throw new Error(`Agent "${spec.agentName}" is already hosted by this broker`);
+		}
+		const runtime = await options.loadRuntime(spec.runtime);
+		const host = await startAgentHost(spec, runtime);
+		hosts.set(spec.agentName, { host, runtime: spec.runtime, startedAt: new Date().toISOString() });
+		host.exited.finally(() => {
+			if (hosts.get(spec.agentName)?.host === host) {
+				hosts.delete(spec.agentName);
+			}
+		});
+		return { pid: host.pid };
+	};
+
+	const server = serveJsonLines(endpoint, async (method, params) => {
+		try {
+			switch (method) {
+				case "ping": {
+					const status: BrokerStatus = { pid: process.pid, agents: hosts.size, startedAt };
+					return { result: status };
+				}
+				case "spawn":
+					return { result: await spawn(params.spec as HeadlessHostSpec) };
+				case "list": {
+					const agents: BrokerAgent[] = [...hosts.values()].map((entry) => ({
+						agentName: entry.host.agentName,
+						pid: entry.host.pid,
+						endpoint: entry.host.endpoint,
+						runtime: entry.runtime,
+						startedAt: entry.startedAt,
+					}));
+					return { result: agents };
+				}
+				case "shutdown":
+					// Answer first; the caller waits for the socket to disappear
+					setTimeout(() => void shutdown(), 0);
+					return { result: null };
+				default:
+					return { error: `Unknown method: ${method}` };
+			}
+		} catch (err) {
+			return { error: err instanceof Error ? err.message : String(err) };
+		}
+	});
+
+	return { endpoint, closed, shutdown };
+}
+
+/** Ping a project's broker. Returns null when no broker answers. */
+export async function getBrokerStatus(
+	projectRoot: string,
+	endpoint: string = brokerEndpoint(projectRoot),
+): Promise<BrokerStatus | null> {
+	try {
+		return (await callHost(endpoint, "ping", undefined, 2_000)) as BrokerStatus;
+	} catch {
+		return null;
+	}
+}
+
+/** List the agents a project's broker is hosting. */
+export async function listBrokerAgents(
+	projectRoot: string,
+	endpoint: string = brokerEndpoint(projectRoot),
+): Promise<BrokerAgent[]> {
+	return (await callHost(endpoint, "list")) as BrokerAgent[];
+}
+
+/** Ask a project's broker to abort its agents and exit. */
+export async function stopBroker(
+	projectRoot: string,
+	endpoint: string = brokerEndpoint(projectRoot),
+): Promise<void> {
+	await callHost(endpoint, "shutdown");
+}
+
+/**
+ * Make sure the project's broker is running, starting `ov broker start` as a
+ * detached process if needed.
+ *
+ * @throws {OverstoryError} If the broker does not answer within the timeout
+ */
+export async function ensureBroker(projectRoot: string): Promise<BrokerStatus> {
+	const running = await getBrokerStatus(projectRoot);
+	if (running) return running;
+
+	const entry = join(import.meta.dir, "..", "index.ts");
+	const proc = Bun.spawn([process.execPath, "run", entry, "broker", "start"], {
+		cwd: projectRoot,
+		stdin: "ignore",
+		stdout: "ignore",
+		stderr: "ignore",
+	});
+	proc.unref();
+
+	const deadline = Date.now() + READY_TIMEOUT_MS;
+	while (Date.now() < deadline) {
+		if (proc.exitCode !== null) break;
+		const status = await getBrokerStatus(projectRoot);
+		if (status) return status;
+		await Bun.sleep(200);
+	}
+	throw new OverstoryError(
+		"Agent broker did not start. Run `ov broker start` to see why.",
+		"BROKER_ERROR",
+	);
+}
+
+/**
+ * Host a headless agent in the project's broker (starting the broker if
+ * needed) and wait until the agent's socket answers.
+ *
+ * @returns The agent process PID (recorded as the session pid)
+ * @throws {AgentError} If the broker rejects the spawn or the agent does not become ready
+ */
+export async function spawnAgentHost(
+	spec: HeadlessHostSpec,
+	control: HeadlessControl = headlessControl,
+): Promise<number> {
+	await ensureBroker(spec.projectRoot);
+
+	let pid: number;
+	try {
+		const result = (await callHost(brokerEndpoint(spec.projectRoot), "spawn", { spec })) as {
+			pid: number;
+		};
+		pid = result.pid;
+	} catch (err) {
+		throw new AgentError(
+			`Broker could not start "${spec.agentName}": ${err instanceof Error ? err.message : String(err)}`,
+			{ agentName: spec.agentName, cause: err instanceof Error ? err : undefined },
+		);
+	}
+
+	const deadline = Date.now() + READY_TIMEOUT_MS;
+	while (Date.now() < deadline) {
+		if (await control.isAlive(spec.endpoint)) {
+			return pid;
+		}
+		await Bun.sleep(200);
+	}
+
+	let logTail = "";
+	try {
+		logTail = (await Bun.file(spec.logPath).text()).trim().split("\n").slice(-5).join("\n");
+	} catch {
+		// No agent output captured
+	}
+	throw new AgentError(
+		`Headless agent "${spec.agentName}" did not start${logTail ? `:\n${logTail}` : ""}`,
+		{ agentName: spec.agentName },
+	);
+}
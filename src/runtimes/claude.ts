@@ -122,7 +122,13 @@ export class ClaudeRuntime implements AgentRuntime {
 			await Bun.write(claudeMdPath, overlay.content);
 		}
 
-		await deployHooks(hooks.worktreePath, hooks.agentName, hooks.capability, hooks.qualityGates);
+		await deployHooks(
+			hooks.worktreePath,
+			hooks.agentName,
+			hooks.capability,
+			hooks.qualityGates,
+			hooks.policy,
+		);
 	}
 
 	/**
@@ -0,0 +1,176 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { cleanupTempDir } from "../test-helpers.ts";
+import type { OverstoryConfig, RuntimeAdapterSpec } from "../types.ts";
+import { DeclarativeRuntime } from "./declarative.ts";
+import { getRuntime } from "./registry.ts";
+import type { HooksDef, SpawnOpts } from "./types.ts";
+
+const GEMINI: RuntimeAdapterSpec = {
+	instructionPath: "GEMINI.md",
+	spawn: "gemini --model {model} --yolo --prompt-interactive {prompt}",
+	print: ["gemini", "--yolo", "--prompt", "{prompt}"],
+	printModelArgs: ["--model", "{model}"],
+	ready: {
+		patterns: ["Type your message", "gemini-"],
+		dialogs: [{ pattern: "Do you trust this folder", action: "Enter" }],
+	},
+	env: { GEMINI_MODEL: "{model}" },
+};
+
+const SPAWN_OPTS: SpawnOpts = {
+	model: "gemini-2.5-pro",
+	permissionMode: "bypass",
+	cwd: "/tmp/worktree",
+	env: {},
+};
+
+describe("DeclarativeRuntime", () => {
+	const runtime = new DeclarativeRuntime("gemini", GEMINI);
+
+	describe("buildSpawnCommand", () => {
+		test("fills {model} and a quoted startup prompt naming the instruction file", () => {
+			expect(runtime.buildSpawnCommand(SPAWN_OPTS)).toBe(
+				"gemini --model gemini-2.5-pro --yolo --prompt-interactive 'Read GEMINI.md for your task assignment and begin immediately.'",
+			);
+		});
+
+		test("prepends the role definition from appendSystemPromptFile at shell expansion time", () => {
+			const cmd = runtime.buildSpawnCommand({
+				...SPAWN_OPTS,
+				appendSystemPromptFile: "/proj/.overstory/agent-defs/builder.md",
+			});
+			expect(cmd).toContain(`"$(cat '/proj/.overstory/agent-defs/builder.md')"' Read GEMINI.md`);
+		});
+
+		test("escapes single quotes in an inline appendSystemPrompt", () => {
+			const cmd = runtime.buildSpawnCommand({
+				...SPAWN_OPTS,
+				appendSystemPrompt: "You're a builder",
+			});
+			expect(cmd).toContain("'You'\\''re a builder\n\nRead GEMINI.md");
+		});
+	});
+
+	describe("buildPrintCommand", () => {
+		test("passes the prompt as a single argv element", () => {
+			expect(runtime.buildPrintCommand("Classify this failure")).toEqual([
+				"gemini",
+				"--yolo",
+				"--prompt",
+				"Classify this failure",
+			]);
+		});
+
+		test("appends printModelArgs when a model is given", () => {
+			expect(runtime.buildPrintCommand("hi", "gemini-2.5-flash")).toEqual([
+				"gemini",
+				"--yolo",
+				"--prompt",
+				"hi",
+				"--model",
+				"gemini-2.5-flash",
+			]);
+		});
+	});
+
+	describe("detectReady", () => {
+		test("reports dialogs before readiness", () => {
+			expect(runtime.detectReady("Do you trust this folder?\nType your message")).toEqual({
+				phase: "dialog",
+				action: "Enter",
+			});
+		});
+
+		test("is ready only when every pattern matches", () => {
+			expect(runtime.detectReady("Type your message")).toEqual({ phase: "loading" });
+			expect(runtime.detectReady("gemini-2.5-pro | Type your message")).toEqual({ phase: "ready" });
+		});
+
+		test("is always ready without patterns", () => {
+			const bare = new DeclarativeRuntime("bare", { ...GEMINI, ready: undefined });
+			expect(bare.detectReady("")).toEqual({ phase: "ready" });
+		});
+	});
+
+	test("buildEnv merges templated env over the provider env", () => {
+		expect(runtime.buildEnv({ model: "gemini-2.5-pro", env: { GEMINI_API_KEY: "k" } })).toEqual({
+			GEMINI_API_KEY: "k",
+			GEMINI_MODEL: "gemini-2.5-pro",
+		});
+	});
+
+	test("skips beacon verification unless the spec opts in", () => {
+		expect(runtime.requiresBeaconVerification()).toBe(false);
+		const verifying = new DeclarativeRuntime("v", { ...GEMINI, beaconVerification: true });
+		expect(verifying.requiresBeaconVerification()).toBe(true);
+	});
+
+	describe("with a worktree", () => {
+		let tempDir: string;
+
+		beforeEach(async () => {
+			tempDir = await mkdtemp(join(tmpdir(), "declarative-runtime-test-"));
+		});
+
+		afterEach(async () => {
+			await cleanupTempDir(tempDir);
+		});
+
+		const hooks = (worktreePath: string): HooksDef => ({
+			agentName: "builder-1",
+			capability: "builder",
+			worktreePath,
+		});
+
+		test("deployConfig writes the instruction file and deploys no guards for 'none'", async () => {
+			await runtime.deployConfig(tempDir, { content: "# Task" }, hooks(tempDir));
+			expect(await Bun.file(join(tempDir, "GEMINI.md")).text()).toBe("# Task");
+			expect(await Bun.file(join(tempDir, ".claude", "settings.local.json")).exists()).toBe(false);
+		});
+
+		test("deployConfig deploys Claude hooks through the registry-wired delegate", async () => {
+			const config = {
+				runtime: { default: "claude", adapters: { gemini: { ...GEMINI, guards: "claude-hooks" } } },
+			} as unknown as OverstoryConfig;
+			await getRuntime("gemini", config).deployConfig(tempDir, undefined, hooks(tempDir));
+			expect(await Bun.file(join(tempDir, ".claude", "settings.local.json")).exists()).toBe(true);
+			expect(await Bun.file(join(tempDir, "GEMINI.md")).exists()).toBe(false);
+		});
+
+		test("parseTranscript sums jsonl token paths and keeps the last model", async () => {
+			const jsonl = new DeclarativeRuntime("j", {
+				...GEMINI,
+				transcript: {
+					format: "jsonl",
+					inputTokens: "usage.input",
+					outputTokens: "usage.output",
+					model: "model",
+				},
+			});
+			const path = join(tempDir, "session.jsonl");
+			await Bun.write(
+				path,
+				[
+					JSON.stringify({ model: "gemini-2.5-flash", usage: { input: 10, output: 2 } }),
+					"not json",
+					JSON.stringify({ model: "gemini-2.5-pro", usage: { input: 5, output: 3 } }),
+				].join("\n"),
+			);
+			expect(await jsonl.parseTranscript(path)).toEqual({
+				inputTokens: 15,
+				outputTokens: 5,
+				model: "gemini-2.5-pro",
+			});
+			expect(await jsonl.parseTranscript(join(tempDir, "missing.jsonl"))).toBeNull();
+		});
+
+		test("parseTranscript returns null when the spec has no transcript format", async () => {
+			const path = join(tempDir, "session.jsonl");
+			await Bun.write(path, "{}\n");
+			expect(await runtime.parseTranscript(path)).toBeNull();
+		});
+	});
+});
@@ -0,0 +1,253 @@
+// Declarative runtime adapter: an AgentRuntime built from a YAML spec.
+// Implements the AgentRuntime contract for CLI agents described in
+// .overstory/runtimes/<name>.yaml (OpenCode, Aider, Gemini CLI, ...) so new
+// agents can be added without writing TypeScript.
+//
+// Templates substitute two placeholders:
+// - `{model}`  → the model ref from SpawnOpts / buildPrintCommand / ResolvedModel
+// - `{prompt}` → in `spawn`, a shell-quoted startup prompt pointing at the
+//   instruction file; in `print`, the one-shot prompt as a single argv element
+
+import { mkdir } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import type { ResolvedModel, RuntimeAdapterSpec } from "../types.ts";
+import type {
+	AgentRuntime,
+	HooksDef,
+	OverlayContent,
+	ReadyState,
+	SpawnOpts,
+	TranscriptSummary,
+} from "./types.ts";
+
+/** Built-in adapters a declarative runtime delegates guards and transcript parsing to. */
+export interface DeclarativeRuntimeDelegates {
+	/** Adapter whose deployConfig(…, undefined, hooks) deploys the spec's guard mechanism. */
+	guards?: AgentRuntime;
+	/** Adapter whose parseTranscript() understands the spec's transcript format. */
+	transcript?: AgentRuntime;
+}
+
+/** Substitute `{model}` in a template. */
+function fillModel(template: string, model: string): string {
+	return template.replaceAll("{model}", model);
+}
+
+/** Read a dotted path (e.g. "usage.input_tokens") from a parsed JSON value. */
+function readPath(value: unknown, path: string): unknown {
+	let current = value;
+	for (const key of path.split(".")) {
+		if (current === null || typeof current !== "object") return undefined;
+		current = (current as Record<string, unknown>)[key];
+	}
+	return current;
+}
+
+/**
+ * Runtime adapter driven by a RuntimeAdapterSpec.
+ *
+ * Command construction, readiness detection and environment mapping come from
+ * the spec. Guard deployment and the claude/codex/pi transcript formats are
+ * delegated to the matching built-in adapter (wired by the registry); the
+ * "jsonl" format sums token fields from any NDJSON transcript.
+ */
+export class DeclarativeRuntime implements AgentRuntime {
+	/** Relative path to the instruction file within a worktree. */
+	readonly instructionPath: string;
+
+	private readonly readyPatterns: RegExp[];
+	private readonly dialogs: Array<{ pattern: RegExp; action: string }>;
+
+	/**
+	 * @param id - Runtime name (the spec's file name without extension)
+	 * @param spec - Validated adapter spec from config.runtime.adapters
+	 * @param delegates - Built-in adapters for guards and transcript parsing
+	 */
+	constructor(
+		readonly id: string,
+		private readonly spec: RuntimeAdapterSpec,
+		private readonly delegates: DeclarativeRuntimeDelegates = {},
+	) {
+		this.instructionPath = spec.instructionPath;
+		this.readyPatterns = (spec.ready?.patterns ?? []).map((p) => new RegExp(p));
+		this.dialogs = (spec.ready?.dialogs ?? []).map((d) => ({
+			pattern: new RegExp(d.pattern),
+			action: d.action,
+		}));
+	}
+
+	/**
+	 * Build the shell command string to spawn the agent in a tmux pane.
+	 *
+	 * `{prompt}` expands to a single-quoted startup prompt asking the agent to
+	 * read its instruction file. The role definition from `appendSystemPrompt`
+	 * or `appendSystemPromptFile` is prepended to it (read from the file at shell
+	 * expansion time, like the Codex adapter), since generic CLIs have no
+	 * system-prompt flag. permissionMode is not mapped; put bypass flags in the
+	 * template.
+	 *
+	 * @param opts - Spawn options (model, appendSystemPrompt, appendSystemPromptFile)
+	 * @returns Shell command string suitable for tmux new-session -c
+	 */
+	buildSpawnCommand(opts: SpawnOpts): string {
+		const instruction = `Read ${this.instructionPath} for your task assignment and begin immediately.`;
+		let prompt: string;
+		if (opts.appendSystemPromptFile) {
+			const escapedPath = opts.appendSystemPromptFile.replace(/'/g, "'\\''");
+			prompt = `"$(cat '${escapedPath}')"' ${instruction}'`;
+		} else if (opts.appendSystemPrompt) {
+			const text = `${opts.appendSystemPrompt}\n\n${instruction}`;
+			prompt = `'${text.replace(/'/g, "'\\''")}'`;
+		} else {
+			prompt = `'${instruction}'`;
+		}
+		return fillModel(this.spec.spawn, opts.model).replaceAll("{prompt}", prompt);
+	}
+
+	/**
+	 * Build the argv array for a headless one-shot call.
+	 *
+	 * The `{prompt}` element is replaced by the prompt; `printModelArgs` are
+	 * appended when a model is given (after the prompt, so a flag that takes
+	 * the prompt as its value stays next to it).
+	 *
+	 * @param prompt - The prompt to pass
+	 * @param model - Optional model override
+	 * @returns Argv array for Bun.spawn
+	 */
+	buildPrintCommand(prompt: string, model?: string): string[] {
+		const argv = this.spec.print.map((arg) => (arg === "{prompt}" ? prompt : arg));
+		if (model !== undefined) {
+			argv.push(...(this.spec.printModelArgs ?? []).map((arg) => fillModel(arg, model)));
+		}
+		return argv;
+	}
+
+	/**
+	 * Deploy per-agent instructions and guards to a worktree.
+	 *
+	 * Writes the overlay to the spec's instructionPath, then deploys the guard
+	 * mechanism through the delegate adapter ("none" deploys nothing).
+	 *
+	 * @param worktreePath - Absolute path to the agent's git worktree
+	 * @param overlay - Overlay content to write, or undefined for guards only
+	 * @param hooks - Hook definition passed to the guard delegate
+	 */
+	async deployConfig(
+		worktreePath: string,
+		overlay: OverlayContent | undefined,
+		hooks: HooksDef,
+	): Promise<void> {
+		if (overlay) {
+			const instructionFile = join(worktreePath, this.instructionPath);
+			await mkdir(dirname(instructionFile), { recursive: true });
+			await Bun.write(instructionFile, overlay.content);
+		}
+
+		await this.delegates.guards?.deployConfig(worktreePath, undefined, hooks);
+	}
+
+	/**
+	 * Detect readiness from tmux pane content.
+	 *
+	 * - Any dialog pattern matches → `{ phase: "dialog", action }`
+	 * - All ready patterns match (or none are configured) → `{ phase: "ready" }`
+	 * - Otherwise → `{ phase: "loading" }`
+	 *
+	 * @param paneContent - Captured tmux pane content to analyze
+	 * @returns Current readiness phase
+	 */
+	detectReady(paneContent: string): ReadyState {
+		for (const dialog of this.dialogs) {
+			if (dialog.pattern.test(paneContent)) {
+				return { phase: "dialog", action: dialog.action };
+			}
+		}
+		if (this.readyPatterns.every((p) => p.test(paneContent))) {
+			return { phase: "ready" };
+		}
+		return { phase: "loading" };
+	}
+
+	/**
+	 * Whether to resend the beacon while the pane still looks idle.
+	 * Off unless the spec opts in — for most TUIs idle and busy panes both
+	 * match the ready patterns, so the loop would resend duplicates.
+	 */
+	requiresBeaconVerification(): boolean {
+		return this.spec.beaconVerification ?? false;
+	}
+
+	/**
+	 * Parse a session transcript into normalized token usage.
+	 *
+	 * claude/codex/pi formats go to the delegate adapter; "jsonl" sums the
+	 * configured token paths across NDJSON lines; "none" (the default) returns
+	 * null.
+	 *
+	 * @param path - Absolute path to the transcript file
+	 * @returns Aggregated token usage, or null if unavailable
+	 */
+	async parseTranscript(path: string): Promise<TranscriptSummary | null> {
+		const transcript = this.spec.transcript;
+		if (!transcript || transcript.format === "none") return null;
+		if (transcript.format !== "jsonl") {
+			return this.delegates.transcript ? this.delegates.transcript.parseTranscript(path) : null;
+		}
+
+		const file = Bun.file(path);
+		if (!(await file.exists())) {
+			return null;
+		}
+
+		try {
+			const lines = (await file.text()).split("\n").filter((l) => l.trim().length > 0);
+			let inputTokens = 0;
+			let outputTokens = 0;
+			let model = "";
+
+			for (const line of lines) {
+				let event: unknown;
+				try {
+					event = JSON.parse(line);
+				} catch {
+					// Skip malformed lines — partial writes during capture.
+					continue;
+				}
+				if (transcript.inputTokens) {
+					const value = readPath(event, transcript.inputTokens);
+					if (typeof value === "number") inputTokens += value;
+				}
+				if (transcript.outputTokens) {
+					const value = readPath(event, transcript.outputTokens);
+					if (typeof value === "number") outputTokens += value;
+				}
+				if (transcript.model) {
+					const value = readPath(event, transcript.model);
+					if (typeof value === "string") model = value;
+				}
+			}
+
+			return { inputTokens, outputTokens, model };
+		} catch {
+			return null;
+		}
+	}
+
+	/**
+	 * Build runtime-specific environment variables.
+	 *
+	 * Starts from the provider env of the resolved model and adds the spec's
+	 * `env` entries with `{model}` substituted.
+	 *
+	 * @param model - Resolved model with optional provider env vars
+	 * @returns Environment variable map (may be empty)
+	 */
+	buildEnv(model: ResolvedModel): Record<string, string> {
+		const env: Record<string, string> = { ...(model.env ?? {}) };
+		for (const [key, template] of Object.entries(this.spec.env ?? {})) {
+			env[key] = fillModel(template, model.model);
+		}
+		return env;
+	}
+}
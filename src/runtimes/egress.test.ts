@@ -0,0 +1,196 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import http from "node:http";
+import net from "node:net";
+import { DEFAULT_CONFIG } from "../config.ts";
+import type { EgressConfig, OverstoryConfig } from "../types.ts";
+import {
+	allowedEgressHosts,
+	buildEgressDeniedEvent,
+	type EgressDenial,
+	type EgressProxy,
+	egressEnv,
+	matchesEgressHost,
+	startEgressProxy,
+} from "./egress.ts";
+
+function makeConfig(egress?: EgressConfig): OverstoryConfig {
+	const config = structuredClone(DEFAULT_CONFIG);
+	config.providers = {
+		anthropic: { type: "native" },
+		openrouter: {
+			type: "gateway",
+			baseUrl: "https://openrouter.ai/api/v1",
+			authTokenEnv: "OPENROUTER_API_KEY",
+		},
+	};
+	config.egress = egress;
+	return config;
+}
+
+function basicAuth(proxyUrl: string): string {
+	const url = new URL(proxyUrl);
+	const credentials = `${decodeURIComponent(url.username)}:${decodeURIComponent(url.password)}`;
+	return `Basic ${Buffer.from(credentials).toString("base64")}`;
+}
+
+describe("egress policy", () => {
+	test("modes resolve to provider hosts, plus the allowlist", () => {
+		const config = makeConfig();
+		expect(allowedEgressHosts(config, { mode: "none" })).toEqual([]);
+		expect(allowedEgressHosts(config, { mode: "provider-only" })).toEqual([
+			"api.anthropic.com",
+			"openrouter.ai",
+		]);
+		expect(
+			allowedEgressHosts(config, { mode: "allowlist", hosts: ["registry.npmjs.org"] }),
+		).toContain("registry.npmjs.org");
+	});
+
+	test("wildcards match subdomains only, case-insensitively", () => {
+		expect(matchesEgressHost("API.github.com", ["*.github.com"])).toBe(true);
+		expect(matchesEgressHost("github.com", ["*.github.com"])).toBe(false);
+		expect(matchesEgressHost("evilgithub.com", ["*.github.com"])).toBe(false);
+		expect(matchesEgressHost("[::1]", ["::1"])).toBe(true);
+	});
+
+	test("egressEnv points both proxy spellings at the proxy and exempts localhost", () => {
+		const env = egressEnv({ port: 4321, secret: "s" }, "scout-1", "scout");
+		expect(env.HTTPS_PROXY).toStartWith("http://scout-1:scout.");
+		expect(env.HTTPS_PROXY).toEndWith("@127.0.0.1:4321");
+		expect(env.http_proxy).toBe(env.HTTPS_PROXY);
+		expect(env.NO_PROXY).toContain("127.0.0.1");
+	});
+
+	test("denials become warn-level egress_denied events", () => {
+		const event = buildEgressDeniedEvent({
+			agentName: null,
+			capability: null,
+			host: "example.com",
+			port: 443,
+			method: "CONNECT",
+			reason: "missing or invalid proxy credentials",
+		});
+		expect(event.agentName).toBe("unknown");
+		expect(event.eventType).toBe("egress_denied");
+		expect(event.level).toBe("warn");
+	});
+});
+
+describe("startEgressProxy", () => {
+	let upstream: http.Server;
+	let upstreamPort: number;
+	let proxy: EgressProxy;
+	let denials: EgressDenial[];
+
+	beforeEach(async () => {
+		upstream = http.createServer((req, res) => {
+			res.writeHead(200, { "content-type": "text/plain" });
+			res.end(`upstream ${req.method} ${req.url}`);
+		});
+		await new Promise<void>((resolve) => upstream.listen(0, "127.0.0.1", () => resolve()));
+		upstreamPort = (upstream.address() as net.AddressInfo).port;
+
+		denials = [];
+		proxy = await startEgressProxy({
+			config: makeConfig({
+				capabilities: {
+					builder: { mode: "allowlist", hosts: ["127.0.0.1"] },
+					scout: { mode: "provider-only" },
+				},
+			}),
+			secret: "test-secret",
+			onDenied: (denial) => denials.push(denial),
+		});
+	});
+
+	afterEach(async () => {
+		await proxy.shutdown();
+		await new Promise<void>((resolve) => upstream.close(() => resolve()));
+	});
+
+	function credentials(agentName: string, capability: string): string {
+		return basicAuth(egressEnv(proxy, agentName, capability).HTTP_PROXY ?? "");
+	}
+
+	/** Plain HTTP request through the proxy (absolute-form URL). */
+	function proxyGet(auth: string | null): Promise<{ status: number; body: string }> {
+		return new Promise((resolve, reject) => {
+			const req = http.request(
+				{
+					host: "127.0.0.1",
+					port: proxy.port,
+					path: `http://127.0.0.1:${upstreamPort}/hello?x=1`,
+					headers: auth === null ? {} : { "proxy-authorization": auth },
+				},
+				(res) => {
+					let body = "";
+					res.on("data", (chunk) => {
+						body += chunk;
+					});
+					res.on("end", () => resolve({ status: res.statusCode ?? 0, body }));
+				},
+			);
+			req.on("error", reject);
+			req.end();
+		});
+	}
+
+	/** Open a CONNECT tunnel and send one HTTP request through it; returns the raw bytes. */
+	function tunnel(auth: string): Promise<string> {
+		return new Promise((resolve, reject) => {
+			const socket = net.connect(proxy.port, "127.0.0.1", () => {
+				socket.write(
+					`CONNECT 127.0.0.1:${upstreamPort} HTTP/1.1\r\nProxy-Authorization: ${auth}\r\n\r\n`,
+				);
+			});
+			let received = "";
+			let sent = false;
+			socket.on("data", (chunk) => {
+				received += chunk.toString();
+				if (!sent && received.startsWith("HTTP/1.1 200")) {
+					sent = true;
+					socket.write("GET /tunneled HTTP/1.1\r\nHost: 127.0.0.1\r\nConnection: close\r\n\r\n");
+				}
+			});
+			socket.on("close", () => resolve(received));
+			socket.on("error", reject);
+		});
+	}
+
+	test("forwards plain HTTP to allowed hosts", async () => {
+		const res = await proxyGet(credentials("builder-1", "builder"));
+		expect(res).toEqual({ status: 200, body: "upstream GET /hello?x=1" });
+		expect(denials).toEqual([]);
+	});
+
+	test("tunnels CONNECT to allowed hosts", async () => {
+		const raw = await tunnel(credentials("builder-1", "builder"));
+		expect(raw).toStartWith("HTTP/1.1 200 Connection Established");
+		expect(raw).toContain("upstream GET /tunneled");
+	});
+
+	test("refuses hosts outside the profile and reports the denial", async () => {
+		const res = await proxyGet(credentials("scout-1", "scout"));
+		expect(res.status).toBe(403);
+		const raw = await tunnel(credentials("scout-1", "scout"));
+		expect(raw).toStartWith("HTTP/1.1 403");
+		expect(denials).toEqual([
+			expect.objectContaining({ agentName: "scout-1", capability: "scout", method: "GET" }),
+			expect.objectContaining({
+				agentName: "scout-1",
+				host: "127.0.0.1",
+				port: upstreamPort,
+				method: "CONNECT",
+				reason: "host not allowed in provider-only mode",
+			}),
+		]);
+	});
+
+	test("requires valid credentials", async () => {
+		expect((await proxyGet(null)).status).toBe(407);
+		// A scout cannot claim the builder capability without the secret
+		const forged = `Basic ${Buffer.from("scout-1:builder.0000").toString("base64")}`;
+		expect((await proxyGet(forged)).status).toBe(407);
+		expect(denials.map((d) => d.agentName)).toEqual([null, null]);
+	});
+});
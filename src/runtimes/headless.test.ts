@@ -0,0 +1,199 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { cleanupTempDir } from "../test-helpers.ts";
+import type { AgentSession } from "../types.ts";
+import { ClaudeRuntime } from "./claude.ts";
+import {
+	callHost,
+	createSessionControl,
+	type HeadlessControl,
+	type HeadlessHostSpec,
+	headlessControl,
+	headlessEndpoint,
+	startAgentHost,
+	supportsHeadless,
+} from "./headless.ts";
+import { PiRuntime } from "./pi.ts";
+
+/**
+ * A stand-in for `pi --mode rpc`: answers every JSON-RPC request, logs it to
+ * FAKE_AGENT_LOG, and exits after `abort`.
+ */
+const FAKE_AGENT = `
+import { appendFileSync } from "node:fs";
+const decoder = new TextDecoder();
+let buffer = "";
+for await (const chunk of Bun.stdin.stream()) {
+	buffer += decoder.decode(chunk);
+	let newline = buffer.indexOf("\\n");
+	while (newline !== -1) {
+		const line = buffer.slice(0, newline);
+		buffer = buffer.slice(newline + 1);
+		newline = buffer.indexOf("\\n");
+		const request = JSON.parse(line);
+		appendFileSync(process.env.FAKE_AGENT_LOG, line + "\\n");
+		const result = request.method === "get_state" ? { isStreaming: true, currentTool: "bash" } : null;
+		process.stdout.write(JSON.stringify({ jsonrpc: "2.0", id: request.id, result }) + "\\n");
+		if (request.method === "abort") process.exit(3);
+	}
+}
+`;
+
+function makeSession(overrides: Partial<AgentSession> = {}): AgentSession {
+	return {
+		id: "session-1",
+		agentName: "builder-1",
+		capability: "builder",
+		worktreePath: "/tmp/wt",
+		branchName: "overstory/builder-1/task-1",
+		taskId: "task-1",
+		tmuxSession: "overstory-proj-builder-1",
+		state: "working",
+		pid: null,
+		parentAgent: null,
+		depth: 0,
+		runId: null,
+		startedAt: new Date().toISOString(),
+		lastActivity: new Date().toISOString(),
+		escalationLevel: 0,
+		stalledSince: null,
+		transcriptPath: null,
+		rpcEndpoint: null,
+		runtime: null,
+		...overrides,
+	};
+}
+
+describe("headlessEndpoint", () => {
+	test("is stable per project and agent, and short", () => {
+		const a = headlessEndpoint("/very/deep/project/root/".repeat(8), "builder-1");
+		expect(a).toBe(headlessEndpoint("/very/deep/project/root/".repeat(8), "builder-1"));
+		expect(a).not.toBe(headlessEndpoint("/very/deep/project/root/".repeat(8), "builder-2"));
+		expect(a.endsWith(".sock")).toBe(true);
+		expect(a.startsWith(tmpdir())).toBe(true);
+	});
+});
+
+describe("supportsHeadless", () => {
+	test("requires connect and buildHeadlessCommand", () => {
+		expect(supportsHeadless(new PiRuntime())).toBe(true);
+		expect(supportsHeadless(new ClaudeRuntime())).toBe(false);
+	});
+});
+
+describe("createSessionControl", () => {
+	const calls: string[] = [];
+	const tmux = {
+		isSessionAlive: async (name: string) => {
+			calls.push(`tmux.alive:${name}`);
+			return true;
+		},
+		killSession: async (name: string) => {
+			calls.push(`tmux.kill:${name}`);
+		},
+	};
+	const headless: HeadlessControl = {
+		isAlive: async (endpoint) => {
+			calls.push(`rpc.alive:${endpoint}`);
+			return false;
+		},
+		getState: async () => ({ status: "idle" }),
+		sendPrompt: async () => {},
+		followUp: async () => {},
+		stop: async (endpoint) => {
+			calls.push(`rpc.stop:${endpoint}`);
+		},
+	};
+
+	beforeEach(() => {
+		calls.length = 0;
+	});
+
+	test("routes tmux sessions to tmux", async () => {
+		const control = createSessionControl(tmux, headless);
+		const session = makeSession();
+		expect(await control.isAlive(session)).toBe(true);
+		await control.kill(session);
+		expect(calls).toEqual([
+			"tmux.alive:overstory-proj-builder-1",
+			"tmux.kill:overstory-proj-builder-1",
+		]);
+	});
+
+	test("routes headless sessions to their agent host", async () => {
+		const control = createSessionControl(tmux, headless);
+		const session = makeSession({ tmuxSession: "", rpcEndpoint: "/tmp/ov-x.sock" });
+		expect(await control.isAlive(session)).toBe(false);
+		await control.kill(session);
+		expect(calls).toEqual(["rpc.alive:/tmp/ov-x.sock", "rpc.stop:/tmp/ov-x.sock"]);
+	});
+});
+
+describe("startAgentHost", () => {
+	let tempDir: string;
+	let spec: HeadlessHostSpec;
+	let requestLog: string;
+
+	beforeEach(async () => {
+		tempDir = await mkdtemp(join(tmpdir(), "headless-host-test-"));
+		const agentScript = join(tempDir, "fake-agent.ts");
+		await Bun.write(agentScript, FAKE_AGENT);
+		requestLog = join(tempDir, "requests.log");
+		spec = {
+			agentName: "builder-1",
+			projectRoot: tempDir,
+			runtime: "pi",
+			command: `${process.execPath} ${agentScript}`,
+			cwd: tempDir,
+			env: { FAKE_AGENT_LOG: requestLog },
+			endpoint: headlessEndpoint(tempDir, "builder-1"),
+			logPath: join(tempDir, "agent.log"),
+		};
+	});
+
+	afterEach(async () => {
+		await cleanupTempDir(tempDir);
+	});
+
+	async function waitForHost(): Promise<void> {
+		for (let i = 0; i < 50; i++) {
+			if (await headlessControl.isAlive(spec.endpoint)) return;
+			await Bun.sleep(20);
+		}
+		throw new Error("host did not start");
+	}
+
+	test("serves the agent connection over the socket until abort", async () => {
+		const host = await startAgentHost(spec, new PiRuntime());
+		await waitForHost();
+		expect(host.agentName).toBe("builder-1");
+
+		await headlessControl.sendPrompt(spec.endpoint, "beacon");
+		await headlessControl.followUp(spec.endpoint, "You have mail");
+		expect(await headlessControl.getState(spec.endpoint)).toEqual({
+			status: "working",
+			currentTool: "bash",
+		});
+		await headlessControl.stop(spec.endpoint);
+
+		expect(await host.exited).toBe(3);
+		expect(await headlessControl.isAlive(spec.endpoint)).toBe(false);
+		expect(await Bun.file(spec.endpoint).exists()).toBe(false);
+
+		const methods = (await Bun.file(requestLog).text())
+			.trim()
+			.split("\n")
+			.map((line) => (JSON.parse(line) as { method: string }).method);
+		expect(methods).toEqual(["prompt", "followUp", "get_state", "abort"]);
+	});
+
+	test("reports unknown methods as errors", async () => {
+		const host = await startAgentHost(spec, new PiRuntime());
+		await waitForHost();
+		await expect(callHost(spec.endpoint, "reboot")).rejects.toThrow("Unknown method: reboot");
+		await headlessControl.stop(spec.endpoint);
+		await host.exited;
+	});
+});
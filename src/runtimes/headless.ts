@@ -0,0 +1,368 @@
+// Headless agent execution: overstory owns the agent process instead of tmux.
+//
+// `ov sling --headless` asks the broker (broker.ts) to host the agent. An
+// agent host spawns the runtime's buildHeadlessCommand() with piped
+// stdin/stdout, connects via runtime.connect(), and serves the connection on a
+// per-agent Unix socket so later, short-lived `ov` processes can reach it:
+//
+//   ping        → { pid }                 liveness (replaces tmux has-session)
+//   getState    → ConnectionState         (replaces tmux capture-pane)
+//   sendPrompt  { text }                  beacon delivery
+//   followUp    { text }                  mail / nudge delivery (replaces send-keys)
+//   abort                                 shutdown (replaces tmux kill-session)
+//
+// Requests and responses are newline-delimited JSON, one request per
+// connection. The socket path is recorded as AgentSession.rpcEndpoint.
+
+import { mkdir, unlink } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import { AgentError } from "../errors.ts";
+import type { AgentSession } from "../types.ts";
+import type { AgentRuntime, ConnectionState, RuntimeConnection } from "./types.ts";
+
+/** Default timeout for a single host request. */
+const HOST_REQUEST_TIMEOUT_MS = 10_000;
+
+/** Grace period between each shutdown step (EOF, SIGTERM, SIGKILL) when stopping the agent. */
+const ABORT_GRACE_MS = 5_000;
+
+/** Everything the agent host needs to start and serve one agent. */
+export interface HeadlessHostSpec {
+	agentName: string;
+	projectRoot: string;
+	/** Runtime name passed to getRuntime() (e.g. "pi"). */
+	runtime: string;
+	/** Shell command from runtime.buildHeadlessCommand(). */
+	command: string;
+	cwd: string;
+	env: Record<string, string>;
+	/** Unix socket path the host listens on. */
+	endpoint: string;
+	/** File receiving the agent process's stderr. */
+	logPath: string;
+}
+
+/** Client operations on a headless agent host. Injectable for tests. */
+export interface HeadlessControl {
+	isAlive(endpoint: string): Promise<boolean>;
+	getState(endpoint: string): Promise<ConnectionState>;
+	sendPrompt(endpoint: string, text: string): Promise<void>;
+	followUp(endpoint: string, text: string): Promise<void>;
+	/** Abort the agent; the host then terminates the process and exits. */
+	stop(endpoint: string): Promise<void>;
+}
+
+/** Liveness and termination for a session on either transport (tmux or headless). */
+export interface SessionControl {
+	isAlive(session: AgentSession): Promise<boolean>;
+	kill(session: AgentSession): Promise<void>;
+}
+
+/**
+ * Socket path for an agent's host. Kept in the OS temp dir because Unix
+ * socket paths are limited to ~104 bytes and project roots can be deep.
+ */
+export function headlessEndpoint(projectRoot: string, agentName: string): string {
+	const hash = Bun.hash(`${projectRoot}\0${agentName}`).toString(16);
+	return join(tmpdir(), `ov-${hash}.sock`);
+}
+
+/** Whether a runtime can run headless (needs both connect() and a headless command). */
+export function supportsHeadless(runtime: AgentRuntime): boolean {
+	return runtime.connect !== undefined && runtime.buildHeadlessCommand !== undefined;
+}
+
+/**
+ * Send one request to an agent host and resolve with its result.
+ * Rejects if the socket is unreachable, the host reports an error, or the
+ * request times out.
+ */
+export function callHost(
+	endpoint: string,
+	method: string,
+	params?: Record<string, unknown>,
+	timeoutMs = HOST_REQUEST_TIMEOUT_MS,
+): Promise<unknown> {
+	return new Promise<unknown>((resolve, reject) => {
+		let buffer = "";
+		let settled = false;
+		const settle = (err: Error | null, result?: unknown): void => {
+			if (settled) return;
+			settled = true;
+			clearTimeout(timer);
+			if (err) reject(err);
+			else resolve(result);
+		};
+		const timer = setTimeout(
+			() => settle(new Error(`Agent host request "${method}" timed out`)),
+			timeoutMs,
+		);
+
+		Bun.connect({
+			unix: endpoint,
+			socket: {
+				open(socket) {
+					socket.write(`${JSON.stringify({ method, params: params ?? {} })}\n`);
+				},
+				data(socket, chunk) {
+					buffer += chunk.toString();
+					const newline = buffer.indexOf("\n");
+					if (newline === -1) return;
+					try {
+						const response = JSON.parse(buffer.slice(0, newline)) as {
+							result?: unknown;
+							error?: string;
+						};
+						if (response.error !== undefined) {
+							settle(new Error(response.error));
+						} else {
+							settle(null, response.result ?? null);
+						}
+					} catch {
+						settle(new Error("Malformed response from agent host"));
+					}
+					socket.end();
+				},
+				close() {
+					settle(new Error("Agent host closed the connection"));
+				},
+				error(_socket, err) {
+					settle(err);
+				},
+				connectError(_socket, err) {
+					settle(err);
+				},
+			},
+		}).catch((err: unknown) => settle(err instanceof Error ? err : new Error(String(err))));
+	});
+}
+
+/** Default HeadlessControl backed by callHost(). */
+export const headlessControl: HeadlessControl = {
+	async isAlive(endpoint: string): Promise<boolean> {
+		try {
+			await callHost(endpoint, "ping", undefined, 2_000);
+			return true;
+		} catch {
+			return false;
+		}
+	},
+	async getState(endpoint: string): Promise<ConnectionState> {
+		return (await callHost(endpoint, "getState")) as ConnectionState;
+	},
+	async sendPrompt(endpoint: string, text: string): Promise<void> {
+		await callHost(endpoint, "sendPrompt", { text });
+	},
+	async followUp(endpoint: string, text: string): Promise<void> {
+		await callHost(endpoint, "followUp", { text });
+	},
+	async stop(endpoint: string): Promise<void> {
+		await callHost(endpoint, "abort");
+	},
+};
+
+/**
+ * Build a SessionControl that routes headless sessions (rpcEndpoint set)
+ * to their agent host and everything else to tmux.
+ */
+export function createSessionControl(
+	tmux: {
+		isSessionAlive: (name: string) => Promise<boolean>;
+		killSession: (name: string) => Promise<void>;
+	},
+	headless: HeadlessControl = headlessControl,
+): SessionControl {
+	return {
+		isAlive(session: AgentSession): Promise<boolean> {
+			return session.rpcEndpoint
+				? headless.isAlive(session.rpcEndpoint)
+				: tmux.isSessionAlive(session.tmuxSession);
+		},
+		async kill(session: AgentSession): Promise<void> {
+			if (!session.rpcEndpoint) {
+				await tmux.killSession(session.tmuxSession);
+				return;
+			}
+			try {
+				await headless.stop(session.rpcEndpoint);
+			} catch {
+				// Host unreachable — signal it directly so the agent process goes with it
+				if (session.pid !== null) {
+					try {
+						process.kill(session.pid, "SIGTERM");
+					} catch {
+						// Already gone
+					}
+				}
+			}
+		},
+	};
+}
+
+/**
+ * Synchronous liveness for status readouts that cannot afford a socket round
+ * trip per agent: a headless session is alive while its agent process runs.
+ */
+export function isHeadlessHostRunning(session: AgentSession): boolean {
+	if (session.pid === null) return false;
+	try {
+		process.kill(session.pid, 0);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/** An agent served from the current process (see startAgentHost). */
+export interface AgentHost {
+	agentName: string;
+	endpoint: string;
+	/** PID of the agent process (recorded as the session pid). */
+	pid: number;
+	/** Resolves with the agent's exit code once it has exited and the socket is removed. */
+	exited: Promise<number>;
+	/** Escalating shutdown: close stdin, then SIGTERM, then SIGKILL. */
+	terminate(): void;
+}
+
+/**
+ * Spawn an agent and serve its connection on spec.endpoint from the current
+ * process. The socket is removed when the agent exits.
+ *
+ * @throws {AgentError} If the runtime cannot be driven over RPC
+ */
+export async function startAgentHost(
+	spec: HeadlessHostSpec,
+	runtime: AgentRuntime,
+): Promise<AgentHost> {
+	if (!runtime.connect) {
+		throw new AgentError(`Runtime "${runtime.id}" does not support RPC connections`, {
+			agentName: spec.agentName,
+		});
+	}
+
+	await mkdir(dirname(spec.logPath), { recursive: true });
+	await unlink(spec.endpoint).catch(() => {
+		// No stale socket
+	});
+
+	const child = Bun.spawn(["sh", "-c", `exec ${spec.command}`], {
+		cwd: spec.cwd,
+		env: { ...process.env, ...spec.env },
+		stdin: "pipe",
+		stdout: "pipe",
+		stderr: Bun.file(spec.logPath),
+	});
+	const connection: RuntimeConnection = runtime.connect(child);
+
+	// Escalating shutdown: close stdin (RPC agents exit on EOF), then SIGTERM,
+	// then SIGKILL, each after a grace period.
+	let killTimer: ReturnType<typeof setTimeout> | null = null;
+	const terminate = (): void => {
+		if (killTimer !== null) return;
+		try {
+			child.stdin.end();
+		} catch {
+			// Already closed
+		}
+		killTimer = setTimeout(() => {
+			child.kill("SIGTERM");
+			killTimer = setTimeout(() => child.kill("SIGKILL"), ABORT_GRACE_MS);
+		}, ABORT_GRACE_MS);
+	};
+
+	const handle = async (
+		method: string,
+		params: Record<string, unknown>,
+	): Promise<{ result?: unknown; error?: string }> => {
+		const text = typeof params.text === "string" ? params.text : "";
+		try {
+			switch (method) {
+				case "ping":
+					return { result: { pid: child.pid } };
+				case "getState":
+					return { result: await connection.getState() };
+				case "sendPrompt":
+					await connection.sendPrompt(text);
+					return { result: null };
+				case "followUp":
+					await connection.followUp(text);
+					return { result: null };
+				case "abort":
+					try {
+						await connection.abort();
+					} catch {
+						// Agent may not answer while shutting down — terminate regardless
+					}
+					terminate();
+					return { result: null };
+				default:
+					return { error: `Unknown method: ${method}` };
+			}
+		} catch (err) {
+			return { error: err instanceof Error ? err.message : String(err) };
+		}
+	};
+
+	const server = serveJsonLines(spec.endpoint, handle);
+
+	const exited = child.exited.then(async (exitCode) => {
+		if (killTimer !== null) clearTimeout(killTimer);
+		connection.close();
+		server.stop(true);
+		await unlink(spec.endpoint).catch(() => {
+			// Already removed
+		});
+		return exitCode;
+	});
+
+	return { agentName: spec.agentName, endpoint: spec.endpoint, pid: child.pid, exited, terminate };
+}
+
+/**
+ * Listen on a Unix socket and answer newline-delimited JSON requests
+ * (`{method, params}`) with `{result}` or `{error}` lines. Shared by agent
+ * hosts and the broker's control socket.
+ */
+export function serveJsonLines(
+	endpoint: string,
+	handle: (
+		method: string,
+		params: Record<string, unknown>,
+	) => Promise<{ result?: unknown; error?: string }>,
+): { stop(closeActiveConnections?: boolean): void } {
+	return Bun.listen<{ buffer: string }>({
+		unix: endpoint,
+		data: { buffer: "" },
+		socket: {
+			data(socket, chunk) {
+				socket.data.buffer += chunk.toString();
+				let newline = socket.data.buffer.indexOf("\n");
+				while (newline !== -1) {
+					const line = socket.data.buffer.slice(0, newline);
+					socket.data.buffer = socket.data.buffer.slice(newline + 1);
+					newline = socket.data.buffer.indexOf("\n");
+					let request: { method?: unknown; params?: unknown };
+					try {
+						request = JSON.parse(line) as typeof request;
+					} catch {
+						socket.write(`${JSON.stringify({ error: "Malformed request" })}\n`);
+						continue;
+					}
+					const params =
+						request.params !== null && typeof request.params === "object"
+							? (request.params as Record<string, unknown>)
+							: {};
+					handle(String(request.method), params).then((response) => {
+						try {
+							socket.write(`${JSON.stringify(response)}\n`);
+						} catch {
+							// Client hung up before the response
+						}
+					});
+				}
+			},
+		},
+	});
+}
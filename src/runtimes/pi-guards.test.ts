@@ -1,5 +1,10 @@
 import { describe, expect, test } from "bun:test";
+import { mkdtemp } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import { INTERACTIVE_TOOLS, NATIVE_TEAM_TOOLS } from "../agents/guard-rules.ts";
+import { cleanupTempDir } from "../test-helpers.ts";
+import type { GuardPolicy } from "../types.ts";
 import { PiRuntime } from "./pi.ts";
 import { generatePiGuardExtension } from "./pi-guards.ts";
 import type { HooksDef } from "./types.ts";
@@ -350,7 +355,7 @@ describe("generatePiGuardExtension", () => {
 		test("generated code contains pi.exec ov log tool-start in tool_call handler", () => {
 			const generated = generatePiGuardExtension(builderHooks());
 			expect(generated).toContain(
-				'pi.exec("ov", ["log", "tool-start", "--agent", AGENT_NAME, "--tool-name", event.toolName])',
+				'pi.exec("ov", ["log", "tool-start", "--agent", AGENT_NAME, "--tool-name", event.toolName, "--tool-input", JSON.stringify(event.input ?? {})])',
 			);
 		});
 
@@ -381,7 +386,7 @@ describe("generatePiGuardExtension", () => {
 		test("tool_call handler passes --tool-name event.toolName to tool-start", () => {
 			const generated = generatePiGuardExtension(builderHooks());
 			expect(generated).toContain(
-				'pi.exec("ov", ["log", "tool-start", "--agent", AGENT_NAME, "--tool-name", event.toolName])',
+				'pi.exec("ov", ["log", "tool-start", "--agent", AGENT_NAME, "--tool-name", event.toolName, "--tool-input", JSON.stringify(event.input ?? {})])',
 			);
 		});
 
@@ -434,6 +439,64 @@ describe("generatePiGuardExtension", () => {
 			expect(runtime.requiresBeaconVerification()).toBe(false);
 		});
 	});
+
+	describe("guard policy", () => {
+		type ToolCallHandler = (event: {
+			toolName: string;
+			input: Record<string, unknown>;
+		}) => Promise<{ block: true; reason: string } | undefined>;
+
+		/** Load the generated extension and return its tool_call handler. */
+		async function loadToolCallHandler(hooks: HooksDef): Promise<ToolCallHandler> {
+			const dir = await mkdtemp(join(tmpdir(), "pi-guard-policy-"));
+			try {
+				const path = join(dir, "overstory-guard.ts");
+				await Bun.write(path, generatePiGuardExtension(hooks));
+				const mod = (await import(path)) as { default: (pi: unknown) => void };
+				const handlers = new Map<string, ToolCallHandler>();
+				mod.default({
+					on: (event: string, handler: ToolCallHandler) => handlers.set(event, handler),
+					exec: async () => ({}),
+				});
+				const handler = handlers.get("tool_call");
+				if (!handler) throw new Error("tool_call handler not registered");
+				return handler;
+			} finally {
+				await cleanupTempDir(dir);
+			}
+		}
+
+		test("makes the same decisions as the Claude Code hooks", async () => {
+			const policy: GuardPolicy = {
+				defaults: { network: { deny: ["curl"] }, paths: { deny: [".env"] } },
+				capabilities: {
+					scout: {
+						tools: { deny: ["WebSearch"] },
+						bash: { allow: { prefixes: ["rm -rf target"] } },
+					},
+				},
+			};
+			const onTool = await loadToolCallHandler({ ...scoutHooks(), policy });
+			const bash = (command: string) => onTool({ toolName: "bash", input: { command } });
+
+			expect(await bash("rm -rf target")).toBeUndefined();
+			expect((await bash("rm -rf src"))?.reason).toContain("scout agents cannot modify files");
+			expect((await bash("curl https://example.com"))?.reason).toBe(
+				"Network access via curl is denied by policy for scout agents",
+			);
+			expect((await onTool({ toolName: "websearch", input: {} }))?.reason).toContain(
+				"denied by policy",
+			);
+
+			const builderTool = await loadToolCallHandler({ ...builderHooks(), policy });
+			expect(
+				(await builderTool({ toolName: "write", input: { path: `${WORKTREE}/.env` } }))?.reason,
+			).toBe("Path denied by policy: .env");
+			expect(
+				await builderTool({ toolName: "write", input: { path: `${WORKTREE}/src/a.ts` } }),
+			).toBeUndefined();
+		});
+	});
 });
 
 // --- Helpers ---
@@ -11,54 +11,14 @@
 // tool_execution_end, agent_end, and session_shutdown events so the SessionStore
 // lastActivity stays fresh and the watchdog does not zombie-classify agents.
 
+import { pathGlobToRegex, resolveGuardRules, resolvePathGlob } from "../agents/guard-policy.ts";
 import {
-	DANGEROUS_BASH_PATTERNS,
-	INTERACTIVE_TOOLS,
-	NATIVE_TEAM_TOOLS,
-	SAFE_BASH_PREFIXES,
-	WRITE_TOOLS,
+	BASH_BOUNDARY_EXEMPT_PREFIXES,
+	FILE_MODIFYING_BASH_PATTERNS,
+	UNIVERSAL_BASH_DENY,
 } from "../agents/guard-rules.ts";
-import { extractQualityGatePrefixes } from "../agents/hooks-deployer.ts";
-import { DEFAULT_QUALITY_GATES } from "../config.ts";
 import type { HooksDef } from "./types.ts";
 
-/** Capabilities that must not modify project files. */
-const NON_IMPLEMENTATION_CAPABILITIES = new Set([
-	"scout",
-	"reviewer",
-	"lead",
-	"coordinator",
-	"supervisor",
-	"monitor",
-]);
-
-/** Coordination capabilities that get git add/commit whitelisted for metadata sync. */
-const COORDINATION_CAPABILITIES = new Set(["coordinator", "supervisor", "monitor"]);
-
-/**
- * Bash patterns that modify files and require path boundary validation.
- * Mirrors FILE_MODIFYING_BASH_PATTERNS in hooks-deployer.ts (not exported, duplicated here).
- * Applied to implementation agents (builder/merger) only.
- */
-const FILE_MODIFYING_BASH_PATTERNS = [
-	"sed\\s+-i",
-	"sed\\s+--in-place",
-	"echo\\s+.*>",
-	"printf\\s+.*>",
-	"cat\\s+.*>",
-	"tee\\s",
-	"\\bmv\\s",
-	"\\bcp\\s",
-	"\\brm\\s",
-	"\\bmkdir\\s",
-	"\\btouch\\s",
-	"\\bchmod\\s",
-	"\\bchown\\s",
-	">>",
-	"\\binstall\\s",
-	"\\brsync\\s",
-];
-
 /** Serialize a string array as a TypeScript Set<string> literal (tab-indented entries). */
 function toSetLiteral(items: string[]): string {
 	if (items.length === 0) return "new Set<string>([])";
@@ -84,6 +44,16 @@ function toRegExpArrayLiteral(patterns: string[]): string {
 	return `[\n${entries}\n]`;
 }
 
+/**
+ * Serialize policy regexes as RegExp constructor calls. Unlike the built-in
+ * patterns, user patterns may contain "/" and are not safe as regex literals.
+ */
+function toRegExpConstructorArrayLiteral(patterns: string[]): string {
+	if (patterns.length === 0) return "[]";
+	const entries = patterns.map((p) => `\tnew RegExp(${JSON.stringify(p)}),`).join("\n");
+	return `[\n${entries}\n]`;
+}
+
 /**
  * Generate a self-contained TypeScript guard extension for Pi's extension system.
  *
@@ -99,19 +69,23 @@ function toRegExpArrayLiteral(patterns: string[]): string {
  *    are no-ops unless a future Pi version adds similar tool names.)
  * 2. Block INTERACTIVE_TOOLS (all agents) — escalate via ov mail instead.
  *    (Safety net: Pi does not have AskUserQuestion/EnterPlanMode natively.)
+ *    Then block tools the guard policy denies.
  * 3. Block write tools for non-implementation capabilities.
  *    (Pi uses lowercase tool names: "write", "edit" — checked in addition to
  *    the original mixed-case Claude Code names for forward compatibility.)
  * 4. Path boundary on write/edit tools (all agents, defense-in-depth).
  *    (Pi uses event.input.path, not file_path.)
- * 5. Universal Bash danger guards: git push, reset --hard, wrong branch naming.
+ * 5. Universal Bash danger guards: git push, reset --hard, wrong branch naming,
+ *    then the guard policy's Bash and network denies.
  *    (Pi bash tool is named "bash" in lowercase.)
- * 6a. Non-implementation agents: safe prefix whitelist then dangerous pattern blocklist.
+ * 6a. Non-implementation agents: safe prefix and policy allow whitelist, then
+ *     dangerous pattern blocklist.
  * 6b. Implementation agents (builder/merger): file-modifying bash path boundary.
  * 7. Default allow.
  *
  * Activity tracking:
- * - tool_call handler: fire-and-forget "ov log tool-start" to update lastActivity.
+ * - tool_call handler: fire-and-forget "ov log tool-start" to update lastActivity
+ *   (the tool input is passed along so the guard decision is audited).
  * - tool_execution_end handler: fire-and-forget "ov log tool-end".
  * - agent_end handler: awaited "ov log session-end" — fires when the agentic loop
  *   completes (task done). Without this, completed Pi agents get watchdog-escalated
@@ -122,34 +96,45 @@ function toRegExpArrayLiteral(patterns: string[]): string {
  * These tracking calls prevent the watchdog from zombie-classifying Pi agents due
  * to stale lastActivity timestamps (the root cause of the zombie state bug).
  *
- * @param hooks - Agent identity, capability, worktree path, and optional quality gates.
+ * All rules come from resolveGuardRules() (agents/guard-policy.ts), the same
+ * engine the Claude Code hooks are compiled from.
+ *
+ * @param hooks - Agent identity, capability, worktree path, optional quality gates and guard policy.
  * @returns Self-contained TypeScript source code for the Pi guard extension file.
  */
 export function generatePiGuardExtension(hooks: HooksDef): string {
-	const { agentName, capability, worktreePath, qualityGates } = hooks;
-	const gates = qualityGates ?? DEFAULT_QUALITY_GATES;
-	const gatePrefixes = extractQualityGatePrefixes(gates);
+	const { agentName, capability, worktreePath, qualityGates, policy } = hooks;
+	const rules = resolveGuardRules(capability, { policy, qualityGates });
 
-	const isNonImpl = NON_IMPLEMENTATION_CAPABILITIES.has(capability);
-	const isCoordination = COORDINATION_CAPABILITIES.has(capability);
-
-	// Build safe Bash prefixes: base set + coordination extras + quality gate commands.
-	const safePrefixes: string[] = [
-		...SAFE_BASH_PREFIXES,
-		...(isCoordination ? ["git add", "git commit"] : []),
-		...gatePrefixes,
-	];
+	const isNonImpl = rules.readOnly;
 
 	// Pi uses lowercase tool names; also include the original mixed-case names
 	// from WRITE_TOOLS as a safety net for any future Pi version that adopts them.
-	const piWriteToolsBlocked = ["write", "edit", ...WRITE_TOOLS];
+	const piWriteToolsBlocked = [
+		...rules.writeTools.filter((t) => t === "Write" || t === "Edit").map((t) => t.toLowerCase()),
+		...rules.writeTools,
+	];
 
-	const teamBlockedCode = toSetLiteral([...NATIVE_TEAM_TOOLS]);
-	const interactiveBlockedCode = toSetLiteral([...INTERACTIVE_TOOLS]);
+	const teamBlockedCode = toSetLiteral(rules.teamTools);
+	const interactiveBlockedCode = toSetLiteral(rules.interactiveTools);
 	const writeBlockedCode = isNonImpl ? toSetLiteral(piWriteToolsBlocked) : null;
-	const safePrefixesCode = toStringArrayLiteral(safePrefixes);
-	const dangerousPatternsCode = toRegExpArrayLiteral(DANGEROUS_BASH_PATTERNS);
+	const policyBlockedCode = toSetLiteral(rules.deniedTools.map((t) => t.toLowerCase()));
+	const safePrefixesCode = toStringArrayLiteral(rules.safePrefixes);
+	const allowPatternsCode = toRegExpConstructorArrayLiteral(rules.allowPatterns);
+	const dangerousPatternsCode = toRegExpArrayLiteral(rules.dangerousPatterns);
 	const fileModifyingPatternsCode = toRegExpArrayLiteral(FILE_MODIFYING_BASH_PATTERNS);
+	const policyDenyCode = toRegExpConstructorArrayLiteral(rules.denyRules.map((r) => r.pattern));
+	const policyDenyReasons = JSON.stringify(rules.denyRules.map((r) => r.reason));
+	const pathDenyCode = toRegExpConstructorArrayLiteral(
+		rules.pathDeny.map((g) => pathGlobToRegex(resolvePathGlob(g, worktreePath))),
+	);
+	const pathDenyGlobs = JSON.stringify(rules.pathDeny);
+	const pathAllowCode = toRegExpConstructorArrayLiteral(
+		rules.pathAllow.map((g) => pathGlobToRegex(resolvePathGlob(g, worktreePath))),
+	);
+	const bashExemptCheck = BASH_BOUNDARY_EXEMPT_PREFIXES.map(
+		(prefix) => `!p.startsWith("${prefix}")`,
+	).join(" && ");
 
 	// Capability-specific Bash guard block (mutually exclusive).
 	// Indented for insertion inside the "bash" tool_call branch.
@@ -161,6 +146,9 @@ export function generatePiGuardExtension(hooks: HooksDef): string {
 				`\t\t\tif (SAFE_PREFIXES.some((p) => trimmed.startsWith(p))) {`,
 				`\t\t\t\treturn; // Safe command — allow through.`,
 				`\t\t\t}`,
+				`\t\t\tif (ALLOW_PATTERNS.some((re) => re.test(cmd))) {`,
+				`\t\t\t\treturn; // Allowed by policy.`,
+				`\t\t\t}`,
 				`\t\t\tif (DANGEROUS_PATTERNS.some((re) => re.test(cmd))) {`,
 				`\t\t\t\treturn {`,
 				`\t\t\t\t\tblock: true,`,
@@ -177,7 +165,11 @@ export function generatePiGuardExtension(hooks: HooksDef): string {
 				`\t\t\t\t\t.filter((t) => t.startsWith("/"))`,
 				`\t\t\t\t\t.map((t) => t.replace(/[";>]*$/, ""));`,
 				`\t\t\t\tfor (const p of paths) {`,
-				`\t\t\t\t\tif (!p.startsWith("/dev/") && !p.startsWith("/tmp/") && !p.startsWith(WORKTREE_PATH + "/") && p !== WORKTREE_PATH) {`,
+				`\t\t\t\t\tconst deniedPath = PATH_DENY.findIndex((re) => re.test(p));`,
+				`\t\t\t\t\tif (deniedPath !== -1) {`,
+				`\t\t\t\t\t\treturn { block: true, reason: \`Path denied by policy: \${PATH_DENY_GLOBS[deniedPath]}\` };`,
+				`\t\t\t\t\t}`,
+				`\t\t\t\t\tif (${bashExemptCheck} && !p.startsWith(WORKTREE_PATH + "/") && p !== WORKTREE_PATH && !PATH_ALLOW.some((re) => re.test(p))) {`,
 				`\t\t\t\t\t\treturn {`,
 				`\t\t\t\t\t\t\tblock: true,`,
 				`\t\t\t\t\t\t\treason: "Bash path boundary violation: command targets a path outside your worktree. All file modifications must stay within your assigned worktree.",`,
@@ -220,9 +212,24 @@ export function generatePiGuardExtension(hooks: HooksDef): string {
 		`// Pi uses lowercase tool names; also include Claude Code names for forward compat.`,
 		`const WRITE_SCOPE_TOOLS = new Set<string>(["write", "edit", "Write", "Edit", "NotebookEdit"]);`,
 		``,
+		`// Tools denied by the guard policy (lowercase; matched case-insensitively).`,
+		`const POLICY_BLOCKED = ${policyBlockedCode};`,
+		``,
 		`// Safe Bash command prefixes — checked before the dangerous pattern blocklist.`,
 		`const SAFE_PREFIXES = ${safePrefixesCode};`,
 		``,
+		`// Bash commands allowed by the guard policy — also exempt from the blocklist.`,
+		`const ALLOW_PATTERNS = ${allowPatternsCode};`,
+		``,
+		`// Bash commands denied by the guard policy (all capabilities), with reasons.`,
+		`const POLICY_DENY = ${policyDenyCode};`,
+		`const POLICY_DENY_REASONS: string[] = ${policyDenyReasons};`,
+		``,
+		`// Policy path globs: denied writes (even inside the worktree) and allowed writes outside it.`,
+		`const PATH_DENY = ${pathDenyCode};`,
+		`const PATH_DENY_GLOBS: string[] = ${pathDenyGlobs};`,
+		`const PATH_ALLOW = ${pathAllowCode};`,
+		``,
 		`// Dangerous Bash patterns blocked for non-implementation agents.`,
 		`const DANGEROUS_PATTERNS = ${dangerousPatternsCode};`,
 		``,
@@ -245,7 +252,7 @@ export function generatePiGuardExtension(hooks: HooksDef): string {
 		`\tpi.on("tool_call", async (event) => {`,
 		`\t\t// Activity tracking: update lastActivity so watchdog knows agent is alive.`,
 		`\t\t// Fire-and-forget — do not await (avoids latency on every tool call).`,
-		`\t\tpi.exec("ov", ["log", "tool-start", "--agent", AGENT_NAME, "--tool-name", event.toolName]).catch(() => {});`,
+		`\t\tpi.exec("ov", ["log", "tool-start", "--agent", AGENT_NAME, "--tool-name", event.toolName, "--tool-input", JSON.stringify(event.input ?? {})]).catch(() => {});`,
 		``,
 		`\t\t// 1. Block native team/task tools (all agents).`,
 		`\t\tif (TEAM_BLOCKED.has(event.toolName)) {`,
@@ -263,6 +270,14 @@ export function generatePiGuardExtension(hooks: HooksDef): string {
 		`\t\t\t};`,
 		`\t\t}`,
 		``,
+		`\t\t// 2b. Block tools denied by the guard policy.`,
+		`\t\tif (POLICY_BLOCKED.has(event.toolName.toLowerCase())) {`,
+		`\t\t\treturn {`,
+		`\t\t\t\tblock: true,`,
+		`\t\t\t\treason: \`\${event.toolName} is denied by policy for ${capability} agents\`,`,
+		`\t\t\t};`,
+		`\t\t}`,
+		``,
 		...(isNonImpl
 			? [
 					`\t\t// 3. Block write tools for non-implementation capabilities.`,
@@ -284,7 +299,11 @@ export function generatePiGuardExtension(hooks: HooksDef): string {
 		`\t\t\t\t(event.input as Record<string, unknown>)?.notebook_path ??`,
 		`\t\t\t\t"",`,
 		`\t\t\t);`,
-		`\t\t\tif (filePath && !filePath.startsWith(WORKTREE_PATH + "/") && filePath !== WORKTREE_PATH) {`,
+		`\t\t\tconst deniedPath = PATH_DENY.findIndex((re) => re.test(filePath));`,
+		`\t\t\tif (filePath && deniedPath !== -1) {`,
+		`\t\t\t\treturn { block: true, reason: \`Path denied by policy: \${PATH_DENY_GLOBS[deniedPath]}\` };`,
+		`\t\t\t}`,
+		`\t\t\tif (filePath && !filePath.startsWith(WORKTREE_PATH + "/") && filePath !== WORKTREE_PATH && !PATH_ALLOW.some((re) => re.test(filePath))) {`,
 		`\t\t\t\treturn {`,
 		`\t\t\t\t\tblock: true,`,
 		`\t\t\t\t\treason: "Path boundary violation: file is outside your assigned worktree. All writes must target files within your worktree.",`,
@@ -298,18 +317,14 @@ export function generatePiGuardExtension(hooks: HooksDef): string {
 		`\t\t\tconst cmd = String((event.input as Record<string, unknown>)?.command ?? "");`,
 		``,
 		`\t\t\t// Universal danger guards (all agents).`,
-		`\t\t\tif (/\\bgit\\s+push\\b/.test(cmd)) {`,
-		`\t\t\t\treturn {`,
-		`\t\t\t\t\tblock: true,`,
-		`\t\t\t\t\treason: "git push is blocked — use ov merge to integrate changes, push manually when ready",`,
-		`\t\t\t\t};`,
-		`\t\t\t}`,
-		`\t\t\tif (/git\\s+reset\\s+--hard/.test(cmd)) {`,
-		`\t\t\t\treturn {`,
-		`\t\t\t\t\tblock: true,`,
-		`\t\t\t\t\treason: "git reset --hard is not allowed — it destroys uncommitted work",`,
-		`\t\t\t\t};`,
-		`\t\t\t}`,
+		...UNIVERSAL_BASH_DENY.flatMap((rule) => [
+			`\t\t\tif (/${rule.pattern}/.test(cmd)) {`,
+			`\t\t\t\treturn {`,
+			`\t\t\t\t\tblock: true,`,
+			`\t\t\t\t\treason: ${JSON.stringify(rule.reason)},`,
+			`\t\t\t\t};`,
+			`\t\t\t}`,
+		]),
 		`\t\t\tconst branchMatch = /git\\s+checkout\\s+-b\\s+(\\S+)/.exec(cmd);`,
 		`\t\t\tif (branchMatch) {`,
 		`\t\t\t\tconst branch = branchMatch[1] ?? "";`,
@@ -320,6 +335,12 @@ export function generatePiGuardExtension(hooks: HooksDef): string {
 		`\t\t\t\t\t};`,
 		`\t\t\t\t}`,
 		`\t\t\t}`,
+		``,
+		`\t\t\t// Guard policy denies (all capabilities) win over every allow rule.`,
+		`\t\t\tconst deniedRule = POLICY_DENY.findIndex((re) => re.test(cmd));`,
+		`\t\t\tif (deniedRule !== -1) {`,
+		`\t\t\t\treturn { block: true, reason: POLICY_DENY_REASONS[deniedRule] };`,
+		`\t\t\t}`,
 		capabilityBashBlock,
 		`\t\t}`,
 		``,
@@ -4,7 +4,43 @@ import { tmpdir } from "node:os";
 import { join } from "node:path";
 import type { ResolvedModel } from "../types.ts";
 import { PiRuntime } from "./pi.ts";
-import type { SpawnOpts } from "./types.ts";
+import type { RpcProcessHandle, SpawnOpts } from "./types.ts";
+
+/**
+ * In-memory RPC process: records each JSON-RPC request written to stdin and
+ * answers with `respond(method)` on stdout.
+ */
+function createFakeRpcProcess(respond: (method: string) => unknown): {
+	handle: RpcProcessHandle;
+	requests: Array<{ method: string; params?: Record<string, unknown> }>;
+} {
+	const requests: Array<{ method: string; params?: Record<string, unknown> }> = [];
+	const encoder = new TextEncoder();
+	let controller: ReadableStreamDefaultController<Uint8Array> | null = null;
+	const stdout = new ReadableStream<Uint8Array>({
+		start(c) {
+			controller = c;
+		},
+	});
+	const handle: RpcProcessHandle = {
+		stdin: {
+			write(data: string | Uint8Array): number {
+				const text = typeof data === "string" ? data : new TextDecoder().decode(data);
+				const request = JSON.parse(text) as {
+					id: number;
+					method: string;
+					params?: Record<string, unknown>;
+				};
+				requests.push({ method: request.method, params: request.params });
+				const response = { jsonrpc: "2.0", id: request.id, result: respond(request.method) };
+				controller?.enqueue(encoder.encode(`${JSON.stringify(response)}\n`));
+				return text.length;
+			},
+		},
+		stdout,
+	};
+	return { handle, requests };
+}
 
 describe("PiRuntime", () => {
 	const runtime = new PiRuntime();
@@ -209,6 +245,58 @@ describe("PiRuntime", () => {
 		});
 	});
 
+	describe("buildHeadlessCommand", () => {
+		test("adds --mode rpc to the spawn command", () => {
+			const cmd = runtime.buildHeadlessCommand({
+				model: "sonnet",
+				permissionMode: "bypass",
+				cwd: "/tmp",
+				env: {},
+				appendSystemPrompt: "You are a builder.",
+			});
+			expect(cmd).toBe(
+				"pi --mode rpc --model anthropic/claude-sonnet-4-6 --append-system-prompt 'You are a builder.'",
+			);
+		});
+	});
+
+	describe("connect", () => {
+		test("maps prompt, followUp, and abort to JSON-RPC requests", async () => {
+			const { handle, requests } = createFakeRpcProcess(() => null);
+			const connection = runtime.connect(handle);
+			await connection.sendPrompt("start");
+			await connection.followUp("new mail");
+			await connection.abort();
+			connection.close();
+			expect(requests).toEqual([
+				{ method: "prompt", params: { message: "start" } },
+				{ method: "followUp", params: { message: "new mail" } },
+				{ method: "abort", params: undefined },
+			]);
+		});
+
+		test("getState reads isStreaming and currentTool", async () => {
+			const { handle } = createFakeRpcProcess(() => ({ isStreaming: true, currentTool: "bash" }));
+			const connection = runtime.connect(handle);
+			expect(await connection.getState()).toEqual({ status: "working", currentTool: "bash" });
+			connection.close();
+		});
+
+		test("getState passes through an explicit status", async () => {
+			const { handle } = createFakeRpcProcess(() => ({ status: "error", isStreaming: true }));
+			const connection = runtime.connect(handle);
+			expect(await connection.getState()).toEqual({ status: "error" });
+			connection.close();
+		});
+
+		test("getState defaults to idle", async () => {
+			const { handle } = createFakeRpcProcess(() => ({}));
+			const connection = runtime.connect(handle);
+			expect(await connection.getState()).toEqual({ status: "idle" });
+			connection.close();
+		});
+	});
+
 	describe("buildPrintCommand", () => {
 		test("basic command without model — prompt is last positional arg", () => {
 			const argv = runtime.buildPrintCommand("Summarize this diff");
@@ -5,11 +5,15 @@ import { mkdir } from "node:fs/promises";
 import { join } from "node:path";
 import type { PiRuntimeConfig, ResolvedModel } from "../types.ts";
 import { generatePiGuardExtension } from "./pi-guards.ts";
+import { createJsonRpcClient } from "./rpc.ts";
 import type {
 	AgentRuntime,
+	ConnectionState,
 	HooksDef,
 	OverlayContent,
 	ReadyState,
+	RpcProcessHandle,
+	RuntimeConnection,
 	SpawnOpts,
 	TranscriptSummary,
 } from "./types.ts";
@@ -73,7 +77,24 @@ export class PiRuntime implements AgentRuntime {
 	 * @returns Shell command string suitable for tmux new-session -c
 	 */
 	buildSpawnCommand(opts: SpawnOpts): string {
-		let cmd = `pi --model ${this.expandModel(opts.model)}`;
+		return this.buildCommand("pi", opts);
+	}
+
+	/**
+	 * Build the shell command to spawn Pi in RPC mode (`pi --mode rpc`).
+	 *
+	 * Same flags as buildSpawnCommand(); overstory owns stdin/stdout and talks
+	 * to the process through connect() instead of a tmux pane.
+	 *
+	 * @param opts - Spawn options (model, appendSystemPrompt; permissionMode is ignored)
+	 * @returns Shell command string run by the headless agent host
+	 */
+	buildHeadlessCommand(opts: SpawnOpts): string {
+		return this.buildCommand("pi --mode rpc", opts);
+	}
+
+	private buildCommand(base: string, opts: SpawnOpts): string {
+		let cmd = `${base} --model ${this.expandModel(opts.model)}`;
 
 		if (opts.appendSystemPromptFile) {
 			// Read from file at shell expansion time — avoids tmux command length limits.
@@ -245,4 +266,48 @@ export class PiRuntime implements AgentRuntime {
 	buildEnv(model: ResolvedModel): Record<string, string> {
 		return model.env ?? {};
 	}
+
+	/**
+	 * Connect to a Pi process started with buildHeadlessCommand().
+	 *
+	 * Speaks JSON-RPC 2.0 over the process's stdin/stdout: `prompt`, `followUp`,
+	 * `abort`, and `get_state`. `get_state` results report either a `status`
+	 * or an `isStreaming` flag; both are normalized to ConnectionState.
+	 *
+	 * @param process - Spawned Pi process with piped stdin/stdout
+	 * @returns Connection used for mail delivery, shutdown, and health checks
+	 */
+	connect(process: RpcProcessHandle): RuntimeConnection {
+		const client = createJsonRpcClient(process);
+		return {
+			async sendPrompt(text: string): Promise<void> {
+				await client.request("prompt", { message: text });
+			},
+			async followUp(text: string): Promise<void> {
+				await client.request("followUp", { message: text });
+			},
+			async abort(): Promise<void> {
+				await client.request("abort");
+			},
+			async getState(): Promise<ConnectionState> {
+				const result = (await client.request("get_state")) as {
+					status?: unknown;
+					isStreaming?: unknown;
+					currentTool?: unknown;
+				} | null;
+				const status =
+					result?.status === "idle" || result?.status === "working" || result?.status === "error"
+						? result.status
+						: result?.isStreaming === true
+							? "working"
+							: "idle";
+				return typeof result?.currentTool === "string"
+					? { status, currentTool: result.currentTool }
+					: { status };
+			},
+			close(): void {
+				client.close();
+			},
+		};
+	}
 }
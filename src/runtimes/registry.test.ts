@@ -3,6 +3,7 @@ import type { OverstoryConfig } from "../types.ts";
 import { ClaudeRuntime } from "./claude.ts";
 import { CodexRuntime } from "./codex.ts";
 import { CopilotRuntime } from "./copilot.ts";
+import { DeclarativeRuntime } from "./declarative.ts";
 import { PiRuntime } from "./pi.ts";
 import { getRuntime } from "./registry.ts";
 
@@ -98,6 +99,40 @@ describe("getRuntime", () => {
 		expect(runtime.id).toBe("copilot");
 	});
 
+	it("resolves declarative adapters from config.runtime.adapters", () => {
+		const config = {
+			runtime: {
+				default: "opencode",
+				adapters: {
+					opencode: {
+						instructionPath: "AGENTS.md",
+						spawn: "opencode --model {model}",
+						print: ["opencode", "run", "{prompt}"],
+					},
+				},
+			},
+		} as unknown as OverstoryConfig;
+		const runtime = getRuntime(undefined, config);
+		expect(runtime).toBeInstanceOf(DeclarativeRuntime);
+		expect(runtime.id).toBe("opencode");
+		expect(runtime.instructionPath).toBe("AGENTS.md");
+		expect(() => getRuntime("aider", config)).toThrow(
+			'Unknown runtime: "aider". Available: claude, codex, pi, copilot, opencode',
+		);
+	});
+
+	it("built-in runtimes take precedence over a declarative adapter of the same name", () => {
+		const config = {
+			runtime: {
+				default: "claude",
+				adapters: {
+					codex: { instructionPath: "X.md", spawn: "x", print: ["x", "{prompt}"] },
+				},
+			},
+		} as unknown as OverstoryConfig;
+		expect(getRuntime("codex", config)).toBeInstanceOf(CodexRuntime);
+	});
+
 	it("copilot runtime returns a new instance on each call", () => {
 		const a = getRuntime("copilot");
 		const b = getRuntime("copilot");
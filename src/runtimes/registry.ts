@@ -1,10 +1,11 @@
 // Runtime registry — maps runtime names to adapter factory functions.
 // This is the ONLY module that imports concrete adapter classes.
 
-import type { OverstoryConfig } from "../types.ts";
+import type { OverstoryConfig, RuntimeAdapterSpec } from "../types.ts";
 import { ClaudeRuntime } from "./claude.ts";
 import { CodexRuntime } from "./codex.ts";
 import { CopilotRuntime } from "./copilot.ts";
+import { DeclarativeRuntime } from "./declarative.ts";
 import { PiRuntime } from "./pi.ts";
 import type { AgentRuntime } from "./types.ts";
 
@@ -24,6 +25,9 @@ const runtimes = new Map<string, () => AgentRuntime>([
  * 2. `config.runtime.default` (if config is provided)
  * 3. `"claude"` (hardcoded fallback)
  *
+ * Built-in adapters are matched first, then declarative adapters from
+ * `config.runtime.adapters` (loaded from `.overstory/runtimes/*.yaml`).
+ *
  * Special cases:
  * - Pi runtime receives `config.runtime.pi` for model alias expansion.
  *
@@ -41,10 +45,29 @@ export function getRuntime(name?: string, config?: OverstoryConfig): AgentRuntim
 	}
 
 	const factory = runtimes.get(runtimeName);
-	if (!factory) {
-		throw new Error(
-			`Unknown runtime: "${runtimeName}". Available: ${[...runtimes.keys()].join(", ")}`,
-		);
+	if (factory) {
+		return factory();
+	}
+
+	const adapters = config?.runtime?.adapters ?? {};
+	const spec = adapters[runtimeName];
+	if (!spec) {
+		const available = [...runtimes.keys(), ...Object.keys(adapters)];
+		throw new Error(`Unknown runtime: "${runtimeName}". Available: ${available.join(", ")}`);
 	}
-	return factory();
+	return createDeclarativeRuntime(runtimeName, spec);
+}
+
+/** Build a declarative adapter, wiring the built-ins it borrows guards and transcript parsing from. */
+function createDeclarativeRuntime(name: string, spec: RuntimeAdapterSpec): DeclarativeRuntime {
+	const guards =
+		spec.guards === "claude-hooks"
+			? new ClaudeRuntime()
+			: spec.guards === "pi-extension"
+				? new PiRuntime()
+				: undefined;
+	const format = spec.transcript?.format;
+	const transcript =
+		format === "claude" || format === "codex" || format === "pi" ? getRuntime(format) : undefined;
+	return new DeclarativeRuntime(name, spec, { guards, transcript });
 }
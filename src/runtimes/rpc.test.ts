@@ -0,0 +1,87 @@
+import { describe, expect, test } from "bun:test";
+import { createJsonRpcClient } from "./rpc.ts";
+import type { RpcProcessHandle } from "./types.ts";
+
+/** A process handle whose stdout is fed by `emit` and whose stdin writes are recorded. */
+function createHandle(): {
+	handle: RpcProcessHandle;
+	written: string[];
+	emit: (line: string) => void;
+	end: () => void;
+} {
+	const written: string[] = [];
+	const encoder = new TextEncoder();
+	let controller: ReadableStreamDefaultController<Uint8Array> | null = null;
+	const stdout = new ReadableStream<Uint8Array>({
+		start(c) {
+			controller = c;
+		},
+	});
+	return {
+		handle: {
+			stdin: {
+				write(data: string | Uint8Array): number {
+					written.push(typeof data === "string" ? data : new TextDecoder().decode(data));
+					return data.length;
+				},
+			},
+			stdout,
+		},
+		written,
+		emit: (line) => controller?.enqueue(encoder.encode(line)),
+		end: () => controller?.close(),
+	};
+}
+
+describe("createJsonRpcClient", () => {
+	test("writes a JSON-RPC 2.0 request and resolves with the matching result", async () => {
+		const { handle, written, emit } = createHandle();
+		const client = createJsonRpcClient(handle);
+		const pending = client.request("get_state", { verbose: true });
+		expect(JSON.parse(written[0] ?? "")).toEqual({
+			jsonrpc: "2.0",
+			id: 1,
+			method: "get_state",
+			params: { verbose: true },
+		});
+		emit('{"jsonrpc":"2.0","id":1,"result":{"isStreaming":false}}\n');
+		expect(await pending).toEqual({ isStreaming: false });
+		client.close();
+	});
+
+	test("skips notifications and non-JSON output, including split lines", async () => {
+		const { handle, emit } = createHandle();
+		const client = createJsonRpcClient(handle);
+		const pending = client.request("prompt");
+		emit("starting agent...\n");
+		emit('{"jsonrpc":"2.0","method":"tool_start","params":{}}\n{"jsonrpc":"2.0",');
+		emit('"id":1,"result":"ok"}\n');
+		expect(await pending).toBe("ok");
+		client.close();
+	});
+
+	test("rejects with the error message from an error response", async () => {
+		const { handle, emit } = createHandle();
+		const client = createJsonRpcClient(handle);
+		const pending = client.request("abort");
+		emit('{"jsonrpc":"2.0","id":1,"error":{"code":-32601,"message":"Method not found"}}\n');
+		await expect(pending).rejects.toThrow("Method not found");
+		client.close();
+	});
+
+	test("rejects when the request times out", async () => {
+		const { handle } = createHandle();
+		const client = createJsonRpcClient(handle, { timeoutMs: 20 });
+		await expect(client.request("get_state")).rejects.toThrow("timed out");
+		client.close();
+	});
+
+	test("rejects pending and new requests once stdout ends", async () => {
+		const { handle, end } = createHandle();
+		const client = createJsonRpcClient(handle);
+		const pending = client.request("get_state");
+		end();
+		await expect(pending).rejects.toThrow("RPC connection closed");
+		await expect(client.request("get_state")).rejects.toThrow("RPC connection closed");
+	});
+});
@@ -0,0 +1,125 @@
+// JSON-RPC 2.0 client over a spawned process's stdin/stdout.
+// Shared by runtime adapters that implement AgentRuntime.connect() (e.g. Pi's --mode rpc).
+
+import type { RpcProcessHandle } from "./types.ts";
+
+/** Default time to wait for a response before rejecting a request. */
+const DEFAULT_REQUEST_TIMEOUT_MS = 30_000;
+
+/** Minimal JSON-RPC 2.0 client: one request in flight per id, notifications ignored. */
+export interface JsonRpcClient {
+	/** Send a request and resolve with its `result` (rejects on `error` or timeout). */
+	request(method: string, params?: Record<string, unknown>): Promise<unknown>;
+	/** Stop reading stdout and reject all pending requests. */
+	close(): void;
+}
+
+interface PendingRequest {
+	resolve: (result: unknown) => void;
+	reject: (err: Error) => void;
+	timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Create a JSON-RPC 2.0 client over newline-delimited JSON on the process's
+ * stdin (requests) and stdout (responses). Lines that are not responses to a
+ * pending request (notifications, log output) are skipped.
+ */
+export function createJsonRpcClient(
+	handle: RpcProcessHandle,
+	options?: { timeoutMs?: number },
+): JsonRpcClient {
+	const timeoutMs = options?.timeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
+	const pending = new Map<number, PendingRequest>();
+	let nextId = 1;
+	let closed = false;
+	const reader = handle.stdout.getReader();
+
+	const rejectAll = (reason: string): void => {
+		for (const [id, request] of pending) {
+			clearTimeout(request.timer);
+			request.reject(new Error(reason));
+			pending.delete(id);
+		}
+	};
+
+	const handleLine = (line: string): void => {
+		let message: unknown;
+		try {
+			message = JSON.parse(line);
+		} catch {
+			return; // Not JSON — stray output from the agent process
+		}
+		if (message === null || typeof message !== "object") return;
+		const { id, result, error } = message as { id?: unknown; result?: unknown; error?: unknown };
+		if (typeof id !== "number") return; // Notification
+		const request = pending.get(id);
+		if (!request) return;
+		pending.delete(id);
+		clearTimeout(request.timer);
+		if (error !== undefined && error !== null) {
+			const detail =
+				typeof error === "object" && "message" in error
+					? String((error as { message: unknown }).message)
+					: String(error);
+			request.reject(new Error(detail));
+		} else {
+			request.resolve(result ?? null);
+		}
+	};
+
+	// Read loop: split stdout into lines until the stream ends or close() is called.
+	(async () => {
+		const decoder = new TextDecoder();
+		let buffer = "";
+		try {
+			while (!closed) {
+				const { done, value } = await reader.read();
+				if (done) break;
+				buffer += decoder.decode(value, { stream: true });
+				let newline = buffer.indexOf("\n");
+				while (newline !== -1) {
+					const line = buffer.slice(0, newline).trim();
+					buffer = buffer.slice(newline + 1);
+					if (line.length > 0) handleLine(line);
+					newline = buffer.indexOf("\n");
+				}
+			}
+		} catch {
+			// Stream errored — treated like the process exiting
+		}
+		closed = true;
+		rejectAll("RPC connection closed");
+	})();
+
+	return {
+		request(method: string, params?: Record<string, unknown>): Promise<unknown> {
+			if (closed) {
+				return Promise.reject(new Error("RPC connection closed"));
+			}
+			const id = nextId++;
+			return new Promise<unknown>((resolve, reject) => {
+				const timer = setTimeout(() => {
+					pending.delete(id);
+					reject(new Error(`RPC request "${method}" timed out after ${timeoutMs}ms`));
+				}, timeoutMs);
+				pending.set(id, { resolve, reject, timer });
+				const payload = { jsonrpc: "2.0", id, method, ...(params ? { params } : {}) };
+				Promise.resolve(handle.stdin.write(`${JSON.stringify(payload)}\n`)).catch((err) => {
+					pending.delete(id);
+					clearTimeout(timer);
+					reject(err instanceof Error ? err : new Error(String(err)));
+				});
+			});
+		},
+
+		close(): void {
+			if (closed) return;
+			closed = true;
+			rejectAll("RPC connection closed");
+			reader.cancel().catch(() => {
+				// Already released
+			});
+		},
+	};
+}
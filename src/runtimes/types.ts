@@ -1,7 +1,7 @@
 // Runtime abstraction types for multi-provider agent support.
 // See docs/runtime-abstraction.md for design rationale and coupling inventory.
 
-import type { QualityGate, ResolvedModel } from "../types.ts";
+import type { GuardPolicy, QualityGate, ResolvedModel } from "../types.ts";
 
 // === Spawn ===
 
@@ -56,6 +56,8 @@ export interface HooksDef {
 	worktreePath: string;
 	/** Quality gates agents must pass before reporting completion. */
 	qualityGates?: QualityGate[];
+	/** Guard policy layered over the built-in guards (config.policy). */
+	policy?: GuardPolicy;
 }
 
 // === Transcripts ===
@@ -187,4 +189,12 @@ export interface AgentRuntime {
 	 * Orchestrator checks `if (runtime.connect)` before calling, falls back to tmux when absent.
 	 */
 	connect?(process: RpcProcessHandle): RuntimeConnection;
+
+	/**
+	 * Build the shell command that starts the agent in RPC mode for headless
+	 * spawning (`ov sling --headless`). The agent host runs it with piped
+	 * stdin/stdout and hands the process to connect().
+	 * Required alongside connect() for a runtime to support headless mode.
+	 */
+	buildHeadlessCommand?(opts: SpawnOpts): string;
 }
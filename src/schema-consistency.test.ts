@@ -61,7 +61,9 @@ describe("SQL schema consistency", () => {
 				"last_activity",
 				"parent_agent",
 				"pid",
+				"rpc_endpoint",
 				"run_id",
+				"runtime",
 				"stalled_since",
 				"started_at",
 				"state",
@@ -152,6 +154,7 @@ describe("SQL schema consistency", () => {
 				"output_tokens",
 				"parent_agent",
 				"run_id",
+				"runtime",
 				"started_at",
 				"task_id",
 			].sort();
@@ -197,13 +200,21 @@ describe("SQL schema consistency", () => {
 
 			// Columns from MessageRow interface in src/mail/store.ts
 			const expected = [
+				"acked_at",
 				"body",
+				"completed_at",
 				"created_at",
+				"delivered_at",
+				"escalated_at",
 				"from_agent",
 				"id",
 				"payload",
+				"payload_version",
 				"priority",
 				"read",
+				"read_at",
+				"redelivered_at",
+				"redeliveries",
 				"subject",
 				"thread_id",
 				"to_agent",
@@ -229,6 +240,7 @@ describe("SQL schema consistency", () => {
 				"agent_name",
 				"branch_name",
 				"enqueued_at",
+				"failure_reason",
 				"files_modified",
 				"id",
 				"resolved_tier",
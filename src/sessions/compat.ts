@@ -37,6 +37,8 @@ function normalizeSession(raw: Record<string, unknown>): AgentSession {
 		escalationLevel: (raw.escalationLevel as number) ?? 0,
 		stalledSince: (raw.stalledSince as string | null) ?? null,
 		transcriptPath: (raw.transcriptPath as string | null) ?? null,
+		rpcEndpoint: (raw.rpcEndpoint as string | null) ?? null,
+		runtime: (raw.runtime as string | null) ?? null,
 	};
 }
 
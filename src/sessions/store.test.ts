@@ -48,6 +48,8 @@ function makeSession(overrides: Partial<AgentSession> = {}): AgentSession {
 		escalationLevel: 0,
 		stalledSince: null,
 		transcriptPath: null,
+		rpcEndpoint: null,
+		runtime: null,
 		...overrides,
 	};
 }
@@ -153,6 +155,11 @@ describe("upsert", () => {
 		const result = store.getByName("test-agent");
 		expect(result?.transcriptPath).toBe("/home/user/.pi/sessions/abc.jsonl");
 	});
+
+	test("runtime roundtrips correctly", () => {
+		store.upsert(makeSession({ runtime: "codex" }));
+		expect(store.getByName("test-agent")?.runtime).toBe("codex");
+	});
 });
 
 // === updateTranscriptPath ===
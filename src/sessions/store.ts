@@ -57,6 +57,8 @@ interface SessionRow {
 	escalation_level: number;
 	stalled_since: string | null;
 	transcript_path: string | null;
+	rpc_endpoint: string | null;
+	runtime: string | null;
 }
 
 /** Row shape for runs table as stored in SQLite (snake_case columns). */
@@ -88,7 +90,9 @@ CREATE TABLE IF NOT EXISTS sessions (
   last_activity TEXT NOT NULL,
   escalation_level INTEGER NOT NULL DEFAULT 0,
   stalled_since TEXT,
-  transcript_path TEXT
+  transcript_path TEXT,
+  rpc_endpoint TEXT,
+  runtime TEXT
 )`;
 
 const CREATE_INDEXES = `
@@ -129,6 +133,8 @@ function rowToSession(row: SessionRow): AgentSession {
 		escalationLevel: row.escalation_level,
 		stalledSince: row.stalled_since,
 		transcriptPath: row.transcript_path,
+		rpcEndpoint: row.rpc_endpoint,
+		runtime: row.runtime,
 	};
 }
 
@@ -156,6 +162,30 @@ function migrateAddTranscriptPath(db: Database): void {
 	}
 }
 
+/**
+ * Migrate an existing sessions table to add the rpc_endpoint column.
+ * Safe to call multiple times — only adds the column if it does not exist.
+ */
+function migrateAddRpcEndpoint(db: Database): void {
+	const rows = db.prepare("PRAGMA table_info(sessions)").all() as Array<{ name: string }>;
+	const existingColumns = new Set(rows.map((r) => r.name));
+	if (!existingColumns.has("rpc_endpoint")) {
+		db.exec("ALTER TABLE sessions ADD COLUMN rpc_endpoint TEXT");
+	}
+}
+
+/**
+ * Migrate an existing sessions table to add the runtime column.
+ * Safe to call multiple times — only adds the column if it does not exist.
+ */
+function migrateAddRuntime(db: Database): void {
+	const rows = db.prepare("PRAGMA table_info(sessions)").all() as Array<{ name: string }>;
+	const existingColumns = new Set(rows.map((r) => r.name));
+	if (!existingColumns.has("runtime")) {
+		db.exec("ALTER TABLE sessions ADD COLUMN runtime TEXT");
+	}
+}
+
 /**
  * Migrate an existing sessions table from bead_id to task_id column.
  * Safe to call multiple times — only renames if bead_id exists and task_id does not.
@@ -192,6 +222,10 @@ export function createSessionStore(dbPath: string): SessionStore {
 	migrateBeadIdToTaskId(db);
 	// Migrate: add transcript_path column to existing tables
 	migrateAddTranscriptPath(db);
+	// Migrate: add rpc_endpoint column to existing tables
+	migrateAddRpcEndpoint(db);
+	// Migrate: add runtime column to existing tables
+	migrateAddRuntime(db);
 
 	// Prepare statements for frequent operations
 	const upsertStmt = db.prepare<
@@ -214,16 +248,20 @@ export function createSessionStore(dbPath: string): SessionStore {
 			$escalation_level: number;
 			$stalled_since: string | null;
 			$transcript_path: string | null;
+			$rpc_endpoint: string | null;
+			$runtime: string | null;
 		}
 	>(`
 		INSERT INTO sessions
 			(id, agent_name, capability, worktree_path, branch_name, task_id,
 			 tmux_session, state, pid, parent_agent, depth, run_id,
-			 started_at, last_activity, escalation_level, stalled_since, transcript_path)
+			 started_at, last_activity, escalation_level, stalled_since, transcript_path,
+			 rpc_endpoint, runtime)
 		VALUES
 			($id, $agent_name, $capability, $worktree_path, $branch_name, $task_id,
 			 $tmux_session, $state, $pid, $parent_agent, $depth, $run_id,
-			 $started_at, $last_activity, $escalation_level, $stalled_since, $transcript_path)
+			 $started_at, $last_activity, $escalation_level, $stalled_since, $transcript_path,
+			 $rpc_endpoint, $runtime)
 		ON CONFLICT(agent_name) DO UPDATE SET
 			id = excluded.id,
 			capability = excluded.capability,
@@ -240,7 +278,9 @@ export function createSessionStore(dbPath: string): SessionStore {
 			last_activity = excluded.last_activity,
 			escalation_level = excluded.escalation_level,
 			stalled_since = excluded.stalled_since,
-			transcript_path = excluded.transcript_path
+			transcript_path = excluded.transcript_path,
+			rpc_endpoint = excluded.rpc_endpoint,
+			runtime = excluded.runtime
 	`);
 
 	const getByNameStmt = db.prepare<SessionRow, { $agent_name: string }>(`
@@ -316,6 +356,8 @@ export function createSessionStore(dbPath: string): SessionStore {
 				$escalation_level: session.escalationLevel,
 				$stalled_since: session.stalledSince,
 				$transcript_path: session.transcriptPath,
+				$rpc_endpoint: session.rpcEndpoint,
+				$runtime: session.runtime,
 			});
 		},
 
@@ -0,0 +1,270 @@
+/**
+ * Tests for the task dependency graph.
+ *
+ * Pure functions are tested with in-memory issues. loadTaskGraph uses a
+ * fake TrackerClient backed by a Map — no bd/sd CLI is invoked.
+ */
+
+import { describe, expect, test } from "bun:test";
+import {
+	buildTaskGraph,
+	collectMergedTaskIds,
+	findNewlyUnblocked,
+	getUnmetBlockers,
+	loadTaskGraph,
+	planDispatch,
+	resolveSatisfiedTasks,
+} from "./dag.ts";
+import type { TrackerClient, TrackerIssue } from "./types.ts";
+
+function makeIssue(id: string, overrides?: Partial<TrackerIssue>): TrackerIssue {
+	return {
+		id,
+		title: `Task ${id}`,
+		status: "open",
+		priority: 2,
+		type: "task",
+		...overrides,
+	};
+}
+
+function fakeTracker(issues: TrackerIssue[], listed?: string[]): TrackerClient {
+	const byId = new Map(issues.map((i) => [i.id, i]));
+	return {
+		ready: async () => [],
+		show: async (id) => {
+			const issue = byId.get(id);
+			if (!issue) throw new Error(`not found: ${id}`);
+			return issue;
+		},
+		create: async () => "new",
+		claim: async () => {},
+		close: async () => {},
+		list: async () => issues.filter((i) => listed === undefined || listed.includes(i.id)),
+		sync: async () => {},
+	};
+}
+
+describe("buildTaskGraph", () => {
+	test("normalizes edges declared on either side", () => {
+		const graph = buildTaskGraph([
+			makeIssue("a", { blocks: ["b"] }),
+			makeIssue("b"),
+			makeIssue("c", { blockedBy: ["b"] }),
+		]);
+
+		expect(graph.nodes.get("a")?.blocks).toEqual(["b"]);
+		expect(graph.nodes.get("b")?.blockedBy).toEqual(["a"]);
+		expect(graph.nodes.get("b")?.blocks).toEqual(["c"]);
+		expect(graph.nodes.get("c")?.blockedBy).toEqual(["b"]);
+	});
+
+	test("does not duplicate edges declared on both sides", () => {
+		const graph = buildTaskGraph([
+			makeIssue("a", { blocks: ["b"] }),
+			makeIssue("b", { blockedBy: ["a"] }),
+		]);
+
+		expect(graph.nodes.get("a")?.blocks).toEqual(["b"]);
+		expect(graph.nodes.get("b")?.blockedBy).toEqual(["a"]);
+	});
+
+	test("keeps edges to unknown issues on the known side only", () => {
+		const graph = buildTaskGraph([makeIssue("b", { blockedBy: ["missing"] })]);
+
+		expect(graph.nodes.get("b")?.blockedBy).toEqual(["missing"]);
+		expect(graph.nodes.has("missing")).toBe(false);
+	});
+
+	test("ignores self-edges", () => {
+		const graph = buildTaskGraph([makeIssue("a", { blockedBy: ["a"] })]);
+		expect(graph.nodes.get("a")?.blockedBy).toEqual([]);
+	});
+});
+
+describe("loadTaskGraph", () => {
+	test("loads listed issues plus referenced blockers missing from the list", async () => {
+		const tracker = fakeTracker(
+			[makeIssue("done", { status: "closed" }), makeIssue("a", { blockedBy: ["done"] })],
+			["a"],
+		);
+		const graph = await loadTaskGraph(tracker);
+
+		expect([...graph.nodes.keys()].sort()).toEqual(["a", "done"]);
+		expect(graph.nodes.get("a")?.blockedBy).toEqual(["done"]);
+	});
+
+	test("walks the neighbourhood reachable from root IDs", async () => {
+		const tracker = fakeTracker([
+			makeIssue("a", { blocks: ["b"] }),
+			makeIssue("b", { blockedBy: ["a"], blocks: ["c"] }),
+			makeIssue("c", { blockedBy: ["b"] }),
+			makeIssue("unrelated"),
+		]);
+		const graph = await loadTaskGraph(tracker, ["b"]);
+
+		expect([...graph.nodes.keys()].sort()).toEqual(["a", "b", "c"]);
+	});
+
+	test("skips issues that cannot be fetched", async () => {
+		const tracker = fakeTracker([makeIssue("a", { blockedBy: ["ghost"] })]);
+		const graph = await loadTaskGraph(tracker, ["a"]);
+
+		expect([...graph.nodes.keys()]).toEqual(["a"]);
+		expect(graph.nodes.get("a")?.blockedBy).toEqual(["ghost"]);
+	});
+});
+
+describe("resolveSatisfiedTasks", () => {
+	const graph = buildTaskGraph([
+		makeIssue("merged", { status: "closed" }),
+		makeIssue("manual", { status: "closed" }),
+		makeIssue("built", { status: "closed" }),
+		makeIssue("open"),
+	]);
+
+	test("counts merged tasks and manually closed tasks as satisfied", () => {
+		const satisfied = resolveSatisfiedTasks(
+			graph,
+			collectMergedTaskIds([
+				{ taskId: "merged", status: "merged" },
+				{ taskId: "built", status: "pending" },
+			]),
+			new Set(["merged", "built"]),
+			new Set(["merged", "built"]),
+		);
+
+		expect(satisfied.has("merged")).toBe(true);
+		expect(satisfied.has("manual")).toBe(true);
+		expect(satisfied.has("built")).toBe(false);
+		expect(satisfied.has("open")).toBe(false);
+	});
+
+	test("closed task worked by an agent is not satisfied until merged", () => {
+		const satisfied = resolveSatisfiedTasks(graph, new Set(), new Set(["manual"]), new Set());
+		expect(satisfied.has("manual")).toBe(false);
+	});
+});
+
+describe("getUnmetBlockers", () => {
+	test("returns unsatisfied blockers in declaration order", () => {
+		const graph = buildTaskGraph([makeIssue("c", { blockedBy: ["b", "a"] })]);
+		expect(getUnmetBlockers(graph, "c", new Set(["a"]))).toEqual(["b"]);
+	});
+
+	test("returns empty array for unknown tasks", () => {
+		const graph = buildTaskGraph([]);
+		expect(getUnmetBlockers(graph, "nope", new Set())).toEqual([]);
+	});
+});
+
+describe("findNewlyUnblocked", () => {
+	test("returns open dependents whose remaining blockers are satisfied", () => {
+		const graph = buildTaskGraph([
+			makeIssue("a", { status: "closed", blocks: ["b", "c", "d"] }),
+			makeIssue("b"),
+			makeIssue("c", { blockedBy: ["x"] }),
+			makeIssue("d", { status: "in_progress" }),
+			makeIssue("x"),
+		]);
+
+		const unblocked = findNewlyUnblocked(graph, "a", new Set());
+		expect(unblocked.map((n) => n.id)).toEqual(["b"]);
+	});
+
+	test("returns empty array for unknown merged task", () => {
+		const graph = buildTaskGraph([makeIssue("a")]);
+		expect(findNewlyUnblocked(graph, "nope", new Set())).toEqual([]);
+	});
+});
+
+describe("planDispatch", () => {
+	test("groups tasks into parallel waves", () => {
+		const graph = buildTaskGraph([
+			makeIssue("a", { blocks: ["c"] }),
+			makeIssue("b", { blocks: ["c"] }),
+			makeIssue("c", { blocks: ["d"] }),
+			makeIssue("d"),
+			makeIssue("e"),
+		]);
+		const plan = planDispatch(graph, new Set());
+
+		expect(plan.waves).toEqual([["a", "b", "e"], ["c"], ["d"]]);
+		expect(plan.ready).toEqual(["a", "b", "e"]);
+		expect(plan.cycle).toEqual([]);
+	});
+
+	test("computes the longest chain as the critical path", () => {
+		const graph = buildTaskGraph([
+			makeIssue("a", { blocks: ["b"] }),
+			makeIssue("b", { blocks: ["c"] }),
+			makeIssue("c"),
+			makeIssue("x", { blocks: ["y"] }),
+			makeIssue("y"),
+		]);
+		const plan = planDispatch(graph, new Set());
+
+		expect(plan.criticalPath).toEqual(["a", "b", "c"]);
+	});
+
+	test("breaks critical path ties by priority", () => {
+		const graph = buildTaskGraph([
+			makeIssue("a", { blocks: ["b"], priority: 3 }),
+			makeIssue("b", { priority: 3 }),
+			makeIssue("x", { blocks: ["y"], priority: 1 }),
+			makeIssue("y", { priority: 1 }),
+		]);
+		const plan = planDispatch(graph, new Set());
+
+		expect(plan.criticalPath).toEqual(["x", "y"]);
+	});
+
+	test("excludes satisfied tasks and treats them as met blockers", () => {
+		const graph = buildTaskGraph([
+			makeIssue("a", { status: "closed", blocks: ["b"] }),
+			makeIssue("b", { blocks: ["c"] }),
+			makeIssue("c"),
+		]);
+		const plan = planDispatch(graph, new Set(["a"]));
+
+		expect(plan.waves).toEqual([["b"], ["c"]]);
+		expect(plan.ready).toEqual(["b"]);
+	});
+
+	test("does not list in-progress tasks as ready", () => {
+		const graph = buildTaskGraph([makeIssue("a", { status: "in_progress" }), makeIssue("b")]);
+		const plan = planDispatch(graph, new Set());
+
+		expect(plan.waves).toEqual([["a", "b"]]);
+		expect(plan.ready).toEqual(["b"]);
+	});
+
+	test("reports tasks in a dependency cycle", () => {
+		const graph = buildTaskGraph([
+			makeIssue("a", { blocks: ["b"] }),
+			makeIssue("b", { blocks: ["a"] }),
+			makeIssue("c"),
+		]);
+		const plan = planDispatch(graph, new Set());
+
+		expect(plan.waves).toEqual([["c"]]);
+		expect(plan.cycle).toEqual(["a", "b"]);
+	});
+
+	test("treats blockers missing from the graph as unmet, like sling", () => {
+		const graph = buildTaskGraph([
+			makeIssue("a", { blockedBy: ["ghost"], blocks: ["b"] }),
+			makeIssue("b"),
+			makeIssue("c", { blockedBy: ["merged-elsewhere"] }),
+		]);
+		const satisfied = new Set(["merged-elsewhere"]);
+		const plan = planDispatch(graph, satisfied);
+
+		expect(getUnmetBlockers(graph, "a", satisfied)).toEqual(["ghost"]);
+		expect(plan.waves).toEqual([["c"]]);
+		expect(plan.ready).toEqual(["c"]);
+		expect(plan.unresolved).toEqual(["a", "b"]);
+		expect(plan.missingBlockers).toEqual(["ghost"]);
+		expect(plan.cycle).toEqual([]);
+	});
+});
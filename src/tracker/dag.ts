@@ -0,0 +1,314 @@
+/**
+ * Task dependency graph (DAG) built from tracker `blocks`/`blockedBy` edges.
+ *
+ * Used by the dispatch planner: `ov sling` refuses tasks whose blockers are
+ * not merged, `ov mail send --type merged` queues newly unblocked tasks, and
+ * `ov plan` prints the critical path and parallel dispatch waves.
+ *
+ * A blocker counts as satisfied once its branch is merged (merge queue status
+ * "merged"), or when it was closed without any agent ever working on it
+ * (closed manually — there is no branch to wait for). A task closed by a
+ * builder but not yet merged is NOT satisfied: its dependents would otherwise
+ * start on a canonical branch that lacks the blocker's changes. A blocker
+ * the tracker cannot find is never satisfied unless its branch is merged.
+ */
+
+import type { TrackerClient, TrackerIssue } from "./types.ts";
+
+/** A node in the task graph. Edges are normalized in both directions. */
+export interface TaskNode {
+	id: string;
+	title: string;
+	status: string;
+	priority: number;
+	/** IDs of tasks that must be merged before this one can start. */
+	blockedBy: string[];
+	/** IDs of tasks that wait on this one. */
+	blocks: string[];
+}
+
+/** Directed graph of tasks keyed by issue ID. */
+export interface TaskGraph {
+	nodes: Map<string, TaskNode>;
+}
+
+/** Result of planning dispatch order over the unsatisfied part of a graph. */
+export interface DispatchPlan {
+	/** Longest chain of unsatisfied tasks, in execution order. */
+	criticalPath: string[];
+	/** Dispatch waves: every task in a wave can run in parallel once prior waves merge. */
+	waves: string[][];
+	/** Open tasks whose blockers are all satisfied (can be slung now). */
+	ready: string[];
+	/** Tasks participating in a dependency cycle (never schedulable). */
+	cycle: string[];
+	/**
+	 * Tasks waiting, directly or through other tasks, on blockers missing from
+	 * the graph. Unknown blockers count as unmet, as in `ov sling`.
+	 */
+	unresolved: string[];
+	/** Blocker IDs referenced by pending tasks but missing from the graph. */
+	missingBlockers: string[];
+}
+
+/** Minimal merge queue entry shape needed to derive merged task IDs. */
+interface MergeStatusLike {
+	taskId: string;
+	status: string;
+}
+
+/**
+ * Build a task graph from tracker issues.
+ *
+ * Edges declared on either side (`blocks` on the blocker or `blockedBy` on the
+ * dependent) are merged so both directions are always populated. Edges that
+ * reference issues absent from the input are kept on the known side only.
+ */
+export function buildTaskGraph(issues: readonly TrackerIssue[]): TaskGraph {
+	const nodes = new Map<string, TaskNode>();
+	for (const issue of issues) {
+		nodes.set(issue.id, {
+			id: issue.id,
+			title: issue.title,
+			status: issue.status,
+			priority: issue.priority,
+			blockedBy: [],
+			blocks: [],
+		});
+	}
+
+	const addEdge = (blocker: string, dependent: string): void => {
+		if (blocker === dependent) return;
+		const dep = nodes.get(dependent);
+		if (dep && !dep.blockedBy.includes(blocker)) dep.blockedBy.push(blocker);
+		const blk = nodes.get(blocker);
+		if (blk && !blk.blocks.includes(dependent)) blk.blocks.push(dependent);
+	};
+
+	for (const issue of issues) {
+		for (const blocker of issue.blockedBy ?? []) addEdge(blocker, issue.id);
+		for (const dependent of issue.blocks ?? []) addEdge(issue.id, dependent);
+	}
+
+	return { nodes };
+}
+
+/**
+ * Load the task graph from a tracker.
+ *
+ * With `rootIds`, only those issues and everything reachable through their
+ * dependency edges are loaded (used for `ov plan --group`). Without it, all
+ * listed issues are loaded, plus any referenced blockers the list omitted
+ * (e.g. closed issues filtered out by the backend's default list).
+ * Issues that cannot be fetched are skipped.
+ */
+export async function loadTaskGraph(
+	tracker: TrackerClient,
+	rootIds?: readonly string[],
+): Promise<TaskGraph> {
+	const issues = new Map<string, TrackerIssue>();
+	const pending: string[] = [];
+
+	if (rootIds !== undefined) {
+		pending.push(...rootIds);
+	} else {
+		for (const issue of await tracker.list()) {
+			issues.set(issue.id, issue);
+		}
+		for (const issue of issues.values()) {
+			pending.push(...(issue.blockedBy ?? []), ...(issue.blocks ?? []));
+		}
+	}
+
+	const failed = new Set<string>();
+	while (pending.length > 0) {
+		const id = pending.pop();
+		if (id === undefined || issues.has(id) || failed.has(id)) continue;
+		try {
+			const issue = await tracker.show(id);
+			issues.set(issue.id, issue);
+			pending.push(...(issue.blockedBy ?? []), ...(issue.blocks ?? []));
+		} catch {
+			failed.add(id);
+		}
+	}
+
+	return buildTaskGraph([...issues.values()]);
+}
+
+/** Collect the task IDs whose branches the merge queue reports as merged. */
+export function collectMergedTaskIds(entries: readonly MergeStatusLike[]): Set<string> {
+	const merged = new Set<string>();
+	for (const entry of entries) {
+		if (entry.status === "merged") merged.add(entry.taskId);
+	}
+	return merged;
+}
+
+/**
+ * Resolve which tasks in the graph count as satisfied blockers.
+ *
+ * @param graph - The task graph
+ * @param mergedTaskIds - Tasks with a merged branch
+ * @param workedTaskIds - Tasks any agent session has ever been assigned
+ * @param queuedTaskIds - Tasks with any merge queue entry (merged or not)
+ */
+export function resolveSatisfiedTasks(
+	graph: TaskGraph,
+	mergedTaskIds: ReadonlySet<string>,
+	workedTaskIds: ReadonlySet<string>,
+	queuedTaskIds: ReadonlySet<string>,
+): Set<string> {
+	const satisfied = new Set<string>(mergedTaskIds);
+	for (const node of graph.nodes.values()) {
+		if (node.status === "closed" && !workedTaskIds.has(node.id) && !queuedTaskIds.has(node.id)) {
+			satisfied.add(node.id);
+		}
+	}
+	return satisfied;
+}
+
+/**
+ * Return the blockers of a task that are not yet satisfied, in declaration order.
+ * Returns an empty array for unknown tasks.
+ */
+export function getUnmetBlockers(
+	graph: TaskGraph,
+	taskId: string,
+	satisfied: ReadonlySet<string>,
+): string[] {
+	const node = graph.nodes.get(taskId);
+	if (!node) return [];
+	return node.blockedBy.filter((id) => !satisfied.has(id));
+}
+
+/**
+ * Find open tasks that become dispatchable now that `mergedTaskId` is merged.
+ *
+ * Only direct dependents of the merged task are candidates, and each must have
+ * every other blocker satisfied as well.
+ */
+export function findNewlyUnblocked(
+	graph: TaskGraph,
+	mergedTaskId: string,
+	satisfied: ReadonlySet<string>,
+): TaskNode[] {
+	const node = graph.nodes.get(mergedTaskId);
+	if (!node) return [];
+
+	const effective = new Set(satisfied);
+	effective.add(mergedTaskId);
+
+	const unblocked: TaskNode[] = [];
+	for (const dependentId of node.blocks) {
+		const dependent = graph.nodes.get(dependentId);
+		if (!dependent || dependent.status !== "open") continue;
+		if (getUnmetBlockers(graph, dependentId, effective).length === 0) {
+			unblocked.push(dependent);
+		}
+	}
+	return unblocked;
+}
+
+/**
+ * Plan dispatch over the unsatisfied part of the graph.
+ *
+ * Waves are computed with Kahn's algorithm: wave 0 holds unsatisfied tasks
+ * whose blockers are all satisfied, wave N holds tasks whose last unsatisfied
+ * blocker sits in wave N-1. Tasks waiting on a blocker missing from the graph
+ * are unresolved; any others left over form a cycle. The critical path is the
+ * longest blocker chain through the waves (ties broken by priority, then ID,
+ * so output is deterministic).
+ */
+export function planDispatch(graph: TaskGraph, satisfied: ReadonlySet<string>): DispatchPlan {
+	const pendingIds = [...graph.nodes.keys()].filter((id) => !satisfied.has(id)).sort();
+	const pendingSet = new Set(pendingIds);
+
+	// Unsatisfied blockers are either pending tasks or missing from the graph;
+	// missing ones are never decremented, so their dependents stay unscheduled.
+	const remaining = new Map<string, number>();
+	const missing = new Set<string>();
+	const waitingOnMissing: string[] = [];
+	for (const id of pendingIds) {
+		const unmet = getUnmetBlockers(graph, id, satisfied);
+		remaining.set(id, unmet.length);
+		const unknown = unmet.filter((b) => !graph.nodes.has(b));
+		for (const b of unknown) missing.add(b);
+		if (unknown.length > 0) waitingOnMissing.push(id);
+	}
+
+	const waves: string[][] = [];
+	const depth = new Map<string, number>();
+	const predecessor = new Map<string, string>();
+	let current = pendingIds.filter((id) => remaining.get(id) === 0);
+
+	while (current.length > 0) {
+		waves.push(current);
+		const next: string[] = [];
+		for (const id of current) {
+			const node = graph.nodes.get(id);
+			if (!node) continue;
+			const d = depth.get(id) ?? 0;
+			for (const dependentId of node.blocks) {
+				if (!pendingSet.has(dependentId)) continue;
+				if (d + 1 > (depth.get(dependentId) ?? 0)) {
+					depth.set(dependentId, d + 1);
+					predecessor.set(dependentId, id);
+				}
+				const left = (remaining.get(dependentId) ?? 0) - 1;
+				remaining.set(dependentId, left);
+				if (left === 0) next.push(dependentId);
+			}
+		}
+		current = next.sort();
+	}
+
+	const scheduled = new Set(waves.flat());
+	const unresolvedSet = new Set<string>();
+	const stack = [...waitingOnMissing];
+	while (stack.length > 0) {
+		const id = stack.pop();
+		if (id === undefined || unresolvedSet.has(id)) continue;
+		unresolvedSet.add(id);
+		for (const dependentId of graph.nodes.get(id)?.blocks ?? []) {
+			if (pendingSet.has(dependentId)) stack.push(dependentId);
+		}
+	}
+	const unresolved = pendingIds.filter((id) => unresolvedSet.has(id));
+	const cycle = pendingIds.filter((id) => !scheduled.has(id) && !unresolvedSet.has(id));
+
+	let tail: string | null = null;
+	let tailDepth = -1;
+	for (const id of scheduled) {
+		const d = depth.get(id) ?? 0;
+		if (d > tailDepth || (d === tailDepth && tail !== null && compareNodes(graph, id, tail) < 0)) {
+			tail = id;
+			tailDepth = d;
+		}
+	}
+
+	const criticalPath: string[] = [];
+	while (tail !== null) {
+		criticalPath.unshift(tail);
+		tail = predecessor.get(tail) ?? null;
+	}
+
+	const ready = (waves[0] ?? []).filter((id) => graph.nodes.get(id)?.status === "open");
+
+	return {
+		criticalPath,
+		waves,
+		ready,
+		cycle,
+		unresolved,
+		missingBlockers: [...missing].sort(),
+	};
+}
+
+/** Order by priority (lower number first), then ID. */
+function compareNodes(graph: TaskGraph, a: string, b: string): number {
+	const pa = graph.nodes.get(a)?.priority ?? Number.MAX_SAFE_INTEGER;
+	const pb = graph.nodes.get(b)?.priority ?? Number.MAX_SAFE_INTEGER;
+	if (pa !== pb) return pa - pb;
+	return a.localeCompare(b);
+}
@@ -29,6 +29,12 @@ describe("createTrackerClient", () => {
 		expect(client.sync).toBeTypeOf("function");
 	});
 
+	test("creates file tracker for files backend", () => {
+		const client = createTrackerClient("files", "/tmp");
+		expect(client.ready).toBeTypeOf("function");
+		expect(client.sync).toBeTypeOf("function");
+	});
+
 	test("throws for invalid backend", () => {
 		// @ts-expect-error - intentionally testing runtime guard
 		expect(() => createTrackerClient("invalid", "/tmp")).toThrow();
@@ -42,6 +48,9 @@ describe("resolveBackend", () => {
 	test("returns seeds for seeds backend", async () => {
 		expect(await resolveBackend("seeds", "/tmp")).toBe("seeds");
 	});
+	test("returns files for files backend", async () => {
+		expect(await resolveBackend("files", "/tmp")).toBe("files");
+	});
 	test("returns seeds for auto when no tracker dirs exist", async () => {
 		const tempDir = await mkdtemp(join(tmpdir(), "tracker-test-"));
 		try {
@@ -68,6 +77,15 @@ describe("resolveBackend", () => {
 			await rm(tempDir, { recursive: true });
 		}
 	});
+	test("returns files for auto when .overstory/issues/ exists", async () => {
+		const tempDir = await mkdtemp(join(tmpdir(), "tracker-test-"));
+		try {
+			await mkdir(join(tempDir, ".overstory", "issues"), { recursive: true });
+			expect(await resolveBackend("auto", tempDir)).toBe("files");
+		} finally {
+			await rm(tempDir, { recursive: true });
+		}
+	});
 });
 
 describe("trackerCliName", () => {
@@ -77,4 +95,7 @@ describe("trackerCliName", () => {
 	test("returns sd for seeds", () => {
 		expect(trackerCliName("seeds")).toBe("sd");
 	});
+	test("returns ov issue for files", () => {
+		expect(trackerCliName("files")).toBe("ov issue");
+	});
 });
@@ -6,14 +6,15 @@ import { stat } from "node:fs/promises";
 import { join } from "node:path";
 import type { TaskTrackerBackend } from "../types.ts";
 import { createBeadsTracker } from "./beads.ts";
+import { createFileTracker, FILE_ISSUES_DIR } from "./files.ts";
 import { createSeedsTracker } from "./seeds.ts";
 import type { TrackerBackend, TrackerClient } from "./types.ts";
 
 /**
  * Create a tracker client for the specified backend.
  *
- * @param backend - Which backend to use ("beads" or "seeds")
- * @param cwd - Working directory for CLI commands
+ * @param backend - Which backend to use ("beads", "seeds", or "files")
+ * @param cwd - Working directory for CLI commands (project root for "files")
  */
 export function createTrackerClient(backend: TrackerBackend, cwd: string): TrackerClient {
 	switch (backend) {
@@ -21,6 +22,8 @@ export function createTrackerClient(backend: TrackerBackend, cwd: string): Track
 			return createBeadsTracker(cwd);
 		case "seeds":
 			return createSeedsTracker(cwd);
+		case "files":
+			return createFileTracker(cwd);
 		default: {
 			const _exhaustive: never = backend;
 			throw new Error(`Unknown tracker backend: ${_exhaustive}`);
@@ -30,7 +33,7 @@ export function createTrackerClient(backend: TrackerBackend, cwd: string): Track
 
 /**
  * Resolve "auto" to a concrete backend by probing the filesystem.
- * Explicit "beads" or "seeds" values pass through unchanged.
+ * Explicit "beads", "seeds", or "files" values pass through unchanged.
  */
 export async function resolveBackend(
 	configBackend: TaskTrackerBackend,
@@ -38,7 +41,9 @@ export async function resolveBackend(
 ): Promise<TrackerBackend> {
 	if (configBackend === "beads") return "beads";
 	if (configBackend === "seeds") return "seeds";
-	// "auto" detection: check for .seeds/ directory first (newer tool), then .beads/
+	if (configBackend === "files") return "files";
+	// "auto" detection: check for .seeds/ directory first (newer tool), then .beads/,
+	// then .overstory/issues/ (file tracker, no CLI needed)
 	const dirExists = async (path: string): Promise<boolean> => {
 		try {
 			const s = await stat(path);
@@ -49,15 +54,24 @@ export async function resolveBackend(
 	};
 	if (await dirExists(join(cwd, ".seeds"))) return "seeds";
 	if (await dirExists(join(cwd, ".beads"))) return "beads";
+	if (await dirExists(join(cwd, FILE_ISSUES_DIR))) return "files";
 	// Default fallback — seeds is the preferred tracker
 	return "seeds";
 }
 
 /**
  * Return the CLI tool name for a resolved backend.
+ * The file backend has no external CLI; agents use `ov issue` instead.
  */
 export function trackerCliName(backend: TrackerBackend): string {
-	return backend === "seeds" ? "sd" : "bd";
+	switch (backend) {
+		case "seeds":
+			return "sd";
+		case "files":
+			return "ov issue";
+		default:
+			return "bd";
+	}
 }
 
 // Re-export types for convenience
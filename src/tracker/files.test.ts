@@ -0,0 +1,169 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdir, mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { AgentError } from "../errors.ts";
+import {
+	createFileTracker,
+	FILE_ISSUES_DIR,
+	parseMarkdownIssue,
+	parsePriority,
+	serializeMarkdownIssue,
+} from "./files.ts";
+
+describe("createFileTracker", () => {
+	let tempDir: string;
+	let issuesDir: string;
+
+	beforeEach(async () => {
+		tempDir = await mkdtemp(join(tmpdir(), "file-tracker-test-"));
+		issuesDir = join(tempDir, FILE_ISSUES_DIR);
+		await mkdir(issuesDir, { recursive: true });
+	});
+
+	afterEach(async () => {
+		await rm(tempDir, { recursive: true, force: true });
+	});
+
+	test("create writes a JSON issue that show and list return", async () => {
+		const tracker = createFileTracker(tempDir);
+		const id = await tracker.create("Add login", { type: "feature", priority: 1 });
+
+		expect(await Bun.file(join(issuesDir, `${id}.json`)).exists()).toBe(true);
+		const issue = await tracker.show(id);
+		expect(issue.title).toBe("Add login");
+		expect(issue.type).toBe("feature");
+		expect(issue.priority).toBe(1);
+		expect(issue.status).toBe("open");
+		expect((await tracker.list()).map((i) => i.id)).toEqual([id]);
+	});
+
+	test("ready returns open issues whose blockers are closed, across JSON and Markdown", async () => {
+		await Bun.write(
+			join(issuesDir, "schema.json"),
+			JSON.stringify({ id: "schema", title: "Schema", status: "open", priority: 1, type: "task" }),
+		);
+		await Bun.write(
+			join(issuesDir, "api.md"),
+			"---\nid: api\ntitle: API\nstatus: open\npriority: 2\nblockedBy: [schema]\n---\nBuild the API.\n",
+		);
+		const tracker = createFileTracker(tempDir);
+
+		expect((await tracker.ready()).map((i) => i.id)).toEqual(["schema"]);
+		expect((await tracker.show("schema")).blocks).toEqual(["api"]);
+
+		await tracker.close("schema", "done");
+		expect((await tracker.ready()).map((i) => i.id)).toEqual(["api"]);
+		expect((await tracker.show("api")).description).toBe("Build the API.");
+	});
+
+	test("close preserves the Markdown format and records the reason", async () => {
+		await Bun.write(join(issuesDir, "doc.md"), "---\nid: doc\ntitle: Docs\n---\nWrite docs.\n");
+		const tracker = createFileTracker(tempDir);
+
+		await tracker.close("doc", "shipped");
+
+		const content = await Bun.file(join(issuesDir, "doc.md")).text();
+		expect(content).toContain("status: closed");
+		expect(content).toContain("closeReason: shipped");
+		expect(content).toContain("Write docs.");
+		expect(await tracker.list()).toEqual([]);
+		expect((await tracker.list({ status: "closed" })).map((i) => i.id)).toEqual(["doc"]);
+	});
+
+	test("claim marks an issue in_progress and removes it from ready", async () => {
+		const tracker = createFileTracker(tempDir);
+		const id = await tracker.create("Task");
+
+		await tracker.claim(id);
+
+		expect((await tracker.show(id)).status).toBe("in_progress");
+		expect(await tracker.ready()).toEqual([]);
+	});
+
+	test("addDependency records a blocker and rejects unknown blockers", async () => {
+		const tracker = createFileTracker(tempDir);
+		const first = await tracker.create("First");
+		const second = await tracker.create("Second");
+
+		await tracker.addDependency(second, first);
+		expect((await tracker.show(second)).blockedBy).toEqual([first]);
+		expect((await tracker.ready()).map((i) => i.id)).toEqual([first]);
+
+		await expect(tracker.addDependency(second, "missing")).rejects.toThrow(AgentError);
+	});
+
+	test("setStatus reopens a closed issue", async () => {
+		const tracker = createFileTracker(tempDir);
+		const id = await tracker.create("Task");
+		await tracker.close(id);
+
+		await tracker.setStatus(id, "open");
+
+		expect((await tracker.ready()).map((i) => i.id)).toEqual([id]);
+	});
+
+	test("list sorts by priority and applies the limit", async () => {
+		const tracker = createFileTracker(tempDir);
+		await tracker.create("Low", { priority: 3 });
+		const high = await tracker.create("High", { priority: 0 });
+
+		const issues = await tracker.list({ limit: 1 });
+		expect(issues.map((i) => i.id)).toEqual([high]);
+	});
+
+	test("show throws AgentError for a missing issue", async () => {
+		const tracker = createFileTracker(tempDir);
+		await expect(tracker.show("nope")).rejects.toThrow(AgentError);
+	});
+
+	test("returns no issues when the issues directory does not exist", async () => {
+		await rm(issuesDir, { recursive: true });
+		const tracker = createFileTracker(tempDir);
+		expect(await tracker.ready()).toEqual([]);
+		expect(await tracker.list()).toEqual([]);
+	});
+});
+
+describe("parseMarkdownIssue", () => {
+	test("parses front matter lists and uses the body as the description", () => {
+		const issue = parseMarkdownIssue(
+			"---\ntitle: Fix bug\npriority: 0\nblocks: [a, b]\n---\n\nDetails here.\n",
+			"fallback",
+		);
+		expect(issue.id).toBe("fallback");
+		expect(issue.title).toBe("Fix bug");
+		expect(issue.priority).toBe(0);
+		expect(issue.status).toBe("open");
+		expect(issue.blocks).toEqual(["a", "b"]);
+		expect(issue.description).toBe("Details here.");
+	});
+
+	test("round-trips through serializeMarkdownIssue", () => {
+		const original = parseMarkdownIssue(
+			"---\nid: x\ntitle: X\nstatus: in_progress\npriority: 1\ntype: bug\nblockedBy: [y]\n---\nBody\n",
+			"x",
+		);
+		expect(parseMarkdownIssue(serializeMarkdownIssue(original), "other")).toEqual(original);
+	});
+
+	test("accepts P-prefixed priorities and rejects unparseable ones", () => {
+		expect(parseMarkdownIssue("---\ntitle: X\npriority: P1\n---\n", "x").priority).toBe(1);
+		expect(parseMarkdownIssue("---\ntitle: X\n---\n", "x").priority).toBe(2);
+		expect(() => parseMarkdownIssue("---\ntitle: X\npriority: high\n---\n", "x")).toThrow(
+			AgentError,
+		);
+	});
+});
+
+describe("parsePriority", () => {
+	test("accepts numbers and P-prefixed strings", () => {
+		expect(parsePriority(3)).toBe(3);
+		expect(parsePriority("1")).toBe(1);
+		expect(parsePriority("P0")).toBe(0);
+	});
+
+	test("throws AgentError for invalid input", () => {
+		expect(() => parsePriority("high")).toThrow(AgentError);
+	});
+});
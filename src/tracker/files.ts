@@ -0,0 +1,374 @@
+/**
+ * File tracker adapter.
+ *
+ * Implements the unified TrackerClient interface on top of plain issue files
+ * under `.overstory/issues/` — no external CLI required. Each issue is one file:
+ *
+ *   - `<id>.json` — a JSON object with the TrackerIssue fields
+ *   - `<id>.md`   — Markdown with a front-matter header (`key: value` lines,
+ *                   arrays as `[a, b]`) and the description as the body
+ *
+ * Dependency edges may be declared on either side (`blocks` on the blocker or
+ * `blockedBy` on the dependent); both directions are merged on read. An issue
+ * is ready when it is open and every blocker is closed.
+ */
+
+import { mkdir, readdir } from "node:fs/promises";
+import { join } from "node:path";
+import { AgentError } from "../errors.ts";
+import type { TrackerClient, TrackerIssue } from "./types.ts";
+
+/** Directory (relative to the project root) holding issue files. */
+export const FILE_ISSUES_DIR = join(".overstory", "issues");
+
+/** An issue as stored on disk, with bookkeeping fields beyond TrackerIssue. */
+interface StoredIssue extends TrackerIssue {
+	createdAt?: string;
+	updatedAt?: string;
+	closedAt?: string;
+	closeReason?: string;
+}
+
+/** A stored issue plus the file it was read from. */
+interface IssueFile {
+	issue: StoredIssue;
+	path: string;
+	format: "json" | "md";
+}
+
+/** Front-matter keys written for Markdown issues, in order. */
+const MD_KEYS = [
+	"id",
+	"title",
+	"status",
+	"priority",
+	"type",
+	"assignee",
+	"blocks",
+	"blockedBy",
+	"createdAt",
+	"updatedAt",
+	"closedAt",
+	"closeReason",
+] as const;
+
+/**
+ * Parse a front-matter scalar or `[a, b]` list value.
+ */
+function parseFrontMatterValue(raw: string): string | string[] {
+	const value = raw.trim();
+	if (value.startsWith("[") && value.endsWith("]")) {
+		return value
+			.slice(1, -1)
+			.split(",")
+			.map((v) => v.trim().replace(/^["']|["']$/g, ""))
+			.filter((v) => v.length > 0);
+	}
+	return value.replace(/^["']|["']$/g, "");
+}
+
+/**
+ * Parse a Markdown issue file: front matter between `---` lines, body as description.
+ */
+export function parseMarkdownIssue(content: string, fallbackId: string): StoredIssue {
+	const fields: Record<string, string | string[]> = {};
+	let body = content;
+
+	const match = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?([\s\S]*)$/.exec(content);
+	if (match) {
+		for (const line of (match[1] ?? "").split("\n")) {
+			const sep = line.indexOf(":");
+			if (sep === -1) continue;
+			const key = line.slice(0, sep).trim();
+			if (key.length === 0) continue;
+			fields[key] = parseFrontMatterValue(line.slice(sep + 1));
+		}
+		body = match[2] ?? "";
+	}
+
+	const str = (key: string): string | undefined => {
+		const v = fields[key];
+		return typeof v === "string" && v.length > 0 ? v : undefined;
+	};
+	const list = (key: string): string[] | undefined => {
+		const v = fields[key];
+		if (v === undefined) return undefined;
+		return Array.isArray(v) ? v : v.length > 0 ? [v] : [];
+	};
+
+	const description = body.trim();
+	return {
+		id: str("id") ?? fallbackId,
+		title: str("title") ?? fallbackId,
+		status: str("status") ?? "open",
+		priority: parsePriority(str("priority") ?? 2),
+		type: str("type") ?? "task",
+		assignee: str("assignee"),
+		description: description.length > 0 ? description : undefined,
+		blocks: list("blocks"),
+		blockedBy: list("blockedBy"),
+		createdAt: str("createdAt"),
+		updatedAt: str("updatedAt"),
+		closedAt: str("closedAt"),
+		closeReason: str("closeReason"),
+	};
+}
+
+/**
+ * Serialize an issue as Markdown with a front-matter header.
+ */
+export function serializeMarkdownIssue(issue: StoredIssue): string {
+	const lines = ["---"];
+	for (const key of MD_KEYS) {
+		const value = issue[key];
+		if (value === undefined) continue;
+		lines.push(`${key}: ${Array.isArray(value) ? `[${value.join(", ")}]` : String(value)}`);
+	}
+	lines.push("---");
+	const body = issue.description ? `\n${issue.description}\n` : "";
+	return `${lines.join("\n")}\n${body}`;
+}
+
+/**
+ * Normalize a parsed JSON issue, filling defaults for missing fields.
+ */
+function normalizeJsonIssue(raw: Partial<StoredIssue>, fallbackId: string): StoredIssue {
+	return {
+		...raw,
+		id: raw.id ?? fallbackId,
+		title: raw.title ?? fallbackId,
+		status: raw.status ?? "open",
+		priority: raw.priority ?? 2,
+		type: raw.type ?? "task",
+	};
+}
+
+/** Strip bookkeeping fields and return the public TrackerIssue shape. */
+function toTrackerIssue(stored: StoredIssue): TrackerIssue {
+	return {
+		id: stored.id,
+		title: stored.title,
+		status: stored.status,
+		priority: stored.priority,
+		type: stored.type,
+		assignee: stored.assignee,
+		description: stored.description,
+		blocks: stored.blocks ?? [],
+		blockedBy: stored.blockedBy ?? [],
+	};
+}
+
+/** Order by priority (lower number first), then ID. */
+function compareIssues(a: TrackerIssue, b: TrackerIssue): number {
+	if (a.priority !== b.priority) return a.priority - b.priority;
+	return a.id.localeCompare(b.id);
+}
+
+/**
+ * Parse a priority given as a number or `P<n>` (e.g. "P1").
+ */
+export function parsePriority(raw: string | number): number {
+	if (typeof raw === "number") return raw;
+	const parsed = Number.parseInt(raw.replace(/^p/i, ""), 10);
+	if (Number.isNaN(parsed)) {
+		throw new AgentError(`Invalid priority "${raw}" (expected a number or P0-P4)`);
+	}
+	return parsed;
+}
+
+/** File-backed tracker client with extra operations used by `ov issue`. */
+export interface FileTrackerClient extends TrackerClient {
+	/** Set an issue's status (e.g. reopen, or mark in_progress). */
+	setStatus(id: string, status: string): Promise<void>;
+
+	/** Record that `id` is blocked by `blockerId`. */
+	addDependency(id: string, blockerId: string): Promise<void>;
+}
+
+/**
+ * Create a TrackerClient backed by issue files under `.overstory/issues/`.
+ *
+ * @param cwd - Project root containing the `.overstory/` directory
+ */
+export function createFileTracker(cwd: string): FileTrackerClient {
+	const issuesDir = join(cwd, FILE_ISSUES_DIR);
+
+	async function readIssueFile(fileName: string): Promise<IssueFile | null> {
+		const path = join(issuesDir, fileName);
+		if (fileName.endsWith(".json")) {
+			const stem = fileName.slice(0, -".json".length);
+			try {
+				const raw = JSON.parse(await Bun.file(path).text()) as Partial<StoredIssue>;
+				return { issue: normalizeJsonIssue(raw, stem), path, format: "json" };
+			} catch {
+				throw new AgentError(`Failed to parse issue file ${join(FILE_ISSUES_DIR, fileName)}`);
+			}
+		}
+		if (fileName.endsWith(".md")) {
+			const stem = fileName.slice(0, -".md".length);
+			const content = await Bun.file(path).text();
+			return { issue: parseMarkdownIssue(content, stem), path, format: "md" };
+		}
+		return null;
+	}
+
+	/** Load every issue file, with dependency edges merged across files. */
+	async function loadAll(): Promise<Map<string, IssueFile>> {
+		let fileNames: string[];
+		try {
+			fileNames = await readdir(issuesDir);
+		} catch {
+			return new Map();
+		}
+
+		const files = new Map<string, IssueFile>();
+		for (const fileName of fileNames.sort()) {
+			const file = await readIssueFile(fileName);
+			if (file) files.set(file.issue.id, file);
+		}
+		return files;
+	}
+
+	/** Public view of all issues, with `blocks`/`blockedBy` normalized in both directions. */
+	async function loadIssues(): Promise<Map<string, TrackerIssue>> {
+		const files = await loadAll();
+		const issues = new Map<string, TrackerIssue>();
+		for (const [id, file] of files) {
+			issues.set(id, toTrackerIssue(file.issue));
+		}
+		for (const issue of issues.values()) {
+			for (const blockerId of issue.blockedBy ?? []) {
+				const blocker = issues.get(blockerId);
+				if (blocker && !blocker.blocks?.includes(issue.id)) blocker.blocks?.push(issue.id);
+			}
+			for (const dependentId of issue.blocks ?? []) {
+				const dependent = issues.get(dependentId);
+				if (dependent && !dependent.blockedBy?.includes(issue.id)) {
+					dependent.blockedBy?.push(issue.id);
+				}
+			}
+		}
+		return issues;
+	}
+
+	async function writeIssueFile(file: IssueFile): Promise<void> {
+		const content =
+			file.format === "md"
+				? serializeMarkdownIssue(file.issue)
+				: `${JSON.stringify(file.issue, null, "\t")}\n`;
+		await Bun.write(file.path, content);
+	}
+
+	async function update(
+		id: string,
+		context: string,
+		mutate: (issue: StoredIssue) => void,
+	): Promise<void> {
+		const files = await loadAll();
+		const file = files.get(id);
+		if (!file) {
+			throw new AgentError(`Issue ${context} failed: "${id}" not found in ${FILE_ISSUES_DIR}`);
+		}
+		mutate(file.issue);
+		file.issue.updatedAt = new Date().toISOString();
+		await writeIssueFile(file);
+	}
+
+	async function generateId(): Promise<string> {
+		const existing = await loadAll();
+		for (;;) {
+			const id = `issue-${crypto.randomUUID().slice(0, 4)}`;
+			if (!existing.has(id)) return id;
+		}
+	}
+
+	return {
+		async ready() {
+			const issues = await loadIssues();
+			return [...issues.values()]
+				.filter(
+					(issue) =>
+						issue.status === "open" &&
+						(issue.blockedBy ?? []).every((b) => issues.get(b)?.status === "closed"),
+				)
+				.sort(compareIssues);
+		},
+
+		async show(id) {
+			const issue = (await loadIssues()).get(id);
+			if (!issue) {
+				throw new AgentError(`Issue "${id}" not found in ${FILE_ISSUES_DIR}`);
+			}
+			return issue;
+		},
+
+		async create(title, options) {
+			await mkdir(issuesDir, { recursive: true });
+			const id = await generateId();
+			const now = new Date().toISOString();
+			const issue: StoredIssue = {
+				id,
+				title,
+				status: "open",
+				priority: options?.priority ?? 2,
+				type: options?.type ?? "task",
+				description: options?.description,
+				blocks: [],
+				blockedBy: [],
+				createdAt: now,
+				updatedAt: now,
+			};
+			await writeIssueFile({ issue, path: join(issuesDir, `${id}.json`), format: "json" });
+			return id;
+		},
+
+		async claim(id) {
+			await update(id, "claim", (issue) => {
+				issue.status = "in_progress";
+			});
+		},
+
+		async close(id, reason) {
+			await update(id, "close", (issue) => {
+				issue.status = "closed";
+				issue.closedAt = new Date().toISOString();
+				if (reason) issue.closeReason = reason;
+			});
+		},
+
+		async list(options) {
+			const issues = [...(await loadIssues()).values()]
+				.filter((issue) =>
+					options?.status ? issue.status === options.status : issue.status !== "closed",
+				)
+				.sort(compareIssues);
+			return options?.limit !== undefined ? issues.slice(0, options.limit) : issues;
+		},
+
+		async sync() {
+			// Issue files live in the repo and travel with git — nothing to sync.
+		},
+
+		async setStatus(id, status) {
+			await update(id, "update", (issue) => {
+				issue.status = status;
+				if (status !== "closed") {
+					issue.closedAt = undefined;
+					issue.closeReason = undefined;
+				}
+			});
+		},
+
+		async addDependency(id, blockerId) {
+			const issues = await loadIssues();
+			if (!issues.has(blockerId)) {
+				throw new AgentError(`Issue dep failed: blocker "${blockerId}" not found`);
+			}
+			await update(id, "dep", (issue) => {
+				const blockedBy = issue.blockedBy ?? [];
+				if (!blockedBy.includes(blockerId)) blockedBy.push(blockerId);
+				issue.blockedBy = blockedBy;
+			});
+		},
+	};
+}
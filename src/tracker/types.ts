@@ -1,5 +1,5 @@
 /**
- * Unified tracker types — shared across beads and seeds backends.
+ * Unified tracker types — shared across beads, seeds, and file backends.
  * This module is self-contained and does NOT import from src/types.ts.
  */
 
@@ -49,4 +49,4 @@ export interface TrackerClient {
 }
 
 /** Which tracker backend to use. */
-export type TrackerBackend = "beads" | "seeds";
+export type TrackerBackend = "beads" | "seeds" | "files";
@@ -9,6 +9,12 @@ export type ModelAlias = "sonnet" | "opus" | "haiku";
  */
 export type ModelRef = ModelAlias | (string & {});
 
+/**
+ * A single model or an ordered fallback chain. The first entry is the primary;
+ * later entries are used when the provider of the current one fails.
+ */
+export type ModelChain = ModelRef | ModelRef[];
+
 /** Configuration for a model provider. */
 export interface ProviderConfig {
 	type: "native" | "gateway";
@@ -30,10 +36,78 @@ export interface PiRuntimeConfig {
 	modelMap: Record<string, string>;
 }
 
+/** Guard mechanisms a declarative runtime can borrow from a built-in adapter. */
+export type RuntimeGuardMechanism = "claude-hooks" | "pi-extension" | "none";
+
+/** All guard mechanisms as a runtime array for validation. */
+export const RUNTIME_GUARD_MECHANISMS: readonly RuntimeGuardMechanism[] = [
+	"claude-hooks",
+	"pi-extension",
+	"none",
+];
+
+/** Transcript formats a declarative runtime can parse. */
+export type RuntimeTranscriptFormat = "claude" | "codex" | "pi" | "jsonl" | "none";
+
+/** All transcript formats as a runtime array for validation. */
+export const RUNTIME_TRANSCRIPT_FORMATS: readonly RuntimeTranscriptFormat[] = [
+	"claude",
+	"codex",
+	"pi",
+	"jsonl",
+	"none",
+];
+
+/**
+ * A runtime adapter described in `.overstory/runtimes/<name>.yaml` instead of
+ * TypeScript. Templates substitute `{model}` and `{prompt}`.
+ */
+export interface RuntimeAdapterSpec {
+	/** Relative path to the instruction file within a worktree (e.g. "AGENTS.md"). */
+	instructionPath: string;
+	/** Shell command template for an interactive agent in a tmux pane. */
+	spawn: string;
+	/** Argv template for one-shot calls; one element must be exactly "{prompt}". */
+	print: string[];
+	/** Args appended to `print` when a model is given (e.g. ["--model", "{model}"]). */
+	printModelArgs?: string[];
+	/** Pane readiness detection. Omit for runtimes that are ready immediately. */
+	ready?: {
+		/** Regexes that must all match the pane before the beacon is sent. */
+		patterns: string[];
+		/** Startup dialogs to dismiss: when `pattern` matches, send `action` (a tmux key). */
+		dialogs?: Array<{ pattern: string; action: string }>;
+	};
+	/** How to read token usage from a session transcript (default: none). */
+	transcript?: {
+		format: RuntimeTranscriptFormat;
+		/** For "jsonl": dotted path to input tokens, summed across lines. */
+		inputTokens?: string;
+		/** For "jsonl": dotted path to output tokens, summed across lines. */
+		outputTokens?: string;
+		/** For "jsonl": dotted path to the model name (last value wins). */
+		model?: string;
+	};
+	/** Extra environment variables (templates), merged over the provider's env. */
+	env?: Record<string, string>;
+	/** Guard mechanism deployed alongside the instruction file (default: none). */
+	guards?: RuntimeGuardMechanism;
+	/** Resend the beacon if the pane still looks idle after sending (default: false). */
+	beaconVerification?: boolean;
+}
+
 // === Task Tracker ===
 
 /** Backend for the task tracker. Defined here for use in OverstoryConfig. */
-export type TaskTrackerBackend = "auto" | "seeds" | "beads";
+export type TaskTrackerBackend = "auto" | "seeds" | "beads" | "files";
+
+/** All task tracker backend values as a runtime array for validation. */
+export const TASK_TRACKER_BACKENDS: readonly TaskTrackerBackend[] = [
+	"auto",
+	"seeds",
+	"beads",
+	"files",
+];
 
 // === Project Configuration ===
 
@@ -47,6 +121,207 @@ export interface QualityGate {
 	description: string;
 }
 
+/** Long-context tier: replaces the base prices once a turn's prompt exceeds thresholdTokens. */
+export interface LongContextPricing {
+	thresholdTokens: number;
+	inputPerMTok: number;
+	outputPerMTok: number;
+	cacheReadPerMTok?: number;
+	cacheCreationPerMTok?: number;
+}
+
+/** Configured per-million-token USD prices for one model. Cache prices default to the input price. */
+export interface PricingEntry {
+	inputPerMTok: number;
+	outputPerMTok: number;
+	cacheReadPerMTok?: number;
+	cacheCreationPerMTok?: number;
+	longContext?: LongContextPricing;
+}
+
+/** Model pricing overrides, from `pricing` in config.yaml and/or `.overstory/pricing.yaml`. */
+export interface PricingConfig {
+	/** Prices by exact model ID as reported in transcripts (e.g. "claude-sonnet-4-6"). */
+	models?: Record<string, PricingEntry>;
+	/**
+	 * Prices by provider name (a key of `providers`), then model ID within that
+	 * provider. A `default` entry prices any unlisted model from that provider.
+	 */
+	providers?: Record<string, Record<string, PricingEntry>>;
+	/**
+	 * Models with no configured price: "builtin" uses the built-in substring
+	 * table (default), "none" leaves the cost unknown.
+	 */
+	fallback?: "builtin" | "none";
+}
+
+/** Automatic recovery of agents terminated by the watchdog daemon. */
+export interface RecoveryConfig {
+	/** Re-sling terminated agents into their existing worktree and branch. */
+	enabled: boolean;
+	/** Recovery attempts allowed per task before escalating to the parent (default: 2). */
+	maxAttemptsPerTask?: number;
+}
+
+/** Watchdog follow-up on dispatch/assign mail the recipient never acknowledges. */
+export interface MailAckConfig {
+	/** Re-deliver unacknowledged dispatch/assign mail, then escalate to the sender. */
+	enabled: boolean;
+	/** How long a recipient has to acknowledge before re-delivery (default: 300000). */
+	timeoutMs?: number;
+	/** Re-deliveries before escalating to the sender (default: 2). */
+	maxRedeliveries?: number;
+}
+
+/** A spend ceiling in USD. Crossing `softUsd` warns; crossing `hardUsd` stops agents. */
+export interface BudgetLimit {
+	softUsd?: number;
+	hardUsd?: number;
+}
+
+/** Spend ceilings evaluated by the watchdog daemon on every tick. */
+export interface BudgetConfig {
+	/** Ceiling for each individual agent session. */
+	perAgent?: BudgetLimit;
+	/** Per-agent ceilings by capability (override perAgent for that capability). */
+	perCapability?: Record<string, BudgetLimit>;
+	/** Ceiling for the total spend of the current run. */
+	perRun?: BudgetLimit;
+	/** Ceiling for the total spend of sessions started today (UTC). */
+	perDay?: BudgetLimit;
+}
+
+/**
+ * Filesystem sandbox mode for an agent process:
+ * - "worktree": the worktree and .git are writable, everything else read-only
+ * - "read-only": the worktree is read-only too (scouts, reviewers)
+ */
+export type SandboxMode = "worktree" | "read-only";
+
+/** Sandbox settings for one capability. */
+export interface SandboxProfile {
+	mode: SandboxMode;
+	/** Allow network access (default: true). false runs the agent in a private network namespace. */
+	network?: boolean;
+}
+
+/** Optional bubblewrap sandbox for agents spawned by `ov sling`. */
+export interface SandboxConfig {
+	/** Sandbox wrapper binary (default: "bwrap"). */
+	command?: string;
+	/** Paths kept writable (`~` = home directory). Default: the runtimes' state directories. */
+	writablePaths?: string[];
+	/** Sandbox profile per capability. Capabilities not listed run unsandboxed. */
+	capabilities?: Record<string, SandboxProfile>;
+}
+
+/**
+ * Network egress mode for an agent's HTTP(S) traffic:
+ * - "none": every host is denied
+ * - "provider-only": only the configured model providers' API hosts
+ * - "allowlist": provider hosts plus the profile's `hosts`
+ */
+export type EgressMode = "none" | "provider-only" | "allowlist";
+
+/** Egress policy for one capability. */
+export interface EgressProfile {
+	mode: EgressMode;
+	/** Allowed hosts for "allowlist" mode; "*.example.com" matches subdomains. */
+	hosts?: string[];
+}
+
+/** Egress proxy for agents spawned by `ov sling`. */
+export interface EgressConfig {
+	/** Egress profile per capability. Capabilities not listed are not proxied. */
+	capabilities?: Record<string, EgressProfile>;
+}
+
+/**
+ * Payload field type in a mail protocol schema: `string`, `number`, `integer`,
+ * `boolean`, a `|`-separated list of allowed values (`low|high`), or one of
+ * these with a `[]` suffix (list). Add `|null` for a nullable field and a
+ * trailing `?` for an optional one: `string[]|null?`.
+ */
+export type PayloadFieldSpec = string;
+
+/**
+ * Mail bridge (`ov mail bridge`): forwards selected mail to a webhook and turns
+ * human replies posted back to it into `reply` messages. A message is
+ * forwarded when it matches every filter that is set.
+ */
+export interface MailBridgeConfig {
+	/** Webhook URL that receives each forwarded message as a JSON POST. */
+	webhookUrl: string;
+	/** Forward only these message types (omit for any type). */
+	types?: string[];
+	/** Forward only these priorities (omit for any priority). */
+	priorities?: Array<"low" | "normal" | "high" | "urgent">;
+	/** Forward only mail addressed to these agents (omit for any recipient). */
+	recipients?: string[];
+	/**
+	 * Environment variable holding the shared secret. Outbound posts are signed
+	 * with it and inbound replies must present it. Without it, replies are disabled.
+	 */
+	secretEnv?: string;
+	/** Port of the inbound reply endpoint on 127.0.0.1 (default: 8425, 0 picks a free port). */
+	replyPort?: number;
+	/** How often to look for new mail to forward (default: 2000). */
+	pollIntervalMs?: number;
+}
+
+/** Mail settings: custom protocol types, named groups and the external bridge. */
+export interface MailConfig {
+	/**
+	 * Protocol type name → schema version ("v1", "v2", ...) → field name → field type.
+	 * The highest version is used for new messages; stored messages are
+	 * validated against the version they were sent with.
+	 */
+	protocols?: Record<string, Record<string, Record<string, PayloadFieldSpec>>>;
+	/**
+	 * Named broadcast groups, addressed as `@<name>`. Members are agent names or
+	 * other group addresses (e.g. "@children:lead-1", "@group:group-abc").
+	 */
+	groups?: Record<string, string[]>;
+	bridge?: MailBridgeConfig;
+}
+
+/** Bash command matchers in a guard policy. */
+export interface BashCommandRules {
+	/** Argv prefixes: "cargo check" matches "cargo check --all" but not "cargo checkout". */
+	prefixes?: string[];
+	/** Regexes (grep -E syntax; \b, \s and \w are supported) matched anywhere in the command. */
+	patterns?: string[];
+}
+
+/**
+ * Allow/deny rules for one capability (or for all of them, under `defaults`).
+ * Deny rules win over allow rules.
+ */
+export interface GuardPolicyRules {
+	/** Tool names. `allow` lifts a built-in block (e.g. Write for a reviewer). */
+	tools?: { allow?: string[]; deny?: string[] };
+	/** `allow` exempts commands from the read-only file-modification block. */
+	bash?: { allow?: BashCommandRules; deny?: BashCommandRules };
+	/**
+	 * Path globs for writes; relative globs are resolved against the worktree
+	 * and `*` also matches `/`. `allow` permits writes outside the worktree.
+	 */
+	paths?: { allow?: string[]; deny?: string[] };
+	/** Network command names (e.g. curl, wget). `allow` lifts a `defaults` deny. */
+	network?: { allow?: string[]; deny?: string[] };
+}
+
+/**
+ * Declarative guard policy (`.overstory/policy.yaml` or `policy:` in config.yaml),
+ * layered over the built-in guard rules in src/agents/guard-rules.ts.
+ */
+export interface GuardPolicy {
+	/** Rules applied to every capability. */
+	defaults?: GuardPolicyRules;
+	/** Rules per capability, merged over `defaults`. */
+	capabilities?: Record<string, GuardPolicyRules>;
+}
+
 export interface OverstoryConfig {
 	project: {
 		name: string;
@@ -67,7 +342,7 @@ export interface OverstoryConfig {
 		baseDir: string; // Where worktrees live
 	};
 	taskTracker: {
-		backend: TaskTrackerBackend; // "auto" | "seeds" | "beads"
+		backend: TaskTrackerBackend; // "auto" | "seeds" | "beads" | "files"
 		enabled: boolean;
 	};
 	mulch: {
@@ -78,6 +353,10 @@ export interface OverstoryConfig {
 	merge: {
 		aiResolveEnabled: boolean;
 		reimagineEnabled: boolean;
+		/** Run project.qualityGates against the merged tree and roll back on failure (default: false). */
+		qualityGatesEnabled?: boolean;
+		/** Kill a quality gate that runs longer than this and count it as failed (default: 600000). */
+		qualityGateTimeoutMs?: number;
 	};
 	providers: Record<string, ProviderConfig>;
 	watchdog: {
@@ -88,8 +367,24 @@ export interface OverstoryConfig {
 		staleThresholdMs: number; // When to consider agent stale
 		zombieThresholdMs: number; // When to kill
 		nudgeIntervalMs: number; // Time between progressive nudge stages (default 60_000)
+		/** Retry-with-handoff for agents the watchdog terminates (omit to disable). */
+		recovery?: RecoveryConfig;
+		/** Re-delivery and escalation of unacknowledged dispatch/assign mail (omit to disable). */
+		mailAcks?: MailAckConfig;
 	};
-	models: Partial<Record<string, ModelRef>>;
+	/** Spend ceilings enforced by the watchdog daemon (omit to disable). */
+	budget?: BudgetConfig;
+	/** Model pricing overrides for cost estimation (omit to use built-in prices). */
+	pricing?: PricingConfig;
+	/** Guard policy layered over the built-in agent guards (omit for built-ins only). */
+	policy?: GuardPolicy;
+	/** Filesystem sandbox for spawned agents (omit to run all agents unsandboxed). */
+	sandbox?: SandboxConfig;
+	/** Egress proxy for spawned agents (omit to leave all agents' network unrestricted). */
+	egress?: EgressConfig;
+	/** Custom mail protocol types, named groups and the mail bridge (all optional). */
+	mail?: MailConfig;
+	models: Partial<Record<string, ModelChain>>;
 	logging: {
 		verbose: boolean;
 		redactSecrets: boolean;
@@ -105,6 +400,21 @@ export interface OverstoryConfig {
 		printCommand?: string;
 		/** Pi runtime configuration for model alias expansion. */
 		pi?: PiRuntimeConfig;
+		/**
+		 * Declarative runtime adapters keyed by runtime name, loaded from
+		 * `.overstory/runtimes/*.yaml`. Built-in runtime names take precedence.
+		 */
+		adapters?: Record<string, RuntimeAdapterSpec>;
+		/**
+		 * Runtime per capability (e.g. { scout: "codex", builder: "claude" }).
+		 * Overrides the manifest's per-agent `runtime`; `--runtime` overrides both.
+		 */
+		capabilities?: Record<string, string>;
+		/**
+		 * Spawn agents headless by default (no tmux; overstory owns the process
+		 * over RPC). Requires a runtime that implements connect(). Default: false.
+		 */
+		headless?: boolean;
 	};
 }
 
@@ -118,7 +428,8 @@ export interface AgentManifest {
 
 export interface AgentDefinition {
 	file: string; // Path to base agent definition (.md)
-	model: ModelRef;
+	model: ModelChain; // Model, or ordered fallback chain on provider errors
+	runtime?: string; // Runtime adapter name (overridden by config.runtime.capabilities)
 	tools: string[]; // Allowed tools
 	capabilities: string[]; // What this agent can do
 	canSpawn: boolean; // Can this agent spawn sub-workers?
@@ -162,6 +473,8 @@ export interface AgentSession {
 	escalationLevel: number; // Progressive nudge stage: 0=warn, 1=nudge, 2=escalate, 3=terminate
 	stalledSince: string | null; // ISO timestamp when agent first entered stalled state
 	transcriptPath: string | null; // Runtime-provided transcript JSONL path (decoupled from ~/.claude/)
+	rpcEndpoint: string | null; // Headless sessions: agent host socket (tmuxSession is then "")
+	runtime: string | null; // Runtime adapter the session ran on (null for sessions recorded before it was tracked)
 }
 
 // === Agent Identity ===
@@ -224,10 +537,35 @@ export interface MailMessage {
 	type: MailMessageType;
 	threadId: string | null; // Conversation threading
 	payload: string | null; // JSON-encoded structured data for protocol messages
-	read: boolean;
+	payloadVersion: number | null; // Schema version the payload was validated against (null = unvalidated or legacy)
+	read: boolean; // Inbox flag: set once delivered (hook injection, check) or explicitly read
 	createdAt: string; // ISO timestamp
+	// Delivery receipts (ISO timestamps, null until reached). See mail/receipts.ts.
+	deliveredAt: string | null; // Injected into or fetched by the recipient
+	readAt: string | null; // Explicitly read (ov mail read)
+	ackedAt: string | null; // Recipient acknowledged (ov mail ack)
+	completedAt: string | null; // Recipient finished the requested work (ov mail ack --complete)
+	redeliveries: number; // Times the watchdog re-delivered an unacknowledged message
+	redeliveredAt: string | null; // Last watchdog re-delivery
+	escalatedAt: string | null; // Watchdog escalated the unacknowledged message to its sender
 }
 
+/** Receipt fields maintained by the store, never supplied on insert. */
+export type MailReceiptField =
+	| "deliveredAt"
+	| "readAt"
+	| "ackedAt"
+	| "completedAt"
+	| "redeliveries"
+	| "redeliveredAt"
+	| "escalatedAt";
+
+/**
+ * How far a message has progressed, in order. "sent" means no receipt yet;
+ * each later state implies the earlier ones.
+ */
+export type MailDeliveryState = "sent" | "delivered" | "read" | "acked" | "completed";
+
 // === Mail Protocol Payloads ===
 
 /** Worker signals task completion to supervisor. */
@@ -350,6 +688,8 @@ export interface MergeEntry {
 	enqueuedAt: string;
 	status: "pending" | "merging" | "merged" | "conflict" | "failed";
 	resolvedTier: ResolutionTier | null;
+	/** Why the last merge attempt failed (quality gate output, conflicts, secret findings). */
+	failureReason: string | null;
 }
 
 export interface MergeResult {
@@ -358,6 +698,18 @@ export interface MergeResult {
 	tier: ResolutionTier;
 	conflictFiles: string[];
 	errorMessage: string | null;
+	/** Post-merge quality gate outcomes (present only when gates ran). */
+	qualityGates?: QualityGateResult[];
+}
+
+/** Outcome of running a single quality gate against the merged tree. */
+export interface QualityGateResult {
+	name: string;
+	command: string;
+	passed: boolean;
+	exitCode: number;
+	/** Combined stdout/stderr, truncated to the tail. */
+	output: string;
 }
 
 /** Parsed conflict pattern from a single mulch record. */
@@ -394,6 +746,56 @@ export interface HealthCheck {
 	reconciliationNote: string | null;
 }
 
+/** What the daemon should do with a stalled agent, as recommended by Tier 1 triage. */
+export type TriageAction = "nudge" | "reassign" | "split" | "escalate" | "terminate" | "extend";
+
+/** All triage actions as a runtime array for verdict validation. */
+export const TRIAGE_ACTIONS: readonly TriageAction[] = [
+	"nudge",
+	"reassign",
+	"split",
+	"escalate",
+	"terminate",
+	"extend",
+] as const;
+
+/** Why a stalled agent is stuck, as classified by Tier 1 triage. */
+export type TriageRootCause =
+	| "test_failure"
+	| "build_error"
+	| "waiting_for_input"
+	| "blocked_dependency"
+	| "loop"
+	| "task_too_large"
+	| "environment"
+	| "long_running"
+	| "unknown";
+
+/** All triage root causes as a runtime array for verdict validation. */
+export const TRIAGE_ROOT_CAUSES: readonly TriageRootCause[] = [
+	"test_failure",
+	"build_error",
+	"waiting_for_input",
+	"blocked_dependency",
+	"loop",
+	"task_too_large",
+	"environment",
+	"long_running",
+	"unknown",
+] as const;
+
+/** Structured Tier 1 triage result (validated from the model's JSON response). */
+export interface TriageVerdict {
+	action: TriageAction;
+	rootCause: TriageRootCause;
+	/** 0-1. Low-confidence terminate/reassign verdicts are escalated instead. */
+	confidence: number;
+	/** Guidance to send the agent (used by "nudge" and "split"). */
+	nudgeMessage: string | null;
+	/** One-sentence explanation, included in mail and events. */
+	reasoning: string;
+}
+
 // === Logging ===
 
 export interface LogEvent {
@@ -423,6 +825,7 @@ export interface SessionMetrics {
 	estimatedCostUsd: number | null;
 	modelUsed: string | null;
 	runId: string | null;
+	runtime: string | null; // Runtime adapter the session ran on
 }
 
 /** A point-in-time token usage snapshot for a running agent session. */
@@ -469,6 +872,8 @@ export type EventType =
 	| "mail_received"
 	| "spawn"
 	| "error"
+	| "guard_decision"
+	| "egress_denied"
 	| "custom";
 
 /** Severity levels for events. */
@@ -526,6 +931,8 @@ export interface EventStore {
 	getByRun(runId: string, opts?: EventQueryOptions): StoredEvent[];
 	/** Get error-level events. */
 	getErrors(opts?: EventQueryOptions): StoredEvent[];
+	/** Get events of one type (oldest first). */
+	getByType(eventType: EventType, opts?: EventQueryOptions): StoredEvent[];
 	/** Get a timeline of events with required options. */
 	getTimeline(opts: EventQueryOptions & { since: string }): StoredEvent[];
 	/** Get aggregated tool usage statistics. */
@@ -0,0 +1,72 @@
+import { describe, expect, test } from "bun:test";
+import type { AgentSession, MailMessage } from "../types.ts";
+import { followUpTaskId, planAckFollowUps } from "./acks.ts";
+
+const POLICY = { timeoutMs: 60_000, maxRedeliveries: 1 };
+
+function makeMessage(overrides: Partial<MailMessage> = {}): MailMessage {
+	return {
+		id: "msg-1",
+		from: "lead-1",
+		to: "builder-1",
+		subject: "Build task",
+		body: "Spec attached",
+		priority: "normal",
+		type: "dispatch",
+		threadId: null,
+		payload: null,
+		payloadVersion: null,
+		read: true,
+		createdAt: "2026-01-01T00:00:00.000Z",
+		deliveredAt: null,
+		readAt: null,
+		ackedAt: null,
+		completedAt: null,
+		redeliveries: 0,
+		redeliveredAt: null,
+		escalatedAt: null,
+		...overrides,
+	};
+}
+
+function session(agentName: string, state: AgentSession["state"]): AgentSession {
+	return { agentName, state } as AgentSession;
+}
+
+describe("planAckFollowUps", () => {
+	test("re-delivers to running recipients until the re-deliveries run out", () => {
+		const sessions = [session("builder-1", "working")];
+		expect(planAckFollowUps([makeMessage()], sessions, POLICY)).toEqual([
+			{ action: "redeliver", message: makeMessage() },
+		]);
+		const exhausted = makeMessage({ redeliveries: 1 });
+		expect(planAckFollowUps([exhausted], sessions, POLICY)).toEqual([
+			{
+				action: "escalate",
+				message: exhausted,
+				reason: "still unacknowledged after re-delivering 1 time",
+			},
+		]);
+	});
+
+	test("escalates for dead or unknown recipients and skips completed ones", () => {
+		const followUps = planAckFollowUps(
+			[
+				makeMessage({ id: "a", to: "zombie-1" }),
+				makeMessage({ id: "b", to: "ghost" }),
+				makeMessage({ id: "c", to: "done-1" }),
+			],
+			[session("zombie-1", "zombie"), session("done-1", "completed")],
+			POLICY,
+		);
+		expect(followUps.map((f) => [f.message.id, f.action])).toEqual([
+			["a", "escalate"],
+			["b", "escalate"],
+		]);
+	});
+
+	test("followUpTaskId reads the payload's taskId", () => {
+		expect(followUpTaskId(makeMessage({ payload: '{"taskId":"task-9"}' }))).toBe("task-9");
+		expect(followUpTaskId(makeMessage({ payload: "not json" }))).toBeNull();
+	});
+});
@@ -0,0 +1,86 @@
+/**
+ * Follow-up on dispatch/assign mail that is never acknowledged.
+ *
+ * A dispatch that is injected into a busy or dying agent's context can be
+ * lost without a trace. When `watchdog.mailAcks` is enabled, every tick the
+ * daemon looks for dispatch/assign messages not acknowledged (`ov mail ack`)
+ * within `timeoutMs` of being sent or last re-delivered:
+ *
+ *   - Recipient running, re-deliveries left: the message is put back in the
+ *     recipient's inbox and the recipient is nudged.
+ *   - Re-deliveries used up, or recipient dead or unknown: the sender gets an
+ *     escalation mail and the message is not followed up again.
+ *   - Recipient session completed: left alone (it finished without acking).
+ *
+ * The daemon (daemon.ts) carries out the follow-ups.
+ */
+
+import type { AgentSession, MailMessage } from "../types.ts";
+
+/** Default time a recipient has to acknowledge when timeoutMs is not configured. */
+export const DEFAULT_MAIL_ACK_TIMEOUT_MS = 300_000;
+
+/** Default re-deliveries before escalating when maxRedeliveries is not configured. */
+export const DEFAULT_MAX_REDELIVERIES = 2;
+
+/** Settings passed to the daemon (resolved from config.watchdog.mailAcks). */
+export interface MailAckPolicy {
+	timeoutMs: number;
+	maxRedeliveries: number;
+}
+
+/** What the daemon should do about one unacknowledged message. */
+export type AckFollowUp =
+	| { action: "redeliver"; message: MailMessage }
+	| { action: "escalate"; message: MailMessage; reason: string };
+
+const RUNNING_STATES = new Set(["booting", "working", "stalled"]);
+
+/**
+ * Decide the follow-up for each overdue message.
+ *
+ * @param overdue - Unacknowledged, unescalated messages past their deadline
+ * @param sessions - All known sessions, used to find each recipient
+ */
+export function planAckFollowUps(
+	overdue: readonly MailMessage[],
+	sessions: readonly AgentSession[],
+	policy: MailAckPolicy,
+): AckFollowUp[] {
+	const followUps: AckFollowUp[] = [];
+	for (const message of overdue) {
+		const recipient = sessions.find((s) => s.agentName === message.to);
+		if (recipient?.state === "completed") continue;
+
+		if (!recipient) {
+			followUps.push({ action: "escalate", message, reason: `${message.to} has no session` });
+		} else if (!RUNNING_STATES.has(recipient.state)) {
+			followUps.push({
+				action: "escalate",
+				message,
+				reason: `${message.to} is not running (${recipient.state})`,
+			});
+		} else if (message.redeliveries < policy.maxRedeliveries) {
+			followUps.push({ action: "redeliver", message });
+		} else {
+			const times = message.redeliveries === 1 ? "time" : "times";
+			followUps.push({
+				action: "escalate",
+				message,
+				reason: `still unacknowledged after re-delivering ${message.redeliveries} ${times}`,
+			});
+		}
+	}
+	return followUps;
+}
+
+/** Task ID from a dispatch/assign payload, or null. */
+export function followUpTaskId(message: MailMessage): string | null {
+	if (message.payload === null) return null;
+	try {
+		const payload = JSON.parse(message.payload) as { taskId?: unknown };
+		return typeof payload.taskId === "string" ? payload.taskId : null;
+	} catch {
+		return null;
+	}
+}
@@ -0,0 +1,276 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createMetricsStore, type MetricsStore } from "../metrics/store.ts";
+import { cleanupTempDir } from "../test-helpers.ts";
+import type { AgentSession } from "../types.ts";
+import {
+	budgetAlertKey,
+	collectAgentSpend,
+	describeBreach,
+	evaluateBudgets,
+	liveBudgetAlertKeys,
+} from "./budget.ts";
+
+const NOW = new Date("2026-03-01T12:00:00Z");
+
+function makeSession(overrides: Partial<AgentSession> = {}): AgentSession {
+	return {
+		id: "session-test",
+		agentName: "builder-1",
+		capability: "builder",
+		worktreePath: "/tmp/test",
+		branchName: "overstory/builder-1/task",
+		taskId: "task",
+		tmuxSession: "overstory-builder-1",
+		state: "working",
+		pid: null,
+		parentAgent: "lead-1",
+		depth: 1,
+		runId: "run-1",
+		escalationLevel: 0,
+		stalledSince: null,
+		transcriptPath: null,
+		rpcEndpoint: null,
+		runtime: null,
+		startedAt: NOW.toISOString(),
+		lastActivity: NOW.toISOString(),
+		...overrides,
+	};
+}
+
+describe("evaluateBudgets", () => {
+	test("returns no breaches under every limit", () => {
+		const breaches = evaluateBudgets(
+			{ perAgent: { softUsd: 5, hardUsd: 10 }, perRun: { hardUsd: 50 } },
+			[makeSession()],
+			new Map([["session-test", 1]]),
+			"run-1",
+			NOW,
+		);
+		expect(breaches).toEqual([]);
+	});
+
+	test("reports soft and hard per-agent breaches, hard taking precedence", () => {
+		const sessions = [makeSession({ id: "s1" }), makeSession({ id: "s2", agentName: "builder-2" })];
+		const breaches = evaluateBudgets(
+			{ perAgent: { softUsd: 5, hardUsd: 10 } },
+			sessions,
+			new Map([
+				["s1", 6],
+				["s2", 12],
+			]),
+			null,
+			NOW,
+		);
+		expect(breaches.map((b) => [b.key, b.level, b.limitUsd])).toEqual([
+			["builder-1", "soft", 5],
+			["builder-2", "hard", 10],
+		]);
+	});
+
+	test("per-capability limits override perAgent", () => {
+		const breaches = evaluateBudgets(
+			{ perAgent: { hardUsd: 10 }, perCapability: { scout: { hardUsd: 1 } } },
+			[makeSession({ agentName: "scout-1", capability: "scout" })],
+			new Map([["session-test", 2]]),
+			null,
+			NOW,
+		);
+		expect(breaches).toHaveLength(1);
+		expect(breaches[0]?.scope).toBe("capability");
+		expect(breaches[0]?.level).toBe("hard");
+	});
+
+	test("run totals include completed sessions but only active agents are affected", () => {
+		const sessions = [
+			makeSession({ id: "done", agentName: "done", state: "completed" }),
+			makeSession({ id: "active", agentName: "active" }),
+			makeSession({ id: "other-run", agentName: "other-run", runId: "run-2" }),
+		];
+		const breaches = evaluateBudgets(
+			{ perRun: { softUsd: 8 } },
+			sessions,
+			new Map([
+				["done", 6],
+				["active", 3],
+				["other-run", 100],
+			]),
+			"run-1",
+			NOW,
+		);
+		expect(breaches).toHaveLength(1);
+		expect(breaches[0]?.scope).toBe("run");
+		expect(breaches[0]?.spentUsd).toBe(9);
+		expect(breaches[0]?.agents.map((s) => s.agentName)).toEqual(["active"]);
+	});
+
+	test("day totals only count sessions started today (UTC)", () => {
+		const sessions = [
+			makeSession({ id: "yesterday", agentName: "yesterday", startedAt: "2026-02-28T23:00:00Z" }),
+			makeSession({ id: "today", agentName: "today" }),
+		];
+		const spend = new Map([
+			["yesterday", 40],
+			["today", 5],
+		]);
+		expect(evaluateBudgets({ perDay: { hardUsd: 20 } }, sessions, spend, null, NOW)).toEqual([]);
+
+		const breaches = evaluateBudgets({ perDay: { hardUsd: 4 } }, sessions, spend, null, NOW);
+		expect(breaches[0]?.key).toBe("2026-03-01");
+		expect(breaches[0]?.agents.map((s) => s.agentName)).toEqual(["today"]);
+	});
+
+	test("omits scope-wide breaches with no active agents left", () => {
+		const breaches = evaluateBudgets(
+			{ perRun: { hardUsd: 1 } },
+			[makeSession({ state: "completed" })],
+			new Map([["session-test", 5]]),
+			"run-1",
+			NOW,
+		);
+		expect(breaches).toEqual([]);
+	});
+});
+
+describe("describeBreach", () => {
+	test("formats scope, spend, and limit", () => {
+		const text = describeBreach({
+			scope: "run",
+			level: "hard",
+			key: "run-1",
+			spentUsd: 5.2,
+			limitUsd: 5,
+			agents: [],
+		});
+		expect(text).toBe("run run-1 spent $5.20 (hard limit $5.00)");
+	});
+});
+
+describe("collectAgentSpend", () => {
+	let tempDir: string;
+	let metricsStore: MetricsStore;
+
+	beforeEach(async () => {
+		tempDir = await mkdtemp(join(tmpdir(), "overstory-budget-test-"));
+		metricsStore = createMetricsStore(join(tempDir, "metrics.db"));
+	});
+
+	afterEach(async () => {
+		metricsStore.close();
+		await cleanupTempDir(tempDir);
+	});
+
+	test("uses the latest snapshot, falling back to recorded session metrics", () => {
+		for (const cost of [1, 3]) {
+			metricsStore.recordSnapshot({
+				agentName: "builder-1",
+				inputTokens: 0,
+				outputTokens: 0,
+				cacheReadTokens: 0,
+				cacheCreationTokens: 0,
+				estimatedCostUsd: cost,
+				modelUsed: "sonnet",
+				createdAt: new Date(Date.now() + cost).toISOString(),
+			});
+		}
+		metricsStore.recordSession({
+			agentName: "scout-1",
+			taskId: "task",
+			capability: "scout",
+			startedAt: NOW.toISOString(),
+			completedAt: NOW.toISOString(),
+			durationMs: 0,
+			exitCode: 0,
+			mergeResult: null,
+			parentAgent: null,
+			inputTokens: 0,
+			outputTokens: 0,
+			cacheReadTokens: 0,
+			cacheCreationTokens: 0,
+			estimatedCostUsd: 2.5,
+			modelUsed: "haiku",
+			runId: "run-1",
+			runtime: null,
+		});
+
+		const spend = collectAgentSpend(metricsStore, [
+			makeSession({ id: "builder" }),
+			makeSession({ id: "scout", agentName: "scout-1", capability: "scout" }),
+			makeSession({ id: "idle", agentName: "idle" }),
+		]);
+
+		expect(spend.get("builder")).toBe(3);
+		expect(spend.get("scout")).toBe(2.5);
+		expect(spend.has("idle")).toBe(false);
+	});
+
+	test("does not charge a session for the agent's earlier tasks", () => {
+		const recordOld = (taskId: string, startedAt: string, estimatedCostUsd: number) =>
+			metricsStore.recordSession({
+				agentName: "builder-1",
+				taskId,
+				capability: "builder",
+				startedAt,
+				completedAt: startedAt,
+				durationMs: 0,
+				exitCode: 0,
+				mergeResult: null,
+				parentAgent: null,
+				inputTokens: 0,
+				outputTokens: 0,
+				cacheReadTokens: 0,
+				cacheCreationTokens: 0,
+				estimatedCostUsd,
+				modelUsed: "sonnet",
+				runId: "run-0",
+				runtime: null,
+			});
+		recordOld("task-old", "2026-02-01T00:00:00Z", 40);
+		recordOld("task-new", NOW.toISOString(), 1.5);
+		// Snapshot left over from the previous session under the same name
+		metricsStore.recordSnapshot({
+			agentName: "builder-1",
+			inputTokens: 0,
+			outputTokens: 0,
+			cacheReadTokens: 0,
+			cacheCreationTokens: 0,
+			estimatedCostUsd: 40,
+			modelUsed: "sonnet",
+			createdAt: "2026-02-01T01:00:00Z",
+		});
+
+		const spend = collectAgentSpend(metricsStore, [
+			makeSession({ id: "old", taskId: "task-old", startedAt: "2026-02-01T00:00:00Z" }),
+			makeSession({ id: "new", taskId: "task-new" }),
+		]);
+
+		expect(spend.get("old")).toBe(40);
+		expect(spend.get("new")).toBe(1.5);
+	});
+});
+
+describe("budget alert keys", () => {
+	test("per-session scopes are keyed by session ID", () => {
+		const breach = {
+			scope: "agent" as const,
+			level: "soft" as const,
+			key: "builder-1",
+			spentUsd: 6,
+			limitUsd: 5,
+			agents: [makeSession({ id: "s1" })],
+		};
+		expect(budgetAlertKey(breach)).toBe("agent:s1");
+		expect(budgetAlertKey({ ...breach, scope: "run", key: "run-1" })).toBe("run:run-1");
+	});
+
+	test("live keys cover active sessions, the current run, and today", () => {
+		const keys = liveBudgetAlertKeys(
+			[makeSession({ id: "s1" }), makeSession({ id: "s2", state: "completed" })],
+			"run-1",
+			NOW,
+		);
+		expect([...keys].sort()).toEqual(["agent:s1", "capability:s1", "day:2026-03-01", "run:run-1"]);
+	});
+});
@@ -0,0 +1,193 @@
+/**
+ * Budget evaluation for the watchdog daemon.
+ *
+ * Spend per session comes from the latest token snapshot in metrics.db, falling
+ * back to the recorded metrics of that session when it never snapshotted.
+ * Limits from `budget` in config.yaml are checked at four scopes:
+ *
+ *   agent       Each active agent against budget.perAgent
+ *   capability  Each active agent against budget.perCapability[capability]
+ *               (overrides perAgent for that capability)
+ *   run         Total spend of the current run against budget.perRun
+ *   day         Total spend of sessions started today (UTC) against budget.perDay
+ *
+ * The daemon (daemon.ts) acts on the breaches: soft limits warn, hard limits stop.
+ */
+
+import type { MetricsStore } from "../metrics/store.ts";
+import type { AgentSession, BudgetConfig, BudgetLimit } from "../types.ts";
+
+/** Which budget setting a breach was measured against. */
+export type BudgetScope = "agent" | "capability" | "run" | "day";
+
+/** A spend limit that has been reached. */
+export interface BudgetBreach {
+	scope: BudgetScope;
+	level: "soft" | "hard";
+	/** What the limit applies to: agent name, run ID, or UTC date. */
+	key: string;
+	spentUsd: number;
+	limitUsd: number;
+	/** Active agents the breach applies to (warned on soft, stopped on hard). */
+	agents: AgentSession[];
+}
+
+const ACTIVE_STATES = new Set(["booting", "working", "stalled"]);
+
+function isActive(session: AgentSession): boolean {
+	return ACTIVE_STATES.has(session.state);
+}
+
+/**
+ * Collect estimated spend (USD) per session ID.
+ *
+ * Snapshots are cumulative per agent name, so the latest snapshot is the spend
+ * of the newest session under that name, provided it was taken after the
+ * session started. Older sessions reusing the name, and sessions that never
+ * snapshotted, fall back to the metrics recorded for that session (same task
+ * and start time), never to the agent's earlier tasks.
+ */
+export function collectAgentSpend(
+	metricsStore: MetricsStore,
+	sessions: readonly AgentSession[],
+): Map<string, number> {
+	const newest = new Map<string, AgentSession>();
+	for (const session of sessions) {
+		const current = newest.get(session.agentName);
+		if (!current || session.startedAt > current.startedAt) {
+			newest.set(session.agentName, session);
+		}
+	}
+
+	const spend = new Map<string, number>();
+	for (const snapshot of metricsStore.getLatestSnapshots()) {
+		const session = newest.get(snapshot.agentName);
+		if (session && snapshot.createdAt >= session.startedAt) {
+			spend.set(session.id, snapshot.estimatedCostUsd ?? 0);
+		}
+	}
+	for (const session of sessions) {
+		if (spend.has(session.id)) continue;
+		const recorded = metricsStore
+			.getSessionsByAgent(session.agentName)
+			.filter((m) => m.taskId === session.taskId && m.startedAt === session.startedAt)
+			.reduce((sum, m) => sum + (m.estimatedCostUsd ?? 0), 0);
+		if (recorded > 0) spend.set(session.id, recorded);
+	}
+	return spend;
+}
+
+/**
+ * Compare spend against a limit. The hard limit wins when both are crossed.
+ */
+function checkLimit(
+	spentUsd: number,
+	limit: BudgetLimit | undefined,
+): { level: "soft" | "hard"; limitUsd: number } | null {
+	if (!limit) return null;
+	if (limit.hardUsd !== undefined && spentUsd >= limit.hardUsd) {
+		return { level: "hard", limitUsd: limit.hardUsd };
+	}
+	if (limit.softUsd !== undefined && spentUsd >= limit.softUsd) {
+		return { level: "soft", limitUsd: limit.softUsd };
+	}
+	return null;
+}
+
+function sumSpend(sessions: readonly AgentSession[], spend: Map<string, number>): number {
+	return sessions.reduce((sum, s) => sum + (spend.get(s.id) ?? 0), 0);
+}
+
+/**
+ * Evaluate all configured budget limits. Pure: performs no I/O.
+ *
+ * Scope-wide breaches (run, day) with no active agents left are omitted,
+ * since there is nothing to warn or stop.
+ *
+ * @param budget - Budget settings from config.yaml
+ * @param sessions - All sessions (completed ones still count toward run/day totals)
+ * @param spend - Spend per session ID (see collectAgentSpend)
+ * @param runId - Current run ID, or null when no run is active
+ * @param now - Clock for the per-day window (injectable for testing)
+ */
+export function evaluateBudgets(
+	budget: BudgetConfig,
+	sessions: readonly AgentSession[],
+	spend: Map<string, number>,
+	runId: string | null,
+	now: Date = new Date(),
+): BudgetBreach[] {
+	const breaches: BudgetBreach[] = [];
+
+	for (const session of sessions) {
+		if (!isActive(session)) continue;
+		const capabilityLimit = budget.perCapability?.[session.capability];
+		const scope: BudgetScope = capabilityLimit ? "capability" : "agent";
+		const spentUsd = spend.get(session.id) ?? 0;
+		const hit = checkLimit(spentUsd, capabilityLimit ?? budget.perAgent);
+		if (hit) {
+			breaches.push({ scope, key: session.agentName, spentUsd, agents: [session], ...hit });
+		}
+	}
+
+	if (runId && budget.perRun) {
+		const runSessions = sessions.filter((s) => s.runId === runId);
+		const spentUsd = sumSpend(runSessions, spend);
+		const hit = checkLimit(spentUsd, budget.perRun);
+		const agents = runSessions.filter(isActive);
+		if (hit && agents.length > 0) {
+			breaches.push({ scope: "run", key: runId, spentUsd, agents, ...hit });
+		}
+	}
+
+	if (budget.perDay) {
+		const today = now.toISOString().slice(0, 10);
+		const daySessions = sessions.filter((s) => s.startedAt.slice(0, 10) === today);
+		const spentUsd = sumSpend(daySessions, spend);
+		const hit = checkLimit(spentUsd, budget.perDay);
+		const agents = daySessions.filter(isActive);
+		if (hit && agents.length > 0) {
+			breaches.push({ scope: "day", key: today, spentUsd, agents, ...hit });
+		}
+	}
+
+	return breaches;
+}
+
+/**
+ * Key under which a soft-limit warning is remembered in budget-alerts.json.
+ * Agent and capability limits are per session, so a reused agent name on a
+ * new task is warned again.
+ */
+export function budgetAlertKey(breach: BudgetBreach): string {
+	const perSession = breach.scope === "agent" || breach.scope === "capability";
+	return `${breach.scope}:${perSession ? (breach.agents[0]?.id ?? breach.key) : breach.key}`;
+}
+
+/**
+ * Alert keys that can still apply: per-session keys of active sessions, the
+ * current run, and today (UTC). Other keys in budget-alerts.json are stale.
+ */
+export function liveBudgetAlertKeys(
+	sessions: readonly AgentSession[],
+	runId: string | null,
+	now: Date = new Date(),
+): Set<string> {
+	const keys = new Set<string>([`day:${now.toISOString().slice(0, 10)}`]);
+	if (runId) keys.add(`run:${runId}`);
+	for (const session of sessions) {
+		if (!isActive(session)) continue;
+		keys.add(`agent:${session.id}`);
+		keys.add(`capability:${session.id}`);
+	}
+	return keys;
+}
+
+/** Human-readable description of a breach, e.g. `run run-123 spent $5.20 (hard limit $5.00)`. */
+export function describeBreach(breach: BudgetBreach): string {
+	const subject =
+		breach.scope === "capability"
+			? `agent ${breach.key} (${breach.agents[0]?.capability ?? "capability"} budget)`
+			: `${breach.scope} ${breach.key}`;
+	return `${subject} spent $${breach.spentUsd.toFixed(2)} (${breach.level} limit $${breach.limitUsd.toFixed(2)})`;
+}
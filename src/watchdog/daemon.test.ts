@@ -19,10 +19,19 @@ import { mkdir, mkdtemp } from "node:fs/promises";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
 import { createEventStore } from "../events/store.ts";
+import { createMailStore } from "../mail/store.ts";
+import { createMetricsStore } from "../metrics/store.ts";
 import { createSessionStore } from "../sessions/store.ts";
 import { cleanupTempDir } from "../test-helpers.ts";
-import type { AgentSession, HealthCheck, StoredEvent } from "../types.ts";
-import { buildCompletionMessage, runDaemonTick } from "./daemon.ts";
+import type {
+	AgentSession,
+	HealthCheck,
+	MailMessage,
+	StoredEvent,
+	TriageAction,
+	TriageVerdict,
+} from "../types.ts";
+import { buildCompletionMessage, effectiveTriageAction, runDaemonTick } from "./daemon.ts";
 
 // === Test constants ===
 
@@ -77,6 +86,8 @@ function makeSession(overrides: Partial<AgentSession> = {}): AgentSession {
 		escalationLevel: 0,
 		stalledSince: null,
 		transcriptPath: null,
+		rpcEndpoint: null,
+		runtime: null,
 		startedAt: new Date().toISOString(),
 		lastActivity: new Date().toISOString(),
 		...overrides,
@@ -124,15 +135,29 @@ function tmuxWithLiveness(aliveMap: Record<string, boolean>): {
 	};
 }
 
+/** Build a triage verdict with high confidence and no guidance. */
+function makeVerdict(action: TriageAction, overrides: Partial<TriageVerdict> = {}): TriageVerdict {
+	return {
+		action,
+		rootCause: "unknown",
+		confidence: 0.9,
+		nudgeMessage: null,
+		reasoning: "test verdict",
+		...overrides,
+	};
+}
+
 /** Create a fake _triage that always returns the given verdict. */
 function triageAlways(
-	verdict: "retry" | "terminate" | "extend",
+	action: TriageAction,
+	overrides: Partial<TriageVerdict> = {},
 ): (options: {
 	agentName: string;
 	root: string;
 	lastActivity: string;
-}) => Promise<"retry" | "terminate" | "extend"> {
-	return async () => verdict;
+	tmuxSession: string;
+}) => Promise<TriageVerdict> {
+	return async () => makeVerdict(action, overrides);
 }
 
 /** Create a fake _nudge that tracks calls and always succeeds. */
@@ -290,6 +315,47 @@ describe("daemon tick", () => {
 		expect(reloaded[0]?.state).toBe("zombie");
 	});
 
+	test("headless sessions are checked and killed through their agent host", async () => {
+		const oldActivity = new Date(Date.now() - 200_000).toISOString();
+		const session = makeSession({
+			agentName: "headless-agent",
+			tmuxSession: "",
+			rpcEndpoint: "/tmp/ov-headless-agent.sock",
+			runtime: null,
+			state: "working",
+			lastActivity: oldActivity,
+		});
+
+		writeSessionsToStore(tempRoot, [session]);
+
+		const tmuxMock = tmuxWithLiveness({});
+		const stopped: string[] = [];
+		const checks: HealthCheck[] = [];
+
+		await runDaemonTick({
+			root: tempRoot,
+			...THRESHOLDS,
+			onHealthCheck: (c) => checks.push(c),
+			_tmux: tmuxMock,
+			_headless: {
+				isAlive: async () => true,
+				getState: async () => ({ status: "idle" }),
+				sendPrompt: async () => {},
+				followUp: async () => {},
+				stop: async (endpoint) => {
+					stopped.push(endpoint);
+				},
+			},
+			_triage: triageAlways("extend"),
+		});
+
+		expect(checks[0]?.tmuxAlive).toBe(true);
+		expect(checks[0]?.action).toBe("terminate");
+		expect(stopped).toEqual(["/tmp/ov-headless-agent.sock"]);
+		expect(tmuxMock.killed).toHaveLength(0);
+		expect(readSessionsFromStore(tempRoot)[0]?.state).toBe("zombie");
+	});
+
 	// --- Test 4: progressive nudging for stalled agents ---
 
 	test("first tick with stalled agent sets stalledSince and stays at level 0 (warn)", async () => {
@@ -393,10 +459,10 @@ describe("daemon tick", () => {
 			agentName: string;
 			root: string;
 			lastActivity: string;
-		}): Promise<"retry" | "terminate" | "extend"> => {
+		}): Promise<TriageVerdict> => {
 			triageCalled = true;
 			expect(opts.agentName).toBe("stalled-agent");
-			return "terminate";
+			return makeVerdict("terminate");
 		};
 
 		await runDaemonTick({
@@ -434,9 +500,9 @@ describe("daemon tick", () => {
 		const tmuxMock = tmuxWithLiveness({ "overstory-stalled-agent": true });
 		let triageCalled = false;
 
-		const triageMock = async (): Promise<"retry" | "terminate" | "extend"> => {
+		const triageMock = async (): Promise<TriageVerdict> => {
 			triageCalled = true;
-			return "terminate";
+			return makeVerdict("terminate");
 		};
 
 		await runDaemonTick({
@@ -497,7 +563,7 @@ describe("daemon tick", () => {
 		expect(reloaded[0]?.stalledSince).toBeNull();
 	});
 
-	test("triage retry sends nudge with recovery message", async () => {
+	test("triage nudge without guidance sends generic recovery message", async () => {
 		const staleActivity = new Date(Date.now() - 60_000).toISOString();
 		const stalledSince = new Date(Date.now() - 130_000).toISOString();
 		const session = makeSession({
@@ -520,11 +586,11 @@ describe("daemon tick", () => {
 			nudgeIntervalMs: 60_000,
 			tier1Enabled: true,
 			_tmux: tmuxMock,
-			_triage: triageAlways("retry"),
+			_triage: triageAlways("nudge"),
 			_nudge: nudgeMock.nudge,
 		});
 
-		// Triage returned "retry" — nudge should be sent with recovery message
+		// Triage returned "nudge" without guidance — generic recovery nudge is sent
 		expect(nudgeMock.calls).toHaveLength(1);
 		expect(nudgeMock.calls[0]?.message).toContain("recovery");
 
@@ -807,6 +873,8 @@ describe("daemon tick", () => {
 			escalationLevel: 0,
 			stalledSince: null,
 			transcriptPath: null,
+			rpcEndpoint: null,
+			runtime: null,
 		});
 
 		writeSessionsToStore(tempRoot, [session]);
@@ -1206,7 +1274,7 @@ describe("daemon mulch failure recording", () => {
 		expect(failureMock.calls[0]?.reason).toContain("AI triage");
 	});
 
-	test("recordFailure not called when triage returns retry", async () => {
+	test("recordFailure not called when triage returns nudge", async () => {
 		const staleActivity = new Date(Date.now() - 60_000).toISOString();
 		const stalledSince = new Date(Date.now() - 130_000).toISOString();
 		const session = makeSession({
@@ -1229,12 +1297,12 @@ describe("daemon mulch failure recording", () => {
 			nudgeIntervalMs: 60_000,
 			tier1Enabled: true,
 			_tmux: tmuxMock,
-			_triage: triageAlways("retry"),
+			_triage: triageAlways("nudge"),
 			_nudge: nudgeTracker().nudge,
 			_recordFailure: failureMock.recordFailure,
 		});
 
-		// recordFailure should NOT be called for retry verdict
+		// recordFailure should NOT be called for nudge verdict
 		expect(failureMock.calls).toHaveLength(0);
 	});
 
@@ -1335,6 +1403,748 @@ describe("daemon mulch failure recording", () => {
 	});
 });
 
+// === Budget enforcement tests ===
+
+describe("budget enforcement", () => {
+	/** Record a cumulative token snapshot with the given cost for an agent. */
+	function recordSpend(root: string, agentName: string, costUsd: number): void {
+		const metricsStore = createMetricsStore(join(root, ".overstory", "metrics.db"));
+		metricsStore.recordSnapshot({
+			agentName,
+			inputTokens: 0,
+			outputTokens: 0,
+			cacheReadTokens: 0,
+			cacheCreationTokens: 0,
+			estimatedCostUsd: costUsd,
+			modelUsed: "sonnet",
+			createdAt: new Date().toISOString(),
+		});
+		metricsStore.close();
+	}
+
+	function readMail(root: string): MailMessage[] {
+		const mailStore = createMailStore(join(root, ".overstory", "mail.db"));
+		try {
+			return mailStore.getAll();
+		} finally {
+			mailStore.close();
+		}
+	}
+
+	test("soft limit sends a warning mail and nudge once", async () => {
+		writeSessionsToStore(tempRoot, [makeSession({ agentName: "spender" })]);
+		recordSpend(tempRoot, "spender", 6);
+		const nudgeMock = nudgeTracker();
+
+		for (let i = 0; i < 2; i++) {
+			await runDaemonTick({
+				root: tempRoot,
+				...THRESHOLDS,
+				budget: { perAgent: { softUsd: 5, hardUsd: 10 } },
+				_tmux: tmuxAllAlive(),
+				_nudge: nudgeMock.nudge,
+				_eventStore: null,
+			});
+		}
+
+		expect(nudgeMock.calls).toHaveLength(1);
+		expect(nudgeMock.calls[0]?.message).toContain("Budget warning");
+		const mail = readMail(tempRoot);
+		expect(mail).toHaveLength(1);
+		expect(mail[0]?.to).toBe("spender");
+		expect(mail[0]?.subject).toContain("Soft limit");
+		expect(readSessionsFromStore(tempRoot)[0]?.state).toBe("working");
+	});
+
+	test("soft warnings are per session and stale alert keys are pruned", async () => {
+		const alertsPath = join(tempRoot, ".overstory", "budget-alerts.json");
+		await Bun.write(alertsPath, JSON.stringify(["agent:old-session", "run:old-run"]));
+		writeSessionsToStore(tempRoot, [makeSession({ id: "new-session", agentName: "spender" })]);
+		recordSpend(tempRoot, "spender", 6);
+
+		await runDaemonTick({
+			root: tempRoot,
+			...THRESHOLDS,
+			budget: { perAgent: { softUsd: 5 } },
+			_tmux: tmuxAllAlive(),
+			_nudge: nudgeTracker().nudge,
+			_eventStore: null,
+		});
+
+		expect(readMail(tempRoot)).toHaveLength(1);
+		expect(JSON.parse(await Bun.file(alertsPath).text())).toEqual(["agent:new-session"]);
+	});
+
+	test("hard limit stops the agent and escalates to its parent", async () => {
+		writeSessionsToStore(tempRoot, [
+			makeSession({
+				agentName: "spender",
+				tmuxSession: "overstory-spender",
+				parentAgent: "lead-1",
+			}),
+		]);
+		recordSpend(tempRoot, "spender", 12);
+		const tmuxMock = tmuxWithLiveness({ "overstory-spender": true });
+
+		await runDaemonTick({
+			root: tempRoot,
+			...THRESHOLDS,
+			budget: { perAgent: { softUsd: 5, hardUsd: 10 } },
+			_tmux: tmuxMock,
+			_nudge: nudgeTracker().nudge,
+			_eventStore: null,
+		});
+
+		expect(tmuxMock.killed).toEqual(["overstory-spender"]);
+		expect(readSessionsFromStore(tempRoot)[0]?.state).toBe("completed");
+		const mail = readMail(tempRoot);
+		expect(mail).toHaveLength(1);
+		expect(mail[0]?.to).toBe("lead-1");
+		expect(mail[0]?.type).toBe("escalation");
+		expect(mail[0]?.priority).toBe("urgent");
+	});
+
+	test("hard run limit stops every active agent in the run", async () => {
+		const runId = "run-budget";
+		await Bun.write(join(tempRoot, ".overstory", "current-run.txt"), runId);
+		writeSessionsToStore(tempRoot, [
+			makeSession({ id: "s1", agentName: "a", tmuxSession: "overstory-a", runId }),
+			makeSession({ id: "s2", agentName: "b", tmuxSession: "overstory-b", runId }),
+			makeSession({ id: "s3", agentName: "c", tmuxSession: "overstory-c", runId: "other" }),
+		]);
+		recordSpend(tempRoot, "a", 3);
+		recordSpend(tempRoot, "b", 3);
+		recordSpend(tempRoot, "c", 100);
+
+		await runDaemonTick({
+			root: tempRoot,
+			...THRESHOLDS,
+			budget: { perRun: { hardUsd: 5 } },
+			_tmux: tmuxAllAlive(),
+			_nudge: nudgeTracker().nudge,
+			_eventStore: null,
+		});
+
+		const states = Object.fromEntries(
+			readSessionsFromStore(tempRoot).map((s) => [s.agentName, s.state]),
+		);
+		expect(states).toEqual({ a: "completed", b: "completed", c: "working" });
+	});
+
+	test("records a budget_stop escalation event", async () => {
+		writeSessionsToStore(tempRoot, [makeSession({ agentName: "spender" })]);
+		recordSpend(tempRoot, "spender", 2);
+		const eventStore = createEventStore(join(tempRoot, ".overstory", "events.db"));
+
+		try {
+			await runDaemonTick({
+				root: tempRoot,
+				...THRESHOLDS,
+				budget: { perCapability: { builder: { hardUsd: 1 } } },
+				_tmux: tmuxAllAlive(),
+				_nudge: nudgeTracker().nudge,
+				_eventStore: eventStore,
+			});
+			const events = eventStore.getTimeline({ since: "2000-01-01T00:00:00Z" });
+			const stop = events.find((e) => e.data?.includes("budget_stop"));
+			expect(stop?.level).toBe("error");
+			expect(JSON.parse(stop?.data ?? "{}")).toMatchObject({
+				type: "escalation",
+				scope: "capability",
+				limitUsd: 1,
+			});
+		} finally {
+			eventStore.close();
+		}
+	});
+
+	test("does nothing without budget config or metrics.db", async () => {
+		writeSessionsToStore(tempRoot, [makeSession({ agentName: "spender" })]);
+		const tmuxMock = tmuxWithLiveness({ "overstory-test-agent": true });
+
+		await runDaemonTick({
+			root: tempRoot,
+			...THRESHOLDS,
+			budget: { perAgent: { hardUsd: 0 } },
+			_tmux: tmuxMock,
+			_nudge: nudgeTracker().nudge,
+			_eventStore: null,
+		});
+
+		expect(tmuxMock.killed).toEqual([]);
+		expect(readSessionsFromStore(tempRoot)[0]?.state).toBe("working");
+	});
+});
+
+// === Mail acknowledgement follow-up tests ===
+
+describe("mail ack follow-up", () => {
+	function sendDispatch(to: string): string {
+		const mailStore = createMailStore(join(tempRoot, ".overstory", "mail.db"));
+		try {
+			return mailStore.insert({
+				id: "",
+				from: "lead-1",
+				to,
+				subject: "Build task",
+				body: "Spec attached",
+				type: "dispatch",
+				priority: "normal",
+				threadId: null,
+				payload: JSON.stringify({ taskId: "task-1" }),
+			}).id;
+		} finally {
+			mailStore.close();
+		}
+	}
+
+	function readMail(): MailMessage[] {
+		const mailStore = createMailStore(join(tempRoot, ".overstory", "mail.db"));
+		try {
+			return mailStore.getAll();
+		} finally {
+			mailStore.close();
+		}
+	}
+
+	test("re-delivers with a nudge, then escalates to the sender once", async () => {
+		writeSessionsToStore(tempRoot, [makeSession({ agentName: "builder-1" })]);
+		const id = sendDispatch("builder-1");
+		const nudgeMock = nudgeTracker();
+
+		for (let i = 0; i < 4; i++) {
+			await runDaemonTick({
+				root: tempRoot,
+				...THRESHOLDS,
+				mailAcks: { timeoutMs: 0, maxRedeliveries: 2 },
+				_tmux: tmuxAllAlive(),
+				_nudge: nudgeMock.nudge,
+				_eventStore: null,
+			});
+		}
+
+		expect(nudgeMock.calls.map((c) => c.agentName)).toEqual(["builder-1", "builder-1"]);
+		expect(nudgeMock.calls[0]?.message).toContain(`ov mail ack ${id}`);
+		const dispatch = readMail().find((m) => m.id === id);
+		expect(dispatch?.redeliveries).toBe(2);
+		expect(dispatch?.read).toBe(false);
+		expect(dispatch?.escalatedAt).toBeTruthy();
+		const escalations = readMail().filter((m) => m.type === "escalation");
+		expect(escalations).toHaveLength(1);
+		expect(escalations[0]?.to).toBe("lead-1");
+		expect(JSON.parse(escalations[0]?.payload ?? "{}")).toMatchObject({ taskId: "task-1" });
+	});
+
+	test("escalates immediately for dead recipients and ignores acked messages", async () => {
+		writeSessionsToStore(tempRoot, [makeSession({ agentName: "builder-1", state: "zombie" })]);
+		const lost = sendDispatch("builder-1");
+		const acked = sendDispatch("builder-2");
+		const mailStore = createMailStore(join(tempRoot, ".overstory", "mail.db"));
+		mailStore.recordReceipt(acked, "acked");
+		mailStore.close();
+		const nudgeMock = nudgeTracker();
+
+		await runDaemonTick({
+			root: tempRoot,
+			...THRESHOLDS,
+			mailAcks: { timeoutMs: 0, maxRedeliveries: 2 },
+			_tmux: tmuxAllDead(),
+			_nudge: nudgeMock.nudge,
+			_eventStore: null,
+		});
+
+		expect(nudgeMock.calls).toEqual([]);
+		const mail = readMail();
+		expect(mail.find((m) => m.id === lost)?.escalatedAt).toBeTruthy();
+		expect(mail.find((m) => m.id === acked)?.escalatedAt).toBeNull();
+		expect(mail.filter((m) => m.type === "escalation")).toHaveLength(1);
+	});
+});
+
+// === Structured triage verdict tests ===
+
+describe("triage verdict actions", () => {
+	/** A stalled agent whose next tick lands on escalation level 2 (triage). */
+	function writeStalledAgent(overrides: Partial<AgentSession> = {}): void {
+		writeSessionsToStore(tempRoot, [
+			makeSession({
+				agentName: "stuck",
+				tmuxSession: "overstory-stuck",
+				state: "stalled",
+				parentAgent: "lead-1",
+				taskId: "task-7",
+				lastActivity: new Date(Date.now() - 60_000).toISOString(),
+				escalationLevel: 1,
+				stalledSince: new Date(Date.now() - 130_000).toISOString(),
+				...overrides,
+			}),
+		]);
+	}
+
+	function readMail(root: string): MailMessage[] {
+		const mailStore = createMailStore(join(root, ".overstory", "mail.db"));
+		try {
+			return mailStore.getAll();
+		} finally {
+			mailStore.close();
+		}
+	}
+
+	async function tick(
+		triage: ReturnType<typeof triageAlways>,
+		extra: { nudge?: ReturnType<typeof nudgeTracker>; tmux?: ReturnType<typeof tmuxWithLiveness> },
+	): Promise<void> {
+		await runDaemonTick({
+			root: tempRoot,
+			...THRESHOLDS,
+			nudgeIntervalMs: 60_000,
+			tier1Enabled: true,
+			_tmux: extra.tmux ?? tmuxWithLiveness({ "overstory-stuck": true }),
+			_triage: triage,
+			_nudge: (extra.nudge ?? nudgeTracker()).nudge,
+			_recordFailure: async () => {},
+			_eventStore: null,
+		});
+	}
+
+	test("nudge delivers the verdict's guidance instead of terminating", async () => {
+		writeStalledAgent();
+		const nudgeMock = nudgeTracker();
+		const tmuxMock = tmuxWithLiveness({ "overstory-stuck": true });
+
+		await tick(
+			triageAlways("nudge", {
+				rootCause: "test_failure",
+				nudgeMessage: "Fix the failing assertion in parser.test.ts, then rerun bun test.",
+			}),
+			{ nudge: nudgeMock, tmux: tmuxMock },
+		);
+
+		expect(nudgeMock.calls[0]?.message).toBe(
+			"[WATCHDOG] Fix the failing assertion in parser.test.ts, then rerun bun test.",
+		);
+		expect(tmuxMock.killed).toEqual([]);
+		expect(readSessionsFromStore(tempRoot)[0]?.state).toBe("stalled");
+	});
+
+	test("low-confidence terminate is escalated to the orchestrator instead", async () => {
+		writeStalledAgent();
+		const tmuxMock = tmuxWithLiveness({ "overstory-stuck": true });
+
+		await tick(triageAlways("terminate", { confidence: 0.3 }), { tmux: tmuxMock });
+
+		expect(tmuxMock.killed).toEqual([]);
+		const mail = readMail(tempRoot);
+		expect(mail).toHaveLength(1);
+		expect(mail[0]?.to).toBe("orchestrator");
+		expect(mail[0]?.type).toBe("escalation");
+		expect(mail[0]?.body).toContain("suggested action: terminate");
+	});
+
+	test("escalate and split are delivered once per stall", async () => {
+		writeStalledAgent();
+		const nudgeMock = nudgeTracker();
+
+		await tick(triageAlways("escalate"), { nudge: nudgeMock });
+		await tick(triageAlways("escalate"), { nudge: nudgeMock });
+		expect(readMail(tempRoot).map((m) => m.subject)).toEqual([
+			"[TRIAGE] stuck needs a human decision",
+		]);
+
+		await tick(triageAlways("split"), { nudge: nudgeMock });
+		await tick(triageAlways("split"), { nudge: nudgeMock });
+		expect(readMail(tempRoot)).toHaveLength(2);
+		expect(nudgeMock.calls).toHaveLength(1);
+
+		// A new stall gets fresh deliveries
+		writeStalledAgent({ stalledSince: new Date(Date.now() - 125_000).toISOString() });
+		await tick(triageAlways("escalate"), { nudge: nudgeMock });
+		expect(readMail(tempRoot)).toHaveLength(3);
+	});
+
+	test("split asks the parent to split the task and nudges the agent", async () => {
+		writeStalledAgent();
+		const nudgeMock = nudgeTracker();
+
+		await tick(triageAlways("split", { rootCause: "task_too_large" }), { nudge: nudgeMock });
+
+		const mail = readMail(tempRoot);
+		expect(mail[0]?.to).toBe("lead-1");
+		expect(mail[0]?.subject).toBe("[TRIAGE] Split task task-7");
+		expect(nudgeMock.calls[0]?.message).toContain("report status to lead-1");
+		expect(readSessionsFromStore(tempRoot)[0]?.state).toBe("stalled");
+	});
+
+	test("reassign kills the agent and re-slings it when recovery is enabled", async () => {
+		writeStalledAgent({ worktreePath: tempRoot });
+		const tmuxMock = tmuxWithLiveness({ "overstory-stuck": true });
+		const respawned: string[][] = [];
+
+		await runDaemonTick({
+			root: tempRoot,
+			...THRESHOLDS,
+			nudgeIntervalMs: 60_000,
+			tier1Enabled: true,
+			recovery: { maxAttemptsPerTask: 2, baseBranch: "main" },
+			_tmux: tmuxMock,
+			_triage: triageAlways("reassign", { rootCause: "loop" }),
+			_nudge: nudgeTracker().nudge,
+			_respawn: async (args) => {
+				respawned.push(args);
+				return { exitCode: 0, stderr: "" };
+			},
+			_recordFailure: async () => {},
+			_eventStore: null,
+		});
+
+		expect(tmuxMock.killed).toEqual(["overstory-stuck"]);
+		expect(respawned).toHaveLength(1);
+		expect(respawned[0]).toContain("--resume");
+		// The recovery note replaces the reassign request to the parent
+		expect(readMail(tempRoot).map((m) => m.subject)).toEqual(["[RECOVERY] Restarted stuck"]);
+	});
+
+	test("reassign asks the parent to reassign the task when recovery is off", async () => {
+		writeStalledAgent();
+		const tmuxMock = tmuxWithLiveness({ "overstory-stuck": true });
+
+		await tick(triageAlways("reassign", { rootCause: "loop" }), { tmux: tmuxMock });
+
+		expect(tmuxMock.killed).toEqual(["overstory-stuck"]);
+		const mail = readMail(tempRoot);
+		expect(mail.map((m) => [m.to, m.subject])).toEqual([
+			["lead-1", "[TRIAGE] Reassign task task-7"],
+		]);
+	});
+
+	test("terminate verdicts are not re-slung", async () => {
+		writeStalledAgent({ worktreePath: tempRoot });
+		const respawned: string[][] = [];
+
+		await runDaemonTick({
+			root: tempRoot,
+			...THRESHOLDS,
+			nudgeIntervalMs: 60_000,
+			tier1Enabled: true,
+			recovery: { maxAttemptsPerTask: 2, baseBranch: "main" },
+			_tmux: tmuxWithLiveness({ "overstory-stuck": true }),
+			_triage: triageAlways("terminate"),
+			_nudge: nudgeTracker().nudge,
+			_respawn: async (args) => {
+				respawned.push(args);
+				return { exitCode: 0, stderr: "" };
+			},
+			_recordFailure: async () => {},
+			_eventStore: null,
+		});
+
+		expect(respawned).toEqual([]);
+		expect(readSessionsFromStore(tempRoot)[0]?.state).toBe("zombie");
+	});
+});
+
+describe("effectiveTriageAction", () => {
+	test("downgrades only low-confidence destructive actions", () => {
+		expect(effectiveTriageAction(makeVerdict("terminate", { confidence: 0.49 }))).toBe("escalate");
+		expect(effectiveTriageAction(makeVerdict("reassign", { confidence: 0.2 }))).toBe("escalate");
+		expect(effectiveTriageAction(makeVerdict("terminate", { confidence: 0.5 }))).toBe("terminate");
+		expect(effectiveTriageAction(makeVerdict("nudge", { confidence: 0.1 }))).toBe("nudge");
+	});
+});
+
+// === Watchdog recovery tests ===
+
+describe("watchdog recovery", () => {
+	const POLICY = { maxAttemptsPerTask: 1, baseBranch: "main" };
+
+	/** Create a fake _respawn that records its arguments and exits with the given code. */
+	function respawnTracker(exitCode = 0): {
+		respawn: (args: string[], root: string) => Promise<{ exitCode: number; stderr: string }>;
+		calls: string[][];
+	} {
+		const calls: string[][] = [];
+		return {
+			respawn: async (args: string[]) => {
+				calls.push(args);
+				return { exitCode, stderr: exitCode === 0 ? "" : "sling failed" };
+			},
+			calls,
+		};
+	}
+
+	function readMail(root: string): MailMessage[] {
+		const mailStore = createMailStore(join(root, ".overstory", "mail.db"));
+		try {
+			return mailStore.getAll();
+		} finally {
+			mailStore.close();
+		}
+	}
+
+	function crashedSession(): AgentSession {
+		return makeSession({
+			agentName: "crashed",
+			tmuxSession: "overstory-crashed",
+			parentAgent: "lead-1",
+			depth: 2,
+			taskId: "task-9",
+			worktreePath: tempRoot,
+		});
+	}
+
+	test("re-slings a crashed agent from a checkpoint and notifies the parent", async () => {
+		writeSessionsToStore(tempRoot, [crashedSession()]);
+		const respawnMock = respawnTracker();
+
+		await runDaemonTick({
+			root: tempRoot,
+			...THRESHOLDS,
+			recovery: POLICY,
+			_tmux: tmuxAllDead(),
+			_respawn: respawnMock.respawn,
+			_recordFailure: async () => {},
+			_eventStore: null,
+		});
+
+		expect(respawnMock.calls).toEqual([
+			[
+				"sling",
+				"task-9",
+				"--capability",
+				"builder",
+				"--name",
+				"crashed",
+				"--depth",
+				"2",
+				"--resume",
+				"--parent",
+				"lead-1",
+			],
+		]);
+		const handoffs = JSON.parse(
+			await Bun.file(join(tempRoot, ".overstory", "agents", "crashed", "handoffs.json")).text(),
+		);
+		expect(handoffs[0].reason).toBe("crash");
+		expect(handoffs[0].checkpoint.taskId).toBe("task-9");
+		const mail = readMail(tempRoot);
+		expect(mail).toHaveLength(1);
+		expect(mail[0]?.to).toBe("lead-1");
+		expect(mail[0]?.subject).toContain("Restarted crashed");
+	});
+
+	test("escalates instead of re-slinging once the per-task cap is reached", async () => {
+		await Bun.write(
+			join(tempRoot, ".overstory", "recovery-attempts.json"),
+			JSON.stringify({ "task-9": 1 }),
+		);
+		writeSessionsToStore(tempRoot, [crashedSession()]);
+		const respawnMock = respawnTracker();
+
+		await runDaemonTick({
+			root: tempRoot,
+			...THRESHOLDS,
+			recovery: POLICY,
+			_tmux: tmuxAllDead(),
+			_respawn: respawnMock.respawn,
+			_recordFailure: async () => {},
+			_eventStore: null,
+		});
+
+		expect(respawnMock.calls).toEqual([]);
+		const mail = readMail(tempRoot);
+		expect(mail).toHaveLength(1);
+		expect(mail[0]?.type).toBe("escalation");
+		expect(mail[0]?.body).toContain("Recovery cap reached");
+	});
+
+	test("escalates when the re-sling fails", async () => {
+		writeSessionsToStore(tempRoot, [crashedSession()]);
+
+		await runDaemonTick({
+			root: tempRoot,
+			...THRESHOLDS,
+			recovery: POLICY,
+			_tmux: tmuxAllDead(),
+			_respawn: respawnTracker(1).respawn,
+			_recordFailure: async () => {},
+			_eventStore: null,
+		});
+
+		const mail = readMail(tempRoot);
+		expect(mail[0]?.type).toBe("escalation");
+		expect(mail[0]?.body).toContain("sling failed");
+	});
+
+	test("does not recover sessions that were already zombies", async () => {
+		writeSessionsToStore(tempRoot, [{ ...crashedSession(), state: "zombie" }]);
+		const respawnMock = respawnTracker();
+
+		await runDaemonTick({
+			root: tempRoot,
+			...THRESHOLDS,
+			recovery: POLICY,
+			_tmux: tmuxAllDead(),
+			_respawn: respawnMock.respawn,
+			_recordFailure: async () => {},
+			_eventStore: null,
+		});
+
+		expect(respawnMock.calls).toEqual([]);
+	});
+
+	test("terminated agents stay zombies without a recovery policy", async () => {
+		writeSessionsToStore(tempRoot, [crashedSession()]);
+		const respawnMock = respawnTracker();
+
+		await runDaemonTick({
+			root: tempRoot,
+			...THRESHOLDS,
+			_tmux: tmuxAllDead(),
+			_respawn: respawnMock.respawn,
+			_recordFailure: async () => {},
+			_eventStore: null,
+		});
+
+		expect(respawnMock.calls).toEqual([]);
+		expect(readSessionsFromStore(tempRoot)[0]?.state).toBe("zombie");
+	});
+});
+
+// === Model fallback tests ===
+
+describe("model fallback", () => {
+	const POLICY = { chains: { builder: ["sonnet", "openrouter/openai/gpt-5"] }, baseBranch: "main" };
+
+	function respawnTracker(): {
+		respawn: (args: string[], root: string) => Promise<{ exitCode: number; stderr: string }>;
+		calls: string[][];
+	} {
+		const calls: string[][] = [];
+		return {
+			respawn: async (args: string[]) => {
+				calls.push(args);
+				return { exitCode: 0, stderr: "" };
+			},
+			calls,
+		};
+	}
+
+	function readEvents(root: string): Array<Record<string, unknown>> {
+		const store = createEventStore(join(root, ".overstory", "events.db"));
+		try {
+			return store
+				.getTimeline({ since: "2000-01-01T00:00:00Z" })
+				.map((e) => (e.data ? (JSON.parse(e.data) as Record<string, unknown>) : {}));
+		} finally {
+			store.close();
+		}
+	}
+
+	function stalledSession(): AgentSession {
+		return makeSession({
+			agentName: "limited",
+			tmuxSession: "overstory-limited",
+			taskId: "task-7",
+			worktreePath: tempRoot,
+			lastActivity: new Date(Date.now() - 60_000).toISOString(),
+		});
+	}
+
+	async function tick(
+		respawn: ReturnType<typeof respawnTracker>["respawn"],
+		pane: string,
+		tmux: ReturnType<typeof tmuxAllDead> = tmuxWithLiveness({ "overstory-limited": true }),
+	): Promise<void> {
+		const eventStore = createEventStore(join(tempRoot, ".overstory", "events.db"));
+		try {
+			await runDaemonTick({
+				root: tempRoot,
+				...THRESHOLDS,
+				fallback: POLICY,
+				_tmux: tmux,
+				_nudge: nudgeTracker().nudge,
+				_capturePane: async () => pane,
+				_respawn: respawn,
+				_recordFailure: async () => {},
+				_eventStore: eventStore,
+			});
+		} finally {
+			eventStore.close();
+		}
+	}
+
+	test("re-slings a stalled agent on the next model when its pane shows a provider error", async () => {
+		writeSessionsToStore(tempRoot, [stalledSession()]);
+		const respawnMock = respawnTracker();
+		const tmux = tmuxWithLiveness({ "overstory-limited": true });
+
+		await tick(respawnMock.respawn, 'API Error: 529 {"type":"overloaded_error"}', tmux);
+
+		expect(tmux.killed).toEqual(["overstory-limited"]);
+		expect(respawnMock.calls).toHaveLength(1);
+		expect(respawnMock.calls[0]?.slice(-2)).toEqual(["--model", "openrouter/openai/gpt-5"]);
+		expect(respawnMock.calls[0]).toContain("--resume");
+
+		const switchEvent = readEvents(tempRoot).find((d) => d.type === "model_fallback");
+		expect(switchEvent).toMatchObject({
+			from: "sonnet",
+			to: "openrouter/openai/gpt-5",
+			reason: "provider overloaded",
+		});
+		const state = JSON.parse(
+			await Bun.file(join(tempRoot, ".overstory", "model-fallbacks.json")).text(),
+		);
+		expect(state.limited).toEqual({ taskId: "task-7", index: 1 });
+	});
+
+	test("leaves stalled agents to normal escalation when the pane shows no provider error", async () => {
+		writeSessionsToStore(tempRoot, [stalledSession()]);
+		const respawnMock = respawnTracker();
+
+		await tick(respawnMock.respawn, "Implementing rate limiting middleware...");
+
+		expect(respawnMock.calls).toEqual([]);
+		expect(readEvents(tempRoot).some((d) => d.type === "escalation")).toBe(true);
+	});
+
+	test("records exhaustion instead of re-slinging on the last model", async () => {
+		await Bun.write(
+			join(tempRoot, ".overstory", "model-fallbacks.json"),
+			JSON.stringify({ limited: { taskId: "task-7", index: 1 } }),
+		);
+		writeSessionsToStore(tempRoot, [stalledSession()]);
+		const respawnMock = respawnTracker();
+
+		await tick(respawnMock.respawn, "API Error: 429 rate_limit_error");
+
+		expect(respawnMock.calls).toEqual([]);
+		const events = readEvents(tempRoot);
+		expect(events.find((d) => d.type === "model_fallback_exhausted")?.model).toBe(
+			"openrouter/openai/gpt-5",
+		);
+		expect(events.some((d) => d.type === "escalation")).toBe(true);
+	});
+
+	test("acts on fallback requests left by the session-end hook", async () => {
+		writeSessionsToStore(tempRoot, [{ ...stalledSession(), state: "completed" }]);
+		await Bun.write(
+			join(tempRoot, ".overstory", "pending-fallbacks", "limited.json"),
+			JSON.stringify({ agentName: "limited", detail: "rate limited", requestedAt: "" }),
+		);
+		const respawnMock = respawnTracker();
+
+		await tick(respawnMock.respawn, "", tmuxAllDead());
+
+		expect(respawnMock.calls[0]?.slice(-2)).toEqual(["--model", "openrouter/openai/gpt-5"]);
+		expect(
+			await Bun.file(join(tempRoot, ".overstory", "pending-fallbacks", "limited.json")).exists(),
+		).toBe(false);
+		expect(readEvents(tempRoot).find((d) => d.type === "model_fallback")?.reason).toBe(
+			"rate limited",
+		);
+	});
+});
+
 // === Run completion detection tests ===
 
 describe("run completion detection", () => {
@@ -6,9 +6,9 @@
  * immediately escalating to AI triage:
  *
  *   Level 0 (warn):      Log warning via onHealthCheck callback, no direct action
- *   Level 1 (nudge):     Send tmux nudge via nudgeAgent()
+ *   Level 1 (nudge):     Send nudge via nudgeAgent() (tmux or RPC followUp)
  *   Level 2 (escalate):  Invoke Tier 1 AI triage (if tier1Enabled), else skip
- *   Level 3 (terminate): Kill tmux session
+ *   Level 3 (terminate): Kill tmux session (or abort the headless agent host)
  *
  * Phase 4 tier numbering:
  *   Tier 0 = Mechanical daemon (this file)
@@ -16,18 +16,64 @@
  *   Tier 2 = Monitor agent (not yet implemented)
  *   Tier 3 = Supervisor monitors (per-project)
  *
- * ZFC Principle: Observable state (tmux alive, pid alive) is the source of
- * truth. See health.ts for the full ZFC documentation.
+ * ZFC Principle: Observable state (tmux alive / agent host reachable, pid
+ * alive) is the source of truth. See health.ts for the full ZFC documentation.
  */
 
 import { join } from "node:path";
 import { nudgeAgent } from "../commands/nudge.ts";
+import { stopAgentSession } from "../commands/stop.ts";
 import { createEventStore } from "../events/store.ts";
+import { createMailClient } from "../mail/client.ts";
+import { ACK_REQUIRED_TYPES } from "../mail/receipts.ts";
+import { createMailStore } from "../mail/store.ts";
+import { createMetricsStore, type MetricsStore } from "../metrics/store.ts";
 import { createMulchClient } from "../mulch/client.ts";
+import {
+	createSessionControl,
+	type HeadlessControl,
+	headlessControl,
+	type SessionControl,
+} from "../runtimes/headless.ts";
 import { openSessionStore } from "../sessions/compat.ts";
-import type { AgentSession, EventStore, HealthCheck } from "../types.ts";
-import { isSessionAlive, killSession } from "../worktree/tmux.ts";
+import type { SessionStore } from "../sessions/store.ts";
+import type {
+	AgentSession,
+	BudgetConfig,
+	EventStore,
+	HealthCheck,
+	TriageAction,
+	TriageVerdict,
+} from "../types.ts";
+import { capturePaneContent, isSessionAlive, killSession } from "../worktree/tmux.ts";
+import { followUpTaskId, type MailAckPolicy, planAckFollowUps } from "./acks.ts";
+import {
+	budgetAlertKey,
+	collectAgentSpend,
+	describeBreach,
+	evaluateBudgets,
+	liveBudgetAlertKeys,
+} from "./budget.ts";
+import {
+	buildFallbackArgs,
+	clearFallbackRequest,
+	detectProviderError,
+	type FallbackPolicy,
+	getModelIndex,
+	readFallbackRequests,
+	recordModelIndex,
+} from "./fallback.ts";
 import { evaluateHealth, transitionState } from "./health.ts";
+import {
+	buildResumeArgs,
+	getRecoveryAttempts,
+	isRecoverable,
+	type RecoveryPolicy,
+	type RespawnFn,
+	recordRecoveryAttempt,
+	respawnAgent,
+	writeRecoveryHandoff,
+} from "./recovery.ts";
 import { triageAgent } from "./triage.ts";
 
 /** Maximum escalation level (terminate). */
@@ -246,6 +292,496 @@ async function checkRunCompletion(ctx: {
 	}
 }
 
+/**
+ * Read the set of soft budget limits already warned about (budget-alerts.json).
+ * Returns an empty set when the file is missing or unreadable.
+ */
+async function readBudgetAlerts(path: string): Promise<Set<string>> {
+	try {
+		const file = Bun.file(path);
+		if (!(await file.exists())) return new Set();
+		const parsed = JSON.parse(await file.text()) as unknown;
+		return new Set(Array.isArray(parsed) ? parsed.filter((k) => typeof k === "string") : []);
+	} catch {
+		return new Set();
+	}
+}
+
+/**
+ * Enforce budget ceilings against current spend. Fire-and-forget: never throws.
+ *
+ * Soft limit: warning mail + nudge to each affected agent, once per limit
+ * (deduplicated via budget-alerts.json, which keeps only keys that can still
+ * apply).
+ * Hard limit: each affected agent is stopped the same way `ov stop` does it,
+ * and an escalation is mailed to its parent (or the orchestrator).
+ */
+async function enforceBudgets(ctx: {
+	budget: BudgetConfig;
+	store: SessionStore;
+	metricsStore: MetricsStore;
+	overstoryDir: string;
+	root: string;
+	runId: string | null;
+	control: SessionControl;
+	nudge: (
+		projectRoot: string,
+		agentName: string,
+		message: string,
+		force: boolean,
+	) => Promise<{ delivered: boolean; reason?: string }>;
+	eventStore: EventStore | null;
+}): Promise<void> {
+	const { budget, store, metricsStore, overstoryDir, root, runId, control, nudge, eventStore } =
+		ctx;
+
+	const sessions = store.getAll();
+	const breaches = evaluateBudgets(
+		budget,
+		sessions,
+		collectAgentSpend(metricsStore, sessions),
+		runId,
+	);
+	if (breaches.length === 0) {
+		return;
+	}
+
+	const alertsPath = join(overstoryDir, "budget-alerts.json");
+	const live = liveBudgetAlertKeys(sessions, runId);
+	const alerted = new Set([...(await readBudgetAlerts(alertsPath))].filter((k) => live.has(k)));
+	const stopped = new Set<string>();
+
+	let mail: ReturnType<typeof createMailClient> | null = null;
+	try {
+		mail = createMailClient(createMailStore(join(overstoryDir, "mail.db")));
+	} catch {
+		// Mail unavailable — still stop agents, just without notifications
+	}
+
+	try {
+		for (const breach of breaches) {
+			const description = describeBreach(breach);
+			const data = {
+				scope: breach.scope,
+				key: breach.key,
+				spentUsd: breach.spentUsd,
+				limitUsd: breach.limitUsd,
+			};
+
+			if (breach.level === "hard") {
+				for (const session of breach.agents) {
+					if (stopped.has(session.agentName)) continue;
+					stopped.add(session.agentName);
+					try {
+						await stopAgentSession(store, session, control);
+					} catch {
+						// Session may have died between check and stop — not an error
+					}
+					try {
+						mail?.sendProtocol({
+							from: "watchdog",
+							to: session.parentAgent ?? "orchestrator",
+							subject: `[BUDGET] Stopped ${session.agentName}: hard limit reached`,
+							body: `The watchdog stopped ${session.agentName} because ${description}.`,
+							type: "escalation",
+							priority: "urgent",
+							payload: {
+								severity: "critical",
+								taskId: session.taskId || null,
+								context: description,
+							},
+						});
+					} catch {
+						// Mail failure is non-fatal
+					}
+					recordEvent(eventStore, {
+						runId,
+						agentName: session.agentName,
+						eventType: "custom",
+						level: "error",
+						data: { type: "escalation", action: "budget_stop", ...data },
+					});
+				}
+				continue;
+			}
+
+			const alertKey = budgetAlertKey(breach);
+			if (alerted.has(alertKey)) continue;
+			alerted.add(alertKey);
+
+			for (const session of breach.agents) {
+				try {
+					mail?.send({
+						from: "watchdog",
+						to: session.agentName,
+						subject: "[BUDGET] Soft limit reached",
+						body:
+							`Budget warning: ${description}. ` +
+							"Wrap up your current step, commit, and report status before the hard limit stops you.",
+						type: "status",
+						priority: "high",
+					});
+				} catch {
+					// Mail failure is non-fatal
+				}
+				try {
+					await nudge(
+						root,
+						session.agentName,
+						`[WATCHDOG] Budget warning: ${description}. Check your mail.`,
+						true, // force — skip debounce for watchdog nudges
+					);
+				} catch {
+					// Nudge delivery failure is non-fatal
+				}
+				recordEvent(eventStore, {
+					runId,
+					agentName: session.agentName,
+					eventType: "custom",
+					level: "warn",
+					data: { type: "budget_warning", ...data },
+				});
+			}
+		}
+	} finally {
+		mail?.close();
+	}
+
+	try {
+		await Bun.write(alertsPath, `${JSON.stringify([...alerted].sort(), null, "\t")}\n`);
+	} catch {
+		// Marker write failure is non-fatal
+	}
+}
+
+/**
+ * Re-deliver or escalate dispatch/assign mail not acknowledged in time
+ * (see acks.ts). Fire-and-forget: never throws.
+ *
+ * Re-delivery puts the message back in the recipient's inbox and nudges the
+ * recipient. Escalation mails the sender once and stops following the message.
+ */
+async function followUpUnackedMail(ctx: {
+	policy: MailAckPolicy;
+	sessions: AgentSession[];
+	overstoryDir: string;
+	root: string;
+	runId: string | null;
+	nudge: (
+		projectRoot: string,
+		agentName: string,
+		message: string,
+		force: boolean,
+	) => Promise<{ delivered: boolean; reason?: string }>;
+	eventStore: EventStore | null;
+}): Promise<void> {
+	const { policy, sessions, overstoryDir, root, runId, nudge, eventStore } = ctx;
+
+	let mailStore: ReturnType<typeof createMailStore>;
+	try {
+		mailStore = createMailStore(join(overstoryDir, "mail.db"));
+	} catch {
+		return; // Mail unavailable — nothing to follow up
+	}
+
+	try {
+		const before = new Date(Date.now() - policy.timeoutMs).toISOString();
+		const overdue = mailStore.getAwaitingAck([...ACK_REQUIRED_TYPES], before);
+		for (const followUp of planAckFollowUps(overdue, sessions, policy)) {
+			const { message } = followUp;
+			const data = {
+				messageId: message.id,
+				mailType: message.type,
+				from: message.from,
+				to: message.to,
+				redeliveries: message.redeliveries,
+			};
+
+			if (followUp.action === "redeliver") {
+				mailStore.redeliver(message.id);
+				try {
+					await nudge(
+						root,
+						message.to,
+						`[WATCHDOG] You have not acknowledged ${message.type} ${message.id} from ${message.from} ` +
+							`("${message.subject}"). Check your mail, then run: ov mail ack ${message.id}`,
+						true, // force — skip debounce for watchdog nudges
+					);
+				} catch {
+					// Nudge delivery failure is non-fatal; the message is back in the inbox
+				}
+				recordEvent(eventStore, {
+					runId,
+					agentName: message.to,
+					eventType: "custom",
+					level: "warn",
+					data: { type: "mail_redelivered", ...data },
+				});
+				continue;
+			}
+
+			mailStore.markEscalated(message.id);
+			sendWatchdogMail(root, {
+				to: message.from,
+				subject: `[WATCHDOG] Unacknowledged ${message.type} to ${message.to}: ${message.subject}`,
+				body:
+					`${message.to} never acknowledged ${message.type} ${message.id} ("${message.subject}", ` +
+					`sent ${message.createdAt}): ${followUp.reason}. ` +
+					`Check on ${message.to}, re-send the ${message.type}, or reassign the task.`,
+				severity: "warning",
+				taskId: followUpTaskId(message),
+			});
+			recordEvent(eventStore, {
+				runId,
+				agentName: message.to,
+				eventType: "custom",
+				level: "error",
+				data: { type: "escalation", action: "mail_unacked", reason: followUp.reason, ...data },
+			});
+		}
+	} catch {
+		// Mail follow-up failure must not break the daemon
+	} finally {
+		mailStore.close();
+	}
+}
+
+/**
+ * Retry a terminated session with a handoff (see recovery.ts). Fire-and-forget: never throws.
+ *
+ * Below the per-task cap: writes a checkpoint, re-slings the agent into its
+ * worktree, and mails a status note to the parent (or the orchestrator).
+ * At the cap, or if the re-sling fails: mails an escalation instead.
+ */
+async function recoverTerminatedSession(ctx: {
+	session: AgentSession;
+	root: string;
+	reason: "timeout" | "crash";
+	detail: string;
+	policy: RecoveryPolicy;
+	respawn: RespawnFn;
+	eventStore: EventStore | null;
+	runId: string | null;
+}): Promise<void> {
+	const { session, root, reason, detail, policy, respawn, eventStore, runId } = ctx;
+	if (!isRecoverable(session)) {
+		return;
+	}
+
+	const overstoryDir = join(root, ".overstory");
+	const parent = session.parentAgent ?? "orchestrator";
+	let mail: ReturnType<typeof createMailClient> | null = null;
+	try {
+		mail = createMailClient(createMailStore(join(overstoryDir, "mail.db")));
+	} catch {
+		// Mail unavailable — still recover, just without notifications
+	}
+
+	const escalate = (context: string): void => {
+		try {
+			mail?.sendProtocol({
+				from: "watchdog",
+				to: parent,
+				subject: `[RECOVERY] ${session.agentName} needs attention`,
+				body: `The watchdog terminated ${session.agentName} (${detail}). ${context}`,
+				type: "escalation",
+				priority: "urgent",
+				payload: { severity: "critical", taskId: session.taskId, context },
+			});
+		} catch {
+			// Mail failure is non-fatal
+		}
+		recordEvent(eventStore, {
+			runId,
+			agentName: session.agentName,
+			eventType: "custom",
+			level: "error",
+			data: { type: "escalation", action: "recovery_failed", reason, context },
+		});
+	};
+
+	try {
+		const previous = await getRecoveryAttempts(overstoryDir, session.taskId);
+		if (previous >= policy.maxAttemptsPerTask) {
+			escalate(
+				`Recovery cap reached (${previous}/${policy.maxAttemptsPerTask} attempts for ${session.taskId}); re-sling manually.`,
+			);
+			return;
+		}
+
+		await writeRecoveryHandoff({
+			root,
+			session,
+			reason,
+			detail,
+			baseBranch: policy.baseBranch,
+			eventStore,
+		});
+		const attempt = await recordRecoveryAttempt(overstoryDir, session.taskId);
+		const result = await respawn(await buildResumeArgs(root, session), root);
+		if (result.exitCode !== 0) {
+			escalate(`Re-sling failed: ${result.stderr || `exit code ${result.exitCode}`}`);
+			return;
+		}
+
+		try {
+			mail?.send({
+				from: "watchdog",
+				to: parent,
+				subject: `[RECOVERY] Restarted ${session.agentName}`,
+				body:
+					`The watchdog terminated ${session.agentName} (${detail}) and restarted it in ` +
+					`${session.branchName} from a checkpoint (attempt ${attempt}/${policy.maxAttemptsPerTask}).`,
+				type: "status",
+				priority: "high",
+			});
+		} catch {
+			// Mail failure is non-fatal
+		}
+		recordEvent(eventStore, {
+			runId,
+			agentName: session.agentName,
+			eventType: "custom",
+			level: "warn",
+			data: { type: "recovery", reason, attempt, maxAttempts: policy.maxAttemptsPerTask },
+		});
+	} catch (err) {
+		escalate(`Recovery error: ${err instanceof Error ? err.message : String(err)}`);
+	} finally {
+		mail?.close();
+	}
+}
+
+/** Pane lines scanned for provider errors in stalled or dying agents. */
+const PROVIDER_ERROR_SCAN_LINES = 20;
+
+/**
+ * Move an agent whose provider failed to the next model in its chain.
+ *
+ * Kills the session if it is still alive, writes a checkpoint, re-slings the
+ * agent on the next model (`ov sling --resume --model`) and records a
+ * `model_fallback` event. Returns false — leaving the session to the normal
+ * watchdog path — when the agent has no chain, is persistent, or has already
+ * used every model (recorded as `model_fallback_exhausted`).
+ */
+async function fallbackToNextModel(ctx: {
+	session: AgentSession;
+	root: string;
+	detail: string;
+	policy: FallbackPolicy;
+	store: SessionStore;
+	control: SessionControl;
+	respawn: RespawnFn;
+	eventStore: EventStore | null;
+	runId: string | null;
+}): Promise<boolean> {
+	const { session, root, detail, policy, store, control, respawn, eventStore, runId } = ctx;
+	const chain = policy.chains[session.capability];
+	if (!chain || chain.length < 2 || !isRecoverable(session)) {
+		return false;
+	}
+
+	const overstoryDir = join(root, ".overstory");
+	const index = await getModelIndex(overstoryDir, session);
+	const current = chain[index];
+	const next = chain[index + 1];
+	if (next === undefined) {
+		recordEvent(eventStore, {
+			runId,
+			agentName: session.agentName,
+			eventType: "custom",
+			level: "error",
+			data: { type: "model_fallback_exhausted", model: current ?? null, reason: detail, chain },
+		});
+		return false;
+	}
+
+	try {
+		if (await control.isAlive(session)) {
+			await control.kill(session);
+		}
+	} catch {
+		// Session may have died between check and kill — not an error
+	}
+	store.updateState(session.agentName, "zombie");
+	store.updateEscalation(session.agentName, 0, null);
+	session.state = "zombie";
+	session.escalationLevel = 0;
+	session.stalledSince = null;
+
+	try {
+		await writeRecoveryHandoff({
+			root,
+			session,
+			reason: "crash",
+			detail: `provider error on ${current}: ${detail}`,
+			baseBranch: policy.baseBranch,
+			eventStore,
+		});
+		await recordModelIndex(overstoryDir, session, index + 1);
+		const result = await respawn(await buildFallbackArgs(root, session, next), root);
+		if (result.exitCode !== 0) {
+			recordEvent(eventStore, {
+				runId,
+				agentName: session.agentName,
+				eventType: "custom",
+				level: "error",
+				data: {
+					type: "model_fallback_failed",
+					from: current,
+					to: next,
+					reason: detail,
+					error: result.stderr || `exit code ${result.exitCode}`,
+				},
+			});
+			return true;
+		}
+	} catch (err) {
+		recordEvent(eventStore, {
+			runId,
+			agentName: session.agentName,
+			eventType: "custom",
+			level: "error",
+			data: {
+				type: "model_fallback_failed",
+				from: current,
+				to: next,
+				reason: detail,
+				error: err instanceof Error ? err.message : String(err),
+			},
+		});
+		return true;
+	}
+
+	recordEvent(eventStore, {
+		runId,
+		agentName: session.agentName,
+		eventType: "custom",
+		level: "warn",
+		data: { type: "model_fallback", from: current, to: next, reason: detail },
+	});
+	return true;
+}
+
+/**
+ * Scan a live tmux session's pane for a provider error. Headless sessions
+ * have no pane and are only covered by the session-end hook.
+ */
+async function scanPaneForProviderError(
+	session: AgentSession,
+	capturePane: (name: string, lines?: number) => Promise<string | null>,
+): Promise<string | null> {
+	if (session.rpcEndpoint || !session.tmuxSession) {
+		return null;
+	}
+	try {
+		const content = await capturePane(session.tmuxSession, PROVIDER_ERROR_SCAN_LINES);
+		return content ? detectProviderError(content) : null;
+	} catch {
+		return null;
+	}
+}
+
 /** Options shared between startDaemon and runDaemonTick. */
 export interface DaemonOptions {
 	root: string;
@@ -253,18 +789,29 @@ export interface DaemonOptions {
 	zombieThresholdMs: number;
 	nudgeIntervalMs?: number;
 	tier1Enabled?: boolean;
+	/** Spend ceilings enforced on every tick (config.budget). Omit to disable. */
+	budget?: BudgetConfig;
+	/** Retry-with-handoff for terminated agents (config.watchdog.recovery). Omit to disable. */
+	recovery?: RecoveryPolicy;
+	/** Model fallback chains for agents whose provider fails. Omit to disable. */
+	fallback?: FallbackPolicy;
+	/** Re-delivery and escalation of unacknowledged dispatch/assign mail. Omit to disable. */
+	mailAcks?: MailAckPolicy;
 	onHealthCheck?: (check: HealthCheck) => void;
 	/** Dependency injection for testing. Uses real implementations when omitted. */
 	_tmux?: {
 		isSessionAlive: (name: string) => Promise<boolean>;
 		killSession: (name: string) => Promise<void>;
 	};
+	/** Dependency injection for testing. Uses the real agent host client for headless sessions when omitted. */
+	_headless?: HeadlessControl;
 	/** Dependency injection for testing. Uses real triageAgent when omitted. */
 	_triage?: (options: {
 		agentName: string;
 		root: string;
 		lastActivity: string;
-	}) => Promise<"retry" | "terminate" | "extend">;
+		tmuxSession: string;
+	}) => Promise<TriageVerdict>;
 	/** Dependency injection for testing. Uses real nudgeAgent when omitted. */
 	_nudge?: (
 		projectRoot: string,
@@ -274,6 +821,12 @@ export interface DaemonOptions {
 	) => Promise<{ delivered: boolean; reason?: string }>;
 	/** Dependency injection for testing. Overrides EventStore creation. */
 	_eventStore?: EventStore | null;
+	/** Dependency injection for testing. Overrides MetricsStore creation for budget checks. */
+	_metricsStore?: MetricsStore | null;
+	/** Dependency injection for testing. Uses real respawnAgent (`ov sling --resume`) when omitted. */
+	_respawn?: RespawnFn;
+	/** Dependency injection for testing. Uses real capturePaneContent when omitted. */
+	_capturePane?: (name: string, lines?: number) => Promise<string | null>;
 	/** Dependency injection for testing. Uses real recordFailure when omitted. */
 	_recordFailure?: (
 		root: string,
@@ -290,11 +843,17 @@ export interface DaemonOptions {
  * On each tick:
  * 1. Loads sessions from SessionStore (sessions.db)
  * 2. For each session (including zombies — ZFC requires re-checking observable
- *    state), checks tmux liveness and evaluates health
- * 3. For "terminate" actions: kills tmux session immediately
+ *    state), checks tmux (or headless agent host) liveness and evaluates health
+ * 3. For "terminate" actions: kills the session immediately
  * 4. For "investigate" actions: surfaces via onHealthCheck, no auto-kill
  * 5. For "escalate" actions: applies progressive nudging based on escalationLevel
  * 6. Persists updated session states back to SessionStore
+ * 7. Re-slings terminated agents from a checkpoint (if options.recovery is set)
+ * 8. Moves agents whose provider failed to the next model in their chain
+ *    (if options.fallback is set)
+ * 9. Enforces budget ceilings (if options.budget is set)
+ * 10. Re-delivers or escalates unacknowledged dispatch/assign mail
+ *     (if options.mailAcks is set)
  *
  * @param options.root - Project root directory (contains .overstory/)
  * @param options.intervalMs - Polling interval in milliseconds
@@ -302,6 +861,10 @@ export interface DaemonOptions {
  * @param options.zombieThresholdMs - Time after which an agent is considered a zombie
  * @param options.nudgeIntervalMs - Time between progressive nudge stage transitions (default 60000)
  * @param options.tier1Enabled - Whether Tier 1 AI triage is enabled (default false)
+ * @param options.budget - Spend ceilings to enforce (omit to disable)
+ * @param options.recovery - Retry-with-handoff policy for terminated agents (omit to disable)
+ * @param options.fallback - Model fallback chains for provider errors (omit to disable)
+ * @param options.mailAcks - Follow-up policy for unacknowledged dispatch/assign mail (omit to disable)
  * @param options.onHealthCheck - Optional callback for each health check result
  * @returns An object with a `stop` function to halt the daemon
  */
@@ -341,10 +904,15 @@ export async function runDaemonTick(options: DaemonOptions): Promise<void> {
 		tier1Enabled = false,
 		onHealthCheck,
 	} = options;
-	const tmux = options._tmux ?? { isSessionAlive, killSession };
+	const control = createSessionControl(
+		options._tmux ?? { isSessionAlive, killSession },
+		options._headless ?? headlessControl,
+	);
 	const triage = options._triage ?? triageAgent;
 	const nudge = options._nudge ?? nudgeAgent;
 	const recordFailureFn = options._recordFailure ?? recordFailure;
+	const respawn = options._respawn ?? respawnAgent;
+	const capturePane = options._capturePane ?? capturePaneContent;
 
 	const overstoryDir = join(root, ".overstory");
 	const { store } = openSessionStore(overstoryDir);
@@ -377,16 +945,41 @@ export async function runDaemonTick(options: DaemonOptions): Promise<void> {
 
 		const sessions = store.getAll();
 
+		// === Model fallback requests from the session-end hook ===
+		// Re-slung agents are skipped below; their replacement is checked next tick.
+		const fellBack = new Set<string>();
+		if (options.fallback) {
+			for (const request of await readFallbackRequests(overstoryDir)) {
+				await clearFallbackRequest(overstoryDir, request.agentName);
+				const session = sessions.find((s) => s.agentName === request.agentName);
+				if (!session) continue;
+				const moved = await fallbackToNextModel({
+					session,
+					root,
+					detail: request.detail,
+					policy: options.fallback,
+					store,
+					control,
+					respawn,
+					eventStore,
+					runId,
+				});
+				if (moved) fellBack.add(session.agentName);
+			}
+		}
+
 		for (const session of sessions) {
 			// Skip completed sessions — they are terminal and don't need monitoring
-			if (session.state === "completed") {
+			if (session.state === "completed" || fellBack.has(session.agentName)) {
 				continue;
 			}
+			const wasZombie = session.state === "zombie";
 
 			// ZFC: Don't skip zombies. Re-check tmux liveness on every tick.
 			// A zombie with a live tmux session needs investigation, not silence.
+			// Headless sessions answer the same question via their agent host.
 
-			const tmuxAlive = await tmux.isSessionAlive(session.tmuxSession);
+			const tmuxAlive = await control.isAlive(session);
 			const check = evaluateHealth(session, tmuxAlive, thresholds);
 
 			// Transition state forward only (investigate action holds state)
@@ -400,15 +993,41 @@ export async function runDaemonTick(options: DaemonOptions): Promise<void> {
 				onHealthCheck(check);
 			}
 
+			// A stalled or dying agent whose pane shows a provider error moves to
+			// the next model in its chain instead of being nudged or killed.
+			if (
+				options.fallback &&
+				tmuxAlive &&
+				(check.action === "escalate" || check.action === "terminate")
+			) {
+				const providerError = await scanPaneForProviderError(session, capturePane);
+				if (
+					providerError &&
+					(await fallbackToNextModel({
+						session,
+						root,
+						detail: providerError,
+						policy: options.fallback,
+						store,
+						control,
+						respawn,
+						eventStore,
+						runId,
+					}))
+				) {
+					continue;
+				}
+			}
+
 			if (check.action === "terminate") {
 				// Record the failure via mulch (Tier 0 detection)
 				const reason = check.reconciliationNote ?? "Process terminated";
 				await recordFailureFn(root, session, reason, 0);
 
-				// Kill the tmux session if it's still alive
+				// Kill the session if it's still alive
 				if (tmuxAlive) {
 					try {
-						await tmux.killSession(session.tmuxSession);
+						await control.kill(session);
 					} catch {
 						// Session may have died between check and kill — not an error
 					}
@@ -419,6 +1038,20 @@ export async function runDaemonTick(options: DaemonOptions): Promise<void> {
 				session.state = "zombie";
 				session.escalationLevel = 0;
 				session.stalledSince = null;
+
+				// Zombies are re-checked every tick; only recover on the first termination
+				if (options.recovery && !wasZombie) {
+					await recoverTerminatedSession({
+						session,
+						root,
+						reason: check.processAlive ? "timeout" : "crash",
+						detail: reason,
+						policy: options.recovery,
+						respawn,
+						eventStore,
+						runId,
+					});
+				}
 			} else if (check.action === "investigate") {
 				// ZFC: tmux alive but SessionStore says zombie.
 				// Log the conflict but do NOT auto-kill.
@@ -453,11 +1086,12 @@ export async function runDaemonTick(options: DaemonOptions): Promise<void> {
 					root,
 					tmuxAlive,
 					tier1Enabled,
-					tmux,
+					control,
 					triage,
 					nudge,
 					eventStore,
 					runId,
+					recoveryEnabled: Boolean(options.recovery),
 					recordFailure: recordFailureFn,
 				});
 
@@ -467,6 +1101,19 @@ export async function runDaemonTick(options: DaemonOptions): Promise<void> {
 					session.state = "zombie";
 					session.escalationLevel = 0;
 					session.stalledSince = null;
+
+					if (options.recovery && actionResult.recoverDetail !== null) {
+						await recoverTerminatedSession({
+							session,
+							root,
+							reason: "timeout",
+							detail: actionResult.recoverDetail,
+							policy: options.recovery,
+							respawn,
+							eventStore,
+							runId,
+						});
+					}
 				}
 			} else if (check.action === "none" && session.stalledSince !== null) {
 				// Agent recovered — reset escalation tracking
@@ -476,6 +1123,32 @@ export async function runDaemonTick(options: DaemonOptions): Promise<void> {
 			}
 		}
 
+		// === Budget enforcement ===
+		if (options.budget) {
+			await runBudgetCheck(options, {
+				store,
+				overstoryDir,
+				root,
+				runId,
+				control,
+				nudge,
+				eventStore,
+			});
+		}
+
+		// === Unacknowledged dispatch/assign mail ===
+		if (options.mailAcks) {
+			await followUpUnackedMail({
+				policy: options.mailAcks,
+				sessions: store.getAll(),
+				overstoryDir,
+				root,
+				runId,
+				nudge,
+				eventStore,
+			});
+		}
+
 		// === Run-level completion detection ===
 		// After monitoring individual sessions, check if the entire run is done.
 		if (runId) {
@@ -502,29 +1175,55 @@ export async function runDaemonTick(options: DaemonOptions): Promise<void> {
 }
 
 /**
- * Execute the escalation action corresponding to the agent's current escalation level.
- *
- * Level 0 (warn):      No direct action — onHealthCheck callback already fired above.
- * Level 1 (nudge):     Send a tmux nudge to the agent.
- * Level 2 (escalate):  Invoke Tier 1 AI triage (if tier1Enabled; skip otherwise).
- * Level 3 (terminate): Kill the tmux session.
- *
- * @returns Object indicating whether the agent was terminated or state changed.
+ * Open metrics.db (or use the injected store) and enforce budgets. Never throws.
  */
-async function executeEscalationAction(ctx: {
+async function runBudgetCheck(
+	options: DaemonOptions,
+	ctx: Omit<Parameters<typeof enforceBudgets>[0], "budget" | "metricsStore">,
+): Promise<void> {
+	const budget = options.budget;
+	if (!budget) return;
+
+	let metricsStore: MetricsStore | null = null;
+	const useInjected = options._metricsStore !== undefined;
+	try {
+		if (useInjected) {
+			metricsStore = options._metricsStore ?? null;
+		} else {
+			const metricsDbPath = join(ctx.overstoryDir, "metrics.db");
+			if (await Bun.file(metricsDbPath).exists()) {
+				metricsStore = createMetricsStore(metricsDbPath);
+			}
+		}
+		if (metricsStore) {
+			await enforceBudgets({ ...ctx, budget, metricsStore });
+		}
+	} catch {
+		// Budget enforcement failure must not break the daemon
+	} finally {
+		if (metricsStore && !useInjected) {
+			try {
+				metricsStore.close();
+			} catch {
+				// Non-fatal
+			}
+		}
+	}
+}
+
+/** Dependencies and state shared by the escalation and triage handlers. */
+interface EscalationContext {
 	session: AgentSession;
 	root: string;
 	tmuxAlive: boolean;
 	tier1Enabled: boolean;
-	tmux: {
-		isSessionAlive: (name: string) => Promise<boolean>;
-		killSession: (name: string) => Promise<void>;
-	};
+	control: SessionControl;
 	triage: (options: {
 		agentName: string;
 		root: string;
 		lastActivity: string;
-	}) => Promise<"retry" | "terminate" | "extend">;
+		tmuxSession: string;
+	}) => Promise<TriageVerdict>;
 	nudge: (
 		projectRoot: string,
 		agentName: string,
@@ -533,6 +1232,8 @@ async function executeEscalationAction(ctx: {
 	) => Promise<{ delivered: boolean; reason?: string }>;
 	eventStore: EventStore | null;
 	runId: string | null;
+	/** Whether terminated sessions are re-slung (watchdog recovery is configured). */
+	recoveryEnabled: boolean;
 	recordFailure: (
 		root: string,
 		session: AgentSession,
@@ -540,13 +1241,50 @@ async function executeEscalationAction(ctx: {
 		tier: 0 | 1,
 		triageSuggestion?: string,
 	) => Promise<void>;
-}): Promise<{ terminated: boolean; stateChanged: boolean }> {
+}
+
+/** Outcome of an escalation step. */
+interface EscalationResult {
+	terminated: boolean;
+	stateChanged: boolean;
+	/** Set when the terminated agent should be re-slung (watchdog recovery); the reason shown to it. */
+	recoverDetail: string | null;
+}
+
+/** Terminate and reassign discard the session; below this confidence a human decides instead. */
+const MIN_DESTRUCTIVE_CONFIDENCE = 0.5;
+
+/**
+ * The action the daemon takes for a verdict: low-confidence terminate or
+ * reassign verdicts are downgraded to escalate.
+ */
+export function effectiveTriageAction(verdict: TriageVerdict): TriageAction {
+	if (
+		(verdict.action === "terminate" || verdict.action === "reassign") &&
+		verdict.confidence < MIN_DESTRUCTIVE_CONFIDENCE
+	) {
+		return "escalate";
+	}
+	return verdict.action;
+}
+
+/**
+ * Execute the escalation action corresponding to the agent's current escalation level.
+ *
+ * Level 0 (warn):      No direct action — onHealthCheck callback already fired above.
+ * Level 1 (nudge):     Nudge the agent (tmux send-keys or RPC followUp).
+ * Level 2 (escalate):  Invoke Tier 1 AI triage (if tier1Enabled; skip otherwise).
+ * Level 3 (terminate): Kill the session.
+ *
+ * @returns Object indicating whether the agent was terminated or state changed.
+ */
+async function executeEscalationAction(ctx: EscalationContext): Promise<EscalationResult> {
 	const {
 		session,
 		root,
 		tmuxAlive,
 		tier1Enabled,
-		tmux,
+		control,
 		triage,
 		nudge,
 		eventStore,
@@ -564,11 +1302,11 @@ async function executeEscalationAction(ctx: {
 				level: "warn",
 				data: { type: "escalation", escalationLevel: 0, action: "warn" },
 			});
-			return { terminated: false, stateChanged: false };
+			return { terminated: false, stateChanged: false, recoverDetail: null };
 		}
 
 		case 1: {
-			// Level 1: nudge — send a tmux nudge to the agent
+			// Level 1: nudge — send a nudge to the agent
 			let delivered = false;
 			try {
 				const result = await nudge(
@@ -588,65 +1326,46 @@ async function executeEscalationAction(ctx: {
 				level: "warn",
 				data: { type: "nudge", escalationLevel: 1, delivered },
 			});
-			return { terminated: false, stateChanged: false };
+			return { terminated: false, stateChanged: false, recoverDetail: null };
 		}
 
 		case 2: {
 			// Level 2: escalate — invoke Tier 1 AI triage if enabled
 			if (!tier1Enabled) {
 				// Tier 1 disabled — skip triage, progressive nudging continues to level 3
-				return { terminated: false, stateChanged: false };
+				return { terminated: false, stateChanged: false, recoverDetail: null };
 			}
 
 			const verdict = await triage({
 				agentName: session.agentName,
 				root,
 				lastActivity: session.lastActivity,
+				// Headless sessions have no pane to capture (tmuxSession is "")
+				tmuxSession: session.tmuxSession,
 			});
+			const action = effectiveTriageAction(verdict);
 
 			recordEvent(eventStore, {
 				runId,
 				agentName: session.agentName,
 				eventType: "custom",
 				level: "warn",
-				data: { type: "triage", escalationLevel: 2, verdict },
+				data: {
+					type: "triage",
+					escalationLevel: 2,
+					verdict: action,
+					suggested: verdict.action,
+					rootCause: verdict.rootCause,
+					confidence: verdict.confidence,
+					reasoning: verdict.reasoning,
+				},
 			});
 
-			if (verdict === "terminate") {
-				// Record the failure via mulch (Tier 1 AI triage)
-				await recordFailure(root, session, "AI triage classified as terminal failure", 1, verdict);
-
-				if (tmuxAlive) {
-					try {
-						await tmux.killSession(session.tmuxSession);
-					} catch {
-						// Session may have died — not an error
-					}
-				}
-				return { terminated: true, stateChanged: true };
-			}
-
-			if (verdict === "retry") {
-				// Send a nudge with a recovery message
-				try {
-					await nudge(
-						root,
-						session.agentName,
-						"[WATCHDOG] Triage suggests recovery is possible. " +
-							"Please retry your current operation or check for errors.",
-						true, // force — skip debounce
-					);
-				} catch {
-					// Nudge delivery failure is non-fatal
-				}
-			}
-
-			// "retry" (after nudge) and "extend" leave the session running
-			return { terminated: false, stateChanged: false };
+			return actOnTriageVerdict({ ...ctx, verdict, action });
 		}
 
 		default: {
-			// Level 3+: terminate — kill the tmux session
+			// Level 3+: terminate — kill the session
 			recordEvent(eventStore, {
 				runId,
 				agentName: session.agentName,
@@ -660,12 +1379,223 @@ async function executeEscalationAction(ctx: {
 
 			if (tmuxAlive) {
 				try {
-					await tmux.killSession(session.tmuxSession);
+					await control.kill(session);
 				} catch {
 					// Session may have died — not an error
 				}
 			}
-			return { terminated: true, stateChanged: true };
+			return {
+				terminated: true,
+				stateChanged: true,
+				recoverDetail: "stalled through every escalation level",
+			};
+		}
+	}
+}
+
+/**
+ * Send one watchdog mail. Fire-and-forget: never throws.
+ */
+function sendWatchdogMail(
+	root: string,
+	message: {
+		to: string;
+		subject: string;
+		body: string;
+		severity: "warning" | "error" | "critical";
+		taskId: string | null;
+	},
+): void {
+	try {
+		const mail = createMailClient(createMailStore(join(root, ".overstory", "mail.db")));
+		try {
+			mail.sendProtocol({
+				from: "watchdog",
+				to: message.to,
+				subject: message.subject,
+				body: message.body,
+				type: "escalation",
+				priority: message.severity === "warning" ? "high" : "urgent",
+				payload: { severity: message.severity, taskId: message.taskId, context: message.body },
+			});
+		} finally {
+			mail.close();
+		}
+	} catch {
+		// Mail failure is non-fatal
+	}
+}
+
+/** Triage deliveries per agent: the stall they were sent for and the actions delivered. */
+type TriageDeliveries = Record<string, { stalledSince: string; actions: string[] }>;
+
+/**
+ * Claim the delivery of a triage action for the agent's current stall
+ * (triage-deliveries.json). Triage runs on every tick at level 2, so without
+ * this each tick would repeat the same mail or nudge. Returns false when the
+ * action was already delivered since `stalledSince`.
+ */
+async function claimTriageDelivery(
+	root: string,
+	session: AgentSession,
+	action: TriageAction,
+): Promise<boolean> {
+	if (session.stalledSince === null) return true;
+	const path = join(root, ".overstory", "triage-deliveries.json");
+	let deliveries: TriageDeliveries = {};
+	try {
+		const file = Bun.file(path);
+		if (await file.exists()) {
+			const parsed = JSON.parse(await file.text()) as unknown;
+			if (parsed !== null && typeof parsed === "object") deliveries = parsed as TriageDeliveries;
+		}
+	} catch {
+		// Unreadable file — deliver again rather than stay silent
+	}
+
+	const previous = deliveries[session.agentName];
+	const actions = previous?.stalledSince === session.stalledSince ? previous.actions : [];
+	if (actions.includes(action)) return false;
+	deliveries[session.agentName] = {
+		stalledSince: session.stalledSince,
+		actions: [...actions, action],
+	};
+	try {
+		await Bun.write(path, `${JSON.stringify(deliveries, null, "\t")}\n`);
+	} catch {
+		// Marker write failure is non-fatal
+	}
+	return true;
+}
+
+/**
+ * Carry out a Tier 1 triage verdict for a stalled agent.
+ *
+ * nudge:     Nudge the agent with the verdict's guidance.
+ * split:     Ask the parent to split the task; nudge the agent to commit and report.
+ * escalate:  Mail the orchestrator (human) with the diagnosis.
+ * reassign:  Kill the session; it is re-slung from a checkpoint when recovery is
+ *            enabled, otherwise the parent is asked to reassign the task.
+ * terminate: Kill the session. The task is not retried.
+ * extend:    Leave the agent running.
+ *
+ * The nudge, split and escalate messages are delivered once per stall.
+ */
+async function actOnTriageVerdict(
+	ctx: EscalationContext & { verdict: TriageVerdict; action: TriageAction },
+): Promise<EscalationResult> {
+	const {
+		session,
+		root,
+		tmuxAlive,
+		control,
+		nudge,
+		recordFailure,
+		recoveryEnabled,
+		verdict,
+		action,
+	} = ctx;
+	const parent = session.parentAgent ?? "orchestrator";
+	const taskId = session.taskId || null;
+	const diagnosis = `root cause: ${verdict.rootCause}, confidence ${verdict.confidence.toFixed(2)}${verdict.reasoning ? ` — ${verdict.reasoning}` : ""}`;
+	const nudgeAgentSafely = async (message: string): Promise<void> => {
+		try {
+			await nudge(root, session.agentName, message, true); // force — skip debounce
+		} catch {
+			// Nudge delivery failure is non-fatal
+		}
+	};
+	const killAgent = async (): Promise<void> => {
+		if (tmuxAlive) {
+			try {
+				await control.kill(session);
+			} catch {
+				// Session may have died — not an error
+			}
 		}
+	};
+
+	if (
+		(action === "nudge" || action === "split" || action === "escalate") &&
+		!(await claimTriageDelivery(root, session, action))
+	) {
+		return { terminated: false, stateChanged: false, recoverDetail: null };
+	}
+
+	switch (action) {
+		case "nudge":
+			await nudgeAgentSafely(
+				verdict.nudgeMessage
+					? `[WATCHDOG] ${verdict.nudgeMessage}`
+					: "[WATCHDOG] Triage suggests recovery is possible. " +
+							"Please retry your current operation or check for errors.",
+			);
+			return { terminated: false, stateChanged: false, recoverDetail: null };
+
+		case "split":
+			sendWatchdogMail(root, {
+				to: parent,
+				subject: `[TRIAGE] Split task ${session.taskId || "(none)"}`,
+				body: `Triage suggests ${session.agentName}'s task is too large for one agent and should be split (${diagnosis}).`,
+				severity: "warning",
+				taskId,
+			});
+			await nudgeAgentSafely(
+				`[WATCHDOG] ${verdict.nudgeMessage ?? "Your task is being split."} ` +
+					`Commit your progress and report status to ${parent}.`,
+			);
+			return { terminated: false, stateChanged: false, recoverDetail: null };
+
+		case "escalate":
+			sendWatchdogMail(root, {
+				to: "orchestrator",
+				subject: `[TRIAGE] ${session.agentName} needs a human decision`,
+				body:
+					`${session.agentName} is stalled and triage recommends human attention` +
+					` (${diagnosis}, suggested action: ${verdict.action}).`,
+				severity: "critical",
+				taskId,
+			});
+			return { terminated: false, stateChanged: false, recoverDetail: null };
+
+		case "reassign":
+			await recordFailure(
+				root,
+				session,
+				`AI triage recommended reassignment (${verdict.rootCause})`,
+				1,
+				verdict.action,
+			);
+			await killAgent();
+			// With recovery, the re-sling (or its escalation) reports to the parent
+			if (!recoveryEnabled || !isRecoverable(session)) {
+				sendWatchdogMail(root, {
+					to: parent,
+					subject: `[TRIAGE] Reassign task ${session.taskId || "(none)"}`,
+					body: `The watchdog stopped ${session.agentName} so its task can be reassigned (${diagnosis}).`,
+					severity: "error",
+					taskId,
+				});
+			}
+			return {
+				terminated: true,
+				stateChanged: true,
+				recoverDetail: `triage recommended a fresh session: ${verdict.reasoning || verdict.rootCause}`,
+			};
+
+		case "terminate":
+			await recordFailure(
+				root,
+				session,
+				`AI triage classified as terminal failure (${verdict.rootCause})`,
+				1,
+				verdict.action,
+			);
+			await killAgent();
+			return { terminated: true, stateChanged: true, recoverDetail: null };
+
+		default:
+			// "extend" leaves the session running
+			return { terminated: false, stateChanged: false, recoverDetail: null };
 	}
 }
@@ -0,0 +1,115 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { cleanupTempDir } from "../test-helpers.ts";
+import type { AgentSession } from "../types.ts";
+import {
+	buildFallbackArgs,
+	clearFallbackRequest,
+	detectProviderError,
+	detectTranscriptProviderError,
+	getModelIndex,
+	readFallbackRequests,
+	recordModelIndex,
+	requestModelFallback,
+} from "./fallback.ts";
+
+function makeSession(overrides: Partial<AgentSession> = {}): AgentSession {
+	return {
+		id: "session-1",
+		agentName: "builder-1",
+		capability: "builder",
+		worktreePath: "/tmp/test",
+		branchName: "overstory/builder-1/task-1",
+		taskId: "task-1",
+		tmuxSession: "overstory-builder-1",
+		state: "working",
+		pid: null,
+		parentAgent: null,
+		depth: 1,
+		runId: null,
+		escalationLevel: 0,
+		stalledSince: null,
+		transcriptPath: null,
+		rpcEndpoint: null,
+		runtime: null,
+		startedAt: new Date().toISOString(),
+		lastActivity: new Date().toISOString(),
+		...overrides,
+	};
+}
+
+describe("detectProviderError", () => {
+	test("labels rate limits, overloads, outages and quota errors", () => {
+		expect(detectProviderError("API Error: 429 rate_limit_error")).toBe("rate limited");
+		expect(detectProviderError('{"type":"overloaded_error"}')).toBe("provider overloaded");
+		expect(detectProviderError("API Error: 503 Service Unavailable")).toBe("provider unavailable");
+		expect(detectProviderError("Claude usage limit reached")).toBe("quota exhausted");
+		expect(detectProviderError("API Error: Connection error.")).toBe("provider unreachable");
+	});
+
+	test("ignores ordinary text about rate limiting", () => {
+		expect(detectProviderError("Added a rate limiter returning 429 to the API")).toBeNull();
+	});
+});
+
+describe("with a temp dir", () => {
+	let tempDir: string;
+
+	beforeEach(async () => {
+		tempDir = await mkdtemp(join(tmpdir(), "fallback-test-"));
+	});
+
+	afterEach(async () => {
+		await cleanupTempDir(tempDir);
+	});
+
+	test("detectTranscriptProviderError only considers trailing error entries", async () => {
+		const path = join(tempDir, "transcript.jsonl");
+		const assistant = (text: string, extra: Record<string, unknown> = {}) =>
+			JSON.stringify({
+				type: "assistant",
+				message: { content: [{ type: "text", text }] },
+				...extra,
+			});
+
+		await Bun.write(path, `${assistant("Handled API Error: 429 from upstream in the client")}\n`);
+		expect(await detectTranscriptProviderError(path)).toBeNull();
+
+		await Bun.write(
+			path,
+			[
+				assistant("Working on it"),
+				assistant('API Error: 529 {"type":"overloaded_error"}', { isApiErrorMessage: true }),
+			].join("\n"),
+		);
+		expect(await detectTranscriptProviderError(path)).toBe("provider overloaded");
+		expect(await detectTranscriptProviderError(join(tempDir, "missing.jsonl"))).toBeNull();
+	});
+
+	test("model index is tracked per agent and task", async () => {
+		const session = makeSession();
+		expect(await getModelIndex(tempDir, session)).toBe(0);
+
+		await recordModelIndex(tempDir, session, 1);
+		expect(await getModelIndex(tempDir, session)).toBe(1);
+		expect(await getModelIndex(tempDir, makeSession({ taskId: "task-2" }))).toBe(0);
+	});
+
+	test("fallback requests round-trip through pending-fallbacks/", async () => {
+		await requestModelFallback(tempDir, "builder-1", "rate limited");
+		const requests = await readFallbackRequests(tempDir);
+		expect(requests).toHaveLength(1);
+		expect(requests[0]).toMatchObject({ agentName: "builder-1", detail: "rate limited" });
+
+		await clearFallbackRequest(tempDir, "builder-1");
+		expect(await readFallbackRequests(tempDir)).toEqual([]);
+	});
+
+	test("buildFallbackArgs appends the model to the resume arguments", async () => {
+		const args = await buildFallbackArgs(tempDir, makeSession(), "openrouter/openai/gpt-5");
+		expect(args).toContain("--resume");
+		expect(args.slice(-2)).toEqual(["--model", "openrouter/openai/gpt-5"]);
+	});
+});
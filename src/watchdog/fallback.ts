@@ -0,0 +1,204 @@
+/**
+ * Model fallback for agents whose provider fails.
+ *
+ * An agent's model may be an ordered chain (`AgentDefinition.model` or
+ * `models.<role>` in config.yaml as a list). When the provider behind the
+ * current model is rate-limited, overloaded or down:
+ *
+ *   1. The watchdog sees the error in a stalled or dying agent's tmux pane,
+ *      or the session-end hook sees it at the end of the transcript and leaves
+ *      a request in .overstory/pending-fallbacks/<agent>.json.
+ *   2. The daemon writes a checkpoint and handoff (recovery.ts) and re-slings
+ *      the agent into its worktree on the next model in the chain
+ *      (`ov sling --resume --model <ref>`).
+ *   3. The switch is recorded as a `model_fallback` event.
+ *
+ * The chain position per agent and task is kept in
+ * .overstory/model-fallbacks.json. The daemon (daemon.ts) drives this module.
+ */
+
+import { mkdir, readdir, unlink } from "node:fs/promises";
+import { join } from "node:path";
+import type { AgentSession, ModelRef } from "../types.ts";
+import { buildResumeArgs } from "./recovery.ts";
+
+/** Fallback settings passed to the daemon (resolved from config + manifest). */
+export interface FallbackPolicy {
+	/** Capability → model chain. Only chains with more than one model are useful. */
+	chains: Record<string, ModelRef[]>;
+	/** Branch the agent's work is diffed against (config.project.canonicalBranch). */
+	baseBranch: string;
+}
+
+/** A fallback request left by the session-end hook for the daemon. */
+export interface FallbackRequest {
+	agentName: string;
+	/** What the hook saw (e.g. "rate limited"). */
+	detail: string;
+	requestedAt: string;
+}
+
+const STATE_FILENAME = "model-fallbacks.json";
+const REQUESTS_DIRNAME = "pending-fallbacks";
+
+/** Transcript lines scanned from the end for provider error entries. */
+const TRANSCRIPT_TAIL_LINES = 5;
+
+/**
+ * Provider failure signatures. Kept specific (error type names and
+ * "API Error: <status>" prefixes) so an agent discussing rate limiting in
+ * its own work is not mistaken for a failing provider.
+ */
+const PROVIDER_ERROR_PATTERNS: ReadonlyArray<{ pattern: RegExp; label: string }> = [
+	{
+		pattern: /rate_limit_error|API Error: 429|429 Too Many Requests|rate limit exceeded/i,
+		label: "rate limited",
+	},
+	{
+		pattern: /usage limit reached|insufficient_quota|credit balance is too low/i,
+		label: "quota exhausted",
+	},
+	{ pattern: /overloaded_error|API Error: 529/i, label: "provider overloaded" },
+	{
+		pattern: /API Error: 5\d\d|503 Service Unavailable|502 Bad Gateway/i,
+		label: "provider unavailable",
+	},
+	{
+		pattern: /API Error: Connection error|Unable to connect to API/i,
+		label: "provider unreachable",
+	},
+];
+
+/**
+ * Find a provider failure in pane or transcript text.
+ *
+ * @returns A short label (e.g. "rate limited"), or null if none matched
+ */
+export function detectProviderError(text: string): string | null {
+	for (const { pattern, label } of PROVIDER_ERROR_PATTERNS) {
+		if (pattern.test(text)) {
+			return label;
+		}
+	}
+	return null;
+}
+
+/**
+ * Check the last transcript entries for a provider error. Only error entries
+ * are considered: Claude's `isApiErrorMessage`, `"type": "error"` events, and
+ * entries with an `error` field.
+ *
+ * @returns A short label, or null if the transcript does not end in a provider error
+ */
+export async function detectTranscriptProviderError(path: string): Promise<string | null> {
+	const file = Bun.file(path);
+	if (!(await file.exists())) {
+		return null;
+	}
+	const lines = (await file.text())
+		.split("\n")
+		.filter((l) => l.trim().length > 0)
+		.slice(-TRANSCRIPT_TAIL_LINES);
+
+	for (const line of lines.reverse()) {
+		let entry: Record<string, unknown>;
+		try {
+			entry = JSON.parse(line) as Record<string, unknown>;
+		} catch {
+			continue;
+		}
+		if (entry.isApiErrorMessage === true || entry.type === "error" || entry.error !== undefined) {
+			const label = detectProviderError(line);
+			if (label) return label;
+		}
+	}
+	return null;
+}
+
+type FallbackState = Record<string, { taskId: string; index: number }>;
+
+async function readState(overstoryDir: string): Promise<FallbackState> {
+	const file = Bun.file(join(overstoryDir, STATE_FILENAME));
+	if (!(await file.exists())) {
+		return {};
+	}
+	try {
+		const parsed: unknown = JSON.parse(await file.text());
+		return parsed !== null && typeof parsed === "object" ? (parsed as FallbackState) : {};
+	} catch {
+		return {};
+	}
+}
+
+/** Position in the model chain a session is running on (0 = primary). */
+export async function getModelIndex(overstoryDir: string, session: AgentSession): Promise<number> {
+	const entry = (await readState(overstoryDir))[session.agentName];
+	return entry && entry.taskId === session.taskId ? entry.index : 0;
+}
+
+/** Record the chain position a session's replacement runs on. */
+export async function recordModelIndex(
+	overstoryDir: string,
+	session: AgentSession,
+	index: number,
+): Promise<void> {
+	const state = await readState(overstoryDir);
+	state[session.agentName] = { taskId: session.taskId, index };
+	await Bun.write(join(overstoryDir, STATE_FILENAME), `${JSON.stringify(state, null, "\t")}\n`);
+}
+
+/** Ask the daemon to move an agent to the next model (used by the session-end hook). */
+export async function requestModelFallback(
+	overstoryDir: string,
+	agentName: string,
+	detail: string,
+): Promise<void> {
+	const dir = join(overstoryDir, REQUESTS_DIRNAME);
+	await mkdir(dir, { recursive: true });
+	const request: FallbackRequest = { agentName, detail, requestedAt: new Date().toISOString() };
+	await Bun.write(join(dir, `${agentName}.json`), `${JSON.stringify(request, null, "\t")}\n`);
+}
+
+/** Read pending fallback requests. Malformed files are skipped. */
+export async function readFallbackRequests(overstoryDir: string): Promise<FallbackRequest[]> {
+	const dir = join(overstoryDir, REQUESTS_DIRNAME);
+	let names: string[];
+	try {
+		names = await readdir(dir);
+	} catch {
+		return [];
+	}
+	const requests: FallbackRequest[] = [];
+	for (const name of names.filter((n) => n.endsWith(".json")).sort()) {
+		try {
+			const parsed = JSON.parse(await Bun.file(join(dir, name)).text()) as FallbackRequest;
+			if (typeof parsed.agentName === "string" && typeof parsed.detail === "string") {
+				requests.push(parsed);
+			}
+		} catch {
+			// Partial write or hand-edited file — ignore
+		}
+	}
+	return requests;
+}
+
+/** Remove an agent's pending fallback request, if any. */
+export async function clearFallbackRequest(overstoryDir: string, agentName: string): Promise<void> {
+	try {
+		await unlink(join(overstoryDir, REQUESTS_DIRNAME, `${agentName}.json`));
+	} catch {
+		// Already gone
+	}
+}
+
+/**
+ * Build the `ov sling` arguments that re-sling a session on another model:
+ * the recovery resume arguments plus `--model`.
+ */
+export async function buildFallbackArgs(
+	root: string,
+	session: AgentSession,
+	model: ModelRef,
+): Promise<string[]> {
+	return [...(await buildResumeArgs(root, session)), "--model", model];
+}
@@ -0,0 +1,200 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdir, mkdtemp } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { resumeFromHandoff } from "../agents/lifecycle.ts";
+import { createEventStore } from "../events/store.ts";
+import {
+	cleanupTempDir,
+	commitFile,
+	createTempGitRepo,
+	getDefaultBranch,
+	runGitInDir,
+} from "../test-helpers.ts";
+import type { AgentSession, StoredEvent } from "../types.ts";
+import {
+	buildResumeArgs,
+	getRecoveryAttempts,
+	isRecoverable,
+	listModifiedFiles,
+	recordRecoveryAttempt,
+	summarizeRecentActivity,
+	writeRecoveryHandoff,
+} from "./recovery.ts";
+
+function makeSession(overrides: Partial<AgentSession> = {}): AgentSession {
+	return {
+		id: "session-1",
+		agentName: "builder-1",
+		capability: "builder",
+		worktreePath: "/tmp/test",
+		branchName: "overstory/builder-1/task-1",
+		taskId: "task-1",
+		tmuxSession: "overstory-builder-1",
+		state: "zombie",
+		pid: null,
+		parentAgent: "lead-1",
+		depth: 2,
+		runId: null,
+		escalationLevel: 0,
+		stalledSince: null,
+		transcriptPath: null,
+		rpcEndpoint: null,
+		runtime: null,
+		startedAt: "2026-03-01T12:00:00.000Z",
+		lastActivity: "2026-03-01T12:00:00.000Z",
+		...overrides,
+	};
+}
+
+function makeEvent(overrides: Partial<StoredEvent> = {}): StoredEvent {
+	return {
+		id: 1,
+		runId: null,
+		agentName: "builder-1",
+		sessionId: null,
+		eventType: "tool_start",
+		toolName: "Bash",
+		toolArgs: JSON.stringify({ command: "bun test" }),
+		toolDurationMs: null,
+		level: "info",
+		data: null,
+		createdAt: "2026-03-01T12:00:00.000Z",
+		...overrides,
+	};
+}
+
+describe("isRecoverable", () => {
+	test("accepts task-bound workers and rejects persistent agents", () => {
+		expect(isRecoverable(makeSession())).toBe(true);
+		expect(isRecoverable(makeSession({ capability: "coordinator" }))).toBe(false);
+		expect(isRecoverable(makeSession({ taskId: "" }))).toBe(false);
+	});
+});
+
+describe("summarizeRecentActivity", () => {
+	test("summarizes tool starts and ignores other events", () => {
+		const summary = summarizeRecentActivity([
+			makeEvent(),
+			makeEvent({ eventType: "tool_end" }),
+			makeEvent({ eventType: "custom", toolName: null }),
+			makeEvent({ toolName: "UnknownTool", toolArgs: "not json" }),
+		]);
+		expect(summary).toBe("bash: bun test; UnknownTool");
+	});
+
+	test("keeps only the most recent tool calls", () => {
+		const events = Array.from({ length: 15 }, (_, i) =>
+			makeEvent({ toolArgs: JSON.stringify({ command: `step-${i}` }) }),
+		);
+		const summary = summarizeRecentActivity(events);
+		expect(summary.split("; ")).toHaveLength(10);
+		expect(summary.startsWith("bash: step-5")).toBe(true);
+	});
+});
+
+describe("recovery attempts", () => {
+	let tempDir: string;
+
+	beforeEach(async () => {
+		tempDir = await mkdtemp(join(tmpdir(), "overstory-recovery-test-"));
+	});
+
+	afterEach(async () => {
+		await cleanupTempDir(tempDir);
+	});
+
+	test("counts attempts per task", async () => {
+		expect(await getRecoveryAttempts(tempDir, "task-1")).toBe(0);
+		expect(await recordRecoveryAttempt(tempDir, "task-1")).toBe(1);
+		expect(await recordRecoveryAttempt(tempDir, "task-1")).toBe(2);
+		expect(await getRecoveryAttempts(tempDir, "task-1")).toBe(2);
+		expect(await getRecoveryAttempts(tempDir, "task-2")).toBe(0);
+	});
+
+	test("buildResumeArgs includes the task spec when one exists", async () => {
+		const session = makeSession({ parentAgent: null, depth: 0 });
+		expect(await buildResumeArgs(tempDir, session)).not.toContain("--spec");
+
+		const specPath = join(tempDir, ".overstory", "specs", "task-1.md");
+		await Bun.write(specPath, "# Spec\n");
+		const args = await buildResumeArgs(tempDir, session);
+		expect(args).toContain("--resume");
+		expect(args).not.toContain("--parent");
+		expect(args.slice(-2)).toEqual(["--spec", specPath]);
+	});
+
+	test("buildResumeArgs re-slings headless sessions headless", async () => {
+		const tmuxArgs = await buildResumeArgs(tempDir, makeSession());
+		expect(tmuxArgs).not.toContain("--headless");
+
+		const session = makeSession({ tmuxSession: "", rpcEndpoint: "/tmp/ov-1.sock" });
+		expect(await buildResumeArgs(tempDir, session)).toContain("--headless");
+	});
+
+	test("buildResumeArgs keeps the session's recorded runtime", async () => {
+		expect(await buildResumeArgs(tempDir, makeSession())).not.toContain("--runtime");
+
+		const args = await buildResumeArgs(tempDir, makeSession({ runtime: "codex" }));
+		expect(args).toContain("--runtime");
+		expect(args[args.indexOf("--runtime") + 1]).toBe("codex");
+	});
+});
+
+describe("writeRecoveryHandoff", () => {
+	let repoDir: string;
+	let baseBranch: string;
+
+	beforeEach(async () => {
+		repoDir = await createTempGitRepo();
+		baseBranch = await getDefaultBranch(repoDir);
+		await runGitInDir(repoDir, ["checkout", "-b", "overstory/builder-1/task-1"]);
+		await commitFile(repoDir, "src/committed.ts", "export {};\n");
+		await Bun.write(join(repoDir, "README.md"), "# changed\n");
+		await mkdir(join(repoDir, "notes"), { recursive: true });
+		await Bun.write(join(repoDir, "notes", "untracked.md"), "todo\n");
+	});
+
+	afterEach(async () => {
+		await cleanupTempDir(repoDir);
+	});
+
+	test("listModifiedFiles covers committed, uncommitted, and untracked changes", async () => {
+		expect(await listModifiedFiles(repoDir, baseBranch)).toEqual([
+			"README.md",
+			"notes/untracked.md",
+			"src/committed.ts",
+		]);
+	});
+
+	test("saves a checkpoint and a pending handoff from events and the diff", async () => {
+		const eventStore = createEventStore(join(repoDir, "events.db"));
+		try {
+			eventStore.insert({ ...makeEvent(), agentName: "builder-1" });
+			const session = makeSession({ worktreePath: repoDir, startedAt: "2000-01-01T00:00:00Z" });
+
+			const handoff = await writeRecoveryHandoff({
+				root: repoDir,
+				session,
+				reason: "timeout",
+				detail: "stalled",
+				baseBranch,
+				eventStore,
+			});
+
+			expect(handoff.reason).toBe("timeout");
+			expect(handoff.checkpoint.progressSummary).toContain("stalled");
+			expect(handoff.checkpoint.progressSummary).toContain("bash: bun test");
+			expect(handoff.checkpoint.filesModified).toContain("src/committed.ts");
+
+			const pending = await resumeFromHandoff({
+				agentsDir: join(repoDir, ".overstory", "agents"),
+				agentName: "builder-1",
+			});
+			expect(pending?.handoff.fromSessionId).toBe("session-1");
+			expect(pending?.checkpoint.currentBranch).toBe("overstory/builder-1/task-1");
+		} finally {
+			eventStore.close();
+		}
+	});
+});
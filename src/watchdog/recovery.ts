@@ -0,0 +1,222 @@
+/**
+ * Retry-with-handoff for agents terminated by the watchdog daemon.
+ *
+ * When the daemon kills a stuck or crashed agent and `watchdog.recovery` is
+ * enabled, the agent's task is not orphaned:
+ *
+ *   1. A SessionCheckpoint is written from the agent's recent events and the
+ *      files changed in its worktree, and a handoff is recorded
+ *      (agents/lifecycle.ts) with reason "timeout" or "crash".
+ *   2. A fresh session is slung into the same worktree and branch
+ *      (`ov sling --resume`). Its SessionStart `ov prime` injects the
+ *      checkpoint and completes the handoff.
+ *
+ * Attempts are counted per task in .overstory/recovery-attempts.json. Once
+ * the cap is reached the daemon escalates to the parent instead.
+ *
+ * The daemon (daemon.ts) drives this module and handles mail and events.
+ */
+
+import { join } from "node:path";
+import { initiateHandoff } from "../agents/lifecycle.ts";
+import { filterToolArgs } from "../events/tool-filter.ts";
+import type { AgentSession, EventStore, SessionHandoff, StoredEvent } from "../types.ts";
+
+/** Default recovery attempts per task when maxAttemptsPerTask is not configured. */
+export const DEFAULT_MAX_RECOVERY_ATTEMPTS = 2;
+
+/** Number of recent tool calls summarized into the checkpoint. */
+const ACTIVITY_LIMIT = 10;
+
+/** Capabilities that are never re-slung (persistent agents are not task-bound). */
+const NON_RECOVERABLE_CAPABILITIES = new Set(["coordinator", "monitor"]);
+
+/** Recovery settings passed to the daemon (resolved from config.watchdog.recovery). */
+export interface RecoveryPolicy {
+	maxAttemptsPerTask: number;
+	/** Branch the agent's work is diffed against (config.project.canonicalBranch). */
+	baseBranch: string;
+}
+
+/** Re-sling a session. Receives the `ov` arguments and the project root. */
+export type RespawnFn = (
+	args: string[],
+	root: string,
+) => Promise<{ exitCode: number; stderr: string }>;
+
+const ATTEMPTS_FILENAME = "recovery-attempts.json";
+
+/**
+ * Whether a terminated session can be re-slung: it must be bound to a task
+ * and not be a persistent agent.
+ */
+export function isRecoverable(session: AgentSession): boolean {
+	return session.taskId.length > 0 && !NON_RECOVERABLE_CAPABILITIES.has(session.capability);
+}
+
+async function readAttempts(overstoryDir: string): Promise<Record<string, number>> {
+	const file = Bun.file(join(overstoryDir, ATTEMPTS_FILENAME));
+	if (!(await file.exists())) {
+		return {};
+	}
+	try {
+		const parsed: unknown = JSON.parse(await file.text());
+		return parsed !== null && typeof parsed === "object" ? (parsed as Record<string, number>) : {};
+	} catch {
+		return {};
+	}
+}
+
+/** Number of recovery attempts already made for a task. */
+export async function getRecoveryAttempts(overstoryDir: string, taskId: string): Promise<number> {
+	return (await readAttempts(overstoryDir))[taskId] ?? 0;
+}
+
+/** Record one more recovery attempt for a task. Returns the new count. */
+export async function recordRecoveryAttempt(overstoryDir: string, taskId: string): Promise<number> {
+	const attempts = await readAttempts(overstoryDir);
+	const next = (attempts[taskId] ?? 0) + 1;
+	attempts[taskId] = next;
+	await Bun.write(
+		join(overstoryDir, ATTEMPTS_FILENAME),
+		`${JSON.stringify(attempts, null, "\t")}\n`,
+	);
+	return next;
+}
+
+/**
+ * Summarize an agent's most recent tool calls, oldest first,
+ * e.g. `bash: bun test; edit: src/foo.ts`.
+ */
+export function summarizeRecentActivity(events: readonly StoredEvent[]): string {
+	const summaries: string[] = [];
+	for (const event of events) {
+		if (event.eventType !== "tool_start" || event.toolName === null) continue;
+		let args: Record<string, unknown> = {};
+		try {
+			args = event.toolArgs ? (JSON.parse(event.toolArgs) as Record<string, unknown>) : {};
+		} catch {
+			// Unparseable args — summarize by tool name only
+		}
+		summaries.push(filterToolArgs(event.toolName, args).summary);
+	}
+	return summaries.slice(-ACTIVITY_LIMIT).join("; ");
+}
+
+async function git(cwd: string, args: string[]): Promise<string | null> {
+	try {
+		const proc = Bun.spawn(["git", ...args], { cwd, stdout: "pipe", stderr: "pipe" });
+		const [stdout, exitCode] = await Promise.all([new Response(proc.stdout).text(), proc.exited]);
+		return exitCode === 0 ? stdout : null;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * List files changed in a worktree since it forked from baseBranch:
+ * committed and uncommitted changes plus untracked files. Returns an empty
+ * list if git fails (e.g. the worktree is gone).
+ */
+export async function listModifiedFiles(
+	worktreePath: string,
+	baseBranch: string,
+): Promise<string[]> {
+	const mergeBase = (await git(worktreePath, ["merge-base", baseBranch, "HEAD"]))?.trim();
+	const changed = await git(worktreePath, ["diff", "--name-only", mergeBase || baseBranch]);
+	const untracked = await git(worktreePath, ["ls-files", "--others", "--exclude-standard"]);
+	const files = new Set<string>();
+	for (const line of `${changed ?? ""}\n${untracked ?? ""}`.split("\n")) {
+		const path = line.trim();
+		if (path.length > 0) files.add(path);
+	}
+	return [...files].sort();
+}
+
+/**
+ * Write a checkpoint for a terminated session and record the handoff.
+ *
+ * @param options.detail - Why the watchdog terminated the session (shown to the next session)
+ */
+export async function writeRecoveryHandoff(options: {
+	root: string;
+	session: AgentSession;
+	reason: Extract<SessionHandoff["reason"], "timeout" | "crash">;
+	detail: string;
+	baseBranch: string;
+	eventStore: EventStore | null;
+}): Promise<SessionHandoff> {
+	const { root, session, reason, detail, baseBranch, eventStore } = options;
+
+	let activity = "";
+	if (eventStore) {
+		try {
+			activity = summarizeRecentActivity(
+				eventStore.getByAgent(session.agentName, { since: session.startedAt }),
+			);
+		} catch {
+			// Event history is supplementary
+		}
+	}
+	const filesModified = await listModifiedFiles(session.worktreePath, baseBranch);
+
+	return initiateHandoff({
+		agentsDir: join(root, ".overstory", "agents"),
+		agentName: session.agentName,
+		sessionId: session.id,
+		taskId: session.taskId,
+		reason,
+		progressSummary:
+			`Previous session was terminated by the watchdog (${detail}).` +
+			(activity ? ` Last activity: ${activity}` : " No tool activity was recorded."),
+		pendingWork:
+			`Finish task ${session.taskId}. Review the uncommitted and committed changes on ` +
+			`${session.branchName} before continuing; do not redo finished work.`,
+		currentBranch: session.branchName,
+		filesModified,
+		mulchDomains: [],
+	});
+}
+
+/**
+ * Build the `ov sling` arguments that re-sling a session into its worktree.
+ * The task's spec is passed when .overstory/specs/<task-id>.md exists,
+ * headless sessions are re-slung headless, and the recorded runtime is kept.
+ */
+export async function buildResumeArgs(root: string, session: AgentSession): Promise<string[]> {
+	const args = [
+		"sling",
+		session.taskId,
+		"--capability",
+		session.capability,
+		"--name",
+		session.agentName,
+		"--depth",
+		String(session.depth),
+		"--resume",
+	];
+	if (session.parentAgent) {
+		args.push("--parent", session.parentAgent);
+	}
+	if (session.rpcEndpoint) {
+		args.push("--headless");
+	}
+	if (session.runtime) {
+		args.push("--runtime", session.runtime);
+	}
+	const specPath = join(root, ".overstory", "specs", `${session.taskId}.md`);
+	if (await Bun.file(specPath).exists()) {
+		args.push("--spec", specPath);
+	}
+	return args;
+}
+
+/** Default RespawnFn: runs `ov <args>` in the project root. */
+export async function respawnAgent(
+	args: string[],
+	root: string,
+): Promise<{ exitCode: number; stderr: string }> {
+	const proc = Bun.spawn(["ov", ...args], { cwd: root, stdout: "pipe", stderr: "pipe" });
+	const [stderr, exitCode] = await Promise.all([new Response(proc.stderr).text(), proc.exited]);
+	return { exitCode, stderr: stderr.trim() };
+}
@@ -1,6 +1,6 @@
 /**
  * Tests for Tier 1 AI-assisted triage.
- * classifyResponse and buildTriagePrompt are pure functions — tested directly.
+ * parseTriageVerdict and buildTriagePrompt are pure functions — tested directly.
  * triageAgent uses real filesystem (temp dirs). Claude spawn is expected to
  * fail in test environments, exercising the fallback-to-extend path.
  * spawnClaude is NOT mocked — we rely on it failing naturally in tests.
@@ -10,83 +10,158 @@ import { afterEach, beforeEach, describe, expect, test } from "bun:test";
 import { mkdir, mkdtemp } from "node:fs/promises";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
+import { createEventStore } from "../events/store.ts";
+import { createMailClient } from "../mail/client.ts";
+import { createMailStore } from "../mail/store.ts";
 import { cleanupTempDir } from "../test-helpers.ts";
-import { buildTriagePrompt, classifyResponse, triageAgent } from "./triage.ts";
-
-describe("classifyResponse", () => {
-	test("returns 'retry' when response contains 'retry'", () => {
-		const result = classifyResponse("The operation should retry.");
-		expect(result).toBe("retry");
+import {
+	buildTriagePrompt,
+	gatherTriageContext,
+	parseTriageVerdict,
+	type TriageContext,
+	triageAgent,
+} from "./triage.ts";
+
+describe("parseTriageVerdict", () => {
+	test("parses a bare JSON verdict", () => {
+		const verdict = parseTriageVerdict(
+			JSON.stringify({
+				action: "nudge",
+				rootCause: "test_failure",
+				confidence: 0.8,
+				nudgeMessage: "Fix the failing test in parser.test.ts",
+				reasoning: "Tests fail on an off-by-one error",
+			}),
+		);
+		expect(verdict).toEqual({
+			action: "nudge",
+			rootCause: "test_failure",
+			confidence: 0.8,
+			nudgeMessage: "Fix the failing test in parser.test.ts",
+			reasoning: "Tests fail on an off-by-one error",
+		});
 	});
 
-	test("returns 'retry' when response contains 'recoverable'", () => {
-		const result = classifyResponse("This error is recoverable.");
-		expect(result).toBe("retry");
+	test("extracts a verdict wrapped in prose and a code fence", () => {
+		const verdict = parseTriageVerdict(
+			'Here is my analysis:\n```json\n{"action": "split", "rootCause": "task_too_large", "confidence": 0.7}\n```',
+		);
+		expect(verdict?.action).toBe("split");
+		expect(verdict?.nudgeMessage).toBeNull();
+		expect(verdict?.reasoning).toBe("");
 	});
 
-	test("returns 'terminate' when response contains 'terminate'", () => {
-		const result = classifyResponse("You should terminate the agent.");
-		expect(result).toBe("terminate");
+	test("maps unknown root causes to 'unknown' and clamps confidence", () => {
+		const verdict = parseTriageVerdict(
+			'{"action": "escalate", "rootCause": "gremlins", "confidence": 3}',
+		);
+		expect(verdict?.rootCause).toBe("unknown");
+		expect(verdict?.confidence).toBe(1);
 	});
 
-	test("returns 'terminate' when response contains 'fatal'", () => {
-		const result = classifyResponse("This is a fatal error.");
-		expect(result).toBe("terminate");
+	test("rejects free text, even when it mentions failures", () => {
+		expect(parseTriageVerdict("The tests failed; terminate the agent.")).toBeNull();
+		expect(parseTriageVerdict("")).toBeNull();
 	});
 
-	test("returns 'terminate' when response contains 'failed'", () => {
-		const result = classifyResponse("The operation has failed.");
-		expect(result).toBe("terminate");
+	test("rejects unknown actions and missing confidence", () => {
+		expect(parseTriageVerdict('{"action": "retry", "confidence": 0.9}')).toBeNull();
+		expect(parseTriageVerdict('{"action": "nudge"}')).toBeNull();
+		expect(parseTriageVerdict('{"action": "nudge", "confidence": "high"}')).toBeNull();
 	});
+});
 
-	test("handles mixed case (e.g., 'RETRY', 'Fatal')", () => {
-		expect(classifyResponse("RETRY this operation")).toBe("retry");
-		expect(classifyResponse("Fatal error occurred")).toBe("terminate");
-		expect(classifyResponse("RecOverAble issue")).toBe("retry");
+describe("buildTriagePrompt", () => {
+	const context: TriageContext = {
+		logTail: "Error: something went wrong\nat line 42",
+		toolEvents: ["10:00:01 bash: bun test"],
+		unreadMail: ["[status/high] from lead-1: Status?"],
+		pane: "1 fail",
+	};
+
+	test("contains agent name and lastActivity timestamp", () => {
+		const timestamp = "2026-02-13T10:00:00Z";
+		const prompt = buildTriagePrompt("test-agent", timestamp, context);
+		expect(prompt).toContain("test-agent");
+		expect(prompt).toContain(timestamp);
 	});
 
-	test("returns 'extend' when response contains none of the keywords", () => {
-		const result = classifyResponse("The agent is processing data.");
-		expect(result).toBe("extend");
+	test("includes every context source", () => {
+		const prompt = buildTriagePrompt("test-agent", "2026-02-13T10:00:00Z", context);
+		expect(prompt).toContain("## Recent tool calls");
+		expect(prompt).toContain("10:00:01 bash: bun test");
+		expect(prompt).toContain("from lead-1: Status?");
+		expect(prompt).toContain("## Terminal pane");
+		expect(prompt).toContain("at line 42");
 	});
 
-	test("returns 'extend' for empty string", () => {
-		const result = classifyResponse("");
-		expect(result).toBe("extend");
+	test("marks missing sources as (none)", () => {
+		const prompt = buildTriagePrompt("test-agent", "2026-02-13T10:00:00Z", {
+			logTail: null,
+			toolEvents: [],
+			unreadMail: [],
+			pane: null,
+		});
+		expect(prompt.split("(none)").length - 1).toBe(4);
 	});
 
-	test("first match wins when response has multiple keywords", () => {
-		// 'retry' is checked before 'terminate'
-		const result = classifyResponse("retry this but it may terminate later");
-		expect(result).toBe("retry");
+	test("requests a JSON verdict listing every action", () => {
+		const prompt = buildTriagePrompt("test-agent", "2026-02-13T10:00:00Z", context);
+		expect(prompt).toContain("JSON");
+		for (const action of ["nudge", "reassign", "split", "escalate", "terminate", "extend"]) {
+			expect(prompt).toContain(`"${action}"`);
+		}
 	});
 });
 
-describe("buildTriagePrompt", () => {
-	test("contains agent name in output", () => {
-		const prompt = buildTriagePrompt("test-agent", "2026-02-13T10:00:00Z", "log content");
-		expect(prompt).toContain("test-agent");
-	});
+describe("gatherTriageContext", () => {
+	let tempRoot: string;
 
-	test("contains lastActivity timestamp in output", () => {
-		const timestamp = "2026-02-13T10:00:00Z";
-		const prompt = buildTriagePrompt("test-agent", timestamp, "log content");
-		expect(prompt).toContain(timestamp);
+	beforeEach(async () => {
+		tempRoot = await mkdtemp(join(tmpdir(), "triage-context-test-"));
+		await mkdir(join(tempRoot, ".overstory"), { recursive: true });
 	});
 
-	test("contains log content wrapped in code fences", () => {
-		const logContent = "Error: something went wrong\nat line 42";
-		const prompt = buildTriagePrompt("test-agent", "2026-02-13T10:00:00Z", logContent);
-		expect(prompt).toContain("```");
-		expect(prompt).toContain(logContent);
-		expect(prompt.split("```").length).toBeGreaterThanOrEqual(3); // Opening and closing fences
+	afterEach(async () => {
+		await cleanupTempDir(tempRoot);
 	});
 
-	test("contains classification instructions (retry/terminate/extend)", () => {
-		const prompt = buildTriagePrompt("test-agent", "2026-02-13T10:00:00Z", "log content");
-		expect(prompt).toContain("retry");
-		expect(prompt).toContain("terminate");
-		expect(prompt).toContain("extend");
+	test("collects recent tool events and unread mail", async () => {
+		const eventStore = createEventStore(join(tempRoot, ".overstory", "events.db"));
+		eventStore.insert({
+			runId: null,
+			agentName: "test-agent",
+			sessionId: null,
+			eventType: "tool_start",
+			toolName: "Bash",
+			toolArgs: JSON.stringify({ command: "bun test" }),
+			toolDurationMs: null,
+			level: "info",
+			data: null,
+		});
+		eventStore.close();
+		const mailStore = createMailStore(join(tempRoot, ".overstory", "mail.db"));
+		createMailClient(mailStore).send({
+			from: "lead-1",
+			to: "test-agent",
+			subject: "Status?",
+			body: "How is it going?",
+			type: "status",
+			priority: "high",
+		});
+		mailStore.close();
+
+		const context = await gatherTriageContext({
+			agentName: "test-agent",
+			root: tempRoot,
+			lastActivity: new Date().toISOString(),
+		});
+
+		expect(context.toolEvents).toHaveLength(1);
+		expect(context.toolEvents[0]).toContain("bash: bun test");
+		expect(context.unreadMail).toEqual(["[status/high] from lead-1: Status?"]);
+		expect(context.logTail).toBeNull();
+		expect(context.pane).toBeNull();
 	});
 });
 
@@ -107,7 +182,7 @@ describe("triageAgent", () => {
 			root: tempRoot,
 			lastActivity: "2026-02-13T10:00:00Z",
 		});
-		expect(result).toBe("extend");
+		expect(result.action).toBe("extend");
 	});
 
 	test("returns 'extend' when logs directory exists but is empty", async () => {
@@ -119,7 +194,7 @@ describe("triageAgent", () => {
 			root: tempRoot,
 			lastActivity: "2026-02-13T10:00:00Z",
 		});
-		expect(result).toBe("extend");
+		expect(result.action).toBe("extend");
 	});
 
 	test("returns 'extend' when logs directory has session dir but no session.log", async () => {
@@ -131,7 +206,7 @@ describe("triageAgent", () => {
 			root: tempRoot,
 			lastActivity: "2026-02-13T10:00:00Z",
 		});
-		expect(result).toBe("extend");
+		expect(result.action).toBe("extend");
 	});
 
 	test("returns 'extend' when session.log exists but claude binary fails", async () => {
@@ -160,6 +235,6 @@ describe("triageAgent", () => {
 			lastActivity: "2026-02-13T10:00:00Z",
 			timeoutMs: 500,
 		});
-		expect(result).toBe("extend");
+		expect(result.action).toBe("extend");
 	});
 });
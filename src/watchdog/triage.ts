@@ -1,60 +1,175 @@
 /**
  * Tier 1 AI-assisted failure classification for stalled agents.
  *
- * When an agent is detected as stalled, triage reads recent log entries and
- * uses Claude to classify the situation as recoverable, fatal, or long-running.
- * Falls back to "extend" if Claude is unavailable.
+ * When an agent is detected as stalled, triage gathers what the agent was
+ * doing (session log tail, recent tool events, unread mail, tmux pane) and
+ * asks the model for a JSON verdict: root cause, confidence, recommended
+ * action, and guidance to send the agent. The daemon acts on the verdict.
+ * Falls back to "extend" if the model is unavailable or the verdict is invalid.
  */
 
 import { readdir } from "node:fs/promises";
 import { join } from "node:path";
 import { AgentError } from "../errors.ts";
+import { createEventStore } from "../events/store.ts";
+import { filterToolArgs } from "../events/tool-filter.ts";
+import { createMailStore } from "../mail/store.ts";
 import { getRuntime } from "../runtimes/registry.ts";
-import type { OverstoryConfig } from "../types.ts";
+import type { OverstoryConfig, TriageVerdict } from "../types.ts";
+import { TRIAGE_ACTIONS, TRIAGE_ROOT_CAUSES } from "../types.ts";
+import { capturePaneContent } from "../worktree/tmux.ts";
+
+/** How far before the last activity to look for tool events. */
+const EVENT_WINDOW_MS = 30 * 60_000;
+
+/** Maximum tool events included in the prompt. */
+const MAX_TOOL_EVENTS = 20;
+
+/** Pane history lines included in the prompt. */
+const PANE_LINES = 40;
+
+/** Everything triage knows about a stalled agent. Null/empty when unavailable. */
+export interface TriageContext {
+	/** Tail of the most recent session.log. */
+	logTail: string | null;
+	/** Recent tool calls and errors, oldest first, one line each. */
+	toolEvents: string[];
+	/** Unread mail addressed to the agent, one line each. */
+	unreadMail: string[];
+	/** Visible content of the agent's tmux pane. */
+	pane: string | null;
+}
+
+/** Safe default when triage cannot reach a decision: leave the agent running. */
+function extendVerdict(reasoning: string): TriageVerdict {
+	return { action: "extend", rootCause: "unknown", confidence: 0, nudgeMessage: null, reasoning };
+}
 
 /**
- * Triage a stalled agent by analyzing its recent log output with Claude.
+ * Triage a stalled agent by analyzing its recent activity with the model.
  *
  * Steps:
- * 1. Find the most recent session log directory for the agent
- * 2. Read the last 50 lines of session.log
- * 3. Ask Claude to classify the situation
- * 4. Parse the response to determine action
+ * 1. Gather context: session log tail, tool events, unread mail, tmux pane
+ * 2. Ask the model for a JSON verdict
+ * 3. Validate the verdict (invalid responses fall back to "extend")
  *
  * @param options.agentName - Name of the agent to triage
  * @param options.root - Project root directory (contains .overstory/)
  * @param options.lastActivity - ISO timestamp of the agent's last recorded activity
- * @returns "retry" if recoverable, "terminate" if fatal, "extend" if likely long-running
+ * @param options.tmuxSession - The agent's tmux session (omit to skip pane capture)
+ * @returns The validated verdict, or an "extend" verdict when triage is unavailable
  */
 export async function triageAgent(options: {
 	agentName: string;
 	root: string;
 	lastActivity: string;
+	tmuxSession?: string;
 	/** Timeout in ms for the Claude subprocess. Defaults to 30_000 (30s). */
 	timeoutMs?: number;
 	/** Overstory config for runtime resolution. */
 	config?: OverstoryConfig;
-}): Promise<"retry" | "terminate" | "extend"> {
-	const { agentName, root, lastActivity, timeoutMs, config } = options;
-	const logsDir = join(root, ".overstory", "logs", agentName);
+}): Promise<TriageVerdict> {
+	const { agentName, lastActivity, timeoutMs, config } = options;
+
+	const context = await gatherTriageContext(options);
+	if (
+		context.logTail === null &&
+		context.toolEvents.length === 0 &&
+		context.unreadMail.length === 0 &&
+		context.pane === null
+	) {
+		// Nothing to analyze — assume long-running operation
+		return extendVerdict("No logs, events, mail, or pane content available");
+	}
 
-	let logContent: string;
+	const prompt = buildTriagePrompt(agentName, lastActivity, context);
+
+	let response: string;
 	try {
-		logContent = await readRecentLog(logsDir);
+		response = await spawnClaude(prompt, timeoutMs, config);
 	} catch {
-		// No logs available — assume long-running operation
-		return "extend";
+		// Claude not available — default to extend (safe fallback)
+		return extendVerdict("Triage model unavailable");
 	}
+	return parseTriageVerdict(response) ?? extendVerdict("Triage response was not a valid verdict");
+}
 
-	const prompt = buildTriagePrompt(agentName, lastActivity, logContent);
+/**
+ * Collect triage context for an agent. Each source is optional: a missing
+ * log, database, or tmux session leaves its field empty.
+ */
+export async function gatherTriageContext(options: {
+	agentName: string;
+	root: string;
+	lastActivity: string;
+	tmuxSession?: string;
+}): Promise<TriageContext> {
+	const { agentName, root, lastActivity, tmuxSession } = options;
+	const overstoryDir = join(root, ".overstory");
 
+	let logTail: string | null = null;
 	try {
-		const response = await spawnClaude(prompt, timeoutMs, config);
-		return classifyResponse(response);
+		logTail = await readRecentLog(join(overstoryDir, "logs", agentName));
 	} catch {
-		// Claude not available — default to extend (safe fallback)
-		return "extend";
+		// No session log
 	}
+
+	const toolEvents: string[] = [];
+	const eventsDbPath = join(overstoryDir, "events.db");
+	if (await Bun.file(eventsDbPath).exists()) {
+		try {
+			const eventStore = createEventStore(eventsDbPath);
+			try {
+				const since = new Date(new Date(lastActivity).getTime() - EVENT_WINDOW_MS).toISOString();
+				for (const event of eventStore.getByAgent(agentName, { since }).slice(-MAX_TOOL_EVENTS)) {
+					const time = event.createdAt.slice(11, 19);
+					if (event.eventType === "tool_start" && event.toolName !== null) {
+						let args: Record<string, unknown> = {};
+						try {
+							args = event.toolArgs ? (JSON.parse(event.toolArgs) as Record<string, unknown>) : {};
+						} catch {
+							// Summarize by tool name only
+						}
+						toolEvents.push(`${time} ${filterToolArgs(event.toolName, args).summary}`);
+					} else if (event.level === "error") {
+						toolEvents.push(`${time} ERROR ${event.eventType} ${event.data ?? ""}`.trimEnd());
+					}
+				}
+			} finally {
+				eventStore.close();
+			}
+		} catch {
+			// Event history is supplementary
+		}
+	}
+
+	const unreadMail: string[] = [];
+	const mailDbPath = join(overstoryDir, "mail.db");
+	if (await Bun.file(mailDbPath).exists()) {
+		try {
+			const mailStore = createMailStore(mailDbPath);
+			try {
+				for (const msg of mailStore.getUnread(agentName)) {
+					unreadMail.push(`[${msg.type}/${msg.priority}] from ${msg.from}: ${msg.subject}`);
+				}
+			} finally {
+				mailStore.close();
+			}
+		} catch {
+			// Mail is supplementary
+		}
+	}
+
+	let pane: string | null = null;
+	if (tmuxSession) {
+		try {
+			pane = await capturePaneContent(tmuxSession, PANE_LINES);
+		} catch {
+			// tmux unavailable
+		}
+	}
+
+	return { logTail, toolEvents, unreadMail, pane };
 }
 
 /**
@@ -99,27 +214,45 @@ async function readRecentLog(logsDir: string): Promise<string> {
 	return tail;
 }
 
+/** Render a prompt section, or a placeholder when the source is empty. */
+function promptSection(title: string, content: string | null): string[] {
+	return [`## ${title}`, "```", content && content.length > 0 ? content : "(none)", "```", ""];
+}
+
 /**
  * Build the triage prompt for Claude analysis.
  */
 export function buildTriagePrompt(
 	agentName: string,
 	lastActivity: string,
-	logContent: string,
+	context: TriageContext,
 ): string {
 	return [
-		"Analyze this agent log and classify the situation.",
+		"A coding agent has stalled. Diagnose why and recommend one action.",
 		`Agent: ${agentName}`,
 		`Last activity: ${lastActivity}`,
 		"",
-		"Respond with exactly one word: 'retry' if the error is recoverable,",
-		"'terminate' if the error is fatal or the agent has failed,",
-		"or 'extend' if this looks like a long-running operation.",
+		...promptSection("Recent tool calls", context.toolEvents.join("\n")),
+		...promptSection("Unread mail", context.unreadMail.join("\n")),
+		...promptSection("Terminal pane", context.pane),
+		...promptSection("Session log (tail)", context.logTail),
+		"Respond with only a JSON object, no other text:",
+		"{",
+		`  "action": one of ${TRIAGE_ACTIONS.map((a) => `"${a}"`).join(", ")},`,
+		`  "rootCause": one of ${TRIAGE_ROOT_CAUSES.map((c) => `"${c}"`).join(", ")},`,
+		'  "confidence": number from 0 to 1,',
+		'  "nudgeMessage": specific guidance for the agent, or null,',
+		'  "reasoning": one sentence',
+		"}",
 		"",
-		"Log content:",
-		"```",
-		logContent,
-		"```",
+		"Actions:",
+		"- nudge: the agent can recover on its own with specific guidance (e.g. which test to fix)",
+		"- reassign: this session is unrecoverable but the task is fine; restart it in a fresh session",
+		"- split: the task is too large for one agent; ask the parent to break it up",
+		"- escalate: a human decision or missing access is needed",
+		"- terminate: the task cannot succeed; stop the agent",
+		"- extend: the agent is busy with a long-running operation; leave it alone",
+		"Failing tests or build errors usually call for nudge, not terminate.",
 	].join("\n");
 }
 
@@ -168,22 +301,46 @@ async function spawnClaude(
 }
 
 /**
- * Classify Claude's response into a triage action.
+ * Parse and validate a triage verdict from the model's response.
  *
- * @param response - Claude's raw response text
- * @returns "retry" | "terminate" | "extend"
+ * Accepts a bare JSON object or one wrapped in prose or a code fence. Unknown
+ * root causes become "unknown"; confidence is clamped to 0-1.
+ *
+ * @returns The verdict, or null if the response has no valid JSON verdict
  */
-export function classifyResponse(response: string): "retry" | "terminate" | "extend" {
-	const lower = response.toLowerCase();
+export function parseTriageVerdict(response: string): TriageVerdict | null {
+	const start = response.indexOf("{");
+	const end = response.lastIndexOf("}");
+	if (start === -1 || end <= start) {
+		return null;
+	}
 
-	if (lower.includes("retry") || lower.includes("recoverable")) {
-		return "retry";
+	let raw: unknown;
+	try {
+		raw = JSON.parse(response.slice(start, end + 1));
+	} catch {
+		return null;
 	}
+	if (raw === null || typeof raw !== "object" || Array.isArray(raw)) {
+		return null;
+	}
+	const obj = raw as Record<string, unknown>;
 
-	if (lower.includes("terminate") || lower.includes("fatal") || lower.includes("failed")) {
-		return "terminate";
+	const action = TRIAGE_ACTIONS.find((a) => a === obj.action);
+	if (action === undefined || typeof obj.confidence !== "number" || Number.isNaN(obj.confidence)) {
+		return null;
 	}
 
-	// Default: assume long-running operation
-	return "extend";
+	const nudgeMessage =
+		typeof obj.nudgeMessage === "string" && obj.nudgeMessage.trim().length > 0
+			? obj.nudgeMessage.trim()
+			: null;
+
+	return {
+		action,
+		rootCause: TRIAGE_ROOT_CAUSES.find((c) => c === obj.rootCause) ?? "unknown",
+		confidence: Math.min(1, Math.max(0, obj.confidence)),
+		nudgeMessage,
+		reasoning: typeof obj.reasoning === "string" ? obj.reasoning.trim() : "",
+	};
 }
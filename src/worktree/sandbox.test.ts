@@ -0,0 +1,141 @@
+import { describe, expect, test } from "bun:test";
+import { DEFAULT_CONFIG } from "../config.ts";
+import { AgentError } from "../errors.ts";
+import type { OverstoryConfig, SandboxConfig } from "../types.ts";
+import {
+	buildSandboxArgs,
+	resolveSandboxProfile,
+	sandboxSpawnCommand,
+	wrapSandboxCommand,
+} from "./sandbox.ts";
+
+const WORKTREE = "/project/.overstory/worktrees/builder-1";
+
+function makeConfig(sandbox?: SandboxConfig): OverstoryConfig {
+	const config = structuredClone(DEFAULT_CONFIG);
+	config.project.root = "/project";
+	config.sandbox = sandbox;
+	return config;
+}
+
+/** Group the flat argv into [flag, ...operands] mounts for readable assertions. */
+function mounts(args: string[]): string[] {
+	const result: string[] = [];
+	for (let i = 0; i < args.length; i++) {
+		const flag = args[i] ?? "";
+		if (flag.includes("bind")) {
+			result.push(`${flag} ${args[i + 1]}`);
+			i += 2;
+		}
+	}
+	return result;
+}
+
+describe("resolveSandboxProfile", () => {
+	test("returns the capability's profile or null", () => {
+		const config = makeConfig({ capabilities: { scout: { mode: "read-only" } } });
+		expect(resolveSandboxProfile(config, "scout")).toEqual({ mode: "read-only" });
+		expect(resolveSandboxProfile(config, "builder")).toBeNull();
+		expect(resolveSandboxProfile(makeConfig(), "scout")).toBeNull();
+	});
+});
+
+describe("buildSandboxArgs", () => {
+	test("worktree mode: read-only root, writable worktree, commit paths in .git and state", () => {
+		const args = buildSandboxArgs(makeConfig(), { mode: "worktree" }, WORKTREE, "/home/dev");
+		const m = mounts(args);
+		expect(m[0]).toBe("--ro-bind /");
+		expect(m).toContain("--bind /project/.overstory");
+		expect(m).toContain("--ro-bind-try /project/.overstory/config.yaml");
+		expect(m).not.toContain("--bind /project/.git");
+		expect(m).toContain("--bind-try /home/dev/.claude");
+		// Other worktrees are read-only, then the agent's own worktree is re-bound writable
+		expect(m.indexOf("--ro-bind-try /project/.overstory/worktrees")).toBeLessThan(
+			m.indexOf(`--bind ${WORKTREE}`),
+		);
+		expect(m.indexOf("--bind /project/.overstory")).toBeLessThan(
+			m.indexOf("--ro-bind-try /project/.overstory/policy.yaml"),
+		);
+		expect(args).not.toContain("--unshare-net");
+		expect(args.slice(-2)).toEqual(["--chdir", WORKTREE]);
+	});
+
+	test("worktree mode binds only what commits need in .git; hooks, config and refs stay read-only", () => {
+		const m = mounts(buildSandboxArgs(makeConfig(), { mode: "worktree" }, WORKTREE, "/h"));
+		for (const entry of ["hooks", "config", "refs", "packed-refs"]) {
+			expect(m).toContain(`--ro-bind-try /project/.git/${entry}`);
+		}
+		const writable = [
+			"--bind-try /project/.git/objects",
+			"--bind-try /project/.git/worktrees/builder-1",
+			"--bind-try /project/.git/refs/heads/overstory/builder-1",
+			"--bind-try /project/.git/logs/refs/heads/overstory/builder-1",
+		];
+		for (const mount of writable) {
+			expect(m).toContain(mount);
+			// Writable parts come after the read-only re-binds so they win
+			expect(m.indexOf(mount)).toBeGreaterThan(m.indexOf("--ro-bind-try /project/.git/refs"));
+		}
+		expect(m.filter((x) => x.startsWith("--bind") && x.includes("/.git"))).toEqual(writable);
+
+		const renamed = mounts(
+			buildSandboxArgs(
+				makeConfig(),
+				{ mode: "worktree" },
+				WORKTREE,
+				"/h",
+				"/project/.git/worktrees/builder-12",
+			),
+		);
+		expect(renamed).toContain("--bind-try /project/.git/worktrees/builder-12");
+		expect(renamed).not.toContain("--bind-try /project/.git/worktrees/builder-1");
+	});
+
+	test("read-only mode keeps the worktree and .git read-only; network can be disabled", () => {
+		const config = makeConfig({ writablePaths: ["~/.pi", "/var/cache/tool"] });
+		const args = buildSandboxArgs(config, { mode: "read-only", network: false }, WORKTREE, "/h");
+		const m = mounts(args);
+		expect(m).toContain(`--ro-bind ${WORKTREE}`);
+		expect(m.filter((x) => x.includes("/project/.git"))).toEqual([]);
+		expect(m.filter((x) => x.startsWith("--bind-try"))).toEqual([
+			"--bind-try /h/.pi",
+			"--bind-try /var/cache/tool",
+		]);
+		expect(args).toContain("--unshare-net");
+	});
+});
+
+describe("wrapSandboxCommand", () => {
+	test("quotes every word so the runtime command survives the shell", async () => {
+		const command = `claude --model sonnet --append-system-prompt 'it'"'"'s fine' && echo "$HOME"`;
+		const wrapped = wrapSandboxCommand(command, ["--ro-bind", "/", "/"]);
+		const proc = Bun.spawn(["sh", "-c", `set -- ${wrapped}; printf '%s\\n' "$@"`], {
+			stdout: "pipe",
+		});
+		const words = (await new Response(proc.stdout).text()).trimEnd().split("\n");
+		await proc.exited;
+		expect(words).toEqual(["bwrap", "--ro-bind", "/", "/", "--", "/bin/sh", "-c", command]);
+	});
+});
+
+describe("sandboxSpawnCommand", () => {
+	test("leaves unsandboxed capabilities alone", () => {
+		const config = makeConfig({ capabilities: { scout: { mode: "read-only" } } });
+		expect(sandboxSpawnCommand(config, "builder", WORKTREE, "claude")).toBe("claude");
+	});
+
+	test("fails closed when the sandbox binary is missing", () => {
+		const config = makeConfig({
+			command: "ov-test-missing-sandbox",
+			capabilities: { scout: { mode: "read-only" } },
+		});
+		expect(() => sandboxSpawnCommand(config, "scout", WORKTREE, "claude")).toThrow(AgentError);
+	});
+
+	test("wraps the command with the configured binary when it exists", () => {
+		const config = makeConfig({ command: "sh", capabilities: { scout: { mode: "read-only" } } });
+		const wrapped = sandboxSpawnCommand(config, "scout", WORKTREE, "claude");
+		expect(wrapped.startsWith("'sh' '--ro-bind' '/' '/'")).toBe(true);
+		expect(wrapped.endsWith("'--' '/bin/sh' '-c' 'claude'")).toBe(true);
+	});
+});
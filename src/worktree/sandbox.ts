@@ -0,0 +1,205 @@
+/**
+ * Filesystem sandbox for agent processes.
+ *
+ * The PreToolUse/extension guards inspect tool arguments and can be fooled by
+ * a crafted Bash command. When `sandbox.capabilities` lists an agent's
+ * capability, `ov sling` instead launches the runtime under bubblewrap
+ * (`bwrap`), which mounts the whole filesystem read-only and only the paths
+ * the agent legitimately writes read-write:
+ *
+ * - the agent's worktree (not in "read-only" mode)
+ * - the parts of the project's .git that commits touch: objects/, the
+ *   worktree's own admin directory and the agent's `overstory/<agent>/`
+ *   branch refs (not in "read-only" mode). Hooks, config and every other
+ *   ref stay read-only, so an agent cannot plant code that runs unsandboxed
+ *   the next time git runs in the canonical repo, or move the canonical branch
+ * - .overstory/ for the state databases the hooks write, minus the config
+ *   files and the other agents' worktrees
+ * - /tmp and the runtime state directories in `sandbox.writablePaths`
+ *
+ * Network access can additionally be cut off with a private network namespace.
+ */
+
+import { readFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { basename, isAbsolute, join, resolve } from "node:path";
+import { AgentError } from "../errors.ts";
+import type { OverstoryConfig, SandboxProfile } from "../types.ts";
+
+/** Default sandbox wrapper binary. */
+export const DEFAULT_SANDBOX_COMMAND = "bwrap";
+
+/**
+ * Paths kept writable by default (`~` is the user's home directory): the
+ * state directories of the built-in runtimes, which write session files and
+ * transcripts there. Missing paths are skipped.
+ */
+export const DEFAULT_SANDBOX_WRITABLE_PATHS = [
+	"~/.claude",
+	"~/.claude.json",
+	"~/.pi",
+	"~/.codex",
+	"~/.copilot",
+	"~/.cache",
+];
+
+/** Entries under .overstory/ that stay read-only so agents cannot rewrite their own config. */
+const PROTECTED_STATE_ENTRIES = [
+	"config.yaml",
+	"config.local.yaml",
+	"pricing.yaml",
+	"policy.yaml",
+	"runtimes",
+	"agent-defs",
+	"agent-manifest.json",
+	"hooks.json",
+	"egress-proxy.json",
+];
+
+/** Entries under .git/ re-bound read-only before the writable parts are bound. */
+const PROTECTED_GIT_ENTRIES = ["hooks", "config", "refs", "packed-refs", "info", "logs"];
+
+/** Sandbox profile for a capability, or null when it runs unsandboxed. */
+export function resolveSandboxProfile(
+	config: OverstoryConfig,
+	capability: string,
+): SandboxProfile | null {
+	return config.sandbox?.capabilities?.[capability] ?? null;
+}
+
+/** Expand a leading `~` to the home directory. */
+function expandHome(path: string, home: string): string {
+	if (path === "~") return home;
+	return path.startsWith("~/") ? join(home, path.slice(2)) : path;
+}
+
+/**
+ * Build the bubblewrap arguments for an agent.
+ *
+ * Later mounts override earlier ones, so the order goes from the read-only
+ * root to the most specific writable path.
+ *
+ * The agent name is the worktree directory's name (see createWorktree).
+ * `gitAdminDir` is the worktree's directory under .git/worktrees/, which git
+ * names after the worktree directory unless that name was taken.
+ */
+export function buildSandboxArgs(
+	config: OverstoryConfig,
+	profile: SandboxProfile,
+	worktreePath: string,
+	home: string = homedir(),
+	gitAdminDir?: string,
+): string[] {
+	const root = config.project.root;
+	const stateDir = join(root, ".overstory");
+	const worktreesDir = isAbsolute(config.worktrees.baseDir)
+		? config.worktrees.baseDir
+		: join(root, config.worktrees.baseDir);
+	const writable = profile.mode === "worktree";
+	const writablePaths = config.sandbox?.writablePaths ?? DEFAULT_SANDBOX_WRITABLE_PATHS;
+
+	const args = [
+		"--ro-bind",
+		"/",
+		"/",
+		"--dev",
+		"/dev",
+		"--proc",
+		"/proc",
+		"--bind",
+		"/tmp",
+		"/tmp",
+	];
+	args.push("--bind", stateDir, stateDir);
+	for (const entry of PROTECTED_STATE_ENTRIES) {
+		const path = join(stateDir, entry);
+		args.push("--ro-bind-try", path, path);
+	}
+	args.push("--ro-bind-try", worktreesDir, worktreesDir);
+	if (writable) {
+		const gitDir = join(root, ".git");
+		const agentName = basename(worktreePath);
+		for (const entry of PROTECTED_GIT_ENTRIES) {
+			const path = join(gitDir, entry);
+			args.push("--ro-bind-try", path, path);
+		}
+		const writableGitPaths = [
+			join(gitDir, "objects"),
+			gitAdminDir ?? join(gitDir, "worktrees", agentName),
+			join(gitDir, "refs", "heads", "overstory", agentName),
+			join(gitDir, "logs", "refs", "heads", "overstory", agentName),
+		];
+		for (const path of writableGitPaths) {
+			args.push("--bind-try", path, path);
+		}
+	}
+	args.push(writable ? "--bind" : "--ro-bind", worktreePath, worktreePath);
+	for (const entry of writablePaths) {
+		const path = expandHome(entry, home);
+		args.push("--bind-try", path, path);
+	}
+	if (profile.network === false) {
+		args.push("--unshare-net");
+	}
+	args.push("--die-with-parent", "--chdir", worktreePath);
+	return args;
+}
+
+/** Quote a string as a single POSIX shell word. */
+function shellQuote(value: string): string {
+	return `'${value.replace(/'/g, "'\\''")}'`;
+}
+
+/**
+ * Wrap a runtime's shell command so it runs inside the sandbox.
+ * The environment is inherited, so variables exported before the wrapper
+ * (tmux session env, broker env) still reach the runtime.
+ */
+export function wrapSandboxCommand(
+	command: string,
+	sandboxArgs: string[],
+	sandboxCommand: string = DEFAULT_SANDBOX_COMMAND,
+): string {
+	const words = [sandboxCommand, ...sandboxArgs, "--", "/bin/sh", "-c", command];
+	return words.map(shellQuote).join(" ");
+}
+
+/**
+ * Sandbox a spawn command for a capability, or return it unchanged when the
+ * capability runs unsandboxed. Fails closed: throws when the capability is
+ * sandboxed but the wrapper binary is not installed.
+ */
+export function sandboxSpawnCommand(
+	config: OverstoryConfig,
+	capability: string,
+	worktreePath: string,
+	command: string,
+): string {
+	const profile = resolveSandboxProfile(config, capability);
+	if (profile === null) {
+		return command;
+	}
+	const sandboxCommand = config.sandbox?.command ?? DEFAULT_SANDBOX_COMMAND;
+	if (Bun.which(sandboxCommand) === null) {
+		throw new AgentError(
+			`${capability} agents are sandboxed but "${sandboxCommand}" was not found on PATH. ` +
+				`Install bubblewrap or remove sandbox.capabilities.${capability} from config.yaml`,
+			{ capability },
+		);
+	}
+	return wrapSandboxCommand(
+		command,
+		buildSandboxArgs(config, profile, worktreePath, homedir(), readGitAdminDir(worktreePath)),
+		sandboxCommand,
+	);
+}
+
+/** The worktree's admin directory, from the `gitdir:` line of its .git file. */
+function readGitAdminDir(worktreePath: string): string | undefined {
+	try {
+		const match = /^gitdir:\s*(.+)$/m.exec(readFileSync(join(worktreePath, ".git"), "utf8"));
+		return match?.[1] ? resolve(worktreePath, match[1].trim()) : undefined;
+	} catch {
+		return undefined;
+	}
+}